@@ -0,0 +1,35 @@
+// Filename: MockPropertyDeed.sol
+// Description at the bottom of this file.
+
+// SPDX-License-Identifier: MIT
+// Specifies the Solidity compiler version for the contract.
+pragma solidity ^0.8.0;
+
+// Imports the ERC721 contract from OpenZeppelin for standard NFT functionality.
+import '@openzeppelin/contracts/token/ERC721/ERC721.sol';
+
+// MockPropertyDeed contract that inherits from ERC721 to represent a whole-property deed.
+contract MockPropertyDeed is ERC721 {
+  // Number of deeds minted so far; also the ID of the most recent deed
+  uint256 public totalMinted;
+
+  // Constructor that initializes the token with name "Mock Property Deed" and symbol "DEED".
+  constructor() ERC721('Mock Property Deed', 'DEED') {}
+
+  // Public function to mint a new deed to a specified address, returning its ID.
+  function mint(address to) external returns (uint256) {
+    totalMinted += 1;
+    // Internal ERC721 function to mint the deed.
+    _mint(to, totalMinted);
+    return totalMinted;
+  }
+}
+
+// Thorough Explanation:
+// MockPropertyDeed.sol is a minimal ERC-721 used only in local development to give the legacy Escrow.sol something to transfer.
+// Escrow.sol finalizes a sale by calling IERC721.transferFrom(seller, buyer, nftID), which the ERC-1155 RealEstate contract does not
+// implement, so the frontend's on-chain escrow mode mints one deed per escrow to the seller and has the seller approve the escrow
+// contract before any funds move.
+
+// Minting is unrestricted because the contract exists purely for Hardhat testing, mirroring MockUSDC. Deed IDs start at 1 and
+// increase by one per mint, so callers can read totalMinted (or simulate the mint call) to learn the ID of a new deed.
@@ -18,6 +18,8 @@ import PropertyDetail from './components/PropertyDetail/PropertyDetail';
 import FracEstatePropertyDetail from './components/PropertyDetail/FracEstatePropertyDetail';
 import Dashboard from './components/Dashboard/Dashboard';
 import Watchlist from './components/Watchlist/Watchlist';
+import ComparePage from './components/Compare/ComparePage';
+import { CompareTray } from './components/Compare/CompareTray';
 import ErrorBoundary from './components/common/ErrorBoundary';
 import { initializeFracEstate } from './utils/initializeFracEstate';
 import { GameEngine } from './components/GameEngine/GameEngine';
@@ -208,6 +210,11 @@ function App() {
                         <Watchlist />
                       </ProtectedRoute>
                     } />
+                    <Route path="/compare" element={
+                      <ProtectedRoute>
+                        <ComparePage />
+                      </ProtectedRoute>
+                    } />
                     <Route path="/dashboard" element={
                       <ProtectedRoute>
                         <Dashboard />
@@ -233,6 +240,7 @@ function App() {
                     <Route path="*" element={<Navigate to="/" replace />} />
                   </Routes>
                 </Box>
+                <CompareTray />
               </Box>
             </Router>
             </GameEngine>
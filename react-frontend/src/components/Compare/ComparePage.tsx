@@ -0,0 +1,219 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link as RouterLink, useSearchParams } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  Link,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Close, CompareArrows } from '@mui/icons-material';
+import type { Property } from '../../types/property';
+import { propertyService } from '../../services/firebaseService';
+import { CompareTrayService } from '../../services/compareTrayService';
+import { getSimulationClock } from '../../services/simulationClock';
+import { useCompareTray } from '../../hooks/useCompareTray';
+import { calculateRentalIncome } from '../../utils/rentalCalculations';
+
+interface CompareRow {
+  label: string;
+  value: (property: Property) => number | string;
+  format?: (value: number) => string;
+  better?: 'higher' | 'lower'; // Numeric rows only; the best value is highlighted
+}
+
+const formatUsd = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+const formatUsdCents = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(value);
+
+const formatDuration = (ms: number) => {
+  if (ms <= 0) return 'Ended';
+  const days = Math.floor(ms / (1000 * 60 * 60 * 24));
+  const hours = Math.floor((ms % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  const minutes = Math.floor((ms % (1000 * 60 * 60)) / (1000 * 60));
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
+const sharePriceOf = (property: Property) => property.sharePrice || (property.currentValue || property.price) / 100;
+
+const COMPARE_ROWS: CompareRow[] = [
+  { label: 'Price', value: p => p.price, format: formatUsd, better: 'lower' },
+  { label: 'Share price', value: sharePriceOf, format: formatUsd, better: 'lower' },
+  { label: 'Rental yield', value: p => p.rentalYield, format: v => `${(v * 100).toFixed(1)}%`, better: 'higher' },
+  {
+    label: 'Monthly rent per share',
+    value: p => calculateRentalIncome(p.currentValue || p.price, p.rentalYield, 1, { class: p.class, yearBuilt: p.yearBuilt }).netMonthlyIncomePerShare,
+    format: formatUsdCents,
+    better: 'higher'
+  },
+  { label: 'Class', value: p => `Class ${p.class}` },
+  { label: 'Region', value: p => p.region },
+  { label: 'Age', value: p => getSimulationClock().gameNow().getFullYear() - p.yearBuilt, format: v => `${v} yr`, better: 'lower' },
+  { label: 'Size', value: p => p.sqft, format: v => `${v.toLocaleString()} sqft`, better: 'higher' },
+  { label: 'Time remaining', value: p => p.selloutTime.toDate().getTime() - Date.now(), format: formatDuration, better: 'higher' },
+  { label: 'Co-investors', value: p => p.mockInvestors?.length ?? 0, format: v => v.toLocaleString(), better: 'higher' },
+];
+
+// Index of the best value in a row, or null when there is nothing to pick between
+function bestIndex(values: (number | string)[], better: CompareRow['better']): number | null {
+  if (!better || values.length < 2 || values.some(value => typeof value !== 'number')) return null;
+  const numbers = values as number[];
+  const best = better === 'higher' ? Math.max(...numbers) : Math.min(...numbers);
+  if (numbers.every(value => value === best)) return null;
+  return numbers.indexOf(best);
+}
+
+/**
+ * Up to four properties side by side, from the compare tray or a shared
+ * /compare?ids=... link, with the best value in each row highlighted
+ */
+export default function ComparePage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { items, removeFromCompare } = useCompareTray();
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The link's properties, else the tray's
+  const idsParam = searchParams.get('ids');
+  const propertyIds = useMemo(() => {
+    const ids = idsParam !== null ? idsParam.split(',').filter(Boolean) : items.map(item => item.id);
+    return Array.from(new Set(ids)).slice(0, CompareTrayService.MAX_ITEMS);
+  }, [idsParam, items]);
+  const idsKey = propertyIds.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    const ids = idsKey ? idsKey.split(',') : [];
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const loaded = await Promise.all(ids.map(id => propertyService.getProperty(id)));
+        if (cancelled) return;
+        setProperties(loaded.filter((property): property is Property => property !== null));
+        setMissing(ids.filter((_, index) => loaded[index] === null));
+      } catch (err) {
+        console.error('Failed to load properties to compare:', err);
+        if (!cancelled) setError('Failed to load properties');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [idsKey]);
+
+  const handleRemove = (propertyId: string) => {
+    removeFromCompare(propertyId);
+    const remaining = propertyIds.filter(id => id !== propertyId);
+    setSearchParams(remaining.length > 0 ? { ids: remaining.join(',') } : {}, { replace: true });
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Typography variant="h4" gutterBottom>
+        <CompareArrows sx={{ mr: 1, verticalAlign: 'middle' }} />
+        Compare Properties
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+      {missing.length > 0 && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {missing.length} propert{missing.length === 1 ? 'y is' : 'ies are'} no longer listed.
+        </Alert>
+      )}
+
+      {properties.length === 0 ? (
+        <Paper sx={{ p: 4, textAlign: 'center' }}>
+          <Typography variant="body1" gutterBottom>
+            Nothing to compare yet.
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Add up to {CompareTrayService.MAX_ITEMS} properties from the property cards or your watchlist.
+          </Typography>
+          <Button variant="outlined" component={RouterLink} to="/properties/full">
+            Browse Properties
+          </Button>
+        </Paper>
+      ) : (
+        <Paper sx={{ overflowX: 'auto' }}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell />
+                {properties.map(property => (
+                  <TableCell key={property.id} align="right" sx={{ minWidth: 200, verticalAlign: 'top' }}>
+                    <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+                      <Tooltip title="Remove from comparison">
+                        <IconButton size="small" onClick={() => handleRemove(property.id)}>
+                          <Close fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </Box>
+                    <Box
+                      component="img"
+                      src={property.imageUrl}
+                      alt={property.address}
+                      sx={{ width: '100%', height: 120, objectFit: 'cover', borderRadius: 1, mb: 1 }}
+                    />
+                    <Link component={RouterLink} to={`/property/${property.id}`} sx={{ fontWeight: 600 }}>
+                      {property.address}
+                    </Link>
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {property.city}, {property.state}
+                    </Typography>
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {COMPARE_ROWS.map(row => {
+                const values = properties.map(row.value);
+                const best = bestIndex(values, row.better);
+                return (
+                  <TableRow key={row.label}>
+                    <TableCell sx={{ fontWeight: 600 }}>{row.label}</TableCell>
+                    {values.map((value, index) => (
+                      <TableCell
+                        key={properties[index].id}
+                        align="right"
+                        sx={index === best ? { color: 'success.main', fontWeight: 700, backgroundColor: 'rgba(0, 255, 136, 0.08)' } : undefined}
+                      >
+                        {typeof value === 'number' && row.format ? row.format(value) : value}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,65 @@
+import React from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Box, Button, Chip, Paper, Typography } from '@mui/material';
+import { CompareArrows } from '@mui/icons-material';
+import { useCompareTray } from '../../hooks/useCompareTray';
+import { CompareTrayService } from '../../services/compareTrayService';
+
+/**
+ * Bar along the bottom of the page listing the properties picked for
+ * comparison, with a button to compare them
+ */
+export const CompareTray: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { items, removeFromCompare, clearCompare } = useCompareTray();
+
+  if (items.length === 0 || location.pathname === '/compare') return null;
+
+  return (
+    <Paper
+      elevation={8}
+      sx={{
+        position: 'fixed',
+        bottom: 16,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: theme => theme.zIndex.appBar,
+        px: 2,
+        py: 1.5,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 1.5,
+        maxWidth: 'calc(100% - 32px)',
+        flexWrap: 'wrap',
+        backdropFilter: 'blur(12px)',
+      }}
+    >
+      <Typography variant="body2" color="text.secondary">
+        Compare {items.length}/{CompareTrayService.MAX_ITEMS}
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        {items.map(item => (
+          <Chip
+            key={item.id}
+            size="small"
+            label={`${item.address} · Class ${item.class}`}
+            onDelete={() => removeFromCompare(item.id)}
+          />
+        ))}
+      </Box>
+      <Button size="small" onClick={clearCompare}>
+        Clear
+      </Button>
+      <Button
+        size="small"
+        variant="contained"
+        startIcon={<CompareArrows />}
+        disabled={items.length < 2}
+        onClick={() => navigate(CompareTrayService.linkOf(items.map(item => item.id)))}
+      >
+        Compare
+      </Button>
+    </Paper>
+  );
+};
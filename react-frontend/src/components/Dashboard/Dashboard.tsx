@@ -23,24 +23,24 @@ import { EscrowTracker } from '../Escrow/EscrowTracker';
 import { PortfolioOverview } from '../Portfolio/PortfolioOverview';
 import { setupTestInvestments } from '../../utils/createSampleData';
 import { DashboardCharts } from './DashboardCharts';
+import { PortfolioPerformance } from './PortfolioPerformance';
+import { StatementDownloads } from './StatementDownloads';
+import { WalletAssets } from './WalletAssets';
+import { LoanPositions } from './LoanPositions';
+import { MarketIndexChart } from './MarketIndexChart';
 import { useCryptoPrices } from '../../hooks/useCryptoPrices';
 import { useAuth } from '../../contexts/AuthContext';
 import { useUserInvestments } from '../../hooks/useUserInvestments';
 import { useRentalPayments } from '../../hooks/useRentalPayments';
-import { useHourlyRental } from '../../hooks/useHourlyRental';
 import { fixMissingTimestamps } from '../../utils/fixMissingTimestamps';
 import { AccountBalanceWallet, ContentCopy, LocationOn, TrendingUp as TrendingUpIcon } from '@mui/icons-material';
 
 export default function Dashboard() {
   const { user } = useAuth();
-  const { isConnected, address, ethBalance, restoreWallet, formatAddress, formatBalance } = useMockWallet({ userId: user?.uid });
+  const { isConnected, address, ethBalance, usdcBalance, restoreWallet, formatAddress, formatBalance } = useMockWallet({ userId: user?.uid });
   const { prices } = useCryptoPrices();
   const { investments, portfolioSummary, loading: investmentsLoading, error: investmentsError } = useUserInvestments();
   const { paymentData, collectRental, canCollect } = useRentalPayments(investments);
-  const { triggerManualCollection, getNextCollectionTime, isCollectionTime, isActive } = useHourlyRental({ 
-    investments, 
-    enabled: true 
-  });
 
   // Restore wallet on component mount
   useEffect(() => {
@@ -93,7 +93,8 @@ export default function Dashboard() {
   }
 
   // Transform real investment data to match the existing UI structure
-  const userProperties = investments.map(investment => {
+  // Lots sold off on the secondary market have no shares left to show
+  const userProperties = investments.filter(investment => investment.sharesOwned > 0).map(investment => {
     console.log(`🏠 Transforming investment for UI:`, {
       address: investment.propertyAddress,
       purchaseUsdValue: investment.purchaseUsdValue,
@@ -205,6 +206,11 @@ export default function Dashboard() {
                     💵 ≈ ${(ethBalance * prices.ethToUsd).toLocaleString(undefined, { maximumFractionDigits: 0 })} USD
                   </Typography>
                 )}
+                {usdcBalance > 0 && (
+                  <Typography variant="h6" color="primary.main">
+                    🪙 {formatBalance(usdcBalance, 2)} USDC
+                  </Typography>
+                )}
               </Box>
               
               <Typography variant="body2" color="success.main" sx={{ fontWeight: 900, fontSize: '1.25rem' }}>
@@ -219,54 +225,21 @@ export default function Dashboard() {
               </Typography>
               <Box sx={{ mb: 2 }}>
                 <Typography variant="body2" color="text.secondary">
-                  💰 Total Accrued: ${paymentData.totalAccrued.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                  💰 Accruing this month: ${paymentData.accruingAmount.toLocaleString(undefined, { maximumFractionDigits: 0 })}
                 </Typography>
                 <Typography variant="body2" color="success.main">
-                  ✅ Already Collected: ${paymentData.alreadyPaid.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                  ✅ Paid to date: ${paymentData.totalPaid.toLocaleString(undefined, { maximumFractionDigits: 0 })}
                 </Typography>
                 <Typography variant="h6" color="primary.main" sx={{ mt: 1 }}>
-                  🎯 Pending: ${paymentData.pendingAmount.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                  🎯 Due: ${paymentData.dueAmount.toLocaleString(undefined, { maximumFractionDigits: 0 })}
                 </Typography>
+                {paymentData.nextPayoutAt.getTime() > 0 && (
+                  <Typography variant="caption" color="text.secondary">
+                    Next payout {paymentData.nextPayoutAt.toLocaleTimeString()}
+                  </Typography>
+                )}
               </Box>
               
-              {/* Automatic Collection Status */}
-              {/* <Box sx={{ mb: 2, p: 1, bgcolor: 'rgba(0,128,0,0.1)', borderRadius: 1 }}>
-                <Typography variant="caption" color="success.main" sx={{ fontWeight: 600, display: 'block' }}>
-                  🤖 AUTOMATIC COLLECTION
-                </Typography>
-                <Typography variant="caption" sx={{ fontSize: '0.7rem', display: 'block', fontFamily: 'monospace' }}>
-                  System Active: {isActive ? 'YES' : 'NO'}
-                </Typography>
-                <Typography variant="caption" sx={{ fontSize: '0.7rem', display: 'block', fontFamily: 'monospace' }}>
-                  Current Time Collection: {isCollectionTime() ? 'YES (:00 or :30)' : 'NO'}
-                </Typography>
-                <Typography variant="caption" sx={{ fontSize: '0.7rem', display: 'block', fontFamily: 'monospace' }}>
-                  Next Collection: {getNextCollectionTime()?.toLocaleTimeString() || 'N/A'}
-                </Typography>
-              </Box> */}
-
-              {/* Debug: Rental Payment Data */}
-              {/* <Box sx={{ mb: 2, p: 1, bgcolor: 'rgba(255,0,0,0.1)', borderRadius: 1 }}>
-                <Typography variant="caption" color="error.main" sx={{ fontWeight: 600, display: 'block' }}>
-                  🔍 RENTAL DEBUG
-                </Typography>
-                <Typography variant="caption" sx={{ fontSize: '0.7rem', display: 'block', fontFamily: 'monospace' }}>
-                  Raw totalAccrued: {paymentData.totalAccrued}
-                </Typography>
-                <Typography variant="caption" sx={{ fontSize: '0.7rem', display: 'block', fontFamily: 'monospace' }}>
-                  Raw alreadyPaid: {paymentData.alreadyPaid}
-                </Typography>
-                <Typography variant="caption" sx={{ fontSize: '0.7rem', display: 'block', fontFamily: 'monospace' }}>
-                  Raw pendingAmount: {paymentData.pendingAmount}
-                </Typography>
-                <Typography variant="caption" sx={{ fontSize: '0.7rem', display: 'block', fontFamily: 'monospace' }}>
-                  Is Collecting: {paymentData.isCollecting ? 'YES' : 'NO'}
-                </Typography>
-                <Typography variant="caption" sx={{ fontSize: '0.7rem', display: 'block', fontFamily: 'monospace' }}>
-                  Can Collect: {canCollect ? 'YES' : 'NO'}
-                </Typography>
-              </Box> */}
-              
               <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
                 {canCollect ? (
                   <Button 
@@ -281,26 +254,13 @@ export default function Dashboard() {
                     }}
                     sx={{ fontWeight: 'bold' }}
                   >
-                    {paymentData.isCollecting ? '⏳ Collecting...' : '💰 Manual Collect'}
+                    {paymentData.isCollecting ? '⏳ Collecting...' : '💰 Collect Now'}
                   </Button>
                 ) : (
                   <Typography variant="body2" color="text.secondary">
-                    {paymentData.pendingAmount < 0.01 ? '✨ No pending income' : 'Processing...'}
+                    {paymentData.dueAmount < 0.01 ? '✨ No rent due' : 'Processing...'}
                   </Typography>
                 )}
-                
-                <Button
-                  variant="outlined"
-                  color="primary"
-                  size="small"
-                  onClick={async () => {
-                    const success = await triggerManualCollection();
-                    console.log('🧪 Manual hourly collection result:', success);
-                  }}
-                  sx={{ fontWeight: 'bold' }}
-                >
-                  🧪 Test Hourly
-                </Button>
               </Box>
             </Grid>
           </Grid>
@@ -592,11 +552,36 @@ export default function Dashboard() {
       {/* Crypto Price Display */}
       <PriceDisplay className="mb-6" />
 
+      {/* ETH/USDC balances, swaps and rent payout currency */}
+      <Box sx={{ mb: 4 }}>
+        <WalletAssets />
+      </Box>
+
+      {/* Mortgages on financed purchases */}
+      <Box sx={{ mb: 4 }}>
+        <LoanPositions />
+      </Box>
+
+      {/* IRR, cash-on-cash and time-weighted returns */}
+      <Box sx={{ mb: 4 }}>
+        <PortfolioPerformance />
+      </Box>
+
+      {/* Regional and class market indices */}
+      <Box sx={{ mb: 4 }}>
+        <MarketIndexChart />
+      </Box>
+
       {/* Portfolio Analytics Charts */}
       <Box sx={{ mb: 4 }}>
         <DashboardCharts />
       </Box>
 
+      {/* Downloadable statements and tax summaries */}
+      <Box sx={{ mb: 4 }}>
+        <StatementDownloads />
+      </Box>
+
 
       {/* Escrow Tracking Section */}
       <Box sx={{ mb: 4 }}>
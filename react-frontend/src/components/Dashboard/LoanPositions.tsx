@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Button,
+  Chip,
+  LinearProgress,
+  Alert
+} from '@mui/material';
+import { useLoans } from '../../hooks/useLoans';
+import type { LoanStatus } from '../../services/loanService';
+import { LOAN_DEFAULT_CONFIG } from '../../config/loanConfig';
+
+const formatUsd = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const STATUS_COLORS: Record<LoanStatus, 'success' | 'warning' | 'default' | 'error'> = {
+  current: 'success',
+  delinquent: 'warning',
+  paid_off: 'default',
+  foreclosed: 'error',
+};
+
+/**
+ * Open mortgages with their debt service, loan-to-value against the
+ * appreciated share value and remaining term
+ */
+export const LoanPositions: React.FC = () => {
+  const { positions, closedLoans, loading, error, payOff } = useLoans();
+  const [payingOff, setPayingOff] = useState<string | null>(null);
+  const [payOffError, setPayOffError] = useState<string | null>(null);
+
+  if (positions.length === 0 && closedLoans.length === 0) return null;
+
+  const handlePayOff = async (loanId: string) => {
+    setPayingOff(loanId);
+    setPayOffError(null);
+    try {
+      await payOff(loanId);
+    } catch (err) {
+      setPayOffError(err instanceof Error ? err.message : 'Payoff failed');
+    } finally {
+      setPayingOff(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>Mortgages</Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Installments are taken from rent at the end of each game month;
+          {' '}{LOAN_DEFAULT_CONFIG.missedPaymentsToForeclose} missed in a row end in foreclosure.
+        </Typography>
+
+        {(error || payOffError) && <Alert severity="error" sx={{ mb: 2 }}>{payOffError ?? error}</Alert>}
+        {loading && positions.length === 0 && <LinearProgress sx={{ mb: 2 }} />}
+
+        {positions.length > 0 && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Property</TableCell>
+                <TableCell align="right">Monthly payment</TableCell>
+                <TableCell align="right">Balance</TableCell>
+                <TableCell align="right">Value</TableCell>
+                <TableCell align="right">Equity</TableCell>
+                <TableCell align="right">LTV</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {positions.map(({ loan, valueUsd, debtUsd, equityUsd, ltv, atRisk }) => (
+                <TableRow key={loan.id}>
+                  <TableCell>
+                    <Typography variant="body2">{loan.propertyAddress}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {loan.shares} shares · {(loan.annualRate * 100).toFixed(2)}% · {loan.paymentsMade}/{loan.termMonths} paid
+                    </Typography>
+                  </TableCell>
+                  <TableCell align="right">{formatUsd(loan.monthlyPaymentUsd)}</TableCell>
+                  <TableCell align="right">
+                    {formatUsd(debtUsd)}
+                    {loan.arrearsUsd > 0 && (
+                      <Typography variant="caption" color="error.main" display="block">
+                        {formatUsd(loan.arrearsUsd)} in arrears
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="right">{formatUsd(valueUsd)}</TableCell>
+                  <TableCell align="right" sx={{ color: equityUsd >= 0 ? 'success.main' : 'error.main' }}>
+                    {formatUsd(equityUsd)}
+                  </TableCell>
+                  <TableCell align="right" sx={{ color: atRisk ? 'error.main' : undefined }}>
+                    {(ltv * 100).toFixed(1)}%
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      color={STATUS_COLORS[loan.status]}
+                      label={loan.status === 'delinquent' ? `${loan.missedPayments} missed` : loan.status}
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Button
+                      size="small"
+                      disabled={payingOff !== null}
+                      onClick={() => handlePayOff(loan.id!)}
+                    >
+                      {payingOff === loan.id ? 'Paying…' : 'Pay off'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {closedLoans.length > 0 && (
+          <Box sx={{ mt: 2, display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+            {closedLoans.map(loan => (
+              <Chip
+                key={loan.id}
+                size="small"
+                variant="outlined"
+                color={STATUS_COLORS[loan.status]}
+                label={loan.status === 'foreclosed'
+                  ? `${loan.propertyAddress}: foreclosed, sold for ${formatUsd(loan.foreclosureSaleUsd ?? 0)}`
+                  : `${loan.propertyAddress}: paid off`}
+              />
+            ))}
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,113 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  ToggleButton,
+  ToggleButtonGroup,
+  IconButton,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import { Refresh } from '@mui/icons-material';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { useMarketIndices, type MarketIndexGroup } from '../../hooks/useMarketIndices';
+import type { MarketIndexId } from '../../services/marketModelService';
+
+const LINE_COLORS = ['#90a4ae', '#42a5f5', '#66bb6a', '#ffa726', '#ab47bc', '#ef5350'];
+
+const indexLabel = (indexId: MarketIndexId): string => {
+  if (indexId === 'market') return 'National';
+  const [kind, key] = indexId.split(':');
+  return kind === 'class' ? `Class ${key}` : key;
+};
+
+/**
+ * Quarterly levels of the national market and its regional or class indices
+ */
+export const MarketIndexChart: React.FC = () => {
+  const { history, indexIds, group, setGroup, loading, error, refresh } = useMarketIndices();
+
+  const handleGroupChange = (_event: React.MouseEvent<HTMLElement>, value: MarketIndexGroup | null) => {
+    if (value) setGroup(value);
+  };
+
+  // One row per quarter with a column per index
+  const rows = new Map<number, Record<string, number | string>>();
+  indexIds.forEach(indexId => {
+    (history[indexId] ?? []).forEach(point => {
+      const row = rows.get(point.quarter) ?? { quarter: point.label };
+      row[indexId] = Number(point.level.toFixed(2));
+      rows.set(point.quarter, row);
+    });
+  });
+  const data = Array.from(rows.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, row]) => row);
+
+  const downturnQuarters = (history.market ?? []).filter(point => point.inDownturn).map(point => point.label);
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, gap: 2 }}>
+          <Typography variant="h6">Property Market</Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <ToggleButtonGroup size="small" exclusive value={group} onChange={handleGroupChange}>
+              <ToggleButton value="regions">Regions</ToggleButton>
+              <ToggleButton value="classes">Classes</ToggleButton>
+            </ToggleButtonGroup>
+            <IconButton size="small" onClick={refresh} disabled={loading}>
+              {loading ? <CircularProgress size={18} /> : <Refresh fontSize="small" />}
+            </IconButton>
+          </Box>
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {data.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {loading ? 'Loading market history…' : 'No market history recorded yet.'}
+          </Typography>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="quarter" />
+                <YAxis domain={['auto', 'auto']} />
+                <Tooltip />
+                <Legend />
+                {indexIds.map((indexId, i) => (
+                  <Line
+                    key={indexId}
+                    type="monotone"
+                    dataKey={indexId}
+                    name={indexLabel(indexId)}
+                    stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                    strokeWidth={indexId === 'market' ? 3 : 2}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+            <Typography variant="caption" color="text.secondary">
+              Index levels start at 100.
+              {downturnQuarters.length > 0 && ` Downturn in ${downturnQuarters.join(', ')}.`}
+            </Typography>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
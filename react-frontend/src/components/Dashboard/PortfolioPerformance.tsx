@@ -0,0 +1,158 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  IconButton,
+  CircularProgress,
+  Alert,
+  Tooltip
+} from '@mui/material';
+import { Refresh } from '@mui/icons-material';
+import { usePortfolioPerformance } from '../../hooks/usePortfolioPerformance';
+import { PERFORMANCE_WINDOWS, type PerformanceWindow } from '../../services/portfolioAnalyticsService';
+
+const formatUsd = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const formatRate = (rate: number | null) => rate === null ? '—' : `${(rate * 100).toFixed(2)}%`;
+
+const rateColor = (rate: number | null) =>
+  rate === null ? 'text.secondary' : rate >= 0 ? 'success.main' : 'error.main';
+
+interface MetricProps {
+  label: string;
+  value: string;
+  detail?: string;
+  color?: string;
+  hint: string;
+}
+
+const Metric: React.FC<MetricProps> = ({ label, value, detail, color, hint }) => (
+  <Grid item xs={6} md={3}>
+    <Tooltip title={hint}>
+      <Box>
+        <Typography variant="body2" color="text.secondary">{label}</Typography>
+        <Typography variant="h5" color={color}>{value}</Typography>
+        {detail && <Typography variant="caption" color="text.secondary">{detail}</Typography>}
+      </Box>
+    </Tooltip>
+  </Grid>
+);
+
+/**
+ * IRR, cash-on-cash yield and time-weighted return of the user's portfolio,
+ * with total return split into rental income and appreciation
+ */
+export const PortfolioPerformance: React.FC = () => {
+  const { performance, loading, error, selectedWindow, setSelectedWindow, refresh } = usePortfolioPerformance();
+
+  const handleWindowChange = (_event: React.MouseEvent<HTMLElement>, value: PerformanceWindow | null) => {
+    if (value) setSelectedWindow(value);
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, gap: 2 }}>
+          <Typography variant="h6">Performance</Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <ToggleButtonGroup size="small" exclusive value={selectedWindow} onChange={handleWindowChange}>
+              {(Object.keys(PERFORMANCE_WINDOWS) as PerformanceWindow[]).map(window => (
+                <ToggleButton key={window} value={window}>{PERFORMANCE_WINDOWS[window].label}</ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <IconButton size="small" onClick={refresh} disabled={loading}>
+              {loading ? <CircularProgress size={18} /> : <Refresh fontSize="small" />}
+            </IconButton>
+          </Box>
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {!performance || performance.investments.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {loading ? 'Calculating performance…' : 'No open investments to measure yet.'}
+          </Typography>
+        ) : (
+          <>
+            <Grid container spacing={3} sx={{ mb: 3 }}>
+              <Metric
+                label="Time-Weighted Return"
+                value={formatRate(performance.timeWeightedReturn)}
+                detail={performance.annualizedTimeWeightedReturn !== null
+                  ? `${formatRate(performance.annualizedTimeWeightedReturn)} annualized`
+                  : `Since ${performance.windowStart.toLocaleDateString()} (game time)`}
+                color={rateColor(performance.timeWeightedReturn)}
+                hint="Return over the selected window, independent of when you bought in"
+              />
+              <Metric
+                label="IRR"
+                value={formatRate(performance.irr)}
+                detail="Annualized, since first purchase"
+                color={rateColor(performance.irr)}
+                hint="Discount rate at which purchases, rent received and today's value net to zero"
+              />
+              <Metric
+                label="Cash-on-Cash"
+                value={formatRate(performance.cashOnCash)}
+                detail="Trailing 12 game months"
+                hint="Rental income over the last game year divided by the amount invested"
+              />
+              <Metric
+                label="Total Return"
+                value={formatUsd(performance.totalReturn)}
+                detail={`${formatUsd(performance.incomeReturn)} income · ${formatUsd(performance.appreciationReturn)} appreciation`}
+                color={rateColor(performance.totalReturnRate)}
+                hint={`${formatRate(performance.totalReturnRate)} on ${formatUsd(performance.invested)} invested`}
+              />
+            </Grid>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Property</TableCell>
+                  <TableCell align="right">Invested</TableCell>
+                  <TableCell align="right">Value</TableCell>
+                  <TableCell align="right">Income</TableCell>
+                  <TableCell align="right">Appreciation</TableCell>
+                  <TableCell align="right">Cash-on-Cash</TableCell>
+                  <TableCell align="right">IRR</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {performance.investments.map(investment => (
+                  <TableRow key={investment.investmentId}>
+                    <TableCell>{investment.propertyAddress}</TableCell>
+                    <TableCell align="right">{formatUsd(investment.invested)}</TableCell>
+                    <TableCell align="right">{formatUsd(investment.currentValue)}</TableCell>
+                    <TableCell align="right">
+                      {formatUsd(investment.incomeReturn)}
+                      {investment.incomeEstimated && (
+                        <Tooltip title="No rental payments recorded yet; estimated from the rental yield">
+                          <Typography component="span" variant="caption" color="text.secondary"> est.</Typography>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{formatUsd(investment.appreciationReturn)}</TableCell>
+                    <TableCell align="right">{formatRate(investment.cashOnCash)}</TableCell>
+                    <TableCell align="right" sx={{ color: rateColor(investment.irr) }}>{formatRate(investment.irr)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
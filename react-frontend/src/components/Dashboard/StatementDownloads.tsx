@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Grid,
+  Button,
+  ButtonGroup,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert
+} from '@mui/material';
+import { Description, PictureAsPdf } from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCryptoPrices } from '../../hooks/useCryptoPrices';
+import { StatementService, type StatementPeriodType } from '../../services/statementService';
+import {
+  downloadStatementCsv,
+  downloadStatementPdf,
+  downloadTaxSummaryCsv,
+  downloadTaxSummaryPdf
+} from '../../utils/statementExport';
+
+type ExportFormat = 'pdf' | 'csv';
+
+const TAX_YEARS_SHOWN = 5;
+
+/**
+ * Account statements per game month/quarter/year and annual tax summaries
+ */
+export const StatementDownloads: React.FC = () => {
+  const { user } = useAuth();
+  const { prices } = useCryptoPrices();
+  const [periodType, setPeriodType] = useState<StatementPeriodType>('month');
+  const [periodIndex, setPeriodIndex] = useState(0);
+  const [taxYear, setTaxYear] = useState<number | ''>('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const periods = useMemo(() => StatementService.listPeriods(periodType), [periodType]);
+  const taxYears = useMemo(
+    () => StatementService.listPeriods('year', TAX_YEARS_SHOWN).map(period => period.start.getFullYear()),
+    []
+  );
+  const selectedYear = taxYear === '' ? taxYears[0] : taxYear;
+
+  // Ledger amounts without a recorded rate are converted at the current ETH price
+  const run = async (key: string, task: (userId: string, ethPrice: number) => Promise<void>) => {
+    if (!user?.uid || !prices) return;
+    setBusy(key);
+    setError(null);
+    try {
+      await task(user.uid, prices.ethToUsd);
+    } catch (err) {
+      console.error('Failed to generate statement:', err);
+      setError('Failed to generate statement');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const downloadStatement = (format: ExportFormat) => run(`statement-${format}`, async (userId, ethPrice) => {
+    const statement = await StatementService.generateAccountStatement(userId, periods[periodIndex], ethPrice);
+    if (format === 'pdf') {
+      downloadStatementPdf(statement);
+    } else {
+      downloadStatementCsv(statement);
+    }
+  });
+
+  const downloadTaxSummary = (format: ExportFormat) => run(`tax-${format}`, async (userId, ethPrice) => {
+    const summary = await StatementService.generateTaxSummary(userId, selectedYear, ethPrice);
+    if (format === 'pdf') {
+      downloadTaxSummaryPdf(summary);
+    } else {
+      downloadTaxSummaryCsv(summary);
+    }
+  });
+
+  const formatButtons = (onDownload: (format: ExportFormat) => void, prefix: string) => (
+    <ButtonGroup variant="outlined" size="small" disabled={!user?.uid || !prices || busy !== null}>
+      <Button startIcon={<PictureAsPdf />} onClick={() => onDownload('pdf')}>
+        {busy === `${prefix}-pdf` ? 'Preparing…' : 'PDF'}
+      </Button>
+      <Button startIcon={<Description />} onClick={() => onDownload('csv')}>
+        {busy === `${prefix}-csv` ? 'Preparing…' : 'CSV'}
+      </Button>
+    </ButtonGroup>
+  );
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>Statements & Tax Documents</Typography>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Grid container spacing={4}>
+          <Grid item xs={12} md={7}>
+            <Typography variant="subtitle2" gutterBottom>Account Statement</Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Holdings, purchases, rent received, appreciation, escrow interest and fees for a game period.
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={periodType}
+                onChange={(_event, value: StatementPeriodType | null) => {
+                  if (value) {
+                    setPeriodType(value);
+                    setPeriodIndex(0);
+                  }
+                }}
+              >
+                <ToggleButton value="month">Month</ToggleButton>
+                <ToggleButton value="quarter">Quarter</ToggleButton>
+                <ToggleButton value="year">Year</ToggleButton>
+              </ToggleButtonGroup>
+              <FormControl size="small" sx={{ minWidth: 160 }}>
+                <InputLabel id="statement-period-label">Period</InputLabel>
+                <Select
+                  labelId="statement-period-label"
+                  label="Period"
+                  value={periodIndex}
+                  onChange={event => setPeriodIndex(Number(event.target.value))}
+                >
+                  {periods.map((period, index) => (
+                    <MenuItem key={period.label} value={index}>
+                      {period.label}{index === 0 ? ' (to date)' : ''}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              {formatButtons(downloadStatement, 'statement')}
+            </Box>
+          </Grid>
+
+          <Grid item xs={12} md={5}>
+            <Typography variant="subtitle2" gutterBottom>Annual Tax Summary</Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Rental income and realized/unrealized gains for a game year.
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+              <FormControl size="small" sx={{ minWidth: 120 }}>
+                <InputLabel id="tax-year-label">Year</InputLabel>
+                <Select
+                  labelId="tax-year-label"
+                  label="Year"
+                  value={selectedYear}
+                  onChange={event => setTaxYear(Number(event.target.value))}
+                >
+                  {taxYears.map(year => (
+                    <MenuItem key={year} value={year}>{year}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              {formatButtons(downloadTaxSummary, 'tax')}
+            </Box>
+          </Grid>
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Grid,
+  Button,
+  TextField,
+  InputAdornment,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert
+} from '@mui/material';
+import { SwapHoriz } from '@mui/icons-material';
+import { useMockWallet } from '../../hooks/useMockWallet';
+import { useCryptoPrices } from '../../hooks/useCryptoPrices';
+import type { LedgerAsset } from '../../services/walletLedgerService';
+
+const otherAsset = (asset: LedgerAsset): LedgerAsset => asset === 'ETH' ? 'USDC' : 'ETH';
+
+/**
+ * ETH and USDC balances of the simulation wallet, an in-app swap between
+ * them and the currency rental income is paid out in
+ */
+export const WalletAssets: React.FC = () => {
+  const {
+    isConnected,
+    ethBalance,
+    usdcBalance,
+    rentPayoutAsset,
+    swapAssets,
+    setRentPayoutAsset,
+    formatBalance
+  } = useMockWallet();
+  const { prices, convertCurrency } = useCryptoPrices();
+  const [from, setFrom] = useState<LedgerAsset>('ETH');
+  const [amount, setAmount] = useState('');
+  const [swapping, setSwapping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const swapAmount = Number(amount);
+  const available = from === 'ETH' ? ethBalance : usdcBalance;
+  const canSwap = isConnected && !!prices && swapAmount > 0 && swapAmount <= available && !swapping;
+
+  const handleSwap = async () => {
+    setSwapping(true);
+    setError(null);
+    try {
+      await swapAssets(from, swapAmount);
+      setAmount('');
+    } catch (err) {
+      console.error('Swap failed:', err);
+      setError(err instanceof Error ? err.message : 'Swap failed');
+    } finally {
+      setSwapping(false);
+    }
+  };
+
+  const handlePayoutChange = async (_event: React.MouseEvent<HTMLElement>, value: LedgerAsset | null) => {
+    if (!value) return;
+    try {
+      await setRentPayoutAsset(value);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update payout currency');
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>Wallet Assets</Typography>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Grid container spacing={4}>
+          <Grid item xs={12} md={3}>
+            <Typography variant="body2" color="text.secondary">ETH</Typography>
+            <Typography variant="h5">{formatBalance(ethBalance)}</Typography>
+            {prices && (
+              <Typography variant="caption" color="text.secondary">
+                ≈ ${(ethBalance * prices.ethToUsd).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+              </Typography>
+            )}
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>USDC</Typography>
+            <Typography variant="h5">{formatBalance(usdcBalance, 2)}</Typography>
+          </Grid>
+
+          <Grid item xs={12} md={5}>
+            <Typography variant="subtitle2" gutterBottom>Swap</Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+              <TextField
+                size="small"
+                type="number"
+                label="Amount"
+                value={amount}
+                onChange={event => setAmount(event.target.value)}
+                inputProps={{ min: 0, step: from === 'ETH' ? 0.01 : 1 }}
+                InputProps={{ endAdornment: <InputAdornment position="end">{from}</InputAdornment> }}
+                sx={{ width: 180 }}
+              />
+              <Button size="small" onClick={() => setFrom(otherAsset(from))} startIcon={<SwapHoriz />}>
+                {from} → {otherAsset(from)}
+              </Button>
+              <Button variant="contained" size="small" disabled={!canSwap} onClick={handleSwap}>
+                {swapping ? 'Swapping…' : 'Swap'}
+              </Button>
+            </Box>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              {swapAmount > 0 && prices
+                ? `Receive ≈ ${convertCurrency(swapAmount, from, otherAsset(from)).toFixed(from === 'ETH' ? 2 : 4)} ${otherAsset(from)} at $${prices.ethToUsd.toFixed(2)}/ETH`
+                : `Available: ${formatBalance(available, from === 'ETH' ? 4 : 2)} ${from}`}
+            </Typography>
+          </Grid>
+
+          <Grid item xs={12} md={4}>
+            <Typography variant="subtitle2" gutterBottom>Rental payouts</Typography>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={rentPayoutAsset}
+              onChange={handlePayoutChange}
+              disabled={!isConnected}
+            >
+              <ToggleButton value="ETH">ETH</ToggleButton>
+              <ToggleButton value="USDC">USDC</ToggleButton>
+            </ToggleButtonGroup>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              USDC payouts keep rent at its dollar value instead of moving with the ETH price.
+            </Typography>
+          </Grid>
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,5 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { EscrowProcess, EscrowService } from '../../services/escrowService';
+import { EscrowService, type EscrowProcess } from '../../services/escrowService';
+import type { EscrowStep } from '../../services/escrowStateMachine';
+import { ESCROW_STEPS } from '../../config/escrowConfig';
+import {
+  OnChainEscrowService,
+  ONCHAIN_ACTIONS,
+  ONCHAIN_PHASE_LABELS,
+  type OnChainEscrowAction
+} from '../../services/onChainEscrowService';
 
 interface EscrowStatusModalProps {
   escrowId: string;
@@ -9,12 +17,14 @@ interface EscrowStatusModalProps {
 export const EscrowStatusModal: React.FC<EscrowStatusModalProps> = ({ escrowId, onClose }) => {
   const [process, setProcess] = useState<EscrowProcess | null>(null);
   const [loading, setLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<OnChainEscrowAction | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
 
   useEffect(() => {
     const loadProcess = async () => {
       try {
         const escrowProcess = await EscrowService.getEscrowProcess(escrowId);
-        setProcess(escrowProcess);
+        setProcess(escrowProcess ? await EscrowService.advanceEscrow(escrowProcess) : null);
       } catch (error) {
         console.error('Error loading escrow process:', error);
       } finally {
@@ -46,17 +56,42 @@ export const EscrowStatusModal: React.FC<EscrowStatusModalProps> = ({ escrowId,
     );
   }
 
-  const getStepDetails = (status: string, startTime?: Date, completionTime?: Date) => {
-    if (completionTime) {
-      return `Completed ${completionTime.toLocaleTimeString()}`;
-    } else if (startTime) {
-      return `Started ${startTime.toLocaleTimeString()}`;
-    } else if (status === 'pending') {
+  const handleOnChainAction = async (action: OnChainEscrowAction) => {
+    setPendingAction(action);
+    setActionError(null);
+    try {
+      setProcess(await EscrowService.performOnChainAction(process, action));
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Transaction failed');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const getStepDetails = (step: EscrowStep) => {
+    if (step.status === 'skipped') {
+      return 'Not required for this purchase';
+    } else if (step.completionTime) {
+      return `Completed ${step.completionTime.toLocaleTimeString()}`;
+    } else if (step.startTime) {
+      return `Started ${step.startTime.toLocaleTimeString()}${step.deadline ? ` • deadline ${step.deadline.toLocaleTimeString()}` : ''}`;
+    } else if (step.status === 'pending') {
       return 'Waiting to begin...';
     }
     return 'In progress...';
   };
 
+  const getStepBadge = (step: EscrowStep): { className: string; label: string } => {
+    switch (step.status) {
+      case 'passed': return { className: 'text-green-400', label: '✅ Passed' };
+      case 'failed': return { className: 'text-red-400', label: '❌ Failed' };
+      case 'timed_out': return { className: 'text-red-400', label: '⌛ Timed Out' };
+      case 'in_progress': return { className: 'text-blue-400', label: '🔄 In Progress' };
+      case 'skipped': return { className: 'text-gray-500', label: '➖ Skipped' };
+      default: return { className: 'text-gray-400', label: '⏳ Pending' };
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-gray-800 rounded-lg border border-gray-700 max-w-lg w-full max-h-[80vh] overflow-y-auto">
@@ -101,74 +136,92 @@ export const EscrowStatusModal: React.FC<EscrowStatusModalProps> = ({ escrowId,
             </div>
           </div>
 
-          {/* Approval Steps */}
-          <div className="space-y-4">
-            <h3 className="font-semibold text-white">Approval Process</h3>
-            
-            {/* Inspection Step */}
+          {/* Contract */}
+          {process.onChain && (
             <div className="bg-gray-700 rounded-lg p-4">
-              <div className="flex items-center justify-between mb-2">
-                <h4 className="font-medium text-white">🔍 Property Inspection</h4>
-                <span className={`text-sm ${
-                  process.approvalSteps.inspection.status === 'passed' ? 'text-green-400' :
-                  process.approvalSteps.inspection.status === 'failed' ? 'text-red-400' :
-                  process.approvalSteps.inspection.status === 'in_progress' ? 'text-blue-400' :
-                  'text-gray-400'
-                }`}>
-                  {process.approvalSteps.inspection.status === 'passed' ? '✅ Passed' :
-                   process.approvalSteps.inspection.status === 'failed' ? '❌ Failed' :
-                   process.approvalSteps.inspection.status === 'in_progress' ? '🔄 In Progress' :
-                   '⏳ Pending'}
-                </span>
-              </div>
-              <div className="text-sm text-gray-400">
-                {getStepDetails(
-                  process.approvalSteps.inspection.status,
-                  process.approvalSteps.inspection.startTime,
-                  process.approvalSteps.inspection.completionTime
-                )}
+              <h3 className="font-semibold text-white mb-3">⛓️ Escrow Contract</h3>
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between gap-3">
+                  <span className="text-gray-400">Address:</span>
+                  <span className="text-white font-mono break-all text-right">{process.onChain.contractAddress}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Phase:</span>
+                  <span className="text-white">{ONCHAIN_PHASE_LABELS[process.onChain.phase] || 'Unknown'}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Deed:</span>
+                  <span className="text-white">#{process.onChain.deedId}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Approvals:</span>
+                  <span className="text-white">
+                    {process.onChain.approvals.length > 0 ? process.onChain.approvals.join(', ') : 'None yet'}
+                  </span>
+                </div>
               </div>
-              {process.approvalSteps.inspection.failureReason && (
-                <div className="mt-2 text-sm text-red-400 bg-red-900 border border-red-600 rounded p-2">
-                  {process.approvalSteps.inspection.failureReason}
+
+              {OnChainEscrowService.availableActions(process).length > 0 && (
+                <div className="grid grid-cols-2 gap-2 mt-4">
+                  {OnChainEscrowService.availableActions(process).map(action => (
+                    <button
+                      key={action}
+                      onClick={() => handleOnChainAction(action)}
+                      disabled={pendingAction !== null}
+                      className={`py-2 px-3 rounded text-sm font-medium text-white disabled:opacity-50 ${
+                        action === 'cancel' || action === 'fail_inspection'
+                          ? 'bg-red-700 hover:bg-red-600'
+                          : 'bg-blue-600 hover:bg-blue-500'
+                      }`}
+                    >
+                      {pendingAction === action ? 'Confirming...' : ONCHAIN_ACTIONS[action].label}
+                    </button>
+                  ))}
                 </div>
               )}
-            </div>
 
-            {/* Lender Step */}
-            <div className="bg-gray-700 rounded-lg p-4">
-              <div className="flex items-center justify-between mb-2">
-                <h4 className="font-medium text-white">
-                  🏦 {process.requiresFinancing ? 'Lender Approval' : 'Cash Purchase'}
-                </h4>
-                <span className={`text-sm ${
-                  process.approvalSteps.lenderApproval.status === 'approved' ? 'text-green-400' :
-                  process.approvalSteps.lenderApproval.status === 'rejected' ? 'text-red-400' :
-                  process.approvalSteps.lenderApproval.status === 'in_progress' ? 'text-blue-400' :
-                  'text-gray-400'
-                }`}>
-                  {process.approvalSteps.lenderApproval.status === 'approved' ? '✅ Approved' :
-                   process.approvalSteps.lenderApproval.status === 'rejected' ? '❌ Rejected' :
-                   process.approvalSteps.lenderApproval.status === 'in_progress' ? '🔄 In Progress' :
-                   '⏳ Pending'}
-                </span>
-              </div>
-              <div className="text-sm text-gray-400">
-                {process.requiresFinancing 
-                  ? getStepDetails(
-                      process.approvalSteps.lenderApproval.status,
-                      process.approvalSteps.lenderApproval.startTime,
-                      process.approvalSteps.lenderApproval.completionTime
-                    )
-                  : 'No financing required'
-                }
-              </div>
-              {process.approvalSteps.lenderApproval.rejectionReason && (
-                <div className="mt-2 text-sm text-red-400 bg-red-900 border border-red-600 rounded p-2">
-                  {process.approvalSteps.lenderApproval.rejectionReason}
+              {actionError && (
+                <div className="mt-3 text-sm text-red-400 bg-red-900 border border-red-600 rounded p-2 break-words">
+                  {actionError}
+                </div>
+              )}
+
+              {process.onChain.transactions.length > 0 && (
+                <div className="mt-4 space-y-1 text-xs">
+                  {process.onChain.transactions.map(transaction => (
+                    <div key={transaction.hash} className="flex justify-between gap-3">
+                      <span className="text-gray-400">{transaction.action.replace('_', ' ')}</span>
+                      <span className="text-gray-300 font-mono truncate">{transaction.hash}</span>
+                    </div>
+                  ))}
                 </div>
               )}
             </div>
+          )}
+
+          {/* Approval Steps */}
+          <div className="space-y-4">
+            <h3 className="font-semibold text-white">Approval Process</h3>
+            
+            {process.steps.map(step => {
+              const badge = getStepBadge(step);
+              return (
+                <div key={step.id} className="bg-gray-700 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="font-medium text-white">
+                      {ESCROW_STEPS[step.id].icon} {ESCROW_STEPS[step.id].label}
+                    </h4>
+                    <span className={`text-sm ${badge.className}`}>{badge.label}</span>
+                  </div>
+                  <div className="text-sm text-gray-400">{getStepDetails(step)}</div>
+                  {step.failureReason && (
+                    <div className="mt-2 text-sm text-red-400 bg-red-900 border border-red-600 rounded p-2">
+                      {step.failureReason}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
           </div>
 
           {/* Timeline */}
@@ -192,6 +245,21 @@ export const EscrowStatusModal: React.FC<EscrowStatusModalProps> = ({ escrowId,
             </div>
           </div>
 
+          {/* Transition History */}
+          {process.history.length > 0 && (
+            <div className="bg-gray-700 rounded-lg p-4">
+              <h4 className="font-medium text-white mb-3">History</h4>
+              <div className="space-y-2 text-sm">
+                {process.history.map((transition, index) => (
+                  <div key={index} className="flex justify-between gap-3">
+                    <span className="text-gray-300">{transition.reason}</span>
+                    <span className="text-gray-400 whitespace-nowrap">{transition.at.toLocaleTimeString()}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Interest Earned */}
           {process.interestEarned > 0 && (
             <div className="bg-green-900 border border-green-600 rounded-lg p-4">
@@ -221,7 +289,11 @@ export const EscrowStatusModal: React.FC<EscrowStatusModalProps> = ({ escrowId,
               <div className="text-2xl mb-2">❌</div>
               <div className="text-red-400 font-semibold">Investment Failed</div>
               <div className="text-red-300 text-sm mt-1">
-                Your funds have been refunded with interest
+                {process.onChain?.forfeited
+                  ? 'Your deposit was forfeited to the seller'
+                  : process.onChain
+                    ? 'Your funds have been refunded'
+                    : 'Your funds have been refunded with interest'}
               </div>
             </div>
           )}
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { EscrowProcess, EscrowService } from '../../services/escrowService';
+import { EscrowService, type EscrowProcess } from '../../services/escrowService';
+import type { EscrowStepStatus } from '../../services/escrowStateMachine';
+import { ESCROW_STEPS } from '../../config/escrowConfig';
 import { useAuth } from '../../hooks/useAuth';
 
 interface EscrowTrackerProps {
@@ -17,7 +19,8 @@ export const EscrowTracker: React.FC<EscrowTrackerProps> = ({ className = '' })
 
     try {
       setLoading(true);
-      const processes = await EscrowService.getUserEscrowProcesses(user.uid);
+      // Resuming also catches up on any steps that resolved while the app was closed
+      const processes = await EscrowService.resumeUserEscrows(user.uid);
       setEscrowProcesses(processes);
     } catch (err) {
       console.error('Error loading escrow processes:', err);
@@ -76,7 +79,7 @@ export const EscrowTracker: React.FC<EscrowTrackerProps> = ({ className = '' })
   };
 
   const activeProcesses = escrowProcesses.filter(p => 
-    ['pending', 'inspection', 'lender_approval', 'approved'].includes(p.status)
+    !['completed', 'rejected'].includes(p.status)
   );
   
   const completedProcesses = escrowProcesses.filter(p => 
@@ -175,12 +178,13 @@ interface EscrowProcessCardProps {
 }
 
 const EscrowProcessCard: React.FC<EscrowProcessCardProps> = ({ process, compact = false }) => {
-  const getStepStatus = (stepStatus: string): { color: string; icon: string } => {
+  const getStepStatus = (stepStatus: EscrowStepStatus): { color: string; icon: string } => {
     switch (stepStatus) {
       case 'pending': return { color: 'text-gray-400', icon: '⏳' };
       case 'in_progress': return { color: 'text-blue-400', icon: '🔄' };
-      case 'passed': case 'approved': return { color: 'text-green-400', icon: '✅' };
-      case 'failed': case 'rejected': return { color: 'text-red-400', icon: '❌' };
+      case 'passed': return { color: 'text-green-400', icon: '✅' };
+      case 'skipped': return { color: 'text-gray-500', icon: '➖' };
+      case 'failed': case 'timed_out': return { color: 'text-red-400', icon: '❌' };
       default: return { color: 'text-gray-400', icon: '⏳' };
     }
   };
@@ -195,8 +199,10 @@ const EscrowProcessCard: React.FC<EscrowProcessCardProps> = ({ process, compact
     return diffMinutes > 60 ? `${Math.floor(diffMinutes / 60)}h ${diffMinutes % 60}m` : `${diffMinutes}m`;
   };
 
-  const inspectionStep = getStepStatus(process.approvalSteps.inspection.status);
-  const lenderStep = getStepStatus(process.approvalSteps.lenderApproval.status);
+  const resolvedSteps = process.steps.filter(step => step.status !== 'pending' && step.status !== 'in_progress').length;
+  const progressPercent = process.status === 'completed' || process.status === 'rejected' || process.steps.length === 0
+    ? 100
+    : Math.round((resolvedSteps / process.steps.length) * 100);
 
   return (
     <div className="bg-gray-700 rounded-lg p-4 border border-gray-600">
@@ -210,7 +216,7 @@ const EscrowProcessCard: React.FC<EscrowProcessCardProps> = ({ process, compact
         </div>
         <div className="text-right">
           <div className={`text-sm font-medium ${getStatusColor(process.status)}`}>
-            {getStatusIcon(process.status)} {process.status.replace('_', ' ').toUpperCase()}
+            {getStatusIcon(process.status)} {getStatusLabel(process.status).toUpperCase()}
           </div>
           {process.status !== 'completed' && process.status !== 'rejected' && (
             <div className="text-xs text-gray-400">
@@ -224,39 +230,27 @@ const EscrowProcessCard: React.FC<EscrowProcessCardProps> = ({ process, compact
         <>
           {/* Progress Steps */}
           <div className="grid grid-cols-2 gap-3 mb-3">
-            {/* Inspection Step */}
-            <div className="flex items-center space-x-2">
-              <span className={inspectionStep.color}>{inspectionStep.icon}</span>
-              <div>
-                <div className="text-xs font-medium text-white">Inspection</div>
-                <div className={`text-xs ${inspectionStep.color}`}>
-                  {process.approvalSteps.inspection.status.replace('_', ' ')}
+            {process.steps.map(step => {
+              const stepStatus = getStepStatus(step.status);
+              return (
+                <div key={step.id} className="flex items-center space-x-2">
+                  <span className={stepStatus.color}>{stepStatus.icon}</span>
+                  <div>
+                    <div className="text-xs font-medium text-white">{ESCROW_STEPS[step.id].label}</div>
+                    <div className={`text-xs ${stepStatus.color}`}>
+                      {step.status === 'skipped' ? 'not required' : step.status.replace('_', ' ')}
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
-
-            {/* Lender Step */}
-            <div className="flex items-center space-x-2">
-              <span className={lenderStep.color}>{lenderStep.icon}</span>
-              <div>
-                <div className="text-xs font-medium text-white">
-                  {process.requiresFinancing ? 'Lender' : 'Cash Purchase'}
-                </div>
-                <div className={`text-xs ${lenderStep.color}`}>
-                  {process.requiresFinancing 
-                    ? process.approvalSteps.lenderApproval.status.replace('_', ' ')
-                    : 'approved'
-                  }
-                </div>
-              </div>
-            </div>
+              );
+            })}
           </div>
 
           {/* Progress Bar */}
           <div className="mb-3">
             <div className="flex justify-between text-xs text-gray-400 mb-1">
               <span>Progress</span>
-              <span>{process.status === 'completed' ? '100%' : '50%'}</span>
+              <span>{progressPercent}%</span>
             </div>
             <div className="w-full bg-gray-600 rounded-full h-2">
               <div 
@@ -264,12 +258,7 @@ const EscrowProcessCard: React.FC<EscrowProcessCardProps> = ({ process, compact
                   process.status === 'completed' ? 'bg-green-500' :
                   process.status === 'rejected' ? 'bg-red-500' : 'bg-blue-500'
                 }`}
-                style={{ 
-                  width: process.status === 'completed' ? '100%' : 
-                         process.status === 'rejected' ? '100%' :
-                         process.status === 'lender_approval' ? '75%' :
-                         process.status === 'inspection' ? '50%' : '25%'
-                }}
+                style={{ width: `${progressPercent}%` }}
               ></div>
             </div>
           </div>
@@ -313,23 +302,23 @@ const EscrowProcessCard: React.FC<EscrowProcessCardProps> = ({ process, compact
 const getStatusColor = (status: string): string => {
   switch (status) {
     case 'pending': return 'text-yellow-400';
-    case 'inspection': return 'text-blue-400';
     case 'lender_approval': return 'text-purple-400';
     case 'approved': return 'text-green-400';
     case 'completed': return 'text-green-500';
     case 'rejected': return 'text-red-400';
-    default: return 'text-gray-400';
+    default: return 'text-blue-400'; // A step in progress
   }
 };
 
 const getStatusIcon = (status: string): string => {
   switch (status) {
     case 'pending': return '⏳';
-    case 'inspection': return '🔍';
-    case 'lender_approval': return '🏦';
     case 'approved': return '✅';
     case 'completed': return '🎉';
     case 'rejected': return '❌';
-    default: return '⏳';
+    default: return status in ESCROW_STEPS ? ESCROW_STEPS[status as keyof typeof ESCROW_STEPS].icon : '⏳';
   }
-};
\ No newline at end of file
+};
+
+const getStatusLabel = (status: string): string =>
+  status in ESCROW_STEPS ? ESCROW_STEPS[status as keyof typeof ESCROW_STEPS].label : status.replace('_', ' ');
\ No newline at end of file
@@ -4,7 +4,11 @@ import { useUserSession } from '../../services/sessionService';
 import { useWallet } from '../../hooks/useWallet';
 import { useAuth } from '../../contexts/AuthContext';
 import { useUserInvestments } from '../../hooks/useUserInvestments';
-import { SimpleRentalProcessor } from '../../services/simpleRentalProcessor';
+import { RentalIncomeService } from '../../services/rentalIncomeService';
+import { DispositionService } from '../../services/dispositionService';
+import { GovernanceService } from '../../services/governanceService';
+import { RenovationService } from '../../services/renovationService';
+import { WatchlistAlertService } from '../../services/watchlistAlertService';
 import { OfflineProgressModal } from '../GameTime/OfflineProgressModal';
 
 interface GameEngineProps {
@@ -26,6 +30,37 @@ export const GameEngine: React.FC<GameEngineProps> = ({ children }) => {
   
   // Initialize session tracking
   useUserSession(account || '', gameTime || new Date());
+
+  // Pay rent at every game month boundary while signed in
+  useEffect(() => {
+    if (!user?.uid) return;
+    const userId = user.uid;
+    RentalIncomeService.startAutoCollection(userId);
+    return () => RentalIncomeService.stopAutoCollection(userId);
+  }, [user?.uid]);
+
+  // Notify the user as watched properties meet their alert rules
+  useEffect(() => {
+    if (!user?.uid) return;
+    const userId = user.uid;
+    WatchlistAlertService.startMonitoring(userId);
+    return () => WatchlistAlertService.stopMonitoring(userId);
+  }, [user?.uid]);
+
+  // Pay out shares in properties sold while away, apply refinancing votes
+  // and pay renovation capital calls, then keep up as they happen
+  useEffect(() => {
+    if (!user?.uid) return;
+    const userId = user.uid;
+    const settle = () => {
+      DispositionService.settleUserDispositions(userId);
+      GovernanceService.settleUserGovernance(userId);
+      RenovationService.settleUserCapitalCalls(userId);
+    };
+    settle();
+    const interval = setInterval(settle, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [user?.uid]);
   
   // Handle offline progress calculation and completion
   useEffect(() => {
@@ -41,26 +76,26 @@ export const GameEngine: React.FC<GameEngineProps> = ({ children }) => {
         try {
           console.log('🔄 Calculating real offline progress for welcome modal...');
           
-          // Get pending rental income
-          const rentalData = await SimpleRentalProcessor.calculatePendingRental(user.uid, investments);
+          // Pay the rent for the game months that finished while away
+          const rental = await RentalIncomeService.collectRent(user.uid);
           
           // Calculate total appreciation from all investments
           const totalAppreciation = investments.reduce((total, investment) => {
             return total + (investment.appreciationAmount || 0);
           }, 0);
           
-          // Calculate game months elapsed (simplified - could be more sophisticated)
-          const gameMonthsElapsed = Math.max(1, Math.floor(rentalData.totalAccrued / 100)); // Rough estimate
+          // Each property pays once per finished game month
+          const gameMonthsElapsed = Math.max(1, Math.ceil(rental.periodsPaid / Math.max(1, investments.length)));
           
           console.log('💰 Offline progress calculated:', {
-            availableCash: rentalData.pendingAmount,
+            availableCash: rental.amountPaid,
             paperGains: totalAppreciation,
             gameMonthsElapsed
           });
           
           setOfflineProgress({
             gameMonthsElapsed,
-            rentalIncome: rentalData.pendingAmount, // Available cash that goes to wallet
+            rentalIncome: rental.amountPaid, // Cash paid to the wallet
             appreciation: totalAppreciation, // Paper gains from property appreciation
             newProperties: [], // TODO: Could add new properties available since last login
           });
@@ -36,6 +36,7 @@ import { useCryptoPrices } from '../../hooks/useCryptoPrices';
 import { useAuth } from '../../contexts/AuthContext';
 import { MockWallet } from '../MockWallet/MockWallet';
 import { GameClock } from '../GameTime/GameClock';
+import { NotificationBell } from './NotificationBell';
 import { PriceDisplay } from '../Currency/PriceDisplay';
 
 export default function NewHeader() {
@@ -245,6 +246,8 @@ export default function NewHeader() {
           </Box>
         )}
 
+        {isAuthenticated && <NotificationBell />}
+
         {/* Desktop Account Button */}
         {!isMobile && (
           <Button
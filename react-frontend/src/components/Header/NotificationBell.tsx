@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Badge,
+  Box,
+  Button,
+  IconButton,
+  Menu,
+  MenuItem,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Notifications, NotificationsNone } from '@mui/icons-material';
+import { useNotifications } from '../../hooks/useNotifications';
+import type { AppNotification } from '../../services/notificationService';
+
+const MAX_SHOWN = 20;
+
+const formatGameDate = (gameTime: Date) =>
+  gameTime.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+/**
+ * Header inbox: unread count on a bell, and a menu of the latest
+ * notifications that opens the property each one is about
+ */
+export const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+  const [anchor, setAnchor] = useState<null | HTMLElement>(null);
+
+  const handleOpen = (notification: AppNotification) => {
+    setAnchor(null);
+    if (!notification.read) markRead(notification.id);
+    navigate(notification.link);
+  };
+
+  return (
+    <>
+      <Tooltip title="Notifications">
+        <IconButton color="primary" onClick={(e) => setAnchor(e.currentTarget)} sx={{ mr: 1 }}>
+          <Badge badgeContent={unreadCount} color="error" max={99}>
+            {unreadCount > 0 ? <Notifications /> : <NotificationsNone />}
+          </Badge>
+        </IconButton>
+      </Tooltip>
+
+      <Menu
+        anchorEl={anchor}
+        open={Boolean(anchor)}
+        onClose={() => setAnchor(null)}
+        PaperProps={{
+          sx: { width: 360, maxHeight: 480 }
+        }}
+      >
+        <Box sx={{ px: 2, py: 1, display: 'flex', alignItems: 'center', justifyContent: 'space-between', borderBottom: 1, borderColor: 'divider' }}>
+          <Typography variant="subtitle2">Notifications</Typography>
+          <Button size="small" onClick={markAllRead} disabled={unreadCount === 0}>
+            Mark all read
+          </Button>
+        </Box>
+
+        {notifications.length === 0 ? (
+          <Box sx={{ px: 2, py: 3 }}>
+            <Typography variant="body2" color="text.secondary">
+              Nothing yet. Set alerts on your watchlist or saved searches to hear when a property changes.
+            </Typography>
+          </Box>
+        ) : (
+          notifications.slice(0, MAX_SHOWN).map(notification => (
+            <MenuItem
+              key={notification.id}
+              onClick={() => handleOpen(notification)}
+              sx={{
+                display: 'block',
+                whiteSpace: 'normal',
+                py: 1.5,
+                borderLeft: 3,
+                borderColor: notification.read ? 'transparent' : 'primary.main'
+              }}
+            >
+              <Typography variant="body2" sx={{ fontWeight: notification.read ? 400 : 600 }}>
+                {notification.title}
+              </Typography>
+              <Typography variant="caption" color="text.secondary" display="block">
+                {notification.message}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {formatGameDate(notification.gameTime)}
+              </Typography>
+            </MenuItem>
+          ))
+        )}
+      </Menu>
+    </>
+  );
+};
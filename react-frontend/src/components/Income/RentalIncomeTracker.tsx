@@ -184,7 +184,7 @@ export const RentalIncomeTracker: React.FC<RentalIncomeTrackerProps> = ({
                     </div>
                     <div className="text-right">
                       <div className="text-gray-400">{payment.sharesOwned} shares</div>
-                      <div className="text-gray-500">{payment.rentalYield.toFixed(1)}% yield</div>
+                      <div className="text-gray-500">{(payment.rentalYield * 100).toFixed(1)}% yield</div>
                     </div>
                   </div>
                 ))}
@@ -1,6 +1,5 @@
 import React, { useState, useEffect } from 'react';
 import { useInvestmentCalculator, usePropertyMarketplace } from '../../hooks/usePropertyMarketplace';
-import { useCryptoPrices } from '../../hooks/useCryptoPrices';
 import { InvestmentCompletionModal } from '../Investment/InvestmentCompletionModal';
 
 interface InvestmentModalProps {
@@ -19,7 +18,6 @@ export const InvestmentModal: React.FC<InvestmentModalProps> = ({
   const { properties } = usePropertyMarketplace(userEthBalance);
   const property = properties.find(p => p.id === propertyId);
   const { desiredShares, setDesiredShares, setSharesPercentage, calculation } = useInvestmentCalculator(property || null, userEthBalance);
-  const { calculateGasFees } = useCryptoPrices();
   const [isInvesting, setIsInvesting] = useState(false);
   const [showCompletionModal, setShowCompletionModal] = useState(false);
 
@@ -32,8 +30,6 @@ export const InvestmentModal: React.FC<InvestmentModalProps> = ({
     setShowCompletionModal(true);
   };
 
-  const gasEstimate = calculateGasFees('investment');
-
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-gray-800 rounded-lg border border-gray-700 max-w-2xl w-full">
@@ -110,10 +106,18 @@ export const InvestmentModal: React.FC<InvestmentModalProps> = ({
                   <span className="text-gray-400">Cost:</span>
                   <span className="text-white">{calculation.totalCost.toFixed(4)} ETH</span>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-400">Gas Fees:</span>
-                  <span className="text-white">{calculation.gasFeesEth.toFixed(4)} ETH</span>
-                </div>
+              </div>
+
+              {/* Fees */}
+              <div className="border-t border-gray-600 pt-3 space-y-1 text-sm">
+                {calculation.feeBreakdown.items.map(item => (
+                  <div key={item.kind} className="flex justify-between">
+                    <span className="text-gray-400">{item.label}:</span>
+                    <span className="text-white">
+                      {item.amountEth.toFixed(4)} ETH <span className="text-gray-500">(${item.amountUsd.toFixed(2)})</span>
+                    </span>
+                  </div>
+                ))}
               </div>
 
               <div className="border-t border-gray-600 pt-3">
@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Grid,
+  Paper,
+  Button,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import type { Property } from '../../types/property';
+import { useSecondaryMarket } from '../../hooks/useSecondaryMarket';
+import { useCryptoPrices } from '../../hooks/useCryptoPrices';
+import { PriceOracleService } from '../../services/priceOracleService';
+import { SecondaryMarketService, type OrderSide, type OrderType } from '../../services/secondaryMarketService';
+
+interface OrderBookPanelProps {
+  property: Property;
+}
+
+const formatUsd = (value: number): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 }).format(value);
+
+export const OrderBookPanel: React.FC<OrderBookPanelProps> = ({ property }) => {
+  const { orderBook, trades, myOrders, availableShares, loading, error, placeOrder, cancelOrder, refresh } =
+    useSecondaryMarket(property.id);
+  const { prices } = useCryptoPrices();
+  const referencePrice = property.sharePrice || property.currentValue / 100;
+
+  const [side, setSide] = useState<OrderSide>('buy');
+  const [orderType, setOrderType] = useState<OrderType>('limit');
+  const [quantity, setQuantity] = useState<number>(1);
+  const [limitPrice, setLimitPrice] = useState<number>(Number(referencePrice.toFixed(2)));
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const ethToUsdRate = prices?.ethToUsd ?? PriceOracleService.lastKnownEthUsd();
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setMessage(null);
+    try {
+      const result = await placeOrder({
+        side,
+        type: orderType,
+        quantity,
+        limitPriceUsd: orderType === 'limit' ? limitPrice : undefined,
+        ethToUsdRate
+      });
+      const filled = result.order.filledQuantity;
+      setMessage({
+        type: 'success',
+        text: filled > 0
+          ? `Filled ${filled} of ${quantity} shares${result.order.status === 'partially_filled' ? ', rest is on the book' : ''}`
+          : 'Order placed on the book'
+      });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Order failed' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSimulate = async () => {
+    await SecondaryMarketService.simulateMockActivity(
+      property.id,
+      property.class,
+      referencePrice,
+      ethToUsdRate
+    );
+    await refresh();
+  };
+
+  if (loading && !orderBook) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ px: 3 }}>
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">Secondary Market</Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          {orderBook?.lastTradePrice !== null && orderBook?.lastTradePrice !== undefined && (
+            <Chip label={`Last ${formatUsd(orderBook.lastTradePrice)}`} color="primary" size="small" />
+          )}
+          {orderBook?.spread !== null && orderBook?.spread !== undefined && (
+            <Chip label={`Spread ${formatUsd(orderBook.spread)}`} size="small" />
+          )}
+          <Button size="small" onClick={handleSimulate}>Simulate activity</Button>
+        </Box>
+      </Box>
+
+      <Grid container spacing={3}>
+        {/* Order book */}
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>Order Book</Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Price</TableCell>
+                  <TableCell align="right">Shares</TableCell>
+                  <TableCell align="right">Orders</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {[...(orderBook?.asks || [])].reverse().map(level => (
+                  <TableRow key={`ask-${level.priceUsd}`}>
+                    <TableCell sx={{ color: 'error.main' }}>{formatUsd(level.priceUsd)}</TableCell>
+                    <TableCell align="right">{level.quantity}</TableCell>
+                    <TableCell align="right">{level.orderCount}</TableCell>
+                  </TableRow>
+                ))}
+                {orderBook?.bids.map(level => (
+                  <TableRow key={`bid-${level.priceUsd}`}>
+                    <TableCell sx={{ color: 'success.main' }}>{formatUsd(level.priceUsd)}</TableCell>
+                    <TableCell align="right">{level.quantity}</TableCell>
+                    <TableCell align="right">{level.orderCount}</TableCell>
+                  </TableRow>
+                ))}
+                {orderBook && orderBook.asks.length === 0 && orderBook.bids.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} align="center">No open orders</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </Paper>
+        </Grid>
+
+        {/* Order entry */}
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>Place Order</Typography>
+            <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+              <ToggleButtonGroup size="small" exclusive value={side} onChange={(_, value) => value && setSide(value)}>
+                <ToggleButton value="buy">Buy</ToggleButton>
+                <ToggleButton value="sell">Sell</ToggleButton>
+              </ToggleButtonGroup>
+              <ToggleButtonGroup size="small" exclusive value={orderType} onChange={(_, value) => value && setOrderType(value)}>
+                <ToggleButton value="limit">Limit</ToggleButton>
+                <ToggleButton value="market">Market</ToggleButton>
+              </ToggleButtonGroup>
+            </Box>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Shares"
+              value={quantity}
+              onChange={(e) => setQuantity(Math.max(1, Math.floor(Number(e.target.value))))}
+              helperText={side === 'sell' ? `${availableShares} shares available` : undefined}
+              sx={{ mb: 2 }}
+            />
+            {orderType === 'limit' && (
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label="Limit price per share (USD)"
+                value={limitPrice}
+                onChange={(e) => setLimitPrice(Number(e.target.value))}
+                helperText={`≈ ${((quantity * limitPrice) / ethToUsdRate).toFixed(4)} ETH total`}
+                sx={{ mb: 2 }}
+              />
+            )}
+            <Button
+              fullWidth
+              variant="contained"
+              color={side === 'buy' ? 'success' : 'error'}
+              disabled={submitting || quantity <= 0}
+              onClick={handleSubmit}
+            >
+              {submitting ? <CircularProgress size={20} /> : `${side === 'buy' ? 'Buy' : 'Sell'} ${quantity} share${quantity === 1 ? '' : 's'}`}
+            </Button>
+            {message && <Alert severity={message.type} sx={{ mt: 2 }}>{message.text}</Alert>}
+          </Paper>
+        </Grid>
+
+        {/* My orders */}
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>My Orders</Typography>
+            {myOrders.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">No orders yet</Typography>
+            ) : (
+              <Table size="small">
+                <TableBody>
+                  {myOrders.map(order => (
+                    <TableRow key={order.id}>
+                      <TableCell>{order.side.toUpperCase()}</TableCell>
+                      <TableCell>{order.filledQuantity}/{order.quantity} @ {formatUsd(order.limitPriceUsd)}</TableCell>
+                      <TableCell>
+                        <Chip label={order.status.replace('_', ' ')} size="small" />
+                      </TableCell>
+                      <TableCell align="right">
+                        {(order.status === 'open' || order.status === 'partially_filled') && (
+                          <Button size="small" onClick={() => cancelOrder(order.id!)}>Cancel</Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Paper>
+        </Grid>
+
+        {/* Trade history */}
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>Recent Trades</Typography>
+            {trades.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">No trades yet</Typography>
+            ) : (
+              <Table size="small">
+                <TableBody>
+                  {trades.map(trade => (
+                    <TableRow key={trade.id}>
+                      <TableCell>{trade.executedAt.toLocaleString()}</TableCell>
+                      <TableCell>{trade.quantity} @ {formatUsd(trade.priceUsd)}</TableCell>
+                      <TableCell>{trade.sellerName} → {trade.buyerName}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Paper>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
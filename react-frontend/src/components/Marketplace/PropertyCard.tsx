@@ -7,6 +7,9 @@ interface PropertyCardProps {
   userEthBalance?: number;
   onSelect?: (propertyId: string) => void;
   onInvest?: (propertyId: string) => void;
+  isInCompare?: boolean;
+  canAddToCompare?: boolean; // False once the compare tray is full
+  onToggleCompare?: (property: MarketplaceProperty) => void; // Shows the compare button
   className?: string;
 }
 
@@ -15,6 +18,9 @@ export const PropertyCard: React.FC<PropertyCardProps> = ({
   userEthBalance = 0,
   onSelect,
   onInvest,
+  isInCompare = false,
+  canAddToCompare = true,
+  onToggleCompare,
   className = '',
 }) => {
   const { getUsdValue } = useCryptoPrices();
@@ -189,6 +195,23 @@ export const PropertyCard: React.FC<PropertyCardProps> = ({
             {property.status === 'sold_out' ? 'Sold Out' : 'Invest'}
           </button>
         </div>
+
+        {onToggleCompare && (
+          <button
+            onClick={() => onToggleCompare(property)}
+            disabled={!isInCompare && !canAddToCompare}
+            title={isInCompare ? 'Remove from comparison' : canAddToCompare ? 'Add to comparison' : 'Compare tray is full'}
+            className={`mt-3 w-full py-2 px-4 rounded-lg text-xs font-medium border transition-colors duration-200 ${
+              isInCompare
+                ? 'border-blue-500 bg-blue-500/20 text-blue-300 hover:bg-blue-500/30'
+                : canAddToCompare
+                  ? 'border-gray-600 text-gray-300 hover:border-gray-500 hover:text-white'
+                  : 'border-gray-700 text-gray-500 cursor-not-allowed'
+            }`}
+          >
+            {isInCompare ? '✓ In comparison' : '⚖️ Compare'}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -1,15 +1,23 @@
 import React from 'react';
 import { PropertyFilter } from '../../services/propertyMarketplaceService';
+import type { PropertySearchFacets } from '../../services/propertySearchIndex';
+import { YIELD_BUCKETS } from '../../config/searchConfig';
 
 interface PropertyFiltersProps {
   filters: PropertyFilter;
+  facets?: PropertySearchFacets; // Shows how many results each option would give
   onFiltersChange: (filters: Partial<PropertyFilter>) => void;
   onResetFilters: () => void;
   className?: string;
 }
 
+// Append a facet count to an option label
+const withCount = (label: string, count: number | undefined) =>
+  count === undefined ? label : `${label} (${count})`;
+
 export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
   filters,
+  facets,
   onFiltersChange,
   onResetFilters,
   className = '',
@@ -17,7 +25,7 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
   const hasActiveFilters = Object.values(filters).some((value, index) => {
     const keys = Object.keys(filters);
     const key = keys[index];
-    return key !== 'sortBy' && value !== 'all' && value !== undefined;
+    return key !== 'sortBy' && value !== 'all' && value !== undefined && value !== '';
   });
 
   return (
@@ -34,7 +42,16 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
         )}
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      {/* Search */}
+      <input
+        type="search"
+        value={filters.search || ''}
+        onChange={(e) => onFiltersChange({ search: e.target.value })}
+        placeholder="Search address, city, state, amenities or description"
+        className="w-full mb-4 bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white text-sm placeholder-gray-400 focus:outline-none focus:border-blue-500"
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         {/* Property Class Filter */}
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -46,9 +63,9 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
             className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
           >
             <option value="all">All Classes</option>
-            <option value="C">Class C ($100k-$500k)</option>
-            <option value="B">Class B ($500k-$2M)</option>
-            <option value="A">Class A ($2M+)</option>
+            <option value="C">{withCount('Class C ($100k-$500k)', facets && (facets.class.C ?? 0))}</option>
+            <option value="B">{withCount('Class B ($500k-$2M)', facets && (facets.class.B ?? 0))}</option>
+            <option value="A">{withCount('Class A ($2M+)', facets && (facets.class.A ?? 0))}</option>
           </select>
         </div>
 
@@ -63,10 +80,29 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
             className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
           >
             <option value="all">All Regions</option>
-            <option value="midwest">Midwest</option>
-            <option value="southwest">Southwest</option>
-            <option value="southeast">Southeast</option>
-            <option value="anywhere">Anywhere</option>
+            <option value="midwest">{withCount('Midwest', facets && (facets.region.midwest ?? 0))}</option>
+            <option value="southwest">{withCount('Southwest', facets && (facets.region.southwest ?? 0))}</option>
+            <option value="southeast">{withCount('Southeast', facets && (facets.region.southeast ?? 0))}</option>
+            <option value="anywhere">{withCount('Anywhere', facets && (facets.region.anywhere ?? 0))}</option>
+          </select>
+        </div>
+
+        {/* Rental Yield Filter */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Rental Yield
+          </label>
+          <select
+            value={filters.yieldBucket || 'all'}
+            onChange={(e) => onFiltersChange({ yieldBucket: e.target.value as PropertyFilter['yieldBucket'] })}
+            className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          >
+            <option value="all">Any Yield</option>
+            {YIELD_BUCKETS.map(bucket => (
+              <option key={bucket.id} value={bucket.id}>
+                {withCount(bucket.label, facets?.yield[bucket.id])}
+              </option>
+            ))}
           </select>
         </div>
 
@@ -80,6 +116,7 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
             onChange={(e) => onFiltersChange({ sortBy: e.target.value as any })}
             className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
           >
+            <option value="relevance">Best Match</option>
             <option value="newest">Newest</option>
             <option value="price">Price: Low to High</option>
             <option value="yield">Highest Yield</option>
@@ -1,6 +1,7 @@
 import React from 'react';
 import { PropertyCard } from './PropertyCard';
 import { MarketplaceProperty } from '../../services/propertyMarketplaceService';
+import { useCompareTray } from '../../hooks/useCompareTray';
 
 interface PropertyGridProps {
   properties: MarketplaceProperty[];
@@ -19,6 +20,8 @@ export const PropertyGrid: React.FC<PropertyGridProps> = ({
   onInvestInProperty,
   className = '',
 }) => {
+  const compareTray = useCompareTray();
+
   if (loading) {
     return (
       <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 ${className}`}>
@@ -70,6 +73,9 @@ export const PropertyGrid: React.FC<PropertyGridProps> = ({
           userEthBalance={userEthBalance}
           onSelect={onSelectProperty}
           onInvest={onInvestInProperty}
+          isInCompare={compareTray.isInTray(property.id)}
+          canAddToCompare={!compareTray.isFull}
+          onToggleCompare={compareTray.toggleCompare}
         />
       ))}
     </div>
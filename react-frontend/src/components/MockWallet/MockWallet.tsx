@@ -26,6 +26,7 @@ import {
   Error as ErrorIcon
 } from '@mui/icons-material';
 import { useCryptoPrices } from '../../hooks/useCryptoPrices';
+import { PriceOracleService } from '../../services/priceOracleService';
 
 interface MockWalletProps {
   open: boolean;
@@ -102,7 +103,7 @@ export const MockWallet: React.FC<MockWalletProps> = ({ open, onClose, onConnect
       
       // Use live ETH price to determine how much ETH equals $20,000 USDC
       const usdcTarget = 20000; // $20,000 USDC target
-      const currentEthPrice = prices?.ethToUsd || 4462; // Get live ETH price
+      const currentEthPrice = prices?.ethToUsd ?? PriceOracleService.lastKnownEthUsd(); // Get live ETH price
       const ethAmount = usdcTarget / currentEthPrice; // Calculate ETH needed
       const createdAt = Date.now(); // Timestamp when wallet was created
       
@@ -164,7 +165,7 @@ export const MockWallet: React.FC<MockWalletProps> = ({ open, onClose, onConnect
   };
 
   // Calculate equivalent display values for game feel
-  const ethPrice = prices?.ethToUsd || 4462;
+  const ethPrice = prices?.ethToUsd ?? PriceOracleService.lastKnownEthUsd();
 
   const renderContent = () => {
     switch (connectionStep) {
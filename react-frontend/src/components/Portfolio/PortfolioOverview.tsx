@@ -2,6 +2,8 @@ import React from 'react';
 import { useUserPortfolio } from '../../hooks/useUserPortfolio';
 import { useAuth } from '../../hooks/useAuth';
 import { useCryptoPrices } from '../../hooks/useCryptoPrices';
+import { useChainHistory } from '../../hooks/useChainHistory';
+import { formatEther } from 'ethers';
 
 interface PortfolioOverviewProps {
   className?: string;
@@ -11,6 +13,7 @@ export const PortfolioOverview: React.FC<PortfolioOverviewProps> = ({ className
   const { user } = useAuth();
   const { portfolio, loading, error } = useUserPortfolio(user?.uid || '');
   const { getUsdValue } = useCryptoPrices();
+  const { enabled: chainHistoryEnabled, trades: chainTrades } = useChainHistory({ account: user?.address });
 
   const formatCurrency = (amount: number): string => {
     return new Intl.NumberFormat('en-US', {
@@ -194,6 +197,40 @@ export const PortfolioOverview: React.FC<PortfolioOverviewProps> = ({ className
         </div>
       )}
 
+      {/* On-Chain Trades */}
+      {chainHistoryEnabled && chainTrades.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-medium text-gray-300 mb-3">On-Chain Trades</h4>
+          <div className="space-y-2">
+            {chainTrades.slice(0, 5).map(trade => {
+              const incoming = trade.to?.toLowerCase() === user?.address.toLowerCase();
+              return (
+                <div key={trade.eventId} className="bg-gray-700 rounded p-3 flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-white">
+                      {trade.kind === 'escrow_settlement' ? 'Escrow settlement' : `${trade.shares ?? 0} shares of #${trade.tokenId}`}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      Block {trade.blockNumber} · {trade.timestamp.toLocaleDateString()}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className={`text-sm ${incoming ? 'text-green-400' : 'text-gray-300'}`}>
+                      {incoming ? 'Received' : 'Sent'}
+                    </div>
+                    {trade.amountWei && (
+                      <div className="text-xs text-gray-400">
+                        {Number(formatEther(trade.amountWei)).toFixed(4)} ETH
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Performance Summary */}
       {(portfolio.totalRentalEarned > 0 || portfolio.totalAppreciation !== 0) && (
         <div className="mt-6 pt-6 border-t border-gray-600">
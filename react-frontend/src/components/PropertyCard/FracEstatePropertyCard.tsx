@@ -22,7 +22,8 @@ import {
   FavoriteBorder,
   Share,
   CalendarToday,
-  AttachMoney
+  AttachMoney,
+  CompareArrows
 } from '@mui/icons-material';
 import { Property, PropertyStatus } from '../../types/property';
 
@@ -32,6 +33,9 @@ interface FracEstatePropertyCardProps {
   onViewDetails?: (property: Property) => void;
   onToggleWatchlist?: (property: Property) => void;
   onShare?: (property: Property) => void;
+  isInCompare?: boolean;
+  canAddToCompare?: boolean; // False once the compare tray is full
+  onToggleCompare?: (property: Property) => void; // Shows the compare button
   loading?: boolean;
 }
 
@@ -41,6 +45,9 @@ export default function FracEstatePropertyCard({
   onViewDetails,
   onToggleWatchlist,
   onShare,
+  isInCompare = false,
+  canAddToCompare = true,
+  onToggleCompare,
   loading = false
 }: FracEstatePropertyCardProps) {
   const theme = useTheme();
@@ -97,6 +104,8 @@ export default function FracEstatePropertyCard({
         return 'warning';
       case 'sold_out':
         return 'error';
+      case 'disposed':
+        return 'info';
       default:
         return 'default';
     }
@@ -123,6 +132,8 @@ export default function FracEstatePropertyCard({
         return 'Ending Soon';
       case 'sold_out':
         return 'Sold Out';
+      case 'disposed':
+        return 'Exited';
       default:
         return 'Unknown';
     }
@@ -295,6 +306,31 @@ export default function FracEstatePropertyCard({
           >
             <Share />
           </IconButton>
+
+          {onToggleCompare && (
+            <Tooltip title={isInCompare ? 'Remove from comparison' : canAddToCompare ? 'Add to comparison' : 'Compare tray is full'}>
+              <span>
+                <IconButton
+                  size="small"
+                  disabled={!isInCompare && !canAddToCompare}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleCompare(property);
+                  }}
+                  sx={{
+                    backgroundColor: isInCompare ? theme.palette.primary.main : 'rgba(255, 255, 255, 0.9)',
+                    backdropFilter: 'blur(8px)',
+                    '&:hover': {
+                      backgroundColor: isInCompare ? theme.palette.primary.light : 'rgba(255, 255, 255, 1)',
+                      transform: 'scale(1.1)',
+                    },
+                  }}
+                >
+                  <CompareArrows />
+                </IconButton>
+              </span>
+            </Tooltip>
+          )}
         </Box>
       </Box>
 
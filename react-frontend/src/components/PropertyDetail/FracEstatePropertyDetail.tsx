@@ -55,10 +55,19 @@ import {
   AccountBalance,
   Security,
   Timeline,
-  Analytics
+  Analytics,
+  NotificationsActive,
+  NotificationsNone
 } from '@mui/icons-material';
 import { Property } from '../../types/property';
+import { useAuth } from '../../contexts/AuthContext';
+import { useWatchlist } from '../../hooks/useWatchlist';
+import { WatchlistAlertService } from '../../services/watchlistAlertService';
+import { WatchlistAlertsDialog } from '../Watchlist/WatchlistAlertsDialog';
 import { propertyService } from '../../services/firebaseService';
+import { OrderBookPanel } from '../Marketplace/OrderBookPanel';
+import { PropertyIncomeStatement } from './PropertyIncomeStatement';
+import { ScenarioPlanner } from './ScenarioPlanner';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -86,12 +95,14 @@ export default function FracEstatePropertyDetail() {
   const navigate = useNavigate();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const { user } = useAuth();
+  const watchlist = useWatchlist(user?.uid);
   
   // State
   const [property, setProperty] = useState<Property | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [isInWatchlist, setIsInWatchlist] = useState(false);
+  const [alertsDialogOpen, setAlertsDialogOpen] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState<string>('');
   
   // Investment state
@@ -199,9 +210,11 @@ export default function FracEstatePropertyDetail() {
     }, 2000);
   };
 
+  const isInWatchlist = !!id && watchlist.isInWatchlist(id);
+  const watchlistAlerts = watchlist.items.find(item => item.propertyId === id)?.alerts;
+
   const handleToggleWatchlist = () => {
-    setIsInWatchlist(!isInWatchlist);
-    // In a real app, this would save to Firebase watchlist
+    if (property) watchlist.toggleWatchlist(property);
   };
 
   const handleShare = () => {
@@ -234,6 +247,7 @@ export default function FracEstatePropertyDetail() {
       case 'available': return 'success';
       case 'ending_soon': return 'warning';
       case 'sold_out': return 'error';
+      case 'disposed': return 'info';
       default: return 'default';
     }
   };
@@ -289,6 +303,11 @@ export default function FracEstatePropertyDetail() {
             <IconButton onClick={handleToggleWatchlist} color={isInWatchlist ? 'error' : 'default'}>
               {isInWatchlist ? <Favorite /> : <FavoriteBorder />}
             </IconButton>
+            {isInWatchlist && (
+              <IconButton onClick={() => setAlertsDialogOpen(true)} color={WatchlistAlertService.hasAlerts(watchlistAlerts) ? 'primary' : 'default'}>
+                {WatchlistAlertService.hasAlerts(watchlistAlerts) ? <NotificationsActive /> : <NotificationsNone />}
+              </IconButton>
+            )}
             <IconButton onClick={handleShare}>
               <Share />
             </IconButton>
@@ -394,6 +413,8 @@ export default function FracEstatePropertyDetail() {
               <Tab label="Details" />
               <Tab label="Investors" />
               <Tab label="Analytics" />
+              <Tab label="Market" />
+              <Tab label="Scenarios" />
             </Tabs>
 
             <TabPanel value={tabValue} index={0}>
@@ -553,6 +574,22 @@ export default function FracEstatePropertyDetail() {
                     </Paper>
                   </Grid>
                 </Grid>
+
+                <Box sx={{ mt: 3 }}>
+                  <PropertyIncomeStatement property={property} />
+                </Box>
+              </Box>
+            </TabPanel>
+
+            <TabPanel value={tabValue} index={4}>
+              {/* Secondary market */}
+              <OrderBookPanel property={property} />
+            </TabPanel>
+
+            <TabPanel value={tabValue} index={5}>
+              {/* Holding period scenarios */}
+              <Box sx={{ px: 3 }}>
+                <ScenarioPlanner property={property} />
               </Box>
             </TabPanel>
           </Card>
@@ -786,6 +823,14 @@ export default function FracEstatePropertyDetail() {
           />
         </DialogContent>
       </Dialog>
+
+      <WatchlistAlertsDialog
+        open={alertsDialogOpen}
+        property={property}
+        alerts={watchlistAlerts}
+        onClose={() => setAlertsDialogOpen(false)}
+        onSave={(alerts) => watchlist.setAlerts(property.id, alerts)}
+      />
     </Container>
   );
 }
\ No newline at end of file
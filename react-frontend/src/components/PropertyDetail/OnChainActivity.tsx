@@ -0,0 +1,98 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Chip,
+  IconButton,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import { Refresh } from '@mui/icons-material';
+import { formatEther } from 'ethers';
+import { useChainHistory } from '../../hooks/useChainHistory';
+import type { TradeRecord } from '../../services/contractEventIndexer';
+
+interface OnChainActivityProps {
+  tokenId: number;
+}
+
+const TRADE_LABELS: Record<TradeRecord['kind'], { label: string; color: 'primary' | 'secondary' | 'success' }> = {
+  primary_sale: { label: 'Primary sale', color: 'primary' },
+  transfer: { label: 'Transfer', color: 'secondary' },
+  escrow_settlement: { label: 'Escrow settled', color: 'success' },
+};
+
+const shortAddress = (address?: string) => address ? `${address.slice(0, 6)}…${address.slice(-4)}` : '—';
+
+/**
+ * Indexed trade history and current holders of a property's RealEstate token
+ */
+export const OnChainActivity: React.FC<OnChainActivityProps> = ({ tokenId }) => {
+  const { trades, timeline, loading, error, refresh } = useChainHistory({ tokenId: tokenId.toString() });
+
+  // Latest balance per account; the timeline is in chain order
+  const holders = new Map<string, number>();
+  timeline.forEach(change => holders.set(change.account, change.balance));
+  const currentHolders = [...holders.entries()].filter(([, balance]) => balance > 0);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="h6" gutterBottom>
+          On-Chain Activity
+        </Typography>
+        <IconButton size="small" onClick={refresh} disabled={loading}>
+          {loading ? <CircularProgress size={18} /> : <Refresh fontSize="small" />}
+        </IconButton>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {currentHolders.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+          {currentHolders.map(([account, balance]) => (
+            <Chip key={account} size="small" variant="outlined" label={`${shortAddress(account)} · ${balance} shares`} />
+          ))}
+        </Box>
+      )}
+
+      {!loading && trades.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No trades indexed for token #{tokenId} yet.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Type</TableCell>
+              <TableCell>From</TableCell>
+              <TableCell>To</TableCell>
+              <TableCell align="right">Shares</TableCell>
+              <TableCell align="right">ETH</TableCell>
+              <TableCell align="right">Block</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {trades.map(trade => (
+              <TableRow key={trade.eventId}>
+                <TableCell>
+                  <Chip size="small" label={TRADE_LABELS[trade.kind].label} color={TRADE_LABELS[trade.kind].color} />
+                </TableCell>
+                <TableCell>{shortAddress(trade.from)}</TableCell>
+                <TableCell>{shortAddress(trade.to)}</TableCell>
+                <TableCell align="right">{trade.shares ?? '—'}</TableCell>
+                <TableCell align="right">{trade.amountWei ? Number(formatEther(trade.amountWei)).toFixed(4) : '—'}</TableCell>
+                <TableCell align="right" title={trade.timestamp.toLocaleString()}>{trade.blockNumber}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
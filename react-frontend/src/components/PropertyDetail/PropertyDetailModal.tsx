@@ -17,7 +17,11 @@ import {
   TextField,
   InputAdornment,
   Button,
-  Alert
+  Alert,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControlLabel,
+  Switch
 } from '@mui/material';
 import {
   Close,
@@ -36,7 +40,15 @@ import { calculateRentalIncome, formatRentalIncome } from '../../utils/rentalCal
 import { useMockWallet } from '../../hooks/useMockWallet';
 import { useCryptoPrices } from '../../hooks/useCryptoPrices';
 import { PurchaseTransactionService } from '../../services/purchaseTransactionService';
+import { PriceOracleService } from '../../services/priceOracleService';
+import { LoanService } from '../../services/loanService';
+import type { LedgerAsset } from '../../services/walletLedgerService';
 import { useAuth } from '../../contexts/AuthContext';
+import { ContractEventIndexer } from '../../services/contractEventIndexer';
+import { OnChainActivity } from './OnChainActivity';
+import { PropertyExit } from './PropertyExit';
+import { PropertyGovernance } from './PropertyGovernance';
+import { PropertyRenovations } from './PropertyRenovations';
 
 interface PropertyDetailModalProps {
   open: boolean;
@@ -58,10 +70,13 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
   const [purchaseError, setPurchaseError] = useState<string | null>(null);
   const [purchaseSuccess, setPurchaseSuccess] = useState(false);
   const [coInvestors, setCoInvestors] = useState<Array<{name: string, shares: number}>>([]);
+  const [payWith, setPayWith] = useState<LedgerAsset>('ETH');
+  const [financed, setFinanced] = useState(false);
   
   // Real wallet data with volatility functions
   const { 
     ethBalance, 
+    usdcBalance,
     isConnected, 
     address, 
     mode, 
@@ -105,7 +120,7 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
     const userCostUSD = totalPropertyPriceUSD * userSharePercentage;
     
     // Convert USD cost to ETH cost for payment
-    const ethToUsdRate = prices?.ethToUsd || 4462;
+    const ethToUsdRate = prices?.ethToUsd ?? PriceOracleService.lastKnownEthUsd();
     const userCostETH = userCostUSD / ethToUsdRate;
     
     // Debug logging
@@ -147,11 +162,29 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
     return userCostUSD;
   };
 
+  // Financed purchases pay only the down payment up front
+  const canFinance = LoanService.isFinanceable(property.class);
+  const loanQuote = canFinance && financed && modalShares > 0
+    ? LoanService.quote(property.class, getSharePriceInUSD())
+    : null;
+  const cashFraction = loanQuote ? loanQuote.downPaymentUsd / loanQuote.purchasePriceUsd : 1;
+
+  // Cost and affordability in the currency chosen to settle the purchase
+  const formatPurchaseCost = () =>
+    payWith === 'USDC'
+      ? `${(getSharePriceInUSD() * cashFraction).toFixed(2)} USDC`
+      : `${(calculateSharePrice() * cashFraction).toFixed(4)} ETH`;
+
+  const canPayWithSelectedAsset = () =>
+    payWith === 'USDC'
+      ? usdcBalance >= getSharePriceInUSD() * cashFraction
+      : hasEnoughBalance(calculateSharePrice() * cashFraction);
+
   const getPricePerShare = () => {
     // Get price per share in ETH (convert from USD)
     const totalPropertyPriceUSD = getTotalPropertyPrice();
     const pricePerShareUSD = totalPropertyPriceUSD / 100; // Price for 1% ownership (1 share) in USD
-    const ethToUsdRate = prices?.ethToUsd || 4462;
+    const ethToUsdRate = prices?.ethToUsd ?? PriceOracleService.lastKnownEthUsd();
     const pricePerShareETH = pricePerShareUSD / ethToUsdRate;
     return pricePerShareETH;
   };
@@ -209,13 +242,13 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
         user.uid,
         property,
         modalShares,
-        ethBalance,
-        prices?.ethToUsd || 4462
+        payWith === 'USDC' ? usdcBalance : ethBalance,
+        { currency: payWith, ...(loanQuote ? { financing: {} } : {}) }
       );
       
       if (result.success) {
         setPurchaseSuccess(true);
-        console.log(`✅ Purchase completed: ${modalShares}% ownership for ${calculateSharePrice().toFixed(4)} ETH`);
+        console.log(`✅ Purchase completed: ${modalShares}% ownership for ${formatPurchaseCost()}`);
         
         // Show wallet balance before refresh
         console.log('💰 Wallet balance BEFORE refresh:', ethBalance.toFixed(4), 'ETH');
@@ -248,24 +281,28 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
   };
 
   const getRentalIncome = () => {
-    if (!property.rentalYield) return { monthly: 0, perShare: 0, forShares: 0 };
+    if (!property.rentalYield) return { monthly: 0, netMonthly: 0, perShare: 0, forShares: 0 };
     
+    const operating = { class: property.class, yearBuilt: property.yearBuilt };
     const calculation = calculateRentalIncome(
       property.price || 0, 
       property.rentalYield, 
-      100
+      100,
+      operating
     );
     
     const modalSharesCalculation = calculateRentalIncome(
       property.price || 0, 
       property.rentalYield, 
-      modalShares
+      modalShares,
+      operating
     );
     
     return {
       monthly: calculation.monthlyIncome,
-      perShare: calculation.monthlyIncome / 100,
-      forShares: modalSharesCalculation.monthlyIncomePerShare
+      netMonthly: calculation.netMonthlyIncome,
+      perShare: calculation.netMonthlyIncome / 100,
+      forShares: modalSharesCalculation.netMonthlyIncomePerShare
     };
   };
 
@@ -322,7 +359,7 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
     const walletConnected = isConnected || !!address;
     if (!walletConnected || !ethBalance) return null;
     
-    const currentEthPrice = prices?.ethToUsd || 4462;
+    const currentEthPrice = prices?.ethToUsd ?? PriceOracleService.lastKnownEthUsd();
     
     if (mode === 'simulation' && strikePrice && getCurrentUsdValue) {
       // Use volatility functions for simulation mode
@@ -378,6 +415,7 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
       case 'available': return 'success';
       case 'ending_soon': return 'warning'; 
       case 'sold_out': return 'error';
+      case 'disposed': return 'info';
       default: return 'default';
     }
   };
@@ -714,7 +752,7 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
                           {calculateSharePrice().toFixed(4)} ETH
                         </Typography>
                         <Typography variant="h6" color="success.main" sx={{ fontWeight: 600 }}>
-                          ≈ ${getSharePriceInUSD().toLocaleString(undefined, { maximumFractionDigits: 2 })} USD
+                          ≈ ${(getSharePriceInUSD() * cashFraction).toLocaleString(undefined, { maximumFractionDigits: 2 })} USD
                         </Typography>
                         <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
                           {modalShares}% ownership of ${getTotalPropertyPrice().toLocaleString()} USD property
@@ -752,12 +790,15 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
                         <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
                           Total monthly rental income
                         </Typography>
+                        <Typography variant="body2" color="text.secondary">
+                          ≈ {formatRentalIncome(getRentalIncome().netMonthly)}/mo after vacancy and operating costs
+                        </Typography>
                         <Box sx={{ mt: 2, p: 1.5, backgroundColor: 'rgba(76, 175, 80, 0.1)', borderRadius: 1 }}>
                           <Typography variant="body1" color="success.main" sx={{ fontWeight: 600 }}>
                             {modalShares === 0 ? '$0.00/mo' : `${formatRentalIncome(getRentalIncome().forShares)}/mo`}
                           </Typography>
                           <Typography variant="body2" color="text.secondary">
-                            {modalShares === 0 ? 'Select shares to see your income' : `Your income for ${modalShares} share${modalShares !== 1 ? 's' : ''}`}
+                            {modalShares === 0 ? 'Select shares to see your income' : `Your expected net income for ${modalShares} share${modalShares !== 1 ? 's' : ''}`}
                           </Typography>
                         </Box>
                       </CardContent>
@@ -790,7 +831,7 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
                       {getPricePerShare().toFixed(4)} ETH
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
-                      ≈ ${(getPricePerShare() * (prices?.ethToUsd || 4462)).toLocaleString(undefined, { maximumFractionDigits: 0 })} (per 1% share)
+                      ≈ ${(getPricePerShare() * (prices?.ethToUsd ?? PriceOracleService.lastKnownEthUsd())).toLocaleString(undefined, { maximumFractionDigits: 0 })} (per 1% share)
                     </Typography>
                   </Grid>
                   <Grid item xs={6}>
@@ -857,12 +898,51 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
                     <Alert severity="info" sx={{ mb: 2 }}>
                       Select the number of shares you want to purchase
                     </Alert>
-                  ) : !hasEnoughBalance(calculateSharePrice()) ? (
+                  ) : !canPayWithSelectedAsset() ? (
                     <Alert severity="error" sx={{ mb: 2 }}>
-                      Insufficient balance. You need {calculateSharePrice().toFixed(4)} ETH but have {ethBalance.toFixed(4)} ETH
+                      Insufficient balance. You need {formatPurchaseCost()} but have {payWith === 'USDC' ? `${usdcBalance.toFixed(2)} USDC` : `${ethBalance.toFixed(4)} ETH`}
                     </Alert>
                   ) : null}
                   
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      Pay with
+                    </Typography>
+                    <ToggleButtonGroup
+                      size="small"
+                      exclusive
+                      value={payWith}
+                      onChange={(_event, value: LedgerAsset | null) => value && setPayWith(value)}
+                      disabled={isPurchasing || purchaseSuccess}
+                    >
+                      <ToggleButton value="ETH">ETH</ToggleButton>
+                      <ToggleButton value="USDC">USDC ({usdcBalance.toFixed(2)})</ToggleButton>
+                    </ToggleButtonGroup>
+                  </Box>
+
+                  {canFinance && (
+                    <Box sx={{ mb: 2 }}>
+                      <FormControlLabel
+                        control={
+                          <Switch
+                            checked={financed}
+                            onChange={(e) => setFinanced(e.target.checked)}
+                            disabled={isPurchasing || purchaseSuccess}
+                          />
+                        }
+                        label={`Finance with a Class ${property.class} mortgage`}
+                      />
+                      {loanQuote && (
+                        <Typography variant="body2" color="text.secondary">
+                          Borrow ${loanQuote.principalUsd.toLocaleString(undefined, { maximumFractionDigits: 0 })} at{' '}
+                          {(loanQuote.annualRate * 100).toFixed(2)}% over {loanQuote.termMonths / 12} years:{' '}
+                          ${loanQuote.monthlyPaymentUsd.toLocaleString(undefined, { maximumFractionDigits: 2 })} a month
+                          taken from rent, {(loanQuote.downPaymentUsd / loanQuote.purchasePriceUsd * 100).toFixed(0)}% down.
+                        </Typography>
+                      )}
+                    </Box>
+                  )}
+                  
                   <Button
                     variant="contained"
                     size="large"
@@ -874,7 +954,7 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
                       !user?.uid || 
                       !isConnected || 
                       modalShares <= 0 || 
-                      !hasEnoughBalance(calculateSharePrice()) ||
+                      !canPayWithSelectedAsset() ||
                       purchaseSuccess
                     }
                     sx={{
@@ -893,10 +973,10 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
                     {isPurchasing ? 'Processing Purchase...' :
                      purchaseSuccess ? '✅ Purchase Complete!' :
                      modalShares <= 0 ? 'Select Shares to Purchase' :
-                     `Purchase ${modalShares}% Ownership for ${calculateSharePrice().toFixed(4)} ETH`}
+                     `Purchase ${modalShares}% Ownership for ${formatPurchaseCost()}`}
                   </Button>
                   
-                  {modalShares > 0 && hasEnoughBalance(calculateSharePrice()) && (
+                  {modalShares > 0 && payWith === 'ETH' && canPayWithSelectedAsset() && (
                     <Typography variant="body2" color="text.secondary" sx={{ mt: 1, textAlign: 'center' }}>
                       ≈ ${getSharePriceInUSD().toLocaleString(undefined, { maximumFractionDigits: 2 })} USD
                     </Typography>
@@ -940,6 +1020,27 @@ export const PropertyDetailModal: React.FC<PropertyDetailModalProps> = ({
                   </Box>
                 </>
               )}
+
+              {/* On-chain activity */}
+              {(property.status === 'sold_out' || property.status === 'disposed') && (
+                <>
+                  <Divider sx={{ my: 3 }} />
+                  <PropertyExit property={property} />
+                </>
+              )}
+
+              {/* Renders nothing until the user holds shares or a vote exists */}
+              <PropertyGovernance property={property} />
+
+              {/* Renders nothing until a renovation has been voted through */}
+              <PropertyRenovations property={property} />
+
+              {property.tokenId !== undefined && ContractEventIndexer.isEnabled() && (
+                <>
+                  <Divider sx={{ my: 3 }} />
+                  <OnChainActivity tokenId={property.tokenId} />
+                </>
+              )}
             </Box>
           </Grid>
         </Grid>
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Typography, Grid, Chip } from '@mui/material';
+import { DispositionService, type PropertyDisposition } from '../../services/dispositionService';
+import { DISPOSITION_CONFIG } from '../../config/dispositionConfig';
+import type { Property } from '../../types/property';
+
+interface PropertyExitProps {
+  property: Property;
+}
+
+const formatUsd = (amount: number) => `$${amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const formatGameDate = (gameTime: Date) =>
+  gameTime.toLocaleDateString(undefined, { year: 'numeric', month: 'short' });
+
+/**
+ * When a fully funded property is sold and what each share gets: an
+ * estimate at today's value until the sale, the actual payout after it
+ */
+export const PropertyExit: React.FC<PropertyExitProps> = ({ property }) => {
+  const [disposition, setDisposition] = useState<PropertyDisposition | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    DispositionService.getDisposition(property.id)
+      .then(result => { if (!cancelled) setDisposition(result); })
+      .catch(error => console.error('Failed to load property sale:', error));
+    return () => { cancelled = true; };
+  }, [property.id, property.status]);
+
+  const holdEnd = DispositionService.holdPeriodEnd(property);
+  const sale = disposition ?? (holdEnd ? DispositionService.quote(property) : null);
+  if (!sale) return null;
+
+  const { holdYears } = DISPOSITION_CONFIG[property.class];
+  const closingCosts = sale.brokerageUsd + sale.transferTaxUsd;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="h6">Exit</Typography>
+        {disposition ? (
+          <Chip
+            size="small"
+            color="success"
+            label={`Sold ${formatGameDate(disposition.disposedAt)}${disposition.reason === 'shareholder_vote' ? ' by vote' : ''}`}
+          />
+        ) : (
+          <Chip size="small" variant="outlined" label={`Sells ${formatGameDate(holdEnd!)}`} />
+        )}
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {disposition
+          ? 'Proceeds were paid to every shareholder\'s wallet and their holdings closed.'
+          : `Class ${property.class} properties are held ${holdYears} game years after selling out, then sold at market value. Estimate at today's value:`}
+      </Typography>
+      <Grid container spacing={2}>
+        <Grid item xs={6} sm={3}>
+          <Typography variant="body2" color="text.secondary">Sale price</Typography>
+          <Typography variant="h6">{formatUsd(sale.grossPriceUsd)}</Typography>
+        </Grid>
+        <Grid item xs={6} sm={3}>
+          <Typography variant="body2" color="text.secondary">Closing costs</Typography>
+          <Typography variant="h6">{formatUsd(closingCosts)}</Typography>
+        </Grid>
+        <Grid item xs={6} sm={3}>
+          <Typography variant="body2" color="text.secondary">Net proceeds</Typography>
+          <Typography variant="h6">{formatUsd(sale.netProceedsUsd)}</Typography>
+        </Grid>
+        <Grid item xs={6} sm={3}>
+          <Typography variant="body2" color="text.secondary">Per share</Typography>
+          <Typography variant="h6" color="success.main">{formatUsd(sale.proceedsPerShareUsd)}</Typography>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
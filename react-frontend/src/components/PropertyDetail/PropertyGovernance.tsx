@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  LinearProgress,
+  Alert,
+  Divider,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem
+} from '@mui/material';
+import { useGovernance } from '../../hooks/useGovernance';
+import { GovernanceService, type ProposalStatus, type VoteChoice } from '../../services/governanceService';
+import { DispositionService } from '../../services/dispositionService';
+import { LoanService } from '../../services/loanService';
+import { RenovationService } from '../../services/renovationService';
+import {
+  GOVERNANCE_CONFIG,
+  PROPERTY_MANAGERS,
+  PROPOSAL_LABELS,
+  type ProposalKind
+} from '../../config/governanceConfig';
+import {
+  RENOVATION_FUNDING_LABELS,
+  RENOVATION_SPECS,
+  type RenovationFunding,
+  type RenovationKind
+} from '../../config/renovationConfig';
+import type { Property } from '../../types/property';
+
+interface PropertyGovernanceProps {
+  property: Property;
+}
+
+const STATUS_COLORS: Record<ProposalStatus, 'info' | 'success' | 'default' | 'error'> = {
+  open: 'info',
+  passed: 'success',
+  executed: 'success',
+  rejected: 'default',
+  failed: 'error',
+};
+
+const formatGameDate = (gameTime: Date) =>
+  gameTime.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+/**
+ * Shareholder proposals on a property: live share-weighted tallies, voting
+ * and, for holders, making a new proposal
+ */
+export const PropertyGovernance: React.FC<PropertyGovernanceProps> = ({ property }) => {
+  const { proposals, votingPower, error, propose, vote } = useGovernance(property.id);
+  const [kind, setKind] = useState<ProposalKind | ''>('');
+  const [managerId, setManagerId] = useState('');
+  const [renovationKind, setRenovationKind] = useState<RenovationKind | ''>('');
+  const [renovationFunding, setRenovationFunding] = useState<RenovationFunding>('reserve');
+  const [submitting, setSubmitting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  if (proposals.length === 0 && votingPower === 0) return null;
+
+  const availableKinds = (Object.keys(PROPOSAL_LABELS) as ProposalKind[]).filter(option => {
+    if (option === 'sell_now') return DispositionService.fundedAt(property) !== null;
+    if (option === 'refinance') return LoanService.isFinanceable(property.class);
+    return true;
+  });
+  const canPropose = votingPower >= GOVERNANCE_CONFIG.minSharesToPropose && property.status !== 'disposed';
+
+  const run = async (action: () => Promise<void>) => {
+    setSubmitting(true);
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renovationQuote = kind === 'renovate' && renovationKind
+    ? RenovationService.quote(property, renovationKind, renovationFunding)
+    : null;
+  const incomplete = !kind
+    || (kind === 'change_manager' && !managerId)
+    || (kind === 'renovate' && !renovationKind);
+
+  const handlePropose = () => run(async () => {
+    if (!kind) return;
+    await propose(kind, {
+      ...(kind === 'change_manager' && { managerId }),
+      ...(kind === 'renovate' && renovationKind && { renovationKind, renovationFunding }),
+    });
+    setKind('');
+    setManagerId('');
+    setRenovationKind('');
+  });
+
+  const handleVote = (proposalId: string, choice: VoteChoice) => run(() => vote(proposalId, choice));
+
+  return (
+    <Box>
+      <Divider sx={{ my: 3 }} />
+      <Typography variant="h6" gutterBottom>Shareholder Votes</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Votes are weighted by shares and stay open {GOVERNANCE_CONFIG.votingMonths} game month.
+        A proposal passes when {(GOVERNANCE_CONFIG.quorum * 100).toFixed(0)}% of shares vote and most of them vote for it.
+        {votingPower > 0 && ` You hold ${votingPower} share${votingPower !== 1 ? 's' : ''}.`}
+      </Typography>
+
+      {(error || actionError) && <Alert severity="error" sx={{ mb: 2 }}>{actionError ?? error}</Alert>}
+
+      {canPropose && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, alignItems: 'center', mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel>New proposal</InputLabel>
+            <Select
+              label="New proposal"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as ProposalKind)}
+            >
+              {availableKinds.map(option => (
+                <MenuItem key={option} value={option}>{PROPOSAL_LABELS[option]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {kind === 'change_manager' && (
+            <FormControl size="small" sx={{ minWidth: 220 }}>
+              <InputLabel>Manager</InputLabel>
+              <Select label="Manager" value={managerId} onChange={(e) => setManagerId(e.target.value)}>
+                {PROPERTY_MANAGERS.map(manager => (
+                  <MenuItem key={manager.id} value={manager.id}>
+                    {manager.name} · {(manager.managementRate * 100).toFixed(0)}% of rent
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+          {kind === 'renovate' && (
+            <>
+              <FormControl size="small" sx={{ minWidth: 180 }}>
+                <InputLabel>Renovation</InputLabel>
+                <Select label="Renovation" value={renovationKind} onChange={(e) => setRenovationKind(e.target.value as RenovationKind)}>
+                  {(Object.keys(RENOVATION_SPECS) as RenovationKind[]).map(option => (
+                    <MenuItem key={option} value={option}>{RENOVATION_SPECS[option].label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl size="small" sx={{ minWidth: 180 }}>
+                <InputLabel>Paid</InputLabel>
+                <Select label="Paid" value={renovationFunding} onChange={(e) => setRenovationFunding(e.target.value as RenovationFunding)}>
+                  {(Object.keys(RENOVATION_FUNDING_LABELS) as RenovationFunding[]).map(option => (
+                    <MenuItem key={option} value={option}>{RENOVATION_FUNDING_LABELS[option]}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </>
+          )}
+          <Button
+            variant="outlined"
+            disabled={incomplete || submitting}
+            onClick={handlePropose}
+          >
+            Propose
+          </Button>
+        </Box>
+      )}
+      {canPropose && renovationQuote && (
+        <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: -1, mb: 2 }}>
+          ${renovationQuote.budgetUsd.toFixed(0)} budget over {renovationQuote.durationMonths} game months ·
+          {' '}${renovationQuote.reserveDrawUsd.toFixed(0)} from the reserve,
+          {' '}${renovationQuote.capitalCallPerShareUsd.toFixed(2)} per share called ·
+          {' '}adds about ${renovationQuote.valueAddedUsd.toFixed(0)} in value and takes the yield to {(renovationQuote.rentalYieldAfter * 100).toFixed(2)}%
+        </Typography>
+      )}
+
+      {proposals.map(({ proposal, tally, userVote }) => {
+        const open = proposal.status === 'open';
+        return (
+          <Box key={proposal.id} sx={{ mb: 2, p: 2, border: 1, borderColor: 'divider', borderRadius: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mb: 1 }}>
+              <Typography variant="subtitle2">{GovernanceService.describe(proposal)}</Typography>
+              <Chip size="small" color={STATUS_COLORS[proposal.status]} label={proposal.status} />
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              color={tally.passing ? 'success' : 'primary'}
+              value={Math.min(100, (tally.forShares / proposal.totalShares) * 100)}
+              sx={{ height: 6, borderRadius: 3, mb: 1 }}
+            />
+            <Typography variant="caption" color="text.secondary" display="block">
+              For {tally.forShares} · Against {tally.againstShares} · {(tally.turnout * 100).toFixed(0)}% voted
+              {' · '}{open ? `closes ${formatGameDate(proposal.votingEndsAt)}` : `closed ${formatGameDate(proposal.resolvedAt ?? proposal.votingEndsAt)}`}
+              {' · '}proposed by {proposal.proposerName}
+            </Typography>
+            {proposal.outcome && (
+              <Typography variant="body2" sx={{ mt: 1 }}>{proposal.outcome}</Typography>
+            )}
+            {open && (userVote ? (
+              <Chip size="small" variant="outlined" sx={{ mt: 1 }} label={`You voted ${userVote.choice} with ${userVote.shares} shares`} />
+            ) : votingPower > 0 && (
+              <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                <Button size="small" variant="contained" color="success" disabled={submitting} onClick={() => handleVote(proposal.id!, 'for')}>
+                  Vote for
+                </Button>
+                <Button size="small" variant="outlined" color="error" disabled={submitting} onClick={() => handleVote(proposal.id!, 'against')}>
+                  Vote against
+                </Button>
+              </Box>
+            ))}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
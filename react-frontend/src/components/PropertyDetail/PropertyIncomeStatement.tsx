@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  Chip
+} from '@mui/material';
+import type { Property } from '../../types/property';
+import {
+  OPERATING_EXPENSE_LABELS,
+  PropertyOperationsService,
+  type OperatingExpenseKind
+} from '../../services/propertyOperationsService';
+import { GAME_YEAR_MS, getSimulationClock } from '../../services/simulationClock';
+
+interface PropertyIncomeStatementProps {
+  property: Property;
+}
+
+const formatUsd = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+/**
+ * Trailing game-year income statement of a property: rent collected after
+ * vacancy, each operating cost and the net operating income paid to investors
+ */
+export const PropertyIncomeStatement: React.FC<PropertyIncomeStatementProps> = ({ property }) => {
+  const statement = useMemo(() => {
+    const to = getSimulationClock().gameNow();
+    return PropertyOperationsService.incomeStatement(
+      {
+        id: property.id,
+        class: property.class,
+        yearBuilt: property.yearBuilt,
+        value: property.price,
+        rentalYield: property.rentalYield,
+        manager: property.manager,
+        improvements: property.improvements,
+      },
+      new Date(to.getTime() - GAME_YEAR_MS),
+      to
+    );
+  }, [property.id, property.class, property.yearBuilt, property.price, property.rentalYield, property.manager, property.improvements]);
+
+  const events = statement.months
+    .flatMap(month => month.events.map(event => ({ event, start: month.start })))
+    .reverse();
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Income Statement
+      </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Last 12 game months · {(statement.occupancyRate * 100).toFixed(0)}% occupied
+      </Typography>
+
+      <Table size="small">
+        <TableBody>
+          <TableRow>
+            <TableCell>Gross potential rent</TableCell>
+            <TableCell align="right">{formatUsd(statement.grossPotentialRent)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Vacancy loss</TableCell>
+            <TableCell align="right">{formatUsd(-statement.vacancyLoss)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell sx={{ fontWeight: 600 }}>Effective rent</TableCell>
+            <TableCell align="right" sx={{ fontWeight: 600 }}>{formatUsd(statement.effectiveRent)}</TableCell>
+          </TableRow>
+          {(Object.keys(OPERATING_EXPENSE_LABELS) as OperatingExpenseKind[]).map(kind => (
+            <TableRow key={kind}>
+              <TableCell sx={{ pl: 4 }}>{OPERATING_EXPENSE_LABELS[kind]}</TableCell>
+              <TableCell align="right">{formatUsd(-statement.expenses[kind])}</TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell sx={{ fontWeight: 600 }}>Net operating income</TableCell>
+            <TableCell
+              align="right"
+              sx={{ fontWeight: 600, color: statement.netOperatingIncome >= 0 ? 'success.main' : 'error.main' }}
+            >
+              {formatUsd(statement.netOperatingIncome)}
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+
+      {events.length > 0 && (
+        <Box sx={{ mt: 2, display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+          {events.map(({ event, start }, index) => (
+            <Chip key={index} size="small" variant="outlined" label={`${start.toLocaleDateString()}: ${event}`} />
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
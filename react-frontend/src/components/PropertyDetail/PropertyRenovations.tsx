@@ -0,0 +1,86 @@
+import React from 'react';
+import { Box, Typography, Chip, LinearProgress, Alert, Divider } from '@mui/material';
+import { useRenovations } from '../../hooks/useRenovations';
+import { RenovationService } from '../../services/renovationService';
+import { getSimulationClock } from '../../services/simulationClock';
+import type { Property } from '../../types/property';
+
+interface PropertyRenovationsProps {
+  property: Property;
+}
+
+const formatUsd = (amount: number) => `$${amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const formatGameDate = (gameTime: Date) =>
+  gameTime.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+/**
+ * Renovations shareholders have voted for: how they are paid for, progress
+ * on the work, what finished ones added, and the user's capital calls
+ */
+export const PropertyRenovations: React.FC<PropertyRenovationsProps> = ({ property }) => {
+  const { projects, capitalCalls, error } = useRenovations(property.id);
+
+  if (projects.length === 0) return null;
+
+  const gameNow = getSimulationClock().gameNow();
+  const reserve = RenovationService.reserveBalance(property, gameNow);
+
+  return (
+    <Box>
+      <Divider sx={{ my: 3 }} />
+      <Typography variant="h6" gutterBottom>Renovations</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {formatUsd(reserve)} left in the capital reserve. Capital calls are charged to the shares held when they are made
+        and paid from your wallet.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {projects.map(project => {
+        const underWay = project.status === 'in_progress';
+        const duration = project.completesAt.getTime() - project.startedAt.getTime();
+        const progress = underWay
+          ? Math.min(100, ((gameNow.getTime() - project.startedAt.getTime()) / duration) * 100)
+          : 100;
+        const calls = capitalCalls.filter(call => call.projectId === project.id);
+
+        return (
+          <Box key={project.id} sx={{ mb: 2, p: 2, border: 1, borderColor: 'divider', borderRadius: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mb: 1 }}>
+              <Typography variant="subtitle2">{RenovationService.describe(project)}</Typography>
+              <Chip
+                size="small"
+                color={underWay ? 'info' : 'success'}
+                label={underWay ? `Due ${formatGameDate(project.completesAt)}` : `Completed ${formatGameDate(project.completedAt ?? project.completesAt)}`}
+              />
+            </Box>
+            <LinearProgress variant="determinate" value={progress} sx={{ height: 6, borderRadius: 3, mb: 1 }} />
+            <Typography variant="caption" color="text.secondary" display="block">
+              {formatUsd(project.budgetUsd)} budget · {formatUsd(project.reserveDrawUsd)} from the reserve
+              · {formatUsd(project.capitalCallUsd)} called from holders
+              {(project.overrunUsd ?? 0) > 0 && ` · ${formatUsd(project.overrunUsd!)} over budget`}
+            </Typography>
+            {!underWay && project.rentalYieldBefore !== undefined && project.rentalYieldAfter !== undefined && (
+              <Typography variant="body2" sx={{ mt: 1 }}>
+                Added {formatUsd(project.valueAddedUsd ?? 0)} in value
+                {project.rentalYieldAfter !== project.rentalYieldBefore &&
+                  `; yield ${(project.rentalYieldBefore * 100).toFixed(2)}% → ${(project.rentalYieldAfter * 100).toFixed(2)}%`}
+              </Typography>
+            )}
+            {calls.map(call => (
+              <Chip
+                key={call.stage}
+                size="small"
+                variant="outlined"
+                color={call.paid ? 'default' : 'warning'}
+                sx={{ mt: 1, mr: 1 }}
+                label={`Your ${call.stage === 'overrun' ? 'overrun ' : ''}call: ${formatUsd(call.amountUsd)} on ${call.shares} shares · ${call.paid ? 'paid' : 'outstanding'}`}
+              />
+            ))}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Autocomplete,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+import type { Property } from '../../types/property';
+import { propertyService } from '../../services/firebaseService';
+import { PriceOracleService } from '../../services/priceOracleService';
+import { ScenarioPlannerService, type ScenarioProjection } from '../../services/scenarioPlannerService';
+import { SCENARIOS, SCENARIO_IDS, SCENARIO_PLANNER_CONFIG, type ScenarioId } from '../../config/scenarioConfig';
+import { useCryptoPrices } from '../../hooks/useCryptoPrices';
+
+interface ScenarioPlannerProps {
+  property: Property;
+}
+
+const formatUsd = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const formatPercent = (value: number) => `${value < 0 ? '' : '+'}${(value * 100).toFixed(1)}%`;
+
+const profitColor = (value: number) => (value >= 0 ? 'success.main' : 'error.main');
+
+// Rows of the outcome tables, shared by the scenario and comparison views
+const OUTCOME_ROWS: { label: string; value: (projection: ScenarioProjection) => string; signed?: (projection: ScenarioProjection) => number }[] = [
+  { label: 'Appreciation / year', value: p => formatPercent(p.annualAppreciationRate) },
+  { label: 'Invested (with fees)', value: p => formatUsd(p.totalInvested) },
+  { label: 'Net rent', value: p => formatUsd(p.netRent) },
+  { label: 'Rent fees', value: p => formatUsd(-p.rentFees) },
+  { label: 'Exit value', value: p => formatUsd(p.exitValue) },
+  { label: 'Exit costs', value: p => formatUsd(-p.exitCosts) },
+  { label: 'Profit', value: p => formatUsd(p.profit), signed: p => p.profit },
+  { label: 'Total return', value: p => formatPercent(p.totalReturn), signed: p => p.totalReturn },
+  { label: 'Annualized return', value: p => formatPercent(p.annualizedReturn), signed: p => p.annualizedReturn },
+];
+
+/**
+ * Projected outcomes of buying shares and holding them to a sale, under
+ * optimistic, base and pessimistic assumptions, and side by side with other
+ * listed properties under one of them
+ */
+export const ScenarioPlanner: React.FC<ScenarioPlannerProps> = ({ property }) => {
+  const { prices } = useCryptoPrices();
+  const ethPrice = prices?.ethToUsd ?? PriceOracleService.lastKnownEthUsd();
+
+  const [shares, setShares] = useState(1);
+  const [holdYears, setHoldYears] = useState(() => ScenarioPlannerService.defaultHoldYears(property.class));
+  const [comparedScenario, setComparedScenario] = useState<ScenarioId>('base');
+  const [candidates, setCandidates] = useState<Property[]>([]);
+  const [compared, setCompared] = useState<Property[]>([]);
+
+  useEffect(() => {
+    propertyService.getActiveProperties()
+      .then(properties => setCandidates(properties.filter(candidate => candidate.id !== property.id)))
+      .catch(error => console.error('Failed to load properties to compare:', error));
+  }, [property.id]);
+
+  const plan = useMemo(() => ({ shares, holdYears, ethPrice }), [shares, holdYears, ethPrice]);
+
+  const projections = useMemo(
+    () => ScenarioPlannerService.projectAll(ScenarioPlannerService.fromProperty(property), plan),
+    [property, plan]
+  );
+
+  const comparison = useMemo(
+    () => [property, ...compared].map(candidate => ({
+      property: candidate,
+      projection: ScenarioPlannerService.project(ScenarioPlannerService.fromProperty(candidate), plan, comparedScenario),
+    })),
+    [property, compared, plan, comparedScenario]
+  );
+
+  const outcomeRow = (row: typeof OUTCOME_ROWS[number], columns: ScenarioProjection[]) => (
+    <TableRow key={row.label}>
+      <TableCell sx={{ fontWeight: row.signed ? 600 : 400 }}>{row.label}</TableCell>
+      {columns.map((projection, index) => (
+        <TableCell
+          key={index}
+          align="right"
+          sx={row.signed ? { fontWeight: 600, color: profitColor(row.signed(projection)) } : undefined}
+        >
+          {row.value(projection)}
+        </TableCell>
+      ))}
+    </TableRow>
+  );
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Scenario Planner
+      </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Projected rent after vacancy and operating costs, appreciation, fees and the exit sale. Class {property.class} properties are sold after {ScenarioPlannerService.defaultHoldYears(property.class)} years.
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, my: 2 }}>
+        <TextField
+          label="Shares"
+          type="number"
+          size="small"
+          value={shares}
+          onChange={(e) => setShares(Math.max(1, Math.min(100, parseInt(e.target.value) || 1)))}
+          inputProps={{ min: 1, max: 100 }}
+          helperText="Out of 100"
+        />
+        <TextField
+          label="Hold (years)"
+          type="number"
+          size="small"
+          value={holdYears}
+          onChange={(e) => setHoldYears(Math.max(1, Math.min(SCENARIO_PLANNER_CONFIG.maxHoldYears, parseInt(e.target.value) || 1)))}
+          inputProps={{ min: 1, max: SCENARIO_PLANNER_CONFIG.maxHoldYears }}
+        />
+      </Box>
+
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell />
+            {SCENARIO_IDS.map(scenario => (
+              <TableCell key={scenario} align="right">{SCENARIOS[scenario].label}</TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {OUTCOME_ROWS.map(row => outcomeRow(row, SCENARIO_IDS.map(scenario => projections[scenario])))}
+        </TableBody>
+      </Table>
+
+      <Typography variant="h6" gutterBottom sx={{ mt: 4 }}>
+        Compare Properties
+      </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        The same shares and hold period in up to {SCENARIO_PLANNER_CONFIG.maxCompared} other listed properties.
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', my: 2, flexWrap: 'wrap' }}>
+        <Autocomplete
+          multiple
+          size="small"
+          sx={{ flexGrow: 1, minWidth: 280 }}
+          options={candidates}
+          value={compared}
+          onChange={(_, value) => setCompared(value.slice(0, SCENARIO_PLANNER_CONFIG.maxCompared))}
+          getOptionLabel={(option) => `${option.address}, ${option.city} (Class ${option.class})`}
+          isOptionEqualToValue={(option, value) => option.id === value.id}
+          getOptionDisabled={() => compared.length >= SCENARIO_PLANNER_CONFIG.maxCompared}
+          renderInput={(params) => <TextField {...params} label="Properties to compare" />}
+        />
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={comparedScenario}
+          onChange={(_, value) => value && setComparedScenario(value)}
+        >
+          {SCENARIO_IDS.map(scenario => (
+            <ToggleButton key={scenario} value={scenario}>{SCENARIOS[scenario].label}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      {compared.length > 0 && (
+        <Box sx={{ overflowX: 'auto' }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell />
+                {comparison.map(({ property: candidate }, index) => (
+                  <TableCell key={candidate.id} align="right">
+                    <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                      {index === 0 ? 'This property' : candidate.address}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Class {candidate.class} · {(candidate.rentalYield * 100).toFixed(1)}% yield
+                    </Typography>
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {OUTCOME_ROWS.map(row => outcomeRow(row, comparison.map(({ projection }) => projection)))}
+            </TableBody>
+          </Table>
+        </Box>
+      )}
+    </Box>
+  );
+};
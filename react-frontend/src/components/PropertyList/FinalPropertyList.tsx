@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { 
   Box, 
   Typography, 
@@ -21,7 +22,8 @@ import {
   Select,
   MenuItem,
   FormControl,
-  InputLabel
+  InputLabel,
+  Chip
 } from '@mui/material';
 import { FilterList, ExpandMore, ExpandLess, Share, AttachMoney, Search } from '@mui/icons-material';
 import { useUserScopedPropertyPool } from '../../hooks/useUserScopedPropertyPool';
@@ -30,27 +32,39 @@ import { PropertyDetailModal } from '../PropertyDetail/PropertyDetailModal';
 import { PropertyPurchaseModal } from '../Purchase/PropertyPurchaseModal';
 import { getRentalIncomeDisplay } from '../../utils/rentalCalculations';
 import { backfillPropertyTimestamps } from '../../utils/backfillPropertyTimestamps';
+import {
+  PROPERTY_CLASSES,
+  SORT_OPTIONS,
+  sortKey,
+  DEFAULT_SEARCH_CRITERIA,
+  decodeSearchParams,
+  encodeSearchParams,
+  matchesSearch,
+  sortProperties
+} from '../../utils/propertySearch';
+import { SavedSearchesMenu } from './SavedSearchesMenu';
+import { PropertySearchIndex } from '../../services/propertySearchIndex';
+import { YIELD_BUCKETS, type YieldBucket } from '../../config/searchConfig';
+import type { PropertyClass, PropertyFilters, PropertyPriceMode, PropertySearchCriteria } from '../../types/property';
 
 export default function FinalPropertyList() {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
   const { properties, loading, error, refreshProperties } = useUserScopedPropertyPool();
   const [currentPage, setCurrentPage] = useState(1);
   const [showFilters, setShowFilters] = useState(false);
   
-  // Filter states
-  const [selectedClasses, setSelectedClasses] = useState<string[]>(['A', 'B', 'C']); // All selected by default
-  const [priceRanges, setPriceRanges] = useState<Record<string, number[]>>({
-    A: [0, 50000000],
-    B: [0, 50000000], 
-    C: [0, 50000000]
-  }); // Individual price ranges for each class
-  const [searchMode, setSearchMode] = useState('total'); // 'total' or 'shares'
-  const [numberOfShares, setNumberOfShares] = useState(1); // Number of shares to calculate price for
-  const [selectedState, setSelectedState] = useState('all'); // Selected state filter
+  // Filter state lives in the URL so a filtered view survives navigation and can be bookmarked or shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const criteria = useMemo(() => decodeSearchParams(searchParams), [searchParams]);
+  const selectedClasses: PropertyClass[] = criteria.filters.class ?? PROPERTY_CLASSES; // All selected by default
+  const priceRanges = criteria.filters.classPriceRanges ?? {}; // Individual price ranges for each class; absent means any price
+  const searchMode = criteria.priceMode;
+  const numberOfShares = criteria.shares; // Number of shares to calculate price for
+  const selectedState = criteria.filters.state ?? 'all';
+  const searchTerm = criteria.term;
   const [selectedProperty, setSelectedProperty] = useState<any | null>(null); // Property for modals
   const [detailModalOpen, setDetailModalOpen] = useState(false); // Detail modal open state
   const [purchaseModalOpen, setPurchaseModalOpen] = useState(false); // Purchase modal open state
-  const [searchTerm, setSearchTerm] = useState(''); // Search functionality
   
   const PROPERTIES_PER_PAGE = 20;
 
@@ -110,40 +124,57 @@ export default function FinalPropertyList() {
   };
 
 
-  // Calculate price for comparison (total or per shares)
-  const getComparisonPrice = (property: any) => {
-    if (searchMode === 'shares') {
-      // Each property has 100 total shares, calculate price per specified shares
-      const pricePerShare = property.price / 100;
-      return pricePerShare * numberOfShares;
-    }
-    return property.price;
+  // Write new criteria to the URL; edits replace the history entry rather than adding one per keystroke
+  const applyCriteria = (next: PropertySearchCriteria, replace = true) => {
+    setSearchParams(encodeSearchParams(next), { replace });
+    setCurrentPage(1); // Reset to page 1 when filters change
   };
 
-  // Filter properties based on selected criteria
-  const filteredProperties = properties.filter(property => {
-    const classMatch = selectedClasses.includes(property.class);
-    if (!classMatch) return false;
-    
-    const stateMatch = selectedState === 'all' || property.state === selectedState;
-    if (!stateMatch) return false;
-    
-    const classRange = priceRanges[property.class];
-    const comparisonPrice = getComparisonPrice(property);
-    const priceMatch = comparisonPrice >= classRange[0] && comparisonPrice <= classRange[1];
-    if (!priceMatch) return false;
-    
-    // Search filter - case insensitive address and city search
-    if (searchTerm.trim()) {
-      const searchLower = searchTerm.toLowerCase().trim();
-      const addressLower = (property.address || '').toLowerCase();
-      const cityLower = (property.city || '').toLowerCase();
-      const searchMatch = addressLower.includes(searchLower) || cityLower.includes(searchLower);
-      if (!searchMatch) return false;
-    }
-    
-    return true;
-  });
+  const updateFilters = (changes: PropertyFilters) => {
+    applyCriteria({ ...criteria, filters: { ...criteria.filters, ...changes } });
+  };
+
+  // Price ranges are in the price mode's units, so they reset when it changes
+  const updatePriceMode = (priceMode: PropertyPriceMode, shares: number) => {
+    const filters = { ...criteria.filters };
+    delete filters.classPriceRanges;
+    applyCriteria({ ...criteria, priceMode, shares, filters });
+  };
+
+  // Yield buckets inside the selected yield range
+  const selectedYieldBuckets = useMemo(() => YIELD_BUCKETS.filter(bucket => {
+    const range = criteria.filters.rentalYieldRange;
+    return range && bucket.min >= range.min && Math.min(bucket.max, 1) <= range.max;
+  }), [criteria]);
+
+  // The search index matches the text and the faceted filters (class, state and
+  // yield), counting each facet's values; everything else is filtered here first
+  const searchResult = useMemo(() => {
+    const searchIndex = PropertySearchIndex.forPool(PropertySearchIndex.userPool(user?.uid ?? ''));
+    searchIndex.upsertAll(properties);
+
+    const otherFilters: PropertyFilters = { ...criteria.filters };
+    delete otherFilters.class;
+    delete otherFilters.state;
+    delete otherFilters.rentalYieldRange;
+    const otherCriteria = { ...criteria, term: '', filters: otherFilters };
+
+    return searchIndex.search({
+      text: criteria.term,
+      filters: {
+        class: criteria.filters.class,
+        state: criteria.filters.state ? [criteria.filters.state] : undefined,
+        yield: criteria.filters.rentalYieldRange ? selectedYieldBuckets.map(bucket => bucket.id) : undefined,
+      },
+      candidates: new Set(properties.filter(property => matchesSearch(property, otherCriteria)).map(property => property.id)),
+    });
+  }, [properties, criteria, selectedYieldBuckets, user?.uid]);
+
+  // Text searches on the default sort show the best matches first
+  const rankByRelevance = Boolean(searchTerm.trim()) && sortKey(criteria.sort) === sortKey(DEFAULT_SEARCH_CRITERIA.sort);
+  const matchedProperties = PropertySearchIndex.order(properties, searchResult.hits);
+  const filteredProperties = rankByRelevance ? matchedProperties : sortProperties(matchedProperties, criteria.sort);
+  const facets = searchResult.facets;
 
   // Calculate pagination for filtered properties
   const totalPages = Math.ceil(filteredProperties.length / PROPERTIES_PER_PAGE);
@@ -157,48 +188,41 @@ export default function FinalPropertyList() {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const handleClassChange = (className: string) => {
-    setSelectedClasses(prev => {
-      const newClasses = prev.includes(className)
-        ? prev.filter(c => c !== className)
-        : [...prev, className];
-      setCurrentPage(1); // Reset to page 1 when filters change
-      return newClasses;
-    });
+  const handleClassChange = (className: PropertyClass) => {
+    const newClasses = selectedClasses.includes(className)
+      ? selectedClasses.filter(c => c !== className)
+      : PROPERTY_CLASSES.filter(c => c === className || selectedClasses.includes(c));
+    updateFilters({ class: newClasses });
   };
 
-  const handlePriceRangeChange = (className: string, newValue: number | number[]) => {
-    setPriceRanges(prev => ({
-      ...prev,
-      [className]: newValue as number[]
-    }));
-    setCurrentPage(1); // Reset to page 1 when filters change
+  const handlePriceRangeChange = (className: PropertyClass, newValue: number | number[]) => {
+    const [min, max] = newValue as number[];
+    updateFilters({ classPriceRanges: { ...priceRanges, [className]: { min, max } } });
   };
 
   const resetFilters = () => {
-    setSelectedClasses(['A', 'B', 'C']);
-    setPriceRanges({
-      A: [0, 50000000],
-      B: [0, 50000000], 
-      C: [0, 50000000]
-    });
-    setSearchMode('total');
-    setNumberOfShares(1);
-    setSelectedState('all');
-    setSearchTerm('');
-    setCurrentPage(1);
+    applyCriteria(DEFAULT_SEARCH_CRITERIA);
   };
 
   const handleSharesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(event.target.value) || 1;
     const clampedValue = Math.max(1, Math.min(100, value)); // Ensure between 1-100
-    setNumberOfShares(clampedValue);
-    setCurrentPage(1);
+    updatePriceMode('shares', clampedValue);
   };
 
   const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(event.target.value);
-    setCurrentPage(1); // Reset to page 1 when search changes
+    applyCriteria({ ...criteria, term: event.target.value });
+  };
+
+  const handleYieldBucketClick = (bucket: YieldBucket) => {
+    const filters: PropertyFilters = { ...criteria.filters, rentalYieldRange: { min: bucket.min, max: Math.min(bucket.max, 1) } };
+    if (selectedYieldBuckets.length === 1 && selectedYieldBuckets[0].id === bucket.id) delete filters.rentalYieldRange;
+    applyCriteria({ ...criteria, filters });
+  };
+
+  const handleSortChange = (value: string) => {
+    const option = SORT_OPTIONS.find(candidate => sortKey(candidate.sort) === value);
+    if (option) applyCriteria({ ...criteria, sort: option.sort });
   };
 
   const handlePropertyClick = (property: any) => {
@@ -243,12 +267,11 @@ export default function FinalPropertyList() {
   const toggleSelectAll = () => {
     if (selectedClasses.length === 3) {
       // If all are selected, select none
-      setSelectedClasses([]);
+      updateFilters({ class: [] });
     } else {
       // If some or none are selected, select all
-      setSelectedClasses(['A', 'B', 'C']);
+      updateFilters({ class: PROPERTY_CLASSES });
     }
-    setCurrentPage(1);
   };
 
   // Calculate price range bounds based on selected classes
@@ -299,25 +322,6 @@ export default function FinalPropertyList() {
     );
   }
 
-  useEffect(() => {
-    // Initialize individual class price ranges when properties load or search mode changes
-    if (properties.length > 0) {
-      const newRanges: Record<string, number[]> = {};
-      
-      ['A', 'B', 'C'].forEach(className => {
-        const classPrices = getClassPrices(className);
-        if (classPrices.length > 0) {
-          newRanges[className] = [Math.min(...classPrices), Math.max(...classPrices)];
-        } else {
-          const defaultMax = searchMode === 'shares' ? 500000 : 50000000;
-          newRanges[className] = [0, defaultMax];
-        }
-      });
-      
-      setPriceRanges(newRanges);
-    }
-  }, [properties, searchMode, numberOfShares]);
-
   if (loading) {
     return (
       <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', p: 4 }}>
@@ -347,7 +351,7 @@ export default function FinalPropertyList() {
         <TextField
           fullWidth
           variant="outlined"
-          placeholder="Search properties by address or city (e.g., '123', 'Main St', 'Denver', 'Miami')..."
+          placeholder="Search by address, city, state, amenities or description (e.g., '123 Main', 'Denver', 'pool')..."
           value={searchTerm}
           onChange={handleSearchChange}
           InputProps={{
@@ -402,6 +406,21 @@ export default function FinalPropertyList() {
           )}
         </Box>
         <Box sx={{ display: 'flex', gap: 1 }}>
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Sort By</InputLabel>
+            <Select
+              value={sortKey(criteria.sort)}
+              label="Sort By"
+              onChange={(e) => handleSortChange(e.target.value)}
+            >
+              {SORT_OPTIONS.map(option => (
+                <MenuItem key={sortKey(option.sort)} value={sortKey(option.sort)}>
+                  {rankByRelevance && sortKey(option.sort) === sortKey(DEFAULT_SEARCH_CRITERIA.sort) ? 'Best match' : option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <SavedSearchesMenu criteria={criteria} onApply={(saved) => applyCriteria(saved, false)} />
           <Button 
             variant="outlined" 
             startIcon={<FilterList />}
@@ -425,10 +444,7 @@ export default function FinalPropertyList() {
                   <Select
                     value={searchMode}
                     label="Search Mode"
-                    onChange={(e) => {
-                      setSearchMode(e.target.value);
-                      setCurrentPage(1);
-                    }}
+                    onChange={(e) => updatePriceMode(e.target.value as PropertyPriceMode, 1)}
                   >
                     <MenuItem value="total">
                       <Box sx={{ display: 'flex', alignItems: 'center' }}>
@@ -453,13 +469,16 @@ export default function FinalPropertyList() {
                     value={selectedState}
                     label="State"
                     onChange={(e) => {
-                      setSelectedState(e.target.value);
-                      setCurrentPage(1);
+                      const filters: PropertyFilters = { ...criteria.filters, state: e.target.value };
+                      if (e.target.value === 'all') delete filters.state;
+                      applyCriteria({ ...criteria, filters });
                     }}
                   >
                     {Object.entries(US_STATES).map(([value, label]) => (
                       <MenuItem key={value} value={value}>
-                        <Typography>{label}</Typography>
+                        <Typography>
+                          {label}{value !== 'all' && facets.state[value] ? ` (${facets.state[value]})` : ''}
+                        </Typography>
                       </MenuItem>
                     ))}
                   </Select>
@@ -503,7 +522,7 @@ export default function FinalPropertyList() {
                 Property Class
               </Typography>
               <FormGroup row>
-                {['A', 'B', 'C'].map((className) => (
+                {PROPERTY_CLASSES.map((className) => (
                   <FormControlLabel
                     key={className}
                     control={
@@ -534,7 +553,7 @@ export default function FinalPropertyList() {
                         fontWeight: 600,
                         fontSize: '0.875rem'
                       }}>
-                        Class {className}
+                        Class {className} ({facets.class[className] ?? 0})
                       </Box>
                     }
                   />
@@ -611,7 +630,7 @@ export default function FinalPropertyList() {
                         {/* Individual Class Slider */}
                         <Box sx={{ px: 2 }}>
                           <Slider
-                            value={priceRanges[className] || [classMin, classMax]}
+                            value={priceRanges[className] ? [priceRanges[className]!.min, priceRanges[className]!.max] : [classMin, classMax]}
                             onChange={(event, newValue) => handlePriceRangeChange(className, newValue)}
                             valueLabelDisplay="auto"
                             min={classMin}
@@ -651,10 +670,10 @@ export default function FinalPropertyList() {
                           />
                           <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
                             <Typography variant="body2" color="text.secondary" fontSize="0.75rem">
-                              Selected: ${(priceRanges[className]?.[0] || classMin).toLocaleString()}
+                              Selected: ${(priceRanges[className]?.min ?? classMin).toLocaleString()}
                             </Typography>
                             <Typography variant="body2" color="text.secondary" fontSize="0.75rem">
-                              to ${(priceRanges[className]?.[1] || classMax).toLocaleString()}
+                              to ${(priceRanges[className]?.max ?? classMax).toLocaleString()}
                             </Typography>
                           </Box>
                         </Box>
@@ -669,6 +688,24 @@ export default function FinalPropertyList() {
               )}
             </Grid>
 
+            {/* Rental Yield Buckets */}
+            <Grid item xs={12}>
+              <Typography variant="h6" gutterBottom>
+                Rental Yield
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                {YIELD_BUCKETS.map(bucket => (
+                  <Chip
+                    key={bucket.id}
+                    label={`${bucket.label} (${facets.yield[bucket.id]})`}
+                    color={selectedYieldBuckets.some(selected => selected.id === bucket.id) ? 'primary' : 'default'}
+                    variant={selectedYieldBuckets.some(selected => selected.id === bucket.id) ? 'filled' : 'outlined'}
+                    onClick={() => handleYieldBucketClick(bucket)}
+                  />
+                ))}
+              </Box>
+            </Grid>
+
             {/* Filter Actions */}
             <Grid item xs={12}>
               <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
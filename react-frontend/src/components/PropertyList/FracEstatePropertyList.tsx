@@ -49,6 +49,7 @@ import {
 import { Property, PropertyFilters, PropertySortOptions, PropertyClass, PropertyRegion, PropertyStatus } from '../../types/property';
 import { propertyService } from '../../services/firebaseService';
 import FracEstatePropertyCard from '../PropertyCard/FracEstatePropertyCard';
+import { useCompareTray } from '../../hooks/useCompareTray';
 import { STATE_REGION_MAPPING } from '../../utils/propertyGenerator';
 
 interface TabPanelProps {
@@ -91,6 +92,7 @@ export default function FracEstatePropertyList() {
     error 
   });
   const [watchlist, setWatchlist] = useState<Set<string>>(new Set());
+  const compareTray = useCompareTray();
   
   // UI State
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
@@ -641,6 +643,9 @@ export default function FracEstatePropertyList() {
                   isInWatchlist={watchlist.has(property.id)}
                   onToggleWatchlist={handleToggleWatchlist}
                   onShare={handleShare}
+                  isInCompare={compareTray.isInTray(property.id)}
+                  canAddToCompare={!compareTray.isFull}
+                  onToggleCompare={compareTray.toggleCompare}
                 />
               </Grid>
             ))}
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControlLabel,
+  IconButton,
+  ListItemIcon,
+  Menu,
+  MenuItem,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Bookmark,
+  BookmarkAdd,
+  Delete,
+  Link as LinkIcon,
+  NotificationsActive,
+  NotificationsOff
+} from '@mui/icons-material';
+import { useSavedSearches } from '../../hooks/useSavedSearches';
+import { SavedSearchService } from '../../services/savedSearchService';
+import type { PropertySearchCriteria } from '../../types/property';
+
+interface SavedSearchesMenuProps {
+  criteria: PropertySearchCriteria;
+  onApply: (criteria: PropertySearchCriteria) => void;
+}
+
+/**
+ * Save the property list's current search by name, reapply saved ones, and
+ * choose which should notify when a new property matches
+ */
+export const SavedSearchesMenu: React.FC<SavedSearchesMenuProps> = ({ criteria, onApply }) => {
+  const { searches, error, saveSearch, setNotifyOnMatch, removeSearch } = useSavedSearches();
+  const [anchor, setAnchor] = useState<null | HTMLElement>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [notifyOnMatch, setNotify] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const openSaveDialog = () => {
+    setAnchor(null);
+    setName('');
+    setNotify(true);
+    setSaveDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = await saveSearch(name, criteria, notifyOnMatch);
+    setSaving(false);
+    if (saved) setSaveDialogOpen(false);
+  };
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}${SavedSearchService.linkOf(criteria)}`);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<Bookmark />}
+        onClick={(e) => setAnchor(e.currentTarget)}
+      >
+        Saved Searches{searches.length > 0 ? ` (${searches.length})` : ''}
+      </Button>
+
+      <Menu
+        anchorEl={anchor}
+        open={Boolean(anchor)}
+        onClose={() => setAnchor(null)}
+        PaperProps={{
+          sx: { minWidth: 340, maxWidth: 420 }
+        }}
+      >
+        <MenuItem onClick={openSaveDialog}>
+          <ListItemIcon><BookmarkAdd fontSize="small" /></ListItemIcon>
+          Save this search…
+        </MenuItem>
+        <MenuItem onClick={handleCopyLink}>
+          <ListItemIcon><LinkIcon fontSize="small" /></ListItemIcon>
+          {linkCopied ? 'Link copied' : 'Copy link to this search'}
+        </MenuItem>
+        <Divider />
+
+        {searches.length === 0 ? (
+          <Box sx={{ px: 2, py: 1.5 }}>
+            <Typography variant="body2" color="text.secondary">
+              No saved searches yet.
+            </Typography>
+          </Box>
+        ) : (
+          searches.map(search => (
+            <MenuItem
+              key={search.id}
+              onClick={() => { onApply(search.criteria); setAnchor(null); }}
+              sx={{ display: 'flex', alignItems: 'center', gap: 1 }}
+            >
+              <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600 }} noWrap>{search.name}</Typography>
+                <Typography variant="caption" color="text.secondary" display="block" noWrap>
+                  {SavedSearchService.describe(search)}
+                </Typography>
+              </Box>
+              <Tooltip title={search.notifyOnMatch ? 'Stop notifying me of new matches' : 'Notify me when a new property matches'}>
+                <IconButton
+                  size="small"
+                  onClick={(e) => { e.stopPropagation(); setNotifyOnMatch(search.id, !search.notifyOnMatch); }}
+                >
+                  {search.notifyOnMatch ? <NotificationsActive fontSize="small" color="primary" /> : <NotificationsOff fontSize="small" />}
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Delete saved search">
+                <IconButton
+                  size="small"
+                  onClick={(e) => { e.stopPropagation(); removeSearch(search.id); }}
+                >
+                  <Delete fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </MenuItem>
+          ))
+        )}
+      </Menu>
+
+      <Dialog open={saveDialogOpen} onClose={() => setSaveDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save Search</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {SavedSearchService.describe({ criteria })}
+          </Typography>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <TextField
+            autoFocus
+            fullWidth
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && name.trim()) handleSave(); }}
+            helperText="Saving under an existing name replaces that search"
+          />
+          <FormControlLabel
+            sx={{ mt: 1 }}
+            control={<Checkbox checked={notifyOnMatch} onChange={(e) => setNotify(e.target.checked)} />}
+            label="Notify me when a new property matches"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving || !name.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
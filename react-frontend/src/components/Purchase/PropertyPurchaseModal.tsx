@@ -21,6 +21,8 @@ import {
   Chip,
   Avatar,
   Stack,
+  Switch,
+  FormControlLabel,
 } from '@mui/material';
 import {
   Close,
@@ -37,6 +39,9 @@ import { Property } from '../../types/property';
 import { useCryptoPrices } from '../../hooks/useCryptoPrices';
 import { PurchaseTransactionService } from '../../services/purchaseTransactionService';
 import { useAuth } from '../../contexts/AuthContext';
+import { EscrowService, type EscrowProcess } from '../../services/escrowService';
+import { OnChainEscrowError, OnChainEscrowService } from '../../services/onChainEscrowService';
+import { LoanService } from '../../services/loanService';
 
 interface PropertyPurchaseModalProps {
   open: boolean;
@@ -77,6 +82,10 @@ export const PropertyPurchaseModal: React.FC<PropertyPurchaseModalProps> = ({
   const [isProcessing, setIsProcessing] = useState(false);
   const [coInvestors, setCoInvestors] = useState<CoInvestor[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [useOnChainEscrow, setUseOnChainEscrow] = useState(false);
+  const [escrowContractAddress, setEscrowContractAddress] = useState('');
+  const [onChainEscrow, setOnChainEscrow] = useState<EscrowProcess | null>(null);
+  const [useFinancing, setUseFinancing] = useState(false);
 
   // Calculate costs - protect against null property
   const sharePrice = property?.sharePrice || (property?.currentValue || 0) / 100;
@@ -84,6 +93,11 @@ export const PropertyPurchaseModal: React.FC<PropertyPurchaseModalProps> = ({
   const availableShares = property?.availableShares || 100;
   const remainingAfterPurchase = availableShares - shares;
 
+  // On-chain escrow settles in cash, so only the simulated flow can be financed
+  const canFinance = !!property && LoanService.isFinanceable(property.class) && !useOnChainEscrow;
+  const loanQuote = canFinance && useFinancing ? LoanService.quote(property.class, totalCost) : null;
+  const cashDue = loanQuote ? loanQuote.downPaymentUsd : totalCost;
+
   // Generate random co-investor usernames
   const generateUsername = () => {
     const prefixes = ['investor', 'trader', 'prop', 'real', 'crypto', 'fund', 'build'];
@@ -130,6 +144,10 @@ export const PropertyPurchaseModal: React.FC<PropertyPurchaseModalProps> = ({
       setIsProcessing(false);
       setCoInvestors([]);
       setError(null);
+      setUseOnChainEscrow(false);
+      setEscrowContractAddress('');
+      setOnChainEscrow(null);
+      setUseFinancing(false);
     }
   }, [open]);
 
@@ -138,6 +156,25 @@ export const PropertyPurchaseModal: React.FC<PropertyPurchaseModalProps> = ({
     setIsProcessing(true);
 
     try {
+      // On-chain mode hands the rest of the purchase to the contract's phases
+      if (activeStep === 0 && useOnChainEscrow) {
+        if (!user?.uid) {
+          setError('User not authenticated');
+          return;
+        }
+
+        const escrow = await EscrowService.initiateOnChainEscrow(
+          property.id,
+          user.uid,
+          shares,
+          totalCost,
+          property.class,
+          escrowContractAddress.trim() || undefined
+        );
+        setOnChainEscrow(escrow);
+        return;
+      }
+
       // Add realistic delays for each step
       await new Promise(resolve => setTimeout(resolve, 1500));
 
@@ -172,7 +209,8 @@ export const PropertyPurchaseModal: React.FC<PropertyPurchaseModalProps> = ({
           user.uid,
           property,
           shares,
-          ethBalance
+          ethBalance,
+          loanQuote ? { financing: {} } : {}
         );
 
         if (purchaseResult.success) {
@@ -187,7 +225,7 @@ export const PropertyPurchaseModal: React.FC<PropertyPurchaseModalProps> = ({
         }
       }
     } catch (err) {
-      setError('Process failed. Please try again.');
+      setError(err instanceof OnChainEscrowError ? err.message : 'Process failed. Please try again.');
     } finally {
       setIsProcessing(false);
     }
@@ -196,12 +234,36 @@ export const PropertyPurchaseModal: React.FC<PropertyPurchaseModalProps> = ({
   const canProceed = () => {
     if (!user?.uid) return false; // Must be authenticated
     if (!isConnected) return false;
-    if (!hasEnoughBalance(totalCost)) return false;
+    if (!hasEnoughBalance(cashDue)) return false;
     if (shares <= 0 || shares > availableShares) return false;
     return true;
   };
 
+  const renderOnChainEscrow = (escrow: EscrowProcess) => (
+    <Box sx={{ textAlign: 'center' }}>
+      <Handshake sx={{ fontSize: 48, color: 'primary.main', mb: 2 }} />
+      <Typography variant="h6" gutterBottom>
+        On-Chain Escrow Opened
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        {escrow.investmentAmount.toFixed(4)} ETH is held for {escrow.sharesOwned} shares while the escrow contract runs.
+      </Typography>
+      <Alert severity="info" sx={{ textAlign: 'left' }}>
+        <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>
+          Contract: {escrow.onChain?.contractAddress}
+        </Typography>
+        <Typography variant="body2" sx={{ mt: 1 }}>
+          Deposit earnest money, record the inspection, collect approvals and fund the sale from the Escrow tracker on your dashboard.
+        </Typography>
+      </Alert>
+    </Box>
+  );
+
   const renderStepContent = () => {
+    if (onChainEscrow) {
+      return renderOnChainEscrow(onChainEscrow);
+    }
+
     switch (activeStep) {
       case 0: // Property Inspection
         return (
@@ -258,6 +320,74 @@ export const PropertyPurchaseModal: React.FC<PropertyPurchaseModalProps> = ({
               </CardContent>
             </Card>
 
+            {/* Escrow Mode */}
+            {OnChainEscrowService.isEnabled() && (
+              <Card sx={{ mb: 3 }}>
+                <CardContent>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={useOnChainEscrow}
+                        onChange={(e) => setUseOnChainEscrow(e.target.checked)}
+                      />
+                    }
+                    label="Settle through an on-chain escrow contract (local Hardhat node)"
+                  />
+                  {useOnChainEscrow && (
+                    <TextField
+                      label="Existing escrow contract (optional)"
+                      placeholder="0x... — leave blank to deploy a new one"
+                      value={escrowContractAddress}
+                      onChange={(e) => setEscrowContractAddress(e.target.value)}
+                      fullWidth
+                      size="small"
+                      sx={{ mt: 2 }}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Financing */}
+            {canFinance && (
+              <Card sx={{ mb: 3 }}>
+                <CardContent>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={useFinancing}
+                        onChange={(e) => setUseFinancing(e.target.checked)}
+                      />
+                    }
+                    label={`Finance with a Class ${property.class} mortgage`}
+                  />
+                  {loanQuote && (
+                    <Stack spacing={1} sx={{ mt: 1 }}>
+                      <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <Typography variant="body2">Down payment:</Typography>
+                        <Typography variant="body2" fontWeight="bold">{loanQuote.downPaymentUsd.toFixed(4)} ETH</Typography>
+                      </Box>
+                      <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <Typography variant="body2">Loan:</Typography>
+                        <Typography variant="body2" fontWeight="bold">
+                          {loanQuote.principalUsd.toFixed(4)} ETH at {(loanQuote.annualRate * 100).toFixed(2)}% over {loanQuote.termMonths / 12} years
+                        </Typography>
+                      </Box>
+                      <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <Typography variant="body2">Monthly debt service:</Typography>
+                        <Typography variant="body2" fontWeight="bold" color="warning.main">
+                          {loanQuote.monthlyPaymentUsd.toFixed(4)} ETH
+                        </Typography>
+                      </Box>
+                      <Typography variant="caption" color="text.secondary">
+                        Installments come out of rent each game month. If rent and wallet can't cover them the loan falls into arrears and the lender can foreclose.
+                      </Typography>
+                    </Stack>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Investment Summary */}
             <Card>
               <CardContent>
@@ -300,7 +430,9 @@ export const PropertyPurchaseModal: React.FC<PropertyPurchaseModalProps> = ({
               Lender Pre-Approval Complete!
             </Typography>
             <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-              Your investment has been automatically approved for Class {property.class} properties.
+              {loanQuote
+                ? `Approved for a ${loanQuote.principalUsd.toFixed(4)} ETH loan at ${(loanQuote.annualRate * 100).toFixed(2)}%, paying ${loanQuote.monthlyPaymentUsd.toFixed(4)} ETH a month.`
+                : `Your investment has been automatically approved for Class ${property.class} properties.`}
             </Typography>
             <Alert severity="success">
               <Typography variant="body2">
@@ -510,15 +642,20 @@ export const PropertyPurchaseModal: React.FC<PropertyPurchaseModalProps> = ({
           </Alert>
         )}
 
-        {isConnected && !hasEnoughBalance(totalCost) && activeStep === 0 && (
+        {isConnected && !hasEnoughBalance(cashDue) && activeStep === 0 && (
           <Alert severity="error" sx={{ mt: 2 }}>
-            Insufficient balance. You need {totalCost.toFixed(4)} ETH but have {formatBalance(ethBalance)} ETH
+            Insufficient balance. You need {cashDue.toFixed(4)} ETH but have {formatBalance(ethBalance)} ETH
           </Alert>
         )}
       </DialogContent>
 
       <DialogActions sx={{ p: 2, pt: 0 }}>
-        {activeStep < 3 && (
+        {onChainEscrow && (
+          <Button onClick={onClose} variant="contained">
+            Close
+          </Button>
+        )}
+        {!onChainEscrow && activeStep < 3 && (
           <>
             <Button onClick={onClose} disabled={isProcessing}>
               Cancel
@@ -534,14 +671,14 @@ export const PropertyPurchaseModal: React.FC<PropertyPurchaseModalProps> = ({
                   <LinearProgress sx={{ width: 60, height: 2 }} />
                 </Box>
               ) : (
-                activeStep === 0 ? 'Start Inspection' :
+                activeStep === 0 ? (useOnChainEscrow ? 'Open Escrow Contract' : 'Start Inspection') :
                 activeStep === 1 ? 'Proceed to Escrow' :
                 activeStep === 2 ? 'Complete Purchase' : 'Next'
               )}
             </Button>
           </>
         )}
-        {activeStep === 3 && (
+        {!onChainEscrow && activeStep === 3 && (
           <Button onClick={onClose} variant="contained" color="success">
             View Dashboard
           </Button>
@@ -216,7 +216,7 @@ export const BlockchainTest: React.FC = () => {
           
           <Alert severity="warning" sx={{ mt: 2 }}>
             <strong>Note:</strong> Ensure the RealEstate contract is deployed to Sepolia 
-            and the contract address is updated in CONTRACT_ADDRESSES configuration.
+            its address is recorded in the deployment manifest (scripts/deploy.js does this).
           </Alert>
         </CardContent>
       </Card>
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -34,10 +35,18 @@ import {
   LocationOn,
   AttachMoney,
   BarChart,
-  PieChart
+  PieChart,
+  NotificationsActive,
+  NotificationsNone,
+  CompareArrows
 } from '@mui/icons-material';
 import { useWatchlistWithProperties, useWatchlistStats } from '../../hooks/useWatchlist';
+import { useAuth } from '../../contexts/AuthContext';
+import { WatchlistAlertService } from '../../services/watchlistAlertService';
 import FracEstatePropertyCard from '../PropertyCard/FracEstatePropertyCard';
+import { useCompareTray } from '../../hooks/useCompareTray';
+import { CompareTrayService } from '../../services/compareTrayService';
+import { WatchlistAlertsDialog } from './WatchlistAlertsDialog';
 import { Property } from '../../types/property';
 
 interface TabPanelProps {
@@ -65,23 +74,31 @@ function TabPanel(props: TabPanelProps) {
 export default function Watchlist() {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const { user } = useAuth();
+  const navigate = useNavigate();
   
   const {
+    items,
     watchedProperties,
     propertiesLoading,
     loading: watchlistLoading,
     error,
     removeFromWatchlist,
     clearWatchlist,
+    setAlerts,
     getWatchlistCount
-  } = useWatchlistWithProperties();
+  } = useWatchlistWithProperties(user?.uid);
   
-  const { stats, loading: statsLoading } = useWatchlistStats();
+  const { stats, loading: statsLoading } = useWatchlistStats(user?.uid);
+  const compareTray = useCompareTray();
   
   // State
   const [tabValue, setTabValue] = useState(0);
   const [clearDialogOpen, setClearDialogOpen] = useState(false);
   const [removingProperty, setRemovingProperty] = useState<string | null>(null);
+  const [alertsProperty, setAlertsProperty] = useState<Property | null>(null);
+
+  const alertsOf = (propertyId: string) => items.find(item => item.propertyId === propertyId)?.alerts;
 
   const handleRemoveProperty = async (propertyId: string) => {
     try {
@@ -161,16 +178,29 @@ export default function Watchlist() {
             </Typography>
           </Box>
           
-          {getWatchlistCount() > 0 && (
-            <Button
-              variant="outlined"
-              color="error"
-              startIcon={<Clear />}
-              onClick={() => setClearDialogOpen(true)}
-            >
-              Clear All
-            </Button>
-          )}
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            {watchedProperties.length > 1 && (
+              <Button
+                variant="outlined"
+                startIcon={<CompareArrows />}
+                onClick={() => navigate(CompareTrayService.linkOf(
+                  watchedProperties.slice(0, CompareTrayService.MAX_ITEMS).map(property => property.id)
+                ))}
+              >
+                Compare{watchedProperties.length > CompareTrayService.MAX_ITEMS ? ` first ${CompareTrayService.MAX_ITEMS}` : ''}
+              </Button>
+            )}
+            {getWatchlistCount() > 0 && (
+              <Button
+                variant="outlined"
+                color="error"
+                startIcon={<Clear />}
+                onClick={() => setClearDialogOpen(true)}
+              >
+                Clear All
+              </Button>
+            )}
+          </Box>
         </Box>
       </Box>
 
@@ -226,6 +256,9 @@ export default function Watchlist() {
                         isInWatchlist={true}
                         onToggleWatchlist={() => handleRemoveProperty(property.id)}
                         onShare={() => handleShareProperty(property)}
+                        isInCompare={compareTray.isInTray(property.id)}
+                        canAddToCompare={!compareTray.isFull}
+                        onToggleCompare={compareTray.toggleCompare}
                       />
                       
                       {/* Remove Button Overlay */}
@@ -250,6 +283,28 @@ export default function Watchlist() {
                           <Delete color="error" />
                         )}
                       </IconButton>
+
+                      {/* Alerts Button Overlay */}
+                      <IconButton
+                        sx={{
+                          position: 'absolute',
+                          top: 8,
+                          left: 48,
+                          backgroundColor: 'rgba(255, 255, 255, 0.9)',
+                          '&:hover': {
+                            backgroundColor: 'rgba(255, 255, 255, 1)',
+                          },
+                          zIndex: 1
+                        }}
+                        size="small"
+                        onClick={() => setAlertsProperty(property)}
+                      >
+                        {WatchlistAlertService.hasAlerts(alertsOf(property.id)) ? (
+                          <NotificationsActive color="primary" />
+                        ) : (
+                          <NotificationsNone />
+                        )}
+                      </IconButton>
                     </Box>
                   </Grid>
                 ))}
@@ -417,6 +472,16 @@ export default function Watchlist() {
         </>
       )}
 
+      {alertsProperty && (
+        <WatchlistAlertsDialog
+          open
+          property={alertsProperty}
+          alerts={alertsOf(alertsProperty.id)}
+          onClose={() => setAlertsProperty(null)}
+          onSave={(alerts) => setAlerts(alertsProperty.id, alerts)}
+        />
+      )}
+
       {/* Clear Watchlist Dialog */}
       <Dialog
         open={clearDialogOpen}
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  InputAdornment,
+  Switch,
+  TextField,
+  Typography
+} from '@mui/material';
+import { WATCHLIST_ALERT_DEFAULTS, WATCHLIST_ALERT_LABELS } from '../../config/alertConfig';
+import type { Property, WatchlistAlerts } from '../../types/property';
+
+interface WatchlistAlertsDialogProps {
+  open: boolean;
+  property: Property;
+  alerts: WatchlistAlerts | undefined;
+  onClose: () => void;
+  onSave: (alerts: WatchlistAlerts) => Promise<void>;
+}
+
+/**
+ * Choose which changes to a watched property send a notification
+ */
+export const WatchlistAlertsDialog: React.FC<WatchlistAlertsDialogProps> = ({ open, property, alerts, onClose, onSave }) => {
+  const [endingSoon, setEndingSoon] = useState(false);
+  const [sharesBelowOn, setSharesBelowOn] = useState(false);
+  const [sharesBelow, setSharesBelow] = useState(String(WATCHLIST_ALERT_DEFAULTS.sharesBelow));
+  const [yieldAboveOn, setYieldAboveOn] = useState(false);
+  const [yieldAbove, setYieldAbove] = useState(String(WATCHLIST_ALERT_DEFAULTS.yieldAbove * 100));
+  const [withinBudget, setWithinBudget] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved rules each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setEndingSoon(!!alerts?.endingSoon);
+    setSharesBelowOn(alerts?.sharesBelow !== undefined);
+    setSharesBelow(String(alerts?.sharesBelow ?? WATCHLIST_ALERT_DEFAULTS.sharesBelow));
+    setYieldAboveOn(alerts?.yieldAbove !== undefined);
+    setYieldAbove(String((alerts?.yieldAbove ?? WATCHLIST_ALERT_DEFAULTS.yieldAbove) * 100));
+    setWithinBudget(!!alerts?.withinBudget);
+  }, [open, alerts]);
+
+  const sharesBelowValue = Number(sharesBelow);
+  const yieldAboveValue = Number(yieldAbove);
+  const sharesBelowInvalid = sharesBelowOn && (!Number.isInteger(sharesBelowValue) || sharesBelowValue < 1 || sharesBelowValue > 100);
+  const yieldAboveInvalid = yieldAboveOn && (!Number.isFinite(yieldAboveValue) || yieldAboveValue < 0 || yieldAboveValue > 100);
+
+  const handleSave = async () => {
+    const next: WatchlistAlerts = {};
+    if (endingSoon) next.endingSoon = true;
+    if (sharesBelowOn) next.sharesBelow = sharesBelowValue;
+    if (yieldAboveOn) next.yieldAbove = yieldAboveValue / 100;
+    if (withinBudget) next.withinBudget = true;
+
+    setSaving(true);
+    try {
+      await onSave(next);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Alerts for {property.address}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          You'll get a notification when one of these starts to hold, and again if it stops and starts again.
+        </Typography>
+
+        <FormControlLabel
+          control={<Switch checked={endingSoon} onChange={(e) => setEndingSoon(e.target.checked)} />}
+          label={WATCHLIST_ALERT_LABELS.ending_soon}
+        />
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <FormControlLabel
+            control={<Switch checked={sharesBelowOn} onChange={(e) => setSharesBelowOn(e.target.checked)} />}
+            label={WATCHLIST_ALERT_LABELS.shares_below}
+            sx={{ flexGrow: 1 }}
+          />
+          <TextField
+            type="number"
+            size="small"
+            value={sharesBelow}
+            onChange={(e) => setSharesBelow(e.target.value)}
+            disabled={!sharesBelowOn}
+            error={sharesBelowInvalid}
+            inputProps={{ min: 1, max: 100, step: 1 }}
+            sx={{ width: 96 }}
+          />
+        </Box>
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <FormControlLabel
+            control={<Switch checked={yieldAboveOn} onChange={(e) => setYieldAboveOn(e.target.checked)} />}
+            label={WATCHLIST_ALERT_LABELS.yield_above}
+            sx={{ flexGrow: 1 }}
+          />
+          <TextField
+            type="number"
+            size="small"
+            value={yieldAbove}
+            onChange={(e) => setYieldAbove(e.target.value)}
+            disabled={!yieldAboveOn}
+            error={yieldAboveInvalid}
+            inputProps={{ min: 0, max: 100, step: 0.1 }}
+            InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+            sx={{ width: 96 }}
+          />
+        </Box>
+
+        <FormControlLabel
+          control={<Switch checked={withinBudget} onChange={(e) => setWithinBudget(e.target.checked)} />}
+          label={WATCHLIST_ALERT_LABELS.within_budget}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={saving || sharesBelowInvalid || yieldAboveInvalid}
+        >
+          Save alerts
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,23 @@
+/**
+ * Watchlist Alert Configuration
+ *
+ * The rules a watched property can be alerted on, what they are called in
+ * the UI, and the thresholds offered when one is first switched on.
+ */
+import type { WatchlistAlertRule } from '../types/property';
+
+export const WATCHLIST_ALERT_LABELS: Record<WatchlistAlertRule, string> = {
+  ending_soon: 'Funding is ending soon',
+  shares_below: 'Available shares drop below',
+  yield_above: 'Rental yield rises above',
+  within_budget: 'A share is within my wallet balance',
+};
+
+export const WATCHLIST_ALERT_DEFAULTS = {
+  sharesBelow: 20, // Of 100 shares
+  yieldAbove: 0.08, // Gross rental yield as a decimal
+};
+
+export const WATCHLIST_ALERT_CONFIG = {
+  checkIntervalMs: 60 * 1000, // Wallet balances and prices move without a property update
+};
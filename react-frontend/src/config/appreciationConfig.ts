@@ -3,6 +3,8 @@
  * 
  * Central configuration for property appreciation rates across all classes.
  * Modify these values to easily adjust appreciation behavior system-wide.
+ * These rates are the trends of the class indices in the market model
+ * (marketConfig.ts), which decides each quarter's actual move.
  */
 
 export interface AppreciationConfig {
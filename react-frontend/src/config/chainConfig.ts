@@ -0,0 +1,24 @@
+/**
+ * Local Chain Configuration
+ *
+ * Settings for the Hardhat node the frontend talks to directly (on-chain
+ * escrow, contract event indexer). Wallet-connected flows go through
+ * Web3Context instead.
+ */
+
+export const LOCAL_CHAIN_RPC_URL = 'http://127.0.0.1:8546'; // hardhat.config.js localhost network
+
+// LayerZero endpoint ids for the chains the cross-chain escrow bridges between
+export const LAYER_ZERO_CHAIN_IDS = {
+  1: 101,     // Ethereum Mainnet
+  137: 109,   // Polygon
+  11155111: 10161, // Sepolia
+  80002: 10267     // Polygon Amoy
+};
+
+export const INDEXER_CONFIG = {
+  startBlock: Number(import.meta.env.VITE_INDEXER_START_BLOCK ?? 0), // First block to backfill from on a fresh index
+  pollIntervalMs: 4000, // How often to look for new blocks
+  maxBlockRange: 2000, // Blocks per eth_getLogs request
+  reorgDepth: 12, // Recent block hashes remembered to detect reorgs
+};
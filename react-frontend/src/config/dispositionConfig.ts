@@ -0,0 +1,19 @@
+/**
+ * Property Disposition Configuration
+ *
+ * How long a fully funded property is held before it is sold, and what
+ * selling it costs, by class. Rates are fractions of the sale price.
+ */
+import type { PropertyClass } from '../types/property';
+
+export interface ClassDisposition {
+  holdYears: number; // Game years from the last share selling to the exit sale
+  brokerageRate: number;
+  transferTaxRate: number;
+}
+
+export const DISPOSITION_CONFIG: Record<PropertyClass, ClassDisposition> = {
+  A: { holdYears: 7, brokerageRate: 0.04, transferTaxRate: 0.01 },
+  B: { holdYears: 5, brokerageRate: 0.05, transferTaxRate: 0.01 },
+  C: { holdYears: 3, brokerageRate: 0.06, transferTaxRate: 0.015 },
+};
@@ -0,0 +1,148 @@
+/**
+ * Escrow Workflow Configuration
+ *
+ * Defines the approval steps an escrow runs through and which steps apply to
+ * each property class. Durations and deadlines are in real (sim clock) time.
+ */
+
+import type { PropertyClass } from '../types/property';
+
+export type EscrowStepId = 'inspection' | 'appraisal' | 'title_search' | 'hoa_review' | 'lender_approval';
+
+export interface EscrowStepConfig {
+  id: EscrowStepId;
+  label: string;
+  icon: string;
+  minDurationMinutes: number;
+  maxDurationMinutes: number;
+  timeoutMinutes: number; // A step still unresolved at its deadline fails the escrow
+  failureRate: number;
+  failureLabel: string; // Prefix for the escrow rejection reason
+  failureReasons: string[];
+  financedOnly?: boolean; // Guard: skipped for cash purchases
+}
+
+export interface EscrowWorkflowConfig {
+  steps: EscrowStepId[];
+  financingProbability: number; // Chance a purchase is financed rather than cash
+}
+
+export const ESCROW_INTEREST_RATE = 0.02; // 2% annual interest on held funds if the deal fails
+
+export const ESCROW_STEPS: Record<EscrowStepId, EscrowStepConfig> = {
+  inspection: {
+    id: 'inspection',
+    label: 'Property Inspection',
+    icon: '🔍',
+    minDurationMinutes: 1,
+    maxDurationMinutes: 3,
+    timeoutMinutes: 5,
+    failureRate: 0.1,
+    failureLabel: 'Inspection Failed',
+    failureReasons: [
+      'Structural issues found in foundation requiring major repairs',
+      'Electrical system violations of current building codes',
+      'Plumbing damage discovered during inspection process',
+      'HVAC system failure requiring complete replacement',
+      'Roof damage exceeding acceptable repair thresholds',
+      'Environmental hazards detected requiring remediation',
+      'Safety code violations identified by municipal inspector',
+      'Water damage found in basement and lower levels',
+      'Pest infestation requiring professional treatment',
+      'Asbestos materials found requiring specialized removal'
+    ],
+  },
+  appraisal: {
+    id: 'appraisal',
+    label: 'Appraisal',
+    icon: '📐',
+    minDurationMinutes: 1,
+    maxDurationMinutes: 2,
+    timeoutMinutes: 4,
+    failureRate: 0.05,
+    failureLabel: 'Appraisal Failed',
+    failureReasons: [
+      'Appraised value came in well below the offering price',
+      'Insufficient comparable sales to support the valuation',
+      'Appraiser flagged deferred maintenance affecting value'
+    ],
+  },
+  title_search: {
+    id: 'title_search',
+    label: 'Title Search',
+    icon: '📜',
+    minDurationMinutes: 1,
+    maxDurationMinutes: 4,
+    timeoutMinutes: 3.5, // Slow county records occasionally blow the deadline
+    failureRate: 0.03,
+    failureLabel: 'Title Issue',
+    failureReasons: [
+      'Unresolved lien recorded against the property',
+      'Boundary dispute with adjacent parcel',
+      'Gap in the chain of title requires legal action'
+    ],
+  },
+  hoa_review: {
+    id: 'hoa_review',
+    label: 'HOA Review',
+    icon: '🏘️',
+    minDurationMinutes: 1,
+    maxDurationMinutes: 3,
+    timeoutMinutes: 5,
+    failureRate: 0.05,
+    failureLabel: 'HOA Rejected',
+    failureReasons: [
+      'HOA bylaws cap the share of units held by investors',
+      'Outstanding special assessment must be settled first',
+      'HOA reserve study shows significant underfunding'
+    ],
+  },
+  lender_approval: {
+    id: 'lender_approval',
+    label: 'Lender Approval',
+    icon: '🏦',
+    minDurationMinutes: 2,
+    maxDurationMinutes: 4,
+    timeoutMinutes: 6,
+    failureRate: 0.1,
+    failureLabel: 'Lender Rejected',
+    financedOnly: true,
+    failureReasons: [
+      'Property appraisal came in below purchase price',
+      'Recent market conditions affect property financing',
+      'Property type restrictions in current lending policy',
+      'Debt-to-income ratio concerns for investment property',
+      'Credit verification issues discovered during underwriting',
+      'Property condition concerns identified by lender',
+      'Market oversaturation in this property class',
+      'Lending guidelines changed during approval process',
+      'Property location risk assessment failed criteria',
+      'Investment property financing limits reached'
+    ],
+  },
+};
+
+// Escrow.sol runs an inspection and then a buyer/seller/lender sign-off, which the lender step stands in for
+export const ONCHAIN_ESCROW_STEPS: EscrowStepId[] = ['inspection', 'lender_approval'];
+
+export const ONCHAIN_ESCROW = {
+  earnestRatio: 0.2, // Share of the purchase price the buyer deposits up front; the lender funds the rest
+  // Indexes into the node's unlocked accounts; account 0 deploys and mints deeds
+  accounts: { buyer: 1, seller: 2, inspector: 3, lender: 4 },
+};
+
+// Class A luxury units sit in associations; Class C is cash only
+export const ESCROW_WORKFLOWS: Record<PropertyClass, EscrowWorkflowConfig> = {
+  A: {
+    steps: ['inspection', 'appraisal', 'title_search', 'hoa_review', 'lender_approval'],
+    financingProbability: 0.7,
+  },
+  B: {
+    steps: ['inspection', 'appraisal', 'title_search', 'lender_approval'],
+    financingProbability: 0.7,
+  },
+  C: {
+    steps: ['inspection', 'title_search'],
+    financingProbability: 0,
+  },
+};
@@ -0,0 +1,54 @@
+/**
+ * Fee Configuration
+ *
+ * Network gas per simulated transaction and the platform's own fees. Gas
+ * follows EIP-1559: every block's base fee moves up to 12.5% towards its
+ * congestion, and the sender adds a priority tip that depends on speed.
+ */
+
+export type FeeTransactionType =
+  | 'purchase'
+  | 'share_transfer'
+  | 'swap'
+  | 'rent_collection'
+  | 'escrow_deposit'
+  | 'escrow_release'
+  | 'escrow_refund';
+
+export type FeeSpeed = 'low' | 'standard' | 'fast';
+
+export const GAS_UNITS: Record<FeeTransactionType, number> = {
+  purchase: 85000,
+  share_transfer: 65000,
+  swap: 120000, // DEX router swap
+  rent_collection: 45000,
+  escrow_deposit: 110000,
+  escrow_release: 70000,
+  escrow_refund: 60000,
+};
+
+export const GAS_MARKET_CONFIG = {
+  blockGameMs: 1000 * 60 * 60, // One simulated block per game hour
+  historyBlocks: 96, // Blocks replayed from the target fee to price the current one
+  targetBaseFeeGwei: 20, // Base fee the market drifts back to
+  minBaseFeeGwei: 1,
+  maxChangePerBlock: 0.125, // EIP-1559 base fee adjustment bound
+  congestionVolatility: 0.25, // Std dev of block fullness around half full
+  congestionReversion: 0.5, // How strongly demand falls as fees rise above target
+};
+
+export const PRIORITY_FEES_GWEI: Record<FeeSpeed, number> = {
+  low: 0.5,
+  standard: 1.5,
+  fast: 3,
+};
+
+export const CONFIRMATION_TIMES: Record<FeeSpeed, string> = {
+  low: '2-5 min',
+  standard: '< 2 min',
+  fast: '< 30 sec',
+};
+
+export const PLATFORM_FEE_CONFIG = {
+  acquisitionFeeRate: 0.015, // Of the purchase price, charged on primary share purchases
+};
@@ -0,0 +1,57 @@
+/**
+ * Shareholder Governance Configuration
+ *
+ * What shareholders can vote on, how long voting runs and what it takes to
+ * pass, and how mock investors of each type tend to vote.
+ */
+import type { MockInvestor } from '../services/mockInvestorService';
+
+export type ProposalKind = 'sell_now' | 'refinance' | 'renovate' | 'change_manager';
+
+export const GOVERNANCE_CONFIG = {
+  votingMonths: 1, // Game months a proposal is open for votes
+  quorum: 0.5, // Share of all shares that must vote
+  passThreshold: 0.5, // Share of votes cast in favour needed, exclusive
+  minSharesToPropose: 1,
+  refinanceRateCut: 0.0075, // Taken off the rate of every open mortgage on the property
+};
+
+export const PROPOSAL_LABELS: Record<ProposalKind, string> = {
+  sell_now: 'Sell the property now',
+  refinance: 'Refinance mortgages',
+  renovate: 'Renovate',
+  change_manager: 'Change property manager',
+};
+
+export interface PropertyManagerOption {
+  id: string;
+  name: string;
+  managementRate: number; // Of collected rent
+}
+
+export const PROPERTY_MANAGERS: PropertyManagerOption[] = [
+  { id: 'keystone', name: 'Keystone Residential', managementRate: 0.05 },
+  { id: 'harbor', name: 'Harbor Property Group', managementRate: 0.07 },
+  { id: 'neighborly', name: 'Neighborly Management', managementRate: 0.09 },
+];
+
+export interface MockVotingProfile {
+  turnout: number; // Chance of voting at all
+  support: Record<ProposalKind, number>; // Chance of voting for, given they vote
+}
+
+// Conservative holders want income and low risk, aggressive ones growth and an early exit
+export const MOCK_VOTING: Record<MockInvestor['investorType'], MockVotingProfile> = {
+  conservative: {
+    turnout: 0.7,
+    support: { sell_now: 0.3, refinance: 0.8, renovate: 0.35, change_manager: 0.5 },
+  },
+  balanced: {
+    turnout: 0.6,
+    support: { sell_now: 0.5, refinance: 0.7, renovate: 0.55, change_manager: 0.5 },
+  },
+  aggressive: {
+    turnout: 0.5,
+    support: { sell_now: 0.7, refinance: 0.6, renovate: 0.8, change_manager: 0.6 },
+  },
+};
@@ -0,0 +1,36 @@
+/**
+ * Mortgage Configuration
+ *
+ * Loan terms offered on financed share purchases, by property class. Class C
+ * closes cash-only (see ESCROW_WORKFLOWS), so it has no terms. Rates are
+ * yearly and fixed for the life of the loan.
+ */
+import type { PropertyClass } from '../types/property';
+
+export interface ClassLoanTerms {
+  minDownPayment: number; // Smallest down payment, as a fraction of the purchase price
+  annualRate: number;
+  termMonths: number; // Game months to amortize over
+  maxLtv: number; // Loan-to-value past which the loan is flagged at risk
+}
+
+export const LOAN_TERMS: Partial<Record<PropertyClass, ClassLoanTerms>> = {
+  A: {
+    minDownPayment: 0.25,
+    annualRate: 0.065,
+    termMonths: 360,
+    maxLtv: 0.85,
+  },
+  B: {
+    minDownPayment: 0.3,
+    annualRate: 0.0725,
+    termMonths: 300,
+    maxLtv: 0.85,
+  },
+};
+
+export const LOAN_DEFAULT_CONFIG = {
+  missedPaymentsToForeclose: 3, // Consecutive missed installments before the lender forecloses
+  foreclosureDiscount: 0.2, // Forced-sale haircut on the appreciated value
+  lateFeeRate: 0.05, // Of each missed installment, added to arrears
+};
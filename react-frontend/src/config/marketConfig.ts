@@ -0,0 +1,62 @@
+/**
+ * Market Model Configuration
+ *
+ * Property values follow a regional index and a class index. Each index has
+ * its own trend and volatility, shares a national market factor with the
+ * others and takes part in occasional downturns. A property's quarterly
+ * change blends its region and class index and adds noise of its own.
+ */
+import { APPRECIATION_CONFIG } from './appreciationConfig';
+import type { PropertyClass, PropertyRegion } from '../types/property';
+
+export interface MarketIndexParams {
+  annualTrend: number; // Expected yearly growth
+  annualVolatility: number;
+  marketCorrelation: number; // Weight of the shared national factor (0-1)
+  downturnSensitivity: number; // 1 = takes the full downturn, 0 = unaffected
+}
+
+export const MARKET_REGIONS: PropertyRegion[] = ['Midwest', 'Southwest', 'Southeast', 'Northwest', 'Anywhere'];
+export const MARKET_CLASSES: PropertyClass[] = ['A', 'B', 'C'];
+
+// Class trends are the configured appreciation rates, without their random variation
+function classTrend(propertyClass: PropertyClass): number {
+  return APPRECIATION_CONFIG.USE_FLAT_RATE
+    ? APPRECIATION_CONFIG.FLAT_RATE_ALL_CLASSES
+    : APPRECIATION_CONFIG.CLASS_RATES[propertyClass];
+}
+
+export const MARKET_CONFIG = {
+  historyQuarters: 8, // Quarters backfilled before the first recorded one, so charts start with history
+  baseLevel: 100,
+  regionWeight: 0.5, // Share of a property's move from its region index; the rest follows its class index
+  idiosyncraticVolatility: 0.06, // Annual, per property
+  maxQuarterlyMove: 0.25, // Bound on any property's quarterly change
+
+  // A downturn starts in a quarter with this probability and spreads its drop over the next quarters
+  downturnProbability: 0.04,
+  downturnQuarters: 3,
+  downturnDepthMean: 0.12, // Total log drop of the national market
+  downturnDepthStd: 0.06,
+
+  market: {
+    annualTrend: APPRECIATION_CONFIG.FLAT_RATE_ALL_CLASSES,
+    annualVolatility: 0.05,
+    marketCorrelation: 1,
+    downturnSensitivity: 1,
+  } as MarketIndexParams,
+
+  regions: {
+    Midwest: { annualTrend: 0.06, annualVolatility: 0.05, marketCorrelation: 0.6, downturnSensitivity: 0.7 },
+    Southwest: { annualTrend: 0.095, annualVolatility: 0.09, marketCorrelation: 0.6, downturnSensitivity: 1.3 },
+    Southeast: { annualTrend: 0.085, annualVolatility: 0.08, marketCorrelation: 0.6, downturnSensitivity: 1.1 },
+    Northwest: { annualTrend: 0.075, annualVolatility: 0.07, marketCorrelation: 0.6, downturnSensitivity: 1 },
+    Anywhere: { annualTrend: 0.08, annualVolatility: 0.06, marketCorrelation: 0.8, downturnSensitivity: 1 },
+  } as Record<PropertyRegion, MarketIndexParams>,
+
+  classes: {
+    A: { annualTrend: classTrend('A'), annualVolatility: 0.05, marketCorrelation: 0.7, downturnSensitivity: 0.8 },
+    B: { annualTrend: classTrend('B'), annualVolatility: 0.07, marketCorrelation: 0.7, downturnSensitivity: 1 },
+    C: { annualTrend: classTrend('C'), annualVolatility: 0.1, marketCorrelation: 0.7, downturnSensitivity: 1.3 },
+  } as Record<PropertyClass, MarketIndexParams>,
+};
@@ -0,0 +1,75 @@
+/**
+ * Property Operations Configuration
+ *
+ * What it costs to run a rental by class. Rates are fractions of the
+ * property's value per year unless noted. Maintenance and repair odds grow
+ * with the building's age.
+ */
+import type { PropertyClass } from '../types/property';
+
+export interface ClassOperations {
+  leaseMonths: number;
+  turnoverProbability: number; // Chance the tenant leaves when a lease ends
+  vacancyMonths: { min: number; max: number }; // Empty months after a tenant leaves
+  turnoverCostMonths: number; // Make-ready and leasing costs, in months of rent
+  managementRate: number; // Of collected rent
+  propertyTaxRate: number;
+  insuranceRate: number;
+  maintenanceRate: number; // Routine upkeep for a new building
+  repairProbability: number; // Monthly chance of a repair event for a new building
+  repairCostRate: number; // Typical repair, as a fraction of value
+}
+
+export const OPERATIONS_CONFIG: Record<PropertyClass, ClassOperations> = {
+  A: {
+    leaseMonths: 12,
+    turnoverProbability: 0.35,
+    vacancyMonths: { min: 1, max: 2 },
+    turnoverCostMonths: 0.75,
+    managementRate: 0.06,
+    propertyTaxRate: 0.008,
+    insuranceRate: 0.002,
+    maintenanceRate: 0.003,
+    repairProbability: 0.02,
+    repairCostRate: 0.002,
+  },
+  B: {
+    leaseMonths: 12,
+    turnoverProbability: 0.45,
+    vacancyMonths: { min: 1, max: 2 },
+    turnoverCostMonths: 0.6,
+    managementRate: 0.08,
+    propertyTaxRate: 0.011,
+    insuranceRate: 0.005,
+    maintenanceRate: 0.0075,
+    repairProbability: 0.03,
+    repairCostRate: 0.006,
+  },
+  C: {
+    leaseMonths: 12,
+    turnoverProbability: 0.55,
+    vacancyMonths: { min: 1, max: 3 },
+    turnoverCostMonths: 0.5,
+    managementRate: 0.1,
+    propertyTaxRate: 0.01,
+    insuranceRate: 0.006,
+    maintenanceRate: 0.01,
+    repairProbability: 0.05,
+    repairCostRate: 0.008,
+  },
+};
+
+export const AGING_CONFIG = {
+  newBuildingYears: 5, // Younger buildings cost the base rates
+  increasePerDecade: 0.15, // Added to maintenance and repair odds per decade beyond that
+  maxFactor: 2.5,
+};
+
+export const REPAIR_EVENTS = [
+  'HVAC repair',
+  'Roof repair',
+  'Plumbing leak',
+  'Water heater replacement',
+  'Appliance replacement',
+  'Electrical repair',
+];
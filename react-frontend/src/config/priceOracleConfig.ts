@@ -0,0 +1,44 @@
+/**
+ * Price Oracle Configuration
+ *
+ * Which provider quotes ETH/USD and how the synthetic ones behave. Pick a
+ * provider with VITE_PRICE_ORACLE, e.g. VITE_PRICE_ORACLE=random-walk for an
+ * offline session whose prices replay from the simulation seed.
+ */
+import { GAME_DAY_MS } from '../services/simulationClock';
+
+export type PriceProviderId = 'coingecko' | 'chainlink' | 'replay' | 'random-walk';
+
+const PROVIDER_IDS: PriceProviderId[] = ['coingecko', 'chainlink', 'replay', 'random-walk'];
+
+function providerFromEnv(): PriceProviderId {
+  const requested = import.meta.env.VITE_PRICE_ORACLE;
+  return requested && PROVIDER_IDS.includes(requested) ? requested : 'coingecko';
+}
+
+export const PRICE_ORACLE_CONFIG = {
+  provider: providerFromEnv(),
+  bucketMs: GAME_DAY_MS, // One quote per game day; every caller in the same day shares it
+  fallbackEthUsd: 3200, // Only used before any quote has ever been stored
+};
+
+export const COINGECKO_CONFIG = {
+  baseUrl: 'https://api.coingecko.com/api/v3',
+};
+
+export const CHAINLINK_CONFIG = {
+  rpcUrl: import.meta.env.VITE_CHAINLINK_RPC_URL ?? 'https://eth.llamarpc.com',
+  // ETH / USD aggregator on Ethereum mainnet
+  feedAddress: import.meta.env.VITE_CHAINLINK_ETH_USD_FEED ?? '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+};
+
+export const REPLAY_CONFIG = {
+  url: import.meta.env.VITE_PRICE_REPLAY_URL, // Optional; defaults to the bundled config/ethUsdReplay.json
+};
+
+export const RANDOM_WALK_CONFIG = {
+  epoch: new Date('2025-01-01T00:00:00Z'), // Game date every walk starts from
+  startPrice: 3200, // Price on the epoch day
+  annualDrift: 0.05, // Expected yearly return
+  annualVolatility: 0.65, // Roughly ETH's realized volatility
+};
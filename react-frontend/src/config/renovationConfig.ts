@@ -0,0 +1,66 @@
+/**
+ * Renovation Configuration
+ *
+ * Capital improvements shareholders can vote to fund: what each costs and
+ * how long it takes, the risk of running over budget, and what it adds to
+ * the property's value and rent. Also how much rent is set aside each month
+ * into the property's reserve to pay for them.
+ */
+
+export type RenovationKind = 'kitchen' | 'roof' | 'unit_addition';
+
+// Paying from the reserve falls back to a capital call for whatever it can't cover
+export type RenovationFunding = 'reserve' | 'capital_call';
+
+export interface RenovationSpec {
+  label: string;
+  costRate: number; // Budget as a fraction of the list price
+  durationMonths: number; // Game months from the vote to completion
+  overrunProbability: number; // Chance the work runs over budget
+  overrunRange: { min: number; max: number }; // Overrun as a fraction of budget
+  valueMultiple: number; // Value added per dollar of budget; overruns add nothing
+  yieldUplift: number; // Added to the gross rental yield on completion
+  renewsBuilding: boolean; // Maintenance and repairs wear as for a new building afterwards
+}
+
+export const RENOVATION_SPECS: Record<RenovationKind, RenovationSpec> = {
+  kitchen: {
+    label: 'Kitchen remodel',
+    costRate: 0.03,
+    durationMonths: 3,
+    overrunProbability: 0.3,
+    overrunRange: { min: 0.05, max: 0.25 },
+    valueMultiple: 1.4,
+    yieldUplift: 0.003,
+    renewsBuilding: false,
+  },
+  roof: {
+    label: 'Roof replacement',
+    costRate: 0.02,
+    durationMonths: 2,
+    overrunProbability: 0.2,
+    overrunRange: { min: 0.05, max: 0.2 },
+    valueMultiple: 0.8,
+    yieldUplift: 0,
+    renewsBuilding: true,
+  },
+  unit_addition: {
+    label: 'Unit addition',
+    costRate: 0.12,
+    durationMonths: 9,
+    overrunProbability: 0.45,
+    overrunRange: { min: 0.1, max: 0.4 },
+    valueMultiple: 1.25,
+    yieldUplift: 0.012,
+    renewsBuilding: false,
+  },
+};
+
+export const RENOVATION_FUNDING_LABELS: Record<RenovationFunding, string> = {
+  reserve: 'From the reserve',
+  capital_call: 'By capital call',
+};
+
+export const RENOVATION_CONFIG = {
+  reserveRate: 0.03, // Of collected rent, set aside every month
+};
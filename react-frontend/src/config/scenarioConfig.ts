@@ -0,0 +1,31 @@
+/**
+ * Scenario Planner Configuration
+ *
+ * The assumptions behind the optimistic, base and pessimistic projections
+ * on the property detail page. The base case is the appreciation config's
+ * class rate and the expected rent after vacancy and operating costs; the
+ * other cases shift them.
+ */
+
+export type ScenarioId = 'optimistic' | 'base' | 'pessimistic';
+
+export interface ScenarioAssumptions {
+  label: string;
+  appreciationShift: number; // Added to the class's annual appreciation rate
+  rentFactor: number; // Multiplies expected rent
+  exitCostFactor: number; // Multiplies brokerage and transfer tax on the exit sale
+}
+
+export const SCENARIO_IDS: ScenarioId[] = ['optimistic', 'base', 'pessimistic'];
+
+export const SCENARIOS: Record<ScenarioId, ScenarioAssumptions> = {
+  optimistic: { label: 'Optimistic', appreciationShift: 0.02, rentFactor: 1.05, exitCostFactor: 0.8 },
+  base: { label: 'Base', appreciationShift: 0, rentFactor: 1, exitCostFactor: 1 },
+  pessimistic: { label: 'Pessimistic', appreciationShift: -0.06, rentFactor: 0.85, exitCostFactor: 1.2 },
+};
+
+export const SCENARIO_PLANNER_CONFIG = {
+  maxHoldYears: 15,
+  maxCompared: 3, // Other properties shown beside the current one
+  rentCollectionsPerYear: 12, // Each collection pays network gas
+};
@@ -0,0 +1,42 @@
+/**
+ * Property Search Configuration
+ *
+ * How the local property search index weighs each field, how forgiving it
+ * is of typos, and the rental yield buckets it counts results into.
+ */
+
+export type SearchField = 'address' | 'city' | 'state' | 'description' | 'amenities';
+
+// A match in a heavier field ranks higher
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  address: 3,
+  city: 3,
+  state: 2,
+  amenities: 1.5,
+  description: 1,
+};
+
+export const SEARCH_CONFIG = {
+  prefixMinLength: 2, // Shortest query term matched as the start of a word
+  oneTypoMinLength: 4, // Shortest query term allowed one typo
+  twoTyposMinLength: 8, // Shortest query term allowed two typos
+  // Score kept for each kind of match, against an exact word match
+  prefixQuality: 0.8,
+  typoQuality: [1, 0.6, 0.35], // By number of typos
+};
+
+export type YieldBucketId = 'under_5' | '5_to_8' | '8_to_10' | '10_plus';
+
+export interface YieldBucket {
+  id: YieldBucketId;
+  label: string;
+  min: number; // Inclusive, as a decimal
+  max: number; // Exclusive
+}
+
+export const YIELD_BUCKETS: YieldBucket[] = [
+  { id: 'under_5', label: 'Under 5%', min: 0, max: 0.05 },
+  { id: '5_to_8', label: '5–8%', min: 0.05, max: 0.08 },
+  { id: '8_to_10', label: '8–10%', min: 0.08, max: 0.1 },
+  { id: '10_plus', label: '10% and up', min: 0.1, max: Infinity },
+];
@@ -9,12 +9,12 @@ import {
   signOut,
   updateProfile
 } from 'firebase/auth';
-import { doc, setDoc, getDoc, serverTimestamp } from 'firebase/firestore';
-import { auth, db } from '../firebase/config';
+import { auth } from '../firebase/config';
+import { getRepositories } from '../repositories';
 import { userInitializationService } from '../services/userInitializationService';
 import { UserScopedPropertyPoolManager } from '../services/userScopedPropertyPoolManager';
 
-// User profile data that we store in Firestore
+// User profile data that we store through the user profile repository
 interface UserProfile {
   uid: string;
   email: string;
@@ -178,18 +178,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return unsubscribe;
   }, []);
 
-  // Load user profile from Firestore
+  // Load user profile
   const loadUserProfile = async (uid: string): Promise<void> => {
     try {
-      const userDoc = await getDoc(doc(db, 'users', uid));
+      const data = await getRepositories().userProfiles.get(uid);
       
-      if (userDoc.exists()) {
-        const data = userDoc.data();
+      if (data) {
         setUserProfile({
           ...data,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          lastLoginAt: data.lastLoginAt?.toDate() || new Date(),
-          gameStartTime: data.gameStartTime?.toDate(),
+          createdAt: data.createdAt || new Date(),
+          lastLoginAt: data.lastLoginAt || new Date(),
+          gameStartTime: data.gameStartTime,
         } as UserProfile);
       }
     } catch (error) {
@@ -211,7 +210,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         await updateProfile(firebaseUser, { displayName });
       }
       
-      // Create user profile in Firestore
+      // Create user profile
       const newUserProfile: UserProfile = {
         uid: firebaseUser.uid,
         email: firebaseUser.email!,
@@ -225,12 +224,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         }
       };
       
-      await setDoc(doc(db, 'users', firebaseUser.uid), {
-        ...newUserProfile,
-        createdAt: serverTimestamp(),
-        lastLoginAt: serverTimestamp(),
-        gameStartTime: serverTimestamp(),
-      });
+      await getRepositories().userProfiles.save(firebaseUser.uid, newUserProfile);
       
       setUserProfile(newUserProfile);
       startSession(); // Start session on successful registration
@@ -253,9 +247,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const firebaseUser = userCredential.user;
       
       // Update last login time
-      await setDoc(doc(db, 'users', firebaseUser.uid), {
-        lastLoginAt: serverTimestamp()
-      }, { merge: true });
+      await getRepositories().userProfiles.save(firebaseUser.uid, {
+        lastLoginAt: new Date()
+      });
       
       startSession(); // Start session on successful login
       console.log('✅ User logged in:', firebaseUser.email);
@@ -278,9 +272,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const firebaseUser = userCredential.user;
       
       // Check if this is a new user (first time signing in)
-      const userDoc = await getDoc(doc(db, 'users', firebaseUser.uid));
+      const existingProfile = await getRepositories().userProfiles.get(firebaseUser.uid);
       
-      if (!userDoc.exists()) {
+      if (!existingProfile) {
         // Create user profile for new Google user
         const newUserProfile: UserProfile = {
           uid: firebaseUser.uid,
@@ -295,20 +289,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           }
         };
         
-        await setDoc(doc(db, 'users', firebaseUser.uid), {
-          ...newUserProfile,
-          createdAt: serverTimestamp(),
-          lastLoginAt: serverTimestamp(),
-          gameStartTime: serverTimestamp(),
-        });
+        await getRepositories().userProfiles.save(firebaseUser.uid, newUserProfile);
         
         setUserProfile(newUserProfile);
         console.log('✅ New Google user registered and profile created:', firebaseUser.email);
       } else {
         // Update last login time for existing user
-        await setDoc(doc(db, 'users', firebaseUser.uid), {
-          lastLoginAt: serverTimestamp()
-        }, { merge: true });
+        await getRepositories().userProfiles.save(firebaseUser.uid, {
+          lastLoginAt: new Date()
+        });
         
         console.log('✅ Existing Google user logged in:', firebaseUser.email);
       }
@@ -350,10 +339,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     if (!user) throw new Error('No user logged in');
     
     try {
-      await setDoc(doc(db, 'users', user.uid), {
+      await getRepositories().userProfiles.save(user.uid, {
         walletAddress,
-        walletLinkedAt: serverTimestamp()
-      }, { merge: true });
+        walletLinkedAt: new Date()
+      });
       
       // Update local state
       if (userProfile) {
@@ -372,7 +361,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     if (!user) throw new Error('No user logged in');
     
     try {
-      await setDoc(doc(db, 'users', user.uid), updates, { merge: true });
+      await getRepositories().userProfiles.save(user.uid, updates);
       
       // Update local state
       if (userProfile) {
@@ -0,0 +1,48 @@
+import { ZeroAddress } from 'ethers';
+
+/**
+ * Deployed contract addresses per chain. The manifests in ./deployments are
+ * written by the Hardhat deploy scripts (scripts/deployment-manifest.js), so a
+ * redeploy only changes JSON; Vite bundles whatever is there at build time.
+ */
+
+export type DeployedContractName =
+  | 'RealEstate'
+  | 'MockUSDC'
+  | 'KYCOracle'
+  | 'MockPropertyDeed'
+  | 'PolygonUSDCBridge';
+
+export type EscrowContractType = 'Escrow' | 'EscrowWithStableAndYield' | 'EscrowWithStableAndYieldCrossChain';
+
+export interface DeploymentManifest {
+  chainId: number;
+  network: string;
+  contracts: Partial<Record<DeployedContractName, string>>;
+  escrows: Record<string, EscrowContractType>; // Escrow address => contract it was deployed from
+  updatedAt: string;
+}
+
+const manifests = import.meta.glob<DeploymentManifest>('./deployments/*.json', { eager: true, import: 'default' });
+
+const DEPLOYMENTS = new Map<number, DeploymentManifest>(
+  Object.values(manifests).map(manifest => [manifest.chainId, manifest])
+);
+
+export function getDeployment(chainId: number): DeploymentManifest | null {
+  return DEPLOYMENTS.get(chainId) ?? null;
+}
+
+/**
+ * Address of a contract on a chain, or null when it has not been deployed there
+ */
+export function getContractAddress(chainId: number, name: DeployedContractName): string | null {
+  const address = getDeployment(chainId)?.contracts[name];
+  return address && address !== ZeroAddress ? address : null;
+}
+
+export function getEscrowType(chainId: number, escrowAddress: string): EscrowContractType | null {
+  const escrows = getDeployment(chainId)?.escrows ?? {};
+  const match = Object.keys(escrows).find(address => address.toLowerCase() === escrowAddress.toLowerCase());
+  return match ? escrows[match] : null;
+}
@@ -0,0 +1,501 @@
+// Generated by scripts/generate-bindings.js from contracts/Escrow.sol. Do not edit by hand;
+// run `npm run bindings` in the repository root after changing the contract.
+import type { TypedContract } from '../typedContract';
+
+export const EscrowAbi = [
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_nftAddress",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_nftID",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_purchasePrice",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_escrowAmount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address payable",
+        "name": "_seller",
+        "type": "address"
+      },
+      {
+        "internalType": "address payable",
+        "name": "_buyer",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_inspector",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_lender",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [],
+    "name": "InspectionNotPassed",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "required",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "provided",
+        "type": "uint256"
+      }
+    ],
+    "name": "InsufficientDeposit",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint8",
+        "name": "requiredPhase",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint8",
+        "name": "currentPhase",
+        "type": "uint8"
+      }
+    ],
+    "name": "InvalidPhase",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NotAllApproved",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "TransferFailed",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "role",
+        "type": "string"
+      }
+    ],
+    "name": "Unauthorized",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "approver",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "role",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "ApprovalGranted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "buyer",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "EarnestMoneyDeposited",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "funder",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "FullPriceFunded",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "inspector",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "passed",
+        "type": "bool"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "InspectionStatusUpdated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "inspectionFailed",
+        "type": "bool"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "refundedAmount",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "recipient",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "TransactionCancelled",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "buyer",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "seller",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "TransactionFinalized",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "approvals",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "_role",
+        "type": "string"
+      }
+    ],
+    "name": "approveByRole",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "buyer",
+    "outputs": [
+      {
+        "internalType": "address payable",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "cancelSale",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "currentPhase",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "id",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "depositEarnest",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "depositFullPrice",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "escrowAmount",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "finalizeSale",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getBalance",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "inspectionPassed",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "inspector",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "lender",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "nftAddress",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "nftID",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "purchasePrice",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "seller",
+    "outputs": [
+      {
+        "internalType": "address payable",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bool",
+        "name": "_passed",
+        "type": "bool"
+      }
+    ],
+    "name": "updateInspectionStatus",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "stateMutability": "payable",
+    "type": "receive"
+  }
+] as const;
+
+export type EscrowContract = TypedContract<typeof EscrowAbi>;
+
+export const EscrowBytecode = '0x6101c0604052600061018052426101a08190526001805460ff191690556002553480156200002c57600080fd5b5060405162001b6a38038062001b6a8339810160408190526200004f91620000aa565b60016000556001600160a01b0397881660805260a09690965260c09490945260e092909252841661010052831661012052821661014052166101605262000148565b6001600160a01b0381168114620000a757600080fd5b50565b600080600080600080600080610100898b031215620000c857600080fd5b8851620000d58162000091565b809850506020890151965060408901519550606089015194506080890151620000fe8162000091565b60a08a0151909450620001118162000091565b60c08a0151909350620001248162000091565b60e08a0151909250620001378162000091565b809150509295985092959890939650565b60805160a05160c05160e051610100516101205161014051610160516118ce6200029c6000396000818161030d015281816104fa0152818161086401528181610b2c01528181610eca015281816110cd015261130c0152600081816103de01528181610a8601528181610e2401526112660152600081816102b901528181610473015281816106880152818161079201528181610830015281816109dd01528181610d7b01528181611046015281816111bd01526114dd015260008181610167015281816104b6015281816105b9015281816106600152818161076d01528181610bd201528181610f7001528181611089015281816113b201526115050152600081816101fa01528181610c4d0152610c820152600081816103950152818161054e01528181610583015261090301526000818161034101526106b001526000818161025501526106d601526118ce6000f3fe60806040526004361061010d5760003560e01c80635d0341ba11610095578063c399475211610064578063c39947521461032f578063cdd765f814610363578063defd6c5f14610383578063e7e10490146103b7578063ed2cee9e146103cc57600080fd5b80635d0341ba146102775780637150d8ae146102a7578063bce81bed146102db578063bcead63e146102fb57600080fd5b806347a7846f116100dc57806347a7846f146101e857806358a687ec1461021c578063590c6e5a146102335780635af41d611461023b5780635bf8633a1461024357600080fd5b8063055ad42e1461011957806308551a531461015557806312065fe0146101a15780631d10072d146101be57600080fd5b3661011457005b600080fd5b34801561012557600080fd5b506001546002546101379160ff169082565b6040805160ff90931683526020830191909152015b60405180910390f35b34801561016157600080fd5b506101897f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200161014c565b3480156101ad57600080fd5b50475b60405190815260200161014c565b3480156101ca57600080fd5b506004546101d89060ff1681565b604051901515815260200161014c565b3480156101f457600080fd5b506101b07f000000000000000000000000000000000000000000000000000000000000000081565b34801561022857600080fd5b50610231610400565b005b6102316107ec565b610231610954565b34801561024f57600080fd5b506101897f000000000000000000000000000000000000000000000000000000000000000081565b34801561028357600080fd5b506101d8610292366004611676565b60036020526000908152604090205460ff1681565b3480156102b357600080fd5b506101897f000000000000000000000000000000000000000000000000000000000000000081565b3480156102e757600080fd5b506102316102f63660046116bc565b610d15565b34801561030757600080fd5b506101897f000000000000000000000000000000000000000000000000000000000000000081565b34801561033b57600080fd5b506101b07f000000000000000000000000000000000000000000000000000000000000000081565b34801561036f57600080fd5b5061023161037e36600461176d565b611130565b34801561038f57600080fd5b506101b07f000000000000000000000000000000000000000000000000000000000000000081565b3480156103c357600080fd5b5061023161147a565b3480156103d857600080fd5b506101897f000000000000000000000000000000000000000000000000000000000000000081565b61040861161c565b60015460039060ff1681146104465760015460405163098d23bb60e41b815260ff808416600483015290911660248201526044015b60405180910390fd5b60045460ff16610469576040516373d8944560e11b815260040160405180910390fd5b6001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001660009081526003602052604090205460ff1615806104ea57506001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001660009081526003602052604090205460ff16155b8061052e57506001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001660009081526003602052604090205460ff16155b1561054c57604051630f99d8e160e41b815260040160405180910390fd5b7f00000000000000000000000000000000000000000000000000000000000000004710156105b5576040516312e1fa3760e11b81527f0000000000000000000000000000000000000000000000000000000000000000600482015247602482015260440161043d565b60007f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03164760405160006040518083038185875af1925050503d8060008114610622576040519150601f19603f3d011682016040523d82523d6000602084013e610627565b606091505b5050905080610649576040516312171d8360e31b815260040160405180910390fd5b6040516323b872dd60e01b81526001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000811660048301527f0000000000000000000000000000000000000000000000000000000000000000811660248301527f000000000000000000000000000000000000000000000000000000000000000060448301527f000000000000000000000000000000000000000000000000000000000000000016906323b872dd90606401600060405180830381600087803b15801561071a57600080fd5b505af115801561072e573d6000803e3d6000fd5b505060408051808201825260048082524260209283018190526001805460ff191690921790915560028190558251478152918201526001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000811694507f00000000000000000000000000000000000000000000000000000000000000001692507ee8d9e4fea085ed280fee4026c0d84738ace7ee8d90265fb2bdecbb957f7a50910160405180910390a350506107ea6001600055565b565b60015460029060ff1681146108255760015460405163098d23bb60e41b815260ff8084166004830152909116602482015260440161043d565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016148015906108875750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b156108c75760405163973d02cb60e01b815260206004820152600f60248201526e313abcb2b91037b9103632b73232b960891b604482015260640161043d565b6040805134815242602082015233917fa48f9d6d8fdcf84c5662a852da5359d6692845cc5f646058b3b1d39f74310077910160405180910390a27f00000000000000000000000000000000000000000000000000000000000000004710610951576040805180820190915260038082524260209092018290526001805460ff191690911790556002555b50565b60405180604001604052806005815260200164313abcb2b960d91b81525060405160200161098d9064313abcb2b960d91b815260050190565b60405160208183030381529060405280519060200120816040516020016109b491906117bf565b60405160208183030381529060405280519060200120148015610a005750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b15610a1e5760405163973d02cb60e01b815260040161043d906117db565b6040516834b739b832b1ba37b960b91b60208201526029016040516020818303038152906040528051906020012081604051602001610a5d91906117bf565b60405160208183030381529060405280519060200120148015610aa95750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b15610ac75760405163973d02cb60e01b815260040161043d906117fa565b604051653632b73232b960d11b60208201526026016040516020818303038152906040528051906020012081604051602001610b0391906117bf565b60405160208183030381529060405280519060200120148015610b4f5750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b15610b6d5760405163973d02cb60e01b815260040161043d9061181d565b6040516539b2b63632b960d11b60208201526026016040516020818303038152906040528051906020012081604051602001610ba991906117bf565b60405160208183030381529060405280519060200120148015610bf55750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b15610c135760405163973d02cb60e01b815260040161043d9061183d565b60015460009060ff1615610c4b5760015460405163098d23bb60e41b815260ff8084166004830152909116602482015260440161043d565b7f0000000000000000000000000000000000000000000000000000000000000000341015610cb4576040516312e1fa3760e11b81527f0000000000000000000000000000000000000000000000000000000000000000600482015234602482015260440161043d565b6040805180820182526001808252426020928301819052815460ff19168217909155600281905582513481529182015233917f0680c1174933dd91269e9b92ac6082edc937fb534a462b8ec43ad350409e3c90910160405180910390a25050565b60405164313abcb2b960d91b602082015281906025016040516020818303038152906040528051906020012081604051602001610d5291906117bf565b60405160208183030381529060405280519060200120148015610d9e5750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b15610dbc5760405163973d02cb60e01b815260040161043d906117db565b6040516834b739b832b1ba37b960b91b60208201526029016040516020818303038152906040528051906020012081604051602001610dfb91906117bf565b60405160208183030381529060405280519060200120148015610e475750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b15610e655760405163973d02cb60e01b815260040161043d906117fa565b604051653632b73232b960d11b60208201526026016040516020818303038152906040528051906020012081604051602001610ea191906117bf565b60405160208183030381529060405280519060200120148015610eed5750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b15610f0b5760405163973d02cb60e01b815260040161043d9061181d565b6040516539b2b63632b960d11b60208201526026016040516020818303038152906040528051906020012081604051602001610f4791906117bf565b60405160208183030381529060405280519060200120148015610f935750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b15610fb15760405163973d02cb60e01b815260040161043d9061183d565b6001805460ff168114610fe85760015460405163098d23bb60e41b815260ff8084166004830152909116602482015260440161043d565b3360008181526003602052604090819020805460ff19166001179055517ffa9bfd2fb8c502e0049191fc328c607585cd1911190de0ba456ab723efd65aee90611034908690429061185d565b60405180910390a26001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001660009081526003602052604090205460ff1680156110bc57506001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001660009081526003602052604090205460ff165b801561110057506001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001660009081526003602052604090205460ff165b1561112b576040805180820190915260028082524260209092018290526001805460ff191682179055555b505050565b6040518060400160405280600981526020016834b739b832b1ba37b960b91b81525060405160200161116d9064313abcb2b960d91b815260050190565b604051602081830303815290604052805190602001208160405160200161119491906117bf565b604051602081830303815290604052805190602001201480156111e05750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b156111fe5760405163973d02cb60e01b815260040161043d906117db565b6040516834b739b832b1ba37b960b91b6020820152602901604051602081830303815290604052805190602001208160405160200161123d91906117bf565b604051602081830303815290604052805190602001201480156112895750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b156112a75760405163973d02cb60e01b815260040161043d906117fa565b604051653632b73232b960d11b602082015260260160405160208183030381529060405280519060200120816040516020016112e391906117bf565b6040516020818303038152906040528051906020012014801561132f5750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b1561134d5760405163973d02cb60e01b815260040161043d9061181d565b6040516539b2b63632b960d11b6020820152602601604051602081830303815290604052805190602001208160405160200161138991906117bf565b604051602081830303815290604052805190602001201480156113d55750336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614155b156113f35760405163973d02cb60e01b815260040161043d9061183d565b6001805460ff16811461142a5760015460405163098d23bb60e41b815260ff8084166004830152909116602482015260440161043d565b6004805460ff19168415159081179091556040805191825242602083015233917fe37f4e659cf72db344e2c52013566243e26164d4e3db3a2e52bfd4eca412a493910160405180910390a2505050565b61148261161c565b60015460ff166004148061149b575060015460ff166005145b156114c95760015460405163098d23bb60e41b81526003600482015260ff909116602482015260440161043d565b600454479060009060ff16158015611503577f00000000000000000000000000000000000000000000000000000000000000009150611527565b7f000000000000000000000000000000000000000000000000000000000000000091505b6000826001600160a01b03168460405160006040518083038185875af1925050503d8060008114611574576040519150601f19603f3d011682016040523d82523d6000602084013e611579565b606091505b505090508061159b576040516312171d8360e31b815260040160405180910390fd5b60408051808201825260058082524260209283018190526001805460ff19169092179091556002819055825185151581529182018790528183015290516001600160a01b038516917f671c68c618dc5c9cc859d4d6f46729e48b04c1fce34451971fe85c1f749b32f5919081900360600190a2505050506107ea6001600055565b6002600054141561166f5760405162461bcd60e51b815260206004820152601f60248201527f5265656e7472616e637947756172643a207265656e7472616e742063616c6c00604482015260640161043d565b6002600055565b60006020828403121561168857600080fd5b81356001600160a01b038116811461169f57600080fd5b9392505050565b634e487b7160e01b600052604160045260246000fd5b6000602082840312156116ce57600080fd5b813567ffffffffffffffff808211156116e657600080fd5b818401915084601f8301126116fa57600080fd5b81358181111561170c5761170c6116a6565b604051601f8201601f19908116603f01168101908382118183101715611734576117346116a6565b8160405282815287602084870101111561174d57600080fd5b826020860160208301376000928101602001929092525095945050505050565b60006020828403121561177f57600080fd5b8135801515811461169f57600080fd5b60005b838110156117aa578181015183820152602001611792565b838111156117b9576000848401525b50505050565b600082516117d181846020870161178f565b9190910192915050565b602080825260059082015264313abcb2b960d91b604082015260600190565b60208082526009908201526834b739b832b1ba37b960b91b604082015260600190565b6020808252600690820152653632b73232b960d11b604082015260600190565b60208082526006908201526539b2b63632b960d11b604082015260600190565b604081526000835180604084015261187c81606085016020880161178f565b602083019390935250601f91909101601f19160160600191905056fea2646970667358221220d8cc02d3cf98e008a3e96ebbef633bff8e8dea04bd79714201a383de1b73836964736f6c63430008090033';
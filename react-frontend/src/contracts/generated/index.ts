@@ -0,0 +1,9 @@
+// Generated by scripts/generate-bindings.js. Do not edit by hand.
+export * from './RealEstate';
+export * from './Escrow';
+export * from './EscrowWithStableAndYield';
+export * from './EscrowWithStableAndYieldCrossChain';
+export * from './MockUSDC';
+export * from './MockAUSDC';
+export * from './KYCOracle';
+export * from './MockPropertyDeed';
@@ -0,0 +1,99 @@
+import { Contract } from 'ethers';
+import type {
+  AddressLike,
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  InterfaceAbi,
+  Overrides
+} from 'ethers';
+
+/**
+ * Compile-time typing for the generated ABIs in ./generated. Each function in
+ * a `const` ABI becomes a method whose arguments and result follow ethers v6
+ * conventions: integers go in as BigNumberish and come back as bigint, view
+ * functions resolve to their outputs (a Result-like tuple when there are
+ * several) and state-changing functions resolve to the sent transaction.
+ */
+
+interface AbiParameter {
+  readonly name: string;
+  readonly type: string;
+  readonly components?: readonly AbiParameter[];
+}
+
+interface AbiFunction {
+  readonly type: 'function';
+  readonly name: string;
+  readonly inputs: readonly AbiParameter[];
+  readonly outputs: readonly AbiParameter[];
+  readonly stateMutability: 'pure' | 'view' | 'nonpayable' | 'payable';
+}
+
+type Abi = readonly { readonly type: string }[];
+
+type Direction = 'input' | 'output';
+
+type PrimitiveValue<T extends string, D extends Direction> =
+  T extends `uint${string}` | `int${string}` ? (D extends 'input' ? BigNumberish : bigint)
+  : T extends 'address' ? (D extends 'input' ? AddressLike : string)
+  : T extends 'bool' ? boolean
+  : T extends 'string' ? string
+  : T extends `bytes${string}` ? (D extends 'input' ? BytesLike : string)
+  : unknown;
+
+type AbiValue<T extends string, C, D extends Direction> =
+  T extends `${infer Item}[]` | `${infer Item}[${number}]` ? readonly AbiValue<Item, C, D>[]
+  : T extends 'tuple' ? (C extends readonly AbiParameter[] ? AbiStruct<C, D> : never)
+  : PrimitiveValue<T, D>;
+
+type ParameterValue<P, D extends Direction> =
+  P extends { readonly type: infer T extends string; readonly components?: infer C } ? AbiValue<T, C, D> : never;
+
+type AbiStruct<Ps extends readonly AbiParameter[], D extends Direction> = {
+  [P in Ps[number] as P['name']]: ParameterValue<P, D>;
+};
+
+type AbiTuple<Ps extends readonly AbiParameter[], D extends Direction> = {
+  -readonly [K in keyof Ps]: ParameterValue<Ps[K], D>;
+};
+
+type FunctionResult<Ps extends readonly AbiParameter[]> =
+  Ps extends readonly [] ? void
+  : Ps extends readonly [infer Only] ? ParameterValue<Only, 'output'>
+  : AbiTuple<Ps, 'output'> & AbiStruct<Ps, 'output'>;
+
+interface TypedMethod<Args extends unknown[], Response, Output> {
+  (...args: Args): Promise<Response>;
+  staticCall(...args: Args): Promise<Output>;
+  estimateGas(...args: Args): Promise<bigint>;
+}
+
+type ContractMethod<F> = F extends AbiFunction
+  ? F['stateMutability'] extends 'view' | 'pure'
+    ? TypedMethod<AbiTuple<F['inputs'], 'input'>, FunctionResult<F['outputs']>, FunctionResult<F['outputs']>>
+    : TypedMethod<[...AbiTuple<F['inputs'], 'input'>, overrides?: Overrides], ContractTransactionResponse, FunctionResult<F['outputs']>>
+  : never;
+
+// Overloaded functions share a name; intersecting their signatures gives TypeScript overloads
+type UnionToIntersection<U> = (U extends unknown ? (value: U) => void : never) extends (value: infer I) => void ? I : never;
+
+type AbiFunctions<A extends Abi> = Extract<A[number], AbiFunction>;
+
+type ContractMethods<A extends Abi> = {
+  [N in AbiFunctions<A>['name']]: UnionToIntersection<ContractMethod<Extract<AbiFunctions<A>, { readonly name: N }>>>;
+};
+
+export type TypedContract<A extends Abi> = BaseContract & ContractMethods<A>;
+
+export type FunctionName<A extends Abi> = AbiFunctions<A>['name'];
+
+export function connectContract<A extends Abi>(
+  address: string,
+  abi: A,
+  runner?: ContractRunner | null
+): TypedContract<A> {
+  return new Contract(address, abi as unknown as InterfaceAbi, runner) as unknown as TypedContract<A>;
+}
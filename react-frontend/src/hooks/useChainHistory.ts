@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  ContractEventIndexer,
+  type OwnershipChange,
+  type TradeRecord
+} from '../services/contractEventIndexer';
+
+interface ChainHistoryState {
+  trades: TradeRecord[];
+  timeline: OwnershipChange[];
+  loading: boolean;
+  error: string | null;
+}
+
+interface UseChainHistoryReturn extends ChainHistoryState {
+  enabled: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Indexed on-chain trades for a RealEstate token or an account. The ownership
+ * timeline is only loaded for a token. Reloads whenever the indexer stores
+ * new events.
+ */
+export function useChainHistory(filter: { tokenId?: string; account?: string }): UseChainHistoryReturn {
+  const enabled = ContractEventIndexer.isEnabled();
+  const { tokenId, account } = filter;
+  const [state, setState] = useState<ChainHistoryState>({
+    trades: [],
+    timeline: [],
+    loading: enabled,
+    error: null
+  });
+
+  const loadHistory = useCallback(async () => {
+    if (!enabled || (!tokenId && !account)) {
+      setState(prev => ({ ...prev, trades: [], timeline: [], loading: false }));
+      return;
+    }
+
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+
+      const [trades, timeline] = await Promise.all([
+        ContractEventIndexer.getTradeHistory({ tokenId, account }),
+        tokenId ? ContractEventIndexer.getOwnershipTimeline(tokenId) : Promise.resolve([])
+      ]);
+
+      setState(prev => ({ ...prev, trades, timeline, loading: false }));
+    } catch (error) {
+      console.error('Failed to load on-chain history:', error);
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: 'Failed to load on-chain history'
+      }));
+    }
+  }, [enabled, tokenId, account]);
+
+  // Sync first so the history reflects the current head
+  const refresh = useCallback(async () => {
+    try {
+      await ContractEventIndexer.sync();
+    } catch (error) {
+      console.error('Error indexing contract events:', error);
+    }
+    await loadHistory();
+  }, [loadHistory]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const release = ContractEventIndexer.start();
+    loadHistory();
+    const unsubscribe = ContractEventIndexer.subscribe(() => {
+      loadHistory();
+    });
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }, [enabled, loadHistory]);
+
+  return {
+    ...state,
+    enabled,
+    refresh
+  };
+}
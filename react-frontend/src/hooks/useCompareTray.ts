@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CompareTrayError, CompareTrayService, type CompareTrayItem } from '../services/compareTrayService';
+
+interface UseCompareTrayReturn {
+  items: CompareTrayItem[]; // In the order they were added
+  isFull: boolean;
+  isInTray: (propertyId: string) => boolean;
+  toggleCompare: (property: CompareTrayItem) => boolean;
+  removeFromCompare: (propertyId: string) => void;
+  clearCompare: () => void;
+}
+
+/**
+ * The properties picked for side by side comparison
+ */
+export function useCompareTray(): UseCompareTrayReturn {
+  const [items, setItems] = useState<CompareTrayItem[]>([]);
+
+  useEffect(() => {
+    return CompareTrayService.subscribe(setItems);
+  }, []);
+
+  const isInTray = useCallback((propertyId: string) => {
+    return items.some(item => item.id === propertyId);
+  }, [items]);
+
+  // False when the tray is full; cards disable their compare button before that
+  const toggleCompare = useCallback((property: CompareTrayItem) => {
+    try {
+      CompareTrayService.toggle(property);
+      return true;
+    } catch (error) {
+      if (!(error instanceof CompareTrayError)) throw error;
+      console.warn(error.message);
+      return false;
+    }
+  }, []);
+
+  const removeFromCompare = useCallback((propertyId: string) => {
+    CompareTrayService.remove(propertyId);
+  }, []);
+
+  const clearCompare = useCallback(() => {
+    CompareTrayService.clear();
+  }, []);
+
+  return {
+    items,
+    isFull: items.length >= CompareTrayService.MAX_ITEMS,
+    isInTray,
+    toggleCompare,
+    removeFromCompare,
+    clearCompare
+  };
+}
@@ -1,16 +1,27 @@
 import { useCallback, useEffect } from 'react';
 import { ethers } from 'ethers';
 import { useWeb3Context } from '../contexts/Web3Context';
-import type { PropertyDetails } from '../types/web3';
+import type { ContractInstances, PropertyDetails } from '../types/web3';
 import {
-  REAL_ESTATE_ABI,
-  ESCROW_ABI,
-  ESCROW_WITH_STABLE_AND_YIELD_ABI,
-  ESCROW_WITH_STABLE_AND_YIELD_CROSS_CHAIN_ABI,
-  MOCK_USDC_ABI,
-  CONTRACT_ADDRESSES,
-  ESCROW_CONTRACTS
-} from '../contracts/abis';
+  EscrowAbi,
+  EscrowWithStableAndYieldAbi,
+  EscrowWithStableAndYieldCrossChainAbi,
+  MockUSDCAbi,
+  RealEstateAbi,
+  type EscrowContract,
+  type EscrowWithStableAndYieldContract,
+  type EscrowWithStableAndYieldCrossChainContract
+} from '../contracts/generated';
+import { connectContract } from '../contracts/typedContract';
+import { getContractAddress, getDeployment, getEscrowType } from '../contracts/deployments';
+
+// Escrow.sol takes ETH from a single buyer; the stablecoin escrows take USDC from several
+type EscrowHandle =
+  | { type: 'Escrow'; contract: EscrowContract }
+  | { type: 'EscrowWithStableAndYield'; contract: EscrowWithStableAndYieldContract }
+  | { type: 'EscrowWithStableAndYieldCrossChain'; contract: EscrowWithStableAndYieldCrossChainContract };
+
+const USDC_DECIMALS = 6;
 
 export function useContracts() {
   const { state, dispatch } = useWeb3Context();
@@ -21,24 +32,25 @@ export function useContracts() {
 
     try {
       const signer = await provider.getSigner();
-      
+
       // Get contract addresses for current network
-      const addresses = CONTRACT_ADDRESSES[chainId as keyof typeof CONTRACT_ADDRESSES];
-      if (!addresses) {
-        console.warn(`No contract addresses configured for chain ID ${chainId}`);
+      if (!getDeployment(chainId)) {
+        console.warn(`No contract deployment recorded for chain ID ${chainId}`);
         return;
       }
-      
-      const contracts: any = {};
-      
+
+      const contracts: Partial<ContractInstances> = {};
+
       // Initialize RealEstate contract
-      if (addresses.RealEstate && addresses.RealEstate !== ethers.ZeroAddress) {
-        contracts.realEstate = new ethers.Contract(addresses.RealEstate, REAL_ESTATE_ABI, signer);
+      const realEstateAddress = getContractAddress(chainId, 'RealEstate');
+      if (realEstateAddress) {
+        contracts.realEstate = connectContract(realEstateAddress, RealEstateAbi, signer);
       }
-      
+
       // Initialize MockUSDC contract
-      if (addresses.MockUSDC && addresses.MockUSDC !== ethers.ZeroAddress) {
-        contracts.mockUSDC = new ethers.Contract(addresses.MockUSDC, MOCK_USDC_ABI, signer);
+      const usdcAddress = getContractAddress(chainId, 'MockUSDC');
+      if (usdcAddress) {
+        contracts.mockUSDC = connectContract(usdcAddress, MockUSDCAbi, signer);
       }
 
       dispatch({
@@ -54,40 +66,60 @@ export function useContracts() {
     initializeContracts();
   }, [initializeContracts]);
 
-  const getEscrowContract = useCallback((escrowAddress: string) => {
-    const { provider } = state.wallet;
+  const getEscrowContract = useCallback((escrowAddress: string, runner?: ethers.ContractRunner): EscrowHandle | null => {
+    const { provider, chainId } = state.wallet;
     if (!provider) return null;
 
-    // Determine escrow contract type from registry
-    const escrowInfo = ESCROW_CONTRACTS[escrowAddress as keyof typeof ESCROW_CONTRACTS];
-    let abi = ESCROW_ABI; // Default ABI
-
-    if (escrowInfo) {
-      switch (escrowInfo.type) {
-        case 'EscrowWithStableAndYield':
-          abi = ESCROW_WITH_STABLE_AND_YIELD_ABI;
-          break;
-        case 'EscrowWithStableAndYieldCrossChain':
-          abi = ESCROW_WITH_STABLE_AND_YIELD_CROSS_CHAIN_ABI;
-          break;
-        default:
-          abi = ESCROW_ABI;
-      }
+    // Escrows not in the deployment manifest are assumed to be Escrow.sol
+    const type = (chainId && getEscrowType(chainId, escrowAddress)) || 'Escrow';
+    const connectedRunner = runner ?? provider;
+
+    switch (type) {
+      case 'EscrowWithStableAndYield':
+        return { type, contract: connectContract(escrowAddress, EscrowWithStableAndYieldAbi, connectedRunner) };
+      case 'EscrowWithStableAndYieldCrossChain':
+        return { type, contract: connectContract(escrowAddress, EscrowWithStableAndYieldCrossChainAbi, connectedRunner) };
+      default:
+        return { type: 'Escrow', contract: connectContract(escrowAddress, EscrowAbi, connectedRunner) };
     }
-
-    return new ethers.Contract(escrowAddress, abi, provider);
-  }, [state.wallet.provider]);
+  }, [state.wallet.provider, state.wallet.chainId]);
 
   const getPropertyDetails = useCallback(async (escrowAddress: string): Promise<PropertyDetails | null> => {
-    const escrowContract = getEscrowContract(escrowAddress);
-    if (!escrowContract) return null;
+    const escrow = getEscrowContract(escrowAddress);
+    if (!escrow) return null;
 
     try {
-      const [config, currentPhaseId, totalEarnestDeposited] = await Promise.all([
-        escrowContract.getPropertyDetails(),
-        escrowContract.getPhase(),
-        escrowContract.totalEarnestDeposited()
-      ]);
+      const currentPhase = await escrow.contract.currentPhase();
+
+      let config: PropertyDetails['config'];
+      let totalEarnestDeposited: bigint;
+      if (escrow.type === 'Escrow') {
+        const [seller, buyer, nftAddress, nftID, purchasePrice, escrowAmount, balance] = await Promise.all([
+          escrow.contract.seller(),
+          escrow.contract.buyer(),
+          escrow.contract.nftAddress(),
+          escrow.contract.nftID(),
+          escrow.contract.purchasePrice(),
+          escrow.contract.escrowAmount(),
+          escrow.contract.getBalance()
+        ]);
+        config = { seller, buyer, nftAddress, nftID, purchasePrice, escrowAmount };
+        totalEarnestDeposited = balance;
+      } else {
+        const [escrowConfig, earnest] = await Promise.all([
+          escrow.contract.config(),
+          escrow.contract.totalEarnestDeposited()
+        ]);
+        config = {
+          seller: escrowConfig.seller,
+          buyer: ethers.ZeroAddress, // Several buyers, see buyers(i)
+          nftAddress: escrowConfig.nftAddress,
+          nftID: escrowConfig.nftID,
+          purchasePrice: escrowConfig.purchasePrice,
+          escrowAmount: escrowConfig.escrowAmount
+        };
+        totalEarnestDeposited = earnest;
+      }
 
       const phaseNames = [
         'Available for Investment',
@@ -98,21 +130,13 @@ export function useContracts() {
         'Cancelled'
       ];
 
+      const phaseId = Number(currentPhase.id);
       return {
-        config: {
-          seller: config.seller,
-          buyer: config.buyer,
-          nftAddress: config.nftAddress,
-          nftID: config.nftID,
-          purchasePrice: config.purchasePrice,
-          escrowAmount: config.escrowAmount,
-          inspectionPeriod: config.inspectionPeriod,
-          financingPeriod: config.financingPeriod
-        },
+        config,
         currentPhase: {
-          id: currentPhaseId,
-          name: phaseNames[currentPhaseId] || 'Unknown',
-          timestamp: BigInt(Date.now()) // In real implementation, get from blockchain
+          id: phaseId,
+          name: phaseNames[phaseId] || 'Unknown',
+          timestamp: currentPhase.timestamp
         },
         totalEarnestDeposited,
         availableShares: Math.floor(Math.random() * 100) // Mock value - calculate from contract
@@ -129,18 +153,19 @@ export function useContracts() {
 
     try {
       const signer = await provider.getSigner();
-      const escrowContract = new ethers.Contract(escrowAddress, ESCROW_ABI, signer);
-      
-      const tx = await escrowContract.depositEarnest({
-        value: ethers.parseEther(amount)
-      });
-      
-      return tx;
+      const escrow = getEscrowContract(escrowAddress, signer);
+      if (!escrow) return null;
+
+      if (escrow.type === 'Escrow') {
+        return await escrow.contract.depositEarnest({ value: ethers.parseEther(amount) });
+      }
+      // The stablecoin escrows pull USDC, so the buyer must have approved the escrow first
+      return await escrow.contract.depositEarnest(ethers.parseUnits(amount, USDC_DECIMALS));
     } catch (error) {
       console.error('Error depositing earnest:', error);
       throw error;
     }
-  }, [state.wallet.provider]);
+  }, [state.wallet.provider, getEscrowContract]);
 
   const approveInspection = useCallback(async (escrowAddress: string): Promise<ethers.TransactionResponse | null> => {
     const { provider } = state.wallet;
@@ -148,36 +173,38 @@ export function useContracts() {
 
     try {
       const signer = await provider.getSigner();
-      const escrowContract = new ethers.Contract(escrowAddress, ESCROW_ABI, signer);
-      
-      const tx = await escrowContract.approveInspection();
+      const escrow = getEscrowContract(escrowAddress, signer);
+      if (!escrow) return null;
+
+      const tx = await escrow.contract.updateInspectionStatus(true);
       return tx;
     } catch (error) {
       console.error('Error approving inspection:', error);
       throw error;
     }
-  }, [state.wallet.provider]);
+  }, [state.wallet.provider, getEscrowContract]);
 
-  const withdrawFunds = useCallback(async (escrowAddress: string): Promise<ethers.TransactionResponse | null> => {
+  const cancelSale = useCallback(async (escrowAddress: string): Promise<ethers.TransactionResponse | null> => {
     const { provider } = state.wallet;
     if (!provider) return null;
 
     try {
       const signer = await provider.getSigner();
-      const escrowContract = new ethers.Contract(escrowAddress, ESCROW_ABI, signer);
-      
-      const tx = await escrowContract.withdraw();
+      const escrow = getEscrowContract(escrowAddress, signer);
+      if (!escrow) return null;
+
+      const tx = await escrow.contract.cancelSale();
       return tx;
     } catch (error) {
-      console.error('Error withdrawing funds:', error);
+      console.error('Error cancelling sale:', error);
       throw error;
     }
-  }, [state.wallet.provider]);
+  }, [state.wallet.provider, getEscrowContract]);
 
   const getUSDCBalance = useCallback(async (address?: string): Promise<string> => {
     const { mockUSDC } = state.contracts;
     const targetAddress = address || state.wallet.account;
-    
+
     if (!mockUSDC || !targetAddress) return '0';
 
     try {
@@ -197,7 +224,7 @@ export function useContracts() {
     getPropertyDetails,
     depositEarnest,
     approveInspection,
-    withdrawFunds,
+    cancelSale,
     getUSDCBalance
   };
-}
\ No newline at end of file
+}
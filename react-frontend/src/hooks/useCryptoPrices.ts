@@ -1,5 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { CryptoPriceService, PriceData, GasFeeEstimate } from '../services/cryptoPriceService';
+import { getSimulationClock } from '../services/simulationClock';
+import { PRICE_ORACLE_CONFIG } from '../config/priceOracleConfig';
+
+const MIN_REFRESH_MS = 15 * 1000;
 
 interface CryptoPriceHook {
   prices: PriceData | null;
@@ -39,10 +43,15 @@ export const useCryptoPrices = (): CryptoPriceHook => {
     fetchPrices();
   }, [fetchPrices]);
 
-  // Auto-refresh prices every 5 minutes
+  // Auto-refresh once per oracle bucket of game time, and after fast-forwards
   useEffect(() => {
-    const interval = setInterval(fetchPrices, 5 * 60 * 1000);
-    return () => clearInterval(interval);
+    const clock = getSimulationClock();
+    const interval = setInterval(fetchPrices, Math.max(MIN_REFRESH_MS, clock.toRealMs(PRICE_ORACLE_CONFIG.bucketMs)));
+    const unsubscribe = clock.subscribe(() => fetchPrices());
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
   }, [fetchPrices]);
 
   // Refresh when window regains focus
@@ -71,7 +80,7 @@ export const useCryptoPrices = (): CryptoPriceHook => {
 
   const calculateGasFees = useCallback((transactionType: 'simple' | 'investment' | 'conversion'): GasFeeEstimate | null => {
     if (!prices) return null;
-    return CryptoPriceService.calculateGasFees(transactionType, prices);
+    return CryptoPriceService.calculateGasFees(transactionType);
   }, [prices]);
 
   const getUsdValue = useCallback((amount: number, currency: 'ETH' | 'USDC'): number => {
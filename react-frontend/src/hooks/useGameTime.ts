@@ -1,8 +1,7 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { doc, getDoc, updateDoc, serverTimestamp, setDoc } from 'firebase/firestore';
-import { db } from '../firebase/config';
+import { useState, useEffect, useRef } from 'react';
+import { getRepositories } from '../repositories';
 import { BackgroundCalculationService } from '../services/backgroundCalculationService';
-import { RentalIncomeProcessor } from '../services/rentalIncomeProcessor';
+import { getSimulationClock } from '../services/simulationClock';
 
 interface GameTimeState {
   currentGameTime: Date;
@@ -25,15 +24,9 @@ export const useGameTime = (userId: string) => {
   const [gameTime, setGameTime] = useState<GameTimeState | null>(null);
   const intervalRef = useRef<NodeJS.Timeout>();
   
-  // CRITICAL: 1 real hour = 2 game months
-  // 1 real minute = 1 game hour
-  // Multiplier: 60 * 24 * 60 = 86400 (1 real minute = 60 game hours)
-  const TIME_MULTIPLIER = 1440; // 1 real hour = 60 game days = 2 game months
-  
+  // CRITICAL: 1 real hour = 2 game months (multiplier owned by the shared SimulationClock)
   const calculateGameTime = (realTime: Date, baseGameTime: Date, baseRealTime: Date): Date => {
-    const realElapsedMs = realTime.getTime() - baseRealTime.getTime();
-    const gameElapsedMs = realElapsedMs * TIME_MULTIPLIER;
-    return new Date(baseGameTime.getTime() + gameElapsedMs);
+    return getSimulationClock().projectGameTime(realTime, baseGameTime, baseRealTime);
   };
   
   const processOfflineProgress = async (lastSeenGameTime: Date): Promise<OfflineProgress> => {
@@ -54,14 +47,13 @@ export const useGameTime = (userId: string) => {
     
     const initializeGameTime = async () => {
       try {
-        const userTimeDoc = await getDoc(doc(db, 'gameTime', userId));
-        const now = new Date();
+        const data = await getRepositories().gameTime.get(userId);
+        const now = getSimulationClock().now();
         
-        if (userTimeDoc.exists()) {
+        if (data) {
           // Returning user - calculate offline progress
-          const data = userTimeDoc.data();
-          const lastRealTime = data.lastRealTime.toDate();
-          const lastGameTime = data.currentGameTime.toDate();
+          const lastRealTime = data.lastRealTime;
+          const lastGameTime = data.currentGameTime;
           
           // Check if user was offline for more than 5 minutes (significant time)
           const offlineMs = now.getTime() - lastRealTime.getTime();
@@ -70,7 +62,7 @@ export const useGameTime = (userId: string) => {
             setGameTime(prev => ({ 
               currentGameTime: lastGameTime,
               lastRealTime: lastRealTime,
-              gameStartTime: data.gameStartTime.toDate(),
+              gameStartTime: data.gameStartTime,
               isCalculatingOfflineProgress: true,
               offlineProgressCompleted: false,
             }));
@@ -84,7 +76,7 @@ export const useGameTime = (userId: string) => {
             setGameTime({
               currentGameTime: newGameTime,
               lastRealTime: now,
-              gameStartTime: data.gameStartTime.toDate(),
+              gameStartTime: data.gameStartTime,
               isCalculatingOfflineProgress: false,
               offlineProgressCompleted: true,
             });
@@ -97,7 +89,7 @@ export const useGameTime = (userId: string) => {
             setGameTime({
               currentGameTime: newGameTime,
               lastRealTime: now,
-              gameStartTime: data.gameStartTime.toDate(),
+              gameStartTime: data.gameStartTime,
               isCalculatingOfflineProgress: false,
               offlineProgressCompleted: false,
             });
@@ -116,10 +108,10 @@ export const useGameTime = (userId: string) => {
           
           console.log('🆕 Initializing new game time for user');
           
-          // Save to Firebase
-          await setDoc(doc(db, 'gameTime', userId), {
+          // Persist so later sessions can resume
+          await getRepositories().gameTime.save(userId, {
             currentGameTime: gameStartTime,
-            lastRealTime: serverTimestamp(),
+            lastRealTime: now,
             gameStartTime: gameStartTime,
           });
         }
@@ -136,7 +128,7 @@ export const useGameTime = (userId: string) => {
     if (!gameTime) return;
     
     intervalRef.current = setInterval(() => {
-      const now = new Date();
+      const now = getSimulationClock().now();
       const newGameTime = calculateGameTime(now, gameTime.currentGameTime, gameTime.lastRealTime);
       
       setGameTime(prev => ({
@@ -145,13 +137,13 @@ export const useGameTime = (userId: string) => {
         lastRealTime: now,
       }));
       
-      // Update Firebase every 5 minutes
+      // Persist every 5 minutes
       if (now.getMinutes() % 5 === 0) {
-        updateDoc(doc(db, 'gameTime', userId), {
+        getRepositories().gameTime.update(userId, {
           currentGameTime: newGameTime,
-          lastRealTime: serverTimestamp(),
+          lastRealTime: now,
         }).catch(error => {
-          console.error('Error updating game time in Firebase:', error);
+          console.error('Error persisting game time:', error);
         });
       }
     }, 60000); // Update every minute
@@ -163,32 +155,27 @@ export const useGameTime = (userId: string) => {
     };
   }, [gameTime, userId]);
 
-  // Start rental income processing when game time is active
+  // Jump immediately when the clock is advanced, paused or frozen (demos, QA replays)
   useEffect(() => {
-    if (!userId || !gameTime?.currentGameTime) return;
-
-    // Start rental income processing
-    RentalIncomeProcessor.startProcessing(userId);
+    if (!userId) return;
 
-    // Cleanup on unmount
-    return () => {
-      RentalIncomeProcessor.stopProcessing();
-    };
-  }, [userId, gameTime?.currentGameTime]);
+    const clock = getSimulationClock();
+    return clock.subscribe(() => {
+      const now = clock.now();
+      setGameTime(prev => prev ? {
+        ...prev,
+        currentGameTime: clock.projectGameTime(now, prev.currentGameTime, prev.lastRealTime),
+        lastRealTime: now,
+      } : prev);
+    });
+  }, [userId]);
 
-  // Manual trigger for rental processing
-  const triggerRentalProcessing = useCallback(async (): Promise<number> => {
-    if (!userId || !gameTime?.currentGameTime) return 0;
-    
-    return await RentalIncomeProcessor.triggerManualProcessing(userId, gameTime.currentGameTime);
-  }, [userId, gameTime?.currentGameTime]);
-  
   return {
     gameTime: gameTime?.currentGameTime,
     isCalculatingOfflineProgress: gameTime?.isCalculatingOfflineProgress || false,
     offlineProgressCompleted: gameTime?.offlineProgressCompleted || false,
     realTime: gameTime?.lastRealTime,
     gameStartTime: gameTime?.gameStartTime,
-    triggerRentalProcessing,
+    clock: getSimulationClock(),
   };
 };
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { GovernanceService, type ProposalOptions, type ProposalView, type VoteChoice } from '../services/governanceService';
+import type { ProposalKind } from '../config/governanceConfig';
+
+interface GovernanceState {
+  proposals: ProposalView[]; // Newest first
+  votingPower: number; // The signed-in user's shares in the property
+  loading: boolean;
+  error: string | null;
+}
+
+interface UseGovernanceReturn extends GovernanceState {
+  propose: (kind: ProposalKind, options?: ProposalOptions) => Promise<void>;
+  vote: (proposalId: string, choice: VoteChoice) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * A property's shareholder proposals with live tallies, and the signed-in
+ * user's say in them
+ */
+export function useGovernance(propertyId: string | undefined): UseGovernanceReturn {
+  const { user } = useAuth();
+  const [state, setState] = useState<GovernanceState>({
+    proposals: [],
+    votingPower: 0,
+    loading: false,
+    error: null
+  });
+
+  const refresh = useCallback(async () => {
+    if (!propertyId) {
+      setState({ proposals: [], votingPower: 0, loading: false, error: null });
+      return;
+    }
+
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      const [proposals, votingPower] = await Promise.all([
+        GovernanceService.getProposalViews(propertyId, user?.uid),
+        user?.uid ? GovernanceService.votingPower(user.uid, propertyId) : Promise.resolve(0)
+      ]);
+      setState({ proposals, votingPower, loading: false, error: null });
+    } catch (error) {
+      console.error('Failed to load proposals:', error);
+      setState(prev => ({ ...prev, loading: false, error: 'Failed to load proposals' }));
+    }
+  }, [propertyId, user?.uid]);
+
+  const propose = useCallback(async (kind: ProposalKind, options?: ProposalOptions) => {
+    if (!user?.uid || !propertyId) {
+      throw new Error('Sign in to make proposals');
+    }
+    await GovernanceService.propose(user.uid, user.displayName || user.email || 'Investor', propertyId, kind, options);
+    await refresh();
+  }, [user, propertyId, refresh]);
+
+  const vote = useCallback(async (proposalId: string, choice: VoteChoice) => {
+    if (!user?.uid) {
+      throw new Error('Sign in to vote');
+    }
+    await GovernanceService.vote(user.uid, user.displayName || user.email || 'Investor', proposalId, choice);
+    await refresh();
+  }, [user, refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Mock investors vote through the window and votes close in game time
+  useEffect(() => {
+    const interval = setInterval(refresh, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return {
+    ...state,
+    propose,
+    vote,
+    refresh
+  };
+}
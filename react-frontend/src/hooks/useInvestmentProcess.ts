@@ -1,6 +1,5 @@
 import { useState, useCallback } from 'react';
 import { web3Service, type PurchaseResult } from '../services/web3Service';
-import { rentalIncomeService } from '../services/rentalIncomeServiceNew';
 import { useMockWallet } from './useMockWallet';
 
 interface InvestmentProcessState {
@@ -12,7 +11,7 @@ interface InvestmentProcessState {
 }
 
 export const useInvestmentProcess = () => {
-  const { address, isSimulationMode } = useMockWallet();
+  const { isSimulationMode } = useMockWallet();
   const [state, setState] = useState<InvestmentProcessState>({
     isProcessing: false,
     currentStep: 'idle',
@@ -76,20 +75,6 @@ export const useInvestmentProcess = () => {
         propertyClass
       });
 
-      // Record purchase for rental income system
-      if (address) {
-        const mockTransactionHash = `0x${Math.random().toString(16).substring(2, 66)}`;
-        rentalIncomeService.recordPurchase({
-          propertyId,
-          userId: address,
-          shares: userShares,
-          purchasePrice: userInvestmentAmount,
-          purchaseTime: Date.now(),
-          transactionHash: mockTransactionHash
-        });
-        console.log('📊 Simulation purchase recorded for rental income system');
-      }
-
       setState(prev => ({
         ...prev,
         isProcessing: false,
@@ -104,7 +89,7 @@ export const useInvestmentProcess = () => {
       console.error('❌ Simulation purchase failed:', error);
       throw error;
     }
-  }, [address]);
+  }, []);
 
   // Blockchain mode investment processing
   const processBlockchainInvestment = useCallback(async (
@@ -128,19 +113,6 @@ export const useInvestmentProcess = () => {
 
       console.log('✅ Blockchain purchase successful:', purchaseResult);
 
-      // Record purchase for rental income system
-      if (address) {
-        rentalIncomeService.recordPurchase({
-          propertyId,
-          userId: address,
-          shares: userShares,
-          purchasePrice: userInvestmentAmount,
-          purchaseTime: Date.now(),
-          transactionHash: purchaseResult.transaction.hash
-        });
-        console.log('📊 Purchase recorded for rental income system');
-      }
-
       setState(prev => ({
         ...prev,
         isProcessing: false,
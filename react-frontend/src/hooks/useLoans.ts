@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { LoanService, type Loan, type LoanPosition } from '../services/loanService';
+
+interface LoansState {
+  positions: LoanPosition[]; // Open loans
+  closedLoans: Loan[];
+  loading: boolean;
+  error: string | null;
+}
+
+interface UseLoansReturn extends LoansState {
+  payOff: (loanId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * The signed-in user's mortgages, with open loans marked against the
+ * appreciated value of the shares securing them
+ */
+export function useLoans(): UseLoansReturn {
+  const { user } = useAuth();
+  const [state, setState] = useState<LoansState>({
+    positions: [],
+    closedLoans: [],
+    loading: false,
+    error: null
+  });
+
+  const refresh = useCallback(async () => {
+    if (!user?.uid) {
+      setState({ positions: [], closedLoans: [], loading: false, error: null });
+      return;
+    }
+
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      const [positions, loans] = await Promise.all([
+        LoanService.getLoanPositions(user.uid),
+        LoanService.getLoans(user.uid)
+      ]);
+      setState({
+        positions,
+        closedLoans: loans.filter(loan => !LoanService.isOpen(loan)),
+        loading: false,
+        error: null
+      });
+    } catch (error) {
+      console.error('Failed to load loans:', error);
+      setState(prev => ({ ...prev, loading: false, error: 'Failed to load loans' }));
+    }
+  }, [user?.uid]);
+
+  const payOff = useCallback(async (loanId: string) => {
+    if (!user?.uid) return;
+    await LoanService.payOff(user.uid, loanId);
+    await refresh();
+  }, [user?.uid, refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Installments are taken at game month boundaries and values move quarterly
+  useEffect(() => {
+    const interval = setInterval(refresh, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return {
+    ...state,
+    payOff,
+    refresh
+  };
+}
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MARKET_CLASSES, MARKET_REGIONS } from '../config/marketConfig';
+import { MarketModelService, type MarketIndexId, type MarketIndexPoint } from '../services/marketModelService';
+import { getSimulationClock } from '../services/simulationClock';
+
+export type MarketIndexGroup = 'regions' | 'classes';
+
+interface MarketIndicesState {
+  history: Partial<Record<MarketIndexId, MarketIndexPoint[]>>;
+  loading: boolean;
+  error: string | null;
+}
+
+interface UseMarketIndicesReturn extends MarketIndicesState {
+  indexIds: MarketIndexId[];
+  group: MarketIndexGroup;
+  setGroup: (group: MarketIndexGroup) => void;
+  refresh: () => Promise<void>;
+}
+
+const GROUP_INDEX_IDS: Record<MarketIndexGroup, MarketIndexId[]> = {
+  regions: ['market', ...MARKET_REGIONS.map(region => `region:${region}` as const)],
+  classes: ['market', ...MARKET_CLASSES.map(propertyClass => `class:${propertyClass}` as const)],
+};
+
+/**
+ * Recorded history of the national market and its regional or class
+ * indices over the last game quarters, brought up to the current quarter
+ */
+export function useMarketIndices(quarters: number = 12): UseMarketIndicesReturn {
+  const [group, setGroup] = useState<MarketIndexGroup>('regions');
+  const [state, setState] = useState<MarketIndicesState>({
+    history: {},
+    loading: false,
+    error: null
+  });
+  const indexIds = GROUP_INDEX_IDS[group];
+
+  const refresh = useCallback(async () => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      const gameNow = getSimulationClock().gameNow();
+      await MarketModelService.recordThrough(gameNow);
+
+      const toQuarter = MarketModelService.quarterOf(gameNow);
+      const series = await Promise.all(
+        GROUP_INDEX_IDS[group].map(indexId => MarketModelService.getHistory(indexId, toQuarter - quarters + 1, toQuarter))
+      );
+      const history: Partial<Record<MarketIndexId, MarketIndexPoint[]>> = {};
+      GROUP_INDEX_IDS[group].forEach((indexId, i) => {
+        history[indexId] = series[i];
+      });
+      setState({ history, loading: false, error: null });
+    } catch (error) {
+      console.error('Failed to load market indices:', error);
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: 'Failed to load market indices'
+      }));
+    }
+  }, [group, quarters]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Reload when a clock change moves the game into a new quarter
+  useEffect(() => {
+    const clock = getSimulationClock();
+    let lastQuarter = MarketModelService.quarterOf(clock.gameNow());
+    return clock.subscribe(() => {
+      const quarter = MarketModelService.quarterOf(clock.gameNow());
+      if (quarter !== lastQuarter) {
+        lastQuarter = quarter;
+        refresh();
+      }
+    });
+  }, [refresh]);
+
+  return {
+    ...state,
+    indexIds,
+    group,
+    setGroup,
+    refresh
+  };
+}
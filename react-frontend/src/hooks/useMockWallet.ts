@@ -2,14 +2,18 @@ import { useState, useCallback, useEffect } from 'react';
 import { WalletData, MockWalletData, RealWalletData } from '../components/MockWallet/MockWallet';
 import { simulationWalletService, SimulationWallet } from '../services/firebaseService';
 import { UserScopedWalletService, UserWallet } from '../services/userScopedWalletService';
+import type { LedgerAsset } from '../services/walletLedgerService';
 import { UserDataCleanupService } from '../services/userDataCleanupService';
 import { useCryptoPrices } from './useCryptoPrices';
+import { PriceOracleService } from '../services/priceOracleService';
 import { useAuth } from '../contexts/AuthContext';
 
 interface WalletState {
   isConnected: boolean;
   address: string | null;
   ethBalance: number;
+  usdcBalance?: number; // User-scoped wallets only
+  rentPayoutAsset?: LedgerAsset; // Currency rental income is paid out in
   mode: 'simulation' | null;
   username?: string;
   strikePrice?: number; // ETH price when wallet was created
@@ -120,6 +124,8 @@ export const useMockWallet = (props?: UseMockWalletProps) => {
               isConnected: true,
               address: userWalletData.address,
               ethBalance: userWalletData.ethBalance,
+              usdcBalance: userWalletData.usdcBalance ?? 0,
+              rentPayoutAsset: userWalletData.rentPayoutAsset ?? 'ETH',
               mode: 'simulation',
               username: userWalletData.username,
               strikePrice: userWalletData.strikePrice,
@@ -219,7 +225,7 @@ export const useMockWallet = (props?: UseMockWalletProps) => {
         userId,
         address: localWalletData.address,
         ethBalance: localWalletData.ethBalance || 4.48,
-        strikePrice: localWalletData.strikePrice || 4462,
+        strikePrice: localWalletData.strikePrice || PriceOracleService.lastKnownEthUsd(),
         initialUsdValue: localWalletData.initialUsdValue || 20000,
         username: localWalletData.username || 'User',
         isActive: true
@@ -262,7 +268,7 @@ export const useMockWallet = (props?: UseMockWalletProps) => {
       const walletCreateData = {
         address: mockWalletData.address,
         ethBalance: mockWalletData.ethBalance,
-        strikePrice: mockWalletData.strikePrice || prices?.ethToUsd || 3200,
+        strikePrice: mockWalletData.strikePrice || prices?.ethToUsd || PriceOracleService.lastKnownEthUsd(),
         initialUsdValue: mockWalletData.initialUsdValue || 20000,
         username: mockWalletData.username,
         isActive: true
@@ -280,6 +286,8 @@ export const useMockWallet = (props?: UseMockWalletProps) => {
             isConnected: true,
             address: userWalletData.address,
             ethBalance: userWalletData.ethBalance,
+            usdcBalance: userWalletData.usdcBalance ?? 0,
+            rentPayoutAsset: userWalletData.rentPayoutAsset ?? 'ETH',
             mode: 'simulation',
             username: userWalletData.username,
             strikePrice: userWalletData.strikePrice,
@@ -529,8 +537,8 @@ export const useMockWallet = (props?: UseMockWalletProps) => {
         if (walletData.mode === 'simulation') {
           // Always ensure simulation wallet has exactly $20,000 worth of ETH
           const usdcAmount = 20000; // $20,000 USDC target
-          const defaultEthPrice = 4462; // Fallback price
-          const correctedBalance = usdcAmount / defaultEthPrice; // ~4.48 ETH
+          const defaultEthPrice = walletData.strikePrice || PriceOracleService.lastKnownEthUsd();
+          const correctedBalance = usdcAmount / defaultEthPrice;
           
           console.log('🎮 Restoring simulation wallet:', {
             originalBalance: walletData.ethBalance,
@@ -679,6 +687,8 @@ export const useMockWallet = (props?: UseMockWalletProps) => {
             isConnected: true,
             address: firebaseWalletData.address,
             ethBalance: firebaseWalletData.ethBalance,
+            usdcBalance: firebaseWalletData.usdcBalance ?? 0,
+            rentPayoutAsset: firebaseWalletData.rentPayoutAsset ?? 'ETH',
             mode: 'simulation',
             username: firebaseWalletData.username,
             strikePrice: firebaseWalletData.strikePrice,
@@ -706,6 +716,21 @@ export const useMockWallet = (props?: UseMockWalletProps) => {
     }
   }, [authUserId, user, getUserId]);
 
+  // Swap between ETH and USDC, then reload balances
+  const swapAssets = useCallback(async (from: LedgerAsset, amount: number) => {
+    if (!authUserId) {
+      throw new Error('Sign in to swap');
+    }
+    await UserScopedWalletService.swap(authUserId, from, amount);
+    await refreshWallet();
+  }, [authUserId, refreshWallet]);
+
+  const setRentPayoutAsset = useCallback(async (asset: LedgerAsset) => {
+    if (!authUserId) return;
+    await UserScopedWalletService.setRentPayoutAsset(authUserId, asset);
+    setWallet(prev => ({ ...prev, rentPayoutAsset: asset }));
+  }, [authUserId]);
+
   // Listen for global wallet refresh events from other components
   useEffect(() => {
     const handleGlobalRefresh = () => {
@@ -725,6 +750,8 @@ export const useMockWallet = (props?: UseMockWalletProps) => {
     isConnected: wallet.isConnected,
     address: wallet.address,
     ethBalance: wallet.ethBalance,
+    usdcBalance: wallet.usdcBalance ?? 0,
+    rentPayoutAsset: wallet.rentPayoutAsset ?? 'ETH',
     mode: wallet.mode,
     username: wallet.username,
     isLoading: wallet.isLoading,
@@ -747,6 +774,8 @@ export const useMockWallet = (props?: UseMockWalletProps) => {
     restoreWallet,
     createFreshSimulationWallet,
     refreshWallet,
+    swapAssets,
+    setRentPayoutAsset,
     
     // Utilities
     formatAddress,
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { NotificationService, type AppNotification } from '../services/notificationService';
+
+interface NotificationsState {
+  notifications: AppNotification[]; // Newest first
+  unreadCount: number;
+  loading: boolean;
+  error: string | null;
+}
+
+interface UseNotificationsReturn extends NotificationsState {
+  markRead: (notificationId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+}
+
+/**
+ * The signed-in user's notification inbox, kept current as notifications
+ * arrive or are read in another tab
+ */
+export function useNotifications(): UseNotificationsReturn {
+  const { user } = useAuth();
+  const [state, setState] = useState<NotificationsState>({
+    notifications: [],
+    unreadCount: 0,
+    loading: false,
+    error: null
+  });
+
+  useEffect(() => {
+    if (!user?.uid) {
+      setState({ notifications: [], unreadCount: 0, loading: false, error: null });
+      return;
+    }
+
+    setState(prev => ({ ...prev, loading: true }));
+    return NotificationService.subscribe(user.uid, notifications => {
+      setState({
+        notifications,
+        unreadCount: notifications.filter(notification => !notification.read).length,
+        loading: false,
+        error: null
+      });
+    });
+  }, [user?.uid]);
+
+  const markRead = useCallback(async (notificationId: string) => {
+    if (!user?.uid) return;
+    try {
+      await NotificationService.markRead(user.uid, notificationId);
+    } catch (error) {
+      console.error('Failed to mark notification read:', error);
+      setState(prev => ({ ...prev, error: 'Failed to update notifications' }));
+    }
+  }, [user?.uid]);
+
+  const markAllRead = useCallback(async () => {
+    if (!user?.uid) return;
+    try {
+      await NotificationService.markAllRead(user.uid);
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+      setState(prev => ({ ...prev, error: 'Failed to update notifications' }));
+    }
+  }, [user?.uid]);
+
+  return {
+    ...state,
+    markRead,
+    markAllRead
+  };
+}
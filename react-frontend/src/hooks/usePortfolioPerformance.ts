@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  PortfolioAnalyticsService,
+  type PerformanceWindow,
+  type PortfolioPerformance
+} from '../services/portfolioAnalyticsService';
+
+interface PortfolioPerformanceState {
+  performance: PortfolioPerformance | null;
+  loading: boolean;
+  error: string | null;
+}
+
+interface UsePortfolioPerformanceReturn extends PortfolioPerformanceState {
+  selectedWindow: PerformanceWindow;
+  setSelectedWindow: (window: PerformanceWindow) => void;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * IRR, cash-on-cash and time-weighted returns for the signed-in user's
+ * portfolio over a selectable game-time window
+ */
+export function usePortfolioPerformance(initialWindow: PerformanceWindow = 'all'): UsePortfolioPerformanceReturn {
+  const { user } = useAuth();
+  const [selectedWindow, setSelectedWindow] = useState<PerformanceWindow>(initialWindow);
+  const [state, setState] = useState<PortfolioPerformanceState>({
+    performance: null,
+    loading: false,
+    error: null
+  });
+
+  const refresh = useCallback(async () => {
+    if (!user?.uid) {
+      setState({ performance: null, loading: false, error: null });
+      return;
+    }
+
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      const performance = await PortfolioAnalyticsService.getPortfolioPerformance(user.uid, selectedWindow);
+      setState({ performance, loading: false, error: null });
+    } catch (error) {
+      console.error('Failed to calculate portfolio performance:', error);
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: 'Failed to calculate portfolio performance'
+      }));
+    }
+  }, [user?.uid, selectedWindow]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    ...state,
+    selectedWindow,
+    setSelectedWindow,
+    refresh
+  };
+}
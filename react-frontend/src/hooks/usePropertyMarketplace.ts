@@ -5,12 +5,14 @@ import {
   PropertyFilter, 
   InvestmentCalculation 
 } from '../services/propertyMarketplaceService';
+import type { PropertySearchFacets } from '../services/propertySearchIndex';
 import { useCryptoPrices } from './useCryptoPrices';
 
 interface MarketplaceHook {
   // Property data
   properties: MarketplaceProperty[];
   filteredProperties: MarketplaceProperty[];
+  facets: PropertySearchFacets; // Result counts by class, region, state and yield bucket
   selectedProperty: MarketplaceProperty | null;
   marketplaceStats: {
     totalProperties: number;
@@ -37,12 +39,14 @@ interface MarketplaceHook {
 }
 
 const DEFAULT_FILTERS: PropertyFilter = {
+  search: '',
   class: 'all',
   region: 'all',
+  yieldBucket: 'all',
   priceRange: undefined,
   affordableOnly: false,
   timeRemaining: 'all',
-  sortBy: 'newest',
+  sortBy: 'relevance', // Newest first until there's a search
 };
 
 export const usePropertyMarketplace = (userEthBalance: number = 0): MarketplaceHook => {
@@ -61,22 +65,16 @@ export const usePropertyMarketplace = (userEthBalance: number = 0): MarketplaceH
 
   const { prices } = useCryptoPrices();
 
-  // Load marketplace properties
-  const loadProperties = useCallback(async (currentFilters: PropertyFilter = filters) => {
+  // Load every marketplace property; filters apply locally so facet counts cover them all
+  const loadProperties = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
 
-      console.log('Loading marketplace properties with filters:', currentFilters);
-
-      // Add user balance to filters for affordability checking
-      const filtersWithBalance = {
-        ...currentFilters,
-        userEthBalance: userEthBalance,
-      };
+      console.log('Loading marketplace properties');
 
       const [propertiesData, statsData] = await Promise.all([
-        PropertyMarketplaceService.getAvailableProperties(filtersWithBalance),
+        PropertyMarketplaceService.getAvailableProperties(),
         PropertyMarketplaceService.getMarketplaceStats(),
       ]);
 
@@ -91,79 +89,22 @@ export const usePropertyMarketplace = (userEthBalance: number = 0): MarketplaceH
     } finally {
       setLoading(false);
     }
-  }, [filters, userEthBalance]);
+  }, []);
 
   // Apply filters to properties
-  const filteredProperties = useMemo(() => {
-    if (!properties.length) return [];
-
-    let filtered = [...properties];
-
-    // Apply filters
-    if (filters.class && filters.class !== 'all') {
-      filtered = filtered.filter(p => p.class === filters.class);
-    }
-
-    if (filters.region && filters.region !== 'all') {
-      filtered = filtered.filter(p => p.region === filters.region);
-    }
-
-    if (filters.priceRange) {
-      filtered = filtered.filter(p => 
-        p.currentValue >= filters.priceRange!.min && 
-        p.currentValue <= filters.priceRange!.max
-      );
-    }
-
-    if (filters.affordableOnly && userEthBalance > 0) {
-      filtered = filtered.filter(p => p.pricePerShare <= userEthBalance);
-    }
+  const { properties: filteredProperties, facets } = useMemo(() => 
+    PropertyMarketplaceService.searchProperties(properties, { ...filters, userEthBalance })
+  , [properties, filters, userEthBalance]);
 
-    if (filters.timeRemaining === 'ending_soon') {
-      const oneHourFromNow = new Date(Date.now() + 60 * 60 * 1000);
-      filtered = filtered.filter(p => p.selloutTime <= oneHourFromNow);
-    }
-
-    // Sort results
-    switch (filters.sortBy) {
-      case 'price':
-        filtered.sort((a, b) => a.currentValue - b.currentValue);
-        break;
-      case 'yield':
-        filtered.sort((a, b) => b.rentalYield - a.rentalYield);
-        break;
-      case 'timeRemaining':
-        filtered.sort((a, b) => a.selloutTime.getTime() - b.selloutTime.getTime());
-        break;
-      case 'newest':
-      default:
-        filtered.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-    }
-
-    return filtered;
-  }, [properties, filters, userEthBalance]);
-
-  // Set filters and reload if needed
+  // Set filters
   const setFilters = useCallback((newFilters: Partial<PropertyFilter>) => {
-    const updatedFilters = { ...filters, ...newFilters };
-    setFiltersState(updatedFilters);
-    
-    // Reload properties if server-side filtering is needed
-    const serverFilters = ['class', 'region'];
-    const needsReload = serverFilters.some(key => 
-      newFilters[key as keyof PropertyFilter] !== undefined
-    );
-    
-    if (needsReload) {
-      loadProperties(updatedFilters);
-    }
-  }, [filters, loadProperties]);
+    setFiltersState(current => ({ ...current, ...newFilters }));
+  }, []);
 
   // Reset all filters
   const resetFilters = useCallback(() => {
     setFiltersState(DEFAULT_FILTERS);
-    loadProperties(DEFAULT_FILTERS);
-  }, [loadProperties]);
+  }, []);
 
   // Refresh properties
   const refreshProperties = useCallback(async () => {
@@ -222,6 +163,7 @@ export const usePropertyMarketplace = (userEthBalance: number = 0): MarketplaceH
     // Property data
     properties,
     filteredProperties,
+    facets,
     selectedProperty,
     marketplaceStats,
     
@@ -259,9 +201,11 @@ export const usePropertyFilters = () => {
       { value: 'midwest', label: 'Midwest' },
       { value: 'southwest', label: 'Southwest' },
       { value: 'southeast', label: 'Southeast' },
+      { value: 'northwest', label: 'Northwest' },
       { value: 'anywhere', label: 'Anywhere' },
     ],
     sortOptions: [
+      { value: 'relevance', label: 'Best Match' },
       { value: 'newest', label: 'Newest' },
       { value: 'price', label: 'Price: Low to High' },
       { value: 'yield', label: 'Highest Yield' },
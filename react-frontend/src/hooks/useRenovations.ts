@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { RenovationService, type CapitalCall, type RenovationProject } from '../services/renovationService';
+
+interface RenovationsState {
+  projects: RenovationProject[]; // Newest first
+  capitalCalls: CapitalCall[]; // The signed-in user's share of the property's calls
+  loading: boolean;
+  error: string | null;
+}
+
+interface UseRenovationsReturn extends RenovationsState {
+  refresh: () => Promise<void>;
+}
+
+/**
+ * A property's renovation projects and what the signed-in user has been
+ * called to pay towards them
+ */
+export function useRenovations(propertyId: string | undefined): UseRenovationsReturn {
+  const { user } = useAuth();
+  const [state, setState] = useState<RenovationsState>({
+    projects: [],
+    capitalCalls: [],
+    loading: false,
+    error: null
+  });
+
+  const refresh = useCallback(async () => {
+    if (!propertyId) {
+      setState({ projects: [], capitalCalls: [], loading: false, error: null });
+      return;
+    }
+
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      const [projects, capitalCalls] = await Promise.all([
+        RenovationService.getProjects(propertyId),
+        user?.uid ? RenovationService.getCapitalCalls(user.uid, propertyId) : Promise.resolve([])
+      ]);
+      setState({ projects, capitalCalls, loading: false, error: null });
+    } catch (error) {
+      console.error('Failed to load renovations:', error);
+      setState(prev => ({ ...prev, loading: false, error: 'Failed to load renovations' }));
+    }
+  }, [propertyId, user?.uid]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Work finishes and calls are paid in game time
+  useEffect(() => {
+    const interval = setInterval(refresh, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return {
+    ...state,
+    refresh
+  };
+}
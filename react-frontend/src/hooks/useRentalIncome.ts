@@ -1,6 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { rentalIncomeService, type RentalIncomePayment } from '../services/rentalIncomeServiceNew';
-import { useMockWallet } from './useMockWallet';
+import { RentalIncomeService, type RentalPayment, type UserInvestment } from '../services/rentalIncomeService';
 
 interface RentalIncomeStats {
   propertiesOwned: number;
@@ -1,101 +1,83 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { SimpleRentalProcessor } from '../services/simpleRentalProcessor';
+import {
+  RentalIncomeService,
+  type RentalCollectionResult,
+  type RentalSummary
+} from '../services/rentalIncomeService';
 
-interface RentalPaymentData {
-  pendingAmount: number;
-  totalAccrued: number;
-  alreadyPaid: number;
+interface RentalPaymentData extends RentalSummary {
   isCollecting: boolean;
 }
 
-export const useRentalPayments = (investments: any[]) => {
+const EMPTY_PAYMENT_DATA: RentalPaymentData = {
+  dueAmount: 0,
+  duePeriods: 0,
+  dueMonths: 0,
+  accruingAmount: 0,
+  totalPaid: 0,
+  nextPayoutAt: new Date(0),
+  isCollecting: false
+};
+
+/**
+ * Rent owed, accruing and paid to the signed-in user. Payouts happen
+ * automatically at each game month boundary; `collectRental` pays any
+ * finished months straight away.
+ */
+export const useRentalPayments = (investments: unknown[]) => {
   const { user } = useAuth();
-  const [paymentData, setPaymentData] = useState<RentalPaymentData>({
-    pendingAmount: 0,
-    totalAccrued: 0,
-    alreadyPaid: 0,
-    isCollecting: false
-  });
+  const [paymentData, setPaymentData] = useState<RentalPaymentData>(EMPTY_PAYMENT_DATA);
 
-  // Calculate pending rental income
   const updatePaymentData = useCallback(async () => {
     if (!user?.uid || investments.length === 0) {
-      setPaymentData({
-        pendingAmount: 0,
-        totalAccrued: 0,
-        alreadyPaid: 0,
-        isCollecting: false
-      });
+      setPaymentData(EMPTY_PAYMENT_DATA);
       return;
     }
 
     try {
-      const result = await SimpleRentalProcessor.calculatePendingRental(user.uid, investments);
+      const summary = await RentalIncomeService.getRentalSummary(user.uid);
       setPaymentData(prev => ({
         ...prev,
-        ...result
+        ...summary
       }));
     } catch (error) {
       console.error('Error updating payment data:', error);
     }
   }, [user?.uid, investments]);
 
-  // Collect pending rental income
-  const collectRental = useCallback(async (): Promise<{ success: boolean, amountPaid: number }> => {
+  const collectRental = useCallback(async (): Promise<RentalCollectionResult> => {
     if (!user?.uid || paymentData.isCollecting) {
-      return { success: false, amountPaid: 0 };
+      return { success: false, amountPaid: 0, periodsPaid: 0 };
     }
 
     setPaymentData(prev => ({ ...prev, isCollecting: true }));
 
     try {
-      const result = await SimpleRentalProcessor.collectPendingRental(user.uid, investments);
-      
+      const result = await RentalIncomeService.collectRent(user.uid);
       if (result.success) {
-        // Refresh payment data after successful collection
         await updatePaymentData();
       }
-      
       return result;
-    } catch (error) {
-      console.error('Error collecting rental:', error);
-      return { success: false, amountPaid: 0 };
     } finally {
       setPaymentData(prev => ({ ...prev, isCollecting: false }));
     }
-  }, [user?.uid, investments, paymentData.isCollecting, updatePaymentData]);
+  }, [user?.uid, paymentData.isCollecting, updatePaymentData]);
 
-  // Auto-collect on login (if there's pending rental)
-  const autoCollectOnLogin = useCallback(async () => {
-    if (!user?.uid || investments.length === 0) return;
-
-    console.log('🔄 Checking for auto-collection on login...');
-    
-    const result = await SimpleRentalProcessor.calculatePendingRental(user.uid, investments);
-    
-    if (result.pendingAmount > 1.00) { // Auto-collect if more than $1
-      console.log(`💰 Auto-collecting $${result.pendingAmount.toFixed(2)} on login`);
-      await collectRental();
-    }
-  }, [user?.uid, investments, collectRental]);
-
-  // Update payment data when investments change
   useEffect(() => {
     updatePaymentData();
   }, [updatePaymentData]);
 
-  // Auto-collect on component mount (login)
+  // Accruing rent grows by the minute and payouts land at month boundaries
   useEffect(() => {
-    if (user?.uid && investments.length > 0) {
-      autoCollectOnLogin();
-    }
-  }, [user?.uid, investments.length]); // Only run when user or investment count changes
+    const interval = setInterval(updatePaymentData, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [updatePaymentData]);
 
   return {
     paymentData,
     collectRental,
     updatePaymentData,
-    canCollect: paymentData.pendingAmount > 0.01 && !paymentData.isCollecting
+    canCollect: paymentData.dueAmount > 0.01 && !paymentData.isCollecting
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { SavedSearchError, SavedSearchService, type SavedSearch } from '../services/savedSearchService';
+import type { PropertySearchCriteria } from '../types/property';
+
+interface SavedSearchesState {
+  searches: SavedSearch[]; // Newest first
+  loading: boolean;
+  error: string | null;
+}
+
+interface UseSavedSearchesReturn extends SavedSearchesState {
+  saveSearch: (name: string, criteria: PropertySearchCriteria, notifyOnMatch: boolean) => Promise<boolean>;
+  setNotifyOnMatch: (searchId: string, notifyOnMatch: boolean) => Promise<void>;
+  removeSearch: (searchId: string) => Promise<void>;
+}
+
+/**
+ * The signed-in user's saved property searches
+ */
+export function useSavedSearches(): UseSavedSearchesReturn {
+  const { user } = useAuth();
+  const [state, setState] = useState<SavedSearchesState>({
+    searches: [],
+    loading: false,
+    error: null
+  });
+
+  useEffect(() => {
+    if (!user?.uid) {
+      setState({ searches: [], loading: false, error: null });
+      return;
+    }
+
+    setState(prev => ({ ...prev, loading: true }));
+    return SavedSearchService.subscribe(user.uid, searches => {
+      setState(prev => ({ ...prev, searches, loading: false }));
+    });
+  }, [user?.uid]);
+
+  // True when saved; otherwise the reason is left in `error`
+  const saveSearch = useCallback(async (name: string, criteria: PropertySearchCriteria, notifyOnMatch: boolean) => {
+    if (!user?.uid) return false;
+    try {
+      setState(prev => ({ ...prev, error: null }));
+      await SavedSearchService.save(user.uid, name, criteria, notifyOnMatch);
+      return true;
+    } catch (error) {
+      console.error('Failed to save search:', error);
+      setState(prev => ({
+        ...prev,
+        error: error instanceof SavedSearchError ? error.message : 'Failed to save search'
+      }));
+      return false;
+    }
+  }, [user?.uid]);
+
+  const setNotifyOnMatch = useCallback(async (searchId: string, notifyOnMatch: boolean) => {
+    if (!user?.uid) return;
+    try {
+      await SavedSearchService.setNotifyOnMatch(user.uid, searchId, notifyOnMatch);
+    } catch (error) {
+      console.error('Failed to update saved search:', error);
+      setState(prev => ({ ...prev, error: 'Failed to update saved search' }));
+    }
+  }, [user?.uid]);
+
+  const removeSearch = useCallback(async (searchId: string) => {
+    if (!user?.uid) return;
+    try {
+      await SavedSearchService.remove(user.uid, searchId);
+    } catch (error) {
+      console.error('Failed to delete saved search:', error);
+      setState(prev => ({ ...prev, error: 'Failed to delete saved search' }));
+    }
+  }, [user?.uid]);
+
+  return {
+    ...state,
+    saveSearch,
+    setNotifyOnMatch,
+    removeSearch
+  };
+}
@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  SecondaryMarketService,
+  type MarketOrder,
+  type MarketTrade,
+  type OrderBookSnapshot,
+  type PlaceOrderInput,
+  type PlaceOrderResult
+} from '../services/secondaryMarketService';
+
+interface SecondaryMarketState {
+  orderBook: OrderBookSnapshot | null;
+  trades: MarketTrade[];
+  myOrders: MarketOrder[];
+  availableShares: number;
+  loading: boolean;
+  error: string | null;
+}
+
+interface UseSecondaryMarketReturn extends SecondaryMarketState {
+  placeOrder: (input: Omit<PlaceOrderInput, 'propertyId'>) => Promise<PlaceOrderResult>;
+  cancelOrder: (orderId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+export function useSecondaryMarket(propertyId: string | undefined): UseSecondaryMarketReturn {
+  const { user } = useAuth();
+  const [state, setState] = useState<SecondaryMarketState>({
+    orderBook: null,
+    trades: [],
+    myOrders: [],
+    availableShares: 0,
+    loading: true,
+    error: null
+  });
+
+  const loadMarket = useCallback(async () => {
+    if (!propertyId) return;
+
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+
+      if (user?.uid) {
+        await SecondaryMarketService.settlePendingTrades(user.uid);
+      }
+
+      const [openOrders, trades] = await Promise.all([
+        SecondaryMarketService.getOpenOrders(propertyId),
+        SecondaryMarketService.getRecentTrades(propertyId)
+      ]);
+      const myOrders = user?.uid ? await SecondaryMarketService.getUserOrders(user.uid, propertyId) : [];
+      const availableShares = user?.uid ? await SecondaryMarketService.getAvailableShares(user.uid, propertyId) : 0;
+
+      setState({
+        orderBook: SecondaryMarketService.buildOrderBook(openOrders, trades),
+        trades,
+        myOrders,
+        availableShares,
+        loading: false,
+        error: null
+      });
+    } catch (error) {
+      console.error('Failed to load order book:', error);
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: 'Failed to load order book'
+      }));
+    }
+  }, [propertyId, user?.uid]);
+
+  const placeOrder = useCallback(async (input: Omit<PlaceOrderInput, 'propertyId'>) => {
+    if (!user?.uid || !propertyId) {
+      throw new Error('Sign in to trade shares');
+    }
+
+    const result = await SecondaryMarketService.placeOrder(
+      user.uid,
+      user.displayName || user.email || 'Investor',
+      { ...input, propertyId }
+    );
+    await loadMarket();
+    return result;
+  }, [user, propertyId, loadMarket]);
+
+  const cancelOrder = useCallback(async (orderId: string) => {
+    if (!user?.uid) return;
+
+    await SecondaryMarketService.cancelOrder(user.uid, orderId);
+    await loadMarket();
+  }, [user?.uid, loadMarket]);
+
+  useEffect(() => {
+    loadMarket();
+  }, [loadMarket]);
+
+  return {
+    ...state,
+    placeOrder,
+    cancelOrder,
+    refresh: loadMarket
+  };
+}
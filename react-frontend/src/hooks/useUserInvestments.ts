@@ -1,9 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
-import { collection, getDocs, query, orderBy } from 'firebase/firestore';
-import { db } from '../firebase/config';
 import { useAuth } from '../contexts/AuthContext';
-import { RentalIncomeService } from '../services/rentalIncomeService';
-import { SimpleRentalProcessor } from '../services/simpleRentalProcessor';
+import { getRepositories } from '../repositories';
+import { getSimulationClock } from '../services/simulationClock';
+import { calculateAccruedRental, getRentalAccrualStart } from '../utils/rentalCalculations';
 
 interface Investment {
   id: string;
@@ -33,6 +32,9 @@ interface Investment {
   // Game mechanics timestamps
   rentalIncomeStartDate: Date;
   appreciationStartDate: Date;
+  
+  // Secondary market: rent accrued before the last share count change
+  rentalAccruedCarry?: number;
 }
 
 interface InvestmentWithCalculations extends Investment {
@@ -70,22 +72,12 @@ export const useUserInvestments = () => {
     if (!user?.uid) return 0;
     
     try {
-      const now = new Date();
-      const purchaseDate = new Date(investment.purchaseDate);
-      const realTimeElapsedMs = now.getTime() - purchaseDate.getTime();
+      // Accrue from the last share count change, carrying rent earned before it
+      const accrualStart = getRentalAccrualStart(investment);
       
       // Apply game time acceleration: 1 real hour = 2 game months
-      const TIME_MULTIPLIER = 1440;
-      const gameTimeElapsedMs = realTimeElapsedMs * TIME_MULTIPLIER;
-      const gameMonthsElapsed = gameTimeElapsedMs / (1000 * 60 * 60 * 24 * 30.44);
-      
-      if (gameMonthsElapsed <= 0) return 0;
-      
-      // Calculate rental income
-      const annualPropertyRental = investment.propertyTotalPrice * investment.rentalYield;
-      const userAnnualRental = (annualPropertyRental * investment.sharesOwned) / 100;
-      const userMonthlyRental = userAnnualRental / 12;
-      const totalRentalEarned = userMonthlyRental * gameMonthsElapsed;
+      const gameMonthsElapsed = getSimulationClock().gameMonthsSince(accrualStart);
+      const totalRentalEarned = calculateAccruedRental(investment, gameMonthsElapsed);
       
       console.log(`💰 Calculated rental for ${investment.propertyAddress}: $${totalRentalEarned.toFixed(2)} (${gameMonthsElapsed.toFixed(2)} months)`);
       
@@ -98,14 +90,10 @@ export const useUserInvestments = () => {
 
   // Calculate property appreciation since purchase
   const calculateAppreciation = useCallback((investment: Investment): number => {
-    const now = new Date();
     const purchaseDate = new Date(investment.purchaseDate);
-    const realTimeElapsedMs = now.getTime() - purchaseDate.getTime();
     
     // Apply game time acceleration: 1 real hour = 2 game months
-    const TIME_MULTIPLIER = 1440; // Same as useGameTime
-    const gameTimeElapsedMs = realTimeElapsedMs * TIME_MULTIPLIER;
-    const gameMonthsElapsed = gameTimeElapsedMs / (1000 * 60 * 60 * 24 * 30.44);
+    const gameMonthsElapsed = getSimulationClock().gameMonthsSince(purchaseDate);
     
     if (gameMonthsElapsed <= 0) return 0;
     
@@ -144,28 +132,12 @@ export const useUserInvestments = () => {
         isAnonymous: user.isAnonymous 
       });
       
-      // Test Firestore connection
-      console.log('🔗 Testing Firestore connection...');
-      const investmentsRef = collection(db, `users/${user.uid}/investments`);
-      console.log('📂 Collection reference created:', investmentsRef.path);
-      
-      const q = query(investmentsRef, orderBy('purchaseDate', 'desc'));
-      console.log('🔍 Query created, attempting to fetch documents...');
-      const snapshot = await getDocs(q);
-      console.log('📄 Documents fetched, count:', snapshot.size);
+      console.log(`🗄️ Loading investments from ${getRepositories().backend} backend...`);
+      const records = await getRepositories().investments.listByUser(user.uid);
+      console.log('📄 Documents fetched, count:', records.length);
 
-      const rawInvestments: Investment[] = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          ...data,
-          // Convert Firestore timestamps to Date objects
-          purchaseDate: data.purchaseDate?.toDate ? data.purchaseDate.toDate() : new Date(data.purchaseDate),
-          lastUpdated: data.lastUpdated?.toDate ? data.lastUpdated.toDate() : new Date(data.lastUpdated),
-          rentalIncomeStartDate: data.rentalIncomeStartDate?.toDate ? data.rentalIncomeStartDate.toDate() : new Date(data.rentalIncomeStartDate),
-          appreciationStartDate: data.appreciationStartDate?.toDate ? data.appreciationStartDate.toDate() : new Date(data.appreciationStartDate),
-        } as Investment;
-      });
+      // Newest purchase first
+      const rawInvestments = [...records].reverse() as Investment[];
 
       console.log(`📊 Found ${rawInvestments.length} investments:`, rawInvestments);
       
@@ -209,14 +181,10 @@ export const useUserInvestments = () => {
         const appreciationAmount = calculateAppreciation(investment);
         
         // Calculate current property value with appreciation
-        const now = new Date();
         const purchaseDate = new Date(investment.purchaseDate);
-        const realTimeElapsedMs = now.getTime() - purchaseDate.getTime();
         
         // Apply game time acceleration: 1 real hour = 2 game months
-        const TIME_MULTIPLIER = 1440; // Same as useGameTime
-        const gameTimeElapsedMs = realTimeElapsedMs * TIME_MULTIPLIER;
-        const gameMonthsElapsed = gameTimeElapsedMs / (1000 * 60 * 60 * 24 * 30.44);
+        const gameMonthsElapsed = getSimulationClock().gameMonthsSince(purchaseDate);
         
         const annualAppreciationRate = investment.propertyClass === 'A' ? 0.05 : 
                                       investment.propertyClass === 'B' ? 0.04 : 0.03;
@@ -272,7 +240,7 @@ export const useUserInvestments = () => {
         const totalRentalEarned = enhancedInvestments.reduce((sum, inv) => sum + inv.totalRentalEarned, 0);
 
         setPortfolioSummary({
-          totalProperties: enhancedInvestments.length,
+          totalProperties: enhancedInvestments.filter(inv => inv.sharesOwned > 0).length, // Sold-out lots stay for their rent history
           totalInvested: totalInvestedETH,
           totalInvestedUSD,
           currentValue: totalInvestedETH, // TODO: Convert current USD back to ETH
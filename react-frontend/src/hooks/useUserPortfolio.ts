@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { EscrowService, type EscrowProcess } from '../services/escrowService';
+import { EscrowStateMachine } from '../services/escrowStateMachine';
 import { RentalIncomeService, type UserInvestment } from '../services/rentalIncomeService';
 import { PropertyAppreciationService } from '../services/propertyAppreciationService';
 
@@ -62,9 +63,8 @@ export const useUserPortfolio = (userId: string) => {
       const rentalReturn = totalInvestments > 0 ? (totalRentalEarned / totalInvestments) * 100 : 0;
       const appreciationReturn = totalAppreciationPercent;
       
-      const activeEscrows = escrowProcesses.filter(p => 
-        ['pending', 'inspection', 'lender_approval', 'approved'].includes(p.status)
-      ).length;
+      const activeEscrowProcesses = escrowProcesses.filter(p => !EscrowStateMachine.isTerminal(p.status));
+      const activeEscrows = activeEscrowProcesses.length;
 
       const portfolioSummary: PortfolioSummary = {
         totalInvestments,
@@ -80,9 +80,7 @@ export const useUserPortfolio = (userId: string) => {
         appreciationReturn,
         activeEscrows,
         completedInvestments: investments,
-        activeEscrowProcesses: escrowProcesses.filter(p => 
-          ['pending', 'inspection', 'lender_approval', 'approved'].includes(p.status)
-        ),
+        activeEscrowProcesses,
       };
 
       setPortfolio(portfolioSummary);
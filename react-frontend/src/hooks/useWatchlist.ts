@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Property, WatchlistItem } from '../types/property';
+import { Property, type WatchlistAlerts, WatchlistItem } from '../types/property';
 import { watchlistService } from '../services/firebaseService';
+import { WatchlistAlertService } from '../services/watchlistAlertService';
 
 interface WatchlistState {
   items: WatchlistItem[];
@@ -15,6 +16,7 @@ interface UseWatchlistReturn extends WatchlistState {
   toggleWatchlist: (property: Property) => Promise<void>;
   isInWatchlist: (propertyId: string) => boolean;
   clearWatchlist: () => Promise<void>;
+  setAlerts: (propertyId: string, alerts: WatchlistAlerts) => Promise<void>;
   refreshWatchlist: () => Promise<void>;
   getWatchlistCount: () => number;
 }
@@ -159,6 +161,19 @@ export function useWatchlist(userId = 'default-user'): UseWatchlistReturn {
     }
   }, [userId, state.items]);
 
+  // Replace the alert rules on a watched property
+  const setAlerts = useCallback(async (propertyId: string, alerts: WatchlistAlerts) => {
+    const item = state.items.find(watched => watched.propertyId === propertyId);
+    if (!item) return;
+
+    try {
+      await WatchlistAlertService.setAlerts(userId, item, alerts);
+    } catch (error) {
+      console.error('Failed to save watchlist alerts:', error);
+      setState(prev => ({ ...prev, error: 'Failed to save alerts' }));
+    }
+  }, [userId, state.items]);
+
   // Refresh watchlist
   const refreshWatchlist = useCallback(async () => {
     await loadWatchlist();
@@ -199,6 +214,7 @@ export function useWatchlist(userId = 'default-user'): UseWatchlistReturn {
     toggleWatchlist,
     isInWatchlist,
     clearWatchlist,
+    setAlerts,
     refreshWatchlist,
     getWatchlistCount
   };
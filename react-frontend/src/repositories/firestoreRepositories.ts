@@ -0,0 +1,1079 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  runTransaction,
+  writeBatch,
+  serverTimestamp,
+  Timestamp,
+  type DocumentData,
+  type QueryConstraint
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import type { Property, WatchlistItem } from '../types/property';
+import type { EscrowProcess } from '../services/escrowService';
+import type { EscrowStep, EscrowTransition } from '../services/escrowStateMachine';
+import type { ChainIndexCursor, IndexedChainEvent } from '../services/contractEventIndexer';
+import type { PriceQuote } from '../services/priceOracleService';
+import type { MarketIndexId, MarketIndexPoint } from '../services/marketModelService';
+import type { PriceProviderId } from '../config/priceOracleConfig';
+import type { RentalPayment } from '../services/rentalIncomeService';
+import type { Loan } from '../services/loanService';
+import type { PropertyDisposition } from '../services/dispositionService';
+import type { Proposal, ProposalStatus, ProposalVote } from '../services/governanceService';
+import type { RenovationProject, RenovationStatus } from '../services/renovationService';
+import type { AppNotification } from '../services/notificationService';
+import type { SavedSearch } from '../services/savedSearchService';
+import type { UserWallet } from '../services/userScopedWalletService';
+import type { LedgerEntry } from '../services/walletLedgerService';
+import type { MarketOrder, MarketTrade, OrderStatus } from '../services/secondaryMarketService';
+import type { MockInvestor } from '../services/mockInvestorService';
+import type {
+  AppreciationRepository,
+  ChainEventRepository,
+  DispositionRepository,
+  EscrowRepository,
+  GameTimeRecord,
+  GameTimeRepository,
+  GovernanceRepository,
+  InvestmentRecord,
+  InvestmentRepository,
+  LedgerAppend,
+  LoanRepository,
+  MarketOrderChanges,
+  MarketOrderExecution,
+  MarketRepository,
+  MockInvestorRepository,
+  NotificationRepository,
+  PropertyChanges,
+  PropertyQuery,
+  PropertyRepository,
+  MarketIndexRepository,
+  PriceHistoryRepository,
+  PropertyValuation,
+  PropertyValuationChanges,
+  PurchaseTransactionRecord,
+  RentalCollectionRecord,
+  RenovationRepository,
+  RentalPaymentRepository,
+  Repositories,
+  SavedSearchRepository,
+  Unsubscribe,
+  UserProfileRecord,
+  UserProfileRepository,
+  WalletChanges,
+  WalletRepository,
+  WatchlistRepository
+} from './types';
+
+// Convert the named Timestamp fields of a document to Dates
+function withDates<T>(data: DocumentData, fields: string[]): T {
+  const converted: DocumentData = { ...data };
+  fields.forEach(field => {
+    const value = converted[field];
+    if (value instanceof Timestamp) {
+      converted[field] = value.toDate();
+    }
+  });
+  return converted as T;
+}
+
+const INVESTMENT_DATE_FIELDS = ['purchaseDate', 'lastUpdated', 'rentalIncomeStartDate', 'appreciationStartDate'];
+const TRANSACTION_DATE_FIELDS = ['purchaseDate', 'completedAt'];
+const LOAN_DATE_FIELDS = ['originatedAt', 'closedAt', 'refinancedAt'];
+const DISPOSITION_DATE_FIELDS = ['fundedAt', 'disposedAt'];
+const PROPOSAL_DATE_FIELDS = ['createdAt', 'votingEndsAt', 'resolvedAt'];
+const RENOVATION_DATE_FIELDS = ['startedAt', 'completesAt', 'completedAt'];
+const NOTIFICATION_DATE_FIELDS = ['createdAt', 'gameTime'];
+const GAME_TIME_DATE_FIELDS = ['currentGameTime', 'lastRealTime', 'gameStartTime'];
+const ORDER_DATE_FIELDS = ['createdAt', 'gameTime'];
+const TRADE_DATE_FIELDS = ['executedAt', 'gameTime'];
+const USER_PROFILE_DATE_FIELDS = ['walletLinkedAt', 'createdAt', 'lastLoginAt', 'gameStartTime', 'lastActiveAt', 'updatedAt', 'resetAt'];
+
+// Firestore rejects undefined fields
+function withoutUndefined(data: object): DocumentData {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+}
+
+class FirestorePropertyRepository implements PropertyRepository {
+  private readonly collectionPath: string;
+
+  constructor(collectionPath: string) {
+    this.collectionPath = collectionPath;
+  }
+
+  private constraints(propertyQuery: PropertyQuery = {}): QueryConstraint[] {
+    const { filters, sort } = propertyQuery;
+    const constraints: QueryConstraint[] = [];
+
+    if (filters) {
+      if (filters.class && filters.class.length > 0) {
+        constraints.push(where('class', 'in', filters.class));
+      }
+      if (filters.status && filters.status.length > 0) {
+        constraints.push(where('status', 'in', filters.status));
+      }
+      if (filters.region && filters.region.length > 0) {
+        constraints.push(where('region', 'in', filters.region));
+      }
+      if (filters.priceRange) {
+        if (filters.priceRange.min > 0) {
+          constraints.push(where('price', '>=', filters.priceRange.min));
+        }
+        if (filters.priceRange.max > 0) {
+          constraints.push(where('price', '<=', filters.priceRange.max));
+        }
+      }
+    }
+
+    constraints.push(sort ? orderBy(sort.field, sort.direction) : orderBy('createdAt', 'desc'));
+
+    if (propertyQuery.limit) {
+      constraints.push(limit(propertyQuery.limit));
+    }
+
+    return constraints;
+  }
+
+  async get(propertyId: string): Promise<Property | null> {
+    const snapshot = await getDoc(doc(db, this.collectionPath, propertyId));
+    return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as Property) : null;
+  }
+
+  async list(propertyQuery?: PropertyQuery): Promise<Property[]> {
+    // Unfiltered, unsorted listing skips orderBy so documents missing createdAt are included
+    const q = propertyQuery
+      ? query(collection(db, this.collectionPath), ...this.constraints(propertyQuery))
+      : collection(db, this.collectionPath);
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(propertyDoc => ({ id: propertyDoc.id, ...propertyDoc.data() }) as Property);
+  }
+
+  subscribe(callback: (properties: Property[]) => void, propertyQuery?: PropertyQuery): Unsubscribe {
+    const q = query(collection(db, this.collectionPath), ...this.constraints(propertyQuery));
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs.map(propertyDoc => ({ id: propertyDoc.id, ...propertyDoc.data() }) as Property));
+    }, (error) => {
+      console.error('Error in properties subscription:', error);
+    });
+  }
+
+  async create(property: Omit<Property, 'id'>): Promise<string> {
+    const docRef = await addDoc(collection(db, this.collectionPath), {
+      ...property,
+      createdAt: serverTimestamp(),
+    });
+    return docRef.id;
+  }
+
+  async createMany(properties: Omit<Property, 'id'>[]): Promise<string[]> {
+    const batch = writeBatch(db);
+    const propertyIds: string[] = [];
+
+    properties.forEach(property => {
+      const docRef = doc(collection(db, this.collectionPath));
+      propertyIds.push(docRef.id);
+      batch.set(docRef, { ...property, createdAt: serverTimestamp() });
+    });
+
+    await batch.commit();
+    return propertyIds;
+  }
+
+  async update(propertyId: string, changes: PropertyChanges): Promise<void> {
+    await updateDoc(doc(db, this.collectionPath, propertyId), {
+      ...changes,
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  async updateMany(updates: { id: string; changes: PropertyChanges }[]): Promise<void> {
+    const batch = writeBatch(db);
+    updates.forEach(({ id, changes }) => {
+      batch.update(doc(db, this.collectionPath, id), { ...changes, updatedAt: serverTimestamp() });
+    });
+    await batch.commit();
+  }
+
+  async delete(propertyId: string): Promise<void> {
+    await deleteDoc(doc(db, this.collectionPath, propertyId));
+  }
+}
+
+class FirestoreInvestmentRepository implements InvestmentRepository {
+  async listByUser(userId: string): Promise<InvestmentRecord[]> {
+    // Sorted client-side so lots missing purchaseDate are not dropped by orderBy
+    const snapshot = await getDocs(collection(db, `users/${userId}/investments`));
+    return snapshot.docs
+      .map(investmentDoc =>
+        withDates<InvestmentRecord>({ ...investmentDoc.data(), id: investmentDoc.id }, INVESTMENT_DATE_FIELDS)
+      )
+      .sort((a, b) => new Date(a.purchaseDate).getTime() - new Date(b.purchaseDate).getTime());
+  }
+
+  async get(userId: string, investmentId: string): Promise<InvestmentRecord | null> {
+    const snapshot = await getDoc(doc(db, `users/${userId}/investments`, investmentId));
+    return snapshot.exists()
+      ? withDates<InvestmentRecord>({ ...snapshot.data(), id: snapshot.id }, INVESTMENT_DATE_FIELDS)
+      : null;
+  }
+
+  async add(userId: string, investment: Omit<InvestmentRecord, 'id'>): Promise<string> {
+    // User-scoped collection is the source of truth (has proper permissions)
+    const docRef = await addDoc(collection(db, `users/${userId}/investments`), investment);
+
+    // Mirror into the global collection for easier querying
+    try {
+      await addDoc(collection(db, 'investments'), investment);
+    } catch (error) {
+      console.warn('Failed to store in global investments collection:', error);
+    }
+
+    return docRef.id;
+  }
+
+  async update(userId: string, investmentId: string, changes: Partial<Omit<InvestmentRecord, 'id'>>): Promise<void> {
+    await updateDoc(doc(db, `users/${userId}/investments`, investmentId), changes);
+  }
+
+  async addTransaction(userId: string, transaction: Omit<PurchaseTransactionRecord, 'id'>): Promise<string> {
+    const docRef = await addDoc(collection(db, `users/${userId}/transactions`), transaction);
+
+    try {
+      await setDoc(doc(db, 'transactions', docRef.id), transaction);
+    } catch (error) {
+      console.warn('Failed to store in global transactions collection:', error);
+    }
+
+    return docRef.id;
+  }
+
+  async updateTransaction(
+    userId: string,
+    transactionId: string,
+    changes: Partial<Omit<PurchaseTransactionRecord, 'id'>>
+  ): Promise<void> {
+    await updateDoc(doc(db, `users/${userId}/transactions`, transactionId), changes);
+
+    try {
+      await updateDoc(doc(db, 'transactions', transactionId), changes);
+    } catch (error) {
+      console.warn('Failed to update global transactions collection:', error);
+    }
+  }
+
+  async listTransactions(userId: string): Promise<PurchaseTransactionRecord[]> {
+    const snapshot = await getDocs(collection(db, `users/${userId}/transactions`));
+    return snapshot.docs
+      .map(transactionDoc =>
+        withDates<PurchaseTransactionRecord>({ ...transactionDoc.data(), id: transactionDoc.id }, TRANSACTION_DATE_FIELDS)
+      )
+      .sort((a, b) => b.purchaseDate.getTime() - a.purchaseDate.getTime());
+  }
+}
+
+class FirestoreEscrowRepository implements EscrowRepository {
+  private toEscrow(id: string, data: DocumentData): EscrowProcess {
+    return {
+      ...withDates<EscrowProcess>(data, ['createdAt', 'estimatedCompletionTime', 'actualCompletionTime']),
+      id,
+      steps: (data.steps || []).map((step: DocumentData) =>
+        withDates<EscrowStep>(step, ['startTime', 'dueAt', 'deadline', 'completionTime'])
+      ),
+      history: (data.history || []).map((transition: DocumentData) =>
+        withDates<EscrowTransition>(transition, ['at'])
+      ),
+    };
+  }
+
+  async create(escrow: Omit<EscrowProcess, 'id'>): Promise<string> {
+    const docRef = await addDoc(collection(db, 'escrowProcesses'), escrow);
+    return docRef.id;
+  }
+
+  async get(escrowId: string): Promise<EscrowProcess | null> {
+    const snapshot = await getDoc(doc(db, 'escrowProcesses', escrowId));
+    return snapshot.exists() ? this.toEscrow(snapshot.id, snapshot.data()) : null;
+  }
+
+  async update(escrowId: string, changes: Record<string, unknown>): Promise<void> {
+    await updateDoc(doc(db, 'escrowProcesses', escrowId), changes as DocumentData);
+  }
+
+  async listByUser(userId: string): Promise<EscrowProcess[]> {
+    const snapshot = await getDocs(query(collection(db, 'escrowProcesses'), where('userId', '==', userId)));
+    return snapshot.docs.map(escrowDoc => this.toEscrow(escrowDoc.id, escrowDoc.data()));
+  }
+
+  async listAll(): Promise<EscrowProcess[]> {
+    const snapshot = await getDocs(collection(db, 'escrowProcesses'));
+    return snapshot.docs.map(escrowDoc => this.toEscrow(escrowDoc.id, escrowDoc.data()));
+  }
+}
+
+class FirestoreWalletRepository implements WalletRepository {
+  private walletRef(userId: string) {
+    return doc(db, `users/${userId}/wallet`, 'simulation');
+  }
+
+  private ledgerCollection(userId: string) {
+    return collection(db, `users/${userId}/ledger`);
+  }
+
+  async get(userId: string): Promise<UserWallet | null> {
+    const snapshot = await getDoc(this.walletRef(userId));
+    return snapshot.exists() ? ({ ...snapshot.data(), userId } as UserWallet) : null;
+  }
+
+  async create(userId: string, wallet: Omit<UserWallet, 'userId' | 'createdAt' | 'lastUpdated'>): Promise<void> {
+    await setDoc(this.walletRef(userId), {
+      ...wallet,
+      userId,
+      createdAt: serverTimestamp(),
+      lastUpdated: serverTimestamp(),
+    });
+  }
+
+  async update(userId: string, changes: WalletChanges): Promise<void> {
+    await updateDoc(this.walletRef(userId), {
+      ...changes,
+      lastUpdated: serverTimestamp(),
+    });
+  }
+
+  async appendLedgerEntries(
+    userId: string,
+    idempotencyKey: string | undefined,
+    build: (wallet: UserWallet) => LedgerAppend
+  ): Promise<{ entry: LedgerEntry; duplicate: boolean }> {
+    const walletRef = this.walletRef(userId);
+    const ledgerCollection = this.ledgerCollection(userId);
+    const keyedRef = idempotencyKey ? doc(ledgerCollection, idempotencyKey) : null;
+
+    return runTransaction(db, async (transaction) => {
+      const walletSnapshot = await transaction.get(walletRef);
+      if (!walletSnapshot.exists()) {
+        throw new Error('User wallet not found');
+      }
+
+      if (keyedRef) {
+        const existing = await transaction.get(keyedRef);
+        if (existing.exists()) {
+          return { entry: { ...existing.data(), id: existing.id } as LedgerEntry, duplicate: true };
+        }
+      }
+
+      const { entries, walletChanges } = build({ ...walletSnapshot.data(), userId } as UserWallet);
+      let lastEntry: LedgerEntry | null = null;
+
+      entries.forEach((entry, index) => {
+        const isLast = index === entries.length - 1;
+        const entryRef = isLast && keyedRef ? keyedRef : doc(ledgerCollection);
+        transaction.set(entryRef, { ...entry, createdAt: serverTimestamp() });
+        lastEntry = { ...entry, id: entryRef.id, createdAt: Timestamp.now() };
+      });
+
+      if (!lastEntry) {
+        throw new Error('A ledger append needs at least one entry');
+      }
+
+      transaction.update(walletRef, { ...walletChanges, lastUpdated: serverTimestamp() });
+      return { entry: lastEntry, duplicate: false };
+    });
+  }
+
+  async listLedgerEntries(userId: string): Promise<LedgerEntry[]> {
+    const snapshot = await getDocs(query(this.ledgerCollection(userId), orderBy('sequence', 'asc')));
+    return snapshot.docs.map(entryDoc =>
+      withDates<LedgerEntry>({ ...entryDoc.data(), id: entryDoc.id }, ['gameTime'])
+    );
+  }
+}
+
+// Payout records are keyed by property, user and game month so each period is paid once
+class FirestoreRentalPaymentRepository implements RentalPaymentRepository {
+  async listByUser(userId: string): Promise<RentalPayment[]> {
+    const snapshot = await getDocs(query(collection(db, 'rentalIncome'), where('userId', '==', userId)));
+    return snapshot.docs.map(paymentDoc =>
+      withDates<RentalPayment>({ ...paymentDoc.data(), id: paymentDoc.id }, ['gameDate', 'realDate'])
+    );
+  }
+
+  async claim(periodKey: string, payment: Omit<RentalPayment, 'id'>): Promise<boolean> {
+    const paymentRef = doc(db, 'rentalIncome', periodKey);
+    return runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(paymentRef);
+      if (existing.exists()) return false;
+      transaction.set(paymentRef, payment);
+      return true;
+    });
+  }
+
+  async getCollectionRecord(userId: string): Promise<RentalCollectionRecord | null> {
+    const snapshot = await getDoc(doc(db, `users/${userId}/rentalCollections`, 'hourlyRecord'));
+    return snapshot.exists()
+      ? withDates<RentalCollectionRecord>(snapshot.data(), ['lastCollectionTime', 'lastUpdated'])
+      : null;
+  }
+
+  async saveCollectionRecord(userId: string, record: Partial<RentalCollectionRecord>): Promise<void> {
+    await setDoc(doc(db, `users/${userId}/rentalCollections`, 'hourlyRecord'), { ...record, userId }, { merge: true });
+  }
+}
+
+class FirestoreLoanRepository implements LoanRepository {
+  async listByUser(userId: string): Promise<Loan[]> {
+    const snapshot = await getDocs(query(collection(db, `users/${userId}/loans`), orderBy('originatedAt', 'asc')));
+    return snapshot.docs.map(loanDoc => withDates<Loan>({ ...loanDoc.data(), id: loanDoc.id }, LOAN_DATE_FIELDS));
+  }
+
+  async get(userId: string, loanId: string): Promise<Loan | null> {
+    const snapshot = await getDoc(doc(db, `users/${userId}/loans`, loanId));
+    return snapshot.exists() ? withDates<Loan>({ ...snapshot.data(), id: snapshot.id }, LOAN_DATE_FIELDS) : null;
+  }
+
+  async add(userId: string, loan: Omit<Loan, 'id'>): Promise<string> {
+    const docRef = await addDoc(collection(db, `users/${userId}/loans`), { ...loan, userId });
+    return docRef.id;
+  }
+
+  async update(userId: string, loanId: string, changes: Partial<Omit<Loan, 'id'>>): Promise<void> {
+    await updateDoc(doc(db, `users/${userId}/loans`, loanId), changes);
+  }
+}
+
+// Exit sales are keyed by property so a property is only ever sold once
+class FirestoreDispositionRepository implements DispositionRepository {
+  async get(propertyId: string): Promise<PropertyDisposition | null> {
+    const snapshot = await getDoc(doc(db, 'dispositions', propertyId));
+    return snapshot.exists() ? withDates<PropertyDisposition>(snapshot.data(), DISPOSITION_DATE_FIELDS) : null;
+  }
+
+  async claim(propertyId: string, disposition: PropertyDisposition): Promise<boolean> {
+    const dispositionRef = doc(db, 'dispositions', propertyId);
+    return runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(dispositionRef);
+      if (existing.exists()) return false;
+      transaction.set(dispositionRef, disposition);
+      return true;
+    });
+  }
+}
+
+// Votes are keyed by voter so each holder votes once per proposal
+class FirestoreGovernanceRepository implements GovernanceRepository {
+  async listByProperty(propertyId: string): Promise<Proposal[]> {
+    const snapshot = await getDocs(query(collection(db, 'proposals'), where('propertyId', '==', propertyId)));
+    return snapshot.docs
+      .map(proposalDoc => withDates<Proposal>({ ...proposalDoc.data(), id: proposalDoc.id }, PROPOSAL_DATE_FIELDS))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async listByStatus(status: ProposalStatus): Promise<Proposal[]> {
+    const snapshot = await getDocs(query(collection(db, 'proposals'), where('status', '==', status)));
+    return snapshot.docs.map(proposalDoc =>
+      withDates<Proposal>({ ...proposalDoc.data(), id: proposalDoc.id }, PROPOSAL_DATE_FIELDS)
+    );
+  }
+
+  async get(proposalId: string): Promise<Proposal | null> {
+    const snapshot = await getDoc(doc(db, 'proposals', proposalId));
+    return snapshot.exists() ? withDates<Proposal>({ ...snapshot.data(), id: snapshot.id }, PROPOSAL_DATE_FIELDS) : null;
+  }
+
+  async add(proposal: Omit<Proposal, 'id'>): Promise<string> {
+    const docRef = await addDoc(collection(db, 'proposals'), proposal);
+    return docRef.id;
+  }
+
+  async transition(proposalId: string, from: ProposalStatus, changes: Partial<Omit<Proposal, 'id'>>): Promise<boolean> {
+    const proposalRef = doc(db, 'proposals', proposalId);
+    return runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(proposalRef);
+      if (!existing.exists() || existing.data().status !== from) return false;
+      transaction.update(proposalRef, changes);
+      return true;
+    });
+  }
+
+  async listVotes(proposalId: string): Promise<ProposalVote[]> {
+    const snapshot = await getDocs(query(collection(db, `proposals/${proposalId}/votes`), orderBy('castAt', 'asc')));
+    return snapshot.docs.map(voteDoc => withDates<ProposalVote>(voteDoc.data(), ['castAt']));
+  }
+
+  async castVote(proposalId: string, vote: ProposalVote): Promise<boolean> {
+    const voteRef = doc(db, `proposals/${proposalId}/votes`, vote.voterId);
+    return runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(voteRef);
+      if (existing.exists()) return false;
+      transaction.set(voteRef, vote);
+      return true;
+    });
+  }
+}
+
+// Projects are keyed by the proposal that approved them, so a vote starts at most one
+class FirestoreRenovationRepository implements RenovationRepository {
+  async listByProperty(propertyId: string): Promise<RenovationProject[]> {
+    const snapshot = await getDocs(query(collection(db, 'renovations'), where('propertyId', '==', propertyId)));
+    return snapshot.docs
+      .map(projectDoc => withDates<RenovationProject>({ ...projectDoc.data(), id: projectDoc.id }, RENOVATION_DATE_FIELDS))
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  async listByStatus(status: RenovationStatus): Promise<RenovationProject[]> {
+    const snapshot = await getDocs(query(collection(db, 'renovations'), where('status', '==', status)));
+    return snapshot.docs.map(projectDoc =>
+      withDates<RenovationProject>({ ...projectDoc.data(), id: projectDoc.id }, RENOVATION_DATE_FIELDS)
+    );
+  }
+
+  async get(projectId: string): Promise<RenovationProject | null> {
+    const snapshot = await getDoc(doc(db, 'renovations', projectId));
+    return snapshot.exists() ? withDates<RenovationProject>({ ...snapshot.data(), id: snapshot.id }, RENOVATION_DATE_FIELDS) : null;
+  }
+
+  async claim(projectId: string, project: Omit<RenovationProject, 'id'>): Promise<boolean> {
+    const projectRef = doc(db, 'renovations', projectId);
+    return runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(projectRef);
+      if (existing.exists()) return false;
+      transaction.set(projectRef, project);
+      return true;
+    });
+  }
+
+  async transition(projectId: string, from: RenovationStatus, changes: Partial<Omit<RenovationProject, 'id'>>): Promise<boolean> {
+    const projectRef = doc(db, 'renovations', projectId);
+    return runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(projectRef);
+      if (!existing.exists() || existing.data().status !== from) return false;
+      transaction.update(projectRef, changes);
+      return true;
+    });
+  }
+}
+
+// Watchlists live under the user so firestore.rules can scope them to their owner
+class FirestoreWatchlistRepository implements WatchlistRepository {
+  private watchlistCollection(userId: string) {
+    return collection(db, `users/${userId}/watchlist`);
+  }
+
+  async list(userId: string): Promise<WatchlistItem[]> {
+    const snapshot = await getDocs(query(this.watchlistCollection(userId), orderBy('addedDate', 'desc')));
+    return snapshot.docs.map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() }) as WatchlistItem);
+  }
+
+  async find(userId: string, propertyId: string): Promise<WatchlistItem | null> {
+    const snapshot = await getDocs(query(this.watchlistCollection(userId), where('propertyId', '==', propertyId)));
+    if (snapshot.empty) return null;
+    const itemDoc = snapshot.docs[0];
+    return { id: itemDoc.id, ...itemDoc.data() } as WatchlistItem;
+  }
+
+  async add(userId: string, propertyId: string): Promise<string> {
+    const docRef = await addDoc(this.watchlistCollection(userId), {
+      userId,
+      propertyId,
+      addedDate: serverTimestamp(),
+    });
+    return docRef.id;
+  }
+
+  async remove(userId: string, itemId: string): Promise<void> {
+    await deleteDoc(doc(this.watchlistCollection(userId), itemId));
+  }
+
+  async update(userId: string, itemId: string, changes: Partial<Pick<WatchlistItem, 'alerts' | 'alertState'>>): Promise<void> {
+    await updateDoc(doc(this.watchlistCollection(userId), itemId), changes);
+  }
+
+  subscribe(userId: string, callback: (items: WatchlistItem[]) => void): Unsubscribe {
+    const q = query(this.watchlistCollection(userId), orderBy('addedDate', 'desc'));
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs.map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() }) as WatchlistItem));
+    }, (error) => {
+      console.error('Error in watchlist subscription:', error);
+    });
+  }
+}
+
+// Saved searches live under the user so firestore.rules can scope them to their owner
+class FirestoreSavedSearchRepository implements SavedSearchRepository {
+  private searchCollection(userId: string) {
+    return collection(db, `users/${userId}/savedSearches`);
+  }
+
+  async list(userId: string): Promise<SavedSearch[]> {
+    const snapshot = await getDocs(query(this.searchCollection(userId), orderBy('createdAt', 'desc')));
+    return snapshot.docs.map(searchDoc => withDates<SavedSearch>({ ...searchDoc.data(), id: searchDoc.id }, ['createdAt']));
+  }
+
+  async create(userId: string, search: Omit<SavedSearch, 'id'>): Promise<string> {
+    const docRef = await addDoc(this.searchCollection(userId), search);
+    return docRef.id;
+  }
+
+  async update(userId: string, searchId: string, changes: Partial<Pick<SavedSearch, 'name' | 'criteria' | 'notifyOnMatch'>>): Promise<void> {
+    await updateDoc(doc(this.searchCollection(userId), searchId), changes);
+  }
+
+  async remove(userId: string, searchId: string): Promise<void> {
+    await deleteDoc(doc(this.searchCollection(userId), searchId));
+  }
+
+  subscribe(userId: string, callback: (searches: SavedSearch[]) => void): Unsubscribe {
+    const q = query(this.searchCollection(userId), orderBy('createdAt', 'desc'));
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs.map(searchDoc => withDates<SavedSearch>({ ...searchDoc.data(), id: searchDoc.id }, ['createdAt'])));
+    }, (error) => {
+      console.error('Error in saved search subscription:', error);
+    });
+  }
+}
+
+// Notifications are keyed by what triggered them, so an alert seen by two tabs is saved once
+class FirestoreNotificationRepository implements NotificationRepository {
+  private notificationCollection(userId: string) {
+    return collection(db, `users/${userId}/notifications`);
+  }
+
+  async list(userId: string): Promise<AppNotification[]> {
+    const snapshot = await getDocs(query(this.notificationCollection(userId), orderBy('createdAt', 'desc')));
+    return snapshot.docs.map(notificationDoc =>
+      withDates<AppNotification>({ ...notificationDoc.data(), id: notificationDoc.id }, NOTIFICATION_DATE_FIELDS)
+    );
+  }
+
+  async claim(userId: string, key: string, notification: Omit<AppNotification, 'id'>): Promise<boolean> {
+    const notificationRef = doc(this.notificationCollection(userId), key);
+    return runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(notificationRef);
+      if (existing.exists()) return false;
+      transaction.set(notificationRef, notification);
+      return true;
+    });
+  }
+
+  async markRead(userId: string, notificationIds: string[]): Promise<void> {
+    for (let i = 0; i < notificationIds.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      notificationIds.slice(i, i + BATCH_LIMIT).forEach(notificationId => {
+        batch.update(doc(this.notificationCollection(userId), notificationId), { read: true });
+      });
+      await batch.commit();
+    }
+  }
+
+  subscribe(userId: string, callback: (notifications: AppNotification[]) => void): Unsubscribe {
+    const q = query(this.notificationCollection(userId), orderBy('createdAt', 'desc'));
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs.map(notificationDoc =>
+        withDates<AppNotification>({ ...notificationDoc.data(), id: notificationDoc.id }, NOTIFICATION_DATE_FIELDS)
+      ));
+    }, (error) => {
+      console.error('Error in notification subscription:', error);
+    });
+  }
+}
+
+class FirestoreGameTimeRepository implements GameTimeRepository {
+  async get(userId: string): Promise<GameTimeRecord | null> {
+    const snapshot = await getDoc(doc(db, 'gameTime', userId));
+    return snapshot.exists() ? withDates<GameTimeRecord>(snapshot.data(), GAME_TIME_DATE_FIELDS) : null;
+  }
+
+  async save(userId: string, record: GameTimeRecord): Promise<void> {
+    await setDoc(doc(db, 'gameTime', userId), record);
+  }
+
+  async update(userId: string, changes: Partial<GameTimeRecord>): Promise<void> {
+    await updateDoc(doc(db, 'gameTime', userId), changes);
+  }
+}
+
+// Firestore caps a write batch at 500 operations
+const BATCH_LIMIT = 500;
+
+class FirestoreChainEventRepository implements ChainEventRepository {
+  private toEvent(data: DocumentData): IndexedChainEvent {
+    return withDates<IndexedChainEvent>(data, ['timestamp']);
+  }
+
+  private inChainOrder(events: IndexedChainEvent[]): IndexedChainEvent[] {
+    return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  async getCursor(indexerId: string): Promise<ChainIndexCursor | null> {
+    const snapshot = await getDoc(doc(db, 'chainIndexers', indexerId));
+    return snapshot.exists() ? (snapshot.data() as ChainIndexCursor) : null;
+  }
+
+  async saveCursor(indexerId: string, cursor: ChainIndexCursor): Promise<void> {
+    await setDoc(doc(db, 'chainIndexers', indexerId), cursor);
+  }
+
+  async saveEvents(events: IndexedChainEvent[]): Promise<void> {
+    for (let start = 0; start < events.length; start += BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      events.slice(start, start + BATCH_LIMIT).forEach(event => {
+        batch.set(doc(db, 'chainEvents', event.id), withoutUndefined(event));
+      });
+      await batch.commit();
+    }
+  }
+
+  async deleteEventsAfter(chainId: number, blockNumber: number): Promise<void> {
+    // Single-field range query; the chain filter is applied here to avoid a composite index
+    const snapshot = await getDocs(query(collection(db, 'chainEvents'), where('blockNumber', '>', blockNumber)));
+    const stale = snapshot.docs.filter(eventDoc => eventDoc.data().chainId === chainId);
+    for (let start = 0; start < stale.length; start += BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      stale.slice(start, start + BATCH_LIMIT).forEach(eventDoc => batch.delete(eventDoc.ref));
+      await batch.commit();
+    }
+  }
+
+  async listByToken(chainId: number, tokenId: string): Promise<IndexedChainEvent[]> {
+    const snapshot = await getDocs(query(
+      collection(db, 'chainEvents'),
+      where('chainId', '==', chainId),
+      where('tokenId', '==', tokenId)
+    ));
+    return this.inChainOrder(snapshot.docs.map(eventDoc => this.toEvent(eventDoc.data())));
+  }
+
+  async listByAccount(chainId: number, account: string): Promise<IndexedChainEvent[]> {
+    const snapshot = await getDocs(query(
+      collection(db, 'chainEvents'),
+      where('accounts', 'array-contains', account.toLowerCase())
+    ));
+    return this.inChainOrder(
+      snapshot.docs
+        .map(eventDoc => this.toEvent(eventDoc.data()))
+        .filter(event => event.chainId === chainId)
+    );
+  }
+}
+
+// One subcollection per provider, so the bucket range queries need no composite index
+class FirestorePriceHistoryRepository implements PriceHistoryRepository {
+  private quotes(source: PriceProviderId) {
+    return collection(db, 'priceHistory', source, 'quotes');
+  }
+
+  private toQuote(data: DocumentData): PriceQuote {
+    return withDates<PriceQuote>(data, ['gameTime', 'observedAt']);
+  }
+
+  async get(source: PriceProviderId, bucket: number): Promise<PriceQuote | null> {
+    const snapshot = await getDoc(doc(this.quotes(source), String(bucket)));
+    return snapshot.exists() ? this.toQuote(snapshot.data()) : null;
+  }
+
+  async latestBefore(source: PriceProviderId, bucket: number): Promise<PriceQuote | null> {
+    const snapshot = await getDocs(query(
+      this.quotes(source),
+      where('bucket', '<', bucket),
+      orderBy('bucket', 'desc'),
+      limit(1)
+    ));
+    return snapshot.empty ? null : this.toQuote(snapshot.docs[0].data());
+  }
+
+  async save(quote: PriceQuote): Promise<void> {
+    await setDoc(doc(this.quotes(quote.source), String(quote.bucket)), quote);
+  }
+
+  async list(source: PriceProviderId, fromBucket: number, toBucket: number): Promise<PriceQuote[]> {
+    const snapshot = await getDocs(query(
+      this.quotes(source),
+      where('bucket', '>=', fromBucket),
+      where('bucket', '<=', toBucket),
+      orderBy('bucket')
+    ));
+    return snapshot.docs.map(quoteDoc => this.toQuote(quoteDoc.data()));
+  }
+}
+
+class FirestoreMarketIndexRepository implements MarketIndexRepository {
+  private quarters(indexId: MarketIndexId) {
+    return collection(db, 'marketIndices', indexId, 'quarters');
+  }
+
+  async latest(indexId: MarketIndexId): Promise<MarketIndexPoint | null> {
+    const snapshot = await getDocs(query(this.quarters(indexId), orderBy('quarter', 'desc'), limit(1)));
+    return snapshot.empty ? null : snapshot.docs[0].data() as MarketIndexPoint;
+  }
+
+  async saveAll(points: MarketIndexPoint[]): Promise<void> {
+    if (points.length === 0) return;
+    const batch = writeBatch(db);
+    points.forEach(point => {
+      batch.set(doc(this.quarters(point.indexId), String(point.quarter)), point);
+    });
+    await batch.commit();
+  }
+
+  async list(indexId: MarketIndexId, fromQuarter: number, toQuarter: number): Promise<MarketIndexPoint[]> {
+    const snapshot = await getDocs(query(
+      this.quarters(indexId),
+      where('quarter', '>=', fromQuarter),
+      where('quarter', '<=', toQuarter),
+      orderBy('quarter')
+    ));
+    return snapshot.docs.map(pointDoc => pointDoc.data() as MarketIndexPoint);
+  }
+}
+
+// Orders and trades are shared by every trader on a property, so they live at the top level
+class FirestoreMarketRepository implements MarketRepository {
+  private toOrder(id: string, data: DocumentData): MarketOrder {
+    return {
+      ...withDates<MarketOrder>(data, ORDER_DATE_FIELDS),
+      id,
+      fundsHeldEth: data.fundsHeldEth || 0,
+      fundsSpentEth: data.fundsSpentEth || 0,
+    };
+  }
+
+  private toTrade(id: string, data: DocumentData): MarketTrade {
+    return withDates<MarketTrade>({ ...data, id }, TRADE_DATE_FIELDS);
+  }
+
+  // Drops a settled owner from the trade's pending list
+  private remainingSettlers(data: DocumentData, settledUserId: string): string[] {
+    const pending: string[] = data.pendingSettlementUserIds || [];
+    return pending.filter(userId => userId !== settledUserId);
+  }
+
+  newOrderId(): string {
+    return doc(collection(db, 'marketOrders')).id;
+  }
+
+  async getOrder(orderId: string): Promise<MarketOrder | null> {
+    const snapshot = await getDoc(doc(db, 'marketOrders', orderId));
+    return snapshot.exists() ? this.toOrder(snapshot.id, snapshot.data()) : null;
+  }
+
+  async listActiveOrders(propertyId: string): Promise<MarketOrder[]> {
+    const snapshot = await getDocs(query(
+      collection(db, 'marketOrders'),
+      where('propertyId', '==', propertyId),
+      where('status', 'in', ['open', 'partially_filled'])
+    ));
+    return snapshot.docs.map(orderDoc => this.toOrder(orderDoc.id, orderDoc.data()));
+  }
+
+  async listOrdersByOwner(ownerId: string, propertyId?: string): Promise<MarketOrder[]> {
+    const constraints = [where('ownerId', '==', ownerId)];
+    if (propertyId) constraints.push(where('propertyId', '==', propertyId));
+    const snapshot = await getDocs(query(collection(db, 'marketOrders'), ...constraints));
+    return snapshot.docs.map(orderDoc => this.toOrder(orderDoc.id, orderDoc.data()));
+  }
+
+  async updateOrder(orderId: string, changes: MarketOrderChanges): Promise<void> {
+    await updateDoc(doc(db, 'marketOrders', orderId), changes);
+  }
+
+  async transitionOrder(orderId: string, from: OrderStatus[], changes: MarketOrderChanges): Promise<boolean> {
+    const orderRef = doc(db, 'marketOrders', orderId);
+    return runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(orderRef);
+      if (!existing.exists() || !from.includes(existing.data().status)) return false;
+      transaction.update(orderRef, changes);
+      return true;
+    });
+  }
+
+  async executeOrder(
+    orderId: string,
+    propertyId: string,
+    match: (resting: MarketOrder[]) => MarketOrderExecution
+  ): Promise<{ order: MarketOrder; trades: MarketTrade[] }> {
+    const candidates = await this.listActiveOrders(propertyId);
+
+    return runTransaction(db, async (transaction) => {
+      // Re-read resting orders inside the transaction so concurrent fills are respected
+      const resting: MarketOrder[] = [];
+      for (const candidate of candidates) {
+        const candidateDoc = await transaction.get(doc(db, 'marketOrders', candidate.id!));
+        if (candidateDoc.exists()) {
+          resting.push(this.toOrder(candidateDoc.id, candidateDoc.data()));
+        }
+      }
+
+      const { order, trades, fills } = match(resting);
+      const stored: MarketTrade[] = trades.map(trade => {
+        const tradeRef = doc(collection(db, 'marketTrades'));
+        transaction.set(tradeRef, trade);
+        return { ...trade, id: tradeRef.id };
+      });
+      fills.forEach(fill => transaction.update(doc(db, 'marketOrders', fill.orderId), fill.changes));
+
+      const orderData: Partial<MarketOrder> = { ...order };
+      delete orderData.id;
+      transaction.set(doc(db, 'marketOrders', orderId), orderData);
+
+      return { order: { ...order, id: orderId }, trades: stored };
+    });
+  }
+
+  async listTradesByProperty(propertyId: string): Promise<MarketTrade[]> {
+    const snapshot = await getDocs(query(collection(db, 'marketTrades'), where('propertyId', '==', propertyId)));
+    return snapshot.docs.map(tradeDoc => this.toTrade(tradeDoc.id, tradeDoc.data()));
+  }
+
+  async listPendingTrades(userId: string): Promise<MarketTrade[]> {
+    const snapshot = await getDocs(query(
+      collection(db, 'marketTrades'),
+      where('pendingSettlementUserIds', 'array-contains', userId)
+    ));
+    return snapshot.docs.map(tradeDoc => this.toTrade(tradeDoc.id, tradeDoc.data()));
+  }
+
+  async claimSettlement(tradeId: string, side: 'buyer' | 'seller'): Promise<boolean> {
+    const tradeRef = doc(db, 'marketTrades', tradeId);
+    const flag = side === 'buyer' ? 'buyerSettled' : 'sellerSettled';
+
+    return runTransaction(db, async (transaction) => {
+      const tradeDoc = await transaction.get(tradeRef);
+      if (!tradeDoc.exists() || tradeDoc.data()[flag]) return false;
+
+      const ownerId = side === 'buyer' ? tradeDoc.data().buyerId : tradeDoc.data().sellerId;
+      transaction.update(tradeRef, {
+        [flag]: true,
+        pendingSettlementUserIds: this.remainingSettlers(tradeDoc.data(), ownerId),
+      });
+      return true;
+    });
+  }
+
+  async settleSale(
+    tradeId: string,
+    lotIds: string[],
+    reduce: (lots: InvestmentRecord[]) => { id: string; changes: Partial<Omit<InvestmentRecord, 'id'>> }[]
+  ): Promise<boolean> {
+    const tradeRef = doc(db, 'marketTrades', tradeId);
+
+    return runTransaction(db, async (transaction) => {
+      const tradeDoc = await transaction.get(tradeRef);
+      if (!tradeDoc.exists() || tradeDoc.data().sellerSettled) return false;
+
+      const sellerId: string = tradeDoc.data().sellerId;
+      const lots: InvestmentRecord[] = [];
+      for (const lotId of lotIds) {
+        const lotDoc = await transaction.get(doc(db, `users/${sellerId}/investments`, lotId));
+        if (lotDoc.exists()) {
+          lots.push(withDates<InvestmentRecord>({ ...lotDoc.data(), id: lotDoc.id }, INVESTMENT_DATE_FIELDS));
+        }
+      }
+
+      reduce(lots).forEach(({ id, changes }) => {
+        transaction.update(doc(db, `users/${sellerId}/investments`, id), changes);
+      });
+      transaction.update(tradeRef, {
+        sellerSettled: true,
+        pendingSettlementUserIds: this.remainingSettlers(tradeDoc.data(), sellerId),
+      });
+      return true;
+    });
+  }
+}
+
+class FirestoreMockInvestorRepository implements MockInvestorRepository {
+  async listByProperty(propertyId: string): Promise<MockInvestor[]> {
+    const snapshot = await getDocs(query(collection(db, 'mockInvestors'), where('propertyId', '==', propertyId)));
+    return snapshot.docs.map(investorDoc =>
+      withDates<MockInvestor>({ ...investorDoc.data(), id: investorDoc.id }, ['investmentDate'])
+    );
+  }
+
+  async get(investorId: string): Promise<MockInvestor | null> {
+    const snapshot = await getDoc(doc(db, 'mockInvestors', investorId));
+    return snapshot.exists() ? withDates<MockInvestor>({ ...snapshot.data(), id: snapshot.id }, ['investmentDate']) : null;
+  }
+
+  async add(investor: Omit<MockInvestor, 'id'>): Promise<string> {
+    const docRef = await addDoc(collection(db, 'mockInvestors'), withoutUndefined(investor));
+    return docRef.id;
+  }
+
+  async update(investorId: string, changes: Partial<Omit<MockInvestor, 'id'>>): Promise<void> {
+    await updateDoc(doc(db, 'mockInvestors', investorId), changes);
+  }
+}
+
+// Valuations are fields of the shared pool's property documents
+class FirestoreAppreciationRepository implements AppreciationRepository {
+  async get(propertyId: string): Promise<PropertyValuation | null> {
+    const snapshot = await getDoc(doc(db, 'properties', propertyId));
+    return snapshot.exists() ? withDates<PropertyValuation>(snapshot.data(), ['lastAppreciationCalculated', 'lastAppreciation']) : null;
+  }
+
+  async update(propertyId: string, changes: PropertyValuationChanges): Promise<void> {
+    await updateDoc(doc(db, 'properties', propertyId), changes);
+  }
+
+  async listActive(): Promise<string[]> {
+    const snapshot = await getDocs(query(collection(db, 'properties'), where('status', '==', 'active')));
+    return snapshot.docs.map(propertyDoc => propertyDoc.id);
+  }
+}
+
+// Profiles share the user's root document with its subcollections
+class FirestoreUserProfileRepository implements UserProfileRepository {
+  async get(userId: string): Promise<UserProfileRecord | null> {
+    const snapshot = await getDoc(doc(db, 'users', userId));
+    return snapshot.exists() ? withDates<UserProfileRecord>(snapshot.data(), USER_PROFILE_DATE_FIELDS) : null;
+  }
+
+  async save(userId: string, changes: UserProfileRecord): Promise<void> {
+    await setDoc(doc(db, 'users', userId), withoutUndefined(changes), { merge: true });
+  }
+}
+
+export function createFirestoreRepositories(): Repositories {
+  const userPropertyRepositories = new Map<string, PropertyRepository>();
+
+  return {
+    backend: 'firestore',
+    properties: new FirestorePropertyRepository('properties'),
+    userProperties: (userId: string) => {
+      if (!userPropertyRepositories.has(userId)) {
+        userPropertyRepositories.set(userId, new FirestorePropertyRepository(`users/${userId}/properties`));
+      }
+      return userPropertyRepositories.get(userId)!;
+    },
+    investments: new FirestoreInvestmentRepository(),
+    escrows: new FirestoreEscrowRepository(),
+    wallets: new FirestoreWalletRepository(),
+    rentalPayments: new FirestoreRentalPaymentRepository(),
+    loans: new FirestoreLoanRepository(),
+    dispositions: new FirestoreDispositionRepository(),
+    governance: new FirestoreGovernanceRepository(),
+    renovations: new FirestoreRenovationRepository(),
+    watchlists: new FirestoreWatchlistRepository(),
+    savedSearches: new FirestoreSavedSearchRepository(),
+    notifications: new FirestoreNotificationRepository(),
+    gameTime: new FirestoreGameTimeRepository(),
+    chainEvents: new FirestoreChainEventRepository(),
+    priceHistory: new FirestorePriceHistoryRepository(),
+    marketIndices: new FirestoreMarketIndexRepository(),
+    market: new FirestoreMarketRepository(),
+    mockInvestors: new FirestoreMockInvestorRepository(),
+    appreciation: new FirestoreAppreciationRepository(),
+    userProfiles: new FirestoreUserProfileRepository(),
+  };
+}
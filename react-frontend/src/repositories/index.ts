@@ -0,0 +1,37 @@
+import { createFirestoreRepositories } from './firestoreRepositories';
+import { createMemoryRepositories } from './memoryRepositories';
+import type { PersistenceBackend, Repositories } from './types';
+
+export { createFirestoreRepositories, createMemoryRepositories };
+export type * from './types';
+
+/**
+ * Pick the backend at startup, e.g. VITE_PERSISTENCE=memory npm run dev
+ * runs the whole app without a Firebase project or network.
+ */
+function backendFromEnv(): PersistenceBackend {
+  return import.meta.env.VITE_PERSISTENCE === 'memory' ? 'memory' : 'firestore';
+}
+
+export function createRepositories(backend: PersistenceBackend): Repositories {
+  return backend === 'memory' ? createMemoryRepositories() : createFirestoreRepositories();
+}
+
+let activeRepositories = createRepositories(backendFromEnv());
+
+/**
+ * The repositories shared by all services and hooks
+ */
+export function getRepositories(): Repositories {
+  return activeRepositories;
+}
+
+/**
+ * Swap the persistence backend (tests, offline demos). Returns the previous one.
+ */
+export function setRepositories(repositories: Repositories): Repositories {
+  const previous = activeRepositories;
+  activeRepositories = repositories;
+  console.log(`🗄️ Persistence backend set to ${repositories.backend}`);
+  return previous;
+}
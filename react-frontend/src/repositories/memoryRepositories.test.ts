@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryRepositories, type Repositories } from '.';
+import type { MarketOrder } from '../services/secondaryMarketService';
+import { propertyFixture } from '../test/fixtures';
+
+const order = (changes: Partial<MarketOrder>): Omit<MarketOrder, 'id'> => ({
+  propertyId: 'p1',
+  ownerType: 'user',
+  ownerId: 'seller',
+  ownerName: 'Seller',
+  side: 'sell',
+  type: 'limit',
+  quantity: 10,
+  filledQuantity: 0,
+  limitPriceUsd: 2500,
+  ethToUsdRate: 2500,
+  fundsHeldEth: 0,
+  fundsSpentEth: 0,
+  status: 'open',
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  gameTime: new Date('2025-01-01T00:00:00Z'),
+  ...changes,
+});
+
+describe('memory repositories', () => {
+  let repositories: Repositories;
+
+  beforeEach(() => {
+    repositories = createMemoryRepositories();
+  });
+
+  describe('market', () => {
+    it('writes the order, its trades and the resting fills together', async () => {
+      const { market } = repositories;
+      const restingId = market.newOrderId();
+      await market.executeOrder(restingId, 'p1', () => ({ order: order({}), trades: [], fills: [] }));
+
+      const incomingId = market.newOrderId();
+      const result = await market.executeOrder(incomingId, 'p1', (resting) => {
+        expect(resting.map(o => o.id)).toEqual([restingId]);
+        return {
+          order: order({ ownerId: 'buyer', side: 'buy', filledQuantity: 4, status: 'partially_filled' }),
+          trades: [{
+            propertyId: 'p1',
+            buyOrderId: incomingId,
+            sellOrderId: restingId,
+            buyerType: 'user',
+            buyerId: 'buyer',
+            buyerName: 'Buyer',
+            sellerType: 'user',
+            sellerId: 'seller',
+            sellerName: 'Seller',
+            quantity: 4,
+            priceUsd: 2500,
+            totalUsd: 10000,
+            totalEth: 4,
+            buyerSettled: false,
+            sellerSettled: false,
+            pendingSettlementUserIds: ['buyer', 'seller'],
+            executedAt: new Date(),
+            gameTime: new Date(),
+          }],
+          fills: [{ orderId: restingId, changes: { filledQuantity: 4, status: 'partially_filled' } }],
+        };
+      });
+
+      expect(result.order.id).toBe(incomingId);
+      expect(result.trades[0].id).toBeDefined();
+      expect((await market.getOrder(restingId))?.filledQuantity).toBe(4);
+      expect(await market.listTradesByProperty('p1')).toHaveLength(1);
+      expect(await market.listPendingTrades('seller')).toHaveLength(1);
+    });
+
+    it('only moves an order out of the statuses it is expected in', async () => {
+      const { market } = repositories;
+      const orderId = market.newOrderId();
+      await market.executeOrder(orderId, 'p1', () => ({ order: order({}), trades: [], fills: [] }));
+
+      expect(await market.transitionOrder(orderId, ['open'], { status: 'cancelled' })).toBe(true);
+      expect(await market.transitionOrder(orderId, ['open'], { status: 'cancelled' })).toBe(false);
+      expect(await market.listActiveOrders('p1')).toHaveLength(0);
+    });
+
+    it('claims each side of a trade once and reduces the seller lots with the sale', async () => {
+      const { market, investments } = repositories;
+      const lotId = await investments.add('seller', {
+        userId: 'seller',
+        propertyId: 'p1',
+        sharesOwned: 10,
+        purchasePrice: 10,
+        currentValue: 10,
+        purchaseDate: new Date('2025-01-01T00:00:00Z'),
+      });
+      const sellId = market.newOrderId();
+      const { trades } = await market.executeOrder(sellId, 'p1', () => ({
+        order: order({ status: 'filled', filledQuantity: 10 }),
+        trades: [{
+          propertyId: 'p1',
+          buyOrderId: 'mock',
+          sellOrderId: sellId,
+          buyerType: 'mock_investor',
+          buyerId: 'mock_bidder_1',
+          buyerName: 'Mock',
+          sellerType: 'user',
+          sellerId: 'seller',
+          sellerName: 'Seller',
+          quantity: 10,
+          priceUsd: 2500,
+          totalUsd: 25000,
+          totalEth: 10,
+          buyerSettled: false,
+          sellerSettled: false,
+          pendingSettlementUserIds: ['seller'],
+          executedAt: new Date(),
+          gameTime: new Date(),
+        }],
+        fills: [],
+      }));
+      const tradeId = trades[0].id!;
+
+      expect(await market.claimSettlement(tradeId, 'buyer')).toBe(true);
+      expect(await market.claimSettlement(tradeId, 'buyer')).toBe(false);
+
+      const reduce = () => [{ id: lotId, changes: { sharesOwned: 0, status: 'closed' as const } }];
+      expect(await market.settleSale(tradeId, [lotId], reduce)).toBe(true);
+      expect(await market.settleSale(tradeId, [lotId], reduce)).toBe(false);
+      expect((await investments.get('seller', lotId))?.sharesOwned).toBe(0);
+      expect(await market.listPendingTrades('seller')).toHaveLength(0);
+    });
+  });
+
+  it('keeps mock investors per property', async () => {
+    const { mockInvestors } = repositories;
+    const investorId = await mockInvestors.add({
+      propertyId: 'p1',
+      username: 'riley_lee',
+      profileIcon: '👤',
+      sharesInvested: 5,
+      investmentAmount: 1,
+      investmentDate: new Date(),
+      location: 'Austin, TX',
+      investorType: 'balanced',
+    });
+    await mockInvestors.update(investorId, { sharesInvested: 3 });
+
+    expect((await mockInvestors.get(investorId))?.sharesInvested).toBe(3);
+    expect(await mockInvestors.listByProperty('p1')).toHaveLength(1);
+    expect(await mockInvestors.listByProperty('p2')).toHaveLength(0);
+  });
+
+  it('stores valuations on the shared pool properties', async () => {
+    const { properties, appreciation } = repositories;
+    const propertyId = await properties.create(propertyFixture());
+    const calculatedAt = new Date('2025-04-01T00:00:00Z');
+
+    await appreciation.update(propertyId, { currentValue: 260000, lastAppreciationCalculated: calculatedAt });
+
+    const valuation = await appreciation.get(propertyId);
+    expect(valuation?.price).toBe(250000);
+    expect(valuation?.lastAppreciationCalculated).toEqual(calculatedAt);
+    expect((await properties.get(propertyId))?.currentValue).toBe(260000);
+    expect(await appreciation.get('missing')).toBeNull();
+  });
+
+  it('merges user profile saves and skips undefined fields', async () => {
+    const { userProfiles } = repositories;
+    await userProfiles.save('u1', { uid: 'u1', email: 'a@example.com', displayName: 'Avery' });
+    await userProfiles.save('u1', { displayName: undefined, walletAddress: '0xabc' });
+
+    expect(await userProfiles.get('u1')).toMatchObject({ email: 'a@example.com', displayName: 'Avery', walletAddress: '0xabc' });
+    expect(await userProfiles.get('u2')).toBeNull();
+  });
+});
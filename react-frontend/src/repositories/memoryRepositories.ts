@@ -0,0 +1,955 @@
+import { Timestamp } from 'firebase/firestore';
+import type { Property, WatchlistItem } from '../types/property';
+import type { EscrowProcess } from '../services/escrowService';
+import type { ChainIndexCursor, IndexedChainEvent } from '../services/contractEventIndexer';
+import type { PriceQuote } from '../services/priceOracleService';
+import type { MarketIndexId, MarketIndexPoint } from '../services/marketModelService';
+import type { PriceProviderId } from '../config/priceOracleConfig';
+import type { RentalPayment } from '../services/rentalIncomeService';
+import type { Loan } from '../services/loanService';
+import type { PropertyDisposition } from '../services/dispositionService';
+import type { Proposal, ProposalStatus, ProposalVote } from '../services/governanceService';
+import type { RenovationProject, RenovationStatus } from '../services/renovationService';
+import type { AppNotification } from '../services/notificationService';
+import type { SavedSearch } from '../services/savedSearchService';
+import type { UserWallet } from '../services/userScopedWalletService';
+import type { LedgerEntry } from '../services/walletLedgerService';
+import type { MarketOrder, MarketTrade, OrderStatus } from '../services/secondaryMarketService';
+import type { MockInvestor } from '../services/mockInvestorService';
+import type {
+  AppreciationRepository,
+  ChainEventRepository,
+  DispositionRepository,
+  EscrowRepository,
+  GameTimeRecord,
+  GameTimeRepository,
+  GovernanceRepository,
+  InvestmentRecord,
+  InvestmentRepository,
+  LedgerAppend,
+  LoanRepository,
+  MarketOrderChanges,
+  MarketOrderExecution,
+  MarketRepository,
+  MockInvestorRepository,
+  NotificationRepository,
+  PropertyChanges,
+  PropertyQuery,
+  PropertyRepository,
+  MarketIndexRepository,
+  PriceHistoryRepository,
+  PropertyValuation,
+  PropertyValuationChanges,
+  PurchaseTransactionRecord,
+  RentalCollectionRecord,
+  RenovationRepository,
+  RentalPaymentRepository,
+  Repositories,
+  SavedSearchRepository,
+  Unsubscribe,
+  UserProfileRecord,
+  UserProfileRepository,
+  WalletChanges,
+  WalletRepository,
+  WatchlistRepository
+} from './types';
+
+type StoredDocument = Record<string, unknown>;
+
+// Copy plain objects/arrays so callers never share state with the store; class instances (Timestamp) are immutable
+function clone<T>(value: T): T {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (Array.isArray(value)) return value.map(item => clone(item)) as T;
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const copy: StoredDocument = {};
+    Object.entries(value as StoredDocument).forEach(([key, item]) => {
+      copy[key] = clone(item);
+    });
+    return copy as T;
+  }
+  return value;
+}
+
+function generateId(): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let id = '';
+  for (let i = 0; i < 20; i++) {
+    id += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return id;
+}
+
+/**
+ * A single in-memory collection with Firestore-like semantics: generated ids,
+ * dotted-path updates, and listeners notified after every write.
+ */
+class MemoryCollection<T> {
+  private documents = new Map<string, StoredDocument>();
+  private listeners = new Set<() => void>();
+
+  get(id: string): (T & { id: string }) | null {
+    const stored = this.documents.get(id);
+    return stored ? ({ ...clone(stored), id } as T & { id: string }) : null;
+  }
+
+  /** Document data without the id, for aggregates keyed by owner rather than by document */
+  data(id: string): T | null {
+    const stored = this.documents.get(id);
+    return stored ? (clone(stored) as T) : null;
+  }
+
+  all(): (T & { id: string })[] {
+    return Array.from(this.documents.keys()).map(id => this.get(id)!);
+  }
+
+  set(id: string, data: Omit<T, 'id'> | StoredDocument): void {
+    const stored = clone(data) as StoredDocument;
+    delete stored.id;
+    this.documents.set(id, stored);
+    this.notify();
+  }
+
+  add(data: Omit<T, 'id'> | StoredDocument): string {
+    const id = generateId();
+    this.set(id, data);
+    return id;
+  }
+
+  update(id: string, changes: StoredDocument): void {
+    const stored = this.documents.get(id);
+    if (!stored) {
+      throw new Error(`No document to update: ${id}`);
+    }
+
+    Object.entries(changes).forEach(([path, value]) => {
+      const keys = path.split('.');
+      let target = stored;
+      keys.slice(0, -1).forEach(key => {
+        if (!target[key] || typeof target[key] !== 'object') target[key] = {};
+        target = target[key] as StoredDocument;
+      });
+      target[keys[keys.length - 1]] = clone(value);
+    });
+    this.notify();
+  }
+
+  delete(id: string): void {
+    this.documents.delete(id);
+    this.notify();
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /** Ids of documents whose stored fields, typed or not, match */
+  idsWhere(predicate: (stored: StoredDocument) => boolean): string[] {
+    return Array.from(this.documents.entries())
+      .filter(([, stored]) => predicate(stored))
+      .map(([id]) => id);
+  }
+
+  subscribe(listener: () => void): Unsubscribe {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+class MemoryPropertyRepository implements PropertyRepository {
+  private readonly properties = new MemoryCollection<Property>();
+
+  private applyQuery(properties: Property[], propertyQuery: PropertyQuery = {}): Property[] {
+    const { filters, sort } = propertyQuery;
+    let result = properties;
+
+    if (filters) {
+      if (filters.class && filters.class.length > 0) {
+        result = result.filter(property => filters.class!.includes(property.class));
+      }
+      if (filters.status && filters.status.length > 0) {
+        result = result.filter(property => filters.status!.includes(property.status));
+      }
+      if (filters.region && filters.region.length > 0) {
+        result = result.filter(property => filters.region!.includes(property.region));
+      }
+      if (filters.priceRange) {
+        const { min, max } = filters.priceRange;
+        result = result.filter(property => (min <= 0 || property.price >= min) && (max <= 0 || property.price <= max));
+      }
+    }
+
+    const field = sort?.field === 'timeRemaining' ? 'selloutTime' : sort?.field ?? 'createdAt';
+    const direction = sort?.direction ?? 'desc';
+    const sortValue = (property: Property): number => {
+      const value = property[field as keyof Property];
+      return value instanceof Timestamp ? value.toMillis() : Number(value) || 0;
+    };
+    result = [...result].sort((a, b) =>
+      direction === 'asc' ? sortValue(a) - sortValue(b) : sortValue(b) - sortValue(a)
+    );
+
+    return propertyQuery.limit ? result.slice(0, propertyQuery.limit) : result;
+  }
+
+  async get(propertyId: string): Promise<Property | null> {
+    return this.properties.get(propertyId);
+  }
+
+  async list(propertyQuery?: PropertyQuery): Promise<Property[]> {
+    const all = this.properties.all();
+    return propertyQuery ? this.applyQuery(all, propertyQuery) : all;
+  }
+
+  subscribe(callback: (properties: Property[]) => void, propertyQuery?: PropertyQuery): Unsubscribe {
+    const emit = () => callback(this.applyQuery(this.properties.all(), propertyQuery));
+    emit();
+    return this.properties.subscribe(emit);
+  }
+
+  async create(property: Omit<Property, 'id'>): Promise<string> {
+    return this.properties.add({ ...property, createdAt: Timestamp.now() });
+  }
+
+  async createMany(properties: Omit<Property, 'id'>[]): Promise<string[]> {
+    return properties.map(property => this.properties.add({ ...property, createdAt: Timestamp.now() }));
+  }
+
+  async update(propertyId: string, changes: PropertyChanges): Promise<void> {
+    this.properties.update(propertyId, { ...changes, updatedAt: Timestamp.now() });
+  }
+
+  async updateMany(updates: { id: string; changes: PropertyChanges }[]): Promise<void> {
+    updates.forEach(({ id, changes }) => this.properties.update(id, { ...changes, updatedAt: Timestamp.now() }));
+  }
+
+  async delete(propertyId: string): Promise<void> {
+    this.properties.delete(propertyId);
+  }
+
+  /** Stored fields outside the Property type, such as valuations */
+  fields(propertyId: string): StoredDocument | null {
+    return this.properties.data(propertyId) as StoredDocument | null;
+  }
+
+  patch(propertyId: string, changes: StoredDocument): void {
+    this.properties.update(propertyId, changes);
+  }
+
+  idsWhere(predicate: (fields: StoredDocument) => boolean): string[] {
+    return this.properties.idsWhere(predicate);
+  }
+}
+
+class MemoryInvestmentRepository implements InvestmentRepository {
+  private readonly investments: MemoryCollection<InvestmentRecord>;
+  private readonly transactions = new MemoryCollection<PurchaseTransactionRecord>();
+
+  constructor(investments: MemoryCollection<InvestmentRecord>) {
+    this.investments = investments;
+  }
+
+  async listByUser(userId: string): Promise<InvestmentRecord[]> {
+    return this.investments.all()
+      .filter(investment => investment.userId === userId)
+      .sort((a, b) => a.purchaseDate.getTime() - b.purchaseDate.getTime());
+  }
+
+  async get(userId: string, investmentId: string): Promise<InvestmentRecord | null> {
+    const investment = this.investments.get(investmentId);
+    return investment && investment.userId === userId ? investment : null;
+  }
+
+  async add(userId: string, investment: Omit<InvestmentRecord, 'id'>): Promise<string> {
+    return this.investments.add({ ...investment, userId });
+  }
+
+  async update(userId: string, investmentId: string, changes: Partial<Omit<InvestmentRecord, 'id'>>): Promise<void> {
+    if (!(await this.get(userId, investmentId))) {
+      throw new Error(`Investment ${investmentId} not found`);
+    }
+    this.investments.update(investmentId, changes);
+  }
+
+  async addTransaction(userId: string, transaction: Omit<PurchaseTransactionRecord, 'id'>): Promise<string> {
+    return this.transactions.add({ ...transaction, userId });
+  }
+
+  async updateTransaction(
+    _userId: string,
+    transactionId: string,
+    changes: Partial<Omit<PurchaseTransactionRecord, 'id'>>
+  ): Promise<void> {
+    this.transactions.update(transactionId, changes);
+  }
+
+  async listTransactions(userId: string): Promise<PurchaseTransactionRecord[]> {
+    return this.transactions.all()
+      .filter(transaction => transaction.userId === userId)
+      .sort((a, b) => b.purchaseDate.getTime() - a.purchaseDate.getTime());
+  }
+}
+
+class MemoryEscrowRepository implements EscrowRepository {
+  private readonly escrows = new MemoryCollection<EscrowProcess>();
+
+  async create(escrow: Omit<EscrowProcess, 'id'>): Promise<string> {
+    return this.escrows.add(escrow);
+  }
+
+  async get(escrowId: string): Promise<EscrowProcess | null> {
+    return this.escrows.get(escrowId);
+  }
+
+  async update(escrowId: string, changes: Record<string, unknown>): Promise<void> {
+    this.escrows.update(escrowId, changes);
+  }
+
+  async listByUser(userId: string): Promise<EscrowProcess[]> {
+    return this.escrows.all().filter(escrow => escrow.userId === userId);
+  }
+
+  async listAll(): Promise<EscrowProcess[]> {
+    return this.escrows.all();
+  }
+}
+
+class MemoryWalletRepository implements WalletRepository {
+  private readonly wallets = new MemoryCollection<UserWallet>();
+  private readonly ledgers = new Map<string, MemoryCollection<LedgerEntry>>();
+
+  private ledger(userId: string): MemoryCollection<LedgerEntry> {
+    if (!this.ledgers.has(userId)) {
+      this.ledgers.set(userId, new MemoryCollection<LedgerEntry>());
+    }
+    return this.ledgers.get(userId)!;
+  }
+
+  async get(userId: string): Promise<UserWallet | null> {
+    const wallet = this.wallets.data(userId);
+    return wallet ? { ...wallet, userId } : null;
+  }
+
+  async create(userId: string, wallet: Omit<UserWallet, 'userId' | 'createdAt' | 'lastUpdated'>): Promise<void> {
+    this.wallets.set(userId, {
+      ...wallet,
+      userId,
+      createdAt: Timestamp.now(),
+      lastUpdated: Timestamp.now(),
+    });
+  }
+
+  async update(userId: string, changes: WalletChanges): Promise<void> {
+    this.wallets.update(userId, { ...changes, lastUpdated: Timestamp.now() });
+  }
+
+  async appendLedgerEntries(
+    userId: string,
+    idempotencyKey: string | undefined,
+    build: (wallet: UserWallet) => LedgerAppend
+  ): Promise<{ entry: LedgerEntry; duplicate: boolean }> {
+    // Runs synchronously between awaits, so it is atomic with respect to other callers
+    const wallet = await this.get(userId);
+    if (!wallet) {
+      throw new Error('User wallet not found');
+    }
+
+    const ledger = this.ledger(userId);
+    if (idempotencyKey && ledger.has(idempotencyKey)) {
+      return { entry: ledger.get(idempotencyKey)!, duplicate: true };
+    }
+
+    const { entries, walletChanges } = build(wallet);
+    if (entries.length === 0) {
+      throw new Error('A ledger append needs at least one entry');
+    }
+
+    let lastId = '';
+    entries.forEach((entry, index) => {
+      const isLast = index === entries.length - 1;
+      const data = { ...entry, createdAt: Timestamp.now() };
+      if (isLast && idempotencyKey) {
+        ledger.set(idempotencyKey, data);
+        lastId = idempotencyKey;
+      } else {
+        lastId = ledger.add(data);
+      }
+    });
+
+    this.wallets.update(userId, { ...walletChanges, lastUpdated: Timestamp.now() });
+    return { entry: ledger.get(lastId)!, duplicate: false };
+  }
+
+  async listLedgerEntries(userId: string): Promise<LedgerEntry[]> {
+    return this.ledger(userId).all().sort((a, b) => a.sequence - b.sequence);
+  }
+}
+
+class MemoryRentalPaymentRepository implements RentalPaymentRepository {
+  private readonly payments = new MemoryCollection<RentalPayment>();
+  private readonly collectionRecords = new Map<string, RentalCollectionRecord>();
+
+  async listByUser(userId: string): Promise<RentalPayment[]> {
+    return this.payments.all().filter(payment => payment.userId === userId);
+  }
+
+  async claim(periodKey: string, payment: Omit<RentalPayment, 'id'>): Promise<boolean> {
+    if (this.payments.get(periodKey)) return false;
+    this.payments.set(periodKey, payment);
+    return true;
+  }
+
+  async getCollectionRecord(userId: string): Promise<RentalCollectionRecord | null> {
+    const record = this.collectionRecords.get(userId);
+    return record ? clone(record) : null;
+  }
+
+  async saveCollectionRecord(userId: string, record: Partial<RentalCollectionRecord>): Promise<void> {
+    const existing = this.collectionRecords.get(userId);
+    this.collectionRecords.set(userId, clone({ ...existing, ...record, userId } as RentalCollectionRecord));
+  }
+}
+
+class MemoryLoanRepository implements LoanRepository {
+  private readonly loans = new MemoryCollection<Loan>();
+
+  async listByUser(userId: string): Promise<Loan[]> {
+    return this.loans.all()
+      .filter(loan => loan.userId === userId)
+      .sort((a, b) => a.originatedAt.getTime() - b.originatedAt.getTime());
+  }
+
+  async get(userId: string, loanId: string): Promise<Loan | null> {
+    const loan = this.loans.get(loanId);
+    return loan && loan.userId === userId ? loan : null;
+  }
+
+  async add(userId: string, loan: Omit<Loan, 'id'>): Promise<string> {
+    return this.loans.add({ ...loan, userId });
+  }
+
+  async update(userId: string, loanId: string, changes: Partial<Omit<Loan, 'id'>>): Promise<void> {
+    if (!(await this.get(userId, loanId))) {
+      throw new Error(`Loan ${loanId} not found`);
+    }
+    this.loans.update(loanId, changes);
+  }
+}
+
+class MemoryDispositionRepository implements DispositionRepository {
+  private readonly dispositions = new MemoryCollection<PropertyDisposition>();
+
+  async get(propertyId: string): Promise<PropertyDisposition | null> {
+    return this.dispositions.data(propertyId);
+  }
+
+  async claim(propertyId: string, disposition: PropertyDisposition): Promise<boolean> {
+    if (this.dispositions.has(propertyId)) return false;
+    this.dispositions.set(propertyId, disposition);
+    return true;
+  }
+}
+
+class MemoryGovernanceRepository implements GovernanceRepository {
+  private readonly proposals = new MemoryCollection<Proposal>();
+  private readonly votes = new Map<string, MemoryCollection<ProposalVote>>();
+
+  async listByProperty(propertyId: string): Promise<Proposal[]> {
+    return this.proposals.all()
+      .filter(proposal => proposal.propertyId === propertyId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async listByStatus(status: ProposalStatus): Promise<Proposal[]> {
+    return this.proposals.all().filter(proposal => proposal.status === status);
+  }
+
+  async get(proposalId: string): Promise<Proposal | null> {
+    return this.proposals.get(proposalId);
+  }
+
+  async add(proposal: Omit<Proposal, 'id'>): Promise<string> {
+    return this.proposals.add(proposal);
+  }
+
+  async transition(proposalId: string, from: ProposalStatus, changes: Partial<Omit<Proposal, 'id'>>): Promise<boolean> {
+    if (this.proposals.get(proposalId)?.status !== from) return false;
+    this.proposals.update(proposalId, changes);
+    return true;
+  }
+
+  async listVotes(proposalId: string): Promise<ProposalVote[]> {
+    return this.ballots(proposalId).all()
+      .sort((a, b) => a.castAt.getTime() - b.castAt.getTime());
+  }
+
+  async castVote(proposalId: string, vote: ProposalVote): Promise<boolean> {
+    const ballots = this.ballots(proposalId);
+    if (ballots.has(vote.voterId)) return false;
+    ballots.set(vote.voterId, vote);
+    return true;
+  }
+
+  private ballots(proposalId: string): MemoryCollection<ProposalVote> {
+    if (!this.votes.has(proposalId)) {
+      this.votes.set(proposalId, new MemoryCollection<ProposalVote>());
+    }
+    return this.votes.get(proposalId)!;
+  }
+}
+
+class MemoryRenovationRepository implements RenovationRepository {
+  private readonly projects = new MemoryCollection<RenovationProject>();
+
+  async listByProperty(propertyId: string): Promise<RenovationProject[]> {
+    return this.projects.all()
+      .filter(project => project.propertyId === propertyId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  async listByStatus(status: RenovationStatus): Promise<RenovationProject[]> {
+    return this.projects.all().filter(project => project.status === status);
+  }
+
+  async get(projectId: string): Promise<RenovationProject | null> {
+    return this.projects.get(projectId);
+  }
+
+  async claim(projectId: string, project: Omit<RenovationProject, 'id'>): Promise<boolean> {
+    if (this.projects.has(projectId)) return false;
+    this.projects.set(projectId, project);
+    return true;
+  }
+
+  async transition(projectId: string, from: RenovationStatus, changes: Partial<Omit<RenovationProject, 'id'>>): Promise<boolean> {
+    if (this.projects.get(projectId)?.status !== from) return false;
+    this.projects.update(projectId, changes);
+    return true;
+  }
+}
+
+class MemoryWatchlistRepository implements WatchlistRepository {
+  private readonly items = new MemoryCollection<WatchlistItem>();
+
+  async list(userId: string): Promise<WatchlistItem[]> {
+    return this.items.all()
+      .filter(item => item.userId === userId)
+      .sort((a, b) => b.addedDate.toMillis() - a.addedDate.toMillis());
+  }
+
+  async find(userId: string, propertyId: string): Promise<WatchlistItem | null> {
+    return (await this.list(userId)).find(item => item.propertyId === propertyId) || null;
+  }
+
+  async add(userId: string, propertyId: string): Promise<string> {
+    return this.items.add({ userId, propertyId, addedDate: Timestamp.now() });
+  }
+
+  async remove(userId: string, itemId: string): Promise<void> {
+    const item = this.items.get(itemId);
+    if (item && item.userId === userId) {
+      this.items.delete(itemId);
+    }
+  }
+
+  async update(userId: string, itemId: string, changes: Partial<Pick<WatchlistItem, 'alerts' | 'alertState'>>): Promise<void> {
+    const item = this.items.get(itemId);
+    if (item && item.userId === userId) {
+      this.items.update(itemId, changes);
+    }
+  }
+
+  subscribe(userId: string, callback: (items: WatchlistItem[]) => void): Unsubscribe {
+    const emit = () => {
+      this.list(userId).then(callback);
+    };
+    emit();
+    return this.items.subscribe(emit);
+  }
+}
+
+class MemorySavedSearchRepository implements SavedSearchRepository {
+  private readonly searches = new MemoryCollection<SavedSearch>();
+
+  async list(userId: string): Promise<SavedSearch[]> {
+    return this.searches.all()
+      .filter(search => search.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async create(userId: string, search: Omit<SavedSearch, 'id'>): Promise<string> {
+    return this.searches.add({ ...search, userId });
+  }
+
+  async update(userId: string, searchId: string, changes: Partial<Pick<SavedSearch, 'name' | 'criteria' | 'notifyOnMatch'>>): Promise<void> {
+    const search = this.searches.get(searchId);
+    if (search && search.userId === userId) {
+      this.searches.update(searchId, changes);
+    }
+  }
+
+  async remove(userId: string, searchId: string): Promise<void> {
+    const search = this.searches.get(searchId);
+    if (search && search.userId === userId) {
+      this.searches.delete(searchId);
+    }
+  }
+
+  subscribe(userId: string, callback: (searches: SavedSearch[]) => void): Unsubscribe {
+    const emit = () => {
+      this.list(userId).then(callback);
+    };
+    emit();
+    return this.searches.subscribe(emit);
+  }
+}
+
+class MemoryNotificationRepository implements NotificationRepository {
+  private readonly inboxes = new Map<string, MemoryCollection<AppNotification>>();
+
+  async list(userId: string): Promise<AppNotification[]> {
+    return this.inbox(userId).all()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async claim(userId: string, key: string, notification: Omit<AppNotification, 'id'>): Promise<boolean> {
+    const inbox = this.inbox(userId);
+    if (inbox.has(key)) return false;
+    inbox.set(key, notification);
+    return true;
+  }
+
+  async markRead(userId: string, notificationIds: string[]): Promise<void> {
+    const inbox = this.inbox(userId);
+    notificationIds.filter(id => inbox.has(id)).forEach(id => inbox.update(id, { read: true }));
+  }
+
+  subscribe(userId: string, callback: (notifications: AppNotification[]) => void): Unsubscribe {
+    const emit = () => {
+      this.list(userId).then(callback);
+    };
+    emit();
+    return this.inbox(userId).subscribe(emit);
+  }
+
+  private inbox(userId: string): MemoryCollection<AppNotification> {
+    if (!this.inboxes.has(userId)) {
+      this.inboxes.set(userId, new MemoryCollection<AppNotification>());
+    }
+    return this.inboxes.get(userId)!;
+  }
+}
+
+class MemoryGameTimeRepository implements GameTimeRepository {
+  private readonly records = new Map<string, GameTimeRecord>();
+
+  async get(userId: string): Promise<GameTimeRecord | null> {
+    const record = this.records.get(userId);
+    return record ? clone(record) : null;
+  }
+
+  async save(userId: string, record: GameTimeRecord): Promise<void> {
+    this.records.set(userId, clone(record));
+  }
+
+  async update(userId: string, changes: Partial<GameTimeRecord>): Promise<void> {
+    const existing = this.records.get(userId);
+    if (!existing) {
+      throw new Error(`No game time for user ${userId}`);
+    }
+    this.records.set(userId, clone({ ...existing, ...changes }));
+  }
+}
+
+class MemoryChainEventRepository implements ChainEventRepository {
+  private readonly events = new MemoryCollection<IndexedChainEvent>();
+  private readonly cursors = new Map<string, ChainIndexCursor>();
+
+  private inChainOrder(events: IndexedChainEvent[]): IndexedChainEvent[] {
+    return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  async getCursor(indexerId: string): Promise<ChainIndexCursor | null> {
+    const cursor = this.cursors.get(indexerId);
+    return cursor ? clone(cursor) : null;
+  }
+
+  async saveCursor(indexerId: string, cursor: ChainIndexCursor): Promise<void> {
+    this.cursors.set(indexerId, clone(cursor));
+  }
+
+  async saveEvents(events: IndexedChainEvent[]): Promise<void> {
+    events.forEach(event => this.events.set(event.id, event));
+  }
+
+  async deleteEventsAfter(chainId: number, blockNumber: number): Promise<void> {
+    this.events.all()
+      .filter(event => event.chainId === chainId && event.blockNumber > blockNumber)
+      .forEach(event => this.events.delete(event.id));
+  }
+
+  async listByToken(chainId: number, tokenId: string): Promise<IndexedChainEvent[]> {
+    return this.inChainOrder(this.events.all().filter(event => event.chainId === chainId && event.tokenId === tokenId));
+  }
+
+  async listByAccount(chainId: number, account: string): Promise<IndexedChainEvent[]> {
+    const normalized = account.toLowerCase();
+    return this.inChainOrder(this.events.all().filter(event => event.chainId === chainId && event.accounts.includes(normalized)));
+  }
+}
+
+class MemoryPriceHistoryRepository implements PriceHistoryRepository {
+  private readonly quotes = new Map<string, PriceQuote>();
+
+  private inSeries(source: PriceProviderId): PriceQuote[] {
+    return Array.from(this.quotes.values())
+      .filter(quote => quote.source === source)
+      .sort((a, b) => a.bucket - b.bucket);
+  }
+
+  async get(source: PriceProviderId, bucket: number): Promise<PriceQuote | null> {
+    const quote = this.quotes.get(`${source}_${bucket}`);
+    return quote ? clone(quote) : null;
+  }
+
+  async latestBefore(source: PriceProviderId, bucket: number): Promise<PriceQuote | null> {
+    const earlier = this.inSeries(source).filter(quote => quote.bucket < bucket);
+    return earlier.length > 0 ? clone(earlier[earlier.length - 1]) : null;
+  }
+
+  async save(quote: PriceQuote): Promise<void> {
+    this.quotes.set(`${quote.source}_${quote.bucket}`, clone(quote));
+  }
+
+  async list(source: PriceProviderId, fromBucket: number, toBucket: number): Promise<PriceQuote[]> {
+    return this.inSeries(source)
+      .filter(quote => quote.bucket >= fromBucket && quote.bucket <= toBucket)
+      .map(quote => clone(quote));
+  }
+}
+
+class MemoryMarketIndexRepository implements MarketIndexRepository {
+  private readonly points = new Map<string, MarketIndexPoint>();
+
+  private inSeries(indexId: MarketIndexId): MarketIndexPoint[] {
+    return Array.from(this.points.values())
+      .filter(point => point.indexId === indexId)
+      .sort((a, b) => a.quarter - b.quarter);
+  }
+
+  async latest(indexId: MarketIndexId): Promise<MarketIndexPoint | null> {
+    const series = this.inSeries(indexId);
+    return series.length > 0 ? clone(series[series.length - 1]) : null;
+  }
+
+  async saveAll(points: MarketIndexPoint[]): Promise<void> {
+    points.forEach(point => this.points.set(`${point.indexId}_${point.quarter}`, clone(point)));
+  }
+
+  async list(indexId: MarketIndexId, fromQuarter: number, toQuarter: number): Promise<MarketIndexPoint[]> {
+    return this.inSeries(indexId)
+      .filter(point => point.quarter >= fromQuarter && point.quarter <= toQuarter)
+      .map(point => clone(point));
+  }
+}
+
+class MemoryMarketRepository implements MarketRepository {
+  private readonly orders = new MemoryCollection<MarketOrder>();
+  private readonly trades = new MemoryCollection<MarketTrade>();
+  private readonly investments: MemoryCollection<InvestmentRecord>;
+
+  // Shares the investment store so a sale's lots and its trade settle in one step
+  constructor(investments: MemoryCollection<InvestmentRecord>) {
+    this.investments = investments;
+  }
+
+  private settled(trade: MarketTrade, settledUserId: string): StoredDocument {
+    return { pendingSettlementUserIds: trade.pendingSettlementUserIds.filter(userId => userId !== settledUserId) };
+  }
+
+  newOrderId(): string {
+    return generateId();
+  }
+
+  async getOrder(orderId: string): Promise<MarketOrder | null> {
+    return this.orders.get(orderId);
+  }
+
+  async listActiveOrders(propertyId: string): Promise<MarketOrder[]> {
+    return this.orders.all().filter(order =>
+      order.propertyId === propertyId && (order.status === 'open' || order.status === 'partially_filled')
+    );
+  }
+
+  async listOrdersByOwner(ownerId: string, propertyId?: string): Promise<MarketOrder[]> {
+    return this.orders.all().filter(order =>
+      order.ownerId === ownerId && (!propertyId || order.propertyId === propertyId)
+    );
+  }
+
+  async updateOrder(orderId: string, changes: MarketOrderChanges): Promise<void> {
+    this.orders.update(orderId, changes);
+  }
+
+  async transitionOrder(orderId: string, from: OrderStatus[], changes: MarketOrderChanges): Promise<boolean> {
+    const order = this.orders.get(orderId);
+    if (!order || !from.includes(order.status)) return false;
+    this.orders.update(orderId, changes);
+    return true;
+  }
+
+  async executeOrder(
+    orderId: string,
+    propertyId: string,
+    match: (resting: MarketOrder[]) => MarketOrderExecution
+  ): Promise<{ order: MarketOrder; trades: MarketTrade[] }> {
+    // Synchronous from the read to the last write, so it is atomic with respect to other callers
+    const resting = this.orders.all().filter(order =>
+      order.propertyId === propertyId && (order.status === 'open' || order.status === 'partially_filled')
+    );
+    const { order, trades, fills } = match(resting);
+
+    const stored = trades.map(trade => ({ ...trade, id: this.trades.add(trade) }));
+    fills.forEach(fill => this.orders.update(fill.orderId, fill.changes));
+    this.orders.set(orderId, order);
+
+    return { order: { ...order, id: orderId }, trades: stored };
+  }
+
+  async listTradesByProperty(propertyId: string): Promise<MarketTrade[]> {
+    return this.trades.all().filter(trade => trade.propertyId === propertyId);
+  }
+
+  async listPendingTrades(userId: string): Promise<MarketTrade[]> {
+    return this.trades.all().filter(trade => trade.pendingSettlementUserIds.includes(userId));
+  }
+
+  async claimSettlement(tradeId: string, side: 'buyer' | 'seller'): Promise<boolean> {
+    const trade = this.trades.get(tradeId);
+    const flag = side === 'buyer' ? 'buyerSettled' : 'sellerSettled';
+    if (!trade || trade[flag]) return false;
+
+    this.trades.update(tradeId, { [flag]: true, ...this.settled(trade, side === 'buyer' ? trade.buyerId : trade.sellerId) });
+    return true;
+  }
+
+  async settleSale(
+    tradeId: string,
+    lotIds: string[],
+    reduce: (lots: InvestmentRecord[]) => { id: string; changes: Partial<Omit<InvestmentRecord, 'id'>> }[]
+  ): Promise<boolean> {
+    const trade = this.trades.get(tradeId);
+    if (!trade || trade.sellerSettled) return false;
+
+    const lots = lotIds
+      .map(lotId => this.investments.get(lotId))
+      .filter((lot): lot is InvestmentRecord & { id: string } => lot !== null && lot.userId === trade.sellerId);
+    reduce(lots).forEach(({ id, changes }) => this.investments.update(id, changes));
+
+    this.trades.update(tradeId, { sellerSettled: true, ...this.settled(trade, trade.sellerId) });
+    return true;
+  }
+}
+
+class MemoryMockInvestorRepository implements MockInvestorRepository {
+  private readonly investors = new MemoryCollection<MockInvestor>();
+
+  async listByProperty(propertyId: string): Promise<MockInvestor[]> {
+    return this.investors.all().filter(investor => investor.propertyId === propertyId);
+  }
+
+  async get(investorId: string): Promise<MockInvestor | null> {
+    return this.investors.get(investorId);
+  }
+
+  async add(investor: Omit<MockInvestor, 'id'>): Promise<string> {
+    return this.investors.add(investor);
+  }
+
+  async update(investorId: string, changes: Partial<Omit<MockInvestor, 'id'>>): Promise<void> {
+    this.investors.update(investorId, changes);
+  }
+}
+
+// Valuations are fields of the shared pool's properties
+class MemoryAppreciationRepository implements AppreciationRepository {
+  private readonly properties: MemoryPropertyRepository;
+
+  constructor(properties: MemoryPropertyRepository) {
+    this.properties = properties;
+  }
+
+  async get(propertyId: string): Promise<PropertyValuation | null> {
+    return this.properties.fields(propertyId) as PropertyValuation | null;
+  }
+
+  async update(propertyId: string, changes: PropertyValuationChanges): Promise<void> {
+    this.properties.patch(propertyId, changes);
+  }
+
+  async listActive(): Promise<string[]> {
+    return this.properties.idsWhere(fields => fields.status === 'active');
+  }
+}
+
+class MemoryUserProfileRepository implements UserProfileRepository {
+  private readonly profiles = new MemoryCollection<UserProfileRecord>();
+
+  async get(userId: string): Promise<UserProfileRecord | null> {
+    return this.profiles.data(userId);
+  }
+
+  async save(userId: string, changes: UserProfileRecord): Promise<void> {
+    const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+    if (this.profiles.has(userId)) {
+      this.profiles.update(userId, defined);
+    } else {
+      this.profiles.set(userId, defined);
+    }
+  }
+}
+
+/**
+ * Fully in-memory backend. State lives for the lifetime of the page (or test),
+ * so nothing needs a Firebase project or network access.
+ */
+export function createMemoryRepositories(): Repositories {
+  const userPropertyRepositories = new Map<string, PropertyRepository>();
+  const properties = new MemoryPropertyRepository();
+  const investments = new MemoryCollection<InvestmentRecord>();
+
+  return {
+    backend: 'memory',
+    properties,
+    userProperties: (userId: string) => {
+      if (!userPropertyRepositories.has(userId)) {
+        userPropertyRepositories.set(userId, new MemoryPropertyRepository());
+      }
+      return userPropertyRepositories.get(userId)!;
+    },
+    investments: new MemoryInvestmentRepository(investments),
+    escrows: new MemoryEscrowRepository(),
+    wallets: new MemoryWalletRepository(),
+    rentalPayments: new MemoryRentalPaymentRepository(),
+    loans: new MemoryLoanRepository(),
+    dispositions: new MemoryDispositionRepository(),
+    governance: new MemoryGovernanceRepository(),
+    renovations: new MemoryRenovationRepository(),
+    watchlists: new MemoryWatchlistRepository(),
+    savedSearches: new MemorySavedSearchRepository(),
+    notifications: new MemoryNotificationRepository(),
+    gameTime: new MemoryGameTimeRepository(),
+    chainEvents: new MemoryChainEventRepository(),
+    priceHistory: new MemoryPriceHistoryRepository(),
+    marketIndices: new MemoryMarketIndexRepository(),
+    market: new MemoryMarketRepository(investments),
+    mockInvestors: new MemoryMockInvestorRepository(),
+    appreciation: new MemoryAppreciationRepository(properties),
+    userProfiles: new MemoryUserProfileRepository(),
+  };
+}
@@ -0,0 +1,420 @@
+import type { Property, PropertyClass, PropertyFilters, PropertySortOptions, WatchlistItem } from '../types/property';
+import type { EscrowProcess } from '../services/escrowService';
+import type { ChainIndexCursor, IndexedChainEvent } from '../services/contractEventIndexer';
+import type { PriceQuote } from '../services/priceOracleService';
+import type { MarketIndexId, MarketIndexPoint } from '../services/marketModelService';
+import type { PriceProviderId } from '../config/priceOracleConfig';
+import type { RentalPayment } from '../services/rentalIncomeService';
+import type { Loan } from '../services/loanService';
+import type { PropertyDisposition } from '../services/dispositionService';
+import type { Proposal, ProposalStatus, ProposalVote } from '../services/governanceService';
+import type { RenovationProject, RenovationStatus } from '../services/renovationService';
+import type { AppNotification } from '../services/notificationService';
+import type { SavedSearch } from '../services/savedSearchService';
+import type { UserWallet } from '../services/userScopedWalletService';
+import type { LedgerAsset, LedgerEntry } from '../services/walletLedgerService';
+import type { MarketOrder, MarketTrade, OrderStatus } from '../services/secondaryMarketService';
+import type { MockInvestor } from '../services/mockInvestorService';
+import type { QuarterlyGain } from '../services/propertyAppreciationService';
+
+/**
+ * Persistence contracts, one repository per aggregate.
+ *
+ * Services depend on these interfaces rather than on Firestore so the app can
+ * run against either backend (see `repositories/index.ts`). Implementations
+ * own storage details such as collection paths, timestamp sentinels and
+ * Timestamp <-> Date conversion; callers always get plain domain objects.
+ */
+
+export type Unsubscribe = () => void;
+
+export interface PropertyQuery {
+  filters?: PropertyFilters;
+  sort?: PropertySortOptions; // Defaults to newest first
+  limit?: number;
+}
+
+export type PropertyChanges = Partial<Omit<Property, 'id'>>;
+
+export interface PropertyRepository {
+  get(propertyId: string): Promise<Property | null>;
+  list(query?: PropertyQuery): Promise<Property[]>;
+  subscribe(callback: (properties: Property[]) => void, query?: PropertyQuery): Unsubscribe;
+  /** Stamps `createdAt` */
+  create(property: Omit<Property, 'id'>): Promise<string>;
+  createMany(properties: Omit<Property, 'id'>[]): Promise<string[]>;
+  /** Stamps `updatedAt` */
+  update(propertyId: string, changes: PropertyChanges): Promise<void>;
+  updateMany(updates: { id: string; changes: PropertyChanges }[]): Promise<void>;
+  delete(propertyId: string): Promise<void>;
+}
+
+export interface InvestmentRecord {
+  id?: string;
+  userId: string;
+  propertyId: string;
+  sharesOwned: number;
+  purchasePrice: number; // ETH amount paid
+  currentValue: number;
+  purchaseDate: Date;
+  purchaseUsdValue?: number; // USD value at time of purchase
+  paidWith?: LedgerAsset; // Settlement currency (ETH when absent)
+  lastUpdated?: Date;
+
+  // Property details copied at purchase for dashboard/portfolio display
+  propertyAddress?: string;
+  propertyClass?: string;
+  propertyCity?: string;
+  propertyState?: string;
+  propertyRegion?: string;
+  propertyImageUrl?: string;
+  propertyBedrooms?: number;
+  propertyBathrooms?: number;
+  propertySqft?: number;
+  propertyYearBuilt?: number;
+  propertyTotalPrice?: number;
+  rentalYield?: number;
+
+  // Game mechanics
+  rentalIncomeStartDate?: Date;
+  appreciationStartDate?: Date;
+  rentalAccruedCarry?: number;
+  escrowProcessId?: string;
+  loanId?: string | null; // Open mortgage secured on the lot; cleared when it closes
+  status?: 'closed';
+}
+
+export interface PurchaseTransactionRecord {
+  id?: string;
+  userId: string;
+  propertyId: string;
+  shares: number;
+  sharePrice: number;
+  totalCost: number;
+  purchaseDate: Date;
+  status: 'pending' | 'completed' | 'failed';
+  transactionType: 'property_purchase';
+  completedAt?: Date;
+}
+
+export interface InvestmentRepository {
+  /** A user's investment lots, oldest purchase first */
+  listByUser(userId: string): Promise<InvestmentRecord[]>;
+  get(userId: string, investmentId: string): Promise<InvestmentRecord | null>;
+  add(userId: string, investment: Omit<InvestmentRecord, 'id'>): Promise<string>;
+  update(userId: string, investmentId: string, changes: Partial<Omit<InvestmentRecord, 'id'>>): Promise<void>;
+
+  addTransaction(userId: string, transaction: Omit<PurchaseTransactionRecord, 'id'>): Promise<string>;
+  updateTransaction(userId: string, transactionId: string, changes: Partial<Omit<PurchaseTransactionRecord, 'id'>>): Promise<void>;
+  /** A user's purchase transactions, newest first */
+  listTransactions(userId: string): Promise<PurchaseTransactionRecord[]>;
+}
+
+export interface EscrowRepository {
+  create(escrow: Omit<EscrowProcess, 'id'>): Promise<string>;
+  get(escrowId: string): Promise<EscrowProcess | null>;
+  /** Accepts dotted field paths, e.g. `'approvalSteps.inspection.status'` */
+  update(escrowId: string, changes: Record<string, unknown>): Promise<void>;
+  listByUser(userId: string): Promise<EscrowProcess[]>;
+  listAll(): Promise<EscrowProcess[]>;
+}
+
+export type WalletChanges = Partial<Omit<UserWallet, 'userId'>>;
+
+export interface LedgerAppend {
+  entries: Omit<LedgerEntry, 'id' | 'createdAt'>[]; // Appended in order; the last one is returned
+  walletChanges: WalletChanges;
+}
+
+export interface WalletRepository {
+  get(userId: string): Promise<UserWallet | null>;
+  /** Stamps `createdAt` and `lastUpdated` */
+  create(userId: string, wallet: Omit<UserWallet, 'userId' | 'createdAt' | 'lastUpdated'>): Promise<void>;
+  /** Stamps `lastUpdated` */
+  update(userId: string, changes: WalletChanges): Promise<void>;
+
+  /**
+   * Atomically append ledger entries and update the wallet they project onto.
+   * If `idempotencyKey` was already posted the stored entry is returned with
+   * `duplicate: true` and `build` is not called. The final entry is stored
+   * under the idempotency key when one is given.
+   */
+  appendLedgerEntries(
+    userId: string,
+    idempotencyKey: string | undefined,
+    build: (wallet: UserWallet) => LedgerAppend
+  ): Promise<{ entry: LedgerEntry; duplicate: boolean }>;
+  /** Ledger entries in posting order */
+  listLedgerEntries(userId: string): Promise<LedgerEntry[]>;
+}
+
+export interface RentalCollectionRecord {
+  userId: string;
+  lastCollectionTime: Date;
+  totalCollections: number;
+  lastUpdated: Date;
+
+  // Set once rent paid by the earlier engines has been reconciled
+  migratedThroughPeriod?: number; // First game month the rental engine pays
+  legacyEntitledUsd?: number;
+  legacyPaidUsd?: number;
+}
+
+export interface RentalPaymentRepository {
+  listByUser(userId: string): Promise<RentalPayment[]>;
+  /** Saves a payout under its period key unless one is already there; false when it was */
+  claim(periodKey: string, payment: Omit<RentalPayment, 'id'>): Promise<boolean>;
+
+  getCollectionRecord(userId: string): Promise<RentalCollectionRecord | null>;
+  /** Merges into the existing record */
+  saveCollectionRecord(userId: string, record: Partial<RentalCollectionRecord>): Promise<void>;
+}
+
+export interface LoanRepository {
+  /** Oldest first */
+  listByUser(userId: string): Promise<Loan[]>;
+  get(userId: string, loanId: string): Promise<Loan | null>;
+  add(userId: string, loan: Omit<Loan, 'id'>): Promise<string>;
+  update(userId: string, loanId: string, changes: Partial<Omit<Loan, 'id'>>): Promise<void>;
+}
+
+export interface DispositionRepository {
+  get(propertyId: string): Promise<PropertyDisposition | null>;
+  /** Saves a property's exit sale unless one is already there; false when it was */
+  claim(propertyId: string, disposition: PropertyDisposition): Promise<boolean>;
+}
+
+export interface GovernanceRepository {
+  /** Newest first */
+  listByProperty(propertyId: string): Promise<Proposal[]>;
+  listByStatus(status: ProposalStatus): Promise<Proposal[]>;
+  get(proposalId: string): Promise<Proposal | null>;
+  add(proposal: Omit<Proposal, 'id'>): Promise<string>;
+  /** Applies `changes` only if the proposal is still in status `from`; false when it wasn't */
+  transition(proposalId: string, from: ProposalStatus, changes: Partial<Omit<Proposal, 'id'>>): Promise<boolean>;
+
+  /** In the order they were cast */
+  listVotes(proposalId: string): Promise<ProposalVote[]>;
+  /** Saves a vote under its voter unless they already voted; false when they had */
+  castVote(proposalId: string, vote: ProposalVote): Promise<boolean>;
+}
+
+export interface RenovationRepository {
+  /** Newest first */
+  listByProperty(propertyId: string): Promise<RenovationProject[]>;
+  listByStatus(status: RenovationStatus): Promise<RenovationProject[]>;
+  get(projectId: string): Promise<RenovationProject | null>;
+  /** Saves a project under its id unless one is already there; false when it was */
+  claim(projectId: string, project: Omit<RenovationProject, 'id'>): Promise<boolean>;
+  /** Applies `changes` only if the project is still in status `from`; false when it wasn't */
+  transition(projectId: string, from: RenovationStatus, changes: Partial<Omit<RenovationProject, 'id'>>): Promise<boolean>;
+}
+
+export interface WatchlistRepository {
+  /** Newest first */
+  list(userId: string): Promise<WatchlistItem[]>;
+  find(userId: string, propertyId: string): Promise<WatchlistItem | null>;
+  /** Stamps `addedDate` */
+  add(userId: string, propertyId: string): Promise<string>;
+  remove(userId: string, itemId: string): Promise<void>;
+  update(userId: string, itemId: string, changes: Partial<Pick<WatchlistItem, 'alerts' | 'alertState'>>): Promise<void>;
+  subscribe(userId: string, callback: (items: WatchlistItem[]) => void): Unsubscribe;
+}
+
+export interface SavedSearchRepository {
+  /** Newest first */
+  list(userId: string): Promise<SavedSearch[]>;
+  create(userId: string, search: Omit<SavedSearch, 'id'>): Promise<string>;
+  update(userId: string, searchId: string, changes: Partial<Pick<SavedSearch, 'name' | 'criteria' | 'notifyOnMatch'>>): Promise<void>;
+  remove(userId: string, searchId: string): Promise<void>;
+  /** Newest first */
+  subscribe(userId: string, callback: (searches: SavedSearch[]) => void): Unsubscribe;
+}
+
+export interface NotificationRepository {
+  /** Newest first */
+  list(userId: string): Promise<AppNotification[]>;
+  /** Saves a notification under its key unless one is already there; false when it was */
+  claim(userId: string, key: string, notification: Omit<AppNotification, 'id'>): Promise<boolean>;
+  markRead(userId: string, notificationIds: string[]): Promise<void>;
+  /** Newest first */
+  subscribe(userId: string, callback: (notifications: AppNotification[]) => void): Unsubscribe;
+}
+
+export interface GameTimeRecord {
+  currentGameTime: Date;
+  lastRealTime: Date;
+  gameStartTime: Date;
+}
+
+export interface GameTimeRepository {
+  get(userId: string): Promise<GameTimeRecord | null>;
+  save(userId: string, record: GameTimeRecord): Promise<void>;
+  update(userId: string, changes: Partial<GameTimeRecord>): Promise<void>;
+}
+
+export interface ChainEventRepository {
+  getCursor(indexerId: string): Promise<ChainIndexCursor | null>;
+  saveCursor(indexerId: string, cursor: ChainIndexCursor): Promise<void>;
+  /** Stored under each event's id, so re-indexing a block range is idempotent */
+  saveEvents(events: IndexedChainEvent[]): Promise<void>;
+  /** Reorg rollback: removes a chain's events above `blockNumber` */
+  deleteEventsAfter(chainId: number, blockNumber: number): Promise<void>;
+  /** In chain order */
+  listByToken(chainId: number, tokenId: string): Promise<IndexedChainEvent[]>;
+  /** Events the account took part in, in chain order */
+  listByAccount(chainId: number, account: string): Promise<IndexedChainEvent[]>;
+}
+
+export interface PriceHistoryRepository {
+  get(source: PriceProviderId, bucket: number): Promise<PriceQuote | null>;
+  /** Latest quote in an earlier bucket */
+  latestBefore(source: PriceProviderId, bucket: number): Promise<PriceQuote | null>;
+  /** Stored under its bucket, so saving a bucket twice keeps one quote */
+  save(quote: PriceQuote): Promise<void>;
+  /** Quotes with `fromBucket <= bucket <= toBucket`, oldest first */
+  list(source: PriceProviderId, fromBucket: number, toBucket: number): Promise<PriceQuote[]>;
+}
+
+export interface MarketIndexRepository {
+  /** Most recently recorded quarter of an index */
+  latest(indexId: MarketIndexId): Promise<MarketIndexPoint | null>;
+  /** Stored under their quarter, so saving a quarter twice keeps one point */
+  saveAll(points: MarketIndexPoint[]): Promise<void>;
+  /** Points with `fromQuarter <= quarter <= toQuarter`, oldest first */
+  list(indexId: MarketIndexId, fromQuarter: number, toQuarter: number): Promise<MarketIndexPoint[]>;
+}
+
+export type MarketOrderChanges = Partial<Omit<MarketOrder, 'id'>>;
+
+export interface MarketOrderExecution {
+  order: MarketOrder; // The incoming order as it should be stored
+  trades: Omit<MarketTrade, 'id'>[];
+  fills: { orderId: string; changes: MarketOrderChanges }[]; // Resting orders the trades filled
+}
+
+export interface MarketRepository {
+  /** Id for an order about to be placed, e.g. to key its escrow hold */
+  newOrderId(): string;
+  getOrder(orderId: string): Promise<MarketOrder | null>;
+  /** Open and partially filled orders for a property */
+  listActiveOrders(propertyId: string): Promise<MarketOrder[]>;
+  listOrdersByOwner(ownerId: string, propertyId?: string): Promise<MarketOrder[]>;
+  updateOrder(orderId: string, changes: MarketOrderChanges): Promise<void>;
+  /** Applies `changes` only if the order is still in one of the `from` statuses; false when it wasn't */
+  transitionOrder(orderId: string, from: OrderStatus[], changes: MarketOrderChanges): Promise<boolean>;
+  /**
+   * Atomically store an incoming order, the trades it makes and the fills on
+   * the orders it hit. `match` gets the property's active orders as they stand
+   * at write time; the stored trades are returned with their ids.
+   */
+  executeOrder(
+    orderId: string,
+    propertyId: string,
+    match: (resting: MarketOrder[]) => MarketOrderExecution
+  ): Promise<{ order: MarketOrder; trades: MarketTrade[] }>;
+
+  listTradesByProperty(propertyId: string): Promise<MarketTrade[]>;
+  /** Trades the user still has to settle their side of */
+  listPendingTrades(userId: string): Promise<MarketTrade[]>;
+  /** Marks one side of a trade settled; false when it already was */
+  claimSettlement(tradeId: string, side: 'buyer' | 'seller'): Promise<boolean>;
+  /**
+   * Atomically marks the seller side settled and applies `reduce`'s changes to
+   * the seller's lots. False, without calling `reduce`, when it already was.
+   */
+  settleSale(
+    tradeId: string,
+    lotIds: string[],
+    reduce: (lots: InvestmentRecord[]) => { id: string; changes: Partial<Omit<InvestmentRecord, 'id'>> }[]
+  ): Promise<boolean>;
+}
+
+export interface MockInvestorRepository {
+  listByProperty(propertyId: string): Promise<MockInvestor[]>;
+  get(investorId: string): Promise<MockInvestor | null>;
+  add(investor: Omit<MockInvestor, 'id'>): Promise<string>;
+  update(investorId: string, changes: Partial<Omit<MockInvestor, 'id'>>): Promise<void>;
+}
+
+// The market-value fields of a shared pool property
+export interface PropertyValuation {
+  class: PropertyClass;
+  region: string;
+  price: number;
+  currentValue?: number;
+  originalValue?: number;
+  appreciationRate?: number;
+  lastAppreciationCalculated?: Date; // Game time
+  lastAppreciation?: Date; // Real time of the last offline catch-up
+  quarterlyAppreciationHistory?: QuarterlyGain[];
+}
+
+export type PropertyValuationChanges = Partial<Omit<PropertyValuation, 'class' | 'region' | 'price'>>;
+
+export interface AppreciationRepository {
+  get(propertyId: string): Promise<PropertyValuation | null>;
+  update(propertyId: string, changes: PropertyValuationChanges): Promise<void>;
+  /** Ids of properties in the `active` status */
+  listActive(): Promise<string[]>;
+}
+
+// Account profile and game state, kept together per user
+export interface UserProfileRecord {
+  uid?: string;
+  userId?: string; // Written by the game state, same as uid
+  email?: string;
+  displayName?: string;
+  walletAddress?: string;
+  walletLinkedAt?: Date;
+  subscription?: {
+    status: 'free' | 'premium';
+    plan: string;
+    startDate?: Date;
+    endDate?: Date;
+  };
+  createdAt?: Date;
+  lastLoginAt?: Date;
+  gameStartTime?: Date;
+
+  isInitialized?: boolean;
+  propertiesInitialized?: boolean;
+  propertyCount?: number;
+  poolManagerStarted?: boolean;
+  lastActiveAt?: Date;
+  updatedAt?: Date;
+  resetAt?: Date;
+}
+
+export interface UserProfileRepository {
+  get(userId: string): Promise<UserProfileRecord | null>;
+  /** Merges into the existing profile, creating it when there is none; undefined fields are skipped */
+  save(userId: string, changes: UserProfileRecord): Promise<void>;
+}
+
+export type PersistenceBackend = 'firestore' | 'memory';
+
+export interface Repositories {
+  backend: PersistenceBackend;
+  properties: PropertyRepository; // Shared marketplace pool
+  userProperties(userId: string): PropertyRepository; // Per-user property pool
+  investments: InvestmentRepository;
+  escrows: EscrowRepository;
+  wallets: WalletRepository;
+  rentalPayments: RentalPaymentRepository;
+  loans: LoanRepository;
+  dispositions: DispositionRepository;
+  governance: GovernanceRepository;
+  renovations: RenovationRepository;
+  watchlists: WatchlistRepository;
+  savedSearches: SavedSearchRepository;
+  notifications: NotificationRepository;
+  gameTime: GameTimeRepository;
+  chainEvents: ChainEventRepository;
+  priceHistory: PriceHistoryRepository;
+  marketIndices: MarketIndexRepository;
+  market: MarketRepository; // Secondary market orders and trades
+  mockInvestors: MockInvestorRepository;
+  appreciation: AppreciationRepository;
+  userProfiles: UserProfileRepository;
+}
@@ -1,9 +1,9 @@
-import { doc, getDoc, updateDoc, collection, query, where, getDocs } from 'firebase/firestore';
-import { db } from '../firebase/config';
+import { getRepositories } from '../repositories';
 import { RentalIncomeService } from './rentalIncomeService';
 import { PropertyAppreciationService } from './propertyAppreciationService';
 import { PropertyContractService } from './propertyContractService';
-import { getAppreciationRate, calculateQuarterlyRate } from '../config/appreciationConfig';
+import { MarketModelService } from './marketModelService';
+import { getSimulationClock, GAME_MONTH_MS, GAME_QUARTER_MS } from './simulationClock';
 
 interface BackgroundCalculationResult {
   rentalIncomeGenerated: number;
@@ -25,7 +25,7 @@ interface OfflineProgress {
 
 export class BackgroundCalculationService {
   
-  // Calculate missed rental income using the new RentalIncomeService
+  // Pay the rental income missed while offline through the rental engine
   static async calculateMissedRentalIncome(
     userId: string, 
     lastGameTime: Date, 
@@ -35,31 +35,15 @@ export class BackgroundCalculationService {
       console.log('Calculating missed rental income for user:', userId);
       console.log('Time period:', lastGameTime, 'to', currentGameTime);
 
-      // Calculate how many game months have passed
-      const timeDiff = currentGameTime.getTime() - lastGameTime.getTime();
-      const gameMonthsElapsed = Math.floor(timeDiff / (1000 * 60 * 60 * 24 * 30)); // Approx game months
-
-      if (gameMonthsElapsed < 1) {
+      // Rent is paid per finished game month
+      if (currentGameTime.getTime() - lastGameTime.getTime() < GAME_MONTH_MS) {
         console.log('Less than 1 game month elapsed, no rental processing needed');
         return 0;
       }
 
-      console.log(`Processing ${gameMonthsElapsed} months of missed rental income`);
-
-      let totalRentalIncome = 0;
-
-      // Process rental income for each missed month
-      for (let month = 1; month <= gameMonthsElapsed; month++) {
-        const paymentDate = new Date(lastGameTime.getTime() + (month * 30 * 24 * 60 * 60 * 1000));
-        
-        const monthlyIncome = await RentalIncomeService.processUserRentalIncome(userId, paymentDate);
-        totalRentalIncome += monthlyIncome;
-        
-        console.log(`Month ${month}: ${monthlyIncome} rental income processed`);
-      }
-
-      console.log(`Total missed rental income: ${totalRentalIncome}`);
-      return totalRentalIncome;
+      const result = await RentalIncomeService.collectRent(userId);
+      console.log(`Total missed rental income: ${result.amountPaid}`);
+      return result.amountPaid;
 
     } catch (error) {
       console.error('Error calculating missed rental income:', error);
@@ -82,7 +66,7 @@ export class BackgroundCalculationService {
       
       // Process appreciation for all properties for the time period
       const timeDiff = currentGameTime.getTime() - lastGameTime.getTime();
-      const quartersElapsed = Math.floor(timeDiff / (1000 * 60 * 60 * 24 * 90)); // 90 days per quarter
+      const quartersElapsed = Math.floor(timeDiff / GAME_QUARTER_MS);
 
       if (quartersElapsed < 1) {
         console.log('Less than 1 quarter elapsed, no appreciation processing needed');
@@ -93,7 +77,7 @@ export class BackgroundCalculationService {
 
       // Process appreciation for each quarter
       for (let quarter = 1; quarter <= quartersElapsed; quarter++) {
-        const quarterDate = new Date(lastGameTime.getTime() + (quarter * 90 * 24 * 60 * 60 * 1000));
+        const quarterDate = new Date(lastGameTime.getTime() + (quarter * GAME_QUARTER_MS));
         await PropertyAppreciationService.processAllPropertyAppreciation(quarterDate);
       }
 
@@ -115,9 +99,10 @@ export class BackgroundCalculationService {
 
   // Process offline progress for UI display
   static async processOfflineProgress(userId: string, lastSeen: Date): Promise<OfflineProgress> {
-    const now = new Date();
+    const clock = getSimulationClock();
+    const now = clock.now();
     const offlineRealTime = now.getTime() - lastSeen.getTime();
-    const offlineGameTime = offlineRealTime * 1440; // TIME_MULTIPLIER from useGameTime
+    const offlineGameTime = clock.toGameMs(offlineRealTime);
     const currentGameTime = new Date(lastSeen.getTime() + offlineGameTime);
 
     // Calculate missed rental income
@@ -157,7 +142,7 @@ export class BackgroundCalculationService {
     return {
       realTimeOffline: offlineRealTime,
       gameTimeElapsed: offlineGameTime,
-      gameMonthsElapsed: Math.floor(offlineGameTime / (1000 * 60 * 60 * 24 * 30)),
+      gameMonthsElapsed: Math.floor(offlineGameTime / GAME_MONTH_MS),
       rentalIncome: missedRentalIncome,
       appreciation: appreciationGains,
       newProperties: [],
@@ -187,7 +172,7 @@ export class BackgroundCalculationService {
     try {
       // Calculate time difference in game months
       const timeDiffMs = currentGameTime.getTime() - lastSeenGameTime.getTime();
-      const gameMonthsElapsed = Math.floor(timeDiffMs / (1000 * 60 * 60 * 24 * 30)); // Approximate game months
+      const gameMonthsElapsed = Math.floor(timeDiffMs / GAME_MONTH_MS);
       
       if (gameMonthsElapsed < 1) {
         console.log('⏱️ Less than 1 game month elapsed, skipping calculations');
@@ -200,30 +185,21 @@ export class BackgroundCalculationService {
       const userInvestments = await this.getUserInvestments(userId);
       console.log(`🏠 Found ${userInvestments.length} investments to process`);
       
-      // Process rental income for each month
-      for (let month = 1; month <= gameMonthsElapsed; month++) {
-        const monthDate = new Date(lastSeenGameTime.getTime() + (month * 30 * 24 * 60 * 60 * 1000));
-        const monthlyRental = await this.calculateMonthlyRentalIncome(userInvestments, monthDate);
-        result.rentalIncomeGenerated += monthlyRental;
-        
-        console.log(`💰 Month ${month}: Generated $${monthlyRental} rental income`);
-      }
+      // Pay the finished game months' rent
+      const rental = await RentalIncomeService.collectRent(userId);
+      result.rentalIncomeGenerated = rental.amountPaid;
+      console.log(`💰 Paid $${rental.amountPaid.toFixed(2)} rental income for ${rental.periodsPaid} property-months`);
       
       // Process quarterly appreciation (every 3 months)
       const quartersElapsed = Math.floor(gameMonthsElapsed / 3);
       if (quartersElapsed > 0) {
-        const appreciationResult = await this.processPropertyAppreciation(userInvestments, quartersElapsed);
+        const appreciationResult = await this.processPropertyAppreciation(userInvestments, lastSeenGameTime, quartersElapsed);
         result.propertiesAppreciated = appreciationResult.propertiesAffected;
         result.totalValueChange = appreciationResult.totalValueChange;
         
         console.log(`📈 Processed ${quartersElapsed} quarters of appreciation`);
       }
       
-      // Update user's USDC balance with rental income
-      if (result.rentalIncomeGenerated > 0) {
-        await this.creditUserBalance(userId, result.rentalIncomeGenerated);
-      }
-      
       console.log('✅ Background calculations completed:', result);
       return result;
       
@@ -236,23 +212,19 @@ export class BackgroundCalculationService {
   // Get user's current property investments
   private static async getUserInvestments(userId: string): Promise<any[]> {
     try {
-      const investmentsQuery = query(
-        collection(db, 'investments'),
-        where('userId', '==', userId)
-      );
-      const investmentsSnapshot = await getDocs(investmentsQuery);
+      const { investments: investmentRepository, properties } = getRepositories();
+      const userInvestments = await investmentRepository.listByUser(userId);
       
       const investments = [];
-      for (const investmentDoc of investmentsSnapshot.docs) {
-        const investment = investmentDoc.data();
-        
+      for (const investment of userInvestments) {
         // Get property details
-        const propertyDoc = await getDoc(doc(db, 'properties', investment.propertyId));
-        if (propertyDoc.exists()) {
+        const property = await properties.get(investment.propertyId);
+        if (property) {
           investments.push({
             ...investment,
-            property: propertyDoc.data(),
-            investmentId: investmentDoc.id,
+            userId,
+            property,
+            investmentId: investment.id,
           });
         }
       }
@@ -264,57 +236,38 @@ export class BackgroundCalculationService {
     }
   }
   
-  // Calculate monthly rental income for user's portfolio
-  private static async calculateMonthlyRentalIncome(investments: any[], monthDate: Date): Promise<number> {
-    let totalMonthlyRental = 0;
-    
-    for (const investment of investments) {
-      const property = investment.property;
-      const sharesOwned = investment.sharesOwned;
-      
-      // Calculate rental yield
-      const annualRental = property.currentValue * (property.rentalYield / 100);
-      const monthlyRental = annualRental / 12;
-      const monthlyRentalPerShare = monthlyRental / 100; // 100 total shares per property
-      const userMonthlyRental = monthlyRentalPerShare * sharesOwned;
-      
-      totalMonthlyRental += userMonthlyRental;
-    }
-    
-    return Number(totalMonthlyRental.toFixed(2));
-  }
-  
   // Process property appreciation for multiple quarters
-  private static async processPropertyAppreciation(investments: any[], quarters: number): Promise<{
+  private static async processPropertyAppreciation(investments: any[], fromGameTime: Date, quarters: number): Promise<{
     propertiesAffected: number;
     totalValueChange: number;
   }> {
     let propertiesAffected = 0;
     let totalValueChange = 0;
     
-    // For now, we'll apply a simple appreciation model
-    // TODO: Replace with more sophisticated appreciation service
+    const fromQuarter = MarketModelService.quarterOf(fromGameTime);
+
     for (const investment of investments) {
       const property = investment.property;
       const currentValue = property.currentValue;
       
-      // Use centralized appreciation config
-      const annualRate = getAppreciationRate(property.class as 'A' | 'B' | 'C');
-      const quarterlyRate = calculateQuarterlyRate(annualRate);
-      
-      const totalAppreciation = quarterlyRate * quarters;
-      const newValue = currentValue * (1 + totalAppreciation);
+      // Quarterly moves of the property's region and class indices since it was last seen
+      const growth = MarketModelService.growth(
+        { id: investment.propertyId, class: property.class, region: property.region },
+        fromQuarter,
+        fromQuarter + quarters
+      );
+      const newValue = currentValue * growth;
       const valueChange = newValue - currentValue;
       
       // Update property value in database
-      await updateDoc(doc(db, 'properties', investment.propertyId), {
+      await getRepositories().appreciation.update(investment.propertyId, {
         currentValue: newValue,
         lastAppreciation: new Date(),
       });
       
       // Update investment value
       const newInvestmentValue = (newValue / 100) * investment.sharesOwned;
-      await updateDoc(doc(db, 'investments', investment.investmentId), {
+      await getRepositories().investments.update(investment.userId, investment.investmentId, {
         currentValue: newInvestmentValue,
       });
       
@@ -327,30 +280,4 @@ export class BackgroundCalculationService {
       totalValueChange: Number(totalValueChange.toFixed(2)),
     };
   }
-  
-  // Credit rental income to user's USDC balance
-  private static async creditUserBalance(userId: string, amount: number): Promise<void> {
-    try {
-      const userDoc = doc(db, 'users', userId);
-      const userSnapshot = await getDoc(userDoc);
-      
-      if (userSnapshot.exists()) {
-        const userData = userSnapshot.data();
-        const newBalance = (userData.usdcBalance || 0) + amount;
-        
-        await updateDoc(userDoc, {
-          usdcBalance: newBalance,
-          lastRentalPayment: new Date(),
-        });
-      } else {
-        // Create user document if it doesn't exist
-        await updateDoc(userDoc, {
-          usdcBalance: amount,
-          lastRentalPayment: new Date(),
-        });
-      }
-    } catch (error) {
-      console.error('Error crediting user balance:', error);
-    }
-  }
-}
\ No newline at end of file
+}
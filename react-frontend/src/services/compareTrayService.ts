@@ -0,0 +1,106 @@
+import type { Property } from '../types/property';
+
+/**
+ * The compare tray: up to four properties picked from the property cards or
+ * the watchlist to view side by side on /compare. Kept in local storage, so
+ * it survives navigation and reloads, and shared between open tabs.
+ */
+
+export type CompareTrayItem = Pick<Property, 'id' | 'address' | 'city' | 'class'>;
+
+export class CompareTrayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CompareTrayError';
+  }
+}
+
+const STORAGE_KEY = 'fracestate_compare_tray';
+
+export class CompareTrayService {
+  static readonly MAX_ITEMS = 4;
+
+  private static listeners = new Set<(items: CompareTrayItem[]) => void>();
+
+  static getItems(): CompareTrayItem[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const items = stored ? JSON.parse(stored) : [];
+      return Array.isArray(items) ? items.slice(0, this.MAX_ITEMS) : [];
+    } catch (error) {
+      console.error('Failed to load compare tray:', error);
+      return [];
+    }
+  }
+
+  static has(propertyId: string): boolean {
+    return this.getItems().some(item => item.id === propertyId);
+  }
+
+  /**
+   * Add a property to the tray; already there is a no-op
+   * @throws CompareTrayError when the tray is full
+   */
+  static add(property: CompareTrayItem): void {
+    const items = this.getItems();
+    if (items.some(item => item.id === property.id)) return;
+    if (items.length >= this.MAX_ITEMS) {
+      throw new CompareTrayError(`You can compare up to ${this.MAX_ITEMS} properties. Remove one first.`);
+    }
+
+    const { id, address, city } = property;
+    this.save([...items, { id, address, city, class: property.class }]);
+    console.log(`⚖️ Added ${address} to the compare tray`);
+  }
+
+  static remove(propertyId: string): void {
+    this.save(this.getItems().filter(item => item.id !== propertyId));
+  }
+
+  static toggle(property: CompareTrayItem): void {
+    if (this.has(property.id)) {
+      this.remove(property.id);
+    } else {
+      this.add(property);
+    }
+  }
+
+  static clear(): void {
+    this.save([]);
+  }
+
+  /**
+   * Link to the comparison of the given properties, e.g. /compare?ids=a,b
+   */
+  static linkOf(propertyIds: string[]): string {
+    return `/compare?ids=${propertyIds.map(encodeURIComponent).join(',')}`;
+  }
+
+  /**
+   * Called with the tray's items now and on every change, including changes
+   * made in other tabs
+   */
+  static subscribe(callback: (items: CompareTrayItem[]) => void): () => void {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) callback(this.getItems());
+    };
+
+    this.listeners.add(callback);
+    window.addEventListener('storage', handleStorage);
+    callback(this.getItems());
+
+    return () => {
+      this.listeners.delete(callback);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }
+
+  private static save(items: CompareTrayItem[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+    } catch (error) {
+      console.error('Failed to save compare tray:', error);
+    }
+    this.listeners.forEach(listener => listener(items));
+  }
+}
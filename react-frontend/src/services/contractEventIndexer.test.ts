@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Interface, ZeroAddress, type Filter } from 'ethers';
+import { createMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+import { EscrowAbi, RealEstateAbi } from '../contracts/generated';
+import { getContractAddress } from '../contracts/deployments';
+import { ContractEventIndexer } from './contractEventIndexer';
+
+const REAL_ESTATE = getContractAddress(31337, 'RealEstate')!.toLowerCase();
+const OPERATOR = '0x00000000000000000000000000000000000000aa';
+const MINTER = '0x00000000000000000000000000000000000000bb';
+const ALICE = '0x00000000000000000000000000000000000000a1';
+const BOB = '0x00000000000000000000000000000000000000b0';
+const STRAY_ESCROW = '0x00000000000000000000000000000000000000ee';
+
+const realEstate = new Interface(RealEstateAbi);
+const escrow = new Interface(EscrowAbi);
+
+function log(address: string, contract: Interface, name: string, values: unknown[], blockNumber: number, index: number) {
+  const { data, topics } = contract.encodeEventLog(name, values);
+  return {
+    address,
+    data,
+    topics,
+    blockNumber,
+    blockHash: `0xblock${blockNumber}`,
+    index,
+    transactionHash: `0xtx${blockNumber}`,
+  };
+}
+
+const logs = [
+  log(REAL_ESTATE, realEstate, 'TransferSingle', [OPERATOR, ZeroAddress, REAL_ESTATE, 1, 100], 1, 0),
+  log(REAL_ESTATE, realEstate, 'PropertyMinted', [1, MINTER, 10n ** 16n, 'ipfs://1'], 1, 1),
+  log(REAL_ESTATE, realEstate, 'TransferBatch', [OPERATOR, REAL_ESTATE, ALICE, [1], [40]], 2, 0),
+  log(REAL_ESTATE, realEstate, 'TransferSingle', [OPERATOR, ALICE, BOB, 1, 15], 3, 0),
+  log(STRAY_ESCROW, escrow, 'TransactionFinalized', [BOB, ALICE, 10n ** 18n, 3], 3, 1),
+];
+
+let head = 3;
+let forks: Record<number, string> = {}; // Blocks replaced by a reorg, by the suffix of their new hash
+let staleLogs = false; // eth_getLogs still answers from the replaced blocks
+
+const hashOf = (blockNumber: number) => `0xblock${blockNumber}${forks[blockNumber] ?? ''}`;
+
+// Serves the logs above the way eth_getLogs filters them
+const provider = {
+  getNetwork: async () => ({ chainId: 31337n }),
+  getBlockNumber: async () => head,
+  getBlock: async (blockNumber: number) => ({
+    number: blockNumber,
+    hash: hashOf(blockNumber),
+    parentHash: hashOf(blockNumber - 1),
+    timestamp: blockNumber,
+  }),
+  getLogs: async (filter: Filter) => {
+    const addresses = ([] as string[]).concat(filter.address as string | string[]).map(address => address.toLowerCase());
+    const topics = filter.topics![0] as string[];
+    return logs
+      .filter(entry => addresses.includes(entry.address) && topics.includes(entry.topics[0]))
+      .map(entry => (staleLogs ? entry : { ...entry, blockHash: hashOf(entry.blockNumber) }));
+  },
+};
+
+vi.mock('./localChain', () => ({ getLocalChainProvider: () => provider }));
+
+describe('ContractEventIndexer', () => {
+  beforeEach(async () => {
+    setRepositories(createMemoryRepositories());
+    head = 3;
+    forks = {};
+    staleLogs = false;
+    await ContractEventIndexer.sync();
+  });
+
+  it('builds the ownership timeline from the ERC-1155 transfers', async () => {
+    const timeline = await ContractEventIndexer.getOwnershipTimeline('1');
+
+    expect(timeline.map(change => [change.account, change.balance])).toEqual([
+      [REAL_ESTATE, 100],
+      [REAL_ESTATE, 60],
+      [ALICE, 40],
+      [ALICE, 25],
+      [BOB, 15],
+    ]);
+  });
+
+  it('takes the minted share count from the mint transfer', async () => {
+    const events = await getRepositories().chainEvents.listByToken(31337, '1');
+
+    expect(events.find(event => event.eventName === 'PropertyMinted')?.shares).toBe(100);
+  });
+
+  it('ignores settlements from escrows missing from the deployment manifest', async () => {
+    expect(await ContractEventIndexer.getTradeHistory({ account: BOB })).toEqual([]);
+  });
+
+  it('stops polling once every caller has released it', () => {
+    const stop = vi.spyOn(ContractEventIndexer, 'stop');
+    const first = ContractEventIndexer.start();
+    const second = ContractEventIndexer.start();
+
+    first();
+    first();
+    expect(stop).not.toHaveBeenCalled();
+    second();
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ContractEventIndexer reorgs', () => {
+  beforeEach(() => {
+    setRepositories(createMemoryRepositories());
+    head = 3;
+    forks = {};
+    staleLogs = false;
+  });
+
+  it('stores nothing from a range whose logs come from a replaced block', async () => {
+    forks = { 2: 'b' };
+    staleLogs = true;
+
+    expect(await ContractEventIndexer.sync()).toBe(0);
+    expect(await getRepositories().chainEvents.listByToken(31337, '1')).toEqual([]);
+
+    staleLogs = false;
+    await ContractEventIndexer.sync();
+    expect(await ContractEventIndexer.getOwnershipTimeline('1')).toHaveLength(5);
+  });
+
+  it('rolls back when the chain reorganizes between ranges', async () => {
+    await ContractEventIndexer.sync();
+    const indexedTip = await provider.getBlock(3);
+    head = 4;
+    forks = { 3: 'b' };
+    // The reorg lands after the sync's opening check has seen the old tip
+    vi.spyOn(provider, 'getBlock').mockResolvedValueOnce(indexedTip);
+
+    expect(await ContractEventIndexer.sync()).toBe(0);
+    expect(await getRepositories().chainEvents.listByToken(31337, '1')).toEqual([]);
+
+    await ContractEventIndexer.sync();
+    expect(await ContractEventIndexer.getOwnershipTimeline('1')).toHaveLength(5);
+  });
+});
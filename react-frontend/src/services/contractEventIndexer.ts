@@ -0,0 +1,498 @@
+import { Interface, ZeroAddress, type Block, type Log } from 'ethers';
+import { getRepositories, type Unsubscribe } from '../repositories';
+import { EscrowAbi, EscrowWithStableAndYieldAbi, RealEstateAbi } from '../contracts/generated';
+import { getContractAddress, getDeployment } from '../contracts/deployments';
+import { INDEXER_CONFIG } from '../config/chainConfig';
+import { getLocalChainProvider } from './localChain';
+
+/**
+ * Indexes RealEstate share events and settlements of the manifest's escrows
+ * from the local node into the `chainEvents` repository. Ownership comes from
+ * the ERC-1155 transfer events, which cover every way shares can move; the
+ * contract's own events label the trades. A sync backfills from the last indexed
+ * block in bounded ranges; `start` keeps following new blocks. The hashes of
+ * recently indexed blocks are kept on the cursor, and when one no longer
+ * matches the chain the events above the last matching block are dropped and
+ * re-indexed. The same check runs between ranges: a range whose logs come from
+ * replaced blocks, or that no longer builds on the last indexed block, is not
+ * stored.
+ */
+
+type IndexedEventName =
+  | 'PropertyMinted'
+  | 'SharesPurchased'
+  | 'SharesTransferred'
+  | 'PropertyPriceUpdated'
+  | 'TransferSingle'
+  | 'TransferBatch'
+  | 'TransactionFinalized';
+
+interface IndexedChainEvent {
+  id: string; // chainId:transactionHash:logIndex, plus :index per token of a TransferBatch
+  chainId: number;
+  contractAddress: string;
+  eventName: IndexedEventName;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: Date;
+  tokenId?: string; // RealEstate token id
+  from?: string; // Share sender (the RealEstate contract for primary sales, unset for mints) or escrow seller
+  to?: string; // Share recipient (unset for burns) or escrow buyer
+  shares?: number;
+  amountWei?: string; // Total cost, price per share or settled amount
+  uri?: string;
+  accounts: string[]; // Lower-cased participants, for per-account queries
+}
+
+interface ChainIndexCursor {
+  chainId: number;
+  realEstateAddress: string | null; // A redeployed contract invalidates the index
+  escrowAddresses?: string[]; // Lower-cased and sorted; a changed manifest re-indexes the new escrows' history
+  lastBlock: number;
+  recentBlocks: { number: number; hash: string }[]; // Oldest first, at most INDEXER_CONFIG.reorgDepth
+}
+
+interface OwnershipChange {
+  eventId: string;
+  tokenId: string;
+  account: string;
+  change: number;
+  balance: number; // Shares held by the account after this event
+  blockNumber: number;
+  timestamp: Date;
+}
+
+interface TradeRecord {
+  eventId: string;
+  kind: 'primary_sale' | 'transfer' | 'escrow_settlement';
+  tokenId?: string;
+  from?: string;
+  to?: string;
+  shares?: number;
+  amountWei?: string;
+  contractAddress: string;
+  transactionHash: string;
+  blockNumber: number;
+  timestamp: Date;
+}
+
+const REAL_ESTATE_EVENTS: IndexedEventName[] = [
+  'PropertyMinted', 'SharesPurchased', 'SharesTransferred', 'PropertyPriceUpdated', 'TransferSingle', 'TransferBatch',
+];
+const TRANSFER_EVENTS: IndexedEventName[] = ['TransferSingle', 'TransferBatch'];
+
+const realEstateInterface = new Interface(RealEstateAbi);
+
+// Escrow.sol and the stablecoin escrows emit differently shaped TransactionFinalized events
+const escrowInterfaces = [
+  new Interface(EscrowAbi),
+  new Interface(EscrowWithStableAndYieldAbi),
+];
+
+const realEstateTopics = REAL_ESTATE_EVENTS.map(name => realEstateInterface.getEvent(name)!.topicHash);
+const escrowFinalizedTopics = escrowInterfaces.map(escrowInterface => escrowInterface.getEvent('TransactionFinalized')!.topicHash);
+
+function compareChainOrder(a: IndexedChainEvent, b: IndexedChainEvent): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+// The zero address stands for a mint or burn rather than a holder
+function holder(address: string): string | undefined {
+  const normalized = address.toLowerCase();
+  return normalized === ZeroAddress ? undefined : normalized;
+}
+
+function sameAddresses(a: string[] | undefined, b: string[]): boolean {
+  return !!a && a.length === b.length && a.every((address, i) => address === b[i]);
+}
+
+export class ContractEventIndexer {
+  private static polling = false;
+  private static starts = 0;
+  private static timer: ReturnType<typeof setTimeout> | null = null;
+  private static syncing: Promise<number> | null = null;
+  private static listeners: Set<() => void> = new Set();
+  private static chainId: number | null = null;
+
+  static isEnabled(): boolean {
+    return import.meta.env.VITE_CHAIN_INDEXER === 'true';
+  }
+
+  /**
+   * Sync now and keep following new blocks. Each call returns a release; the
+   * indexer stops once every caller has released it.
+   */
+  static start(): () => void {
+    this.starts++;
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      this.starts--;
+      if (this.starts === 0) this.stop();
+    };
+
+    if (this.polling) return release;
+    this.polling = true;
+
+    const tick = async () => {
+      try {
+        await this.sync();
+      } catch (error) {
+        console.error('Error indexing contract events:', error);
+      }
+      if (this.polling) {
+        this.timer = setTimeout(tick, INDEXER_CONFIG.pollIntervalMs);
+      }
+    };
+    tick();
+    return release;
+  }
+
+  static stop(): void {
+    this.polling = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Index everything up to the current head. Concurrent callers share one run.
+   * Returns the number of events stored.
+   */
+  static sync(): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Called after every sync that stored or rolled back events
+   */
+  static subscribe(listener: () => void): Unsubscribe {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static async getTokenEvents(tokenId: string): Promise<IndexedChainEvent[]> {
+    return getRepositories().chainEvents.listByToken(await this.getChainId(), tokenId);
+  }
+
+  /**
+   * Every share movement for a token with the resulting balance of each party,
+   * taken from the ERC-1155 transfers
+   */
+  static async getOwnershipTimeline(tokenId: string): Promise<OwnershipChange[]> {
+    const events = (await this.getTokenEvents(tokenId)).filter(event => TRANSFER_EVENTS.includes(event.eventName));
+    const balances = new Map<string, number>();
+    const timeline: OwnershipChange[] = [];
+
+    const record = (event: IndexedChainEvent, account: string, change: number) => {
+      const balance = (balances.get(account) || 0) + change;
+      balances.set(account, balance);
+      timeline.push({
+        eventId: event.id,
+        tokenId,
+        account,
+        change,
+        balance,
+        blockNumber: event.blockNumber,
+        timestamp: event.timestamp,
+      });
+    };
+
+    events.forEach(event => {
+      if (!event.shares) return;
+      if (event.from) record(event, event.from, -event.shares);
+      if (event.to) record(event, event.to, event.shares);
+    });
+
+    return timeline;
+  }
+
+  /**
+   * Primary sales, transfers and escrow settlements, newest first
+   */
+  static async getTradeHistory(filter: { tokenId?: string; account?: string }): Promise<TradeRecord[]> {
+    const chainEvents = getRepositories().chainEvents;
+    const chainId = await this.getChainId();
+    const account = filter.account?.toLowerCase();
+
+    let events: IndexedChainEvent[];
+    if (filter.tokenId) {
+      events = await chainEvents.listByToken(chainId, filter.tokenId);
+      if (account) events = events.filter(event => event.accounts.includes(account));
+    } else if (account) {
+      events = await chainEvents.listByAccount(chainId, account);
+    } else {
+      return [];
+    }
+
+    return events
+      .filter(event => event.eventName === 'SharesPurchased' || event.eventName === 'SharesTransferred' || event.eventName === 'TransactionFinalized')
+      .map(event => ({
+        eventId: event.id,
+        kind: event.eventName === 'SharesPurchased' ? 'primary_sale'
+          : event.eventName === 'SharesTransferred' ? 'transfer'
+          : 'escrow_settlement',
+        tokenId: event.tokenId,
+        from: event.from,
+        to: event.to,
+        shares: event.shares,
+        amountWei: event.amountWei,
+        contractAddress: event.contractAddress,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        timestamp: event.timestamp,
+      }) satisfies TradeRecord)
+      .reverse();
+  }
+
+  private static async runSync(): Promise<number> {
+    const provider = getLocalChainProvider();
+    const chainEvents = getRepositories().chainEvents;
+    const chainId = await this.getChainId();
+    const realEstateAddress = this.getRealEstateAddress(chainId);
+    const escrowAddresses = this.getEscrowAddresses(chainId);
+    const indexerId = `chain-${chainId}`;
+    const head = await provider.getBlockNumber();
+
+    let changed = false;
+    let cursor = await chainEvents.getCursor(indexerId);
+    if (!cursor || cursor.realEstateAddress !== realEstateAddress || !sameAddresses(cursor.escrowAddresses, escrowAddresses)) {
+      if (cursor) {
+        console.log(`🔎 Deployed contracts changed on chain ${chainId}; rebuilding the index`);
+        await chainEvents.deleteEventsAfter(chainId, -1);
+        changed = true;
+      }
+      cursor = { chainId, realEstateAddress, escrowAddresses, lastBlock: INDEXER_CONFIG.startBlock - 1, recentBlocks: [] };
+    }
+
+    const rolledBack = await this.rollBackReorg(indexerId, cursor);
+    changed ||= rolledBack !== cursor;
+    cursor = rolledBack;
+
+    let indexed = 0;
+    while (cursor.lastBlock < head) {
+      const fromBlock = cursor.lastBlock + 1;
+      const toBlock = Math.min(head, fromBlock + INDEXER_CONFIG.maxBlockRange - 1);
+
+      // Pin the range's last block before reading its logs: the hash remembered for the range is the one they were checked against
+      const block = await provider.getBlock(toBlock);
+      if (!block?.hash) break; // Head moved under us; pick up on the next sync
+
+      const events = await this.fetchEvents(chainId, realEstateAddress, escrowAddresses, fromBlock, block);
+      if (!events || !(await this.extendsCursor(cursor, fromBlock, block))) {
+        // Reorganized mid-sync; drop what the old fork left and resume on the next sync
+        const reorganized = await this.rollBackReorg(indexerId, cursor);
+        changed ||= reorganized !== cursor;
+        cursor = reorganized;
+        break;
+      }
+      await chainEvents.saveEvents(events);
+
+      cursor = {
+        ...cursor,
+        lastBlock: toBlock,
+        recentBlocks: [...cursor.recentBlocks, { number: toBlock, hash: block.hash }].slice(-INDEXER_CONFIG.reorgDepth),
+      };
+      await chainEvents.saveCursor(indexerId, cursor);
+      indexed += events.length;
+    }
+
+    if (indexed > 0 || changed) {
+      this.listeners.forEach(listener => listener());
+    }
+    return indexed;
+  }
+
+  /**
+   * Walk back through the remembered blocks to the newest one still on the
+   * chain and drop everything indexed after it. If none survive (a reorg deeper
+   * than the window, or a restarted dev node) the index is rebuilt from scratch.
+   * Saves and returns the rolled back cursor, or returns `cursor` unchanged.
+   */
+  private static async rollBackReorg(indexerId: string, cursor: ChainIndexCursor): Promise<ChainIndexCursor> {
+    const provider = getLocalChainProvider();
+    const recent = cursor.recentBlocks;
+    if (recent.length === 0) return cursor;
+
+    let keep = recent.length;
+    while (keep > 0) {
+      const remembered = recent[keep - 1];
+      const block = await provider.getBlock(remembered.number);
+      if (block?.hash === remembered.hash) break;
+      keep--;
+    }
+    if (keep === recent.length) return cursor;
+
+    const ancestor = keep > 0 ? recent[keep - 1].number : INDEXER_CONFIG.startBlock - 1;
+    const chainEvents = getRepositories().chainEvents;
+    await chainEvents.deleteEventsAfter(cursor.chainId, ancestor);
+    console.warn(`⚠️ Chain reorg detected on chain ${cursor.chainId}; re-indexing from block ${ancestor + 1}`);
+
+    const rolledBack = { ...cursor, lastBlock: ancestor, recentBlocks: recent.slice(0, keep) };
+    await chainEvents.saveCursor(indexerId, rolledBack);
+    return rolledBack;
+  }
+
+  /**
+   * Whether a range starting at `fromBlock` builds on the last indexed block.
+   * `last` is the range's last block, reused when the range is a single block.
+   */
+  private static async extendsCursor(cursor: ChainIndexCursor, fromBlock: number, last: Block): Promise<boolean> {
+    const previous = cursor.recentBlocks[cursor.recentBlocks.length - 1];
+    if (!previous || previous.number !== fromBlock - 1) return true;
+
+    const first = last.number === fromBlock ? last : await getLocalChainProvider().getBlock(fromBlock);
+    return first?.parentHash === previous.hash;
+  }
+
+  private static async fetchEvents(
+    chainId: number,
+    realEstateAddress: string | null,
+    escrowAddresses: string[],
+    fromBlock: number,
+    last: Block
+  ): Promise<IndexedChainEvent[] | null> {
+    const provider = getLocalChainProvider();
+    const toBlock = last.number;
+
+    // Only escrows the deploy scripts recorded count; any contract can emit a TransactionFinalized lookalike
+    const [escrowLogs, realEstateLogs] = await Promise.all([
+      escrowAddresses.length > 0
+        ? provider.getLogs({ address: escrowAddresses, fromBlock, toBlock, topics: [escrowFinalizedTopics] })
+        : Promise.resolve([]),
+      realEstateAddress
+        ? provider.getLogs({ address: realEstateAddress, fromBlock, toBlock, topics: [realEstateTopics] })
+        : Promise.resolve([]),
+    ]);
+
+    const blocks = new Map<number, Block | null>([[toBlock, last]]);
+    const events: IndexedChainEvent[] = [];
+    for (const log of [...realEstateLogs, ...escrowLogs]) {
+      if (!blocks.has(log.blockNumber)) {
+        blocks.set(log.blockNumber, await provider.getBlock(log.blockNumber));
+      }
+      // A log from a block that has since been replaced belongs to another fork
+      const block = blocks.get(log.blockNumber);
+      if (!block || block.hash !== log.blockHash) return null;
+      events.push(...this.normalize(chainId, log, new Date(block.timestamp * 1000)));
+    }
+
+    // PropertyMinted doesn't carry the share count; the mint transfer in the same transaction does
+    events.filter(event => event.eventName === 'PropertyMinted').forEach(minted => {
+      const mint = events.find(event =>
+        TRANSFER_EVENTS.includes(event.eventName) &&
+        event.transactionHash === minted.transactionHash &&
+        event.tokenId === minted.tokenId &&
+        !event.from
+      );
+      if (mint) minted.shares = mint.shares;
+    });
+
+    return events.sort(compareChainOrder);
+  }
+
+  private static normalize(chainId: number, log: Log, timestamp: Date): IndexedChainEvent[] {
+    const base = {
+      id: `${chainId}:${log.transactionHash}:${log.index}`,
+      chainId,
+      contractAddress: log.address.toLowerCase(),
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+      timestamp,
+    };
+
+    const realEstateEvent = realEstateTopics.includes(log.topics[0]) ? realEstateInterface.parseLog(log) : null;
+    if (realEstateEvent) {
+      const args = realEstateEvent.args;
+      switch (realEstateEvent.name) {
+        case 'TransferSingle':
+        case 'TransferBatch': {
+          const from = holder(args.from);
+          const to = holder(args.to);
+          const accounts = [from, to].filter((account): account is string => !!account);
+          const transfer = { ...base, eventName: realEstateEvent.name as IndexedEventName, from, to, accounts };
+          if (realEstateEvent.name === 'TransferSingle') {
+            return [{ ...transfer, tokenId: args.id.toString(), shares: Number(args.value) }];
+          }
+          // `values` is shadowed by Array.prototype.values on the Result
+          const values: bigint[] = args.getValue('values');
+          return (args.ids as bigint[]).map((id, i) => ({
+            ...transfer, id: `${base.id}:${i}`, tokenId: id.toString(), shares: Number(values[i]),
+          }));
+        }
+      }
+
+      const tokenId = args.tokenId.toString();
+      switch (realEstateEvent.name) {
+        case 'PropertyMinted':
+          // The share count is filled in from the mint transfer once the block's logs are in
+          return [{
+            ...base, eventName: 'PropertyMinted', tokenId, to: base.contractAddress,
+            amountWei: args.pricePerShare.toString(), uri: args.uri, accounts: [args.minter.toLowerCase()],
+          }];
+        case 'SharesPurchased':
+          return [{
+            ...base, eventName: 'SharesPurchased', tokenId, from: base.contractAddress, to: args.buyer.toLowerCase(),
+            shares: Number(args.amount), amountWei: args.totalCost.toString(), accounts: [args.buyer.toLowerCase()],
+          }];
+        case 'SharesTransferred':
+          return [{
+            ...base, eventName: 'SharesTransferred', tokenId, from: args.from.toLowerCase(), to: args.to.toLowerCase(),
+            shares: Number(args.amount), accounts: [args.from.toLowerCase(), args.to.toLowerCase()],
+          }];
+        case 'PropertyPriceUpdated':
+          return [{ ...base, eventName: 'PropertyPriceUpdated', tokenId, amountWei: args.newPrice.toString(), accounts: [] }];
+      }
+    }
+
+    for (const escrowInterface of escrowInterfaces) {
+      const settlement = escrowInterface.parseLog(log);
+      if (settlement?.name !== 'TransactionFinalized') continue;
+
+      const seller = settlement.args.seller.toLowerCase();
+      const hasBuyer = settlement.fragment.inputs.some(input => input.name === 'buyer');
+      const buyer: string | undefined = hasBuyer ? settlement.args.buyer.toLowerCase() : undefined;
+      return [{
+        ...base,
+        eventName: 'TransactionFinalized',
+        from: seller,
+        ...(buyer ? { to: buyer } : {}),
+        amountWei: settlement.args.amount.toString(),
+        accounts: buyer ? [seller, buyer] : [seller],
+      }];
+    }
+
+    return [];
+  }
+
+  private static getRealEstateAddress(chainId: number): string | null {
+    return getContractAddress(chainId, 'RealEstate')?.toLowerCase() ?? null;
+  }
+
+  private static getEscrowAddresses(chainId: number): string[] {
+    return Object.keys(getDeployment(chainId)?.escrows ?? {}).map(address => address.toLowerCase()).sort();
+  }
+
+  private static async getChainId(): Promise<number> {
+    if (this.chainId === null) {
+      const network = await getLocalChainProvider().getNetwork();
+      this.chainId = Number(network.chainId);
+    }
+    return this.chainId;
+  }
+}
+
+export type { IndexedEventName, IndexedChainEvent, ChainIndexCursor, OwnershipChange, TradeRecord };
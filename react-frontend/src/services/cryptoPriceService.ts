@@ -1,3 +1,7 @@
+import { PriceOracleService } from './priceOracleService';
+import { FeeService } from './feeService';
+import type { FeeTransactionType } from '../config/feeConfig';
+
 interface PriceData {
   ethToUsd: number;
   usdcToUsd: number;
@@ -6,6 +10,12 @@ interface PriceData {
   gasPrice: number;
 }
 
+const GAS_FEE_TYPES: Record<'simple' | 'investment' | 'conversion', FeeTransactionType> = {
+  simple: 'share_transfer',
+  investment: 'purchase',
+  conversion: 'swap',
+};
+
 interface GasFeeEstimate {
   low: number;
   standard: number;
@@ -14,71 +24,32 @@ interface GasFeeEstimate {
 }
 
 export class CryptoPriceService {
-  private static readonly COINGECKO_BASE_URL = 'https://api.coingecko.com/api/v3';
-  private static readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-  private static priceCache: { data: PriceData | null; timestamp: number } = {
-    data: null,
-    timestamp: 0,
-  };
+  // Prices for the oracle bucket they were built from
+  private static cachedPrices: PriceData | null = null;
+  private static cachedBucket: number | null = null;
 
+  /**
+   * Current prices, with ETH/USD taken from the price oracle at the current game time
+   */
   static async fetchCurrentPrices(): Promise<PriceData> {
-    try {
-      const now = Date.now();
-      if (this.priceCache.data && (now - this.priceCache.timestamp) < this.CACHE_DURATION) {
-        return this.priceCache.data;
-      }
-
-      // console.log('Fetching fresh crypto prices from CoinGecko...');
-
-      const response = await fetch(
-        `${this.COINGECKO_BASE_URL}/simple/price?ids=ethereum,usd-coin&vs_currencies=usd`
-      );
-
-      if (!response.ok) {
-        throw new Error(`CoinGecko API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      const ethToUsd = data.ethereum?.usd || 3000;
-      const usdcToUsd = data['usd-coin']?.usd || 1;
-      const ethToUsdc = ethToUsd / usdcToUsd;
-      const gasPrice = Math.floor(Math.random() * 40) + 10; // 10-50 gwei
-
-      const priceData: PriceData = {
-        ethToUsd,
-        usdcToUsd,
-        ethToUsdc,
-        lastUpdated: new Date(),
-        gasPrice,
-      };
-
-      this.priceCache = { data: priceData, timestamp: now };
-      await this.savePricesToFirebase(priceData);
-      return priceData;
+    const quote = await PriceOracleService.getQuote();
+    if (this.cachedPrices && this.cachedBucket === quote.bucket) {
+      return this.cachedPrices;
+    }
 
-    } catch (error) {
-      console.error('Error fetching crypto prices:', error);
-      
-      if (this.priceCache.data) {
-        console.log('Using cached price data due to API error');
-        return this.priceCache.data;
-      }
+    const usdcToUsd = 1; // The simulation treats USDC as pegged
+    const priceData: PriceData = {
+      ethToUsd: quote.ethUsd,
+      usdcToUsd,
+      ethToUsdc: quote.ethUsd / usdcToUsd,
+      lastUpdated: quote.observedAt,
+      gasPrice: FeeService.gasPriceGwei(), // Base fee plus a standard tip, in gwei
+    };
 
-      // Use realistic fallback prices for development
-      const fallbackPrices = {
-        ethToUsd: 3200, // More realistic current ETH price
-        usdcToUsd: 1,
-        ethToUsdc: 3200,
-        lastUpdated: new Date(),
-        gasPrice: 25,
-      };
-      
-      console.log('Using fallback price data:', fallbackPrices);
-      this.priceCache = { data: fallbackPrices, timestamp: now };
-      await this.savePricesToFirebase(fallbackPrices);
-      return fallbackPrices;
-    }
+    this.cachedPrices = priceData;
+    this.cachedBucket = quote.bucket;
+    await this.savePricesToFirebase(priceData);
+    return priceData;
   }
 
   private static async savePricesToFirebase(prices: PriceData): Promise<void> {
@@ -106,21 +77,18 @@ export class CryptoPriceService {
     return ethAmount * prices.ethToUsdc;
   }
 
-  static calculateGasFees(transactionType: 'simple' | 'investment' | 'conversion', prices: PriceData): GasFeeEstimate {
-    const baseGas = prices.gasPrice;
-    const gasUnits = {
-      simple: 21000,
-      investment: 85000,
-      conversion: 65000,
-    };
+  /**
+   * Network fee in ETH at each speed, from the fee engine's current gas market
+   */
+  static calculateGasFees(transactionType: 'simple' | 'investment' | 'conversion'): GasFeeEstimate {
+    const type = GAS_FEE_TYPES[transactionType];
+    const standard = FeeService.estimateGas(type, 'standard');
 
-    const units = gasUnits[transactionType];
-    
     return {
-      low: (baseGas * 0.8 * units) / 1e9,
-      standard: (baseGas * units) / 1e9,
-      fast: (baseGas * 1.3 * units) / 1e9,
-      estimatedTime: baseGas < 20 ? '< 2 min' : baseGas < 40 ? '2-5 min' : '5-10 min',
+      low: FeeService.estimateGas(type, 'low').feeEth,
+      standard: standard.feeEth,
+      fast: FeeService.estimateGas(type, 'fast').feeEth,
+      estimatedTime: standard.estimatedTime,
     };
   }
 }
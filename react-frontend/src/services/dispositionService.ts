@@ -0,0 +1,303 @@
+// Disposition Service - exit sales of fully funded properties
+// A property that has sold every share is held for its class's hold period
+// (or until shareholders vote to sell) and then sold at its appreciated
+// value. Closing costs come off the price and the rest is paid out pro rata
+// to every holder, closing their investment lots.
+
+import { Timestamp } from 'firebase/firestore';
+import { getRepositories } from '../repositories';
+import type { InvestmentRecord } from '../repositories/types';
+import { DISPOSITION_CONFIG } from '../config/dispositionConfig';
+import { InsufficientFundsError, WalletLedgerService } from './walletLedgerService';
+import { RentalIncomeService } from './rentalIncomeService';
+import { LoanService } from './loanService';
+import { MarketModelService } from './marketModelService';
+import { MockInvestorService } from './mockInvestorService';
+import { PriceOracleService } from './priceOracleService';
+import { PropertyOperationsService } from './propertyOperationsService';
+import { getSimulationClock, GAME_MONTH_MS, GAME_YEAR_MS } from './simulationClock';
+import type { Property, PropertyClass } from '../types/property';
+
+type DispositionReason = 'hold_period' | 'shareholder_vote';
+
+interface DispositionQuote {
+  grossPriceUsd: number; // Appreciated value
+  brokerageUsd: number;
+  transferTaxUsd: number;
+  netProceedsUsd: number;
+  proceedsPerShareUsd: number;
+}
+
+interface MockDistribution {
+  investorId: string;
+  username: string;
+  shares: number;
+  amountUsd: number;
+}
+
+/**
+ * The exit sale of one property, stored under the property's id. Written
+ * once; each user's lots are paid when that user next settles.
+ */
+interface PropertyDisposition extends DispositionQuote {
+  propertyId: string;
+  propertyAddress: string;
+  propertyClass: PropertyClass;
+  reason: DispositionReason;
+  totalShares: number;
+  ethPrice: number; // ETH/USD the proceeds are paid at
+  fundedAt: Date; // Game time
+  disposedAt: Date; // Game time
+  mockDistributions: MockDistribution[];
+}
+
+interface DispositionSettlement {
+  lotsClosed: number;
+  proceedsUsd: number;
+  realizedGainUsd: number;
+}
+
+export class DispositionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DispositionError';
+  }
+}
+
+export class DispositionService {
+  private static settlements = new Map<string, Promise<DispositionSettlement>>();
+
+  /**
+   * Game time the property became fully funded, or null while shares remain
+   */
+  static fundedAt(property: Pick<Property, 'status' | 'soldAt'>): Date | null {
+    if (property.status !== 'sold_out' && property.status !== 'disposed') return null;
+    if (!property.soldAt) return null;
+    return getSimulationClock().toGameTime(this.toDate(property.soldAt));
+  }
+
+  /**
+   * Game time the hold period ends and the property is put up for sale
+   */
+  static holdPeriodEnd(property: Pick<Property, 'class' | 'status' | 'soldAt'>): Date | null {
+    const fundedAt = this.fundedAt(property);
+    if (!fundedAt) return null;
+    return new Date(fundedAt.getTime() + DISPOSITION_CONFIG[property.class].holdYears * GAME_YEAR_MS);
+  }
+
+  /**
+   * Market value of the whole property: its list price grown by the market
+   * model over the quarters finished since it was listed, plus the value
+   * renovations added, grown since they were completed
+   */
+  static appraise(property: Pick<Property, 'id' | 'class' | 'region' | 'price' | 'createdAt' | 'improvements'>, gameTime: Date): number {
+    const listedAt = property.createdAt ? getSimulationClock().toGameTime(this.toDate(property.createdAt)) : gameTime;
+    const lastQuarter = MarketModelService.quarterOf(gameTime) - 1;
+    const improvementsUsd = (property.improvements ?? []).reduce((sum, improvement) => {
+      const completedQuarter = MarketModelService.quarterOf(new Date(improvement.fromMonth * GAME_MONTH_MS));
+      return sum + improvement.valueAddedUsd * MarketModelService.growth(property, completedQuarter, lastQuarter);
+    }, 0);
+    return property.price * MarketModelService.growth(property, MarketModelService.quarterOf(listedAt), lastQuarter) + improvementsUsd;
+  }
+
+  /**
+   * What selling now would raise, after closing costs
+   */
+  static quote(property: Property, gameTime: Date = getSimulationClock().gameNow()): DispositionQuote {
+    const { brokerageRate, transferTaxRate } = DISPOSITION_CONFIG[property.class];
+    const grossPriceUsd = this.appraise(property, gameTime);
+    const brokerageUsd = grossPriceUsd * brokerageRate;
+    const transferTaxUsd = grossPriceUsd * transferTaxRate;
+    const netProceedsUsd = grossPriceUsd - brokerageUsd - transferTaxUsd;
+
+    return {
+      grossPriceUsd,
+      brokerageUsd,
+      transferTaxUsd,
+      netProceedsUsd,
+      proceedsPerShareUsd: netProceedsUsd / (property.totalShares || 100),
+    };
+  }
+
+  static async getDisposition(propertyId: string): Promise<PropertyDisposition | null> {
+    return getRepositories().dispositions.get(propertyId);
+  }
+
+  /**
+   * Sell every fully funded property whose hold period has run out
+   */
+  static async processDueDispositions(): Promise<number> {
+    const gameNow = getSimulationClock().gameNow();
+    const funded = await getRepositories().properties.list({ filters: { status: ['sold_out'] } });
+
+    let sold = 0;
+    for (const property of funded) {
+      const holdEnd = this.holdPeriodEnd(property);
+      if (!holdEnd || holdEnd > gameNow) continue;
+
+      try {
+        await this.dispose(property.id, 'hold_period');
+        sold++;
+      } catch (error) {
+        console.error(`❌ Failed to sell ${property.address}:`, error);
+      }
+    }
+    return sold;
+  }
+
+  /**
+   * Sell a fully funded property now. Mock investors are paid straight away;
+   * users are paid when they next settle. Selling twice returns the first sale.
+   */
+  static async dispose(propertyId: string, reason: DispositionReason): Promise<PropertyDisposition> {
+    const repositories = getRepositories();
+    const existing = await repositories.dispositions.get(propertyId);
+    if (existing) return existing;
+
+    const property = await repositories.properties.get(propertyId);
+    const fundedAt = property ? this.fundedAt(property) : null;
+    if (!property || !fundedAt) {
+      throw new DispositionError('Only fully funded properties can be sold');
+    }
+
+    const gameNow = getSimulationClock().gameNow();
+    const quote = this.quote(property, gameNow);
+    const holders = (await MockInvestorService.getMockInvestors(propertyId))
+      .filter(holder => holder.id && holder.sharesInvested > 0);
+    const disposition: PropertyDisposition = {
+      ...quote,
+      propertyId,
+      propertyAddress: property.address,
+      propertyClass: property.class,
+      reason,
+      totalShares: property.totalShares || 100,
+      ethPrice: await PriceOracleService.getEthUsd(gameNow),
+      fundedAt,
+      disposedAt: gameNow,
+      mockDistributions: holders.map(holder => ({
+        investorId: holder.id!,
+        username: holder.username,
+        shares: holder.sharesInvested,
+        amountUsd: holder.sharesInvested * quote.proceedsPerShareUsd,
+      })),
+    };
+
+    if (!(await repositories.dispositions.claim(propertyId, disposition))) {
+      return (await repositories.dispositions.get(propertyId))!;
+    }
+
+    await repositories.properties.update(propertyId, { status: 'disposed', availableShares: 0 });
+    // Mock investors are cashed out in full
+    for (const holder of holders) {
+      await MockInvestorService.adjustHolding(
+        holder.id!,
+        -holder.sharesInvested,
+        holder.investmentAmount / holder.sharesInvested
+      );
+    }
+
+    console.log(`🏁 Sold ${property.address} for $${quote.grossPriceUsd.toFixed(2)} ($${quote.proceedsPerShareUsd.toFixed(2)}/share after closing costs)`);
+    return disposition;
+  }
+
+  /**
+   * Pay out and close a user's lots in properties that have been sold. Runs
+   * one at a time per user, and each lot is paid under its own key.
+   */
+  static settleUserDispositions(userId: string): Promise<DispositionSettlement> {
+    const previous = this.settlements.get(userId) ?? Promise.resolve(null);
+    const next = previous.catch(() => null).then(() => this.runSettlement(userId));
+    this.settlements.set(userId, next);
+    return next;
+  }
+
+  private static async runSettlement(userId: string): Promise<DispositionSettlement> {
+    const result: DispositionSettlement = { lotsClosed: 0, proceedsUsd: 0, realizedGainUsd: 0 };
+    const repositories = getRepositories();
+    const records = (await repositories.investments.listByUser(userId))
+      .filter(record => record.id && record.status !== 'closed' && record.sharesOwned > 0);
+
+    const dispositions = new Map<string, PropertyDisposition>();
+    for (const propertyId of new Set(records.map(record => record.propertyId))) {
+      const disposition = await repositories.dispositions.get(propertyId);
+      if (disposition) dispositions.set(propertyId, disposition);
+    }
+    if (dispositions.size === 0) return result;
+
+    // Rent stops at the sale; months finished before it are paid on the shares held
+    await RentalIncomeService.collectRent(userId);
+
+    for (const record of records) {
+      const disposition = dispositions.get(record.propertyId);
+      if (!disposition) continue;
+
+      const { proceedsUsd, gainUsd } = await this.settleLot(userId, record, disposition);
+      result.lotsClosed++;
+      result.proceedsUsd += proceedsUsd;
+      result.realizedGainUsd += gainUsd;
+    }
+
+    console.log(`🏁 Settled ${result.lotsClosed} sold lot(s) for ${userId}: $${result.proceedsUsd.toFixed(2)} proceeds`);
+    return result;
+  }
+
+  /**
+   * Credit a lot's proceeds, bank the rent it earned in the month of the
+   * sale, close it and repay any mortgage on it from the proceeds
+   */
+  private static async settleLot(
+    userId: string,
+    record: InvestmentRecord,
+    disposition: PropertyDisposition
+  ): Promise<{ proceedsUsd: number; gainUsd: number }> {
+    const clock = getSimulationClock();
+    const proceedsUsd = record.sharesOwned * disposition.proceedsPerShareUsd;
+    const costBasisUsd = record.purchaseUsdValue ?? 0;
+
+    await WalletLedgerService.recordShareSale(
+      userId,
+      proceedsUsd / disposition.ethPrice,
+      record.propertyId,
+      `Sale of ${disposition.propertyAddress}: ${record.sharesOwned} shares`,
+      `disposition_${record.propertyId}_${record.id}`,
+      { proceedsUsd, costBasisUsd }
+    );
+
+    // Earlier months of rent were paid by the collection above
+    const saleMonth = PropertyOperationsService.monthOf(disposition.disposedAt);
+    const carry = saleMonth === PropertyOperationsService.monthOf(clock.gameNow())
+      ? RentalIncomeService.accruedThisPeriod(
+          { ...record, propertyTotalPrice: record.propertyTotalPrice ?? 0, rentalYield: record.rentalYield ?? 0 },
+          disposition.disposedAt
+        )
+      : 0;
+
+    await getRepositories().investments.update(userId, record.id!, {
+      sharesOwned: 0,
+      purchasePrice: 0,
+      purchaseUsdValue: 0,
+      currentValue: 0,
+      rentalAccruedCarry: carry,
+      rentalIncomeStartDate: clock.now(),
+      lastUpdated: clock.now(),
+      status: 'closed',
+    });
+
+    if (record.loanId) {
+      try {
+        await LoanService.payOff(userId, record.loanId);
+      } catch (error) {
+        if (!(error instanceof InsufficientFundsError)) throw error;
+        console.warn(`⚠️ Sale proceeds of ${disposition.propertyAddress} don't cover the mortgage; it stays open`);
+      }
+    }
+
+    return { proceedsUsd, gainUsd: proceedsUsd - costBasisUsd };
+  }
+
+  private static toDate(value: Timestamp | Date): Date {
+    return value instanceof Timestamp ? value.toDate() : new Date(value);
+  }
+}
+
+export type { DispositionReason, DispositionQuote, MockDistribution, PropertyDisposition, DispositionSettlement };
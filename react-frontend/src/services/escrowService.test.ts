@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { parseEther } from 'ethers';
+import { createMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+import { EscrowService, type EscrowProcess } from './escrowService';
+import { PriceOracleService, ReplayPriceProvider } from './priceOracleService';
+import { SimulationClock, getSimulationClock, setSimulationClock } from './simulationClock';
+import { WalletLedgerService } from './walletLedgerService';
+
+const USER_ID = 'buyer';
+const HOUR_MS = 60 * 60 * 1000;
+
+async function walletBalance(): Promise<number> {
+  return (await getRepositories().wallets.get(USER_ID))!.ethBalance;
+}
+
+// A rejected escrow whose hold is still in the escrow account, as left by a crash before the refund
+async function createRejectedEscrow(changes: Partial<EscrowProcess> = {}): Promise<string> {
+  const at = getSimulationClock().now();
+  const escrowId = await getRepositories().escrows.create({
+    propertyId: 'p1',
+    userId: USER_ID,
+    propertyClass: 'C',
+    sharesOwned: 5,
+    investmentAmount: 2,
+    status: 'rejected',
+    createdAt: at,
+    estimatedCompletionTime: at,
+    actualCompletionTime: at,
+    interestEarned: 0,
+    rejectionReason: 'Inspection failed',
+    requiresFinancing: false,
+    steps: [],
+    history: [],
+    ...changes,
+  });
+  await WalletLedgerService.recordEscrowHold(USER_ID, 2, escrowId);
+  return escrowId;
+}
+
+async function setUp(seed: number, openingEth = 10): Promise<void> {
+  setRepositories(createMemoryRepositories());
+  setSimulationClock(new SimulationClock({ seed, mode: 'frozen', startTime: new Date('2025-01-01T00:00:00Z') }));
+  PriceOracleService.setProvider(new ReplayPriceProvider()); // Gas is priced without the network
+
+  await getRepositories().wallets.create(USER_ID, {
+    address: '0xbuyer',
+    ethBalance: 0,
+    strikePrice: 2500,
+    initialUsdValue: 25000,
+    username: USER_ID,
+    isActive: true,
+  });
+  await WalletLedgerService.recordOpeningBalance(USER_ID, openingEth);
+}
+
+describe('EscrowService.initiateEscrow', () => {
+  // Wake-up timers would otherwise outlive the test
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('holds the funds, runs every step and delivers the shares', async () => {
+    await setUp(2);
+
+    const started = await EscrowService.initiateEscrow('p1', USER_ID, 5, 2, 'C');
+    expect(started.status).toBe(started.steps.find(step => step.status === 'in_progress')?.id);
+    expect(await walletBalance()).toBeLessThan(8);
+
+    getSimulationClock().advance(HOUR_MS);
+    const [resumed] = await EscrowService.resumeUserEscrows(USER_ID);
+
+    expect(resumed.status).toBe('completed');
+    expect(resumed.steps.every(step => step.status === 'passed' || step.status === 'skipped')).toBe(true);
+    const [lot] = await getRepositories().investments.listByUser(USER_ID);
+    expect(lot.escrowProcessId).toBe(started.id);
+    const entries = await WalletLedgerService.getEntries(USER_ID);
+    expect(entries.find(entry => entry.type === 'escrow_release')?.amount).toBeCloseTo(2);
+    expect(WalletLedgerService.deriveBalance(entries, 'escrow')).toBeCloseTo(0);
+  });
+
+  it('refunds the hold when a step fails', async () => {
+    await setUp(1);
+
+    const started = await EscrowService.initiateEscrow('p1', USER_ID, 5, 2, 'C');
+    getSimulationClock().advance(HOUR_MS);
+    const [resumed] = await EscrowService.resumeUserEscrows(USER_ID);
+
+    expect(resumed.status).toBe('rejected');
+    const entries = (await WalletLedgerService.getEntries(USER_ID)).filter(entry => entry.reference === started.id);
+    expect(entries.find(entry => entry.type === 'escrow_refund')?.amount).toBeCloseTo(2);
+    expect(WalletLedgerService.deriveBalance(entries, 'escrow')).toBeCloseTo(0);
+    expect(await getRepositories().investments.listByUser(USER_ID)).toHaveLength(0);
+  });
+
+  it('rejects an escrow whose funds could not be held and never refunds it', async () => {
+    await setUp(2, 1);
+
+    await expect(EscrowService.initiateEscrow('p1', USER_ID, 5, 2, 'C')).rejects.toThrow('Insufficient balance');
+    getSimulationClock().advance(HOUR_MS);
+    const [resumed] = await EscrowService.resumeUserEscrows(USER_ID);
+
+    expect(resumed.status).toBe('rejected');
+    expect(resumed.rejectionReason).toBe('Funds could not be held in escrow');
+    expect((await WalletLedgerService.getEntries(USER_ID)).map(entry => entry.type)).toEqual(['opening_balance']);
+    expect(await getRepositories().investments.listByUser(USER_ID)).toHaveLength(0);
+  });
+});
+
+describe('EscrowService.resumeUserEscrows', () => {
+  beforeEach(async () => {
+    await setUp(3);
+  });
+
+  it('returns the hold of a rejected escrow that was never refunded', async () => {
+    const escrowId = await createRejectedEscrow();
+    expect(await walletBalance()).toBeCloseTo(8);
+
+    await EscrowService.resumeUserEscrows(USER_ID);
+
+    const entries = await WalletLedgerService.getEntries(USER_ID);
+    expect(entries.filter(entry => entry.reference === escrowId && entry.type === 'escrow_refund')).toHaveLength(1);
+    expect(WalletLedgerService.deriveBalance(entries, 'escrow')).toBeCloseTo(0);
+  });
+
+  it('pays only the forfeited deposit to the seller and returns the rest of the hold', async () => {
+    const escrowId = await createRejectedEscrow({
+      onChain: {
+        contractAddress: '0xescrow',
+        chainId: 31337,
+        deedAddress: '0xdeed',
+        deedId: '1',
+        purchasePriceWei: parseEther('2').toString(),
+        earnestWei: parseEther('0.4').toString(),
+        parties: { buyer: '0x1', seller: '0x2', inspector: '0x3', lender: '0x4' },
+        phase: 5,
+        approvals: [],
+        syncedBlock: 12,
+        forfeited: true,
+        forfeitedWei: parseEther('0.4').toString(),
+        transactions: [],
+      },
+    });
+
+    await EscrowService.resumeUserEscrows(USER_ID);
+
+    const entries = (await WalletLedgerService.getEntries(USER_ID)).filter(entry => entry.reference === escrowId);
+    expect(entries.find(entry => entry.type === 'escrow_release')?.amount).toBeCloseTo(0.4);
+    expect(entries.find(entry => entry.type === 'escrow_refund')?.amount).toBeCloseTo(1.6);
+    expect(await walletBalance()).toBeCloseTo(9.6);
+  });
+
+  it('leaves rejected escrows that were already refunded alone', async () => {
+    const escrowId = await createRejectedEscrow();
+    await WalletLedgerService.recordEscrowRefund(USER_ID, 2, escrowId);
+    const before = (await WalletLedgerService.getEntries(USER_ID)).length;
+
+    await EscrowService.resumeUserEscrows(USER_ID);
+
+    expect(await WalletLedgerService.getEntries(USER_ID)).toHaveLength(before);
+    expect(await walletBalance()).toBeCloseTo(10);
+  });
+});
@@ -1,35 +1,51 @@
-import { collection, addDoc, updateDoc, doc, getDoc, query, where, getDocs } from 'firebase/firestore';
-import { db } from '../firebase/config';
+import { getRepositories } from '../repositories';
+import { WalletLedgerService, type LedgerEntry, type PostEntryInput } from './walletLedgerService';
+import { FeeService } from './feeService';
+import { PriceOracleService } from './priceOracleService';
+import { getSimulationClock } from './simulationClock';
+import {
+  EscrowStateMachine,
+  type EscrowState,
+  type EscrowStep,
+  type EscrowTransition
+} from './escrowStateMachine';
+import {
+  OnChainEscrowService,
+  ONCHAIN_PHASE,
+  type OnChainEscrowAction,
+  type OnChainEscrowLink
+} from './onChainEscrowService';
+import {
+  ESCROW_INTEREST_RATE,
+  ESCROW_WORKFLOWS,
+  ONCHAIN_ESCROW_STEPS,
+  type EscrowStepId
+} from '../config/escrowConfig';
+import type { FeeTransactionType } from '../config/feeConfig';
+import type { PropertyClass } from '../types/property';
 
 interface EscrowProcess {
   id?: string;
   propertyId: string;
   userId: string;
+  propertyClass: PropertyClass;
   sharesOwned: number;
   investmentAmount: number;
-  status: 'pending' | 'inspection' | 'lender_approval' | 'approved' | 'rejected' | 'completed';
+  status: EscrowState; // Lifecycle state, or the id of the step in progress
   createdAt: Date;
   estimatedCompletionTime: Date;
   actualCompletionTime?: Date;
   interestEarned: number;
   rejectionReason?: string;
-  approvalSteps: {
-    inspection: {
-      status: 'pending' | 'in_progress' | 'passed' | 'failed';
-      startTime?: Date;
-      completionTime?: Date;
-      failureReason?: string;
-    };
-    lenderApproval: {
-      status: 'pending' | 'in_progress' | 'approved' | 'rejected';
-      startTime?: Date;
-      completionTime?: Date;
-      rejectionReason?: string;
-    };
-  };
+  steps: EscrowStep[];
+  history: EscrowTransition[];
   requiresFinancing: boolean;
+  onChain?: OnChainEscrowLink; // Set when the escrow is backed by an Escrow.sol contract
 }
 
+// Below this an escrow holds nothing (ETH)
+const ESCROW_DUST = 1e-9;
+
 interface EscrowResult {
   success: boolean;
   process: EscrowProcess;
@@ -38,37 +54,10 @@ interface EscrowResult {
 }
 
 export class EscrowService {
-  private static readonly INSPECTION_FAILURE_RATE = 0.1; // 10% failure rate
-  private static readonly LENDER_REJECTION_RATE = 0.1; // 10% rejection rate for financed properties
-  private static readonly INTEREST_RATE = 0.02; // 2% annual interest during escrow
-  
-  // Realistic inspection failure reasons
-  private static readonly INSPECTION_FAILURES = [
-    'Structural issues found in foundation requiring major repairs',
-    'Electrical system violations of current building codes',
-    'Plumbing damage discovered during inspection process',
-    'HVAC system failure requiring complete replacement',
-    'Roof damage exceeding acceptable repair thresholds',
-    'Environmental hazards detected requiring remediation',
-    'Safety code violations identified by municipal inspector',
-    'Water damage found in basement and lower levels',
-    'Pest infestation requiring professional treatment',
-    'Asbestos materials found requiring specialized removal'
-  ];
-
-  // Realistic lender rejection reasons
-  private static readonly LENDER_REJECTIONS = [
-    'Property appraisal came in below purchase price',
-    'Recent market conditions affect property financing',
-    'Property type restrictions in current lending policy',
-    'Debt-to-income ratio concerns for investment property',
-    'Credit verification issues discovered during underwriting',
-    'Property condition concerns identified by lender',
-    'Market oversaturation in this property class',
-    'Lending guidelines changed during approval process',
-    'Property location risk assessment failed criteria',
-    'Investment property financing limits reached'
-  ];
+  // Wake-up timers for in-progress escrows; state lives in the repository, so losing these is harmless
+  private static timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  private static advancing: Set<string> = new Set();
 
   // Start escrow process for a property investment
   static async initiateEscrow(
@@ -76,46 +65,42 @@ export class EscrowService {
     userId: string,
     sharesOwned: number,
     investmentAmount: number,
-    propertyClass: 'A' | 'B' | 'C'
+    propertyClass: PropertyClass
   ): Promise<EscrowProcess> {
     try {
       console.log(`Initiating escrow for property ${propertyId}, user ${userId}`);
 
-      // Determine if financing is required (Class C = cash only)
-      const requiresFinancing = propertyClass !== 'C' && Math.random() > 0.3; // 70% chance for B/A class
+      const clock = getSimulationClock();
+      const now = clock.now();
 
-      // Calculate estimated completion time (3-7 game days = 6-14 real minutes)
-      const baseTime = 6 + Math.random() * 8; // 6-14 minutes
-      const estimatedCompletionTime = new Date(Date.now() + baseTime * 60 * 1000);
+      // Determine if financing is required (Class C = cash only)
+      const requiresFinancing = clock.random() < ESCROW_WORKFLOWS[propertyClass].financingProbability;
+      const steps = EscrowStateMachine.createSteps(propertyClass, requiresFinancing);
 
       const escrowProcess: Omit<EscrowProcess, 'id'> = {
         propertyId,
         userId,
+        propertyClass,
         sharesOwned,
         investmentAmount,
         status: 'pending',
-        createdAt: new Date(),
-        estimatedCompletionTime,
+        createdAt: now,
+        estimatedCompletionTime: EscrowStateMachine.estimateCompletion(steps, now),
         interestEarned: 0,
         requiresFinancing,
-        approvalSteps: {
-          inspection: {
-            status: 'pending',
-          },
-          lenderApproval: {
-            status: requiresFinancing ? 'pending' : 'approved', // Skip if cash purchase
-          },
-        },
+        steps,
+        history: [],
       };
 
       // Save to database
-      const docRef = await addDoc(collection(db, 'escrowProcesses'), escrowProcess);
-      const processWithId = { ...escrowProcess, id: docRef.id };
+      const escrowId = await getRepositories().escrows.create(escrowProcess);
+      const processWithId = { ...escrowProcess, id: escrowId };
 
-      // Start the approval process
-      this.processEscrowStep(processWithId);
+      // Hold the buyer's funds in escrow until the process resolves
+      await this.holdFunds(processWithId, await this.escrowGas(processWithId, 'escrow_deposit'));
 
-      return processWithId;
+      // Start the first approval step
+      return await this.advanceEscrow(processWithId);
 
     } catch (error) {
       console.error('Error initiating escrow:', error);
@@ -123,259 +108,369 @@ export class EscrowService {
     }
   }
 
-  // Process escrow approval steps
-  private static async processEscrowStep(process: EscrowProcess): Promise<void> {
+  /**
+   * Open an escrow backed by an Escrow.sol contract on the local node, deploying
+   * a new contract or attaching to `contractAddress`. Phases are then driven
+   * with `performOnChainAction` instead of the simulated timers.
+   */
+  static async initiateOnChainEscrow(
+    propertyId: string,
+    userId: string,
+    sharesOwned: number,
+    investmentAmount: number,
+    propertyClass: PropertyClass,
+    contractAddress?: string
+  ): Promise<EscrowProcess> {
     try {
-      // Step 1: Inspection
-      if (process.approvalSteps.inspection.status === 'pending') {
-        await this.processInspection(process);
-        return;
-      }
+      console.log(`Initiating on-chain escrow for property ${propertyId}, user ${userId}`);
 
-      // Step 2: Lender approval (if required)
-      if (process.requiresFinancing && process.approvalSteps.lenderApproval.status === 'pending') {
-        await this.processLenderApproval(process);
-        return;
-      }
+      // Link the contract first so a node that is down leaves no funds on hold
+      const onChain = contractAddress
+        ? await OnChainEscrowService.attach(contractAddress)
+        : await OnChainEscrowService.deploy(investmentAmount);
 
-      // Step 3: Complete escrow
-      if (process.approvalSteps.inspection.status === 'passed' && 
-          process.approvalSteps.lenderApproval.status === 'approved') {
-        await this.completeEscrow(process);
-      }
+      const now = getSimulationClock().now();
+      // The contract always requires the lender's sign-off and funding
+      const steps = EscrowStateMachine.createSteps(propertyClass, true, ONCHAIN_ESCROW_STEPS);
+
+      const escrowProcess: Omit<EscrowProcess, 'id'> = {
+        propertyId,
+        userId,
+        propertyClass,
+        sharesOwned,
+        investmentAmount,
+        status: 'pending',
+        createdAt: now,
+        estimatedCompletionTime: EscrowStateMachine.estimateCompletion(steps, now),
+        interestEarned: 0,
+        requiresFinancing: true,
+        steps,
+        history: [],
+        onChain,
+      };
+
+      const escrowId = await getRepositories().escrows.create(escrowProcess);
+      const processWithId = { ...escrowProcess, id: escrowId };
+      await this.holdFunds(processWithId);
+
+      return await this.advanceEscrow(processWithId);
 
     } catch (error) {
-      console.error('Error processing escrow step:', error);
+      console.error('Error initiating on-chain escrow:', error);
+      throw error;
     }
   }
 
-  // Process inspection phase
-  private static async processInspection(process: EscrowProcess): Promise<void> {
+  /**
+   * Send a phase transaction for an on-chain escrow, then sync its events back into the record
+   */
+  static async performOnChainAction(process: EscrowProcess, action: OnChainEscrowAction): Promise<EscrowProcess> {
+    if (!process.onChain) {
+      throw new Error(`Escrow ${process.id} is not backed by a contract`);
+    }
+
+    const hash = await OnChainEscrowService.perform(process.onChain, action);
+    const onChain = {
+      ...process.onChain,
+      transactions: [...process.onChain.transactions, { action, hash }],
+    };
+    await getRepositories().escrows.update(process.id!, { onChain });
+
+    return this.advanceEscrow({ ...process, onChain });
+  }
+
+  /**
+   * Bring an escrow up to the current time: resolve any steps whose result or
+   * deadline has passed, run completion/refund side effects and schedule the
+   * next wake-up. Safe to call repeatedly (after reload, from several views).
+   */
+  static async advanceEscrow(process: EscrowProcess): Promise<EscrowProcess> {
+    const escrowId = process.id!;
+    if (this.advancing.has(escrowId)) {
+      return process;
+    }
+
+    this.advancing.add(escrowId);
     try {
-      // Update to in_progress
-      process.approvalSteps.inspection.status = 'in_progress';
-      process.approvalSteps.inspection.startTime = new Date();
-      process.status = 'inspection';
-      
-      await updateDoc(doc(db, 'escrowProcesses', process.id!), {
-        'approvalSteps.inspection.status': 'in_progress',
-        'approvalSteps.inspection.startTime': new Date(),
-        status: 'inspection',
-      });
+      const clock = getSimulationClock();
+      const { process: advanced, transitions } = process.onChain
+        ? await this.syncOnChain(process)
+        : EscrowStateMachine.advance(process, clock.now(), () => clock.random());
+      let current = advanced;
+
+      if (transitions.length > 0) {
+        // Escrow.sol holds plain ETH, so on-chain escrows earn no interest
+        if (current.status === 'rejected' && !current.onChain) {
+          const escrowDuration = current.actualCompletionTime!.getTime() - current.createdAt.getTime();
+          current.interestEarned = this.calculateInterest(current.investmentAmount, escrowDuration);
+        }
 
-      // Wait for inspection time (1-3 minutes)
-      const inspectionTime = (1 + Math.random() * 2) * 60 * 1000;
-      setTimeout(async () => {
-        const passed = Math.random() > this.INSPECTION_FAILURE_RATE;
-        
-        if (passed) {
-          // Inspection passed
-          process.approvalSteps.inspection.status = 'passed';
-          process.approvalSteps.inspection.completionTime = new Date();
-          
-          await updateDoc(doc(db, 'escrowProcesses', process.id!), {
-            'approvalSteps.inspection.status': 'passed',
-            'approvalSteps.inspection.completionTime': new Date(),
-          });
+        await this.saveProgress(current);
+        transitions.forEach(transition => {
+          console.log(`🏦 Escrow ${escrowId}: ${transition.from} → ${transition.to} (${transition.reason})`);
+        });
+      }
 
-          // Continue to next step
-          this.processEscrowStep(process);
-
-        } else {
-          // Inspection failed
-          const failureReason = this.INSPECTION_FAILURES[
-            Math.floor(Math.random() * this.INSPECTION_FAILURES.length)
-          ];
-          
-          process.approvalSteps.inspection.status = 'failed';
-          process.approvalSteps.inspection.completionTime = new Date();
-          process.approvalSteps.inspection.failureReason = failureReason;
-          process.status = 'rejected';
-          process.rejectionReason = `Inspection Failed: ${failureReason}`;
-          process.actualCompletionTime = new Date();
-
-          // Calculate interest earned during escrow
-          const escrowDuration = Date.now() - process.createdAt.getTime();
-          const interestEarned = this.calculateInterest(process.investmentAmount, escrowDuration);
-          process.interestEarned = interestEarned;
-
-          await updateDoc(doc(db, 'escrowProcesses', process.id!), {
-            'approvalSteps.inspection.status': 'failed',
-            'approvalSteps.inspection.completionTime': new Date(),
-            'approvalSteps.inspection.failureReason': failureReason,
-            status: 'rejected',
-            rejectionReason: `Inspection Failed: ${failureReason}`,
-            actualCompletionTime: new Date(),
-            interestEarned,
-          });
+      if (current.status === 'rejected' && transitions.length > 0) {
+        await this.settleRejection(current);
+      }
+
+      // On-chain escrows settle only once the contract has finalized the sale
+      if (current.status === 'approved' && (!current.onChain || current.onChain.phase === ONCHAIN_PHASE.Completed)) {
+        current = await this.completeEscrow(current);
+      }
+
+      this.scheduleWakeUp(current);
+      return current;
+    } finally {
+      this.advancing.delete(escrowId);
+    }
+  }
 
-          // Refund user with interest
-          await this.processRefund(process);
+  /**
+   * Resume every open escrow for a user, e.g. after a reload or time offline.
+   * An escrow that fails to resume is returned as stored so the others still show.
+   */
+  static async resumeUserEscrows(userId: string): Promise<EscrowProcess[]> {
+    const processes = await this.getUserEscrowProcesses(userId);
+    const unsettled = await this.unsettledRejections(userId, processes);
+
+    return Promise.all(processes.map(async process => {
+      try {
+        if (!EscrowStateMachine.isTerminal(process.status)) {
+          return await this.advanceEscrow(process);
         }
-      }, inspectionTime);
+        // Saved as rejected but interrupted before the hold was returned
+        if (unsettled.has(process.id!)) {
+          await this.settleRejection(process);
+        }
+      } catch (error) {
+        console.error(`Error resuming escrow ${process.id}:`, error);
+      }
+      return process;
+    }));
+  }
 
-    } catch (error) {
-      console.error('Error processing inspection:', error);
+  // Rejected escrows whose hold is still in the escrow account
+  private static async unsettledRejections(userId: string, processes: EscrowProcess[]): Promise<Set<string>> {
+    const rejected = processes.filter(process => process.status === 'rejected');
+    if (rejected.length === 0) {
+      return new Set();
     }
+
+    const entries = await WalletLedgerService.getEntries(userId);
+    return new Set(rejected
+      .filter(process => this.escrowBalance(entries, process.id!) > ESCROW_DUST)
+      .map(process => process.id!));
   }
 
-  // Process lender approval phase
-  private static async processLenderApproval(process: EscrowProcess): Promise<void> {
-    try {
-      // Update to in_progress
-      process.approvalSteps.lenderApproval.status = 'in_progress';
-      process.approvalSteps.lenderApproval.startTime = new Date();
-      process.status = 'lender_approval';
-      
-      await updateDoc(doc(db, 'escrowProcesses', process.id!), {
-        'approvalSteps.lenderApproval.status': 'in_progress',
-        'approvalSteps.lenderApproval.startTime': new Date(),
-        status: 'lender_approval',
-      });
+  // Return the hold of a rejected escrow, less any deposit forfeited on-chain. Idempotent.
+  private static async settleRejection(process: EscrowProcess): Promise<void> {
+    if (process.onChain?.forfeited) {
+      // Cancelled after a passed inspection: the contract paid what it held (the earnest deposit) to the seller
+      const held = this.escrowBalance(await WalletLedgerService.getEntries(process.userId), process.id!);
+      const forfeited = Math.min(OnChainEscrowService.forfeitedEth(process.onChain), held);
+      if (forfeited > ESCROW_DUST) {
+        await WalletLedgerService.recordEscrowRelease(process.userId, forfeited, process.id!);
+      }
 
-      // Wait for lender approval time (2-4 minutes)
-      const approvalTime = (2 + Math.random() * 2) * 60 * 1000;
-      setTimeout(async () => {
-        const approved = Math.random() > this.LENDER_REJECTION_RATE;
-        
-        if (approved) {
-          // Lender approved
-          process.approvalSteps.lenderApproval.status = 'approved';
-          process.approvalSteps.lenderApproval.completionTime = new Date();
-          
-          await updateDoc(doc(db, 'escrowProcesses', process.id!), {
-            'approvalSteps.lenderApproval.status': 'approved',
-            'approvalSteps.lenderApproval.completionTime': new Date(),
-          });
+      const remainder = held - forfeited;
+      if (remainder > ESCROW_DUST) {
+        await WalletLedgerService.recordEscrowRefund(process.userId, remainder, process.id!);
+      }
+    } else {
+      await this.processRefund(process);
+    }
+  }
 
-          // Continue to completion
-          this.processEscrowStep(process);
-
-        } else {
-          // Lender rejected
-          const rejectionReason = this.LENDER_REJECTIONS[
-            Math.floor(Math.random() * this.LENDER_REJECTIONS.length)
-          ];
-          
-          process.approvalSteps.lenderApproval.status = 'rejected';
-          process.approvalSteps.lenderApproval.completionTime = new Date();
-          process.approvalSteps.lenderApproval.rejectionReason = rejectionReason;
-          process.status = 'rejected';
-          process.rejectionReason = `Lender Rejected: ${rejectionReason}`;
-          process.actualCompletionTime = new Date();
-
-          // Calculate interest earned during escrow
-          const escrowDuration = Date.now() - process.createdAt.getTime();
-          const interestEarned = this.calculateInterest(process.investmentAmount, escrowDuration);
-          process.interestEarned = interestEarned;
-
-          await updateDoc(doc(db, 'escrowProcesses', process.id!), {
-            'approvalSteps.lenderApproval.status': 'rejected',
-            'approvalSteps.lenderApproval.completionTime': new Date(),
-            'approvalSteps.lenderApproval.rejectionReason': rejectionReason,
-            status: 'rejected',
-            rejectionReason: `Lender Rejected: ${rejectionReason}`,
-            actualCompletionTime: new Date(),
-            interestEarned,
-          });
+  /**
+   * Move the buyer's funds into escrow. An escrow whose hold can't be posted
+   * is rejected straight away, so it is never resumed, refunded or completed.
+   */
+  private static async holdFunds(process: EscrowProcess, fees: PostEntryInput[] = []): Promise<void> {
+    try {
+      await WalletLedgerService.recordEscrowHold(process.userId, process.investmentAmount, process.id!, fees);
+    } catch (error) {
+      const rejected = { ...process, history: [...process.history] };
+      const at = getSimulationClock().now();
+      const reason = 'Funds could not be held in escrow';
+      EscrowStateMachine.transition(rejected, 'rejected', at, reason);
+      rejected.rejectionReason = reason;
+      rejected.actualCompletionTime = at;
+      await this.saveProgress(rejected);
+      throw error;
+    }
+  }
 
-          // Refund user with interest
-          await this.processRefund(process);
-        }
-      }, approvalTime);
+  // What an escrow still holds, from the ledger entries that reference it
+  private static escrowBalance(entries: LedgerEntry[], escrowId: string): number {
+    return WalletLedgerService.deriveBalance(entries.filter(entry => entry.reference === escrowId), 'escrow');
+  }
+
+  // Apply contract events since the last sync. A node that is unreachable leaves the record as it was.
+  private static async syncOnChain(process: EscrowProcess): Promise<{ process: EscrowProcess; transitions: EscrowTransition[] }> {
+    try {
+      const { events, phase, latestBlock } = await OnChainEscrowService.fetchEvents(process.onChain!);
+      if (events.length === 0 && phase === process.onChain!.phase) {
+        return { process, transitions: [] };
+      }
 
+      const result = OnChainEscrowService.applyEvents(process, events);
+      result.process.onChain = { ...result.process.onChain!, phase, syncedBlock: latestBlock };
+      if (result.transitions.length === 0) {
+        await this.saveProgress(result.process);
+      }
+      return result;
     } catch (error) {
-      console.error('Error processing lender approval:', error);
+      console.error(`Error syncing escrow ${process.id} with its contract:`, error);
+      return { process, transitions: [] };
     }
   }
 
+  // Persist the machine-owned fields (Firestore rejects undefined values, so optional ones are only sent when set)
+  private static async saveProgress(process: EscrowProcess): Promise<void> {
+    await getRepositories().escrows.update(process.id!, {
+      status: process.status,
+      steps: process.steps.map(step =>
+        Object.fromEntries(Object.entries(step).filter(([, value]) => value !== undefined))
+      ),
+      history: process.history,
+      interestEarned: process.interestEarned,
+      ...(process.rejectionReason ? { rejectionReason: process.rejectionReason } : {}),
+      ...(process.actualCompletionTime ? { actualCompletionTime: process.actualCompletionTime } : {}),
+      ...(process.onChain ? { onChain: process.onChain } : {}),
+    });
+  }
+
+  private static scheduleWakeUp(process: EscrowProcess): void {
+    const escrowId = process.id!;
+    const existing = this.timers.get(escrowId);
+    if (existing) {
+      clearTimeout(existing);
+      this.timers.delete(escrowId);
+    }
+
+    const wakeUp = EscrowStateMachine.nextWakeUp(process);
+    if (!wakeUp) return;
+
+    const delayMs = Math.max(0, wakeUp.getTime() - getSimulationClock().nowMs());
+    this.timers.set(escrowId, setTimeout(async () => {
+      this.timers.delete(escrowId);
+      try {
+        const latest = await getRepositories().escrows.get(escrowId);
+        if (latest) {
+          await this.advanceEscrow(latest);
+        }
+      } catch (error) {
+        console.error('Error advancing escrow:', error);
+      }
+    }, delayMs));
+  }
+
   // Complete successful escrow
-  private static async completeEscrow(process: EscrowProcess): Promise<void> {
+  private static async completeEscrow(process: EscrowProcess): Promise<EscrowProcess> {
     try {
-      process.status = 'approved';
-      process.actualCompletionTime = new Date();
+      const investments = getRepositories().investments;
 
-      await updateDoc(doc(db, 'escrowProcesses', process.id!), {
-        status: 'approved',
-        actualCompletionTime: new Date(),
-      });
+      // Only deliver shares that were paid for: the full amount is still held, or was already released
+      const entries = (await WalletLedgerService.getEntries(process.userId)).filter(entry => entry.reference === process.id);
+      const released = entries.some(entry => entry.type === 'escrow_release');
+      if (!released && this.escrowBalance(entries, process.id!) < process.investmentAmount - ESCROW_DUST) {
+        throw new Error(`Escrow ${process.id} does not hold the purchase amount`);
+      }
 
-      // Create actual investment record
-      await addDoc(collection(db, 'investments'), {
-        userId: process.userId,
-        propertyId: process.propertyId,
-        sharesOwned: process.sharesOwned,
-        purchasePrice: process.investmentAmount,
-        currentValue: process.investmentAmount, // Will be updated by appreciation
-        purchaseDate: new Date(),
-        escrowProcessId: process.id,
-      });
+      // Guard against a second completion after a crash between the writes below
+      const existingLots = await investments.listByUser(process.userId);
+      if (!existingLots.some(lot => lot.escrowProcessId === process.id)) {
+        await investments.add(process.userId, {
+          userId: process.userId,
+          propertyId: process.propertyId,
+          sharesOwned: process.sharesOwned,
+          purchasePrice: process.investmentAmount,
+          currentValue: process.investmentAmount, // Will be updated by appreciation
+          purchaseDate: process.actualCompletionTime || getSimulationClock().now(),
+          escrowProcessId: process.id,
+        });
+      }
 
-      // Final update
-      await updateDoc(doc(db, 'escrowProcesses', process.id!), {
-        status: 'completed',
-      });
+      // Release held funds to the seller
+      await WalletLedgerService.recordEscrowRelease(
+        process.userId,
+        process.investmentAmount,
+        process.id!,
+        await this.escrowGas(process, 'escrow_release')
+      );
+
+      const completed = { ...process, history: [...process.history] };
+      const completedAt = getSimulationClock().now();
+      EscrowStateMachine.transition(completed, 'completed', completedAt, 'Shares delivered and funds released');
+      completed.actualCompletionTime = completed.actualCompletionTime || completedAt;
+      await this.saveProgress(completed);
 
       console.log(`Escrow completed successfully for property ${process.propertyId}`);
+      return completed;
 
     } catch (error) {
       console.error('Error completing escrow:', error);
+      return process;
     }
   }
 
   // Process refund with interest
   private static async processRefund(process: EscrowProcess): Promise<void> {
     try {
-      const refundAmount = process.investmentAmount + process.interestEarned;
-      
-      // Update user's ETH balance (you'll need to implement this)
-      // For now, just log the refund
-      console.log(`Refunding ${refundAmount} ETH to user ${process.userId}`);
-      
-      // TODO: Update user's balance in database
-      // await this.updateUserBalance(process.userId, refundAmount);
+      // Refund only what the escrow still holds; interest is owed only on a hold that was made
+      const entries = (await WalletLedgerService.getEntries(process.userId)).filter(entry => entry.reference === process.id);
+      if (!entries.some(entry => entry.type === 'escrow_hold')) return;
+      const held = this.escrowBalance(entries, process.id!);
+
+      console.log(`Refunding ${held + process.interestEarned} ETH to user ${process.userId}`);
+
+      // Return the held principal, then credit interest earned while in escrow
+      if (held > ESCROW_DUST) {
+        await WalletLedgerService.recordEscrowRefund(
+          process.userId,
+          held,
+          process.id!,
+          await this.escrowGas(process, 'escrow_refund')
+        );
+      }
+      if (process.interestEarned > 0) {
+        await WalletLedgerService.recordInterest(
+          process.userId,
+          process.interestEarned,
+          process.id!,
+          `escrow_interest_${process.id}`
+        );
+      }
 
     } catch (error) {
       console.error('Error processing refund:', error);
     }
   }
 
+  // Simulated gas for an escrow action, posted with its ledger entry; on-chain escrows pay real gas from the node's accounts
+  private static async escrowGas(process: EscrowProcess, type: FeeTransactionType): Promise<PostEntryInput[]> {
+    if (process.onChain) return [];
+
+    const ethPrice = await PriceOracleService.getEthUsd();
+    return FeeService.entries(FeeService.quote(type, { ethPrice }), {
+      reference: process.id,
+      idempotencyKey: `fee_${type}_${process.id}`,
+    });
+  }
+
   // Calculate interest earned during escrow
   private static calculateInterest(principal: number, durationMs: number): number {
     const durationYears = durationMs / (1000 * 60 * 60 * 24 * 365);
-    const interest = principal * this.INTEREST_RATE * durationYears;
+    const interest = principal * ESCROW_INTEREST_RATE * durationYears;
     return Number(interest.toFixed(6));
   }
 
   // Get escrow process by ID
   static async getEscrowProcess(escrowId: string): Promise<EscrowProcess | null> {
     try {
-      const escrowDoc = await getDoc(doc(db, 'escrowProcesses', escrowId));
-      
-      if (escrowDoc.exists()) {
-        const data = escrowDoc.data();
-        return {
-          id: escrowDoc.id,
-          ...data,
-          createdAt: data.createdAt.toDate(),
-          estimatedCompletionTime: data.estimatedCompletionTime.toDate(),
-          actualCompletionTime: data.actualCompletionTime?.toDate(),
-          approvalSteps: {
-            inspection: {
-              ...data.approvalSteps.inspection,
-              startTime: data.approvalSteps.inspection.startTime?.toDate(),
-              completionTime: data.approvalSteps.inspection.completionTime?.toDate(),
-            },
-            lenderApproval: {
-              ...data.approvalSteps.lenderApproval,
-              startTime: data.approvalSteps.lenderApproval.startTime?.toDate(),
-              completionTime: data.approvalSteps.lenderApproval.completionTime?.toDate(),
-            },
-          },
-        } as EscrowProcess;
-      }
-      
-      return null;
+      return await getRepositories().escrows.get(escrowId);
     } catch (error) {
       console.error('Error getting escrow process:', error);
       return null;
@@ -385,35 +480,7 @@ export class EscrowService {
   // Get user's active escrow processes
   static async getUserEscrowProcesses(userId: string): Promise<EscrowProcess[]> {
     try {
-      const escrowQuery = query(
-        collection(db, 'escrowProcesses'),
-        where('userId', '==', userId)
-      );
-
-      const snapshot = await getDocs(escrowQuery);
-      
-      return snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt.toDate(),
-          estimatedCompletionTime: data.estimatedCompletionTime.toDate(),
-          actualCompletionTime: data.actualCompletionTime?.toDate(),
-          approvalSteps: {
-            inspection: {
-              ...data.approvalSteps.inspection,
-              startTime: data.approvalSteps.inspection.startTime?.toDate(),
-              completionTime: data.approvalSteps.inspection.completionTime?.toDate(),
-            },
-            lenderApproval: {
-              ...data.approvalSteps.lenderApproval,
-              startTime: data.approvalSteps.lenderApproval.startTime?.toDate(),
-              completionTime: data.approvalSteps.lenderApproval.completionTime?.toDate(),
-            },
-          },
-        } as EscrowProcess;
-      });
+      return await getRepositories().escrows.listByUser(userId);
     } catch (error) {
       console.error('Error getting user escrow processes:', error);
       return [];
@@ -427,14 +494,12 @@ export class EscrowService {
     averageCompletionTime: number;
     inspectionFailureRate: number;
     lenderRejectionRate: number;
+    stepFailureRates: Partial<Record<EscrowStepId, number>>;
   }> {
     try {
-      const escrowQuery = query(collection(db, 'escrowProcesses'));
-      const snapshot = await getDocs(escrowQuery);
-      
-      const processes = snapshot.docs.map(doc => doc.data());
+      const processes = await getRepositories().escrows.listAll();
       const totalProcesses = processes.length;
-      
+
       if (totalProcesses === 0) {
         return {
           totalProcesses: 0,
@@ -442,17 +507,26 @@ export class EscrowService {
           averageCompletionTime: 0,
           inspectionFailureRate: 0,
           lenderRejectionRate: 0,
+          stepFailureRates: {},
         };
       }
 
+      // Share of escrows that ran a step and failed or timed out on it
+      const stepFailureRates: Partial<Record<EscrowStepId, number>> = {};
+      processes.forEach(process => {
+        process.steps
+          .filter(step => step.status === 'failed' || step.status === 'timed_out')
+          .forEach(step => {
+            stepFailureRates[step.id] = (stepFailureRates[step.id] || 0) + 1 / totalProcesses;
+          });
+      });
+
       const successful = processes.filter(p => p.status === 'completed').length;
-      const inspectionFailed = processes.filter(p => p.approvalSteps.inspection.status === 'failed').length;
-      const lenderRejected = processes.filter(p => p.approvalSteps.lenderApproval.status === 'rejected').length;
-      
+
       const completedProcesses = processes.filter(p => p.actualCompletionTime);
       const averageCompletionTime = completedProcesses.length > 0
         ? completedProcesses.reduce((sum, p) => {
-            const duration = p.actualCompletionTime.toDate().getTime() - p.createdAt.toDate().getTime();
+            const duration = p.actualCompletionTime!.getTime() - p.createdAt.getTime();
             return sum + duration;
           }, 0) / completedProcesses.length
         : 0;
@@ -461,8 +535,9 @@ export class EscrowService {
         totalProcesses,
         successRate: successful / totalProcesses,
         averageCompletionTime: averageCompletionTime / (1000 * 60), // Convert to minutes
-        inspectionFailureRate: inspectionFailed / totalProcesses,
-        lenderRejectionRate: lenderRejected / totalProcesses,
+        inspectionFailureRate: stepFailureRates.inspection || 0,
+        lenderRejectionRate: stepFailureRates.lender_approval || 0,
+        stepFailureRates,
       };
     } catch (error) {
       console.error('Error getting escrow stats:', error);
@@ -472,9 +547,10 @@ export class EscrowService {
         averageCompletionTime: 0,
         inspectionFailureRate: 0,
         lenderRejectionRate: 0,
+        stepFailureRates: {},
       };
     }
   }
 }
 
-export type { EscrowProcess, EscrowResult };
\ No newline at end of file
+export type { EscrowProcess, EscrowResult };
@@ -0,0 +1,195 @@
+import { ESCROW_STEPS, ESCROW_WORKFLOWS, type EscrowStepId } from '../config/escrowConfig';
+import type { PropertyClass } from '../types/property';
+
+/**
+ * Escrow workflow as a persisted state machine.
+ *
+ * The escrow's `status` is either a lifecycle state or the id of the step in
+ * progress. Each step records when it started, when its result is due and its
+ * deadline, so `advance` can replay everything that happened while the app
+ * was closed using those stored times rather than the time it resumes.
+ */
+
+export type EscrowState = 'pending' | EscrowStepId | 'approved' | 'rejected' | 'completed';
+
+export type EscrowStepStatus = 'pending' | 'in_progress' | 'passed' | 'failed' | 'timed_out' | 'skipped';
+
+export interface EscrowStep {
+  id: EscrowStepId;
+  status: EscrowStepStatus;
+  startTime?: Date;
+  dueAt?: Date; // When the step's result comes back
+  deadline?: Date; // Step fails if still unresolved at this time
+  completionTime?: Date;
+  failureReason?: string;
+}
+
+export interface EscrowTransition {
+  from: EscrowState;
+  to: EscrowState;
+  at: Date;
+  reason: string;
+}
+
+// The subset of an escrow process the state machine reads and writes
+export interface EscrowMachineState {
+  status: EscrowState;
+  createdAt: Date;
+  steps: EscrowStep[];
+  history: EscrowTransition[];
+  rejectionReason?: string;
+  actualCompletionTime?: Date;
+}
+
+export interface EscrowAdvanceResult<T extends EscrowMachineState> {
+  process: T;
+  transitions: EscrowTransition[];
+}
+
+const MINUTE_MS = 60 * 1000;
+const TERMINAL_STATES: EscrowState[] = ['rejected', 'completed'];
+
+export class InvalidEscrowTransitionError extends Error {
+  constructor(from: EscrowState, to: EscrowState) {
+    super(`Escrow cannot move from ${from} to ${to}`);
+    this.name = 'InvalidEscrowTransitionError';
+  }
+}
+
+export class EscrowStateMachine {
+  /**
+   * Build the step list for a property class (or an explicit list of steps).
+   * Guarded steps that do not apply are marked skipped.
+   */
+  static createSteps(
+    propertyClass: PropertyClass,
+    requiresFinancing: boolean,
+    stepIds: EscrowStepId[] = ESCROW_WORKFLOWS[propertyClass].steps
+  ): EscrowStep[] {
+    return stepIds.map(id => ({
+      id,
+      status: ESCROW_STEPS[id].financedOnly && !requiresFinancing ? 'skipped' : 'pending',
+    }));
+  }
+
+  /**
+   * Expected completion assuming every step takes its average duration
+   */
+  static estimateCompletion(steps: EscrowStep[], start: Date): Date {
+    const totalMinutes = steps
+      .filter(step => step.status !== 'skipped')
+      .reduce((sum, step) => {
+        const config = ESCROW_STEPS[step.id];
+        return sum + (config.minDurationMinutes + config.maxDurationMinutes) / 2;
+      }, 0);
+    return new Date(start.getTime() + totalMinutes * MINUTE_MS);
+  }
+
+  static isTerminal(status: EscrowState): boolean {
+    return TERMINAL_STATES.includes(status);
+  }
+
+  /**
+   * States reachable from the current one. Steps run in order, so the only
+   * forward move from a step is the next pending step (or approval when none remain).
+   */
+  static allowedTransitions(process: EscrowMachineState): EscrowState[] {
+    if (this.isTerminal(process.status)) return [];
+    // On-chain escrows can still be cancelled between approval and settlement
+    if (process.status === 'approved') return ['completed', 'rejected'];
+
+    const nextStep = process.steps.find(step => step.status === 'pending');
+    return [nextStep ? nextStep.id : 'approved', 'rejected'];
+  }
+
+  /**
+   * Move to a new state, recording the transition. Throws if the move is not allowed.
+   */
+  static transition<T extends EscrowMachineState>(process: T, to: EscrowState, at: Date, reason: string): EscrowTransition {
+    if (!this.allowedTransitions(process).includes(to)) {
+      throw new InvalidEscrowTransitionError(process.status, to);
+    }
+
+    const record: EscrowTransition = { from: process.status, to, at, reason };
+    process.history.push(record);
+    process.status = to;
+    return record;
+  }
+
+  /**
+   * Replay the workflow up to `now`, resolving every step whose result or
+   * deadline has passed. Returns a new process; the input is not modified.
+   */
+  static advance<T extends EscrowMachineState>(process: T, now: Date, random: () => number): EscrowAdvanceResult<T> {
+    const next: T = {
+      ...process,
+      steps: process.steps.map(step => ({ ...step })),
+      history: [...process.history],
+    };
+    const transitions: EscrowTransition[] = [];
+
+    if (next.status === 'pending') {
+      transitions.push(this.startNextStep(next, next.createdAt, random));
+    }
+
+    while (!this.isTerminal(next.status) && next.status !== 'approved') {
+      const step = next.steps.find(candidate => candidate.id === next.status);
+      if (!step || !step.dueAt || !step.deadline) break;
+
+      const config = ESCROW_STEPS[step.id];
+      const timesOut = step.deadline.getTime() < step.dueAt.getTime();
+      const resolvedAt = timesOut ? step.deadline : step.dueAt;
+      if (resolvedAt.getTime() > now.getTime()) break;
+
+      step.completionTime = resolvedAt;
+
+      if (timesOut) {
+        step.status = 'timed_out';
+        transitions.push(this.reject(next, `${config.label} Timed Out: no response within ${config.timeoutMinutes} minutes`, resolvedAt));
+      } else if (random() < config.failureRate) {
+        const failureReason = config.failureReasons[Math.floor(random() * config.failureReasons.length)];
+        step.status = 'failed';
+        step.failureReason = failureReason;
+        transitions.push(this.reject(next, `${config.failureLabel}: ${failureReason}`, resolvedAt));
+      } else {
+        step.status = 'passed';
+        transitions.push(this.startNextStep(next, resolvedAt, random));
+      }
+    }
+
+    return { process: next, transitions };
+  }
+
+  /**
+   * When the next timer should fire for an in-progress step, or null if nothing is pending
+   */
+  static nextWakeUp(process: EscrowMachineState): Date | null {
+    const step = process.steps.find(candidate => candidate.id === process.status);
+    if (!step?.dueAt || !step.deadline) return null;
+    return step.dueAt.getTime() <= step.deadline.getTime() ? step.dueAt : step.deadline;
+  }
+
+  private static startNextStep(process: EscrowMachineState, at: Date, random: () => number): EscrowTransition {
+    const step = process.steps.find(candidate => candidate.status === 'pending');
+    if (!step) {
+      return this.transition(process, 'approved', at, 'All approval steps passed');
+    }
+
+    const config = ESCROW_STEPS[step.id];
+    // Transition first: only a step that is still pending can be moved to
+    const transition = this.transition(process, step.id, at, `${config.label} started`);
+
+    const durationMinutes = config.minDurationMinutes + random() * (config.maxDurationMinutes - config.minDurationMinutes);
+    step.status = 'in_progress';
+    step.startTime = at;
+    step.dueAt = new Date(at.getTime() + durationMinutes * MINUTE_MS);
+    step.deadline = new Date(at.getTime() + config.timeoutMinutes * MINUTE_MS);
+    return transition;
+  }
+
+  private static reject(process: EscrowMachineState, reason: string, at: Date): EscrowTransition {
+    process.rejectionReason = reason;
+    process.actualCompletionTime = at;
+    return this.transition(process, 'rejected', at, reason);
+  }
+}
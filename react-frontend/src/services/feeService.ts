@@ -0,0 +1,221 @@
+import {
+  CONFIRMATION_TIMES,
+  GAS_MARKET_CONFIG,
+  GAS_UNITS,
+  PLATFORM_FEE_CONFIG,
+  PRIORITY_FEES_GWEI,
+  type FeeSpeed,
+  type FeeTransactionType
+} from '../config/feeConfig';
+import { getSimulationClock } from './simulationClock';
+import { WalletLedgerService, type LedgerAsset, type LedgerEntry, type PostEntryInput } from './walletLedgerService';
+import { seededGaussian } from '../utils/seededRandom';
+
+/**
+ * Network and platform fees for simulated transactions.
+ *
+ * The gas market is a pure function of the simulation seed and game time:
+ * the base fee of a block is found by replaying the EIP-1559 update over the
+ * blocks before it, each with a seeded fullness, so every quote and charge
+ * at the same game time agrees and a seeded session replays exactly.
+ */
+
+export type FeeKind = 'network' | 'acquisition';
+
+export interface GasQuote {
+  type: FeeTransactionType;
+  speed: FeeSpeed;
+  gasUnits: number;
+  baseFeeGwei: number;
+  priorityFeeGwei: number;
+  maxFeePerGasGwei: number; // What a wallet would sign: 2x base fee plus the tip
+  feeEth: number; // Actually paid: (base fee + tip) x gas units
+  estimatedTime: string;
+}
+
+export interface FeeItem {
+  kind: FeeKind;
+  label: string;
+  amountEth: number;
+  amountUsd: number;
+}
+
+export interface FeeBreakdown {
+  type: FeeTransactionType;
+  gas: GasQuote;
+  items: FeeItem[];
+  totalEth: number;
+  totalUsd: number;
+  ethPrice: number;
+}
+
+export interface FeeQuoteInput {
+  ethPrice: number;
+  amountUsd?: number; // Purchase price the acquisition fee applies to
+  speed?: FeeSpeed;
+  gameTime?: Date;
+}
+
+export interface ChargeFeesOptions {
+  asset?: LedgerAsset; // Currency the fees are settled in; gas paid in USDC is converted at the quote's price
+  reference?: string;
+  idempotencyKey?: string; // Suffixed with the fee kind per item
+}
+
+// Keeps the gas market's draws independent of other seeded processes
+const GAS_MARKET_STREAM = 0x6a5d39e9;
+const GWEI = 1e-9;
+
+export class FeeService {
+  private static cachedBlock: { seed: number; block: number; baseFeeGwei: number } | null = null;
+
+  /**
+   * EIP-1559 base fee of the block containing a game time
+   */
+  static baseFeeGwei(gameTime: Date = getSimulationClock().gameNow()): number {
+    const seed = getSimulationClock().seed;
+    const block = Math.floor(gameTime.getTime() / GAS_MARKET_CONFIG.blockGameMs);
+    if (this.cachedBlock?.seed === seed && this.cachedBlock.block === block) {
+      return this.cachedBlock.baseFeeGwei;
+    }
+
+    const {
+      historyBlocks,
+      targetBaseFeeGwei,
+      minBaseFeeGwei,
+      maxChangePerBlock,
+      congestionVolatility,
+      congestionReversion,
+    } = GAS_MARKET_CONFIG;
+
+    let baseFee = targetBaseFeeGwei;
+    for (let n = block - historyBlocks + 1; n <= block; n++) {
+      // Fullness of the previous block: half full on average, less busy when fees are high
+      const fullness = 0.5
+        + congestionVolatility * seededGaussian(seed ^ GAS_MARKET_STREAM, n)
+        - congestionReversion * Math.log(baseFee / targetBaseFeeGwei);
+      const gasUsedOverTarget = Math.min(Math.max(fullness, 0), 1) * 2;
+      baseFee = Math.max(minBaseFeeGwei, baseFee * (1 + maxChangePerBlock * (gasUsedOverTarget - 1)));
+    }
+
+    this.cachedBlock = { seed, block, baseFeeGwei: baseFee };
+    return baseFee;
+  }
+
+  /**
+   * Effective gas price (base fee plus tip) for a speed
+   */
+  static gasPriceGwei(speed: FeeSpeed = 'standard', gameTime?: Date): number {
+    return this.baseFeeGwei(gameTime) + PRIORITY_FEES_GWEI[speed];
+  }
+
+  static estimateGas(type: FeeTransactionType, speed: FeeSpeed = 'standard', gameTime?: Date): GasQuote {
+    const baseFeeGwei = this.baseFeeGwei(gameTime);
+    const priorityFeeGwei = PRIORITY_FEES_GWEI[speed];
+    const gasUnits = GAS_UNITS[type];
+
+    return {
+      type,
+      speed,
+      gasUnits,
+      baseFeeGwei,
+      priorityFeeGwei,
+      maxFeePerGasGwei: baseFeeGwei * 2 + priorityFeeGwei,
+      feeEth: (baseFeeGwei + priorityFeeGwei) * gasUnits * GWEI,
+      estimatedTime: CONFIRMATION_TIMES[speed],
+    };
+  }
+
+  /**
+   * Itemized fees for a transaction: network gas plus the platform fee that
+   * applies to its type
+   */
+  static quote(type: FeeTransactionType, input: FeeQuoteInput): FeeBreakdown {
+    const { ethPrice, amountUsd = 0, speed = 'standard', gameTime } = input;
+    const gas = this.estimateGas(type, speed, gameTime);
+
+    const items: FeeItem[] = [{
+      kind: 'network',
+      label: `Network fee (${gas.gasUnits.toLocaleString()} gas @ ${(gas.baseFeeGwei + gas.priorityFeeGwei).toFixed(2)} gwei)`,
+      amountEth: gas.feeEth,
+      amountUsd: gas.feeEth * ethPrice,
+    }];
+
+    const platformFee = (kind: FeeKind, label: string, rate: number) => {
+      const feeUsd = amountUsd * rate;
+      if (feeUsd > 0) {
+        items.push({ kind, label: `${label} (${(rate * 100).toFixed(1)}%)`, amountEth: feeUsd / ethPrice, amountUsd: feeUsd });
+      }
+    };
+    // Management is an operating expense taken before rent is paid out, not a fee on collecting it
+    if (type === 'purchase') {
+      platformFee('acquisition', 'Acquisition fee', PLATFORM_FEE_CONFIG.acquisitionFeeRate);
+    }
+
+    return {
+      type,
+      gas,
+      items,
+      totalEth: items.reduce((sum, item) => sum + item.amountEth, 0),
+      totalUsd: items.reduce((sum, item) => sum + item.amountUsd, 0),
+      ethPrice,
+    };
+  }
+
+  /**
+   * Amount of a breakdown in the currency it will be settled in
+   */
+  static totalIn(breakdown: FeeBreakdown, asset: LedgerAsset): number {
+    return asset === 'USDC' ? breakdown.totalUsd : breakdown.totalEth;
+  }
+
+  /**
+   * Ledger entries for each fee in a breakdown, to post in the same append as
+   * the transaction they are charged on
+   */
+  static entries(breakdown: FeeBreakdown, options: ChargeFeesOptions = {}): PostEntryInput[] {
+    const asset = options.asset ?? 'ETH';
+    return breakdown.items
+      .filter(item => (asset === 'USDC' ? item.amountUsd : item.amountEth) > 0)
+      .map(item => WalletLedgerService.feeEntry(
+        asset === 'USDC' ? item.amountUsd : item.amountEth,
+        item.label,
+        options.reference,
+        options.idempotencyKey ? `${options.idempotencyKey}_${item.kind}` : undefined,
+        { asset, usdAmount: item.amountUsd }
+      ));
+  }
+
+  /**
+   * Post each fee in a breakdown to the wallet ledger
+   */
+  static async charge(userId: string, breakdown: FeeBreakdown, options: ChargeFeesOptions = {}): Promise<LedgerEntry[]> {
+    const asset = options.asset ?? 'ETH';
+    const entries: LedgerEntry[] = [];
+
+    for (const fee of this.entries(breakdown, options)) {
+      entries.push(await WalletLedgerService.postEntry(userId, fee));
+    }
+
+    console.log(`⛽ Charged ${breakdown.type} fees: ${this.totalIn(breakdown, asset).toFixed(asset === 'USDC' ? 2 : 6)} ${asset} (~$${breakdown.totalUsd.toFixed(2)})`);
+    return entries;
+  }
+
+  /**
+   * Charge fees on rent that has already been paid out: a failed charge is
+   * logged rather than undoing the payout. Everything else posts its fees
+   * with the transaction (see `entries`).
+   */
+  static async chargeAfterSettlement(
+    userId: string,
+    type: FeeTransactionType,
+    input: FeeQuoteInput,
+    options: ChargeFeesOptions = {}
+  ): Promise<void> {
+    try {
+      await this.charge(userId, this.quote(type, input), options);
+    } catch (error) {
+      console.error(`❌ Failed to charge ${type} fees for ${userId}:`, error);
+    }
+  }
+}
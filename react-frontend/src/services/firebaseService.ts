@@ -3,7 +3,6 @@ import {
   doc,
   addDoc,
   updateDoc,
-  deleteDoc,
   getDocs,
   getDoc,
   query,
@@ -12,13 +11,12 @@ import {
   limit,
   onSnapshot,
   Timestamp,
-  writeBatch,
   serverTimestamp,
-  QueryConstraint,
   DocumentSnapshot,
   QuerySnapshot
 } from 'firebase/firestore';
 import { db } from '../firebase/config';
+import { getRepositories } from '../repositories';
 import { Property, PropertyFilters, PropertySortOptions, WatchlistItem, PropertyStatus } from '../types/property';
 
 // Simulation Wallet types
@@ -56,13 +54,10 @@ export class PropertyService {
   // Create a new property
   async createProperty(property: Omit<Property, 'id'>): Promise<string> {
     try {
-      const docRef = await addDoc(collection(db, COLLECTIONS.PROPERTIES), {
+      return await getRepositories().properties.create({
         ...property,
-        createdAt: serverTimestamp(),
-        selloutTime: property.selloutTime,
         status: 'available'
       });
-      return docRef.id;
     } catch (error) {
       console.error('Error creating property:', error);
       throw new Error('Failed to create property');
@@ -72,22 +67,9 @@ export class PropertyService {
   // Create multiple properties in batch
   async createPropertiesBatch(properties: Omit<Property, 'id'>[]): Promise<string[]> {
     try {
-      const batch = writeBatch(db);
-      const propertyIds: string[] = [];
-
-      properties.forEach((property) => {
-        const docRef = doc(collection(db, COLLECTIONS.PROPERTIES));
-        propertyIds.push(docRef.id);
-        batch.set(docRef, {
-          ...property,
-          createdAt: serverTimestamp(),
-          selloutTime: property.selloutTime,
-          status: 'available'
-        });
-      });
-
-      await batch.commit();
-      return propertyIds;
+      return await getRepositories().properties.createMany(
+        properties.map(property => ({ ...property, status: 'available' }))
+      );
     } catch (error) {
       console.error('Error creating properties batch:', error);
       throw new Error('Failed to create properties batch');
@@ -97,17 +79,7 @@ export class PropertyService {
   // Get property by ID
   async getProperty(propertyId: string): Promise<Property | null> {
     try {
-      const docRef = doc(db, COLLECTIONS.PROPERTIES, propertyId);
-      const docSnap = await getDoc(docRef);
-      
-      if (docSnap.exists()) {
-        return {
-          id: docSnap.id,
-          ...docSnap.data()
-        } as Property;
-      }
-      
-      return null;
+      return await getRepositories().properties.get(propertyId);
     } catch (error) {
       console.error('Error getting property:', error);
       throw new Error('Failed to get property');
@@ -121,53 +93,11 @@ export class PropertyService {
     limitCount?: number
   ): Promise<Property[]> {
     try {
-      const constraints: QueryConstraint[] = [];
-
-      // Apply filters
-      if (filters) {
-        if (filters.class && filters.class.length > 0) {
-          constraints.push(where('class', 'in', filters.class));
-        }
-        
-        if (filters.status && filters.status.length > 0) {
-          constraints.push(where('status', 'in', filters.status));
-        }
-        
-        if (filters.region && filters.region.length > 0) {
-          constraints.push(where('region', 'in', filters.region));
-        }
-        
-        // Price range filter (if provided)
-        if (filters.priceRange) {
-          if (filters.priceRange.min > 0) {
-            constraints.push(where('price', '>=', filters.priceRange.min));
-          }
-          if (filters.priceRange.max > 0) {
-            constraints.push(where('price', '<=', filters.priceRange.max));
-          }
-        }
-      }
-
-      // Apply sorting
-      if (sortOptions) {
-        constraints.push(orderBy(sortOptions.field, sortOptions.direction));
-      } else {
-        // Default sort by creation time
-        constraints.push(orderBy('createdAt', 'desc'));
-      }
-
-      // Apply limit
-      if (limitCount) {
-        constraints.push(limit(limitCount));
-      }
-
-      const q = query(collection(db, COLLECTIONS.PROPERTIES), ...constraints);
-      const querySnapshot = await getDocs(q);
-      
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Property[];
+      return await getRepositories().properties.list({
+        filters,
+        sort: sortOptions,
+        limit: limitCount
+      });
     } catch (error) {
       console.error('Error getting properties:', error);
       throw new Error('Failed to get properties');
@@ -177,11 +107,7 @@ export class PropertyService {
   // Get all properties (simple query without filters to avoid index issues)
   async getAllPropertiesSimple(): Promise<Property[]> {
     try {
-      const querySnapshot = await getDocs(collection(db, COLLECTIONS.PROPERTIES));
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Property[];
+      return await getRepositories().properties.list();
     } catch (error) {
       console.error('Error getting properties:', error);
       throw new Error('Failed to get properties');
@@ -198,11 +124,7 @@ export class PropertyService {
   // Update property status
   async updatePropertyStatus(propertyId: string, status: PropertyStatus): Promise<void> {
     try {
-      const docRef = doc(db, COLLECTIONS.PROPERTIES, propertyId);
-      await updateDoc(docRef, {
-        status,
-        updatedAt: serverTimestamp()
-      });
+      await getRepositories().properties.update(propertyId, { status });
     } catch (error) {
       console.error('Error updating property status:', error);
       throw new Error('Failed to update property status');
@@ -212,17 +134,9 @@ export class PropertyService {
   // Update multiple property statuses in batch
   async updatePropertyStatusesBatch(updates: { id: string; status: PropertyStatus }[]): Promise<void> {
     try {
-      const batch = writeBatch(db);
-
-      updates.forEach(({ id, status }) => {
-        const docRef = doc(db, COLLECTIONS.PROPERTIES, id);
-        batch.update(docRef, {
-          status,
-          updatedAt: serverTimestamp()
-        });
-      });
-
-      await batch.commit();
+      await getRepositories().properties.updateMany(
+        updates.map(({ id, status }) => ({ id, changes: { status } }))
+      );
     } catch (error) {
       console.error('Error updating property statuses:', error);
       throw new Error('Failed to update property statuses');
@@ -232,8 +146,7 @@ export class PropertyService {
   // Delete property (for cleanup of sold properties)
   async deleteProperty(propertyId: string): Promise<void> {
     try {
-      const docRef = doc(db, COLLECTIONS.PROPERTIES, propertyId);
-      await deleteDoc(docRef);
+      await getRepositories().properties.delete(propertyId);
     } catch (error) {
       console.error('Error deleting property:', error);
       throw new Error('Failed to delete property');
@@ -247,42 +160,9 @@ export class PropertyService {
     sortOptions?: PropertySortOptions
   ): () => void {
     try {
-      const constraints: QueryConstraint[] = [];
-
-      // Apply filters (similar to getProperties)
-      if (filters) {
-        if (filters.class && filters.class.length > 0) {
-          constraints.push(where('class', 'in', filters.class));
-        }
-        
-        if (filters.status && filters.status.length > 0) {
-          constraints.push(where('status', 'in', filters.status));
-        }
-        
-        if (filters.region && filters.region.length > 0) {
-          constraints.push(where('region', 'in', filters.region));
-        }
-      }
-
-      // Apply sorting
-      if (sortOptions) {
-        constraints.push(orderBy(sortOptions.field, sortOptions.direction));
-      } else {
-        constraints.push(orderBy('createdAt', 'desc'));
-      }
-
-      const q = query(collection(db, COLLECTIONS.PROPERTIES), ...constraints);
-      
-      return onSnapshot(q, (querySnapshot) => {
-        const properties = querySnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as Property[];
-        
-        callback(properties);
-      }, (error) => {
-        console.error('Error in properties subscription:', error);
-      });
+      // Price range is not applied to the live listener
+      const liveFilters = filters ? { ...filters, priceRange: undefined } : undefined;
+      return getRepositories().properties.subscribe(callback, { filters: liveFilters, sort: sortOptions });
     } catch (error) {
       console.error('Error setting up properties subscription:', error);
       return () => {}; // Return no-op unsubscribe function
@@ -292,14 +172,13 @@ export class PropertyService {
   // Get properties count by status
   async getPropertiesCountByStatus(): Promise<Record<PropertyStatus, number>> {
     try {
-      const [available, endingSoon] = await Promise.all([
-        getDocs(query(collection(db, COLLECTIONS.PROPERTIES), where('status', '==', 'available'))),
-        getDocs(query(collection(db, COLLECTIONS.PROPERTIES), where('status', '==', 'ending_soon')))
-      ]);
+      const properties = await getRepositories().properties.list();
 
       return {
-        available: available.size,
-        ending_soon: endingSoon.size
+        available: properties.filter(p => p.status === 'available').length,
+        ending_soon: properties.filter(p => p.status === 'ending_soon').length,
+        sold_out: properties.filter(p => p.status === 'sold_out').length,
+        disposed: properties.filter(p => p.status === 'disposed').length
       };
     } catch (error) {
       console.error('Error getting properties count:', error);
@@ -328,13 +207,7 @@ export class WatchlistService {
         throw new Error('Property already in watchlist');
       }
 
-      const docRef = await addDoc(collection(db, COLLECTIONS.WATCHLIST), {
-        userId,
-        propertyId,
-        addedDate: serverTimestamp()
-      });
-      
-      return docRef.id;
+      return await getRepositories().watchlists.add(userId, propertyId);
     } catch (error) {
       console.error('Error adding to watchlist:', error);
       throw new Error('Failed to add to watchlist');
@@ -346,8 +219,7 @@ export class WatchlistService {
     try {
       const item = await this.getWatchlistItem(userId, propertyId);
       if (item) {
-        const docRef = doc(db, COLLECTIONS.WATCHLIST, item.id);
-        await deleteDoc(docRef);
+        await getRepositories().watchlists.remove(userId, item.id);
       }
     } catch (error) {
       console.error('Error removing from watchlist:', error);
@@ -358,17 +230,7 @@ export class WatchlistService {
   // Get user's watchlist
   async getUserWatchlist(userId: string): Promise<WatchlistItem[]> {
     try {
-      const q = query(
-        collection(db, COLLECTIONS.WATCHLIST),
-        where('userId', '==', userId),
-        orderBy('addedDate', 'desc')
-      );
-      
-      const querySnapshot = await getDocs(q);
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as WatchlistItem[];
+      return await getRepositories().watchlists.list(userId);
     } catch (error) {
       console.error('Error getting watchlist:', error);
       throw new Error('Failed to get watchlist');
@@ -378,22 +240,7 @@ export class WatchlistService {
   // Get watchlist item
   private async getWatchlistItem(userId: string, propertyId: string): Promise<WatchlistItem | null> {
     try {
-      const q = query(
-        collection(db, COLLECTIONS.WATCHLIST),
-        where('userId', '==', userId),
-        where('propertyId', '==', propertyId)
-      );
-      
-      const querySnapshot = await getDocs(q);
-      if (!querySnapshot.empty) {
-        const doc = querySnapshot.docs[0];
-        return {
-          id: doc.id,
-          ...doc.data()
-        } as WatchlistItem;
-      }
-      
-      return null;
+      return await getRepositories().watchlists.find(userId, propertyId);
     } catch (error) {
       console.error('Error getting watchlist item:', error);
       return null;
@@ -409,22 +256,7 @@ export class WatchlistService {
   // Subscribe to user's watchlist changes
   subscribeToWatchlist(userId: string, callback: (watchlist: WatchlistItem[]) => void): () => void {
     try {
-      const q = query(
-        collection(db, COLLECTIONS.WATCHLIST),
-        where('userId', '==', userId),
-        orderBy('addedDate', 'desc')
-      );
-      
-      return onSnapshot(q, (querySnapshot) => {
-        const watchlist = querySnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as WatchlistItem[];
-        
-        callback(watchlist);
-      }, (error) => {
-        console.error('Error in watchlist subscription:', error);
-      });
+      return getRepositories().watchlists.subscribe(userId, callback);
     } catch (error) {
       console.error('Error setting up watchlist subscription:', error);
       return () => {};
@@ -0,0 +1,439 @@
+// Governance Service - shareholder proposals and voting per property
+// Holders propose changes to a property and vote with their shares; mock
+// investors vote over the window as their investor type leans. When voting
+// closes a proposal passes on quorum and a majority of the votes cast, and
+// a passed proposal applies its effect to the simulation.
+
+import { getRepositories } from '../repositories';
+import {
+  GOVERNANCE_CONFIG,
+  MOCK_VOTING,
+  PROPERTY_MANAGERS,
+  PROPOSAL_LABELS,
+  type ProposalKind
+} from '../config/governanceConfig';
+import { RENOVATION_SPECS, type RenovationFunding, type RenovationKind } from '../config/renovationConfig';
+import { DispositionService } from './dispositionService';
+import { LoanService } from './loanService';
+import { MockInvestorService } from './mockInvestorService';
+import { PropertyOperationsService } from './propertyOperationsService';
+import { RenovationService } from './renovationService';
+import { getSimulationClock, GAME_MONTH_MS } from './simulationClock';
+import { hashString, seededUniform } from '../utils/seededRandom';
+
+type ProposalStatus = 'open' | 'passed' | 'rejected' | 'executed' | 'failed';
+
+type VoteChoice = 'for' | 'against';
+
+interface Proposal {
+  id?: string;
+  propertyId: string;
+  propertyAddress: string;
+  kind: ProposalKind;
+  managerId?: string; // change_manager: one of PROPERTY_MANAGERS
+  renovationKind?: RenovationKind; // renovate
+  renovationFunding?: RenovationFunding; // renovate
+  proposerId: string;
+  proposerName: string;
+  totalShares: number;
+  createdAt: Date; // Game time
+  votingEndsAt: Date; // Game time
+  status: ProposalStatus;
+  forShares?: number; // Final tally, once voting has closed
+  againstShares?: number;
+  resolvedAt?: Date; // Game time voting closed
+  outcome?: string; // What passing did, or why it couldn't
+}
+
+/**
+ * One holder's vote, weighted by the shares they held when they cast it.
+ * Stored under the voter's id, so each holder votes once.
+ */
+interface ProposalVote {
+  voterId: string;
+  voterName: string;
+  voterType: 'user' | 'mock';
+  shares: number;
+  choice: VoteChoice;
+  castAt: Date; // Game time
+}
+
+interface ProposalOptions {
+  managerId?: string;
+  renovationKind?: RenovationKind;
+  renovationFunding?: RenovationFunding;
+}
+
+interface ProposalTally {
+  forShares: number;
+  againstShares: number;
+  turnout: number; // Share of all shares that voted
+  quorumMet: boolean;
+  passing: boolean;
+}
+
+interface ProposalView {
+  proposal: Proposal;
+  votes: ProposalVote[];
+  tally: ProposalTally;
+  userVote: ProposalVote | null;
+}
+
+export class GovernanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GovernanceError';
+  }
+}
+
+// Independent draws per mock voter and proposal
+const TURNOUT_DRAW = 0;
+const CHOICE_DRAW = 1;
+const TIMING_DRAW = 2;
+
+export class GovernanceService {
+  private static settlements = new Map<string, Promise<number>>();
+
+  static describe(proposal: Pick<Proposal, 'kind' | 'managerId' | 'renovationKind' | 'renovationFunding'>): string {
+    if (proposal.kind === 'change_manager') {
+      const manager = PROPERTY_MANAGERS.find(option => option.id === proposal.managerId);
+      return `${PROPOSAL_LABELS.change_manager} to ${manager?.name ?? 'a new manager'}`;
+    }
+    if (proposal.kind === 'renovate' && proposal.renovationKind && proposal.renovationFunding) {
+      return `${PROPOSAL_LABELS.renovate}: ${RenovationService.describe({ kind: proposal.renovationKind, funding: proposal.renovationFunding })}`;
+    }
+    return PROPOSAL_LABELS[proposal.kind];
+  }
+
+  /**
+   * Shares a user can vote with on a property
+   */
+  static async votingPower(userId: string, propertyId: string): Promise<number> {
+    const records = await getRepositories().investments.listByUser(userId);
+    return records
+      .filter(record => record.propertyId === propertyId && record.status !== 'closed')
+      .reduce((sum, record) => sum + record.sharesOwned, 0);
+  }
+
+  /**
+   * A property's proposals, newest first, with their votes and the tally so far
+   */
+  static async getProposalViews(propertyId: string, userId?: string): Promise<ProposalView[]> {
+    const proposals = await getRepositories().governance.listByProperty(propertyId);
+    return Promise.all(proposals.map(async proposal => {
+      const votes = await this.getVotes(proposal);
+      return {
+        proposal,
+        votes,
+        tally: this.tally(proposal, votes),
+        userVote: votes.find(vote => vote.voterType === 'user' && vote.voterId === userId) ?? null,
+      };
+    }));
+  }
+
+  /**
+   * Open a vote on a property the user holds shares in. The proposer votes
+   * for it straight away.
+   */
+  static async propose(
+    userId: string,
+    userName: string,
+    propertyId: string,
+    kind: ProposalKind,
+    options: ProposalOptions = {}
+  ): Promise<Proposal> {
+    const repositories = getRepositories();
+    const property = await repositories.properties.get(propertyId);
+    if (!property || property.status === 'disposed') {
+      throw new GovernanceError('This property is no longer held');
+    }
+
+    const shares = await this.votingPower(userId, propertyId);
+    if (shares < GOVERNANCE_CONFIG.minSharesToPropose) {
+      throw new GovernanceError('Only shareholders can make proposals');
+    }
+
+    if (kind === 'sell_now' && !DispositionService.fundedAt(property)) {
+      throw new GovernanceError('A property can only be sold once every share has been bought');
+    }
+    if (kind === 'refinance' && !LoanService.isFinanceable(property.class)) {
+      throw new GovernanceError(`Class ${property.class} properties can't carry mortgages`);
+    }
+    if (kind === 'change_manager') {
+      const manager = PROPERTY_MANAGERS.find(option => option.id === options.managerId);
+      if (!manager) throw new GovernanceError('Choose a property manager');
+      if (property.manager?.name === manager.name) {
+        throw new GovernanceError(`${manager.name} already manages this property`);
+      }
+    }
+    if (kind === 'renovate') {
+      if (!options.renovationKind || !RENOVATION_SPECS[options.renovationKind] || !options.renovationFunding) {
+        throw new GovernanceError('Choose a renovation and how to pay for it');
+      }
+      if (await RenovationService.getActiveProject(propertyId)) {
+        throw new GovernanceError('Another renovation is already under way');
+      }
+    }
+
+    const existing = await repositories.governance.listByProperty(propertyId);
+    if (existing.some(proposal => proposal.kind === kind && proposal.status === 'open')) {
+      throw new GovernanceError('A vote on this is already open');
+    }
+
+    const gameNow = getSimulationClock().gameNow();
+    const proposal: Omit<Proposal, 'id'> = {
+      propertyId,
+      propertyAddress: property.address,
+      kind,
+      ...(kind === 'change_manager' && { managerId: options.managerId }),
+      ...(kind === 'renovate' && { renovationKind: options.renovationKind, renovationFunding: options.renovationFunding }),
+      proposerId: userId,
+      proposerName: userName,
+      totalShares: property.totalShares || 100,
+      createdAt: gameNow,
+      votingEndsAt: new Date(gameNow.getTime() + GOVERNANCE_CONFIG.votingMonths * GAME_MONTH_MS),
+      status: 'open',
+    };
+    const id = await repositories.governance.add(proposal);
+    await repositories.governance.castVote(id, {
+      voterId: userId,
+      voterName: userName,
+      voterType: 'user',
+      shares,
+      choice: 'for',
+      castAt: gameNow,
+    });
+
+    console.log(`🗳️ ${userName} proposed "${this.describe(proposal)}" on ${property.address}`);
+    return { ...proposal, id };
+  }
+
+  static async vote(userId: string, userName: string, proposalId: string, choice: VoteChoice): Promise<void> {
+    const repositories = getRepositories();
+    const proposal = await repositories.governance.get(proposalId);
+    const gameNow = getSimulationClock().gameNow();
+    if (!proposal || proposal.status !== 'open' || proposal.votingEndsAt <= gameNow) {
+      throw new GovernanceError('Voting on this proposal has closed');
+    }
+
+    const shares = await this.votingPower(userId, proposal.propertyId);
+    if (shares <= 0) {
+      throw new GovernanceError('Only shareholders can vote');
+    }
+
+    const cast = await repositories.governance.castVote(proposalId, {
+      voterId: userId,
+      voterName: userName,
+      voterType: 'user',
+      shares,
+      choice,
+      castAt: gameNow,
+    });
+    if (!cast) {
+      throw new GovernanceError('You have already voted on this proposal');
+    }
+  }
+
+  /**
+   * Close every proposal whose voting window has ended and carry out the
+   * ones that passed
+   */
+  static async processDueProposals(): Promise<number> {
+    const repositories = getRepositories();
+    const gameNow = getSimulationClock().gameNow();
+
+    let resolved = 0;
+    for (const proposal of await repositories.governance.listByStatus('open')) {
+      if (proposal.votingEndsAt > gameNow) continue;
+      try {
+        if (await this.resolve(proposal)) resolved++;
+      } catch (error) {
+        console.error(`❌ Failed to close proposal ${proposal.id}:`, error);
+      }
+    }
+
+    // Passed proposals whose effect didn't finish last time
+    for (const proposal of await repositories.governance.listByStatus('passed')) {
+      await this.execute(proposal);
+    }
+    return resolved;
+  }
+
+  /**
+   * Apply refinancing votes to a user's open mortgages on the property.
+   * Runs one at a time per user; a loan is only re-priced by proposals that
+   * passed after it was originated or last refinanced.
+   */
+  static settleUserGovernance(userId: string): Promise<number> {
+    const previous = this.settlements.get(userId) ?? Promise.resolve(0);
+    const next = previous.catch(() => 0).then(() => this.runSettlement(userId));
+    this.settlements.set(userId, next);
+    return next;
+  }
+
+  private static async runSettlement(userId: string): Promise<number> {
+    const repositories = getRepositories();
+    const loans = (await LoanService.getLoans(userId)).filter(loan => LoanService.isOpen(loan));
+
+    let refinanced = 0;
+    for (const propertyId of new Set(loans.map(loan => loan.propertyId))) {
+      const refinances = (await repositories.governance.listByProperty(propertyId))
+        .filter(proposal => proposal.kind === 'refinance' && proposal.status === 'executed' && proposal.resolvedAt)
+        .sort((a, b) => a.resolvedAt!.getTime() - b.resolvedAt!.getTime());
+
+      for (const loan of loans.filter(loan => loan.propertyId === propertyId)) {
+        let current = loan;
+        for (const proposal of refinances) {
+          const passedAt = proposal.resolvedAt!;
+          if (current.originatedAt >= passedAt || (current.refinancedAt && current.refinancedAt >= passedAt)) continue;
+
+          const annualRate = Math.max(0, current.annualRate - GOVERNANCE_CONFIG.refinanceRateCut);
+          current = await LoanService.refinance(userId, current.id!, annualRate);
+          refinanced++;
+        }
+      }
+    }
+    return refinanced;
+  }
+
+  /**
+   * Votes cast so far: users' stored votes, plus mock investors who have
+   * voted by `gameTime`. Each mock holder's turnout, choice and timing are
+   * drawn from the simulation seed, so every client sees the same votes.
+   */
+  private static async getVotes(proposal: Proposal, gameTime: Date = getSimulationClock().gameNow()): Promise<ProposalVote[]> {
+    const stored = await getRepositories().governance.listVotes(proposal.id!);
+    if (proposal.status !== 'open') return stored;
+
+    const votes = new Map(stored.map(vote => [vote.voterId, vote]));
+    const clock = getSimulationClock();
+    const until = Math.min(gameTime.getTime(), proposal.votingEndsAt.getTime());
+    const window = proposal.votingEndsAt.getTime() - proposal.createdAt.getTime();
+    const holders = await MockInvestorService.getMockInvestors(proposal.propertyId);
+
+    holders.forEach(holder => {
+      if (!holder.id || holder.sharesInvested <= 0 || votes.has(holder.id)) return;
+
+      const stream = clock.seed ^ hashString(`${proposal.id}:${holder.id}`);
+      const profile = MOCK_VOTING[holder.investorType];
+      if (seededUniform(stream, TURNOUT_DRAW) >= profile.turnout) return;
+
+      const castAt = proposal.createdAt.getTime() + seededUniform(stream, TIMING_DRAW) * window;
+      if (castAt > until) return;
+
+      votes.set(holder.id, {
+        voterId: holder.id,
+        voterName: holder.username,
+        voterType: 'mock',
+        shares: holder.sharesInvested,
+        choice: seededUniform(stream, CHOICE_DRAW) < profile.support[proposal.kind] ? 'for' : 'against',
+        castAt: new Date(castAt),
+      });
+    });
+
+    return [...votes.values()].sort((a, b) => a.castAt.getTime() - b.castAt.getTime());
+  }
+
+  private static tally(proposal: Proposal, votes: ProposalVote[]): ProposalTally {
+    const forShares = votes.filter(vote => vote.choice === 'for').reduce((sum, vote) => sum + vote.shares, 0);
+    const againstShares = votes.filter(vote => vote.choice === 'against').reduce((sum, vote) => sum + vote.shares, 0);
+    const cast = forShares + againstShares;
+    const turnout = cast / proposal.totalShares;
+    const quorumMet = turnout >= GOVERNANCE_CONFIG.quorum;
+
+    return {
+      forShares,
+      againstShares,
+      turnout,
+      quorumMet,
+      passing: quorumMet && cast > 0 && forShares / cast > GOVERNANCE_CONFIG.passThreshold,
+    };
+  }
+
+  /**
+   * Count the votes of a proposal whose window has closed. Mock votes are
+   * stored with it so the record shows who voted how. False when another
+   * client closed it first.
+   */
+  private static async resolve(proposal: Proposal): Promise<boolean> {
+    const repositories = getRepositories();
+    const votes = await this.getVotes(proposal, proposal.votingEndsAt);
+    for (const vote of votes.filter(vote => vote.voterType === 'mock')) {
+      await repositories.governance.castVote(proposal.id!, vote);
+    }
+
+    const tally = this.tally(proposal, votes);
+    const changes: Partial<Proposal> = {
+      status: tally.passing ? 'passed' : 'rejected',
+      forShares: tally.forShares,
+      againstShares: tally.againstShares,
+      resolvedAt: proposal.votingEndsAt,
+      ...(!tally.quorumMet && { outcome: `Quorum not reached: ${(tally.turnout * 100).toFixed(0)}% of shares voted` }),
+    };
+    if (!(await repositories.governance.transition(proposal.id!, 'open', changes))) return false;
+
+    console.log(`🗳️ "${this.describe(proposal)}" on ${proposal.propertyAddress} ${tally.passing ? 'passed' : 'was rejected'}`);
+    if (tally.passing) {
+      await this.execute({ ...proposal, ...changes });
+    }
+    return true;
+  }
+
+  /**
+   * Carry out a passed proposal. Every effect can safely run twice.
+   */
+  private static async execute(proposal: Proposal): Promise<void> {
+    const repositories = getRepositories();
+    let changes: Partial<Proposal>;
+
+    try {
+      const property = await repositories.properties.get(proposal.propertyId);
+      if (!property) throw new GovernanceError('The property no longer exists');
+      if (proposal.kind !== 'sell_now' && property.status === 'disposed') {
+        throw new GovernanceError('The property was sold before this could take effect');
+      }
+
+      // Operating changes start with the game month after the vote
+      const fromMonth = PropertyOperationsService.monthOf(proposal.resolvedAt ?? getSimulationClock().gameNow()) + 1;
+      let outcome: string;
+
+      switch (proposal.kind) {
+        case 'sell_now': {
+          const disposition = await DispositionService.dispose(proposal.propertyId, 'shareholder_vote');
+          outcome = `Sold for $${disposition.grossPriceUsd.toFixed(0)}, $${disposition.proceedsPerShareUsd.toFixed(2)} per share after closing costs`;
+          break;
+        }
+        case 'refinance':
+          outcome = `Open mortgages re-priced ${(GOVERNANCE_CONFIG.refinanceRateCut * 100).toFixed(2)} points lower`;
+          break;
+        case 'renovate': {
+          if (!proposal.renovationKind || !proposal.renovationFunding) {
+            throw new GovernanceError('The proposal names no renovation');
+          }
+          const project = await RenovationService.start(proposal.id!, proposal.propertyId, proposal.renovationKind, proposal.renovationFunding);
+          outcome = `$${project.budgetUsd.toFixed(0)} ${RENOVATION_SPECS[project.kind].label.toLowerCase()} under way`
+            + ` ($${project.reserveDrawUsd.toFixed(0)} from the reserve, $${project.capitalCallUsd.toFixed(0)} called from holders)`
+            + `, due ${project.completesAt.toLocaleDateString()}`;
+          break;
+        }
+        case 'change_manager': {
+          const manager = PROPERTY_MANAGERS.find(option => option.id === proposal.managerId);
+          if (!manager) throw new GovernanceError('Unknown property manager');
+          await repositories.properties.update(proposal.propertyId, {
+            manager: { name: manager.name, managementRate: manager.managementRate, fromMonth },
+          });
+          outcome = `${manager.name} takes over next month at ${(manager.managementRate * 100).toFixed(0)}% of rent`;
+          break;
+        }
+      }
+      changes = { status: 'executed', outcome };
+    } catch (error) {
+      console.error(`❌ Failed to carry out proposal ${proposal.id}:`, error);
+      changes = { status: 'failed', outcome: error instanceof Error ? error.message : 'Could not be carried out' };
+    }
+
+    await repositories.governance.transition(proposal.id!, 'passed', changes);
+  }
+}
+
+export type { Proposal, ProposalOptions, ProposalStatus, ProposalVote, ProposalTally, ProposalView, VoteChoice };
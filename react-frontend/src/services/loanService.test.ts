@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+import { LoanService } from './loanService';
+import { PriceOracleService, ReplayPriceProvider } from './priceOracleService';
+import { SimulationClock, getSimulationClock, setSimulationClock } from './simulationClock';
+import { WalletLedgerService } from './walletLedgerService';
+
+const USER_ID = 'borrower';
+const PURCHASE_USD = 10000;
+
+async function financeLot(): Promise<void> {
+  const investmentId = await getRepositories().investments.add(USER_ID, {
+    userId: USER_ID,
+    propertyId: 'p1',
+    propertyClass: 'B',
+    sharesOwned: 4,
+    purchasePrice: 4,
+    currentValue: 4,
+    purchaseDate: getSimulationClock().now(),
+    purchaseUsdValue: PURCHASE_USD,
+  });
+  await LoanService.originate(USER_ID, {
+    investmentId,
+    propertyId: 'p1',
+    propertyAddress: '12 Elm Street',
+    propertyClass: 'B',
+    shares: 4,
+  }, LoanService.quote('B', PURCHASE_USD));
+}
+
+describe('LoanService.serviceDebt', () => {
+  beforeEach(async () => {
+    setRepositories(createMemoryRepositories());
+    setSimulationClock(new SimulationClock({ seed: 3, mode: 'frozen', startTime: new Date('2025-03-10T00:00:00Z') }));
+    PriceOracleService.setProvider(new ReplayPriceProvider());
+
+    // Rent is paid out in USDC, but the wallet only holds ETH
+    await getRepositories().wallets.create(USER_ID, {
+      address: '0xborrower',
+      ethBalance: 0,
+      usdcBalance: 0,
+      rentPayoutAsset: 'USDC',
+      strikePrice: 2500,
+      initialUsdValue: 25000,
+      username: USER_ID,
+      isActive: true,
+    });
+    await financeLot();
+  });
+
+  it('takes the installment in the other asset when the payout asset is short', async () => {
+    await WalletLedgerService.recordOpeningBalance(USER_ID, 10);
+    getSimulationClock().fastForwardMonths(3);
+
+    const result = await LoanService.serviceDebt(USER_ID);
+
+    expect(result.installmentsMissed).toBe(0);
+    expect(result.installmentsPaid).toBeGreaterThan(0);
+    const payments = (await WalletLedgerService.getEntries(USER_ID)).filter(entry => entry.type === 'loan_payment');
+    expect(payments).toHaveLength(result.installmentsPaid);
+    expect(payments.every(entry => entry.asset === 'ETH')).toBe(true);
+  });
+
+  it('misses the installment only when neither asset covers it', async () => {
+    getSimulationClock().fastForwardMonths(2);
+
+    const result = await LoanService.serviceDebt(USER_ID);
+
+    expect(result.installmentsPaid).toBe(0);
+    expect(result.installmentsMissed).toBeGreaterThan(0);
+    const [loan] = await LoanService.getLoans(USER_ID);
+    expect(loan.status).toBe('delinquent');
+  });
+});
@@ -0,0 +1,483 @@
+// Loan Service - simulated mortgages on financed share purchases
+// A financed purchase pays the down payment from the wallet and borrows the
+// rest against the shares. Installments fall due each game month and are
+// paid out of the rent the rental engine has just paid, or the wallet's other
+// asset when that falls short; missed installments build arrears and
+// eventually end in foreclosure.
+
+import { getRepositories } from '../repositories';
+import { LOAN_DEFAULT_CONFIG, LOAN_TERMS, type ClassLoanTerms } from '../config/loanConfig';
+import { InsufficientFundsError, WalletLedgerService, type LedgerAsset } from './walletLedgerService';
+import { PriceOracleService } from './priceOracleService';
+import { PortfolioAnalyticsService } from './portfolioAnalyticsService';
+import { PropertyOperationsService } from './propertyOperationsService';
+import { getSimulationClock, GAME_MONTH_MS } from './simulationClock';
+import type { PropertyClass } from '../types/property';
+
+type LoanStatus = 'current' | 'delinquent' | 'paid_off' | 'foreclosed';
+
+interface Loan {
+  id?: string;
+  userId: string;
+  propertyId: string;
+  investmentId: string; // The lot the loan is secured on
+  propertyAddress: string;
+  propertyClass: PropertyClass;
+  shares: number;
+  purchasePriceUsd: number;
+  downPaymentUsd: number;
+  principalUsd: number; // Amount borrowed
+  annualRate: number;
+  termMonths: number;
+  monthlyPaymentUsd: number;
+  firstPeriod: number; // Game month of the first installment
+  servicedThroughPeriod: number; // Last game month settled, paid or missed
+  balanceUsd: number; // Principal outstanding
+  arrearsUsd: number; // Missed installments and late fees
+  paymentsMade: number;
+  missedPayments: number; // Consecutive
+  interestPaidUsd: number;
+  status: LoanStatus;
+  originatedAt: Date; // Game time
+  closedAt?: Date; // Game time the loan was repaid or foreclosed
+  foreclosureSaleUsd?: number;
+  deficiencyUsd?: number; // Debt the forced sale didn't cover, written off by the lender
+  refinancedAt?: Date; // Game time the loan was last re-priced
+}
+
+interface LoanQuote {
+  purchasePriceUsd: number;
+  downPaymentUsd: number;
+  principalUsd: number;
+  annualRate: number;
+  termMonths: number;
+  monthlyPaymentUsd: number;
+  totalInterestUsd: number;
+}
+
+interface AmortizationRow {
+  period: number;
+  paymentUsd: number;
+  interestUsd: number;
+  principalUsd: number;
+  balanceUsd: number; // After the payment
+}
+
+interface LoanPosition {
+  loan: Loan;
+  valueUsd: number; // Appreciated value of the financed shares
+  debtUsd: number; // Balance plus arrears
+  equityUsd: number;
+  ltv: number;
+  atRisk: boolean; // Over the class's LTV limit or behind on payments
+}
+
+interface DebtServiceResult {
+  paidUsd: number;
+  installmentsPaid: number;
+  installmentsMissed: number;
+  foreclosures: number;
+}
+
+export class LoanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoanError';
+  }
+}
+
+const OPEN_STATUSES: LoanStatus[] = ['current', 'delinquent'];
+
+// Balances below a cent count as repaid
+const PAID_OFF_USD = 0.01;
+
+export class LoanService {
+  private static servicing = new Map<string, Promise<DebtServiceResult>>();
+
+  static termsFor(propertyClass: PropertyClass): ClassLoanTerms | null {
+    return LOAN_TERMS[propertyClass] ?? null;
+  }
+
+  static isFinanceable(propertyClass: PropertyClass): boolean {
+    return this.termsFor(propertyClass) !== null;
+  }
+
+  static isOpen(loan: Loan): boolean {
+    return OPEN_STATUSES.includes(loan.status);
+  }
+
+  /**
+   * Level monthly installment that repays `principalUsd` over `termMonths`
+   */
+  static monthlyPayment(principalUsd: number, annualRate: number, termMonths: number): number {
+    if (principalUsd <= 0) return 0;
+    const rate = annualRate / 12;
+    if (rate === 0) return principalUsd / termMonths;
+    return principalUsd * rate / (1 - Math.pow(1 + rate, -termMonths));
+  }
+
+  /**
+   * Terms for financing a purchase. The down payment defaults to, and can't
+   * go below, the class minimum.
+   */
+  static quote(propertyClass: PropertyClass, purchasePriceUsd: number, downPaymentRatio?: number): LoanQuote {
+    const terms = this.termsFor(propertyClass);
+    if (!terms) {
+      throw new LoanError(`Class ${propertyClass} properties can't be financed`);
+    }
+
+    const ratio = Math.min(1, Math.max(terms.minDownPayment, downPaymentRatio ?? terms.minDownPayment));
+    const downPaymentUsd = purchasePriceUsd * ratio;
+    const principalUsd = purchasePriceUsd - downPaymentUsd;
+    const monthlyPaymentUsd = this.monthlyPayment(principalUsd, terms.annualRate, terms.termMonths);
+
+    return {
+      purchasePriceUsd,
+      downPaymentUsd,
+      principalUsd,
+      annualRate: terms.annualRate,
+      termMonths: terms.termMonths,
+      monthlyPaymentUsd,
+      totalInterestUsd: monthlyPaymentUsd * terms.termMonths - principalUsd,
+    };
+  }
+
+  /**
+   * Remaining installments of a loan if every one is paid on time
+   */
+  static amortizationSchedule(loan: Loan): AmortizationRow[] {
+    const rate = loan.annualRate / 12;
+    const rows: AmortizationRow[] = [];
+    let balance = loan.balanceUsd;
+    let period = loan.servicedThroughPeriod + 1;
+
+    while (balance >= PAID_OFF_USD && period < loan.firstPeriod + loan.termMonths) {
+      const interestUsd = balance * rate;
+      const paymentUsd = Math.min(loan.monthlyPaymentUsd, balance + interestUsd);
+      const principalUsd = paymentUsd - interestUsd;
+      balance -= principalUsd;
+      rows.push({ period, paymentUsd, interestUsd, principalUsd, balanceUsd: Math.max(0, balance) });
+      period++;
+    }
+    return rows;
+  }
+
+  /**
+   * Record a loan for a financed purchase whose down payment has been paid.
+   * The first installment falls due at the end of the first full game month.
+   */
+  static async originate(
+    userId: string,
+    lot: { investmentId: string; propertyId: string; propertyAddress: string; propertyClass: PropertyClass; shares: number },
+    quote: LoanQuote
+  ): Promise<Loan> {
+    const gameNow = getSimulationClock().gameNow();
+    const firstPeriod = PropertyOperationsService.monthOf(gameNow) + 1;
+
+    const loan: Omit<Loan, 'id'> = {
+      userId,
+      ...lot,
+      purchasePriceUsd: quote.purchasePriceUsd,
+      downPaymentUsd: quote.downPaymentUsd,
+      principalUsd: quote.principalUsd,
+      annualRate: quote.annualRate,
+      termMonths: quote.termMonths,
+      monthlyPaymentUsd: quote.monthlyPaymentUsd,
+      firstPeriod,
+      servicedThroughPeriod: firstPeriod - 1,
+      balanceUsd: quote.principalUsd,
+      arrearsUsd: 0,
+      paymentsMade: 0,
+      missedPayments: 0,
+      interestPaidUsd: 0,
+      status: 'current',
+      originatedAt: gameNow,
+    };
+
+    const repositories = getRepositories();
+    const id = await repositories.loans.add(userId, loan);
+    await repositories.investments.update(userId, lot.investmentId, { loanId: id });
+
+    console.log(`🏦 Originated $${quote.principalUsd.toFixed(2)} loan on ${lot.propertyAddress} at ${(quote.annualRate * 100).toFixed(2)}%`);
+    return { ...loan, id };
+  }
+
+  static async getLoans(userId: string): Promise<Loan[]> {
+    return getRepositories().loans.listByUser(userId);
+  }
+
+  /**
+   * Open loans marked against the appreciated value of the shares securing them
+   */
+  static async getLoanPositions(userId: string): Promise<LoanPosition[]> {
+    const gameNow = getSimulationClock().gameNow();
+    const [loans, holdings] = await Promise.all([
+      this.getLoans(userId),
+      PortfolioAnalyticsService.valueHoldings(userId, gameNow),
+    ]);
+    const values = new Map(holdings.map(holding => [holding.investmentId, holding.value]));
+
+    return loans.filter(loan => this.isOpen(loan)).map(loan => {
+      const valueUsd = values.get(loan.investmentId) ?? loan.purchasePriceUsd;
+      const debtUsd = loan.balanceUsd + loan.arrearsUsd;
+      const ltv = valueUsd > 0 ? debtUsd / valueUsd : Infinity;
+      const maxLtv = this.termsFor(loan.propertyClass)?.maxLtv ?? 1;
+      return {
+        loan,
+        valueUsd,
+        debtUsd,
+        equityUsd: valueUsd - debtUsd,
+        ltv,
+        atRisk: ltv > maxLtv || loan.status === 'delinquent',
+      };
+    });
+  }
+
+  /**
+   * Settle every installment due through the last finished game month. The
+   * rental engine calls this right after paying rent, so each month's rent
+   * is in the wallet before its installment is taken. Runs one at a time per
+   * user, and each installment is posted under its own key.
+   */
+  static serviceDebt(userId: string): Promise<DebtServiceResult> {
+    const previous = this.servicing.get(userId) ?? Promise.resolve(null);
+    const next = previous.catch(() => null).then(() => this.runServicing(userId));
+    this.servicing.set(userId, next);
+    return next;
+  }
+
+  /**
+   * Repay a loan early from the wallet, freeing its shares for sale
+   */
+  static async payOff(userId: string, loanId: string): Promise<Loan> {
+    const repositories = getRepositories();
+    const loan = await repositories.loans.get(userId, loanId);
+    if (!loan || !this.isOpen(loan)) {
+      throw new LoanError('Loan not found or already closed');
+    }
+
+    // Bring the loan up to date so the payoff covers every finished month
+    await this.serviceDebt(userId);
+    const current = (await repositories.loans.get(userId, loanId))!;
+    if (!this.isOpen(current)) return current;
+
+    const payoffUsd = current.balanceUsd + current.arrearsUsd;
+    await this.pay(userId, current, payoffUsd, `Mortgage payoff on ${current.propertyAddress}`, `loan_payoff_${loanId}`, {
+      interestUsd: 0,
+      principalUsd: payoffUsd,
+    });
+    const closed = await this.close(current, {
+      balanceUsd: 0,
+      arrearsUsd: 0,
+      missedPayments: 0,
+      status: 'paid_off',
+    });
+
+    console.log(`✅ Paid off loan on ${current.propertyAddress}: $${payoffUsd.toFixed(2)}`);
+    return closed;
+  }
+
+  /**
+   * Re-price an open loan at a new rate, re-amortizing what is left over the
+   * rest of its term. Finished months are settled at the old rate first.
+   */
+  static async refinance(userId: string, loanId: string, annualRate: number): Promise<Loan> {
+    await this.serviceDebt(userId);
+    const loan = await getRepositories().loans.get(userId, loanId);
+    if (!loan || !this.isOpen(loan)) {
+      throw new LoanError('Loan not found or already closed');
+    }
+
+    const remainingMonths = Math.max(1, loan.firstPeriod + loan.termMonths - (loan.servicedThroughPeriod + 1));
+    const refinanced = await this.update(loan, {
+      annualRate,
+      monthlyPaymentUsd: this.monthlyPayment(loan.balanceUsd, annualRate, remainingMonths),
+      refinancedAt: getSimulationClock().gameNow(),
+    });
+
+    console.log(`🏦 Refinanced loan on ${loan.propertyAddress} at ${(annualRate * 100).toFixed(2)}%`);
+    return refinanced;
+  }
+
+  private static async runServicing(userId: string): Promise<DebtServiceResult> {
+    const result: DebtServiceResult = { paidUsd: 0, installmentsPaid: 0, installmentsMissed: 0, foreclosures: 0 };
+    const lastFinished = PropertyOperationsService.monthOf(getSimulationClock().gameNow()) - 1;
+    const loans = (await this.getLoans(userId)).filter(loan => this.isOpen(loan));
+
+    for (const loan of loans) {
+      let current = loan;
+      for (let period = current.servicedThroughPeriod + 1; period <= lastFinished && this.isOpen(current); period++) {
+        current = await this.settleInstallment(current, period, result);
+      }
+    }
+
+    if (result.installmentsPaid + result.installmentsMissed > 0) {
+      console.log(`🏦 Debt service for ${userId}: paid $${result.paidUsd.toFixed(2)} over ${result.installmentsPaid} installment(s), missed ${result.installmentsMissed}`);
+    }
+    return result;
+  }
+
+  /**
+   * Take one month's installment plus any arrears. A wallet that can't cover
+   * it misses the payment; enough misses in a row and the lender forecloses.
+   */
+  private static async settleInstallment(loan: Loan, period: number, result: DebtServiceResult): Promise<Loan> {
+    const interestUsd = loan.balanceUsd * loan.annualRate / 12;
+    const installmentUsd = Math.min(loan.monthlyPaymentUsd, loan.balanceUsd + interestUsd);
+    const principalUsd = installmentUsd - interestUsd;
+    const dueUsd = installmentUsd + loan.arrearsUsd;
+    const balanceUsd = Math.max(0, loan.balanceUsd - principalUsd);
+
+    try {
+      await this.pay(loan.userId, loan, dueUsd, `Mortgage payment ${this.periodLabel(period)} on ${loan.propertyAddress}`, `loan_${loan.id}_${period}`, {
+        interestUsd,
+        principalUsd: dueUsd - interestUsd,
+      }, new Date((period + 1) * GAME_MONTH_MS));
+    } catch (error) {
+      if (!(error instanceof InsufficientFundsError)) throw error;
+
+      const missed = await this.update(loan, {
+        servicedThroughPeriod: period,
+        balanceUsd,
+        arrearsUsd: loan.arrearsUsd + installmentUsd * (1 + LOAN_DEFAULT_CONFIG.lateFeeRate),
+        missedPayments: loan.missedPayments + 1,
+        status: 'delinquent',
+      });
+      result.installmentsMissed++;
+      console.warn(`⚠️ Missed mortgage payment ${this.periodLabel(period)} on ${loan.propertyAddress} (${missed.missedPayments} in a row)`);
+
+      if (missed.missedPayments >= LOAN_DEFAULT_CONFIG.missedPaymentsToForeclose) {
+        result.foreclosures++;
+        return this.foreclose(missed);
+      }
+      return missed;
+    }
+
+    result.paidUsd += dueUsd;
+    result.installmentsPaid++;
+
+    const changes: Partial<Omit<Loan, 'id'>> = {
+      servicedThroughPeriod: period,
+      balanceUsd,
+      arrearsUsd: 0,
+      paymentsMade: loan.paymentsMade + 1,
+      missedPayments: 0,
+      interestPaidUsd: loan.interestPaidUsd + interestUsd,
+      status: 'current',
+    };
+    if (balanceUsd < PAID_OFF_USD) {
+      return this.close(loan, { ...changes, balanceUsd: 0, status: 'paid_off' });
+    }
+    return this.update(loan, changes);
+  }
+
+  /**
+   * The lender takes the shares and sells them at a discount to their
+   * appreciated value. Anything left after the debt goes to the borrower; a
+   * shortfall is written off. Rent for the month in progress goes with the
+   * shares.
+   */
+  private static async foreclose(loan: Loan): Promise<Loan> {
+    const repositories = getRepositories();
+    const clock = getSimulationClock();
+    const gameNow = clock.gameNow();
+
+    const holdings = await PortfolioAnalyticsService.valueHoldings(loan.userId, gameNow);
+    const valueUsd = holdings.find(holding => holding.investmentId === loan.investmentId)?.value ?? loan.purchasePriceUsd;
+    const saleUsd = valueUsd * (1 - LOAN_DEFAULT_CONFIG.foreclosureDiscount);
+    const debtUsd = loan.balanceUsd + loan.arrearsUsd;
+    const surplusUsd = saleUsd - debtUsd;
+
+    if (surplusUsd >= PAID_OFF_USD) {
+      const ethPrice = await PriceOracleService.getEthUsd(gameNow);
+      // Cost basis is the equity the borrower put in: the down payment plus principal repaid
+      await WalletLedgerService.recordShareSale(
+        loan.userId,
+        surplusUsd / ethPrice,
+        loan.propertyId,
+        `Foreclosure sale surplus on ${loan.propertyAddress}`,
+        `foreclosure_${loan.id}`,
+        { proceedsUsd: surplusUsd, costBasisUsd: loan.purchasePriceUsd - loan.balanceUsd }
+      );
+    }
+
+    await repositories.investments.update(loan.userId, loan.investmentId, {
+      sharesOwned: 0,
+      purchasePrice: 0,
+      purchaseUsdValue: 0,
+      currentValue: 0,
+      rentalAccruedCarry: 0,
+      rentalIncomeStartDate: clock.now(),
+      lastUpdated: clock.now(),
+      status: 'closed',
+    });
+
+    // The lender's buyers take the shares, so the property's float is unchanged
+    const closed = await this.close(loan, {
+      balanceUsd: 0,
+      arrearsUsd: 0,
+      status: 'foreclosed',
+      foreclosureSaleUsd: saleUsd,
+      deficiencyUsd: Math.max(0, -surplusUsd),
+    });
+
+    console.warn(`🏚️ Foreclosed on ${loan.propertyAddress}: sold for $${saleUsd.toFixed(2)} against $${debtUsd.toFixed(2)} owed`);
+    return closed;
+  }
+
+  /**
+   * Post a payment to the lender in the wallet's payout currency, falling
+   * back to the other asset when the payout balance can't cover it
+   */
+  private static async pay(
+    userId: string,
+    loan: Loan,
+    amountUsd: number,
+    description: string,
+    idempotencyKey: string,
+    split: { interestUsd: number; principalUsd: number },
+    gameTime?: Date
+  ): Promise<void> {
+    const wallet = await getRepositories().wallets.get(userId);
+    const payoutAsset: LedgerAsset = wallet?.rentPayoutAsset ?? 'ETH';
+    const assets: LedgerAsset[] = payoutAsset === 'USDC' ? ['USDC', 'ETH'] : ['ETH', 'USDC'];
+    const ethPrice = await PriceOracleService.getEthUsd(gameTime);
+
+    for (const [i, asset] of assets.entries()) {
+      try {
+        await WalletLedgerService.recordLoanPayment(
+          userId,
+          asset === 'USDC' ? amountUsd : amountUsd / ethPrice,
+          loan.id!,
+          description,
+          idempotencyKey,
+          { asset, usdAmount: amountUsd, ...split }
+        );
+        return;
+      } catch (error) {
+        if (!(error instanceof InsufficientFundsError) || i === assets.length - 1) throw error;
+      }
+    }
+  }
+
+  private static async update(loan: Loan, changes: Partial<Omit<Loan, 'id'>>): Promise<Loan> {
+    await getRepositories().loans.update(loan.userId, loan.id!, changes);
+    return { ...loan, ...changes };
+  }
+
+  /**
+   * Close a loan and release the lot it was secured on
+   */
+  private static async close(loan: Loan, changes: Partial<Omit<Loan, 'id'>>): Promise<Loan> {
+    const closed = await this.update(loan, { ...changes, closedAt: getSimulationClock().gameNow() });
+    await getRepositories().investments.update(loan.userId, loan.investmentId, { loanId: null });
+    return closed;
+  }
+
+  private static periodLabel(period: number): string {
+    const start = new Date(period * GAME_MONTH_MS);
+    return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}`;
+  }
+}
+
+export type { Loan, LoanStatus, LoanQuote, AmortizationRow, LoanPosition, DebtServiceResult };
@@ -0,0 +1,15 @@
+import { JsonRpcProvider } from 'ethers';
+import { LOCAL_CHAIN_RPC_URL } from '../config/chainConfig';
+
+let provider: JsonRpcProvider | null = null;
+
+/**
+ * Shared read/write provider for the local node, e.g. VITE_CHAIN_RPC_URL=http://127.0.0.1:8545
+ * to point at a node on another port. The node's unlocked accounts sign transactions.
+ */
+export function getLocalChainProvider(): JsonRpcProvider {
+  if (!provider) {
+    provider = new JsonRpcProvider(import.meta.env.VITE_CHAIN_RPC_URL || LOCAL_CHAIN_RPC_URL);
+  }
+  return provider;
+}
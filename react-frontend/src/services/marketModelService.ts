@@ -0,0 +1,197 @@
+import { MARKET_CLASSES, MARKET_CONFIG, MARKET_REGIONS, type MarketIndexParams } from '../config/marketConfig';
+import { getRepositories } from '../repositories';
+import type { PropertyClass, PropertyRegion } from '../types/property';
+import { hashString, seededGaussian, seededUniform } from '../utils/seededRandom';
+import { getSimulationClock } from './simulationClock';
+
+/**
+ * Stochastic market for property values.
+ *
+ * Every quarter the national market factor, each regional and class index
+ * and any downturn in progress are drawn from the simulation seed, so a
+ * quarter's moves are the same however often they are computed. Recorded
+ * index levels are persisted for market-wide history charts.
+ */
+
+export type MarketIndexId = 'market' | `region:${PropertyRegion}` | `class:${PropertyClass}`;
+
+export interface MarketIndexPoint {
+  indexId: MarketIndexId;
+  quarter: number; // year * 4 + (quarter - 1)
+  label: string; // "2025-Q3"
+  level: number;
+  quarterlyReturn: number; // Simple return over the quarter
+  inDownturn: boolean;
+}
+
+export interface MarketProperty {
+  id: string;
+  class: PropertyClass;
+  region?: string; // Any casing; unknown regions follow the 'Anywhere' index
+}
+
+interface QuarterMoves {
+  downturn: number; // Log drop of the national market this quarter (<= 0)
+  indices: Record<MarketIndexId, number>; // Log returns
+}
+
+export const MARKET_INDEX_IDS: MarketIndexId[] = [
+  'market',
+  ...MARKET_REGIONS.map(region => `region:${region}` as const),
+  ...MARKET_CLASSES.map(propertyClass => `class:${propertyClass}` as const),
+];
+
+// Keep each process's draws independent of other seeded processes
+const MARKET_STREAM = 0x2c1b3c6d;
+const DOWNTURN_STREAM = 0x297a2d39;
+const DOWNTURN_DEPTH_STREAM = 0x1b873593;
+
+export class MarketModelService {
+  private static cachedMoves = new Map<string, QuarterMoves>();
+  private static recording: Promise<number> | null = null;
+
+  static quarterOf(gameTime: Date): number {
+    return gameTime.getFullYear() * 4 + Math.floor(gameTime.getMonth() / 3);
+  }
+
+  static quarterLabel(quarter: number): string {
+    return `${Math.floor(quarter / 4)}-Q${(quarter % 4) + 1}`;
+  }
+
+  static regionOf(region?: string): PropertyRegion {
+    return MARKET_REGIONS.find(known => known.toLowerCase() === region?.toLowerCase()) ?? 'Anywhere';
+  }
+
+  /**
+   * Log returns of every index in a quarter
+   */
+  static quarterMoves(quarter: number): QuarterMoves {
+    const seed = getSimulationClock().seed;
+    const key = `${seed}_${quarter}`;
+    const cached = this.cachedMoves.get(key);
+    if (cached) return cached;
+
+    const downturn = this.downturnMove(seed, quarter);
+    const marketShock = seededGaussian(seed ^ MARKET_STREAM, quarter);
+    const move = (indexId: MarketIndexId, params: MarketIndexParams) => {
+      const { annualTrend, annualVolatility, marketCorrelation, downturnSensitivity } = params;
+      const shock = marketCorrelation * marketShock
+        + Math.sqrt(1 - marketCorrelation ** 2) * seededGaussian(seed ^ hashString(indexId), quarter);
+      return Math.log(1 + annualTrend) / 4 + (annualVolatility / 2) * shock + downturnSensitivity * downturn;
+    };
+
+    const indices = { market: move('market', MARKET_CONFIG.market) } as Record<MarketIndexId, number>;
+    MARKET_REGIONS.forEach(region => {
+      indices[`region:${region}`] = move(`region:${region}`, MARKET_CONFIG.regions[region]);
+    });
+    MARKET_CLASSES.forEach(propertyClass => {
+      indices[`class:${propertyClass}`] = move(`class:${propertyClass}`, MARKET_CONFIG.classes[propertyClass]);
+    });
+
+    const moves = { downturn, indices };
+    this.cachedMoves.set(key, moves);
+    return moves;
+  }
+
+  /**
+   * A property's simple return for a quarter: its region and class index
+   * blended, plus noise of its own
+   */
+  static propertyReturn(property: MarketProperty, quarter: number): number {
+    const { indices } = this.quarterMoves(quarter);
+    const { regionWeight, idiosyncraticVolatility, maxQuarterlyMove } = MARKET_CONFIG;
+    const seed = getSimulationClock().seed;
+
+    const logReturn = regionWeight * indices[`region:${this.regionOf(property.region)}`]
+      + (1 - regionWeight) * indices[`class:${property.class}`]
+      + (idiosyncraticVolatility / 2) * seededGaussian(seed ^ hashString(property.id), quarter);
+
+    return Math.max(-maxQuarterlyMove, Math.min(maxQuarterlyMove, Math.exp(logReturn) - 1));
+  }
+
+  /**
+   * Value multiplier over the quarters after `fromQuarter` up to and including `toQuarter`
+   */
+  static growth(property: MarketProperty, fromQuarter: number, toQuarter: number): number {
+    let growth = 1;
+    for (let quarter = fromQuarter + 1; quarter <= toQuarter; quarter++) {
+      growth *= 1 + this.propertyReturn(property, quarter);
+    }
+    return growth;
+  }
+
+  /**
+   * Long-run yearly growth a property is expected to see, ignoring downturns
+   */
+  static expectedAnnualRate(property: Pick<MarketProperty, 'class' | 'region'>): number {
+    const { regionWeight, regions, classes } = MARKET_CONFIG;
+    return regionWeight * regions[this.regionOf(property.region)].annualTrend
+      + (1 - regionWeight) * classes[property.class].annualTrend;
+  }
+
+  /**
+   * Persist every index up to the quarter containing a game time. Indices
+   * with no history yet are backfilled from a base level.
+   */
+  static async recordThrough(gameTime: Date): Promise<number> {
+    // One recording at a time, so concurrent callers never both backfill an index
+    const previous = this.recording ?? Promise.resolve(0);
+    const next = previous.then(() => this.recordIndices(this.quarterOf(gameTime)));
+    this.recording = next.catch(() => 0);
+    return next;
+  }
+
+  static async getHistory(indexId: MarketIndexId, fromQuarter: number, toQuarter: number): Promise<MarketIndexPoint[]> {
+    return getRepositories().marketIndices.list(indexId, fromQuarter, toQuarter);
+  }
+
+  private static async recordIndices(targetQuarter: number): Promise<number> {
+    const repository = getRepositories().marketIndices;
+    let recorded = 0;
+
+    for (const indexId of MARKET_INDEX_IDS) {
+      const latest = await repository.latest(indexId);
+      if (latest && latest.quarter >= targetQuarter) continue;
+
+      let level = latest?.level ?? MARKET_CONFIG.baseLevel;
+      const firstQuarter = latest ? latest.quarter + 1 : targetQuarter - MARKET_CONFIG.historyQuarters + 1;
+      const points: MarketIndexPoint[] = [];
+
+      for (let quarter = firstQuarter; quarter <= targetQuarter; quarter++) {
+        const moves = this.quarterMoves(quarter);
+        const quarterlyReturn = Math.exp(moves.indices[indexId]) - 1;
+        level *= 1 + quarterlyReturn;
+        points.push({
+          indexId,
+          quarter,
+          label: this.quarterLabel(quarter),
+          level,
+          quarterlyReturn,
+          inDownturn: moves.downturn < 0,
+        });
+      }
+
+      await repository.saveAll(points);
+      recorded += points.length;
+    }
+
+    if (recorded > 0) {
+      console.log(`📊 Recorded ${recorded} market index points through ${this.quarterLabel(targetQuarter)}`);
+    }
+    return recorded;
+  }
+
+  // Downturns started in the last few quarters, each spread evenly over its length
+  private static downturnMove(seed: number, quarter: number): number {
+    const { downturnProbability, downturnQuarters, downturnDepthMean, downturnDepthStd } = MARKET_CONFIG;
+    let move = 0;
+
+    for (let start = quarter - downturnQuarters + 1; start <= quarter; start++) {
+      if (seededUniform(seed ^ DOWNTURN_STREAM, start) < downturnProbability) {
+        const depth = Math.max(0, downturnDepthMean + downturnDepthStd * seededGaussian(seed ^ DOWNTURN_DEPTH_STREAM, start));
+        move -= depth / downturnQuarters;
+      }
+    }
+    return move;
+  }
+}
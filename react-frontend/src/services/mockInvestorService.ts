@@ -1,5 +1,6 @@
-import { collection, addDoc, query, where, getDocs, updateDoc, doc } from 'firebase/firestore';
-import { db } from '../firebase/config';
+import { Timestamp } from 'firebase/firestore';
+import { getRepositories } from '../repositories';
+import { getSimulationClock } from './simulationClock';
 
 interface MockInvestor {
   id?: string;
@@ -13,6 +14,18 @@ interface MockInvestor {
   investorType: 'conservative' | 'aggressive' | 'balanced';
 }
 
+type InvestorType = MockInvestor['investorType'];
+
+// An order a mock investor wants to place on the secondary market
+interface MockMarketOrderIntent {
+  investorId?: string; // Existing holder (sells) or undefined for a new buyer
+  username: string;
+  investorType: InvestorType;
+  side: 'buy' | 'sell';
+  quantity: number;
+  limitPrice: number; // USD per share
+}
+
 interface InvestmentCompletion {
   propertyId: string;
   userShares: number;
@@ -198,23 +211,24 @@ export class MockInvestorService {
 
       // Save mock investors to database
       const mockInvestorPromises = mockInvestors.map(investor => 
-        addDoc(collection(db, 'mockInvestors'), investor)
+        getRepositories().mockInvestors.add(investor)
       );
 
-      const mockInvestorDocs = await Promise.all(mockInvestorPromises);
+      const mockInvestorIds = await Promise.all(mockInvestorPromises);
 
       // Add IDs to mock investors
       mockInvestors.forEach((investor, index) => {
-        investor.id = mockInvestorDocs[index].id;
+        investor.id = mockInvestorIds[index];
       });
 
       // Update property status
       const totalSharesSold = userShares + mockInvestors.reduce((sum, inv) => sum + inv.sharesInvested, 0);
       
-      await updateDoc(doc(db, 'properties', propertyId), {
+      await getRepositories().properties.update(propertyId, {
         sharesSold: totalSharesSold,
         status: totalSharesSold >= 100 ? 'sold_out' : 'available',
-        lastInvestmentDate: new Date(),
+        ...(totalSharesSold >= 100 && { soldAt: Timestamp.fromDate(getSimulationClock().now()) }), // Starts the hold period
+        lastInvestmentDate: Timestamp.now(),
       });
 
       const completion: InvestmentCompletion = {
@@ -238,18 +252,7 @@ export class MockInvestorService {
   // Get mock investors for a property
   static async getMockInvestors(propertyId: string): Promise<MockInvestor[]> {
     try {
-      const investorsQuery = query(
-        collection(db, 'mockInvestors'),
-        where('propertyId', '==', propertyId)
-      );
-
-      const snapshot = await getDocs(investorsQuery);
-      
-      return snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        investmentDate: doc.data().investmentDate.toDate(),
-      })) as MockInvestor[];
+      return await getRepositories().mockInvestors.listByProperty(propertyId);
 
     } catch (error) {
       console.error('Error getting mock investors:', error);
@@ -294,6 +297,98 @@ export class MockInvestorService {
     }
   }
 
+  // Price band (relative to reference share price) each investor type trades at
+  private static readonly MARKET_PRICE_BANDS: Record<InvestorType, { ask: [number, number]; bid: [number, number] }> = {
+    conservative: { ask: [0.04, 0.10], bid: [-0.10, -0.04] },
+    balanced: { ask: [0.01, 0.05], bid: [-0.05, -0.01] },
+    aggressive: { ask: [-0.03, 0.02], bid: [-0.02, 0.03] },
+  };
+
+  // Probability an investor type acts on a given market tick
+  private static readonly MARKET_ACTIVITY: Record<InvestorType, number> = {
+    conservative: 0.15,
+    balanced: 0.3,
+    aggressive: 0.5,
+  };
+
+  // Decide which secondary market orders mock investors place this tick
+  static generateMarketOrders(
+    holders: MockInvestor[],
+    propertyClass: 'A' | 'B' | 'C',
+    referencePrice: number,
+    random: () => number = Math.random
+  ): MockMarketOrderIntent[] {
+    const intents: MockMarketOrderIntent[] = [];
+    const priceIn = ([min, max]: [number, number]) =>
+      Number((referencePrice * (1 + min + random() * (max - min))).toFixed(2));
+
+    // Existing holders may list part of their position
+    holders.forEach(holder => {
+      if (holder.sharesInvested <= 0 || random() > this.MARKET_ACTIVITY[holder.investorType]) return;
+
+      const maxListing = Math.max(1, Math.floor(holder.sharesInvested / 2));
+      intents.push({
+        investorId: holder.id,
+        username: holder.username,
+        investorType: holder.investorType,
+        side: 'sell',
+        quantity: Math.max(1, Math.floor(random() * maxListing) + 1),
+        limitPrice: priceIn(this.MARKET_PRICE_BANDS[holder.investorType].ask),
+      });
+    });
+
+    // Outside investors may bid for shares
+    const bidders = Math.floor(random() * 3);
+    for (let i = 0; i < bidders; i++) {
+      const investorType = this.determineInvestorType(propertyClass);
+      intents.push({
+        username: this.generateUsername(),
+        investorType,
+        side: 'buy',
+        quantity: Math.max(1, this.generateInvestmentAmount(referencePrice, investorType, 10)),
+        limitPrice: priceIn(this.MARKET_PRICE_BANDS[investorType].bid),
+      });
+    }
+
+    return intents;
+  }
+
+  // Change a mock investor's position after a secondary market fill
+  static async adjustHolding(investorId: string, sharesDelta: number, pricePerShareEth: number): Promise<void> {
+    const mockInvestors = getRepositories().mockInvestors;
+    const investor = await mockInvestors.get(investorId);
+    if (!investor) {
+      throw new Error(`Mock investor ${investorId} not found`);
+    }
+
+    await mockInvestors.update(investorId, {
+      sharesInvested: Math.max(0, (investor.sharesInvested || 0) + sharesDelta),
+      investmentAmount: Math.max(0, (investor.investmentAmount || 0) + sharesDelta * pricePerShareEth),
+    });
+  }
+
+  // Record a new mock investor who bought in on the secondary market
+  static async addMarketInvestor(
+    propertyId: string,
+    username: string,
+    investorType: InvestorType,
+    shares: number,
+    pricePerShareEth: number
+  ): Promise<string> {
+    const investor: MockInvestor = {
+      propertyId,
+      username,
+      profileIcon: this.generateProfileIcon(),
+      sharesInvested: shares,
+      investmentAmount: shares * pricePerShareEth,
+      investmentDate: getSimulationClock().now(),
+      location: this.generateLocation(),
+      investorType,
+    };
+
+    return getRepositories().mockInvestors.add(investor);
+  }
+
   // Simulate the animated joining process (for UI)
   static async simulateInvestorJoining(
     mockInvestors: MockInvestor[],
@@ -311,4 +406,4 @@ export class MockInvestorService {
   }
 }
 
-export type { MockInvestor, InvestmentCompletion };
\ No newline at end of file
+export type { MockInvestor, MockMarketOrderIntent, InvestmentCompletion };
@@ -0,0 +1,70 @@
+// Notification Service - the in-app inbox shown in the header
+// Each notification is saved under a key naming what triggered it, so the
+// same event reported by several open tabs or repeated checks lands once.
+
+import { getRepositories } from '../repositories';
+import { getSimulationClock } from './simulationClock';
+
+type NotificationKind = 'watchlist_alert' | 'saved_search_match';
+
+interface AppNotification {
+  id: string;
+  userId: string;
+  kind: NotificationKind;
+  title: string;
+  message: string;
+  propertyId?: string;
+  link: string; // App route opened from the inbox
+  read: boolean;
+  createdAt: Date; // Real time
+  gameTime: Date;
+}
+
+type NotificationContent = Pick<AppNotification, 'kind' | 'title' | 'message' | 'propertyId' | 'link'>;
+
+export class NotificationService {
+  /**
+   * Add a notification to the user's inbox unless one with the same key is
+   * already there. True when it was added.
+   */
+  static async notify(userId: string, key: string, content: NotificationContent): Promise<boolean> {
+    const clock = getSimulationClock();
+    const added = await getRepositories().notifications.claim(userId, key, {
+      ...content,
+      userId,
+      read: false,
+      createdAt: new Date(),
+      gameTime: clock.gameNow(),
+    });
+    if (added) {
+      console.log(`🔔 ${content.title}: ${content.message}`);
+    }
+    return added;
+  }
+
+  static async getNotifications(userId: string): Promise<AppNotification[]> {
+    return getRepositories().notifications.list(userId);
+  }
+
+  static async markRead(userId: string, notificationId: string): Promise<void> {
+    await getRepositories().notifications.markRead(userId, [notificationId]);
+  }
+
+  static async markAllRead(userId: string): Promise<void> {
+    const unread = (await this.getNotifications(userId)).filter(notification => !notification.read);
+    if (unread.length === 0) return;
+    await getRepositories().notifications.markRead(userId, unread.map(notification => notification.id));
+  }
+
+  /** Newest first */
+  static subscribe(userId: string, callback: (notifications: AppNotification[]) => void): () => void {
+    try {
+      return getRepositories().notifications.subscribe(userId, callback);
+    } catch (error) {
+      console.error('Error setting up notification subscription:', error);
+      return () => {};
+    }
+  }
+}
+
+export type { AppNotification, NotificationKind, NotificationContent };
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { parseEther } from 'ethers';
+import { ONCHAIN_ESCROW_STEPS } from '../config/escrowConfig';
+import { EscrowStateMachine } from './escrowStateMachine';
+import { OnChainEscrowService, type OnChainEscrowLink, type OnChainEscrowState } from './onChainEscrowService';
+
+const createdAt = new Date('2025-01-01T00:00:00Z');
+
+function process(): OnChainEscrowState {
+  const link: OnChainEscrowLink = {
+    contractAddress: '0xescrow',
+    chainId: 31337,
+    deedAddress: '0xdeed',
+    deedId: '1',
+    purchasePriceWei: parseEther('2').toString(),
+    earnestWei: parseEther('0.4').toString(),
+    parties: { buyer: '0x1', seller: '0x2', inspector: '0x3', lender: '0x4' },
+    phase: 0,
+    approvals: [],
+    syncedBlock: 0,
+    forfeited: false,
+    transactions: [],
+  };
+  return {
+    status: 'pending',
+    createdAt,
+    steps: EscrowStateMachine.createSteps('C', true, ONCHAIN_ESCROW_STEPS),
+    history: [],
+    onChain: link,
+  };
+}
+
+const cancelled = (inspectionFailed: boolean, refundedAmount: bigint) => ({
+  name: 'TransactionCancelled' as const,
+  at: createdAt,
+  blockNumber: 2,
+  inspectionFailed,
+  refundedAmount,
+});
+
+describe('OnChainEscrowService.applyEvents', () => {
+  it('records the deposit the contract paid the seller on cancellation', () => {
+    const { process: next } = OnChainEscrowService.applyEvents(process(), [
+      { name: 'EarnestMoneyDeposited', at: createdAt, blockNumber: 1, amount: parseEther('0.4') },
+      cancelled(false, parseEther('0.4')),
+    ]);
+
+    expect(next.status).toBe('rejected');
+    expect(next.onChain!.forfeited).toBe(true);
+    expect(OnChainEscrowService.forfeitedEth(next.onChain!)).toBeCloseTo(0.4);
+  });
+
+  it('forfeits nothing when the contract held nothing', () => {
+    const { process: next } = OnChainEscrowService.applyEvents(process(), [cancelled(false, BigInt(0))]);
+
+    expect(next.status).toBe('rejected');
+    expect(next.onChain!.forfeited).toBe(false);
+    expect(OnChainEscrowService.forfeitedEth(next.onChain!)).toBe(0);
+  });
+
+  it('does not forfeit a deposit refunded after a failed inspection', () => {
+    const { process: next } = OnChainEscrowService.applyEvents(process(), [cancelled(true, parseEther('0.4'))]);
+
+    expect(next.onChain!.forfeited).toBe(false);
+  });
+});
@@ -0,0 +1,434 @@
+import { ContractFactory, EventLog, formatEther, parseEther } from 'ethers';
+import type { ContractTransactionResponse } from 'ethers';
+import { EscrowAbi, EscrowBytecode, MockPropertyDeedAbi } from '../contracts/generated';
+import { connectContract } from '../contracts/typedContract';
+import { getContractAddress } from '../contracts/deployments';
+import { ONCHAIN_ESCROW, type EscrowStepId } from '../config/escrowConfig';
+import { getLocalChainProvider } from './localChain';
+import {
+  EscrowStateMachine,
+  type EscrowAdvanceResult,
+  type EscrowMachineState,
+  type EscrowTransition
+} from './escrowStateMachine';
+
+/**
+ * Bridge between escrow records and the legacy Escrow.sol contract on the
+ * local Hardhat node. Each purchase gets its own contract; the UI drives the
+ * contract's phases and the emitted events are replayed onto the escrow
+ * record's state machine, so the contract stays the source of truth.
+ */
+
+export type OnChainEscrowRole = 'buyer' | 'seller' | 'inspector' | 'lender';
+
+export type OnChainEscrowAction =
+  | 'deposit_earnest'
+  | 'pass_inspection'
+  | 'fail_inspection'
+  | 'approve_buyer'
+  | 'approve_seller'
+  | 'approve_lender'
+  | 'fund'
+  | 'finalize'
+  | 'cancel';
+
+// Phase ids from Escrow.sol's currentPhase
+export const ONCHAIN_PHASE = {
+  Created: 0,
+  EarnestDeposited: 1,
+  Approved: 2,
+  FullyFunded: 3,
+  Completed: 4,
+  Cancelled: 5,
+} as const;
+
+export const ONCHAIN_PHASE_LABELS = ['Created', 'Earnest Deposited', 'Approved', 'Fully Funded', 'Completed', 'Cancelled'];
+
+export const ONCHAIN_ACTIONS: Record<OnChainEscrowAction, { label: string; role: OnChainEscrowRole }> = {
+  deposit_earnest: { label: 'Deposit Earnest Money', role: 'buyer' },
+  pass_inspection: { label: 'Pass Inspection', role: 'inspector' },
+  fail_inspection: { label: 'Fail Inspection', role: 'inspector' },
+  approve_buyer: { label: 'Buyer Approves', role: 'buyer' },
+  approve_seller: { label: 'Seller Approves', role: 'seller' },
+  approve_lender: { label: 'Lender Approves', role: 'lender' },
+  fund: { label: 'Fund Remaining Balance', role: 'lender' },
+  finalize: { label: 'Finalize Sale', role: 'buyer' },
+  cancel: { label: 'Cancel Sale', role: 'buyer' },
+};
+
+const APPROVING_ROLES: OnChainEscrowRole[] = ['buyer', 'seller', 'lender'];
+
+// Contract details stored on the escrow record. Amounts are wei strings since Firestore cannot hold bigints.
+export interface OnChainEscrowLink {
+  contractAddress: string;
+  chainId: number;
+  deedAddress: string;
+  deedId: string;
+  purchasePriceWei: string;
+  earnestWei: string;
+  parties: Record<OnChainEscrowRole, string>;
+  phase: number;
+  approvals: OnChainEscrowRole[];
+  syncedBlock: number; // Last block whose events have been applied
+  forfeited: boolean; // Cancelled after a passed inspection and the contract paid its balance to the seller
+  forfeitedWei?: string; // What the contract paid the seller on cancellation
+  transactions: { action: OnChainEscrowAction | 'deploy'; hash: string }[];
+}
+
+export type OnChainEscrowEvent = { at: Date; blockNumber: number } & (
+  | { name: 'EarnestMoneyDeposited'; amount: bigint }
+  | { name: 'InspectionStatusUpdated'; passed: boolean }
+  | { name: 'ApprovalGranted'; role: OnChainEscrowRole }
+  | { name: 'FullPriceFunded'; amount: bigint }
+  | { name: 'TransactionFinalized' }
+  | { name: 'TransactionCancelled'; inspectionFailed: boolean; refundedAmount: bigint }
+);
+
+export interface OnChainEscrowState extends EscrowMachineState {
+  onChain?: OnChainEscrowLink;
+}
+
+export class OnChainEscrowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OnChainEscrowError';
+  }
+}
+
+export class OnChainEscrowService {
+  static isEnabled(): boolean {
+    return import.meta.env.VITE_ESCROW_MODE === 'onchain';
+  }
+
+  /**
+   * Deploy a fresh Escrow contract for a purchase: mint the seller a deed,
+   * deploy the escrow for it and let the escrow move the deed at finalization.
+   */
+  static async deploy(investmentAmount: number): Promise<OnChainEscrowLink> {
+    const provider = getLocalChainProvider();
+    const chainId = await this.getChainId();
+    const deedAddress = getContractAddress(chainId, 'MockPropertyDeed');
+    if (!deedAddress) {
+      throw new OnChainEscrowError(`No property deed contract deployed on chain ${chainId}; run scripts/deploy-escrow-bridge.js against the local node`);
+    }
+
+    const signers = await provider.listAccounts();
+    const deployer = signers[0];
+    const parties = this.partiesFrom(signers.map(signer => signer.address));
+
+    const purchasePrice = parseEther(investmentAmount.toFixed(9));
+    const earnest = (purchasePrice * BigInt(Math.round(ONCHAIN_ESCROW.earnestRatio * 100))) / BigInt(100);
+
+    const deed = connectContract(deedAddress, MockPropertyDeedAbi, deployer);
+    const deedId = await deed.mint.staticCall(parties.seller);
+    await (await deed.mint(parties.seller)).wait();
+
+    const factory = new ContractFactory(EscrowAbi, EscrowBytecode, deployer);
+    const escrow = await factory.deploy(
+      deedAddress, deedId, purchasePrice, earnest,
+      parties.seller, parties.buyer, parties.inspector, parties.lender
+    );
+    await escrow.waitForDeployment();
+    const contractAddress = await escrow.getAddress();
+    const deployReceipt = await escrow.deploymentTransaction()?.wait();
+
+    const sellerDeed = connectContract(deedAddress, MockPropertyDeedAbi, await provider.getSigner(parties.seller));
+    await (await sellerDeed.approve(contractAddress, deedId)).wait();
+
+    console.log(`⛓️ Deployed escrow contract ${contractAddress} for deed #${deedId}`);
+
+    return {
+      contractAddress,
+      chainId,
+      deedAddress,
+      deedId: deedId.toString(),
+      purchasePriceWei: purchasePrice.toString(),
+      earnestWei: earnest.toString(),
+      parties,
+      phase: ONCHAIN_PHASE.Created,
+      approvals: [],
+      syncedBlock: deployReceipt?.blockNumber ?? 0,
+      forfeited: false,
+      transactions: deployReceipt ? [{ action: 'deploy', hash: deployReceipt.hash }] : [],
+    };
+  }
+
+  /**
+   * Link to an existing Escrow contract. Its full event history is replayed on the next sync.
+   */
+  static async attach(contractAddress: string): Promise<OnChainEscrowLink> {
+    const escrow = connectContract(contractAddress, EscrowAbi, getLocalChainProvider());
+
+    try {
+      const [nftAddress, nftID, purchasePrice, escrowAmount, seller, buyer, inspector, lender, currentPhase] = await Promise.all([
+        escrow.nftAddress(),
+        escrow.nftID(),
+        escrow.purchasePrice(),
+        escrow.escrowAmount(),
+        escrow.seller(),
+        escrow.buyer(),
+        escrow.inspector(),
+        escrow.lender(),
+        escrow.currentPhase(),
+      ]);
+
+      console.log(`⛓️ Attached to escrow contract ${contractAddress}`);
+
+      return {
+        contractAddress,
+        chainId: await this.getChainId(),
+        deedAddress: nftAddress,
+        deedId: nftID.toString(),
+        purchasePriceWei: purchasePrice.toString(),
+        earnestWei: escrowAmount.toString(),
+        parties: { buyer, seller, inspector, lender },
+        phase: Number(currentPhase.id),
+        approvals: [],
+        syncedBlock: -1,
+        forfeited: false,
+        transactions: [],
+      };
+    } catch (error) {
+      throw new OnChainEscrowError(`No Escrow contract found at ${contractAddress}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Send the transaction for an action as the party allowed to make it. Returns the transaction hash.
+   */
+  static async perform(link: OnChainEscrowLink, action: OnChainEscrowAction): Promise<string> {
+    const provider = getLocalChainProvider();
+    const signer = await provider.getSigner(link.parties[ONCHAIN_ACTIONS[action].role]);
+    const escrow = connectContract(link.contractAddress, EscrowAbi, signer);
+
+    try {
+      let tx: ContractTransactionResponse;
+      switch (action) {
+        case 'deposit_earnest':
+          tx = await escrow.depositEarnest({ value: BigInt(link.earnestWei) });
+          break;
+        case 'pass_inspection':
+        case 'fail_inspection':
+          tx = await escrow.updateInspectionStatus(action === 'pass_inspection');
+          break;
+        case 'approve_buyer':
+        case 'approve_seller':
+        case 'approve_lender':
+          tx = await escrow.approveByRole(ONCHAIN_ACTIONS[action].role);
+          break;
+        case 'fund': {
+          const balance = await provider.getBalance(link.contractAddress);
+          tx = await escrow.depositFullPrice({ value: BigInt(link.purchasePriceWei) - balance });
+          break;
+        }
+        case 'finalize':
+          tx = await escrow.finalizeSale();
+          break;
+        case 'cancel':
+          tx = await escrow.cancelSale();
+          break;
+      }
+
+      await tx.wait();
+      console.log(`⛓️ ${ONCHAIN_ACTIONS[action].label} on ${link.contractAddress}: ${tx.hash}`);
+      return tx.hash;
+    } catch (error) {
+      throw new OnChainEscrowError(`${ONCHAIN_ACTIONS[action].label} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Actions the contract will accept in its current phase
+   */
+  static availableActions(process: OnChainEscrowState): OnChainEscrowAction[] {
+    const link = process.onChain;
+    if (!link || EscrowStateMachine.isTerminal(process.status)) return [];
+
+    switch (link.phase) {
+      case ONCHAIN_PHASE.Created:
+        return ['deposit_earnest', 'cancel'];
+      case ONCHAIN_PHASE.EarnestDeposited:
+        // Approvals are held back until inspection passes: once all parties approve, the inspection result is locked
+        if (process.status === 'inspection') {
+          return ['pass_inspection', 'fail_inspection', 'cancel'];
+        }
+        return [
+          ...APPROVING_ROLES
+            .filter(role => !link.approvals.includes(role))
+            .map(role => `approve_${role}` as OnChainEscrowAction),
+          'cancel',
+        ];
+      case ONCHAIN_PHASE.Approved:
+        return ['fund', 'cancel'];
+      case ONCHAIN_PHASE.FullyFunded:
+        return ['finalize', 'cancel'];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Read the contract's events since the last sync along with its current phase
+   */
+  static async fetchEvents(link: OnChainEscrowLink): Promise<{ events: OnChainEscrowEvent[]; phase: number; latestBlock: number }> {
+    const provider = getLocalChainProvider();
+    const escrow = connectContract(link.contractAddress, EscrowAbi, provider);
+    const latestBlock = await provider.getBlockNumber();
+
+    const [logs, currentPhase] = await Promise.all([
+      link.syncedBlock < latestBlock ? escrow.queryFilter('*', link.syncedBlock + 1, latestBlock) : Promise.resolve([]),
+      escrow.currentPhase(),
+    ]);
+
+    const events = logs
+      .filter((log): log is EventLog => log instanceof EventLog)
+      .map(log => this.toEvent(log))
+      .filter((event): event is OnChainEscrowEvent => event !== null);
+
+    return { events, phase: Number(currentPhase.id), latestBlock };
+  }
+
+  /**
+   * Replay contract events onto an escrow record. Returns a new process; the input is not modified.
+   * Settlement (completion) is left to the caller once the contract reports the Completed phase.
+   */
+  static applyEvents<T extends OnChainEscrowState>(process: T, events: OnChainEscrowEvent[]): EscrowAdvanceResult<T> {
+    if (!process.onChain) {
+      return { process, transitions: [] };
+    }
+
+    const link: OnChainEscrowLink = { ...process.onChain, approvals: [...process.onChain.approvals] };
+    const next: T = {
+      ...process,
+      steps: process.steps.map(step => ({ ...step })),
+      history: [...process.history],
+      onChain: link,
+    };
+    const transitions: EscrowTransition[] = [];
+
+    for (const event of events) {
+      if (EscrowStateMachine.isTerminal(next.status)) break;
+
+      switch (event.name) {
+        case 'EarnestMoneyDeposited':
+          if (next.status === 'pending') {
+            transitions.push(this.startStep(next, 'inspection', event.at, `Earnest money deposited (${formatEther(event.amount)} ETH)`));
+          }
+          break;
+        case 'InspectionStatusUpdated': {
+          const step = next.steps.find(candidate => candidate.id === 'inspection');
+          if (next.status !== 'inspection' || !step) break;
+          step.completionTime = event.at;
+          if (event.passed) {
+            step.status = 'passed';
+            delete step.failureReason;
+            transitions.push(this.startStep(next, 'lender_approval', event.at, 'Inspector passed the property'));
+          } else {
+            // The inspector may re-inspect, or the buyer cancels and is refunded
+            step.status = 'failed';
+            step.failureReason = 'Inspector reported the property failed inspection';
+          }
+          break;
+        }
+        case 'ApprovalGranted':
+          if (!link.approvals.includes(event.role)) {
+            link.approvals.push(event.role);
+          }
+          break;
+        case 'TransactionFinalized':
+          next.actualCompletionTime = event.at;
+          break;
+        case 'TransactionCancelled': {
+          // Only what the contract actually held moved; a cancel before the deposit forfeits nothing
+          const forfeitedWei = event.inspectionFailed ? BigInt(0) : event.refundedAmount;
+          const moved = formatEther(event.refundedAmount);
+          const reason = event.inspectionFailed
+            ? `Sale cancelled on-chain; ${moved} ETH refunded to the buyer`
+            : forfeitedWei > BigInt(0)
+              ? `Sale cancelled on-chain after a passed inspection; ${moved} ETH forfeited to the seller`
+              : 'Sale cancelled on-chain before any deposit was made';
+          const openStep = next.steps.find(step => step.id === next.status && step.status === 'in_progress');
+          if (openStep) {
+            openStep.status = 'failed';
+            openStep.completionTime = event.at;
+          }
+          link.forfeited = forfeitedWei > BigInt(0);
+          link.forfeitedWei = forfeitedWei.toString();
+          next.rejectionReason = reason;
+          next.actualCompletionTime = event.at;
+          transitions.push(EscrowStateMachine.transition(next, 'rejected', event.at, reason));
+          break;
+        }
+        case 'FullPriceFunded':
+          break;
+      }
+
+      if (next.status === 'lender_approval' && APPROVING_ROLES.every(role => link.approvals.includes(role))) {
+        const step = next.steps.find(candidate => candidate.id === 'lender_approval')!;
+        step.status = 'passed';
+        step.completionTime = event.at;
+        transitions.push(EscrowStateMachine.transition(next, 'approved', event.at, 'Buyer, seller and lender approved the sale'));
+      }
+    }
+
+    return { process: next, transitions };
+  }
+
+  /**
+   * ETH of the escrow hold the seller kept when the contract was cancelled
+   */
+  static forfeitedEth(link: OnChainEscrowLink): number {
+    return link.forfeited ? Number(formatEther(BigInt(link.forfeitedWei ?? link.earnestWei))) : 0;
+  }
+
+  private static startStep(process: EscrowMachineState, stepId: EscrowStepId, at: Date, reason: string): EscrowTransition {
+    // Transition first: the machine only allows moving to the next pending step
+    const transition = EscrowStateMachine.transition(process, stepId, at, reason);
+    const step = process.steps.find(candidate => candidate.id === stepId)!;
+    step.status = 'in_progress';
+    step.startTime = at;
+    return transition;
+  }
+
+  private static toEvent(log: EventLog): OnChainEscrowEvent | null {
+    const base = {
+      at: new Date(Number(log.args.timestamp) * 1000),
+      blockNumber: log.blockNumber,
+    };
+
+    switch (log.eventName) {
+      case 'EarnestMoneyDeposited':
+        return { ...base, name: 'EarnestMoneyDeposited', amount: log.args.amount };
+      case 'InspectionStatusUpdated':
+        return { ...base, name: 'InspectionStatusUpdated', passed: log.args.passed };
+      case 'ApprovalGranted':
+        return { ...base, name: 'ApprovalGranted', role: log.args.role };
+      case 'FullPriceFunded':
+        return { ...base, name: 'FullPriceFunded', amount: log.args.amount };
+      case 'TransactionFinalized':
+        return { ...base, name: 'TransactionFinalized' };
+      case 'TransactionCancelled':
+        return { ...base, name: 'TransactionCancelled', inspectionFailed: log.args.inspectionFailed, refundedAmount: log.args.refundedAmount };
+      default:
+        return null;
+    }
+  }
+
+  private static partiesFrom(accounts: string[]): Record<OnChainEscrowRole, string> {
+    const { buyer, seller, inspector, lender } = ONCHAIN_ESCROW.accounts;
+    if (accounts.length <= Math.max(buyer, seller, inspector, lender)) {
+      throw new OnChainEscrowError('Local node does not expose enough unlocked accounts for the escrow parties');
+    }
+    return {
+      buyer: accounts[buyer],
+      seller: accounts[seller],
+      inspector: accounts[inspector],
+      lender: accounts[lender],
+    };
+  }
+
+  private static async getChainId(): Promise<number> {
+    const network = await getLocalChainProvider().getNetwork();
+    return Number(network.chainId);
+  }
+}
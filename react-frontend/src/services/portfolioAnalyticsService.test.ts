@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+import { LoanService } from './loanService';
+import { PortfolioAnalyticsService, type InvestmentPerformance } from './portfolioAnalyticsService';
+import { PriceOracleService, ReplayPriceProvider } from './priceOracleService';
+import { SimulationClock, getSimulationClock, setSimulationClock } from './simulationClock';
+import { WalletLedgerService } from './walletLedgerService';
+
+const PURCHASE_USD = 10000;
+const HELD_MONTHS = 4;
+
+// Buys the same lot for a user, financed or outright
+async function buyLot(userId: string, financed: boolean): Promise<void> {
+  await getRepositories().wallets.create(userId, {
+    address: `0x${userId}`,
+    ethBalance: 0,
+    strikePrice: 2500,
+    initialUsdValue: 25000,
+    username: userId,
+    isActive: true,
+  });
+  await WalletLedgerService.recordOpeningBalance(userId, 10);
+
+  const investmentId = await getRepositories().investments.add(userId, {
+    userId,
+    propertyId: 'p1',
+    propertyClass: 'B',
+    propertyYearBuilt: 1998,
+    sharesOwned: 4,
+    purchasePrice: 4,
+    currentValue: 4,
+    purchaseDate: getSimulationClock().now(),
+    purchaseUsdValue: PURCHASE_USD,
+    propertyTotalPrice: 250000,
+    rentalYield: 0.08,
+  });
+  if (financed) {
+    await LoanService.originate(userId, {
+      investmentId,
+      propertyId: 'p1',
+      propertyAddress: '12 Elm Street',
+      propertyClass: 'B',
+      shares: 4,
+    }, LoanService.quote('B', PURCHASE_USD));
+  }
+}
+
+describe('PortfolioAnalyticsService.getPortfolioPerformance', () => {
+  let outright: InvestmentPerformance;
+  let financed: InvestmentPerformance;
+
+  beforeEach(async () => {
+    setRepositories(createMemoryRepositories());
+    setSimulationClock(new SimulationClock({ seed: 3, mode: 'frozen', startTime: new Date('2025-03-10T00:00:00Z') }));
+    PriceOracleService.setProvider(new ReplayPriceProvider());
+
+    await buyLot('cash', false);
+    await buyLot('borrower', true);
+    getSimulationClock().fastForwardMonths(HELD_MONTHS);
+    await LoanService.serviceDebt('borrower');
+
+    [outright] = (await PortfolioAnalyticsService.getPortfolioPerformance('cash')).investments;
+    [financed] = (await PortfolioAnalyticsService.getPortfolioPerformance('borrower')).investments;
+  });
+
+  it('measures a financed lot on the down payment plus principal repaid', async () => {
+    const [loan] = await LoanService.getLoans('borrower');
+
+    expect(loan.paymentsMade).toBeGreaterThan(0);
+    expect(financed.invested).toBeCloseTo(loan.downPaymentUsd + loan.principalUsd - loan.balanceUsd, 6);
+    expect(financed.currentValue).toBeCloseTo(outright.currentValue - loan.balanceUsd, 6);
+    expect(financed.incomeReturn).toBeCloseTo(outright.incomeReturn - loan.interestPaidUsd, 6);
+  });
+
+  it('takes loan installments out of the cash flows', async () => {
+    const installments = (await WalletLedgerService.getEntries('borrower'))
+      .filter(entry => entry.type === 'loan_payment')
+      .reduce((sum, entry) => sum + Number(entry.metadata?.usdAmount), 0);
+    const heldYears = HELD_MONTHS / 12;
+
+    expect(financed.cashOnCash * financed.invested).toBeCloseTo(outright.cashOnCash * outright.invested - installments / heldYears, 6);
+    expect(financed.irr).not.toBeNull();
+    expect(financed.irr).not.toBeCloseTo(outright.irr!, 4);
+  });
+});
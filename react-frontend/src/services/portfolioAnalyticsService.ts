@@ -0,0 +1,499 @@
+import { getRepositories } from '../repositories';
+import type { InvestmentRecord } from '../repositories/types';
+import type { Loan } from './loanService';
+import {
+  calculateNetRentalForShares,
+  getRentalAccrualStart,
+  type RentalEntitlement
+} from '../utils/rentalCalculations';
+import { MarketModelService } from './marketModelService';
+import { PropertyAppreciationService, type QuarterlyGain } from './propertyAppreciationService';
+import type { RentalPayment } from './rentalIncomeService';
+import { GAME_MONTH_MS, GAME_YEAR_MS, getSimulationClock } from './simulationClock';
+import type { LedgerEntry } from './walletLedgerService';
+
+/**
+ * Performance math for a user's open investment lots.
+ *
+ * Everything runs on the game timeline in USD: a lot is bought for its
+ * `purchaseUsdValue`, earns the rental payments recorded for its property
+ * (split across the user's lots by shares held) and is marked to market with
+ * the property's booked quarterly appreciation. Rates are decimals (0.08 = 8%).
+ *
+ * A financed lot is measured on the investor's equity: the down payment plus
+ * principal repaid is what they have put in, the value is net of the debt
+ * still owed, and loan installments are cash paid out against the rent.
+ */
+
+export type PerformanceWindow = '3m' | '6m' | '1y' | 'all';
+
+export const PERFORMANCE_WINDOWS: Record<PerformanceWindow, { label: string; months: number | null }> = {
+  '3m': { label: '3M', months: 3 },
+  '6m': { label: '6M', months: 6 },
+  '1y': { label: '1Y', months: 12 },
+  all: { label: 'All', months: null },
+};
+
+export interface CashFlow {
+  gameTime: Date;
+  amount: number; // USD, positive when received by the investor
+}
+
+export interface InvestmentPerformance {
+  investmentId: string;
+  propertyId: string;
+  propertyAddress: string;
+  purchaseGameTime: Date;
+  invested: number; // Cost, or down payment plus principal repaid when financed
+  currentValue: number; // Net of any loan outstanding
+  incomeReturn: number; // Rent less loan interest
+  appreciationReturn: number;
+  totalReturn: number;
+  totalReturnRate: number;
+  cashOnCash: number; // Trailing 12 game months of rent less installments over the amount invested
+  irr: number | null; // Annualized; null until the lot has been held a game month
+  incomeEstimated: boolean; // No rental payments recorded, so rent is modelled from the yield
+}
+
+export interface PortfolioPerformance {
+  window: PerformanceWindow;
+  asOf: Date;
+  windowStart: Date;
+  investments: InvestmentPerformance[];
+  invested: number;
+  currentValue: number;
+  incomeReturn: number;
+  appreciationReturn: number;
+  totalReturn: number;
+  totalReturnRate: number;
+  cashOnCash: number;
+  irr: number | null;
+  timeWeightedReturn: number | null; // Over the window; null with nothing held in it
+  annualizedTimeWeightedReturn: number | null; // Only for windows of a game year or more
+}
+
+export interface HoldingValuation {
+  investmentId: string;
+  propertyId: string;
+  propertyAddress: string;
+  sharesOwned: number;
+  purchaseGameTime: Date;
+  invested: number;
+  value: number;
+}
+
+interface LoanInstallment {
+  gameTime: Date;
+  amount: number; // USD paid to the lender
+  interest: number;
+  principal: number;
+}
+
+interface LotFinancing {
+  principal: number; // Amount borrowed
+  installments: LoanInstallment[];
+}
+
+interface LotModel {
+  record: InvestmentRecord;
+  start: Date;
+  cost: number; // Purchase price in USD
+  basis: number; // Paid in at purchase: the cost, or the down payment when financed
+  income: CashFlow[];
+  incomeEstimated: boolean;
+  growth: (gameTime: Date) => number;
+  financing: LotFinancing | null;
+}
+
+export class PortfolioAnalyticsService {
+  private static readonly MIN_IRR_MONTHS = 1;
+  private static readonly IRR_TOLERANCE = 1e-7;
+  private static readonly IRR_MAX_ITERATIONS = 100;
+
+  /**
+   * Performance of every open lot and of the portfolio as a whole
+   */
+  static async getPortfolioPerformance(userId: string, window: PerformanceWindow = 'all'): Promise<PortfolioPerformance> {
+    const asOf = getSimulationClock().gameNow();
+    const repositories = getRepositories();
+    const [records, payments, loans, entries] = await Promise.all([
+      repositories.investments.listByUser(userId),
+      repositories.rentalPayments.listByUser(userId),
+      repositories.loans.listByUser(userId),
+      repositories.wallets.listLedgerEntries(userId),
+    ]);
+
+    const lots = await this.buildLots(this.openLots(records), payments, asOf);
+    this.attachFinancing(lots, loans, entries.filter(entry => entry.type === 'loan_payment'));
+    const investments = lots.map(lot => this.lotPerformance(lot, asOf));
+
+    const invested = investments.reduce((sum, inv) => sum + inv.invested, 0);
+    const currentValue = investments.reduce((sum, inv) => sum + inv.currentValue, 0);
+    const incomeReturn = investments.reduce((sum, inv) => sum + inv.incomeReturn, 0);
+    const appreciationReturn = currentValue - invested;
+    const totalReturn = incomeReturn + appreciationReturn;
+    const trailingIncome = lots.reduce((sum, lot) => sum + this.trailingAnnualCashFlow(lot, asOf), 0);
+
+    const firstStart = lots.reduce<Date | null>((first, lot) => (!first || lot.start < first ? lot.start : first), null);
+    const windowStart = this.windowStart(window, asOf, firstStart);
+    const timeWeightedReturn = lots.length > 0 ? this.calculateTimeWeightedReturn(lots, windowStart, asOf) : null;
+    const windowYears = (asOf.getTime() - windowStart.getTime()) / GAME_YEAR_MS;
+
+    return {
+      window,
+      asOf,
+      windowStart,
+      investments,
+      invested,
+      currentValue,
+      incomeReturn,
+      appreciationReturn,
+      totalReturn,
+      totalReturnRate: invested > 0 ? totalReturn / invested : 0,
+      cashOnCash: invested > 0 ? trailingIncome / invested : 0,
+      irr: this.portfolioIrr(lots, asOf),
+      timeWeightedReturn,
+      annualizedTimeWeightedReturn: timeWeightedReturn !== null && windowYears >= 1
+        ? Math.pow(1 + timeWeightedReturn, 1 / windowYears) - 1
+        : null,
+    };
+  }
+
+  /**
+   * Marked-to-market value of the open lots held at a game time, before any
+   * loan secured on them
+   */
+  static async valueHoldings(userId: string, gameTime: Date): Promise<HoldingValuation[]> {
+    const records = await getRepositories().investments.listByUser(userId);
+    const lots = await this.buildLots(this.openLots(records), [], gameTime);
+
+    return lots
+      .filter(lot => lot.start <= gameTime)
+      .map(lot => ({
+        investmentId: lot.record.id ?? lot.record.propertyId,
+        propertyId: lot.record.propertyId,
+        propertyAddress: lot.record.propertyAddress ?? lot.record.propertyId,
+        sharesOwned: lot.record.sharesOwned,
+        purchaseGameTime: lot.start,
+        invested: lot.cost,
+        value: this.lotValue(lot, gameTime),
+      }));
+  }
+
+  /**
+   * Annualized internal rate of return of dated cash flows (XIRR), or null
+   * when the flows never change sign or the rate does not converge
+   */
+  static calculateIrr(flows: CashFlow[]): number | null {
+    if (!flows.some(flow => flow.amount > 0) || !flows.some(flow => flow.amount < 0)) return null;
+
+    const origin = Math.min(...flows.map(flow => flow.gameTime.getTime()));
+    const dated = flows.map(flow => ({ years: (flow.gameTime.getTime() - origin) / GAME_YEAR_MS, amount: flow.amount }));
+    const npv = (rate: number) => dated.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, flow.years), 0);
+    const slope = (rate: number) => dated.reduce((sum, flow) => sum - flow.years * flow.amount / Math.pow(1 + rate, flow.years + 1), 0);
+
+    // Newton's method converges quickly from a sensible guess...
+    let rate = 0.1;
+    for (let i = 0; i < this.IRR_MAX_ITERATIONS; i++) {
+      const value = npv(rate);
+      const derivative = slope(rate);
+      if (Math.abs(value) < this.IRR_TOLERANCE) return rate;
+      if (derivative === 0 || !Number.isFinite(derivative)) break;
+
+      const next = rate - value / derivative;
+      if (!Number.isFinite(next) || next <= -1) break;
+      if (Math.abs(next - rate) < this.IRR_TOLERANCE) return next;
+      rate = next;
+    }
+
+    // ...and bisection catches the cases where it overshoots
+    let low = -0.9999;
+    let high = 10;
+    if (Math.sign(npv(low)) === Math.sign(npv(high))) return null;
+    for (let i = 0; i < this.IRR_MAX_ITERATIONS * 2; i++) {
+      const mid = (low + high) / 2;
+      const value = npv(mid);
+      if (Math.abs(value) < this.IRR_TOLERANCE || high - low < this.IRR_TOLERANCE) return mid;
+      if (Math.sign(value) === Math.sign(npv(low))) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Time-weighted return between two game times, chained over monthly
+   * sub-periods so purchases do not distort the result. Purchases count as
+   * made at the start of their sub-period and rent as paid out at its end.
+   * Principal repaid on a loan is a contribution and interest an outflow.
+   */
+  private static calculateTimeWeightedReturn(lots: LotModel[], from: Date, to: Date): number | null {
+    let growth = 1;
+    let measured = false;
+
+    for (let start = from.getTime(); start < to.getTime(); start += GAME_MONTH_MS) {
+      const periodStart = new Date(start);
+      const periodEnd = new Date(Math.min(start + GAME_MONTH_MS, to.getTime()));
+
+      const startValue = this.portfolioEquity(lots, periodStart);
+      const endValue = this.portfolioEquity(lots, periodEnd);
+      const contributions = lots.reduce((sum, lot) => sum
+        + (lot.start > periodStart && lot.start <= periodEnd ? lot.basis : 0)
+        + this.installmentsBetween(lot, periodStart, periodEnd, 'principal'), 0);
+      const income = lots.reduce((sum, lot) => sum
+        + this.incomeBetween(lot, periodStart, periodEnd)
+        - this.installmentsBetween(lot, periodStart, periodEnd, 'interest'), 0);
+
+      const capital = startValue + contributions;
+      if (capital <= 0) continue;
+
+      growth *= (endValue + income) / capital;
+      measured = true;
+    }
+
+    return measured ? growth - 1 : null;
+  }
+
+  private static lotPerformance(lot: LotModel, asOf: Date): InvestmentPerformance {
+    const invested = lot.basis + this.installmentsBetween(lot, lot.start, asOf, 'principal', true);
+    const currentValue = this.equityValue(lot, asOf);
+    const incomeReturn = this.incomeBetween(lot, lot.start, asOf, true) - this.installmentsBetween(lot, lot.start, asOf, 'interest', true);
+    const appreciationReturn = currentValue - invested;
+    const totalReturn = incomeReturn + appreciationReturn;
+
+    return {
+      investmentId: lot.record.id ?? lot.record.propertyId,
+      propertyId: lot.record.propertyId,
+      propertyAddress: lot.record.propertyAddress ?? lot.record.propertyId,
+      purchaseGameTime: lot.start,
+      invested,
+      currentValue,
+      incomeReturn,
+      appreciationReturn,
+      totalReturn,
+      totalReturnRate: totalReturn / invested,
+      cashOnCash: this.trailingAnnualCashFlow(lot, asOf) / invested,
+      irr: this.portfolioIrr([lot], asOf),
+      incomeEstimated: lot.incomeEstimated,
+    };
+  }
+
+  /**
+   * IRR of buying the lots, collecting their rent, paying their loan
+   * installments and valuing the equity at `asOf`
+   */
+  private static portfolioIrr(lots: LotModel[], asOf: Date): number | null {
+    if (lots.length === 0) return null;
+    const heldSince = Math.min(...lots.map(lot => lot.start.getTime()));
+    if ((asOf.getTime() - heldSince) / GAME_MONTH_MS < this.MIN_IRR_MONTHS) return null;
+
+    const flows: CashFlow[] = lots.flatMap(lot => [
+      { gameTime: lot.start, amount: -lot.basis },
+      ...lot.income.filter(flow => flow.gameTime <= asOf),
+      ...(lot.financing?.installments ?? [])
+        .filter(installment => installment.gameTime <= asOf)
+        .map(installment => ({ gameTime: installment.gameTime, amount: -installment.amount })),
+    ]);
+    flows.push({ gameTime: asOf, amount: this.portfolioEquity(lots, asOf) });
+    return this.calculateIrr(flows);
+  }
+
+  private static async buildLots(records: InvestmentRecord[], payments: RentalPayment[], asOf: Date): Promise<LotModel[]> {
+    const clock = getSimulationClock();
+    const propertyIds = [...new Set(records.map(record => record.propertyId))];
+    const histories = new Map<string, QuarterlyGain[]>();
+    await Promise.all(propertyIds.map(async propertyId => {
+      const data = await PropertyAppreciationService.getPropertyAppreciationData(propertyId);
+      if (data && data.quarterlyHistory.length > 0) histories.set(propertyId, data.quarterlyHistory);
+    }));
+
+    const lots = records.map(record => {
+      const start = clock.toGameTime(new Date(record.purchaseDate));
+      return {
+        record,
+        start,
+        cost: record.purchaseUsdValue ?? 0,
+        basis: record.purchaseUsdValue ?? 0,
+        income: [] as CashFlow[],
+        incomeEstimated: false,
+        growth: this.growthCurve(record, start, histories.get(record.propertyId)),
+        financing: null as LotFinancing | null,
+      };
+    });
+
+    for (const lot of lots) {
+      const propertyPayments = payments.filter(payment => payment.propertyId === lot.record.propertyId);
+      if (propertyPayments.length === 0) {
+        lot.income = this.modelledRent(lot.record, asOf);
+        lot.incomeEstimated = true;
+        continue;
+      }
+
+      // A payment covers every lot of the property held when it was made
+      lot.income = propertyPayments
+        .filter(payment => new Date(payment.gameDate) >= lot.start)
+        .map(payment => {
+          const paidAt = new Date(payment.gameDate);
+          const sharesHeld = lots
+            .filter(other => other.record.propertyId === lot.record.propertyId && other.start <= paidAt)
+            .reduce((sum, other) => sum + other.record.sharesOwned, 0);
+          return { gameTime: paidAt, amount: payment.amount * lot.record.sharesOwned / sharesHeld };
+        });
+    }
+
+    return lots;
+  }
+
+  /**
+   * Put the loans taken out on the lots, and the installments paid on them,
+   * onto the lots. A loan stays with its lot after it is repaid.
+   */
+  private static attachFinancing(lots: LotModel[], loans: Loan[], loanPayments: LedgerEntry[]): void {
+    for (const lot of lots) {
+      const loan = loans.find(candidate => candidate.investmentId === lot.record.id);
+      if (!loan) continue;
+
+      lot.basis = loan.downPaymentUsd;
+      lot.financing = {
+        principal: loan.principalUsd,
+        installments: loanPayments
+          .filter(entry => entry.reference === loan.id)
+          .map(entry => ({
+            gameTime: new Date(entry.gameTime),
+            amount: Number(entry.metadata?.usdAmount ?? 0),
+            interest: Number(entry.metadata?.interestUsd ?? 0),
+            principal: Number(entry.metadata?.principalUsd ?? 0),
+          }))
+          .sort((a, b) => a.gameTime.getTime() - b.gameTime.getTime()),
+      };
+    }
+  }
+
+  /**
+   * Net operating income the lot is entitled to, one payment per game
+   * month, for properties whose rent is accrued rather than paid out as records
+   */
+  private static modelledRent(record: InvestmentRecord, asOf: Date): CashFlow[] {
+    const entitlement: RentalEntitlement & { propertyId: string } = {
+      ...record,
+      propertyTotalPrice: record.propertyTotalPrice ?? 0,
+      rentalYield: record.rentalYield ?? 0,
+    };
+    const accrualStart = getSimulationClock().toGameTime(getRentalAccrualStart(entitlement));
+    const flows: CashFlow[] = [];
+
+    if (entitlement.rentalAccruedCarry) {
+      flows.push({ gameTime: accrualStart, amount: entitlement.rentalAccruedCarry });
+    }
+    for (let paidAt = accrualStart.getTime() + GAME_MONTH_MS; paidAt <= asOf.getTime(); paidAt += GAME_MONTH_MS) {
+      flows.push({ gameTime: new Date(paidAt), amount: calculateNetRentalForShares(entitlement, new Date(paidAt - GAME_MONTH_MS), 1) });
+    }
+
+    // Rent accrued since the last whole month counts as paid at the valuation date
+    const partialMonths = ((asOf.getTime() - accrualStart.getTime()) / GAME_MONTH_MS) % 1;
+    if (partialMonths > 0 && asOf > accrualStart) {
+      const monthStart = new Date(asOf.getTime() - partialMonths * GAME_MONTH_MS);
+      flows.push({ gameTime: asOf, amount: calculateNetRentalForShares(entitlement, monthStart, partialMonths) });
+    }
+    return flows;
+  }
+
+  /**
+   * Value multiplier since purchase. Uses the property's booked quarterly
+   * gains when it has any, otherwise the market model's moves for its
+   * region and class. A quarter's gain lands at its end, and only quarters after the
+   * purchase quarter count.
+   */
+  private static growthCurve(record: InvestmentRecord, start: Date, history?: QuarterlyGain[]): (gameTime: Date) => number {
+    const purchaseQuarter = this.quarterIndex(PropertyAppreciationService.getQuarter(start));
+
+    if (history) {
+      const gains = history
+        .map(gain => ({ index: this.quarterIndex(gain.quarter), factor: 1 + gain.gainPercent / 100 }))
+        .filter(gain => gain.index > purchaseQuarter);
+      return gameTime => gains
+        .filter(gain => this.quarterEnd(gain.index) <= gameTime)
+        .reduce((growth, gain) => growth * gain.factor, 1);
+    }
+
+    const property = {
+      id: record.propertyId,
+      class: (record.propertyClass ?? 'B') as 'A' | 'B' | 'C',
+      region: record.propertyRegion,
+    };
+    return gameTime => {
+      let lastQuarter = purchaseQuarter;
+      while (this.quarterEnd(lastQuarter + 1) <= gameTime) lastQuarter++;
+      return MarketModelService.growth(property, purchaseQuarter, lastQuarter);
+    };
+  }
+
+  // Closed lots have had their basis scaled to zero by the secondary market
+  private static openLots(records: InvestmentRecord[]): InvestmentRecord[] {
+    return records.filter(record => record.status !== 'closed' && (record.purchaseUsdValue ?? 0) > 0 && record.sharesOwned > 0);
+  }
+
+  private static lotValue(lot: LotModel, gameTime: Date): number {
+    return gameTime < lot.start ? 0 : lot.cost * lot.growth(gameTime);
+  }
+
+  // Value less the principal still owed on the lot's loan
+  private static equityValue(lot: LotModel, gameTime: Date): number {
+    if (gameTime < lot.start || !lot.financing) return this.lotValue(lot, gameTime);
+    const repaid = this.installmentsBetween(lot, lot.start, gameTime, 'principal', true);
+    return this.lotValue(lot, gameTime) - Math.max(0, lot.financing.principal - repaid);
+  }
+
+  private static portfolioEquity(lots: LotModel[], gameTime: Date): number {
+    return lots.reduce((sum, lot) => sum + this.equityValue(lot, gameTime), 0);
+  }
+
+  private static incomeBetween(lot: LotModel, from: Date, to: Date, includeStart = false): number {
+    return lot.income
+      .filter(flow => (includeStart ? flow.gameTime >= from : flow.gameTime > from) && flow.gameTime <= to)
+      .reduce((sum, flow) => sum + flow.amount, 0);
+  }
+
+  private static installmentsBetween(
+    lot: LotModel,
+    from: Date,
+    to: Date,
+    part: 'amount' | 'interest' | 'principal',
+    includeStart = false
+  ): number {
+    return (lot.financing?.installments ?? [])
+      .filter(installment => (includeStart ? installment.gameTime >= from : installment.gameTime > from) && installment.gameTime <= to)
+      .reduce((sum, installment) => sum + installment[part], 0);
+  }
+
+  /**
+   * Rent less loan installments over the last game year, annualized when the
+   * lot is younger
+   */
+  private static trailingAnnualCashFlow(lot: LotModel, asOf: Date): number {
+    const heldYears = Math.min(1, (asOf.getTime() - lot.start.getTime()) / GAME_YEAR_MS);
+    if (heldYears <= 0) return 0;
+    const from = new Date(asOf.getTime() - heldYears * GAME_YEAR_MS);
+    return (this.incomeBetween(lot, from, asOf, true) - this.installmentsBetween(lot, from, asOf, 'amount', true)) / heldYears;
+  }
+
+  private static windowStart(window: PerformanceWindow, asOf: Date, firstStart: Date | null): Date {
+    const months = PERFORMANCE_WINDOWS[window].months;
+    const earliest = firstStart ?? asOf;
+    if (months === null) return earliest;
+    const start = new Date(asOf.getTime() - months * GAME_MONTH_MS);
+    return start > earliest ? start : earliest;
+  }
+
+  // "2025-Q3" => sequential quarter number
+  private static quarterIndex(quarter: string): number {
+    const [year, q] = quarter.split('-Q').map(Number);
+    return year * 4 + (q - 1);
+  }
+
+  private static quarterEnd(index: number): Date {
+    return new Date(Math.floor(index / 4), (index % 4) * 3 + 3, 1);
+  }
+}
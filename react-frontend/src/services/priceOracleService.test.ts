@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RANDOM_WALK_CONFIG } from '../config/priceOracleConfig';
+import { RandomWalkPriceProvider } from './priceOracleService';
+import { GAME_DAY_MS, SimulationClock, setSimulationClock } from './simulationClock';
+
+const day = (offset: number) => new Date(RANDOM_WALK_CONFIG.epoch.getTime() + offset * GAME_DAY_MS);
+
+describe('RandomWalkPriceProvider', () => {
+  beforeEach(() => {
+    setSimulationClock(new SimulationClock({ seed: 11, mode: 'frozen', startTime: new Date('2025-01-01T00:00:00Z') }));
+  });
+
+  it('starts at the configured price on the epoch day', async () => {
+    expect(await new RandomWalkPriceProvider().quote(day(0))).toBe(RANDOM_WALK_CONFIG.startPrice);
+  });
+
+  it('prices a day the same whichever day is read first', async () => {
+    const forward = new RandomWalkPriceProvider();
+    await forward.quote(day(10));
+    const fromAfar = await forward.quote(day(40));
+
+    const direct = await new RandomWalkPriceProvider().quote(day(40));
+    expect(fromAfar).toBe(direct);
+    expect(await forward.quote(day(10))).toBe(await new RandomWalkPriceProvider().quote(day(10)));
+    expect(direct).not.toBe(RANDOM_WALK_CONFIG.startPrice);
+  });
+
+  it('walks back from the epoch for earlier days', async () => {
+    const provider = new RandomWalkPriceProvider();
+    const before = await provider.quote(day(-1));
+
+    expect(before).toBeGreaterThan(0);
+    expect(before).not.toBe(RANDOM_WALK_CONFIG.startPrice);
+    expect(await provider.quote(day(-1))).toBe(before);
+  });
+
+  it('follows a different path for another seed', async () => {
+    const seeded = await new RandomWalkPriceProvider().quote(day(30));
+    setSimulationClock(new SimulationClock({ seed: 12, mode: 'frozen', startTime: new Date('2025-01-01T00:00:00Z') }));
+
+    expect(await new RandomWalkPriceProvider().quote(day(30))).not.toBe(seeded);
+  });
+});
@@ -0,0 +1,298 @@
+import { Contract, JsonRpcProvider } from 'ethers';
+import { getRepositories } from '../repositories';
+import {
+  CHAINLINK_CONFIG,
+  COINGECKO_CONFIG,
+  PRICE_ORACLE_CONFIG,
+  RANDOM_WALK_CONFIG,
+  REPLAY_CONFIG,
+  type PriceProviderId
+} from '../config/priceOracleConfig';
+import bundledReplay from '../config/ethUsdReplay.json';
+import { GAME_DAY_MS, GAME_YEAR_MS, getSimulationClock } from './simulationClock';
+import { seededGaussian } from '../utils/seededRandom';
+
+/**
+ * ETH/USD price oracle on the game timeline.
+ *
+ * Game time is cut into buckets (one game day by default) and each bucket
+ * gets exactly one stored quote, taken from the configured provider the
+ * first time anyone asks for it. Purchases, rent conversions and wallet
+ * valuations made in the same bucket therefore all use the same price, and
+ * the stored quotes double as the historical series.
+ */
+
+export interface PriceQuote {
+  source: PriceProviderId;
+  bucket: number; // floor(gameTime / bucketMs)
+  gameTime: Date; // Start of the bucket
+  ethUsd: number;
+  observedAt: Date; // Sim time the provider was asked
+}
+
+export interface PriceOracleProvider {
+  readonly id: PriceProviderId;
+  /**
+   * ETH/USD for a game time
+   */
+  quote(gameTime: Date): Promise<number>;
+}
+
+export class PriceOracleError extends Error {
+  readonly provider: PriceProviderId;
+
+  constructor(provider: PriceProviderId, message: string) {
+    super(`${provider}: ${message}`);
+    this.name = 'PriceOracleError';
+    this.provider = provider;
+  }
+}
+
+/**
+ * Live spot price; the game timeline only decides when it is sampled
+ */
+export class CoinGeckoPriceProvider implements PriceOracleProvider {
+  readonly id = 'coingecko';
+
+  async quote(): Promise<number> {
+    const response = await fetch(`${COINGECKO_CONFIG.baseUrl}/simple/price?ids=ethereum&vs_currencies=usd`);
+    if (!response.ok) {
+      throw new PriceOracleError(this.id, `API error ${response.status}`);
+    }
+    const data = await response.json();
+    const price = data.ethereum?.usd;
+    if (typeof price !== 'number' || price <= 0) {
+      throw new PriceOracleError(this.id, 'response has no ETH price');
+    }
+    return price;
+  }
+}
+
+const AGGREGATOR_ABI = [
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'
+];
+
+/**
+ * Latest answer of a Chainlink ETH/USD aggregator
+ */
+export class ChainlinkPriceProvider implements PriceOracleProvider {
+  readonly id = 'chainlink';
+  private feed: Contract | null = null;
+
+  async quote(): Promise<number> {
+    if (!this.feed) {
+      this.feed = new Contract(CHAINLINK_CONFIG.feedAddress, AGGREGATOR_ABI, new JsonRpcProvider(CHAINLINK_CONFIG.rpcUrl));
+    }
+    const [decimals, round] = await Promise.all([this.feed.decimals(), this.feed.latestRoundData()]);
+    const answer = Number(round.answer) / 10 ** Number(decimals);
+    if (!(answer > 0)) {
+      throw new PriceOracleError(this.id, `aggregator answered ${round.answer}`);
+    }
+    return answer;
+  }
+}
+
+interface ReplaySeries {
+  points: { date: string; ethUsd: number }[];
+}
+
+/**
+ * Replays a recorded series in a loop, interpolating between its points.
+ * Game time maps onto the series by days elapsed, so a year-long file
+ * repeats every game year.
+ */
+export class ReplayPriceProvider implements PriceOracleProvider {
+  readonly id = 'replay';
+  private readonly url: string | undefined;
+  private points: { time: number; ethUsd: number }[] | null = null;
+
+  constructor(url: string | undefined = REPLAY_CONFIG.url) {
+    this.url = url;
+  }
+
+  async quote(gameTime: Date): Promise<number> {
+    const points = await this.load();
+    const first = points[0].time;
+    const span = points[points.length - 1].time - first;
+    const offset = span > 0 ? (((gameTime.getTime() - first) % span) + span) % span : 0;
+    const time = first + offset;
+
+    const nextIndex = points.findIndex(point => point.time > time);
+    if (nextIndex <= 0) return points[Math.max(0, nextIndex)].ethUsd;
+    const before = points[nextIndex - 1];
+    const after = points[nextIndex];
+    return before.ethUsd + (after.ethUsd - before.ethUsd) * (time - before.time) / (after.time - before.time);
+  }
+
+  private async load(): Promise<{ time: number; ethUsd: number }[]> {
+    if (this.points) return this.points;
+
+    let series: ReplaySeries = bundledReplay;
+    if (this.url) {
+      const response = await fetch(this.url);
+      if (!response.ok) {
+        throw new PriceOracleError(this.id, `could not load ${this.url} (${response.status})`);
+      }
+      series = await response.json();
+    }
+    if (!series.points?.length) {
+      throw new PriceOracleError(this.id, 'replay series is empty');
+    }
+
+    this.points = series.points
+      .map(point => ({ time: new Date(point.date).getTime(), ethUsd: point.ethUsd }))
+      .sort((a, b) => a.time - b.time);
+    return this.points;
+  }
+}
+
+/**
+ * Geometric Brownian motion stepped once per game day from a fixed epoch.
+ * Each day's shock is derived from the simulation seed and the day number,
+ * so the price for a day depends only on the two, no matter when, how often
+ * or in what order prices are read.
+ */
+export class RandomWalkPriceProvider implements PriceOracleProvider {
+  readonly id = 'random-walk';
+  // Furthest point walked after the epoch, so reading forward day by day stays cheap
+  private walked: { seed: number; day: number; price: number } | null = null;
+
+  async quote(gameTime: Date): Promise<number> {
+    const seed = getSimulationClock().seed;
+    const epochDay = Math.floor(RANDOM_WALK_CONFIG.epoch.getTime() / GAME_DAY_MS);
+    const targetDay = Math.floor(gameTime.getTime() / GAME_DAY_MS);
+
+    // Days before the epoch undo the steps that lead up to it
+    if (targetDay < epochDay) {
+      let price = RANDOM_WALK_CONFIG.startPrice;
+      for (let day = epochDay; day > targetDay; day--) {
+        price /= this.step(seed, day);
+      }
+      return price;
+    }
+
+    const resume = this.walked?.seed === seed && this.walked.day <= targetDay ? this.walked : null;
+    let day = resume?.day ?? epochDay;
+    let price = resume?.price ?? RANDOM_WALK_CONFIG.startPrice;
+    while (day < targetDay) {
+      day++;
+      price *= this.step(seed, day);
+    }
+    if (!this.walked || this.walked.seed !== seed || day > this.walked.day) {
+      this.walked = { seed, day, price };
+    }
+    return price;
+  }
+
+  // Growth factor from the day before to this one
+  private step(seed: number, day: number): number {
+    const dt = GAME_DAY_MS / GAME_YEAR_MS;
+    const { annualDrift: mu, annualVolatility: sigma } = RANDOM_WALK_CONFIG;
+    return Math.exp((mu - sigma * sigma / 2) * dt + sigma * Math.sqrt(dt) * seededGaussian(seed, day));
+  }
+}
+
+function createProvider(id: PriceProviderId): PriceOracleProvider {
+  switch (id) {
+    case 'chainlink':
+      return new ChainlinkPriceProvider();
+    case 'replay':
+      return new ReplayPriceProvider();
+    case 'random-walk':
+      return new RandomWalkPriceProvider();
+    default:
+      return new CoinGeckoPriceProvider();
+  }
+}
+
+export class PriceOracleService {
+  private static provider: PriceOracleProvider = createProvider(PRICE_ORACLE_CONFIG.provider);
+  private static lastQuote: PriceQuote | null = null;
+  // Concurrent callers in the same bucket share one provider request
+  private static pending = new Map<number, Promise<PriceQuote>>();
+
+  /**
+   * Swap the provider (tests, demos). Quotes already stored for other
+   * providers stay in their own series.
+   */
+  static setProvider(provider: PriceOracleProvider): void {
+    this.provider = provider;
+    this.lastQuote = null;
+    this.pending.clear();
+    console.log(`💱 Price oracle provider set to ${provider.id}`);
+  }
+
+  static getProviderId(): PriceProviderId {
+    return this.provider.id;
+  }
+
+  static bucketOf(gameTime: Date): number {
+    return Math.floor(gameTime.getTime() / PRICE_ORACLE_CONFIG.bucketMs);
+  }
+
+  /**
+   * The quote for a game time (now by default), fetched and stored on first use
+   */
+  static async getQuote(gameTime: Date = getSimulationClock().gameNow()): Promise<PriceQuote> {
+    const bucket = this.bucketOf(gameTime);
+    if (this.lastQuote?.bucket === bucket) return this.lastQuote;
+
+    let request = this.pending.get(bucket);
+    if (!request) {
+      request = this.loadQuote(bucket).finally(() => this.pending.delete(bucket));
+      this.pending.set(bucket, request);
+    }
+    return request;
+  }
+
+  static async getEthUsd(gameTime?: Date): Promise<number> {
+    return (await this.getQuote(gameTime)).ethUsd;
+  }
+
+  /**
+   * Last quote this session has seen, for synchronous callers that cannot
+   * wait (e.g. rendering before prices load)
+   */
+  static lastKnownEthUsd(): number {
+    return this.lastQuote?.ethUsd ?? PRICE_ORACLE_CONFIG.fallbackEthUsd;
+  }
+
+  /**
+   * Stored quotes between two game times, oldest first
+   */
+  static async getHistory(from: Date, to: Date = getSimulationClock().gameNow()): Promise<PriceQuote[]> {
+    return getRepositories().priceHistory.list(this.provider.id, this.bucketOf(from), this.bucketOf(to));
+  }
+
+  private static async loadQuote(bucket: number): Promise<PriceQuote> {
+    const history = getRepositories().priceHistory;
+    const source = this.provider.id;
+
+    const stored = await history.get(source, bucket);
+    if (stored) return this.remember(stored);
+
+    const previous = await history.latestBefore(source, bucket);
+    const gameTime = new Date(bucket * PRICE_ORACLE_CONFIG.bucketMs);
+    let ethUsd: number;
+    try {
+      ethUsd = await this.provider.quote(gameTime);
+    } catch (error) {
+      // Carry the last known price forward rather than invent one
+      const fallback = previous?.ethUsd ?? this.lastQuote?.ethUsd ?? PRICE_ORACLE_CONFIG.fallbackEthUsd;
+      console.warn(`⚠️ ${source} price quote failed, using $${fallback.toFixed(2)}:`, error);
+      return { source, bucket, gameTime, ethUsd: fallback, observedAt: getSimulationClock().now() };
+    }
+
+    const quote: PriceQuote = { source, bucket, gameTime, ethUsd, observedAt: getSimulationClock().now() };
+    await history.save(quote);
+    return this.remember(quote);
+  }
+
+  private static remember(quote: PriceQuote): PriceQuote {
+    if (!this.lastQuote || quote.bucket >= this.lastQuote.bucket) {
+      this.lastQuote = quote;
+    }
+    return quote;
+  }
+}
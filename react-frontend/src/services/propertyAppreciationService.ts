@@ -1,6 +1,6 @@
-import { collection, query, where, getDocs, updateDoc, doc, getDoc } from 'firebase/firestore';
-import { db } from '../firebase/config';
-import { getAppreciationRate, calculateQuarterlyRate } from '../config/appreciationConfig';
+import { getRepositories } from '../repositories';
+import { getAppreciationRate } from '../config/appreciationConfig';
+import { MarketModelService } from './marketModelService';
 
 interface AppreciationRecord {
   propertyId: string;
@@ -44,14 +44,13 @@ export class PropertyAppreciationService {
   // Check if property needs appreciation calculation
   static async needsAppreciationUpdate(propertyId: string, currentGameDate: Date): Promise<boolean> {
     try {
-      const propertyDoc = await getDoc(doc(db, 'properties', propertyId));
+      const data = await getRepositories().appreciation.get(propertyId);
       
-      if (!propertyDoc.exists()) {
+      if (!data) {
         return false;
       }
 
-      const data = propertyDoc.data();
-      const lastCalculated = data.lastAppreciationCalculated?.toDate();
+      const lastCalculated = data.lastAppreciationCalculated;
       
       if (!lastCalculated) {
         return true; // Never calculated before
@@ -70,25 +69,19 @@ export class PropertyAppreciationService {
   // Apply appreciation to a property
   static async applyPropertyAppreciation(propertyId: string, gameDate: Date): Promise<void> {
     try {
-      const propertyDoc = await getDoc(doc(db, 'properties', propertyId));
+      const data = await getRepositories().appreciation.get(propertyId);
       
-      if (!propertyDoc.exists()) {
+      if (!data) {
         console.error(`Property ${propertyId} not found`);
         return;
       }
 
-      const data = propertyDoc.data();
       const currentValue = data.currentValue || data.price;
-      const propertyClass = data.class as 'A' | 'B' | 'C';
-      const lastCalculated = data.lastAppreciationCalculated?.toDate();
+      const marketProperty = { id: propertyId, class: data.class, region: data.region };
+      const lastCalculated = data.lastAppreciationCalculated;
       
-      // Get or set appreciation rate for this property
-      let appreciationRate = data.appreciationRate;
-      if (!appreciationRate) {
-        appreciationRate = this.getPropertyAppreciationRate(propertyClass);
-      }
-
-      const quarterlyRate = calculateQuarterlyRate(appreciationRate);
+      // Long-run rate of the property's market; each quarter's actual move comes from the market model
+      const appreciationRate = MarketModelService.expectedAnnualRate(marketProperty);
       
       // Calculate how many quarters have passed
       let quartersToApply = 1;
@@ -115,16 +108,16 @@ export class PropertyAppreciationService {
       const quarterlyHistory = data.quarterlyAppreciationHistory || [];
       
       for (let i = 0; i < quartersToApply; i++) {
-        const oldValue = newValue;
-        const gain = newValue * quarterlyRate;
-        newValue = oldValue + gain;
-        
         const quarterDate = new Date(gameDate);
         quarterDate.setMonth(quarterDate.getMonth() - (quartersToApply - 1 - i) * 3);
+
+        const quarterlyReturn = MarketModelService.propertyReturn(marketProperty, MarketModelService.quarterOf(quarterDate));
+        const oldValue = newValue;
+        newValue = oldValue * (1 + quarterlyReturn);
         
         const quarterlyGain: QuarterlyGain = {
           quarter: this.getQuarter(quarterDate),
-          gainPercent: quarterlyRate * 100,
+          gainPercent: quarterlyReturn * 100,
           oldValue,
           newValue,
           calculatedAt: new Date(),
@@ -137,7 +130,7 @@ export class PropertyAppreciationService {
       const trimmedHistory = quarterlyHistory.slice(-20);
 
       // Update property with new value and appreciation data
-      await updateDoc(doc(db, 'properties', propertyId), {
+      await getRepositories().appreciation.update(propertyId, {
         currentValue: Number(newValue.toFixed(8)),
         appreciationRate,
         lastAppreciationCalculated: gameDate,
@@ -153,24 +146,53 @@ export class PropertyAppreciationService {
     }
   }
 
+  // Add a completed renovation's value to a property, recorded in its quarterly history. Returns the new value.
+  static async recordImprovement(propertyId: string, gameDate: Date, valueAdded: number): Promise<number> {
+    try {
+      // Bring the market's quarters up to date first so they aren't applied to the improvement twice
+      await this.applyPropertyAppreciation(propertyId, gameDate);
+
+      const data = await getRepositories().appreciation.get(propertyId);
+      if (!data) {
+        throw new Error(`Property ${propertyId} not found`);
+      }
+
+      const oldValue = data.currentValue || data.price;
+      const newValue = oldValue + valueAdded;
+      const quarterlyGain: QuarterlyGain = {
+        quarter: this.getQuarter(gameDate),
+        gainPercent: (valueAdded / oldValue) * 100,
+        oldValue,
+        newValue,
+        calculatedAt: new Date(),
+      };
+
+      await getRepositories().appreciation.update(propertyId, {
+        currentValue: Number(newValue.toFixed(8)),
+        quarterlyAppreciationHistory: [...(data.quarterlyAppreciationHistory || []), quarterlyGain].slice(-20),
+        originalValue: data.originalValue || data.price,
+      });
+
+      console.log(`Recorded improvement to property ${propertyId}: ${oldValue.toFixed(2)} → ${newValue.toFixed(2)}`);
+      return newValue;
+    } catch (error) {
+      console.error('Error recording property improvement:', error);
+      throw error;
+    }
+  }
+
   // Update all user investments with current property values
   static async updateUserInvestmentValues(userId: string): Promise<void> {
     try {
-      const investmentsQuery = query(
-        collection(db, 'investments'),
-        where('userId', '==', userId)
-      );
-      
-      const investmentsSnapshot = await getDocs(investmentsQuery);
+      const { investments, appreciation } = getRepositories();
+      const userInvestments = await investments.listByUser(userId);
       
-      for (const investmentDoc of investmentsSnapshot.docs) {
-        const investmentData = investmentDoc.data();
+      for (const investmentData of userInvestments) {
         const propertyId = investmentData.propertyId;
         
         // Get updated property value
-        const propertyDoc = await getDoc(doc(db, 'properties', propertyId));
-        if (propertyDoc.exists()) {
-          const propertyData = propertyDoc.data();
+        const propertyData = await appreciation.get(propertyId);
+        if (propertyData) {
           const currentPropertyValue = propertyData.currentValue || propertyData.price;
           
           // Calculate user's current value based on their share percentage
@@ -178,7 +200,7 @@ export class PropertyAppreciationService {
           const userCurrentValue = currentPropertyValue * sharePercentage;
           
           // Update investment record
-          await updateDoc(investmentDoc.ref, {
+          await investments.update(userId, investmentData.id!, {
             currentValue: Number(userCurrentValue.toFixed(8)),
             lastUpdated: new Date(),
           });
@@ -193,13 +215,12 @@ export class PropertyAppreciationService {
   // Get appreciation data for a specific property
   static async getPropertyAppreciationData(propertyId: string): Promise<PropertyAppreciationData | null> {
     try {
-      const propertyDoc = await getDoc(doc(db, 'properties', propertyId));
+      const data = await getRepositories().appreciation.get(propertyId);
       
-      if (!propertyDoc.exists()) {
+      if (!data) {
         return null;
       }
 
-      const data = propertyDoc.data();
       const currentValue = data.currentValue || data.price;
       const originalValue = data.originalValue || data.price;
       const quarterlyHistory = data.quarterlyAppreciationHistory || [];
@@ -230,18 +251,12 @@ export class PropertyAppreciationService {
     totalCurrentValue: number;
   }> {
     try {
-      const investmentsQuery = query(
-        collection(db, 'investments'),
-        where('userId', '==', userId)
-      );
-      
-      const investmentsSnapshot = await getDocs(investmentsQuery);
+      const userInvestments = await getRepositories().investments.listByUser(userId);
       
       let totalOriginalValue = 0;
       let totalCurrentValue = 0;
       
-      for (const investmentDoc of investmentsSnapshot.docs) {
-        const data = investmentDoc.data();
+      for (const data of userInvestments) {
         totalOriginalValue += data.purchasePrice;
         totalCurrentValue += data.currentValue || data.purchasePrice;
       }
@@ -270,20 +285,21 @@ export class PropertyAppreciationService {
   static async processAllPropertyAppreciation(gameDate: Date): Promise<number> {
     try {
       console.log('Processing property appreciation for game date:', gameDate);
+
+      try {
+        await MarketModelService.recordThrough(gameDate);
+      } catch (error) {
+        console.error('Error recording market indices:', error);
+      }
       
-      const propertiesQuery = query(
-        collection(db, 'properties'),
-        where('status', '==', 'active')
-      );
-      
-      const propertiesSnapshot = await getDocs(propertiesQuery);
+      const propertyIds = await getRepositories().appreciation.listActive();
       let processedCount = 0;
       
-      for (const propertyDoc of propertiesSnapshot.docs) {
-        const needsUpdate = await this.needsAppreciationUpdate(propertyDoc.id, gameDate);
+      for (const propertyId of propertyIds) {
+        const needsUpdate = await this.needsAppreciationUpdate(propertyId, gameDate);
         
         if (needsUpdate) {
-          await this.applyPropertyAppreciation(propertyDoc.id, gameDate);
+          await this.applyPropertyAppreciation(propertyId, gameDate);
           processedCount++;
         }
       }
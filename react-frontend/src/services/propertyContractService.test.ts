@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { createMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+import { propertyFixture } from '../test/fixtures';
+import { PropertyContractService } from './propertyContractService';
+import { SimulationClock, getSimulationClock, setSimulationClock } from './simulationClock';
+
+describe('PropertyContractService', () => {
+  beforeEach(() => {
+    setRepositories(createMemoryRepositories());
+    setSimulationClock(new SimulationClock({ seed: 4, mode: 'frozen', startTime: new Date('2025-01-01T00:00:00Z') }));
+  });
+
+  it('sets a contract time on properties whose contract time was cleared', async () => {
+    const properties = getRepositories().properties;
+    const clearedId = await properties.create(propertyFixture({ contractTime: null }));
+    const scheduledAt = Timestamp.fromDate(new Date('2026-01-01T00:00:00Z'));
+    const scheduledId = await properties.create(propertyFixture({ contractTime: scheduledAt }));
+
+    await PropertyContractService.initializePropertyContractTimes(getSimulationClock().now());
+
+    expect((await properties.get(clearedId))!.contractTime!.toMillis()).toBeGreaterThan(getSimulationClock().nowMs());
+    expect((await properties.get(scheduledId))!.contractTime).toEqual(scheduledAt);
+  });
+
+  it('replaces a property with a newly generated one', async () => {
+    const properties = getRepositories().properties;
+    const propertyId = await properties.create(propertyFixture());
+    const [replaced] = await properties.list();
+
+    await PropertyContractService.instantlyReplaceProperties([{ docId: propertyId, property: replaced }]);
+
+    const remaining = await properties.list();
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0].id).not.toBe(propertyId);
+  });
+});
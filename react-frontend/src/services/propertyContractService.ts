@@ -1,27 +1,32 @@
-import { doc, updateDoc, collection, query, where, getDocs, serverTimestamp } from 'firebase/firestore';
-import { db } from '../firebase/config';
+import { Timestamp } from 'firebase/firestore';
+import { getRepositories } from '../repositories';
 import type { Property, PropertyClass } from '../types/property';
+import { getSimulationClock, GAME_MONTH_MS } from './simulationClock';
+import { PropertySearchIndex } from './propertySearchIndex';
 
 export interface PropertyContractTiming {
-  minHours: number;
-  maxHours: number;
+  minGameMonths: number;
+  maxGameMonths: number;
   gameYears: string;
 }
 
+// Listing status of the original contract lifecycle, which pool properties no longer use
+const FOR_SALE_STATUS: string = 'for-sale';
+
 export const CONTRACT_TIMINGS: Record<PropertyClass, PropertyContractTiming> = {
   'A': {
-    minHours: 24, // 2 game years
-    maxHours: 36, // 3 game years
+    minGameMonths: 24, // 2 game years
+    maxGameMonths: 36, // 3 game years
     gameYears: '2-3 years'
   },
   'B': {
-    minHours: 12, // 1 game year
-    maxHours: 24, // 2 game years
+    minGameMonths: 12, // 1 game year
+    maxGameMonths: 24, // 2 game years
     gameYears: '1-2 years'
   },
   'C': {
-    minHours: 6,  // 6 game months
-    maxHours: 6,  // 6 game months
+    minGameMonths: 6,  // 6 game months
+    maxGameMonths: 6,  // 6 game months
     gameYears: '6 months'
   }
 };
@@ -34,12 +39,13 @@ export class PropertyContractService {
    */
   static calculateContractTime(property: Property, gameStartTime: Date): Date {
     const timing = CONTRACT_TIMINGS[property.class];
+    const clock = getSimulationClock();
     
-    // Random time between min and max hours
-    const randomHours = Math.random() * (timing.maxHours - timing.minHours) + timing.minHours;
+    // Seeded random time between min and max game months
+    const randomMonths = clock.random() * (timing.maxGameMonths - timing.minGameMonths) + timing.minGameMonths;
     
-    // Convert to milliseconds (real time, not game time)
-    const contractTimeMs = gameStartTime.getTime() + (randomHours * 60 * 60 * 1000);
+    // Convert game months to sim time on the shared clock
+    const contractTimeMs = gameStartTime.getTime() + clock.toRealMs(randomMonths * GAME_MONTH_MS);
     
     return new Date(contractTimeMs);
   }
@@ -51,31 +57,20 @@ export class PropertyContractService {
     try {
       console.log('🏠 Initializing property contract times...');
       
-      // Get all properties without contract times
-      const propertiesQuery = query(
-        collection(db, 'properties'),
-        where('contractTime', '==', null)
-      );
-      
-      const snapshot = await getDocs(propertiesQuery);
-      const updatePromises: Promise<void>[] = [];
-      
-      snapshot.docs.forEach((docSnapshot) => {
-        const property = docSnapshot.data() as Property;
+      // Get all properties whose contract time was cleared
+      const properties = getRepositories().properties;
+      const uninitialized = (await properties.list()).filter(property => property.contractTime === null);
+
+      const updates = uninitialized.map(property => {
         const contractTime = this.calculateContractTime(property, gameStartTime);
         
         console.log(`📅 Property ${property.id} (Class ${property.class}) will go under contract at:`, contractTime);
         
-        updatePromises.push(
-          updateDoc(doc(db, 'properties', docSnapshot.id), {
-            contractTime: contractTime,
-            contractTimeInitialized: serverTimestamp()
-          })
-        );
+        return { id: property.id, changes: { contractTime: Timestamp.fromDate(contractTime) } };
       });
       
-      await Promise.all(updatePromises);
-      console.log(`✅ Initialized contract times for ${updatePromises.length} properties`);
+      await properties.updateMany(updates);
+      console.log(`✅ Initialized contract times for ${updates.length} properties`);
       
     } catch (error) {
       console.error('❌ Error initializing property contract times:', error);
@@ -87,21 +82,17 @@ export class PropertyContractService {
    */
   static async processContractUpdates(currentGameTime: Date): Promise<Property[]> {
     try {
-      const now = new Date();
+      const now = getSimulationClock().now();
       
       // Step 1: Get properties that should transition (contractTime <= now and status still 'for-sale')
-      const contractQuery = query(
-        collection(db, 'properties'),
-        where('status', '==', 'for-sale'),
-        where('contractTime', '<=', now)
+      const dueProperties = (await getRepositories().properties.list()).filter(property =>
+        property.status === FOR_SALE_STATUS && property.contractTime && property.contractTime.toMillis() <= now.getTime()
       );
-      
-      const contractSnapshot = await getDocs(contractQuery);
+
       // Instead of setting status to pending/sold, we'll delete old properties and create new ones instantly
-      const propertiesToReplace = contractSnapshot.docs.map(docSnapshot => {
-        const property = docSnapshot.data() as Property;
+      const propertiesToReplace = dueProperties.map(property => {
         console.log(`🔄 Property ${property.id} (Class ${property.class} - ${property.title || property.address}) reached end of lifecycle - replacing instantly`);
-        return { docId: docSnapshot.id, property };
+        return { docId: property.id, property };
       });
       
       if (propertiesToReplace.length > 0) {
@@ -121,31 +112,34 @@ export class PropertyContractService {
   /**
    * Instantly replace properties that have reached end of lifecycle
    */
-  static async instantlyReplaceProperties(propertiesToReplace: { docId: string; property: any }[]): Promise<void> {
+  static async instantlyReplaceProperties(propertiesToReplace: { docId: string; property: Property }[]): Promise<void> {
     try {
       console.log(`🔄 Instantly replacing ${propertiesToReplace.length} properties...`);
       
-      // Import the property generator and Firebase functions
+      // Import the property generator
       const { generateProperty } = await import('../utils/propertyGenerator');
-      const { deleteDoc, addDoc, collection } = await import('firebase/firestore');
       
-      const replacementPromises: Promise<any>[] = [];
+      const properties = getRepositories().properties;
+      const replacementPromises: Promise<void>[] = [];
+      const searchIndex = PropertySearchIndex.forPool(PropertySearchIndex.SHARED_POOL);
       
       // For each property to replace, delete the old one and create a new one
       propertiesToReplace.forEach(({ docId, property }) => {
         console.log(`🗑️ Deleting old property: ${property.address} (Class ${property.class})`);
         
         // Delete the old property
-        replacementPromises.push(deleteDoc(doc(db, 'properties', docId)));
+        replacementPromises.push(properties.delete(docId));
         
         // Generate and add a new property
-        const newProperty = generateProperty();
-        console.log(`✨ Creating new property: ${newProperty.address} (Class ${newProperty.class})`);
-        
-        replacementPromises.push(addDoc(collection(db, 'properties'), newProperty));
+        replacementPromises.push(generateProperty().then(async newProperty => {
+          console.log(`✨ Creating new property: ${newProperty.address} (Class ${newProperty.class})`);
+          const id = await properties.create(newProperty);
+          searchIndex.upsert({ ...newProperty, id });
+        }));
       });
       
       await Promise.all(replacementPromises);
+      searchIndex.remove(propertiesToReplace.map(({ docId }) => docId));
       console.log(`✅ Successfully replaced ${propertiesToReplace.length} properties instantly`);
       
     } catch (error) {
@@ -162,17 +156,14 @@ export class PropertyContractService {
       
       // Import the property generator
       const { generateProperty } = await import('../utils/propertyGenerator');
-      const { addDoc, collection } = await import('firebase/firestore');
       
-      const newPropertyPromises: Promise<any>[] = [];
+      const newPropertyPromises: Promise<string>[] = [];
       
       for (let i = 0; i < count; i++) {
-        const newProperty = generateProperty();
-        console.log(`📦 Generated replacement property: ${newProperty.address} (Class ${newProperty.class})`);
-        
-        newPropertyPromises.push(
-          addDoc(collection(db, 'properties'), newProperty)
-        );
+        newPropertyPromises.push(generateProperty().then(newProperty => {
+          console.log(`📦 Generated replacement property: ${newProperty.address} (Class ${newProperty.class})`);
+          return getRepositories().properties.create(newProperty);
+        }));
       }
       
       await Promise.all(newPropertyPromises);
@@ -195,7 +186,7 @@ export class PropertyContractService {
    * Calculate time remaining until contract (for display)
    */
   static getTimeUntilContract(contractTime: Date): string {
-    const now = new Date();
+    const now = getSimulationClock().now();
     const msRemaining = contractTime.getTime() - now.getTime();
     
     if (msRemaining <= 0) {
@@ -216,7 +207,7 @@ export class PropertyContractService {
    * Calculate time remaining in pending period (for display)
    */
   static getPendingTimeRemaining(pendingStartTime: Date): string {
-    const now = new Date();
+    const now = getSimulationClock().now();
     const pendingStartMs = pendingStartTime.getTime();
     const tenMinutesMs = 10 * 60 * 1000;
     const completionTime = pendingStartMs + tenMinutesMs;
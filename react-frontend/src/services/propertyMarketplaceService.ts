@@ -1,17 +1,12 @@
-import { 
-  collection, 
-  query, 
-  where, 
-  getDocs, 
-  doc, 
-  getDoc, 
-  addDoc, 
-  updateDoc, 
-  orderBy, 
-  limit, 
-  Timestamp 
-} from 'firebase/firestore';
-import { db } from '../firebase/config';
+import { Timestamp } from 'firebase/firestore';
+import { getRepositories } from '../repositories';
+import type { Property, PropertyRegion, PropertyStatus } from '../types/property';
+import { FeeService, type FeeBreakdown } from './feeService';
+import { PriceOracleService } from './priceOracleService';
+import { PropertySearchIndex, type PropertySearchFacets } from './propertySearchIndex';
+import type { YieldBucketId } from '../config/searchConfig';
+
+type MarketplaceRegion = 'midwest' | 'southwest' | 'southeast' | 'northwest' | 'anywhere';
 
 interface MarketplaceProperty {
   id: string;
@@ -19,15 +14,17 @@ interface MarketplaceProperty {
   address: string;
   city: string;
   state: string;
-  region: 'midwest' | 'southwest' | 'southeast' | 'anywhere';
+  region: MarketplaceRegion;
   price: number;
   currentValue: number;
   sqft: number;
   bedrooms: number;
   bathrooms: number;
   yearBuilt: number;
-  rentalYield: number;
+  rentalYield: number; // Percent (e.g., 8 for 8%)
   imageUrl: string;
+  description?: string;
+  amenities?: string[];
   status: 'available' | 'ending_soon' | 'sold_out';
   createdAt: Date;
   selloutTime: Date;
@@ -38,8 +35,10 @@ interface MarketplaceProperty {
 }
 
 interface PropertyFilter {
+  search?: string; // Address, city, state, description and amenities, typos allowed
   class?: 'A' | 'B' | 'C' | 'all';
-  region?: 'midwest' | 'southwest' | 'southeast' | 'anywhere' | 'all';
+  region?: MarketplaceRegion | 'all';
+  yieldBucket?: YieldBucketId | 'all';
   priceRange?: {
     min: number;
     max: number;
@@ -47,7 +46,12 @@ interface PropertyFilter {
   affordableOnly?: boolean;
   userEthBalance?: number;
   timeRemaining?: 'ending_soon' | 'all';
-  sortBy?: 'price' | 'yield' | 'timeRemaining' | 'newest';
+  sortBy?: 'relevance' | 'price' | 'yield' | 'timeRemaining' | 'newest'; // Relevance needs a search, else newest
+}
+
+interface MarketplaceSearchResult {
+  properties: MarketplaceProperty[];
+  facets: PropertySearchFacets; // Counts by class, region, state and yield bucket
 }
 
 interface InvestmentCalculation {
@@ -61,10 +65,27 @@ interface InvestmentCalculation {
   monthlyRentalProjection: number;
   annualRentalProjection: number;
   gasFeesEth: number;
+  feeBreakdown: FeeBreakdown; // Network and acquisition fees charged on top of the cost
   totalCostWithGas: number;
   canAfford: boolean;
 }
 
+const MARKETPLACE_REGIONS: Record<PropertyRegion, MarketplaceRegion> = {
+  Midwest: 'midwest',
+  Southwest: 'southwest',
+  Southeast: 'southeast',
+  Northwest: 'northwest',
+  Anywhere: 'anywhere',
+};
+
+// Disposed properties have no shares left to buy
+const MARKETPLACE_STATUSES: Record<PropertyStatus, MarketplaceProperty['status']> = {
+  available: 'available',
+  ending_soon: 'ending_soon',
+  sold_out: 'sold_out',
+  disposed: 'sold_out',
+};
+
 export class PropertyMarketplaceService {
   
   // Get all available properties for marketplace
@@ -73,37 +94,14 @@ export class PropertyMarketplaceService {
       console.log('Fetching available properties with filters:', filters);
       
       // Base query for available properties
-      let q = query(
-        collection(db, 'properties'),
-        where('status', 'in', ['available', 'ending_soon'])
-      );
-      
-      // Apply class filter
-      if (filters?.class && filters.class !== 'all') {
-        q = query(q, where('class', '==', filters.class));
-      }
-      
-      // Apply region filter
-      if (filters?.region && filters.region !== 'all') {
-        q = query(q, where('region', '==', filters.region));
-      }
-      
-      const snapshot = await getDocs(q);
-      let properties = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt.toDate(),
-          selloutTime: data.selloutTime.toDate(),
-          pricePerShare: data.currentValue / 100,
-          minimumInvestment: data.currentValue / 100, // 1 share minimum
-        };
-      }) as MarketplaceProperty[];
+      const available = await getRepositories().properties.list({
+        filters: { status: ['available', 'ending_soon'] },
+      });
+      let properties = available.map(property => this.toMarketplaceProperty(property));
       
-      // Apply client-side filters
+      // Class, region and the rest are applied client-side
       if (filters) {
-        properties = this.applyClientFilters(properties, filters);
+        properties = this.searchProperties(properties, filters).properties;
       }
       
       console.log(`Found ${properties.length} properties matching filters`);
@@ -115,16 +113,19 @@ export class PropertyMarketplaceService {
     }
   }
   
-  // Apply filters that can't be done in Firestore query
-  private static applyClientFilters(
+  // Filter, search and sort properties already fetched, through the shared pool's search index
+  static searchProperties(
     properties: MarketplaceProperty[], 
     filters: PropertyFilter
-  ): MarketplaceProperty[] {
-    let filtered = [...properties];
+  ): MarketplaceSearchResult {
+    const searchIndex = PropertySearchIndex.forPool(PropertySearchIndex.SHARED_POOL);
+    searchIndex.upsertAll(properties.map(property => ({ ...property, rentalYield: property.rentalYield / 100 }))); // Buckets are decimal
+
+    let candidates = [...properties];
     
     // Price range filter
     if (filters.priceRange) {
-      filtered = filtered.filter(p => 
+      candidates = candidates.filter(p => 
         p.currentValue >= filters.priceRange!.min && 
         p.currentValue <= filters.priceRange!.max
       );
@@ -132,7 +133,7 @@ export class PropertyMarketplaceService {
     
     // Affordability filter
     if (filters.affordableOnly && filters.userEthBalance) {
-      filtered = filtered.filter(p => 
+      candidates = candidates.filter(p => 
         p.pricePerShare <= filters.userEthBalance!
       );
     }
@@ -140,11 +141,28 @@ export class PropertyMarketplaceService {
     // Time remaining filter
     if (filters.timeRemaining === 'ending_soon') {
       const oneHourFromNow = new Date(Date.now() + 60 * 60 * 1000);
-      filtered = filtered.filter(p => p.selloutTime <= oneHourFromNow);
+      candidates = candidates.filter(p => p.selloutTime <= oneHourFromNow);
     }
+
+    // Search text and facets (class, region, yield) go through the index
+    const { hits, facets } = searchIndex.search({
+      text: filters.search,
+      filters: {
+        class: filters.class && filters.class !== 'all' ? [filters.class] : undefined,
+        region: filters.region && filters.region !== 'all' ? [filters.region] : undefined,
+        yield: filters.yieldBucket && filters.yieldBucket !== 'all' ? [filters.yieldBucket] : undefined,
+      },
+      candidates: new Set(candidates.map(p => p.id)),
+    });
+    const filtered = PropertySearchIndex.order(candidates, hits);
     
     // Sort properties
     switch (filters.sortBy) {
+      case 'relevance':
+        if (!filters.search?.trim()) {
+          filtered.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+        }
+        break;
       case 'price':
         filtered.sort((a, b) => a.currentValue - b.currentValue);
         break;
@@ -162,27 +180,14 @@ export class PropertyMarketplaceService {
         filtered.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
     }
     
-    return filtered;
+    return { properties: filtered, facets };
   }
   
   // Get detailed property information
   static async getPropertyDetails(propertyId: string): Promise<MarketplaceProperty | null> {
     try {
-      const propertyDoc = await getDoc(doc(db, 'properties', propertyId));
-      
-      if (propertyDoc.exists()) {
-        const data = propertyDoc.data();
-        return {
-          id: propertyDoc.id,
-          ...data,
-          createdAt: data.createdAt.toDate(),
-          selloutTime: data.selloutTime.toDate(),
-          pricePerShare: data.currentValue / 100,
-          minimumInvestment: data.currentValue / 100,
-        } as MarketplaceProperty;
-      }
-      
-      return null;
+      const property = await getRepositories().properties.get(propertyId);
+      return property ? this.toMarketplaceProperty(property) : null;
     } catch (error) {
       console.error('Error fetching property details:', error);
       return null;
@@ -211,9 +216,11 @@ export class PropertyMarketplaceService {
     const userMonthlyRental = monthlyRental * ownershipPercentage;
     const userAnnualRental = userMonthlyRental * 12;
     
-    // Estimate gas fees (simplified)
-    const gasFeesEth = 0.002; // Approximate gas cost for property investment
-    const totalCostWithGas = totalCost + gasFeesEth;
+    // Fees the purchase will be charged, in ETH
+    const ethPrice = PriceOracleService.lastKnownEthUsd();
+    const feeBreakdown = FeeService.quote('purchase', { amountUsd: totalCost * ethPrice, ethPrice });
+    const gasFeesEth = feeBreakdown.gas.feeEth;
+    const totalCostWithGas = totalCost + feeBreakdown.totalEth;
     
     return {
       propertyId: property.id,
@@ -226,6 +233,7 @@ export class PropertyMarketplaceService {
       monthlyRentalProjection: userMonthlyRental,
       annualRentalProjection: userAnnualRental,
       gasFeesEth,
+      feeBreakdown,
       totalCostWithGas,
       canAfford: totalCostWithGas <= userEthBalance,
     };
@@ -272,20 +280,20 @@ export class PropertyMarketplaceService {
     try {
       console.log('Creating sample marketplace properties...');
       
-      const sampleProperties = [
+      const sampleProperties: Omit<Property, 'id' | 'createdAt' | 'selloutTime' | 'mockInvestors'>[] = [
         {
           class: 'C',
           address: '789 Pine Street',
           city: 'Cleveland',
           state: 'OH',
-          region: 'midwest',
+          region: 'Midwest',
           price: 120000,
           currentValue: 125000,
           sqft: 1100,
           bedrooms: 2,
           bathrooms: 1,
           yearBuilt: 2005,
-          rentalYield: 14.2,
+          rentalYield: 0.142,
           imageUrl: '/property-images/class-c/midwest/sample2.jpg',
           status: 'available',
           sharesSold: 0,
@@ -296,14 +304,14 @@ export class PropertyMarketplaceService {
           address: '321 Desert View Drive',
           city: 'Phoenix',
           state: 'AZ',
-          region: 'southwest',
+          region: 'Southwest',
           price: 650000,
           currentValue: 675000,
           sqft: 2200,
           bedrooms: 4,
           bathrooms: 3,
           yearBuilt: 2019,
-          rentalYield: 7.8,
+          rentalYield: 0.078,
           imageUrl: '/property-images/class-b/southwest/sample2.jpg',
           status: 'available',
           sharesSold: 0,
@@ -314,14 +322,14 @@ export class PropertyMarketplaceService {
           address: '555 Luxury Lane',
           city: 'Miami',
           state: 'FL',
-          region: 'southeast',
+          region: 'Southeast',
           price: 2400000,
           currentValue: 2450000,
           sqft: 4500,
           bedrooms: 5,
           bathrooms: 4,
           yearBuilt: 2021,
-          rentalYield: 5.2,
+          rentalYield: 0.052,
           imageUrl: '/property-images/class-a/southeast/sample1.jpg',
           status: 'available',
           sharesSold: 0,
@@ -332,14 +340,14 @@ export class PropertyMarketplaceService {
           address: '888 Budget Boulevard',
           city: 'Detroit',
           state: 'MI',
-          region: 'midwest',
+          region: 'Midwest',
           price: 95000,
           currentValue: 98000,
           sqft: 950,
           bedrooms: 2,
           bathrooms: 1,
           yearBuilt: 1995,
-          rentalYield: 15.8,
+          rentalYield: 0.158,
           imageUrl: '/property-images/class-c/midwest/sample3.jpg',
           status: 'ending_soon',
           sharesSold: 73,
@@ -347,12 +355,13 @@ export class PropertyMarketplaceService {
         },
       ];
       
-      // Add properties to Firestore
+      // Add properties to the shared pool
       for (const property of sampleProperties) {
-        await addDoc(collection(db, 'properties'), {
+        await getRepositories().properties.create({
           ...property,
-          createdAt: new Date(),
-          selloutTime: new Date(Date.now() + Math.random() * 2 * 60 * 60 * 1000), // 0-2 hours
+          createdAt: Timestamp.now(),
+          selloutTime: Timestamp.fromDate(new Date(Date.now() + Math.random() * 2 * 60 * 60 * 1000)), // 0-2 hours
+          mockInvestors: [],
         });
       }
       
@@ -362,6 +371,34 @@ export class PropertyMarketplaceService {
       throw error;
     }
   }
+
+  private static toMarketplaceProperty(property: Property): MarketplaceProperty {
+    return {
+      id: property.id,
+      class: property.class,
+      address: property.address,
+      city: property.city,
+      state: property.state,
+      region: MARKETPLACE_REGIONS[property.region],
+      price: property.price,
+      currentValue: property.currentValue,
+      sqft: property.sqft,
+      bedrooms: property.bedrooms,
+      bathrooms: property.bathrooms,
+      yearBuilt: property.yearBuilt,
+      rentalYield: property.rentalYield * 100,
+      imageUrl: property.imageUrl,
+      description: property.description,
+      amenities: property.amenities,
+      status: MARKETPLACE_STATUSES[property.status],
+      createdAt: property.createdAt.toDate(),
+      selloutTime: property.selloutTime.toDate(),
+      sharesSold: property.sharesSold ?? 0,
+      totalShares: property.totalShares ?? 100,
+      pricePerShare: property.currentValue / 100,
+      minimumInvestment: property.currentValue / 100, // 1 share minimum
+    };
+  }
 }
 
-export type { MarketplaceProperty, PropertyFilter, InvestmentCalculation };
\ No newline at end of file
+export type { MarketplaceProperty, PropertyFilter, MarketplaceSearchResult, InvestmentCalculation };
\ No newline at end of file
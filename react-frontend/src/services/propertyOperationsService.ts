@@ -0,0 +1,255 @@
+import { AGING_CONFIG, OPERATIONS_CONFIG, REPAIR_EVENTS } from '../config/operationsConfig';
+import { RENOVATION_CONFIG } from '../config/renovationConfig';
+import type { PropertyClass, PropertyImprovement, PropertyManager } from '../types/property';
+import { hashString, seededUniform } from '../utils/seededRandom';
+import { GAME_MONTH_MS, getSimulationClock } from './simulationClock';
+
+/**
+ * Month-by-month operations of a rental property: leases, tenant turnover,
+ * vacancy and the costs of running it.
+ *
+ * Leases run in fixed cycles offset per property. At the end of each lease
+ * the tenant may leave, leaving the unit empty for a few months and costing
+ * a turnover fee. Repairs strike at random, more often in older buildings.
+ * A share of collected rent goes into a capital reserve for renovations.
+ * Every draw comes from the simulation seed and the property id, so any
+ * game month's figures are the same however often they are computed.
+ */
+
+export type OperatingExpenseKind = 'management' | 'propertyTax' | 'insurance' | 'maintenance' | 'turnover' | 'repairs' | 'reserve';
+
+export type OperatingExpenses = Record<OperatingExpenseKind, number>;
+
+export interface OperatingProperty {
+  id: string;
+  class: PropertyClass;
+  yearBuilt?: number;
+  value: number; // USD
+  rentalYield: number; // Gross yield as a decimal, before any improvements
+  manager?: PropertyManager;
+  improvements?: PropertyImprovement[];
+}
+
+export interface OperatingMonth {
+  month: number; // Game month number since the epoch
+  start: Date; // Game time the month starts
+  occupied: boolean;
+  grossPotentialRent: number;
+  vacancyLoss: number;
+  effectiveRent: number;
+  expenses: OperatingExpenses;
+  totalExpenses: number;
+  netOperatingIncome: number;
+  events: string[];
+}
+
+export interface IncomeStatement {
+  from: Date;
+  to: Date;
+  months: OperatingMonth[];
+  grossPotentialRent: number;
+  vacancyLoss: number;
+  effectiveRent: number;
+  expenses: OperatingExpenses;
+  totalExpenses: number;
+  netOperatingIncome: number;
+  occupancyRate: number;
+}
+
+export const OPERATING_EXPENSE_LABELS: Record<OperatingExpenseKind, string> = {
+  management: 'Property management',
+  propertyTax: 'Property taxes',
+  insurance: 'Insurance',
+  maintenance: 'Maintenance',
+  turnover: 'Tenant turnover',
+  repairs: 'Repairs',
+  reserve: 'Capital reserve',
+};
+
+// Keep each process's draws independent of other seeded processes
+const LEASE_STREAM = 0x5bd1e995;
+const VACANCY_STREAM = 0x68e31da4;
+const REPAIR_STREAM = 0x3c6ef372;
+const REPAIR_COST_STREAM = 0x1fb6c2a5;
+
+const emptyExpenses = (): OperatingExpenses => ({
+  management: 0,
+  propertyTax: 0,
+  insurance: 0,
+  maintenance: 0,
+  turnover: 0,
+  repairs: 0,
+  reserve: 0,
+});
+
+const sumExpenses = (expenses: OperatingExpenses): number =>
+  Object.values(expenses).reduce((sum, amount) => sum + amount, 0);
+
+export class PropertyOperationsService {
+  static monthOf(gameTime: Date): number {
+    return Math.floor(gameTime.getTime() / GAME_MONTH_MS);
+  }
+
+  /**
+   * Maintenance and repair multiplier for a building's age in a given year
+   */
+  static ageFactor(yearBuilt: number | undefined, year: number): number {
+    if (!yearBuilt) return 1;
+    const { newBuildingYears, increasePerDecade, maxFactor } = AGING_CONFIG;
+    const age = Math.max(0, year - yearBuilt - newBuildingYears);
+    return Math.min(maxFactor, 1 + increasePerDecade * (age / 10));
+  }
+
+  /**
+   * Gross yield in a game month: that of the latest improvement in effect,
+   * or the yield before the first one
+   */
+  static rentalYieldIn(property: Pick<OperatingProperty, 'rentalYield' | 'improvements'>, month: number): number {
+    const improvements = property.improvements ?? [];
+    const applied = improvements.filter(improvement => improvement.fromMonth <= month);
+    if (applied.length > 0) return applied[applied.length - 1].rentalYield;
+    return improvements[0]?.rentalYieldBefore ?? property.rentalYield;
+  }
+
+  /**
+   * Operating figures for one game month of the whole property
+   */
+  static operatingMonth(property: OperatingProperty, month: number): OperatingMonth {
+    const config = OPERATIONS_CONFIG[property.class];
+    const stream = getSimulationClock().seed ^ hashString(property.id);
+    const start = new Date(month * GAME_MONTH_MS);
+    // A renewed building wears like one built the year it was renewed
+    const renewal = (property.improvements ?? [])
+      .filter(improvement => improvement.renewsBuilding && improvement.fromMonth <= month)
+      .pop();
+    const effectiveYearBuilt = renewal
+      ? Math.max(property.yearBuilt ?? 0, new Date(renewal.fromMonth * GAME_MONTH_MS).getFullYear())
+      : property.yearBuilt;
+    const ageFactor = this.ageFactor(effectiveYearBuilt, start.getFullYear());
+    const managementRate = property.manager && month >= property.manager.fromMonth
+      ? property.manager.managementRate
+      : config.managementRate;
+    const grossPotentialRent = (property.value * this.rentalYieldIn(property, month)) / 12;
+    const events: string[] = [];
+
+    // Position in the current lease cycle, offset per property so leases don't all end together
+    const cycleMonth = month + (hashString(property.id) % config.leaseMonths);
+    const cycle = Math.floor(cycleMonth / config.leaseMonths);
+    const position = cycleMonth - cycle * config.leaseMonths;
+    const turnedOver = seededUniform(stream ^ LEASE_STREAM, cycle) < config.turnoverProbability;
+    const { min, max } = config.vacancyMonths;
+    const vacantMonths = turnedOver ? min + Math.floor(seededUniform(stream ^ VACANCY_STREAM, cycle) * (max - min + 1)) : 0;
+    const occupied = position >= vacantMonths;
+
+    const expenses = emptyExpenses();
+    if (turnedOver && position === 0) {
+      expenses.turnover = grossPotentialRent * config.turnoverCostMonths;
+      events.push('Tenant moved out');
+    }
+    if (turnedOver && position === vacantMonths && vacantMonths < config.leaseMonths) {
+      events.push('New lease signed');
+    }
+
+    (property.improvements ?? [])
+      .filter(improvement => improvement.fromMonth === month)
+      .forEach(improvement => events.push(`${improvement.label} completed`));
+
+    const vacancyLoss = occupied ? 0 : grossPotentialRent;
+    const effectiveRent = grossPotentialRent - vacancyLoss;
+
+    expenses.management = effectiveRent * managementRate;
+    expenses.reserve = effectiveRent * RENOVATION_CONFIG.reserveRate;
+    expenses.propertyTax = (property.value * config.propertyTaxRate) / 12;
+    expenses.insurance = (property.value * config.insuranceRate) / 12;
+    expenses.maintenance = (property.value * config.maintenanceRate * ageFactor) / 12;
+
+    if (seededUniform(stream ^ REPAIR_STREAM, month) < config.repairProbability * ageFactor) {
+      // Between half and twice a typical repair
+      const severity = 0.5 + 1.5 * seededUniform(stream ^ REPAIR_COST_STREAM, month);
+      expenses.repairs = property.value * config.repairCostRate * severity;
+      events.push(REPAIR_EVENTS[Math.floor(seededUniform(stream ^ REPAIR_COST_STREAM, month + 1) * REPAIR_EVENTS.length)]);
+    }
+
+    const totalExpenses = sumExpenses(expenses);
+    return {
+      month,
+      start,
+      occupied,
+      grossPotentialRent,
+      vacancyLoss,
+      effectiveRent,
+      expenses,
+      totalExpenses,
+      netOperatingIncome: effectiveRent - totalExpenses,
+      events,
+    };
+  }
+
+  /**
+   * Net operating income (USD) of the whole property over `months` game
+   * months from a game time; a partial last month counts pro rata
+   */
+  static netOperatingIncome(property: OperatingProperty, fromGameTime: Date, months: number): number {
+    let total = 0;
+    for (let elapsed = 0; elapsed < months; elapsed++) {
+      const month = this.monthOf(new Date(fromGameTime.getTime() + elapsed * GAME_MONTH_MS));
+      total += this.operatingMonth(property, month).netOperatingIncome * Math.min(1, months - elapsed);
+    }
+    return total;
+  }
+
+  /**
+   * Figures for the game months from `fromGameTime` up to, not including, the month of `toGameTime`
+   */
+  static incomeStatement(property: OperatingProperty, fromGameTime: Date, toGameTime: Date): IncomeStatement {
+    const months: OperatingMonth[] = [];
+    for (let month = this.monthOf(fromGameTime); month < this.monthOf(toGameTime); month++) {
+      months.push(this.operatingMonth(property, month));
+    }
+
+    const expenses = emptyExpenses();
+    months.forEach(operatingMonth => {
+      (Object.keys(expenses) as OperatingExpenseKind[]).forEach(kind => {
+        expenses[kind] += operatingMonth.expenses[kind];
+      });
+    });
+    const grossPotentialRent = months.reduce((sum, operatingMonth) => sum + operatingMonth.grossPotentialRent, 0);
+    const vacancyLoss = months.reduce((sum, operatingMonth) => sum + operatingMonth.vacancyLoss, 0);
+    const totalExpenses = sumExpenses(expenses);
+
+    return {
+      from: fromGameTime,
+      to: toGameTime,
+      months,
+      grossPotentialRent,
+      vacancyLoss,
+      effectiveRent: grossPotentialRent - vacancyLoss,
+      expenses,
+      totalExpenses,
+      netOperatingIncome: grossPotentialRent - vacancyLoss - totalExpenses,
+      occupancyRate: months.length > 0 ? months.filter(operatingMonth => operatingMonth.occupied).length / months.length : 1,
+    };
+  }
+
+  /**
+   * Expected share of gross rent left as net operating income, for
+   * projections before any month has been simulated
+   */
+  static expectedNetRatio(property: Pick<OperatingProperty, 'class' | 'yearBuilt' | 'rentalYield'>, year: number = getSimulationClock().gameNow().getFullYear()): number {
+    const config = OPERATIONS_CONFIG[property.class];
+    if (!property.rentalYield) return 0;
+
+    const ageFactor = this.ageFactor(property.yearBuilt, year);
+    const { min, max } = config.vacancyMonths;
+    const vacancyRate = (config.turnoverProbability * (min + max) / 2) / config.leaseMonths;
+    const occupiedShare = 1 - vacancyRate;
+
+    // Costs per unit of gross rent; value-based rates are divided by the yield
+    const turnover = (config.turnoverProbability * config.turnoverCostMonths) / config.leaseMonths;
+    const management = occupiedShare * (config.managementRate + RENOVATION_CONFIG.reserveRate);
+    const valueBased = (config.propertyTaxRate + config.insuranceRate + config.maintenanceRate * ageFactor
+      + 12 * config.repairProbability * ageFactor * config.repairCostRate * 1.25) / property.rentalYield;
+
+    return occupiedShare - turnover - management - valueBased;
+  }
+}
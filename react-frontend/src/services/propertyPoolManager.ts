@@ -2,6 +2,7 @@ import { propertyService, propertyPoolService } from './firebaseService';
 import { generateProperty, generatePropertyBatch, validateClassDistribution } from '../utils/propertyGenerator';
 import { Property, PropertyStatus } from '../types/property';
 import { Timestamp } from 'firebase/firestore';
+import { PropertySearchIndex } from './propertySearchIndex';
 
 export class PropertyPoolManager {
   private static instance: PropertyPoolManager;
@@ -233,6 +234,8 @@ export class PropertyPoolManager {
       if (properties.length > 0) {
         const propertyIds = await propertyService.createPropertiesBatch(properties);
         console.log(`Successfully created ${propertyIds.length} properties`);
+        PropertySearchIndex.forPool(PropertySearchIndex.SHARED_POOL)
+          .upsertAll(properties.map((property, index) => ({ ...property, id: propertyIds[index] })));
       }
     } catch (error) {
       console.error('Failed to generate property batch:', error);
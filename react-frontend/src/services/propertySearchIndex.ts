@@ -0,0 +1,336 @@
+// Property Search Index - local full-text and faceted search over a property pool
+// Each pool (the shared marketplace, or one user's pool) has its own index,
+// kept current by the pool managers as they add and retire properties and by
+// the lists that read the pool. Text queries match words in the address,
+// city, state, description and amenities, tolerating typos and unfinished
+// words, and rank by how well and where each word matched. Facet counts for
+// class, region, state and yield bucket come back with every search.
+
+import {
+  SEARCH_CONFIG,
+  SEARCH_FIELD_WEIGHTS,
+  YIELD_BUCKETS,
+  type SearchField,
+  type YieldBucketId
+} from '../config/searchConfig';
+
+/**
+ * What the index reads from a property; both the pool's properties and the
+ * marketplace's listings fit
+ */
+interface SearchableProperty {
+  id: string;
+  class: string;
+  region: string;
+  state: string;
+  rentalYield: number;
+  address: string;
+  city: string;
+  description?: string;
+  amenities?: string[];
+}
+
+interface PropertySearchFilters {
+  class?: string[];
+  region?: string[]; // Lower case
+  state?: string[];
+  yield?: YieldBucketId[];
+}
+
+interface PropertySearchQuery {
+  text?: string;
+  filters?: PropertySearchFilters;
+  candidates?: Set<string>; // Only these ids, e.g. those passing the caller's other filters
+}
+
+interface PropertySearchHit {
+  id: string;
+  score: number; // 0 without a text query
+}
+
+type FacetCounts = Record<string, number>;
+
+/**
+ * Each facet's counts apply every filter but its own, so picking a class
+ * still shows how many results the other classes would give
+ */
+interface PropertySearchFacets {
+  class: FacetCounts;
+  region: FacetCounts;
+  state: FacetCounts;
+  yield: Record<YieldBucketId, number>;
+}
+
+interface PropertySearchResult {
+  hits: PropertySearchHit[]; // Best match first; index order without a text query
+  facets: PropertySearchFacets;
+}
+
+interface IndexedProperty {
+  id: string;
+  class: string;
+  region: string;
+  state: string;
+  yieldBucket: YieldBucketId;
+  fingerprint: string;
+  terms: Map<string, number>; // Word to the weight of the heaviest field it appears in
+}
+
+type FacetName = keyof PropertySearchFilters;
+
+const FACETS: FacetName[] = ['class', 'region', 'state', 'yield'];
+
+function tokenize(text: string | undefined): string[] {
+  return (text ?? '').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// Optimal string alignment distance, giving up past `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const twoBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], twoBack[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+function yieldBucketOf(rentalYield: number): YieldBucketId {
+  return (YIELD_BUCKETS.find(bucket => rentalYield >= bucket.min && rentalYield < bucket.max) ?? YIELD_BUCKETS[0]).id;
+}
+
+function emptyFacets(): PropertySearchFacets {
+  return {
+    class: {},
+    region: {},
+    state: {},
+    yield: Object.fromEntries(YIELD_BUCKETS.map(bucket => [bucket.id, 0])) as Record<YieldBucketId, number>,
+  };
+}
+
+export class PropertySearchIndex {
+  private static instances = new Map<string, PropertySearchIndex>();
+
+  // Pools are named after the collection they live in
+  static readonly SHARED_POOL = 'properties';
+
+  static userPool(userId: string): string {
+    return `users/${userId}/properties`;
+  }
+
+  static forPool(poolId: string): PropertySearchIndex {
+    if (!this.instances.has(poolId)) {
+      this.instances.set(poolId, new PropertySearchIndex());
+    }
+    return this.instances.get(poolId)!;
+  }
+
+  static yieldBucketOf(rentalYield: number): YieldBucketId {
+    return yieldBucketOf(rentalYield);
+  }
+
+  /**
+   * Whether a property matches a text query the way an index search would
+   */
+  static matchesText(property: SearchableProperty, text: string): boolean {
+    if (tokenize(text).length === 0) return true;
+    const index = new PropertySearchIndex();
+    index.upsert(property);
+    return index.search({ text }).hits.length > 0;
+  }
+
+  /**
+   * Put the items in the order of the hits, leaving out any that didn't match
+   */
+  static order<T extends { id: string }>(items: T[], hits: PropertySearchHit[]): T[] {
+    const byId = new Map(items.map(item => [item.id, item]));
+    return hits.map(hit => byId.get(hit.id)).filter((item): item is T => item !== undefined);
+  }
+
+  private documents = new Map<string, IndexedProperty>();
+  private postings = new Map<string, Map<string, number>>(); // Word to property id to weight
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /** Add a property, or re-index it if its text changed */
+  upsert(property: SearchableProperty): void {
+    const fields: Record<SearchField, string | undefined> = {
+      address: property.address,
+      city: property.city,
+      state: property.state,
+      description: property.description,
+      amenities: property.amenities?.join(' '),
+    };
+    const fingerprint = JSON.stringify(fields);
+    const existing = this.documents.get(property.id);
+
+    if (existing && existing.fingerprint === fingerprint) {
+      // Same words; only the facet values may have moved
+      existing.class = property.class;
+      existing.region = (property.region || '').toLowerCase();
+      existing.state = property.state;
+      existing.yieldBucket = yieldBucketOf(property.rentalYield);
+      return;
+    }
+    if (existing) this.remove([property.id]);
+
+    const terms = new Map<string, number>();
+    (Object.keys(fields) as SearchField[]).forEach(field => {
+      tokenize(fields[field]).forEach(term => {
+        terms.set(term, Math.max(terms.get(term) ?? 0, SEARCH_FIELD_WEIGHTS[field]));
+      });
+    });
+
+    this.documents.set(property.id, {
+      id: property.id,
+      class: property.class,
+      region: (property.region || '').toLowerCase(),
+      state: property.state,
+      yieldBucket: yieldBucketOf(property.rentalYield),
+      fingerprint,
+      terms,
+    });
+    terms.forEach((weight, term) => {
+      if (!this.postings.has(term)) this.postings.set(term, new Map());
+      this.postings.get(term)!.set(property.id, weight);
+    });
+  }
+
+  upsertAll(properties: SearchableProperty[]): void {
+    properties.forEach(property => this.upsert(property));
+  }
+
+  remove(propertyIds: string[]): void {
+    propertyIds.forEach(propertyId => {
+      const document = this.documents.get(propertyId);
+      if (!document) return;
+      document.terms.forEach((_, term) => {
+        const posting = this.postings.get(term);
+        posting?.delete(propertyId);
+        if (posting && posting.size === 0) this.postings.delete(term);
+      });
+      this.documents.delete(propertyId);
+    });
+  }
+
+  search(searchQuery: PropertySearchQuery = {}): PropertySearchResult {
+    const { filters = {}, candidates } = searchQuery;
+    const scores = this.textScores(tokenize(searchQuery.text));
+
+    const matched = Array.from(this.documents.values()).filter(document =>
+      (!candidates || candidates.has(document.id)) && (!scores || scores.has(document.id))
+    );
+
+    const facets = emptyFacets();
+    matched.forEach(document => {
+      FACETS.forEach(facet => {
+        if (!this.passes(document, filters, facet)) return;
+        const value = this.facetValue(document, facet);
+        const counts = facets[facet] as FacetCounts;
+        counts[value] = (counts[value] ?? 0) + 1;
+      });
+    });
+
+    const hits = matched
+      .filter(document => this.passes(document, filters))
+      .map(document => ({ id: document.id, score: scores?.get(document.id) ?? 0 }));
+    if (scores) {
+      hits.sort((a, b) => b.score - a.score);
+    }
+
+    return { hits, facets };
+  }
+
+  /**
+   * Score of every property matching all the query's words, or null without
+   * a query. Each word counts its best match: exact, as the start of a
+   * longer word, or within a few typos, times the weight of the field.
+   */
+  private textScores(queryTerms: string[]): Map<string, number> | null {
+    if (queryTerms.length === 0) return null;
+
+    let scores: Map<string, number> | null = null;
+    for (const queryTerm of queryTerms) {
+      const best = new Map<string, number>();
+      this.postings.forEach((posting, term) => {
+        const quality = this.matchQuality(queryTerm, term);
+        if (quality === 0) return;
+        posting.forEach((weight, propertyId) => {
+          best.set(propertyId, Math.max(best.get(propertyId) ?? 0, quality * weight));
+        });
+      });
+
+      const previous: Map<string, number> | null = scores;
+      const next = new Map<string, number>();
+      best.forEach((score, propertyId) => {
+        if (!previous) {
+          next.set(propertyId, score);
+        } else if (previous.has(propertyId)) {
+          next.set(propertyId, previous.get(propertyId)! + score);
+        }
+      });
+      scores = next;
+      if (scores.size === 0) break;
+    }
+    return scores;
+  }
+
+  private matchQuality(queryTerm: string, term: string): number {
+    if (term === queryTerm) return 1;
+    if (queryTerm.length >= SEARCH_CONFIG.prefixMinLength && term.startsWith(queryTerm)) {
+      return SEARCH_CONFIG.prefixQuality;
+    }
+    // House numbers and zip codes must match exactly
+    if (/\d/.test(queryTerm)) return 0;
+
+    const maxTypos = queryTerm.length >= SEARCH_CONFIG.twoTyposMinLength ? 2
+      : queryTerm.length >= SEARCH_CONFIG.oneTypoMinLength ? 1
+      : 0;
+    if (maxTypos === 0) return 0;
+
+    const typos = editDistance(queryTerm, term, maxTypos);
+    if (typos <= maxTypos) return SEARCH_CONFIG.typoQuality[typos];
+
+    // An unfinished word with a typo, matched against the start of the word
+    if (term.length <= queryTerm.length) return 0;
+    const prefixTypos = editDistance(queryTerm, term.slice(0, queryTerm.length), maxTypos);
+    return prefixTypos <= maxTypos ? SEARCH_CONFIG.typoQuality[prefixTypos] * SEARCH_CONFIG.prefixQuality : 0;
+  }
+
+  // Whether a property passes the filters, ignoring one facet's own filter
+  private passes(document: IndexedProperty, filters: PropertySearchFilters, except?: FacetName): boolean {
+    return FACETS.every(facet => {
+      if (facet === except) return true;
+      const selected = filters[facet] as string[] | undefined;
+      return !selected || selected.includes(this.facetValue(document, facet));
+    });
+  }
+
+  private facetValue(document: IndexedProperty, facet: FacetName): string {
+    return facet === 'yield' ? document.yieldBucket : document[facet];
+  }
+}
+
+export type {
+  SearchableProperty,
+  PropertySearchFilters,
+  PropertySearchQuery,
+  PropertySearchHit,
+  PropertySearchFacets,
+  PropertySearchResult
+};
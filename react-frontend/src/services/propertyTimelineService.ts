@@ -1,5 +1,9 @@
-import { doc, updateDoc, collection, query, where, getDocs, addDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../firebase/config';
+import { Timestamp } from 'firebase/firestore';
+import { getRepositories } from '../repositories';
+import { getSimulationClock } from './simulationClock';
+import { DispositionService } from './dispositionService';
+import { GovernanceService } from './governanceService';
+import { RenovationService } from './renovationService';
 
 interface PropertyTimingConfig {
   minHours: number;
@@ -23,19 +27,17 @@ export class PropertyTimelineService {
       console.log('🔄 Initializing property timelines (background)...');
       
       // Get all properties and filter for those without timeline
-      const snapshot = await getDocs(collection(db, 'properties'));
+      const properties = await getRepositories().properties.list();
       const updatePromises: Promise<void>[] = [];
       let processedCount = 0;
       
-      snapshot.docs.forEach((docSnapshot) => {
-        const property = docSnapshot.data();
-        
+      properties.forEach((property) => {
         // Only initialize properties that don't have timelines yet
         if (property.timelineInitialized === true) {
           return;
         }
         
-        const timing = TIMELINE_CONFIG[property.class as 'A' | 'B' | 'C'];
+        const timing = TIMELINE_CONFIG[property.class];
         
         if (timing) {
           processedCount++;
@@ -46,10 +48,10 @@ export class PropertyTimelineService {
           console.log(`⏰ Property ${property.address} (Class ${property.class}) will sell at:`, contractTime);
           
           updatePromises.push(
-            updateDoc(doc(db, 'properties', docSnapshot.id), {
-              contractTime: contractTime,
+            getRepositories().properties.update(property.id, {
+              contractTime: Timestamp.fromDate(contractTime),
               timelineInitialized: true,
-              timelineSetAt: serverTimestamp()
+              timelineSetAt: Timestamp.now()
             })
           );
         }
@@ -72,17 +74,16 @@ export class PropertyTimelineService {
       console.log('🕐 Current time for sales check:', now);
       
       // BYPASS FIREBASE QUERY ISSUES: Get all properties and filter manually
-      const allPropertiesSnapshot = await getDocs(collection(db, 'properties'));
-      console.log(`🔍 Checking all ${allPropertiesSnapshot.docs.length} properties manually...`);
+      const allProperties = await getRepositories().properties.list();
+      console.log(`🔍 Checking all ${allProperties.length} properties manually...`);
       
-      const readyProperties = allPropertiesSnapshot.docs.filter(doc => {
-        const property = doc.data();
+      const readyProperties = allProperties.filter((property, index) => {
         const isAvailable = property.status === 'available';
-        const contractTime = property.contractTime?.toDate?.() || new Date(property.contractTime);
+        const contractTime = property.contractTime?.toDate() ?? new Date(NaN);
         const isOverdue = contractTime <= now;
         
         // DEBUG: Show first few properties with their details
-        if (allPropertiesSnapshot.docs.indexOf(doc) < 3) {
+        if (index < 3) {
           console.log(`🔍 DEBUG Property: ${property.address}`);
           console.log(`   Status: ${property.status}`);
           console.log(`   Contract Time: ${contractTime}`);
@@ -101,16 +102,15 @@ export class PropertyTimelineService {
       const updatePromises: Promise<void>[] = [];
       let soldCount = 0;
       
-      readyProperties.forEach((docSnapshot) => {
-        const property = docSnapshot.data();
+      readyProperties.forEach((property) => {
         soldCount++;
         
         console.log(`🏠 Property SOLD: ${property.address} (Class ${property.class})`);
         
         updatePromises.push(
-          updateDoc(doc(db, 'properties', docSnapshot.id), {
+          getRepositories().properties.update(property.id, {
             status: 'sold_out',
-            soldAt: serverTimestamp()
+            soldAt: Timestamp.fromDate(getSimulationClock().now())
           })
         );
       });
@@ -138,17 +138,14 @@ export class PropertyTimelineService {
       console.log(`🏗️ Generating ${count} replacement properties...`);
       
       const { generateProperty } = await import('../utils/propertyGenerator');
-      const newPropertyPromises: Promise<any>[] = [];
+      const newPropertyPromises: Promise<string>[] = [];
       
       for (let i = 0; i < count; i++) {
         const newProperty = await generateProperty();
         console.log(`📦 New property: ${newProperty.address} (Class ${newProperty.class})`);
         
         newPropertyPromises.push(
-          addDoc(collection(db, 'properties'), {
-            ...newProperty,
-            createdAt: serverTimestamp()
-          })
+          getRepositories().properties.create(newProperty)
         );
       }
       
@@ -178,6 +175,24 @@ export class PropertyTimelineService {
       } else {
         console.log('📊 Background processor: No properties ready to sell');
       }
+
+      // Shareholder votes that have closed take effect first, so a vote to sell can't race the hold period
+      const proposalCount = await GovernanceService.processDueProposals();
+      if (proposalCount > 0) {
+        console.log(`🗳️ Background processor: ${proposalCount} votes closed this cycle`);
+      }
+
+      // Renovations whose work has run its course add their value and rent
+      const renovationCount = await RenovationService.processDueProjects();
+      if (renovationCount > 0) {
+        console.log(`🏗️ Background processor: ${renovationCount} renovations completed this cycle`);
+      }
+
+      // Fully funded properties at the end of their hold are sold off
+      const disposedCount = await DispositionService.processDueDispositions();
+      if (disposedCount > 0) {
+        console.log(`🏁 Background processor: ${disposedCount} properties exited this cycle`);
+      }
     }, 60000); // Every minute
     
     // TESTING: Disabled auto re-initialization to prevent timeline resets
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+import { createProperty } from '../test/fixtures';
+import { FeeService } from './feeService';
+import { LoanService } from './loanService';
+import { PurchaseTransactionService } from './purchaseTransactionService';
+import { SimulationClock, setSimulationClock } from './simulationClock';
+import { WalletLedgerService } from './walletLedgerService';
+import type { Property } from '../types/property';
+
+const ETH_USD = 2500;
+const USER_ID = 'buyer';
+
+describe('PurchaseTransactionService.processPurchase', () => {
+  let property: Property;
+
+  beforeEach(async () => {
+    setRepositories(createMemoryRepositories());
+    setSimulationClock(new SimulationClock({ seed: 5, mode: 'frozen', startTime: new Date('2025-01-01T00:00:00Z') }));
+    property = await createProperty();
+
+    await getRepositories().wallets.create(USER_ID, {
+      address: '0xbuyer',
+      ethBalance: 0,
+      strikePrice: ETH_USD,
+      initialUsdValue: 10 * ETH_USD,
+      username: USER_ID,
+      isActive: true,
+    });
+  });
+
+  it('debits the payment and its fees together', async () => {
+    await WalletLedgerService.recordOpeningBalance(USER_ID, 10);
+
+    const result = await PurchaseTransactionService.processPurchase(USER_ID, property, 4, 10, { ethToUsdRate: ETH_USD });
+    expect(result.success).toBe(true);
+
+    const fees = FeeService.quote('purchase', { amountUsd: 10000, ethPrice: ETH_USD });
+    const entries = await WalletLedgerService.getEntries(USER_ID);
+    expect(entries.filter(entry => entry.type === 'fee')).toHaveLength(fees.items.length);
+    expect((await getRepositories().wallets.get(USER_ID))!.ethBalance).toBeCloseTo(10 - 4 - fees.totalEth);
+  });
+
+  it('rejects the purchase, fees included, when the wallet cannot cover the fees', async () => {
+    // Enough for the shares but not their fees; the caller's balance is stale
+    await WalletLedgerService.recordOpeningBalance(USER_ID, 4);
+
+    const result = await PurchaseTransactionService.processPurchase(USER_ID, property, 4, 10, { ethToUsdRate: ETH_USD });
+    expect(result.success).toBe(false);
+
+    const entries = await WalletLedgerService.getEntries(USER_ID);
+    expect(entries.map(entry => entry.type)).toEqual(['opening_balance']);
+    expect((await getRepositories().wallets.get(USER_ID))!.ethBalance).toBeCloseTo(4);
+    const [transaction] = await getRepositories().investments.listTransactions(USER_ID);
+    expect(transaction.status).toBe('failed');
+    expect(await getRepositories().investments.listByUser(USER_ID)).toHaveLength(0);
+  });
+});
+
+describe('PurchaseTransactionService.processPurchase with financing', () => {
+  let property: Property;
+
+  beforeEach(async () => {
+    setRepositories(createMemoryRepositories());
+    setSimulationClock(new SimulationClock({ seed: 5, mode: 'frozen', startTime: new Date('2025-01-01T00:00:00Z') }));
+    property = await createProperty();
+
+    await getRepositories().wallets.create(USER_ID, {
+      address: '0xbuyer',
+      ethBalance: 0,
+      strikePrice: ETH_USD,
+      initialUsdValue: 10 * ETH_USD,
+      username: USER_ID,
+      isActive: true,
+    });
+    await WalletLedgerService.recordOpeningBalance(USER_ID, 10);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('borrows the rest of the price against the lot', async () => {
+    const result = await PurchaseTransactionService.processPurchase(USER_ID, property, 4, 10, { ethToUsdRate: ETH_USD, financing: {} });
+    expect(result.success).toBe(true);
+
+    const [loan] = await LoanService.getLoans(USER_ID);
+    const [lot] = await getRepositories().investments.listByUser(USER_ID);
+    expect(loan.id).toBe(result.loanId);
+    expect(lot.loanId).toBe(loan.id);
+    expect(loan.principalUsd + loan.downPaymentUsd).toBeCloseTo(10000);
+  });
+
+  it('reverses the payment and closes the lot when the loan cannot be originated', async () => {
+    vi.spyOn(LoanService, 'originate').mockRejectedValue(new Error('Lender unavailable'));
+
+    const result = await PurchaseTransactionService.processPurchase(USER_ID, property, 4, 10, { ethToUsdRate: ETH_USD, financing: {} });
+
+    expect(result).toEqual({ success: false, error: 'Lender unavailable' });
+    expect((await getRepositories().wallets.get(USER_ID))!.ethBalance).toBeCloseTo(10);
+    const entries = await WalletLedgerService.getEntries(USER_ID);
+    expect(WalletLedgerService.deriveBalance(entries, 'property_sellers')).toBeCloseTo(0);
+    const [lot] = await getRepositories().investments.listByUser(USER_ID);
+    expect(lot.status).toBe('closed');
+    expect(lot.sharesOwned).toBe(0);
+    const [transaction] = await getRepositories().investments.listTransactions(USER_ID);
+    expect(transaction.status).toBe('failed');
+    expect((await getRepositories().properties.get(property.id))!.availableShares).toBeUndefined();
+  });
+});
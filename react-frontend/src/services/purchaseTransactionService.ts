@@ -1,7 +1,11 @@
-import { collection, addDoc, updateDoc, doc, getDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../firebase/config';
+import { getRepositories } from '../repositories';
 import { Property } from '../types/property';
 import { UserScopedWalletService } from './userScopedWalletService';
+import { WalletLedgerService, type LedgerAsset, type PostEntryInput } from './walletLedgerService';
+import { getSimulationClock } from './simulationClock';
+import { PriceOracleService } from './priceOracleService';
+import { FeeService } from './feeService';
+import { LoanService, type Loan } from './loanService';
 
 interface PurchaseTransaction {
   userId: string;
@@ -9,6 +13,8 @@ interface PurchaseTransaction {
   shares: number;
   sharePrice: number;
   totalCost: number;
+  currency?: LedgerAsset; // Asset `totalCost` was paid in (ETH when absent)
+  financedUsd?: number; // Borrowed against the shares; `totalCost` is the down payment
   purchaseDate: Date;
   status: 'pending' | 'completed' | 'failed';
   transactionType: 'property_purchase';
@@ -20,8 +26,9 @@ interface Investment {
   propertyAddress: string;
   propertyClass: string;
   sharesOwned: number;
-  purchasePrice: number; // ETH amount paid
+  purchasePrice: number; // ETH amount paid (ETH equivalent for USDC purchases)
   purchaseUsdValue: number; // USD value at time of purchase
+  paidWith: LedgerAsset;
   currentValue: number;
   purchaseDate: Date;
   lastUpdated: Date;
@@ -46,38 +53,57 @@ interface Investment {
 export class PurchaseTransactionService {
   
   /**
-   * Process a property share purchase
+   * Process a property share purchase. `walletBalance` is the balance of the
+   * settlement currency, which is ETH unless `options.currency` says USDC.
+   * Financed purchases only pay the down payment and borrow the rest.
    */
   static async processPurchase(
     userId: string,
     property: Property,
     shares: number,
     walletBalance: number,
-    ethToUsdRate: number = 4462
-  ): Promise<{ success: boolean; error?: string; transactionId?: string }> {
+    options: { ethToUsdRate?: number; currency?: LedgerAsset; financing?: { downPaymentRatio?: number } } = {}
+  ): Promise<{ success: boolean; error?: string; transactionId?: string; loanId?: string }> {
     
     try {
+      const currency = options.currency ?? 'ETH';
+      // Price against the oracle quote for the current game time unless the caller fixed one
+      const ethToUsdRate = options.ethToUsdRate ?? await PriceOracleService.getEthUsd();
+
       // Calculate cost in USD first
       const sharePriceUSD = property.sharePrice || (property.currentValue / 100);
       const totalCostUSD = sharePriceUSD * shares;
+      const loanQuote = options.financing
+        ? LoanService.quote(property.class, totalCostUSD, options.financing.downPaymentRatio)
+        : null;
+      const cashCostUSD = loanQuote ? loanQuote.downPaymentUsd : totalCostUSD;
       
-      // Convert USD cost to ETH for actual payment
+      // Convert USD cost to ETH; USDC purchases pay the USD cost directly
       const totalCostETH = totalCostUSD / ethToUsdRate;
+      const paymentAmount = currency === 'USDC' ? cashCostUSD : cashCostUSD / ethToUsdRate;
+      const decimals = currency === 'USDC' ? 2 : 4;
+
+      // Network gas and the acquisition fee are settled in the purchase currency
+      const fees = FeeService.quote('purchase', { amountUsd: totalCostUSD, ethPrice: ethToUsdRate });
+      const feeAmount = FeeService.totalIn(fees, currency);
       
       console.log(`💰 Purchase calculation:`, {
         shares,
+        currency,
         sharePriceUSD: sharePriceUSD.toFixed(2),
         totalCostUSD: totalCostUSD.toFixed(2),
         ethToUsdRate,
         totalCostETH: totalCostETH.toFixed(4),
-        walletBalance: walletBalance.toFixed(4)
+        financedUSD: loanQuote?.principalUsd.toFixed(2) ?? '0',
+        feesUSD: fees.totalUsd.toFixed(2),
+        walletBalance: walletBalance.toFixed(decimals)
       });
 
-      // Validate purchase (compare ETH amounts)
-      if (walletBalance < totalCostETH) {
+      // Validate purchase plus fees in the settlement currency
+      if (walletBalance < paymentAmount + feeAmount) {
         return { 
           success: false, 
-          error: `Insufficient balance. Need ${totalCostETH.toFixed(4)} ETH (~$${totalCostUSD.toLocaleString()}) but have ${walletBalance.toFixed(4)} ETH` 
+          error: `Insufficient balance. Need ${(paymentAmount + feeAmount).toFixed(decimals)} ${currency} (~$${(cashCostUSD + fees.totalUsd).toLocaleString()} including fees) but have ${walletBalance.toFixed(decimals)} ${currency}` 
         };
       }
 
@@ -101,50 +127,74 @@ export class PurchaseTransactionService {
         propertyId: property.id,
         shares,
         sharePrice: sharePriceUSD, // Store USD price per share
-        totalCost: totalCostETH, // Store ETH cost for wallet deduction
-        purchaseDate: new Date(),
+        totalCost: paymentAmount, // Store cost in the settlement currency for wallet deduction
+        currency,
+        ...(loanQuote ? { financedUsd: loanQuote.principalUsd } : {}),
+        purchaseDate: getSimulationClock().now(),
         status: 'pending',
         transactionType: 'property_purchase',
       };
 
-      // Store transaction in user-scoped collection (has proper permissions)
-      const transactionRef = await addDoc(collection(db, `users/${userId}/transactions`), transactionData);
+      const investments = getRepositories().investments;
+      const transactionId = await investments.addTransaction(userId, transactionData);
+      
+      // Deduct the payment and fees together - the ledger rejects overdrafts atomically
+      console.log('💳 Attempting wallet deduction:', {
+        userId,
+        amount: `${paymentAmount.toFixed(decimals)} ${currency}`,
+        fees: `${feeAmount.toFixed(decimals)} ${currency}`,
+        currentBalance: walletBalance.toFixed(decimals)
+      });
       
-      // Also try to store in global collection (may fail, but won't break the purchase)
+      const feeEntries = FeeService.entries(fees, {
+        asset: currency,
+        reference: property.id,
+        idempotencyKey: `fee_purchase_${transactionId}`,
+      });
       try {
-        await addDoc(collection(db, 'transactions'), transactionData);
+        await this.deductFromWallet(userId, paymentAmount, currency, property, shares, transactionId, feeEntries);
       } catch (error) {
-        console.warn('Failed to store in global transactions collection:', error);
+        await investments.updateTransaction(userId, transactionId, { status: 'failed' });
+        throw error;
       }
       
+      console.log('✅ Wallet deduction completed');
+
       // Update transaction status to completed
-      await updateDoc(transactionRef, {
+      await investments.updateTransaction(userId, transactionId, {
         status: 'completed',
-        completedAt: serverTimestamp(),
+        completedAt: getSimulationClock().now(),
       });
 
       // Create or update investment record
-      await this.createInvestmentRecord(userId, property, shares, totalCostETH);
+      const investmentId = await this.createInvestmentRecord(userId, property, shares, totalCostETH, undefined, currency);
+
+      let loan: Loan | null = null;
+      if (loanQuote) {
+        try {
+          loan = await LoanService.originate(userId, {
+            investmentId,
+            propertyId: property.id,
+            propertyAddress: property.address,
+            propertyClass: property.class,
+            shares,
+          }, loanQuote);
+        } catch (error) {
+          // Without a loan the lot was never paid for in full
+          await this.reversePurchase(userId, transactionId, investmentId);
+          throw error;
+        }
+      }
 
       // Update property available shares
       await this.updatePropertyShares(property.id, shares);
 
-      // Deduct from user wallet (in ETH)
-      console.log('💳 Attempting wallet deduction:', {
-        userId,
-        amount: totalCostETH.toFixed(4),
-        currentBalance: walletBalance.toFixed(4)
-      });
-      
-      await this.deductFromWallet(userId, totalCostETH);
-      
-      console.log('✅ Wallet deduction completed');
-
-      console.log(`✅ Purchase completed: ${shares} shares of ${property.address} for ${totalCostETH.toFixed(4)} ETH (~$${totalCostUSD.toLocaleString()})`);
+      console.log(`✅ Purchase completed: ${shares} shares of ${property.address} for ${paymentAmount.toFixed(decimals)} ${currency} (~$${totalCostUSD.toLocaleString()})`);
 
       return { 
         success: true, 
-        transactionId: transactionRef.id 
+        transactionId,
+        ...(loan ? { loanId: loan.id } : {})
       };
 
     } catch (error) {
@@ -157,18 +207,21 @@ export class PurchaseTransactionService {
   }
 
   /**
-   * Create investment record in user's portfolio
+   * Create investment record in user's portfolio and return its id.
+   * `costUSD` overrides the list-price cost basis (e.g. secondary market fills).
    */
-  private static async createInvestmentRecord(
+  static async createInvestmentRecord(
     userId: string,
     property: Property,
     shares: number,
-    totalCostETH: number
-  ): Promise<void> {
+    totalCostETH: number,
+    costUSD?: number,
+    paidWith: LedgerAsset = 'ETH'
+  ): Promise<string> {
     
-    const purchaseDate = new Date();
+    const purchaseDate = getSimulationClock().now();
     const totalPropertyPriceUSD = property.sharePrice ? property.sharePrice * 100 : (property.currentValue || property.price || 0);
-    const userCostUSD = (totalPropertyPriceUSD * shares) / 100;
+    const userCostUSD = costUSD ?? (totalPropertyPriceUSD * shares) / 100;
     
     const investmentData: Investment = {
       userId,
@@ -178,9 +231,10 @@ export class PurchaseTransactionService {
       sharesOwned: shares,
       purchasePrice: totalCostETH, // Store ETH amount paid
       purchaseUsdValue: userCostUSD, // USD value at purchase
+      paidWith,
       currentValue: totalCostETH, // Initially same as purchase price
       purchaseDate,
-      lastUpdated: new Date(),
+      lastUpdated: purchaseDate,
       
       // Full property details for portfolio display
       propertyCity: property.city,
@@ -207,15 +261,7 @@ export class PurchaseTransactionService {
       rentalYield: (property.rentalYield * 100).toFixed(1) + '%'
     });
 
-    // Add to user-scoped investments collection (has proper permissions)
-    await addDoc(collection(db, `users/${userId}/investments`), investmentData);
-
-    // Also try to add to global investments collection for easier querying
-    try {
-      await addDoc(collection(db, 'investments'), investmentData);
-    } catch (error) {
-      console.warn('Failed to store in global investments collection:', error);
-    }
+    return getRepositories().investments.add(userId, investmentData);
   }
 
   /**
@@ -226,17 +272,15 @@ export class PurchaseTransactionService {
     purchasedShares: number
   ): Promise<void> {
     
-    const propertyRef = doc(db, 'properties', propertyId);
-    const propertyDoc = await getDoc(propertyRef);
+    const properties = getRepositories().properties;
+    const property = await properties.get(propertyId);
     
-    if (propertyDoc.exists()) {
-      const data = propertyDoc.data();
-      const currentAvailable = data.availableShares || 100;
+    if (property) {
+      const currentAvailable = property.availableShares || 100;
       const newAvailable = Math.max(0, currentAvailable - purchasedShares);
       
-      await updateDoc(propertyRef, {
+      await properties.update(propertyId, {
         availableShares: newAvailable,
-        lastUpdated: serverTimestamp(),
       });
 
       console.log(`Updated property ${propertyId}: ${currentAvailable} → ${newAvailable} shares available`);
@@ -244,18 +288,43 @@ export class PurchaseTransactionService {
   }
 
   /**
-   * Deduct purchase amount from user's wallet
+   * Undo a purchase that could not be completed: return the payment and its
+   * fees, close the lot and mark the transaction failed
+   */
+  private static async reversePurchase(userId: string, transactionId: string, investmentId: string): Promise<void> {
+    const entries = (await WalletLedgerService.getEntries(userId)).filter(entry =>
+      entry.idempotencyKey === `purchase_${transactionId}` || entry.idempotencyKey?.startsWith(`fee_purchase_${transactionId}_`)
+    );
+    await WalletLedgerService.recordReversal(userId, entries, 'Purchase reversed', `purchase_reversal_${transactionId}`);
+
+    const investments = getRepositories().investments;
+    await investments.update(userId, investmentId, {
+      sharesOwned: 0,
+      purchasePrice: 0,
+      purchaseUsdValue: 0,
+      currentValue: 0,
+      status: 'closed',
+    });
+    await investments.updateTransaction(userId, transactionId, { status: 'failed' });
+    console.warn(`↩️ Reversed purchase ${transactionId}`);
+  }
+
+  /**
+   * Deduct purchase amount and its fees from user's wallet via one ledger append
    */
   private static async deductFromWallet(
     userId: string,
-    amount: number
+    amount: number,
+    currency: LedgerAsset,
+    property: Property,
+    shares: number,
+    transactionId: string,
+    fees: PostEntryInput[]
   ): Promise<void> {
     
-    console.log('💳 Starting wallet deduction process:', { userId, amount });
+    console.log('💳 Starting wallet deduction process:', { userId, amount, currency });
     
     try {
-      // Get current wallet balance
-      console.log('🔍 Fetching user wallet...');
       const userWallet = await UserScopedWalletService.getUserWallet(userId);
       
       if (!userWallet) {
@@ -263,27 +332,17 @@ export class PurchaseTransactionService {
         throw new Error('User wallet not found');
       }
       
-      console.log('💰 Current wallet state:', {
-        address: userWallet.address,
-        currentBalance: userWallet.ethBalance,
-        isActive: userWallet.isActive
-      });
-      
-      const currentBalance = userWallet.ethBalance;
-      const newBalance = Math.max(0, currentBalance - amount);
-      
-      console.log('📈 Balance calculation:', {
-        currentBalance,
-        deductAmount: amount,
-        newBalance,
-        difference: currentBalance - newBalance
-      });
-      
-      // Update balance using user-scoped wallet service
-      console.log('🔄 Updating wallet balance in Firebase...');
-      await UserScopedWalletService.updateBalance(userId, newBalance);
+      const entry = await WalletLedgerService.recordPurchase(
+        userId,
+        amount,
+        property.id,
+        `Purchased ${shares} shares of ${property.address}`,
+        `purchase_${transactionId}`,
+        currency,
+        fees
+      );
       
-      console.log(`✅ Updated wallet ${userId}: ${currentBalance.toFixed(4)} → ${newBalance.toFixed(4)} ETH`);
+      console.log(`✅ Updated wallet ${userId}: ${WalletLedgerService.describeChange(entry)}`);
     } catch (error) {
       console.error('❌ Failed to deduct from wallet:', error);
       throw new Error('Failed to update wallet balance');
@@ -295,14 +354,7 @@ export class PurchaseTransactionService {
    */
   static async getUserInvestments(userId: string): Promise<Investment[]> {
     try {
-      const investmentsCollection = collection(db, `users/${userId}/investments`);
-      const { getDocs } = await import('firebase/firestore');
-      const snapshot = await getDocs(investmentsCollection);
-      
-      return snapshot.docs.map(doc => ({
-        ...doc.data(),
-        id: doc.id,
-      })) as Investment[];
+      return await getRepositories().investments.listByUser(userId) as Investment[];
     } catch (error) {
       console.error('Failed to get user investments:', error);
       return [];
@@ -314,19 +366,7 @@ export class PurchaseTransactionService {
    */
   static async getUserTransactions(userId: string): Promise<PurchaseTransaction[]> {
     try {
-      const { query, where, getDocs, orderBy } = await import('firebase/firestore');
-      const transactionsQuery = query(
-        collection(db, 'transactions'),
-        where('userId', '==', userId),
-        orderBy('purchaseDate', 'desc')
-      );
-      
-      const snapshot = await getDocs(transactionsQuery);
-      
-      return snapshot.docs.map(doc => ({
-        ...doc.data(),
-        id: doc.id,
-      })) as PurchaseTransaction[];
+      return await getRepositories().investments.listTransactions(userId);
     } catch (error) {
       console.error('Failed to get user transactions:', error);
       return [];
@@ -0,0 +1,400 @@
+// Renovation Service - capital improvements voted for by shareholders
+// A passed renovation vote starts a project paid from the property's
+// capital reserve, a capital call on its holders, or both. The work runs for
+// its kind's duration in game time and may run over budget. Once complete,
+// the property's value, rent and appreciation history reflect the
+// improvement. Holders pay their share of each call when they next settle.
+
+import { Timestamp } from 'firebase/firestore';
+import { getRepositories } from '../repositories';
+import {
+  RENOVATION_FUNDING_LABELS,
+  RENOVATION_SPECS,
+  type RenovationFunding,
+  type RenovationKind
+} from '../config/renovationConfig';
+import { InsufficientFundsError, WalletLedgerService, type LedgerAsset } from './walletLedgerService';
+import { PriceOracleService } from './priceOracleService';
+import { PropertyAppreciationService } from './propertyAppreciationService';
+import { PropertyOperationsService, type OperatingProperty } from './propertyOperationsService';
+import { getSimulationClock, GAME_MONTH_MS } from './simulationClock';
+import { hashString, seededUniform } from '../utils/seededRandom';
+import type { Property, PropertyImprovement } from '../types/property';
+
+type RenovationStatus = 'in_progress' | 'completed';
+
+type CapitalCallStage = 'start' | 'overrun';
+
+/**
+ * One renovation of a property, stored under the id of the proposal that
+ * approved it
+ */
+interface RenovationProject {
+  id?: string;
+  propertyId: string;
+  propertyAddress: string;
+  kind: RenovationKind;
+  funding: RenovationFunding;
+  totalShares: number;
+  budgetUsd: number;
+  reserveDrawUsd: number; // Paid from the reserve when work started
+  capitalCallUsd: number; // Called from holders when work started
+  startedAt: Date; // Game time
+  completesAt: Date; // Game time
+  status: RenovationStatus;
+  // Set on completion
+  completedAt?: Date; // Game time
+  overrunUsd?: number;
+  overrunReserveDrawUsd?: number;
+  overrunCallUsd?: number;
+  valueAddedUsd?: number;
+  rentalYieldBefore?: number;
+  rentalYieldAfter?: number;
+}
+
+interface RenovationQuote {
+  budgetUsd: number;
+  reserveDrawUsd: number;
+  capitalCallUsd: number;
+  capitalCallPerShareUsd: number;
+  valueAddedUsd: number;
+  rentalYieldAfter: number;
+  durationMonths: number;
+}
+
+/**
+ * A user's share of one capital call, on the shares they held when it was made
+ */
+interface CapitalCall {
+  projectId: string;
+  propertyId: string;
+  propertyAddress: string;
+  label: string;
+  stage: CapitalCallStage;
+  calledAt: Date; // Game time
+  shares: number;
+  amountUsd: number;
+  paid: boolean;
+}
+
+export class RenovationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenovationError';
+  }
+}
+
+// Independent draws per project
+const OVERRUN_DRAW = 0;
+const OVERRUN_SIZE_DRAW = 1;
+
+export class RenovationService {
+  private static settlements = new Map<string, Promise<number>>();
+
+  static describe(project: Pick<RenovationProject, 'kind' | 'funding'>): string {
+    return `${RENOVATION_SPECS[project.kind].label}, ${RENOVATION_FUNDING_LABELS[project.funding].toLowerCase()}`;
+  }
+
+  static operatingProperty(property: Property): OperatingProperty {
+    return {
+      id: property.id,
+      class: property.class,
+      yearBuilt: property.yearBuilt,
+      value: property.price,
+      rentalYield: property.rentalYield,
+      manager: property.manager,
+      improvements: property.improvements,
+    };
+  }
+
+  /**
+   * Rent set aside in every game month finished since the property was
+   * listed, less what renovations have drawn
+   */
+  static reserveBalance(property: Property, gameTime: Date = getSimulationClock().gameNow()): number {
+    const listedAt = property.createdAt ? getSimulationClock().toGameTime(this.toDate(property.createdAt)) : gameTime;
+    const operating = this.operatingProperty(property);
+
+    let contributed = 0;
+    for (let month = PropertyOperationsService.monthOf(listedAt); month < PropertyOperationsService.monthOf(gameTime); month++) {
+      contributed += PropertyOperationsService.operatingMonth(operating, month).expenses.reserve;
+    }
+    return Math.max(0, contributed - (property.reserveDrawnUsd ?? 0));
+  }
+
+  /**
+   * What a renovation would cost and add if work started now
+   */
+  static quote(
+    property: Property,
+    kind: RenovationKind,
+    funding: RenovationFunding,
+    gameTime: Date = getSimulationClock().gameNow()
+  ): RenovationQuote {
+    const spec = RENOVATION_SPECS[kind];
+    const budgetUsd = property.price * spec.costRate;
+    const reserveDrawUsd = funding === 'reserve' ? Math.min(budgetUsd, this.reserveBalance(property, gameTime)) : 0;
+    const capitalCallUsd = budgetUsd - reserveDrawUsd;
+
+    return {
+      budgetUsd,
+      reserveDrawUsd,
+      capitalCallUsd,
+      capitalCallPerShareUsd: capitalCallUsd / (property.totalShares || 100),
+      valueAddedUsd: budgetUsd * spec.valueMultiple,
+      rentalYieldAfter: property.rentalYield + spec.yieldUplift,
+      durationMonths: spec.durationMonths,
+    };
+  }
+
+  /**
+   * A property's renovations, newest first
+   */
+  static async getProjects(propertyId: string): Promise<RenovationProject[]> {
+    return getRepositories().renovations.listByProperty(propertyId);
+  }
+
+  static async getActiveProject(propertyId: string): Promise<RenovationProject | null> {
+    const projects = await this.getProjects(propertyId);
+    return projects.find(project => project.status === 'in_progress') ?? null;
+  }
+
+  /**
+   * Start the work a passed vote approved, drawing on the reserve and
+   * calling the rest from holders. Starting twice returns the first project.
+   */
+  static async start(
+    projectId: string,
+    propertyId: string,
+    kind: RenovationKind,
+    funding: RenovationFunding
+  ): Promise<RenovationProject> {
+    const repositories = getRepositories();
+    const existing = await repositories.renovations.get(projectId);
+    if (existing) return existing;
+
+    const property = await repositories.properties.get(propertyId);
+    if (!property || property.status === 'disposed') {
+      throw new RenovationError('This property is no longer held');
+    }
+    if (await this.getActiveProject(propertyId)) {
+      throw new RenovationError('Another renovation is already under way');
+    }
+
+    const gameNow = getSimulationClock().gameNow();
+    const quote = this.quote(property, kind, funding, gameNow);
+    const project: Omit<RenovationProject, 'id'> = {
+      propertyId,
+      propertyAddress: property.address,
+      kind,
+      funding,
+      totalShares: property.totalShares || 100,
+      budgetUsd: quote.budgetUsd,
+      reserveDrawUsd: quote.reserveDrawUsd,
+      capitalCallUsd: quote.capitalCallUsd,
+      startedAt: gameNow,
+      completesAt: new Date(gameNow.getTime() + quote.durationMonths * GAME_MONTH_MS),
+      status: 'in_progress',
+    };
+
+    if (!(await repositories.renovations.claim(projectId, project))) {
+      return (await repositories.renovations.get(projectId))!;
+    }
+    if (quote.reserveDrawUsd > 0) {
+      await repositories.properties.update(propertyId, {
+        reserveDrawnUsd: (property.reserveDrawnUsd ?? 0) + quote.reserveDrawUsd,
+      });
+    }
+
+    console.log(`🔨 Started ${this.describe(project)} on ${property.address}: $${quote.budgetUsd.toFixed(2)} budget`);
+    return { ...project, id: projectId };
+  }
+
+  /**
+   * Complete every renovation whose work has run its course
+   */
+  static async processDueProjects(): Promise<number> {
+    const gameNow = getSimulationClock().gameNow();
+
+    let completed = 0;
+    for (const project of await getRepositories().renovations.listByStatus('in_progress')) {
+      if (project.completesAt > gameNow) continue;
+      try {
+        if (await this.complete(project)) completed++;
+      } catch (error) {
+        console.error(`❌ Failed to complete renovation ${project.id}:`, error);
+      }
+    }
+    return completed;
+  }
+
+  /**
+   * A user's share of every capital call on the properties they hold, and
+   * whether they have paid it
+   */
+  static async getCapitalCalls(userId: string, propertyId?: string): Promise<CapitalCall[]> {
+    const repositories = getRepositories();
+    const clock = getSimulationClock();
+    const [records, entries] = await Promise.all([
+      repositories.investments.listByUser(userId),
+      repositories.wallets.listLedgerEntries(userId),
+    ]);
+    const lots = records.filter(record =>
+      record.status !== 'closed' && record.sharesOwned > 0 && (!propertyId || record.propertyId === propertyId)
+    );
+    const paidKeys = new Set(
+      entries.filter(entry => entry.type === 'capital_call').map(entry => entry.idempotencyKey)
+    );
+
+    const calls: CapitalCall[] = [];
+    for (const heldPropertyId of new Set(lots.map(lot => lot.propertyId))) {
+      for (const project of await repositories.renovations.listByProperty(heldPropertyId)) {
+        for (const { stage, calledAt, amountUsd } of this.callsOf(project)) {
+          // Only shares held when the call was made owe it
+          const shares = lots
+            .filter(lot => lot.propertyId === heldPropertyId && clock.toGameTime(new Date(lot.purchaseDate)) <= calledAt)
+            .reduce((sum, lot) => sum + lot.sharesOwned, 0);
+          if (shares === 0) continue;
+
+          calls.push({
+            projectId: project.id!,
+            propertyId: heldPropertyId,
+            propertyAddress: project.propertyAddress,
+            label: RENOVATION_SPECS[project.kind].label,
+            stage,
+            calledAt,
+            shares,
+            amountUsd: (amountUsd * shares) / project.totalShares,
+            paid: paidKeys.has(this.callKey(project.id!, stage)),
+          });
+        }
+      }
+    }
+    return calls.sort((a, b) => a.calledAt.getTime() - b.calledAt.getTime());
+  }
+
+  /**
+   * Pay a user's outstanding capital calls from their wallet. Runs one at a
+   * time per user; a call the wallet can't cover stays outstanding and is
+   * tried again next time.
+   */
+  static settleUserCapitalCalls(userId: string): Promise<number> {
+    const previous = this.settlements.get(userId) ?? Promise.resolve(0);
+    const next = previous.catch(() => 0).then(() => this.runSettlement(userId));
+    this.settlements.set(userId, next);
+    return next;
+  }
+
+  private static async runSettlement(userId: string): Promise<number> {
+    const outstanding = (await this.getCapitalCalls(userId)).filter(call => !call.paid);
+    if (outstanding.length === 0) return 0;
+
+    const wallet = await getRepositories().wallets.get(userId);
+    const asset: LedgerAsset = wallet?.rentPayoutAsset ?? 'ETH';
+    const ethPrice = await PriceOracleService.getEthUsd();
+
+    let paid = 0;
+    for (const call of outstanding) {
+      try {
+        await WalletLedgerService.recordCapitalCall(
+          userId,
+          asset === 'USDC' ? call.amountUsd : call.amountUsd / ethPrice,
+          call.projectId,
+          `${call.label} at ${call.propertyAddress}: ${call.stage === 'overrun' ? 'overrun ' : ''}capital call on ${call.shares} shares`,
+          this.callKey(call.projectId, call.stage),
+          { asset, usdAmount: call.amountUsd, call: call.stage }
+        );
+        paid++;
+      } catch (error) {
+        if (!(error instanceof InsufficientFundsError)) throw error;
+        console.warn(`⚠️ Not enough funds for the ${call.label.toLowerCase()} capital call on ${call.propertyAddress}; it stays outstanding`);
+      }
+    }
+    return paid;
+  }
+
+  /**
+   * Finish a project: draw its overrun, then add the improvement to the
+   * property from the next game month. False when another client finished
+   * it first.
+   */
+  private static async complete(project: RenovationProject): Promise<boolean> {
+    const repositories = getRepositories();
+    const property = await repositories.properties.get(project.propertyId);
+    if (!property) throw new RenovationError('The property no longer exists');
+
+    const spec = RENOVATION_SPECS[project.kind];
+    const stream = getSimulationClock().seed ^ hashString(project.id!);
+    const { min, max } = spec.overrunRange;
+    const overrunUsd = seededUniform(stream, OVERRUN_DRAW) < spec.overrunProbability
+      ? project.budgetUsd * (min + (max - min) * seededUniform(stream, OVERRUN_SIZE_DRAW))
+      : 0;
+    const overrunReserveDrawUsd = project.funding === 'reserve'
+      ? Math.min(overrunUsd, this.reserveBalance(property, project.completesAt))
+      : 0;
+    const valueAddedUsd = project.budgetUsd * spec.valueMultiple;
+    const rentalYieldBefore = property.rentalYield;
+    const rentalYieldAfter = rentalYieldBefore + spec.yieldUplift;
+
+    const changes: Partial<RenovationProject> = {
+      status: 'completed',
+      completedAt: project.completesAt,
+      overrunUsd,
+      overrunReserveDrawUsd,
+      overrunCallUsd: overrunUsd - overrunReserveDrawUsd,
+      valueAddedUsd,
+      rentalYieldBefore,
+      rentalYieldAfter,
+    };
+    if (!(await repositories.renovations.transition(project.id!, 'in_progress', changes))) return false;
+
+    const improvement: PropertyImprovement = {
+      projectId: project.id!,
+      label: spec.label,
+      fromMonth: PropertyOperationsService.monthOf(project.completesAt) + 1,
+      valueAddedUsd,
+      rentalYieldBefore,
+      rentalYield: rentalYieldAfter,
+      renewsBuilding: spec.renewsBuilding,
+    };
+
+    // The appreciation history lives with the Firestore property; without it only the value moves
+    let currentValue: number;
+    try {
+      currentValue = await PropertyAppreciationService.recordImprovement(project.propertyId, project.completesAt, valueAddedUsd);
+    } catch {
+      currentValue = (property.currentValue || property.price) + valueAddedUsd;
+    }
+
+    await repositories.properties.update(project.propertyId, {
+      currentValue,
+      rentalYield: rentalYieldAfter,
+      improvements: [...(property.improvements ?? []), improvement],
+      reserveDrawnUsd: (property.reserveDrawnUsd ?? 0) + overrunReserveDrawUsd,
+    });
+
+    console.log(`🏗️ Completed ${spec.label.toLowerCase()} on ${project.propertyAddress}: +$${valueAddedUsd.toFixed(2)} value${overrunUsd > 0 ? `, $${overrunUsd.toFixed(2)} over budget` : ''}`);
+    return true;
+  }
+
+  private static callsOf(project: RenovationProject): { stage: CapitalCallStage; calledAt: Date; amountUsd: number }[] {
+    const calls: { stage: CapitalCallStage; calledAt: Date; amountUsd: number }[] = [];
+    if (project.capitalCallUsd > 0) {
+      calls.push({ stage: 'start', calledAt: project.startedAt, amountUsd: project.capitalCallUsd });
+    }
+    if (project.completedAt && (project.overrunCallUsd ?? 0) > 0) {
+      calls.push({ stage: 'overrun', calledAt: project.completedAt, amountUsd: project.overrunCallUsd! });
+    }
+    return calls;
+  }
+
+  private static callKey(projectId: string, stage: CapitalCallStage): string {
+    return `capital_call_${projectId}_${stage}`;
+  }
+
+  private static toDate(value: Timestamp | Date): Date {
+    return value instanceof Timestamp ? value.toDate() : new Date(value);
+  }
+}
+
+export type { RenovationStatus, RenovationProject, RenovationQuote, CapitalCall, CapitalCallStage };
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+import { createProperty } from '../test/fixtures';
+import { PriceOracleService, ReplayPriceProvider } from './priceOracleService';
+import { PropertyOperationsService } from './propertyOperationsService';
+import { RentalIncomeService } from './rentalIncomeService';
+import { GAME_MONTH_MS, SimulationClock, getSimulationClock, setSimulationClock } from './simulationClock';
+import { WalletLedgerService } from './walletLedgerService';
+
+const USER_ID = 'holder';
+const PROPERTY_VALUE = 250000;
+const RENTAL_YIELD = 0.08;
+const SHARES = 10;
+
+// Gross rent on the lot for the two game months before the cutover
+const LEGACY_GROSS_USD = ((PROPERTY_VALUE * RENTAL_YIELD * SHARES) / 100 / 12) * 2;
+
+describe('RentalIncomeService.reconcileLegacyPayments', () => {
+  beforeEach(async () => {
+    setRepositories(createMemoryRepositories());
+    setSimulationClock(new SimulationClock({ seed: 9, mode: 'frozen', startTime: new Date('2025-06-15T00:00:00Z') }));
+    PriceOracleService.setProvider(new ReplayPriceProvider());
+
+    await getRepositories().wallets.create(USER_ID, {
+      address: '0xholder',
+      ethBalance: 0,
+      strikePrice: 2500,
+      initialUsdValue: 25000,
+      username: USER_ID,
+      isActive: true,
+    });
+    await WalletLedgerService.recordOpeningBalance(USER_ID, 1);
+
+    // Bought two game months before the start of the current one
+    const clock = getSimulationClock();
+    const cutoff = PropertyOperationsService.monthOf(clock.gameNow()) * GAME_MONTH_MS;
+    const gameStart = cutoff - 2 * GAME_MONTH_MS;
+    const purchaseDate = new Date(clock.nowMs() - (clock.gameNow().getTime() - gameStart) / clock.multiplier);
+    await getRepositories().investments.add(USER_ID, {
+      userId: USER_ID,
+      propertyId: 'p1',
+      propertyClass: 'B',
+      propertyYearBuilt: 1998,
+      sharesOwned: SHARES,
+      purchasePrice: 1,
+      currentValue: 1,
+      purchaseDate,
+      propertyTotalPrice: PROPERTY_VALUE,
+      rentalYield: RENTAL_YIELD,
+    });
+  });
+
+  it('measures legacy payments against the gross rent they paid', async () => {
+    await WalletLedgerService.recordRent(USER_ID, LEGACY_GROSS_USD / 2500, LEGACY_GROSS_USD, 2500, 'Rental income', 'legacy_rent');
+
+    const record = await RentalIncomeService.reconcileLegacyPayments(USER_ID);
+
+    expect(record.legacyEntitledUsd).toBeCloseTo(LEGACY_GROSS_USD, 6);
+    expect(record.legacyPaidUsd).toBeCloseTo(LEGACY_GROSS_USD, 6);
+    const entries = await WalletLedgerService.getEntries(USER_ID);
+    expect(entries.filter(entry => entry.type === 'rent')).toHaveLength(1);
+  });
+
+  it('pays a legacy shortfall at gross rent', async () => {
+    const record = await RentalIncomeService.reconcileLegacyPayments(USER_ID);
+
+    expect(record.legacyPaidUsd).toBeCloseTo(LEGACY_GROSS_USD, 6);
+    const payout = (await WalletLedgerService.getEntries(USER_ID)).find(entry => entry.type === 'rent');
+    expect(Number(payout?.metadata?.usdAmount)).toBeCloseTo(LEGACY_GROSS_USD, 6);
+  });
+});
+
+describe('RentalIncomeService.collectRent', () => {
+  const monthlyGrossUsd = (PROPERTY_VALUE * RENTAL_YIELD * SHARES) / 100 / 12;
+
+  beforeEach(async () => {
+    setRepositories(createMemoryRepositories());
+    setSimulationClock(new SimulationClock({ seed: 9, mode: 'frozen', startTime: new Date('2025-06-15T00:00:00Z') }));
+    PriceOracleService.setProvider(new ReplayPriceProvider());
+
+    await getRepositories().wallets.create(USER_ID, {
+      address: '0xholder',
+      ethBalance: 0,
+      strikePrice: 2500,
+      initialUsdValue: 25000,
+      username: USER_ID,
+      isActive: true,
+    });
+    await WalletLedgerService.recordOpeningBalance(USER_ID, 1);
+
+    const property = await createProperty();
+    await getRepositories().investments.add(USER_ID, {
+      userId: USER_ID,
+      propertyId: property.id,
+      propertyClass: property.class,
+      propertyYearBuilt: property.yearBuilt,
+      sharesOwned: SHARES,
+      purchasePrice: 1,
+      currentValue: 1,
+      purchaseDate: getSimulationClock().now(),
+      propertyTotalPrice: PROPERTY_VALUE,
+      rentalYield: RENTAL_YIELD,
+    });
+    // Collected once at purchase, so the months held are all paid by this engine
+    await RentalIncomeService.collectRent(USER_ID);
+    getSimulationClock().fastForwardMonths(3);
+  });
+
+  it('pays each finished month once, net of operating expenses', async () => {
+    const result = await RentalIncomeService.collectRent(USER_ID);
+
+    expect(result.success).toBe(true);
+    expect(result.periodsPaid).toBeGreaterThan(0);
+    expect(result.amountPaid).toBeGreaterThan(0);
+    expect(result.amountPaid).toBeLessThan(monthlyGrossUsd * 3);
+    const paidUsd = (await WalletLedgerService.getEntries(USER_ID))
+      .filter(entry => entry.type === 'rent')
+      .reduce((sum, entry) => sum + Number(entry.metadata?.usdAmount), 0);
+    expect(paidUsd).toBeCloseTo(result.amountPaid, 6);
+
+    const again = await RentalIncomeService.collectRent(USER_ID);
+    expect(again.periodsPaid).toBe(0);
+    expect(again.amountPaid).toBe(0);
+  });
+
+  it('charges only network gas on collecting rent', async () => {
+    await RentalIncomeService.collectRent(USER_ID);
+
+    const fees = (await WalletLedgerService.getEntries(USER_ID)).filter(entry => entry.type === 'fee');
+    expect(fees.length).toBeGreaterThan(0);
+    expect(fees.every(entry => entry.idempotencyKey?.endsWith('_network'))).toBe(true);
+  });
+});
@@ -1,15 +1,34 @@
-// Rental Income Service - Manages rental income and property appreciation
-// 0.5 hour real time = 1 month game time (1440x acceleration)
-// Properties appreciate 8% annually (2% quarterly)
+// Rental Income Service - the one rental engine
+// Rent accrues continuously as each lot's share of the property's net
+// operating income and is paid out once per game month, per property and user.
 
-import { doc, getDoc, updateDoc, collection, query, where, getDocs, addDoc } from 'firebase/firestore';
-import { db } from '../firebase/config';
+import { getRepositories } from '../repositories';
+import type { InvestmentRecord, RentalCollectionRecord } from '../repositories/types';
+import { WalletLedgerService } from './walletLedgerService';
+import { PriceOracleService } from './priceOracleService';
+import { FeeService } from './feeService';
+import { LoanService } from './loanService';
+import { PropertyOperationsService } from './propertyOperationsService';
+import { getSimulationClock, GAME_MONTH_MS } from './simulationClock';
+import type { PropertyClass } from '../types/property';
+import {
+  calculateMonthlyRentalForShares,
+  calculateNetRentalForShares,
+  calculateRentalIncome,
+  getRentalAccrualStart,
+  type RentalEntitlement
+} from '../utils/rentalCalculations';
 
+/**
+ * A rent payout to one user for one property. Records written by the rental
+ * engine cover one game month and are stored under their period key; records
+ * without a period were paid by the monthly processor it replaced.
+ */
 interface RentalPayment {
   id?: string;
   userId: string;
   propertyId: string;
-  amount: number; // USDC
+  amount: number; // USD paid out
   sharesOwned: number;
   totalPropertyValue: number;
   rentalYield: number;
@@ -17,6 +36,8 @@ interface RentalPayment {
   gameDate: Date;
   realDate: Date;
   processed: boolean;
+  period?: number; // Game month number, see PropertyOperationsService.monthOf
+  accruedAmount?: number; // USD earned in the period; differs from `amount` when netted against an overpayment
 }
 
 interface UserInvestment {
@@ -28,299 +49,398 @@ interface UserInvestment {
   currentValue: number;
 }
 
-interface PropertyData {
-  id: string;
-  currentValue: number;
-  rentalYield: number;
-  class: 'A' | 'B' | 'C';
-  status: string;
+interface RentalSummary {
+  dueAmount: number; // USD the next collection pays for finished game months
+  duePeriods: number; // Unpaid property-months
+  dueMonths: number; // Distinct unpaid game months
+  accruingAmount: number; // USD earned so far in the current game month
+  totalPaid: number; // USD paid out to date
+  nextPayoutAt: Date; // Sim time the current game month ends
+}
+
+interface RentalCollectionResult {
+  success: boolean;
+  amountPaid: number;
+  periodsPaid: number;
 }
 
+// Lots in a property that has been sold stop earning at the sale (game time)
+type RentalLot = RentalEntitlement & { propertyId: string; accrualEnd?: Date };
+
+// What the property itself says about its lots' rent, by property id
+type PropertyTerms = Map<string, Pick<RentalLot, 'accrualEnd' | 'propertyManager' | 'propertyImprovements'>>;
+
+interface DuePayout {
+  periodKey: string;
+  propertyId: string;
+  period: number;
+  accrued: number;
+  sharesOwned: number;
+  lot: RentalLot;
+}
+
+// Payouts below a cent stay owed until a later period
+const MIN_PAYOUT_USD = 0.01;
+
 export class RentalIncomeService {
-  
-  // Calculate monthly rental income for a user's shares in a property
-  static calculateMonthlyRental(
-    propertyValue: number,
-    rentalYield: number,
-    userShares: number
-  ): number {
-    // Annual rental income = property value * (yield / 100)
-    // Monthly rental income = annual / 12
-    // User's portion = (monthly rental / 100 shares) * user shares
-    
-    const annualRental = propertyValue * (rentalYield / 100);
-    const monthlyRental = annualRental / 12;
-    const monthlyRentalPerShare = monthlyRental / 100; // 100 shares per property
-    const userMonthlyRental = monthlyRentalPerShare * userShares;
-    
-    return Number(userMonthlyRental.toFixed(2));
+  private static collections = new Map<string, Promise<RentalCollectionResult>>();
+  private static timers = new Map<string, ReturnType<typeof setInterval>>();
+  private static lastPeriods = new Map<string, number>();
+
+  /**
+   * Idempotency key of a payout: one per property, user and game month
+   */
+  static periodKey(propertyId: string, userId: string, period: number): string {
+    return `${propertyId}_${userId}_${period}`;
   }
 
-  // Get all user investments (properties they own shares in)
-  static async getUserInvestments(userId: string): Promise<UserInvestment[]> {
-    try {
-      const investmentsQuery = query(
-        collection(db, 'investments'),
-        where('userId', '==', userId)
-      );
-      
-      const investmentsSnapshot = await getDocs(investmentsQuery);
-      
-      return investmentsSnapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          userId: data.userId,
-          propertyId: data.propertyId,
-          sharesOwned: data.sharesOwned,
-          purchasePrice: data.purchasePrice,
-          purchaseDate: data.purchaseDate.toDate(),
-          currentValue: data.currentValue || data.purchasePrice,
-        };
-      });
-    } catch (error) {
-      console.error('Error getting user investments:', error);
-      return [];
-    }
+  static periodLabel(period: number): string {
+    const start = new Date(period * GAME_MONTH_MS);
+    return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}`;
   }
 
-  // Get property data for rental calculations
-  static async getPropertyData(propertyId: string): Promise<PropertyData | null> {
-    try {
-      const propertyDoc = await getDoc(doc(db, 'properties', propertyId));
-      
-      if (propertyDoc.exists()) {
-        const data = propertyDoc.data();
-        return {
-          id: propertyDoc.id,
-          currentValue: data.currentValue || data.price,
-          rentalYield: data.rentalYield,
-          class: data.class,
-          status: data.status || 'active',
-        };
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Error getting property data:', error);
-      return null;
-    }
+  /**
+   * Rent (USD) a lot earns in one game month, up to `through` when the month
+   * is still running. Rent carried over a share count change belongs to the
+   * month the change happened in.
+   */
+  static lotAccrual(lot: RentalLot, period: number, through?: Date): number {
+    const start = this.lotStart(lot).getTime();
+    const periodStart = period * GAME_MONTH_MS;
+    const periodEnd = Math.min(
+      periodStart + GAME_MONTH_MS,
+      through?.getTime() ?? Infinity,
+      lot.accrualEnd?.getTime() ?? Infinity
+    );
+    const from = Math.max(periodStart, start);
+    const carry = PropertyOperationsService.monthOf(new Date(start)) === period ? lot.rentalAccruedCarry || 0 : 0;
+
+    if (periodEnd <= from || lot.sharesOwned <= 0) return carry;
+    return carry + calculateNetRentalForShares(lot, new Date(from), (periodEnd - from) / GAME_MONTH_MS);
   }
 
-  // Process rental income for a specific user
-  static async processUserRentalIncome(userId: string, gameDate: Date): Promise<number> {
+  /**
+   * Rent (USD) a lot has earned so far in the game month containing `gameTime`
+   */
+  static accruedThisPeriod(lot: RentalLot, gameTime: Date = getSimulationClock().gameNow()): number {
+    return this.lotAccrual(lot, PropertyOperationsService.monthOf(gameTime), gameTime);
+  }
+
+  /**
+   * Pay every finished game month a user hasn't been paid for, then take
+   * mortgage installments out of it. Runs one at a time per user; a period
+   * is only ever paid once, so calling it again or from several places is
+   * safe.
+   */
+  static collectRent(userId: string): Promise<RentalCollectionResult> {
+    const previous = this.collections.get(userId) ?? Promise.resolve(null);
+    const next = previous.catch(() => null).then(() => this.runCollection(userId));
+    this.collections.set(userId, next);
+    return next;
+  }
+
+  private static async runCollection(userId: string): Promise<RentalCollectionResult> {
     try {
-      console.log(`Processing rental income for user ${userId} on game date:`, gameDate);
-      
-      // Get all user investments
-      const investments = await this.getUserInvestments(userId);
-      
-      if (investments.length === 0) {
-        console.log(`No investments found for user ${userId}`);
-        return 0;
+      const record = await this.reconcileLegacyPayments(userId);
+      const repositories = getRepositories();
+      const [records, payments] = await Promise.all([
+        repositories.investments.listByUser(userId),
+        repositories.rentalPayments.listByUser(userId),
+      ]);
+      const clock = getSimulationClock();
+      const terms = await this.propertyTerms(records);
+      const due = this.duePayouts(userId, records, payments, record, terms, clock.gameNow());
+
+      if (due.length === 0) {
+        await LoanService.serviceDebt(userId);
+        return { success: true, amountPaid: 0, periodsPaid: 0 };
       }
 
-      let totalRentalIncome = 0;
-      const paymentMonth = `${gameDate.getFullYear()}-${String(gameDate.getMonth() + 1).padStart(2, '0')}`;
+      let balance = this.owedBalance(payments, record);
+      let amountPaid = 0;
+      let periodsPaid = 0;
 
-      // Process each investment
-      for (const investment of investments) {
-        const propertyData = await this.getPropertyData(investment.propertyId);
-        
-        if (!propertyData || propertyData.status !== 'active') {
-          console.log(`Skipping inactive property ${investment.propertyId}`);
-          continue;
-        }
+      for (const payout of due) {
+        // Net against any overpayment or loss-making months before paying out
+        const amount = Math.max(0, balance + payout.accrued);
+        const paid = amount >= MIN_PAYOUT_USD ? amount : 0;
+        const gameDate = new Date((payout.period + 1) * GAME_MONTH_MS);
 
-        // Check if payment already processed for this month
-        const existingPayment = await this.checkExistingPayment(
-          userId, 
-          investment.propertyId, 
-          paymentMonth
-        );
+        if (paid > 0) {
+          const ethPrice = await PriceOracleService.getEthUsd(gameDate);
+          const entry = await WalletLedgerService.recordRentPayout(
+            userId,
+            paid,
+            ethPrice,
+            `Rental income ${this.periodLabel(payout.period)}`,
+            `rent_${payout.periodKey}`
+          );
+          await FeeService.chargeAfterSettlement(
+            userId,
+            'rent_collection',
+            { ethPrice, gameTime: gameDate },
+            { asset: entry.asset, reference: payout.propertyId, idempotencyKey: `fee_${payout.periodKey}` }
+          );
+        }
 
-        if (existingPayment) {
-          console.log(`Payment already processed for ${investment.propertyId} in ${paymentMonth}`);
+        const claimed = await repositories.rentalPayments.claim(payout.periodKey, {
+          userId,
+          propertyId: payout.propertyId,
+          amount: paid,
+          accruedAmount: payout.accrued,
+          sharesOwned: payout.sharesOwned,
+          totalPropertyValue: payout.lot.propertyTotalPrice,
+          rentalYield: payout.lot.rentalYield,
+          paymentMonth: this.periodLabel(payout.period),
+          period: payout.period,
+          gameDate,
+          realDate: clock.now(),
+          processed: true,
+        });
+        if (!claimed) {
+          console.log(`↩️ Rent for ${payout.periodKey} already recorded, skipping`);
           continue;
         }
 
-        // Calculate rental income
-        const rentalAmount = this.calculateMonthlyRental(
-          propertyData.currentValue,
-          propertyData.rentalYield,
-          investment.sharesOwned
-        );
-
-        if (rentalAmount > 0) {
-          // Create rental payment record
-          await this.createRentalPayment({
-            userId,
-            propertyId: investment.propertyId,
-            amount: rentalAmount,
-            sharesOwned: investment.sharesOwned,
-            totalPropertyValue: propertyData.currentValue,
-            rentalYield: propertyData.rentalYield,
-            paymentMonth,
-            gameDate,
-            realDate: new Date(),
-            processed: true,
-          });
-
-          totalRentalIncome += rentalAmount;
-          console.log(`Processed ${rentalAmount} rental for property ${investment.propertyId}`);
-        }
+        balance += payout.accrued - paid;
+        amountPaid += paid;
+        periodsPaid++;
       }
 
-      // Update user's USDC balance
-      if (totalRentalIncome > 0) {
-        await this.updateUserBalance(userId, totalRentalIncome);
-        console.log(`Total rental income for user ${userId}: ${totalRentalIncome}`);
+      const now = clock.now();
+      await repositories.rentalPayments.saveCollectionRecord(userId, {
+        lastCollectionTime: now,
+        totalCollections: (record.totalCollections || 0) + 1,
+        lastUpdated: now,
+      });
+      if (amountPaid > 0) {
+        await repositories.wallets.update(userId, { lastRentalPayment: now });
       }
 
-      return totalRentalIncome;
+      console.log(`💰 Paid $${amountPaid.toFixed(2)} rent for ${periodsPaid} property-months to ${userId}`);
 
+      // Debt service comes out of the rent just paid
+      await LoanService.serviceDebt(userId);
+      return { success: true, amountPaid, periodsPaid };
     } catch (error) {
-      console.error('Error processing user rental income:', error);
-      return 0;
+      console.error('❌ Error collecting rental income:', error);
+      return { success: false, amountPaid: 0, periodsPaid: 0 };
     }
   }
 
-  // Check if payment already exists for this user/property/month
-  static async checkExistingPayment(
-    userId: string, 
-    propertyId: string, 
-    paymentMonth: string
-  ): Promise<boolean> {
-    try {
-      const paymentsQuery = query(
-        collection(db, 'rentalIncome'),
-        where('userId', '==', userId),
-        where('propertyId', '==', propertyId),
-        where('paymentMonth', '==', paymentMonth)
-      );
+  /**
+   * What a user is owed, is earning and has been paid. Reconciles legacy
+   * payments first if that hasn't happened yet.
+   */
+  static async getRentalSummary(userId: string): Promise<RentalSummary> {
+    const record = await this.reconcileLegacyPayments(userId);
+    const repositories = getRepositories();
+    const [records, payments] = await Promise.all([
+      repositories.investments.listByUser(userId),
+      repositories.rentalPayments.listByUser(userId),
+    ]);
+    const clock = getSimulationClock();
+    const gameNow = clock.gameNow();
+    const currentPeriod = PropertyOperationsService.monthOf(gameNow);
+    const terms = await this.propertyTerms(records);
+    const due = this.duePayouts(userId, records, payments, record, terms, gameNow);
 
-      const paymentsSnapshot = await getDocs(paymentsQuery);
-      return !paymentsSnapshot.empty;
-    } catch (error) {
-      console.error('Error checking existing payment:', error);
-      return false;
-    }
+    let balance = this.owedBalance(payments, record);
+    let dueAmount = 0;
+    due.forEach(payout => {
+      const amount = Math.max(0, balance + payout.accrued);
+      balance += payout.accrued - amount;
+      dueAmount += amount;
+    });
+
+    const accruingAmount = records
+      .map(record => this.toLot(record, terms))
+      .filter(lot => PropertyOperationsService.monthOf(this.lotStart(lot)) <= currentPeriod)
+      .reduce((sum, lot) => sum + this.accruedThisPeriod(lot, gameNow), 0);
+
+    const untilNextPeriod = (currentPeriod + 1) * GAME_MONTH_MS - gameNow.getTime();
+
+    return {
+      dueAmount,
+      duePeriods: due.length,
+      dueMonths: new Set(due.map(payout => payout.period)).size,
+      accruingAmount,
+      totalPaid: this.totalPaid(payments, record),
+      nextPayoutAt: new Date(clock.nowMs() + clock.toRealMs(untilNextPeriod)),
+    };
   }
 
-  // Create rental payment record
-  static async createRentalPayment(payment: Omit<RentalPayment, 'id'>): Promise<void> {
-    try {
-      await addDoc(collection(db, 'rentalIncome'), payment);
-    } catch (error) {
-      console.error('Error creating rental payment:', error);
-      throw error;
+  /**
+   * One-off reconciliation of rent paid by the engines this one replaced.
+   * The gross rent a user earned before the current game month is compared
+   * with what they were actually paid: a shortfall is paid straight away and an
+   * overpayment is held back from later payouts. The result is stored on
+   * the collection record so it only happens once.
+   */
+  static async reconcileLegacyPayments(userId: string): Promise<RentalCollectionRecord> {
+    const repositories = getRepositories();
+    const existing = await repositories.rentalPayments.getCollectionRecord(userId);
+    if (existing?.migratedThroughPeriod !== undefined) return existing;
+
+    const clock = getSimulationClock();
+    const cutoffPeriod = PropertyOperationsService.monthOf(clock.gameNow());
+    const cutoff = new Date(cutoffPeriod * GAME_MONTH_MS);
+    const [records, payments, entries, wallet] = await Promise.all([
+      repositories.investments.listByUser(userId),
+      repositories.rentalPayments.listByUser(userId),
+      repositories.wallets.listLedgerEntries(userId),
+      repositories.wallets.get(userId),
+    ]);
+
+    const legacyEntitledUsd = records
+      .map(record => this.toLot(record))
+      .reduce((sum, lot) => sum + this.legacyAccrual(lot, cutoff), 0);
+
+    // Every engine paid through the ledger, but rent paid before the ledger
+    // existed is only in the accrual collector's running total and the
+    // monthly processor's records. Take whichever account shows more paid.
+    const ledgerRentUsd = entries
+      .filter(entry => entry.type === 'rent')
+      .reduce((sum, entry) => sum + (Number(entry.metadata?.usdAmount) || 0), 0);
+    const recordedRentUsd = (wallet?.totalRentalReceived || 0) + payments
+      .filter(payment => payment.period === undefined)
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    let legacyPaidUsd = Math.max(ledgerRentUsd, recordedRentUsd);
+
+    const shortfall = legacyEntitledUsd - legacyPaidUsd;
+    if (shortfall >= MIN_PAYOUT_USD) {
+      const ethPrice = await PriceOracleService.getEthUsd();
+      const entry = await WalletLedgerService.recordRentPayout(
+        userId,
+        shortfall,
+        ethPrice,
+        'Rental income reconciliation',
+        `rent_reconciliation_${userId}`
+      );
+      await FeeService.chargeAfterSettlement(
+        userId,
+        'rent_collection',
+        { ethPrice },
+        { asset: entry.asset, idempotencyKey: `fee_rent_reconciliation_${userId}` }
+      );
+      legacyPaidUsd += shortfall;
     }
+
+    const now = clock.now();
+    const record: RentalCollectionRecord = {
+      userId,
+      lastCollectionTime: existing?.lastCollectionTime ?? now,
+      totalCollections: existing?.totalCollections ?? 0,
+      lastUpdated: now,
+      migratedThroughPeriod: cutoffPeriod,
+      legacyEntitledUsd,
+      legacyPaidUsd,
+    };
+    await repositories.rentalPayments.saveCollectionRecord(userId, record);
+
+    console.log(`🧾 Reconciled legacy rent for ${userId}: earned $${legacyEntitledUsd.toFixed(2)}, paid $${legacyPaidUsd.toFixed(2)}`);
+    return record;
   }
 
-  // Update user's ETH wallet balance with rental income
-  static async updateUserBalance(userId: string, usdAmount: number): Promise<void> {
-    try {
-      // Get current ETH price to convert USD rental income to ETH
-      const ethPrice = await this.getCurrentEthPrice();
-      const ethAmount = usdAmount / ethPrice;
-      
-      // Update user's wallet in the wallets collection
-      const walletDoc = doc(db, `users/${userId}/wallet`, 'simulation');
-      const walletSnapshot = await getDoc(walletDoc);
-      
-      if (walletSnapshot.exists()) {
-        const walletData = walletSnapshot.data();
-        const currentBalance = walletData.ethBalance || 0;
-        const newBalance = currentBalance + ethAmount;
-        
-        await updateDoc(walletDoc, {
-          ethBalance: newBalance,
-          lastRentalPayment: new Date(),
-          lastUpdated: new Date(),
-        });
+  /**
+   * Collect at every game month boundary while a user is active, after
+   * catching up on any months missed while they were away
+   */
+  static startAutoCollection(userId: string): void {
+    this.stopAutoCollection(userId);
 
-        console.log(`Updated user ${userId} ETH balance: ${currentBalance.toFixed(4)} → ${newBalance.toFixed(4)} ETH (+$${usdAmount.toFixed(2)} rental)`);
-        
-        // Trigger wallet refresh across all components
-        if (typeof window !== 'undefined') {
-          window.dispatchEvent(new CustomEvent('walletRefresh'));
-        }
-      } else {
-        console.warn(`No wallet found for user ${userId}`);
+    const currentPeriod = () => PropertyOperationsService.monthOf(getSimulationClock().gameNow());
+    this.lastPeriods.set(userId, currentPeriod());
+
+    const checkAndCollect = async () => {
+      const period = currentPeriod();
+      if (period > (this.lastPeriods.get(userId) ?? period)) {
+        this.lastPeriods.set(userId, period);
+        await this.collectRent(userId);
       }
-    } catch (error) {
-      console.error('Error updating user balance:', error);
-      throw error;
+    };
+
+    this.timers.set(userId, setInterval(checkAndCollect, 60 * 1000));
+    this.collectRent(userId);
+    console.log('⏰ Started rental collection for user:', userId);
+  }
+
+  static stopAutoCollection(userId: string): void {
+    const timer = this.timers.get(userId);
+    if (timer) {
+      clearInterval(timer);
+      this.timers.delete(userId);
+      this.lastPeriods.delete(userId);
+      console.log('🛑 Stopped rental collection for user:', userId);
     }
   }
 
-  // Get current ETH price (you might want to use your existing crypto price service)
-  private static async getCurrentEthPrice(): Promise<number> {
+  // Get all user investments (properties they own shares in)
+  static async getUserInvestments(userId: string): Promise<UserInvestment[]> {
     try {
-      // For now, use a simple fetch. You might want to integrate with your existing useCryptoPrices hook
-      const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd');
-      const data = await response.json();
-      return data.ethereum.usd;
+      const investments = await getRepositories().investments.listByUser(userId);
+
+      return investments
+        .filter(investment => investment.sharesOwned > 0)
+        .map(investment => ({
+          userId: investment.userId,
+          propertyId: investment.propertyId,
+          sharesOwned: investment.sharesOwned,
+          purchasePrice: investment.purchasePrice,
+          purchaseDate: investment.purchaseDate,
+          currentValue: investment.currentValue || investment.purchasePrice,
+        }));
     } catch (error) {
-      console.warn('Failed to fetch ETH price, using fallback:', error);
-      return 3500; // Fallback price
+      console.error('Error getting user investments:', error);
+      return [];
     }
   }
 
   // Get rental income history for a user
   static async getRentalHistory(userId: string, limit: number = 50): Promise<RentalPayment[]> {
     try {
-      const rentalQuery = query(
-        collection(db, 'rentalIncome'),
-        where('userId', '==', userId)
-      );
-      
-      const rentalSnapshot = await getDocs(rentalQuery);
-      
-      const payments = rentalSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        gameDate: doc.data().gameDate.toDate(),
-        realDate: doc.data().realDate.toDate(),
-      })) as RentalPayment[];
+      const payments = await getRepositories().rentalPayments.listByUser(userId);
 
       // Sort by game date descending
-      return payments.sort((a, b) => b.gameDate.getTime() - a.gameDate.getTime()).slice(0, limit);
-      
+      return payments
+        .filter(payment => payment.amount > 0)
+        .sort((a, b) => b.gameDate.getTime() - a.gameDate.getTime())
+        .slice(0, limit);
     } catch (error) {
       console.error('Error getting rental history:', error);
       return [];
     }
   }
 
-  // Calculate total rental income earned by user
+  // Calculate total rental income paid to a user
   static async getTotalRentalIncome(userId: string): Promise<number> {
     try {
-      const history = await this.getRentalHistory(userId);
-      return history.reduce((total, payment) => total + payment.amount, 0);
+      const repositories = getRepositories();
+      const [payments, record] = await Promise.all([
+        repositories.rentalPayments.listByUser(userId),
+        repositories.rentalPayments.getCollectionRecord(userId),
+      ]);
+      return this.totalPaid(payments, record);
     } catch (error) {
       console.error('Error calculating total rental income:', error);
       return 0;
     }
   }
 
-  // Calculate projected monthly income based on current holdings
+  // Expected monthly income after vacancy and operating costs on current holdings
   static async getProjectedMonthlyIncome(userId: string): Promise<number> {
     try {
-      const investments = await this.getUserInvestments(userId);
-      let projectedMonthly = 0;
-
-      for (const investment of investments) {
-        const propertyData = await this.getPropertyData(investment.propertyId);
-        
-        if (propertyData && propertyData.status === 'active') {
-          const monthlyRental = this.calculateMonthlyRental(
-            propertyData.currentValue,
-            propertyData.rentalYield,
-            investment.sharesOwned
-          );
-          projectedMonthly += monthlyRental;
-        }
-      }
+      const records = await getRepositories().investments.listByUser(userId);
+      const terms = await this.propertyTerms(records);
+      const projectedMonthly = records
+        .filter(record => record.sharesOwned > 0 && !terms.get(record.propertyId)?.accrualEnd)
+        .reduce((sum, record) => {
+          const lot = this.toLot(record, terms);
+          return sum + calculateRentalIncome(lot.propertyTotalPrice, lot.rentalYield, lot.sharesOwned, {
+            class: (lot.propertyClass ?? 'B') as PropertyClass,
+            yearBuilt: lot.propertyYearBuilt,
+          }).netMonthlyIncomePerShare;
+        }, 0);
 
       return Number(projectedMonthly.toFixed(2));
     } catch (error) {
@@ -328,6 +448,132 @@ export class RentalIncomeService {
       return 0;
     }
   }
+
+  private static toLot(record: InvestmentRecord, terms?: PropertyTerms): RentalLot {
+    return {
+      ...record,
+      propertyTotalPrice: record.propertyTotalPrice ?? 0,
+      rentalYield: record.rentalYield ?? 0,
+      ...terms?.get(record.propertyId),
+    };
+  }
+
+  /**
+   * Sale date and shareholder-voted operating changes of each property held
+   * by open lots. Lots copy their property's details at purchase, so these
+   * are read from the property as it is now.
+   */
+  private static async propertyTerms(records: InvestmentRecord[]): Promise<PropertyTerms> {
+    const repositories = getRepositories();
+    const held = new Set(records.filter(record => record.sharesOwned > 0).map(record => record.propertyId));
+    const terms: PropertyTerms = new Map();
+    for (const propertyId of held) {
+      const [disposition, property] = await Promise.all([
+        repositories.dispositions.get(propertyId),
+        repositories.properties.get(propertyId),
+      ]);
+      terms.set(propertyId, {
+        accrualEnd: disposition?.disposedAt,
+        propertyManager: property?.manager,
+        propertyImprovements: property?.improvements,
+      });
+    }
+    return terms;
+  }
+
+  private static lotStart(lot: RentalLot): Date {
+    return getSimulationClock().toGameTime(getRentalAccrualStart(lot));
+  }
+
+  /**
+   * What the engines before this one owed a lot up to `cutoff`. They paid
+   * gross rent, so that is what their payments are measured against; net
+   * operating income only applies from the cutover month.
+   */
+  private static legacyAccrual(lot: RentalLot, cutoff: Date): number {
+    const start = this.lotStart(lot);
+    if (start >= cutoff) return 0;
+
+    const carry = lot.rentalAccruedCarry || 0;
+    if (lot.sharesOwned <= 0) return carry;
+    const monthly = calculateMonthlyRentalForShares(lot.propertyTotalPrice, lot.rentalYield, lot.sharesOwned);
+    return carry + monthly * (cutoff.getTime() - start.getTime()) / GAME_MONTH_MS;
+  }
+
+  /**
+   * Finished game months without a payout record, oldest first. Months
+   * before the legacy reconciliation were settled by it.
+   */
+  private static duePayouts(
+    userId: string,
+    records: InvestmentRecord[],
+    payments: RentalPayment[],
+    record: RentalCollectionRecord,
+    terms: PropertyTerms,
+    gameNow: Date
+  ): DuePayout[] {
+    const currentPeriod = PropertyOperationsService.monthOf(gameNow);
+    const paid = new Set(payments.map(payment => payment.id));
+    const byProperty = new Map<string, RentalLot[]>();
+    records.forEach(investment => {
+      byProperty.set(investment.propertyId, [...(byProperty.get(investment.propertyId) ?? []), this.toLot(investment, terms)]);
+    });
+
+    const due: DuePayout[] = [];
+    byProperty.forEach((lots, propertyId) => {
+      const startPeriods = lots.map(lot => PropertyOperationsService.monthOf(this.lotStart(lot)));
+      // Emptied lots only owe the rent carried into the month they were sold down
+      // in, and lots in a sold property stop with the month of the sale
+      const lastPeriods = lots.map((lot, i) => {
+        if (lot.sharesOwned <= 0) return startPeriods[i];
+        return lot.accrualEnd
+          ? Math.min(currentPeriod - 1, PropertyOperationsService.monthOf(lot.accrualEnd))
+          : currentPeriod - 1;
+      });
+      const first = Math.max(record.migratedThroughPeriod ?? 0, Math.min(...startPeriods));
+      const last = Math.min(currentPeriod - 1, Math.max(...lastPeriods));
+
+      for (let period = first; period <= last; period++) {
+        const periodKey = this.periodKey(propertyId, userId, period);
+        if (paid.has(periodKey)) continue;
+
+        const held = lots.filter((_lot, i) => startPeriods[i] <= period && period <= lastPeriods[i]);
+        if (held.length === 0) continue;
+
+        due.push({
+          periodKey,
+          propertyId,
+          period,
+          accrued: held.reduce((sum, lot) => sum + this.lotAccrual(lot, period), 0),
+          sharesOwned: held.reduce((sum, lot) => sum + lot.sharesOwned, 0),
+          lot: held[0],
+        });
+      }
+    });
+
+    return due.sort((a, b) => a.period - b.period);
+  }
+
+  /**
+   * USD earned but not yet paid; negative after an overpayment or
+   * loss-making months, which later payouts absorb first
+   */
+  private static owedBalance(payments: RentalPayment[], record: RentalCollectionRecord): number {
+    const engineBalance = payments
+      .filter(payment => payment.period !== undefined)
+      .reduce((sum, payment) => sum + (payment.accruedAmount ?? payment.amount) - payment.amount, 0);
+    return engineBalance + (record.legacyEntitledUsd ?? 0) - (record.legacyPaidUsd ?? 0);
+  }
+
+  private static totalPaid(payments: RentalPayment[], record: RentalCollectionRecord | null): number {
+    const enginePaid = payments
+      .filter(payment => payment.period !== undefined)
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    const legacyPaid = record?.legacyPaidUsd ?? payments
+      .filter(payment => payment.period === undefined)
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    return enginePaid + legacyPaid;
+  }
 }
 
-export type { RentalPayment, UserInvestment, PropertyData };
\ No newline at end of file
+export type { RentalPayment, UserInvestment, RentalSummary, RentalCollectionResult };
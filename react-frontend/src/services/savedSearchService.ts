@@ -0,0 +1,118 @@
+// Saved Search Service - named property list searches kept per user
+// A saved search stores the same criteria the property list encodes in its
+// URL. Searches can ask to be told about new listings: when the user's
+// property pool generates properties, each one matching such a search sends
+// a notification linking back to the filtered list.
+
+import { getRepositories } from '../repositories';
+import { NotificationService } from './notificationService';
+import { describeSearch, encodeSearchParams, matchesSearch } from '../utils/propertySearch';
+import type { Property, PropertySearchCriteria } from '../types/property';
+
+interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  criteria: PropertySearchCriteria;
+  notifyOnMatch: boolean; // Notify when a newly generated property matches
+  createdAt: Date;
+}
+
+export class SavedSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SavedSearchError';
+  }
+}
+
+const formatUsd = (amount: number) => `$${amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+export class SavedSearchService {
+  static describe(search: Pick<SavedSearch, 'criteria'>): string {
+    return describeSearch(search.criteria);
+  }
+
+  /** The property list route showing the search's results */
+  static linkOf(criteria: PropertySearchCriteria): string {
+    const query = encodeSearchParams(criteria).toString();
+    return query ? `/properties?${query}` : '/properties';
+  }
+
+  static async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return getRepositories().savedSearches.list(userId);
+  }
+
+  /** Newest first */
+  static subscribe(userId: string, callback: (searches: SavedSearch[]) => void): () => void {
+    try {
+      return getRepositories().savedSearches.subscribe(userId, callback);
+    } catch (error) {
+      console.error('Error setting up saved search subscription:', error);
+      return () => {};
+    }
+  }
+
+  /**
+   * Save the criteria under a name. Saving under a name already in use
+   * replaces that search. Returns the search's id.
+   */
+  static async save(userId: string, name: string, criteria: PropertySearchCriteria, notifyOnMatch: boolean): Promise<string> {
+    const trimmed = name.trim();
+    if (!trimmed) throw new SavedSearchError('Give the search a name');
+
+    const savedSearches = getRepositories().savedSearches;
+    const existing = (await savedSearches.list(userId))
+      .find(search => search.name.toLowerCase() === trimmed.toLowerCase());
+
+    if (existing) {
+      await savedSearches.update(userId, existing.id, { name: trimmed, criteria, notifyOnMatch });
+      console.log(`🔎 Updated saved search "${trimmed}" for user ${userId}`);
+      return existing.id;
+    }
+
+    const searchId = await savedSearches.create(userId, {
+      userId,
+      name: trimmed,
+      criteria,
+      notifyOnMatch,
+      createdAt: new Date(),
+    });
+    console.log(`🔎 Saved search "${trimmed}" for user ${userId}`);
+    return searchId;
+  }
+
+  static async setNotifyOnMatch(userId: string, searchId: string, notifyOnMatch: boolean): Promise<void> {
+    await getRepositories().savedSearches.update(userId, searchId, { notifyOnMatch });
+  }
+
+  static async remove(userId: string, searchId: string): Promise<void> {
+    await getRepositories().savedSearches.remove(userId, searchId);
+  }
+
+  /**
+   * Notify the user of new properties matching any of their searches that
+   * ask for it. Returns the number of notifications sent.
+   */
+  static async notifyMatches(userId: string, properties: Property[]): Promise<number> {
+    if (properties.length === 0) return 0;
+
+    const searches = (await this.getSavedSearches(userId)).filter(search => search.notifyOnMatch);
+    let sent = 0;
+
+    for (const search of searches) {
+      for (const property of properties.filter(candidate => matchesSearch(candidate, search.criteria))) {
+        const added = await NotificationService.notify(userId, `saved_search_${search.id}_${property.id}`, {
+          kind: 'saved_search_match',
+          title: `New match for "${search.name}"`,
+          message: `${property.address}, ${property.city}, ${property.state}: Class ${property.class} listed at ${formatUsd(property.price)}.`,
+          propertyId: property.id,
+          link: this.linkOf(search.criteria),
+        });
+        if (added) sent++;
+      }
+    }
+    return sent;
+  }
+}
+
+export type { SavedSearch };
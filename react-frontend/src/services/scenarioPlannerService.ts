@@ -0,0 +1,152 @@
+import { APPRECIATION_CONFIG, calculateQuarterlyRate, getAppreciationRate } from '../config/appreciationConfig';
+import { DISPOSITION_CONFIG } from '../config/dispositionConfig';
+import {
+  SCENARIOS,
+  SCENARIO_IDS,
+  SCENARIO_PLANNER_CONFIG,
+  type ScenarioId
+} from '../config/scenarioConfig';
+import { FeeService } from './feeService';
+import { calculateRentalIncome } from '../utils/rentalCalculations';
+import type { Property, PropertyClass } from '../types/property';
+
+/**
+ * Holding period projections for a share purchase: rent, appreciation, fees
+ * and the exit sale, under each scenario's assumptions.
+ *
+ * Rent each year is the expected net of vacancy and operating costs on the
+ * value at the start of that year, the way the property pays it; the value
+ * compounds quarterly at the class's appreciation rate.
+ */
+
+export interface ScenarioProperty {
+  id: string;
+  class: PropertyClass;
+  value: number; // Full property value (USD)
+  rentalYield: number;
+  yearBuilt?: number;
+}
+
+export interface ScenarioPlan {
+  shares: number; // Out of 100
+  holdYears: number;
+  ethPrice: number; // Prices network fees
+}
+
+export interface ScenarioYear {
+  year: number;
+  propertyValue: number; // Full property, at the end of the year
+  netRent: number; // For the shares, after vacancy and operating costs
+  rentFees: number; // Network fees on collecting it
+}
+
+export interface ScenarioProjection {
+  scenario: ScenarioId;
+  annualAppreciationRate: number;
+  purchaseCost: number;
+  purchaseFees: number; // Acquisition fee and network fee
+  totalInvested: number;
+  years: ScenarioYear[];
+  netRent: number;
+  rentFees: number;
+  exitValue: number; // The shares' part of the sale price
+  exitCosts: number; // Brokerage and transfer tax
+  exitProceeds: number;
+  profit: number;
+  totalReturn: number; // Profit over the amount invested
+  annualizedReturn: number;
+}
+
+export class ScenarioPlannerService {
+  static fromProperty(property: Property): ScenarioProperty {
+    return {
+      id: property.id,
+      class: property.class,
+      value: property.currentValue || property.price,
+      rentalYield: property.rentalYield,
+      yearBuilt: property.yearBuilt,
+    };
+  }
+
+  /**
+   * Hold period the property would actually be sold after
+   */
+  static defaultHoldYears(propertyClass: PropertyClass): number {
+    return DISPOSITION_CONFIG[propertyClass].holdYears;
+  }
+
+  static project(property: ScenarioProperty, plan: ScenarioPlan, scenario: ScenarioId): ScenarioProjection {
+    const assumptions = SCENARIOS[scenario];
+    const shares = Math.max(1, Math.min(100, Math.floor(plan.shares)));
+    const holdYears = Math.max(1, Math.min(SCENARIO_PLANNER_CONFIG.maxHoldYears, Math.floor(plan.holdYears)));
+    const ownership = shares / 100;
+
+    const annualAppreciationRate = Math.min(
+      APPRECIATION_CONFIG.MAX_RATE,
+      getAppreciationRate(property.class) + assumptions.appreciationShift
+    );
+    const quarterlyRate = calculateQuarterlyRate(annualAppreciationRate);
+    const valueAfterYears = (years: number) => property.value * Math.pow(1 + quarterlyRate, years * 4);
+
+    const purchaseCost = property.value * ownership;
+    const purchaseFees = FeeService.quote('purchase', { ethPrice: plan.ethPrice, amountUsd: purchaseCost }).totalUsd;
+    const totalInvested = purchaseCost + purchaseFees;
+
+    const years: ScenarioYear[] = [];
+    for (let year = 1; year <= holdYears; year++) {
+      // Rounded, as the rental income variation is seeded from the value's last digits
+      const rent = calculateRentalIncome(Math.round(valueAfterYears(year - 1)), property.rentalYield, shares, {
+        class: property.class,
+        yearBuilt: property.yearBuilt,
+      });
+      const netRent = rent.netMonthlyIncomePerShare * 12 * assumptions.rentFactor;
+      years.push({
+        year,
+        propertyValue: valueAfterYears(year),
+        netRent,
+        rentFees: this.rentCollectionFees(netRent, plan.ethPrice),
+      });
+    }
+
+    const disposition = DISPOSITION_CONFIG[property.class];
+    const exitValue = valueAfterYears(holdYears) * ownership;
+    const exitCosts = exitValue * (disposition.brokerageRate + disposition.transferTaxRate) * assumptions.exitCostFactor;
+    const exitProceeds = exitValue - exitCosts;
+
+    const netRent = years.reduce((sum, year) => sum + year.netRent, 0);
+    const rentFees = years.reduce((sum, year) => sum + year.rentFees, 0);
+    const profit = netRent - rentFees + exitProceeds - totalInvested;
+    const totalReturn = totalInvested > 0 ? profit / totalInvested : 0;
+
+    return {
+      scenario,
+      annualAppreciationRate,
+      purchaseCost,
+      purchaseFees,
+      totalInvested,
+      years,
+      netRent,
+      rentFees,
+      exitValue,
+      exitCosts,
+      exitProceeds,
+      profit,
+      totalReturn,
+      annualizedReturn: totalReturn > -1 ? Math.pow(1 + totalReturn, 1 / holdYears) - 1 : -1,
+    };
+  }
+
+  static projectAll(property: ScenarioProperty, plan: ScenarioPlan): Record<ScenarioId, ScenarioProjection> {
+    return Object.fromEntries(
+      SCENARIO_IDS.map(scenario => [scenario, this.project(property, plan, scenario)])
+    ) as Record<ScenarioId, ScenarioProjection>;
+  }
+
+  // A year of rent collections, each paying gas
+  private static rentCollectionFees(annualNetRent: number, ethPrice: number): number {
+    const collections = SCENARIO_PLANNER_CONFIG.rentCollectionsPerYear;
+    if (annualNetRent <= 0) return 0;
+    const perCollection = FeeService.quote('rent_collection', { ethPrice });
+    return perCollection.totalUsd * collections;
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+import { createProperty } from '../test/fixtures';
+import { SecondaryMarketService } from './secondaryMarketService';
+import { MockInvestorService } from './mockInvestorService';
+import { SimulationClock, setSimulationClock } from './simulationClock';
+import { WalletLedgerService } from './walletLedgerService';
+
+const ETH_USD = 2500;
+
+async function createWallet(userId: string, ethBalance: number): Promise<void> {
+  await getRepositories().wallets.create(userId, {
+    address: `0x${userId}`,
+    ethBalance: 0,
+    strikePrice: ETH_USD,
+    initialUsdValue: ethBalance * ETH_USD,
+    username: userId,
+    isActive: true,
+  });
+  await WalletLedgerService.recordOpeningBalance(userId, ethBalance);
+}
+
+describe('SecondaryMarketService on the memory backend', () => {
+  let propertyId: string;
+
+  beforeEach(async () => {
+    setRepositories(createMemoryRepositories());
+    setSimulationClock(new SimulationClock({ seed: 7, mode: 'frozen', startTime: new Date('2025-01-01T00:00:00Z') }));
+    propertyId = (await createProperty({ status: 'sold_out' })).id;
+
+    await createWallet('seller', 1);
+    await createWallet('buyer', 20);
+    await getRepositories().investments.add('seller', {
+      userId: 'seller',
+      propertyId,
+      sharesOwned: 10,
+      purchasePrice: 10,
+      purchaseUsdValue: 25000,
+      currentValue: 10,
+      purchaseDate: new Date('2025-01-01T00:00:00Z'),
+      propertyTotalPrice: 250000,
+      rentalYield: 0.08,
+    });
+  });
+
+  it('matches a buy against a resting sell and settles both sides', async () => {
+    const sell = await SecondaryMarketService.placeOrder('seller', 'Seller', {
+      propertyId, side: 'sell', type: 'limit', quantity: 4, limitPriceUsd: 2600, ethToUsdRate: ETH_USD,
+    });
+    expect(sell.order.status).toBe('open');
+    expect(await SecondaryMarketService.getAvailableShares('seller', propertyId)).toBe(6);
+
+    const buy = await SecondaryMarketService.placeOrder('buyer', 'Buyer', {
+      propertyId, side: 'buy', type: 'limit', quantity: 4, limitPriceUsd: 2700, ethToUsdRate: ETH_USD,
+    });
+    expect(buy.order.status).toBe('filled');
+    expect(buy.trades).toHaveLength(1);
+    expect(buy.trades[0].priceUsd).toBe(2600);
+
+    // The buyer settled on placing; the seller settles on their next visit
+    const buyerLots = (await getRepositories().investments.listByUser('buyer')).filter(lot => lot.propertyId === propertyId);
+    expect(buyerLots.map(lot => lot.sharesOwned)).toEqual([4]);
+    expect(await getRepositories().market.listPendingTrades('seller')).toHaveLength(1);
+
+    expect(await SecondaryMarketService.settlePendingTrades('seller')).toBe(1);
+    const sellerLots = await getRepositories().investments.listByUser('seller');
+    expect(sellerLots[0].sharesOwned).toBe(6);
+    expect(await getRepositories().market.listPendingTrades('seller')).toHaveLength(0);
+
+    // Proceeds less the transfer gas
+    const seller = await getRepositories().wallets.get('seller');
+    expect(seller!.ethBalance).toBeCloseTo(1 + (4 * 2600) / ETH_USD, 2);
+  });
+
+  it('refunds the unspent hold when a resting buy is cancelled', async () => {
+    const buy = await SecondaryMarketService.placeOrder('buyer', 'Buyer', {
+      propertyId, side: 'buy', type: 'limit', quantity: 2, limitPriceUsd: 2500, ethToUsdRate: ETH_USD,
+    });
+    expect((await getRepositories().wallets.get('buyer'))!.ethBalance).toBeCloseTo(18);
+
+    await SecondaryMarketService.cancelOrder('buyer', buy.order.id!);
+    expect((await getRepositories().market.getOrder(buy.order.id!))!.status).toBe('cancelled');
+    expect((await getRepositories().wallets.get('buyer'))!.ethBalance).toBeCloseTo(20);
+    await expect(SecondaryMarketService.cancelOrder('buyer', buy.order.id!)).rejects.toThrow('already cancelled');
+  });
+
+  it('moves shares to and from mock investors', async () => {
+    const investorId = await MockInvestorService.addMarketInvestor(propertyId, 'quinn_garcia', 'balanced', 5, 1);
+    await MockInvestorService.adjustHolding(investorId, -2, 1);
+
+    const [investor] = await MockInvestorService.getMockInvestors(propertyId);
+    expect(investor.sharesInvested).toBe(3);
+    expect(investor.investmentAmount).toBe(3);
+  });
+});
@@ -0,0 +1,754 @@
+import { getRepositories, type InvestmentRecord, type MarketOrderExecution } from '../repositories';
+import type { Property } from '../types/property';
+import { propertyService } from './firebaseService';
+import { MockInvestorService } from './mockInvestorService';
+import { PurchaseTransactionService } from './purchaseTransactionService';
+import { WalletLedgerService, InsufficientFundsError, type PostEntryInput } from './walletLedgerService';
+import { FeeService } from './feeService';
+import { getSimulationClock } from './simulationClock';
+import { RentalIncomeService } from './rentalIncomeService';
+
+/**
+ * Secondary market for fractional property shares.
+ *
+ * Each property has a continuous limit order book. Orders match with
+ * price-time priority and fills execute at the resting order's price.
+ * Users and mock investors trade against the same book.
+ *
+ * User buy orders hold ETH in the ledger escrow account while they rest, so
+ * a fill can never overdraw the buyer. Share and ETH movements for each side
+ * of a trade are settled by that side's owner: immediately for the user who
+ * placed the incoming order, and on their next visit (`settlePendingTrades`)
+ * for a user whose resting order was hit.
+ */
+
+export type OrderSide = 'buy' | 'sell';
+export type OrderType = 'limit' | 'market';
+export type OrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled';
+export type OrderOwnerType = 'user' | 'mock_investor';
+
+export interface MarketOrder {
+  id?: string;
+  propertyId: string;
+  side: OrderSide;
+  type: OrderType;
+  ownerType: OrderOwnerType;
+  ownerId: string;
+  ownerName: string;
+  quantity: number; // Shares
+  filledQuantity: number;
+  limitPriceUsd: number; // Per share; market orders store their worst acceptable price
+  ethToUsdRate: number; // Rate used to price ETH for fills against this order
+  fundsHeldEth: number; // ETH held in escrow for user buy orders
+  fundsSpentEth: number; // ETH released to sellers so far
+  status: OrderStatus;
+  createdAt: Date;
+  gameTime: Date;
+}
+
+export interface MarketTrade {
+  id?: string;
+  propertyId: string;
+  buyOrderId: string;
+  sellOrderId: string;
+  buyerType: OrderOwnerType;
+  buyerId: string;
+  buyerName: string;
+  sellerType: OrderOwnerType;
+  sellerId: string;
+  sellerName: string;
+  quantity: number;
+  priceUsd: number; // Per share
+  totalUsd: number;
+  totalEth: number;
+  buyerSettled: boolean;
+  sellerSettled: boolean;
+  pendingSettlementUserIds: string[]; // Users who still have to settle their side
+  executedAt: Date;
+  gameTime: Date;
+}
+
+export interface OrderMatch {
+  restingOrder: MarketOrder;
+  quantity: number;
+  priceUsd: number;
+}
+
+export interface OrderBookLevel {
+  priceUsd: number;
+  quantity: number;
+  orderCount: number;
+}
+
+export interface OrderBookSnapshot {
+  bids: OrderBookLevel[]; // Best (highest) first
+  asks: OrderBookLevel[]; // Best (lowest) first
+  bestBid: number | null;
+  bestAsk: number | null;
+  spread: number | null;
+  lastTradePrice: number | null;
+}
+
+export interface PlaceOrderInput {
+  propertyId: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  limitPriceUsd?: number; // Required for limit orders
+  ethToUsdRate: number;
+}
+
+export interface PlaceOrderResult {
+  order: MarketOrder;
+  trades: MarketTrade[];
+}
+
+interface OrderOwner {
+  type: OrderOwnerType;
+  id: string;
+  name: string;
+}
+
+interface InvestmentLot {
+  id: string;
+  propertyId: string;
+  propertyClass?: string;
+  propertyYearBuilt?: number;
+  sharesOwned: number;
+  purchasePrice: number;
+  purchaseUsdValue: number;
+  purchaseDate: Date;
+  rentalIncomeStartDate?: Date;
+  rentalAccruedCarry?: number;
+  loanId?: string | null;
+  propertyTotalPrice: number;
+  rentalYield: number;
+  status?: string;
+}
+
+export class SecondaryMarketService {
+  private static readonly ACTIVE_STATUSES: OrderStatus[] = ['open', 'partially_filled'];
+
+  /**
+   * Match an incoming order against resting orders using price-time priority.
+   * Pure: returns the fills without mutating anything.
+   */
+  static matchOrder(incoming: MarketOrder, restingOrders: MarketOrder[]): OrderMatch[] {
+    const opposite = incoming.side === 'buy' ? 'sell' : 'buy';
+    const crosses = (order: MarketOrder) =>
+      incoming.side === 'buy'
+        ? order.limitPriceUsd <= incoming.limitPriceUsd
+        : order.limitPriceUsd >= incoming.limitPriceUsd;
+
+    const candidates = restingOrders
+      .filter(order =>
+        order.side === opposite &&
+        this.ACTIVE_STATUSES.includes(order.status) &&
+        this.remaining(order) > 0 &&
+        // Self-trade prevention
+        !(order.ownerType === incoming.ownerType && order.ownerId === incoming.ownerId) &&
+        crosses(order)
+      )
+      .sort((a, b) => {
+        const priceOrder = incoming.side === 'buy'
+          ? a.limitPriceUsd - b.limitPriceUsd
+          : b.limitPriceUsd - a.limitPriceUsd;
+        return priceOrder !== 0 ? priceOrder : a.createdAt.getTime() - b.createdAt.getTime();
+      });
+
+    const matches: OrderMatch[] = [];
+    let unfilled = this.remaining(incoming);
+
+    for (const restingOrder of candidates) {
+      if (unfilled <= 0) break;
+      const quantity = Math.min(unfilled, this.remaining(restingOrder));
+      matches.push({ restingOrder, quantity, priceUsd: restingOrder.limitPriceUsd });
+      unfilled -= quantity;
+    }
+
+    return matches;
+  }
+
+  /**
+   * Aggregate active orders into price levels
+   */
+  static buildOrderBook(orders: MarketOrder[], trades: MarketTrade[] = []): OrderBookSnapshot {
+    const levels = (side: OrderSide) => {
+      const byPrice = new Map<number, OrderBookLevel>();
+      orders
+        .filter(order => order.side === side && this.ACTIVE_STATUSES.includes(order.status))
+        .forEach(order => {
+          const level = byPrice.get(order.limitPriceUsd) || { priceUsd: order.limitPriceUsd, quantity: 0, orderCount: 0 };
+          level.quantity += this.remaining(order);
+          level.orderCount += 1;
+          byPrice.set(order.limitPriceUsd, level);
+        });
+      return Array.from(byPrice.values()).sort((a, b) =>
+        side === 'buy' ? b.priceUsd - a.priceUsd : a.priceUsd - b.priceUsd
+      );
+    };
+
+    const bids = levels('buy');
+    const asks = levels('sell');
+    const bestBid = bids.length > 0 ? bids[0].priceUsd : null;
+    const bestAsk = asks.length > 0 ? asks[0].priceUsd : null;
+
+    return {
+      bids,
+      asks,
+      bestBid,
+      bestAsk,
+      spread: bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null,
+      lastTradePrice: trades.length > 0 ? trades[0].priceUsd : null,
+    };
+  }
+
+  /**
+   * Active orders for a property
+   */
+  static async getOpenOrders(propertyId: string): Promise<MarketOrder[]> {
+    return getRepositories().market.listActiveOrders(propertyId);
+  }
+
+  /**
+   * A user's orders for a property, newest first
+   */
+  static async getUserOrders(userId: string, propertyId: string): Promise<MarketOrder[]> {
+    const orders = await getRepositories().market.listOrdersByOwner(userId, propertyId);
+    return orders.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Trade history for a property, newest first
+   */
+  static async getRecentTrades(propertyId: string, maxTrades: number = 20): Promise<MarketTrade[]> {
+    const trades = await getRepositories().market.listTradesByProperty(propertyId);
+    return trades
+      .sort((a, b) => b.executedAt.getTime() - a.executedAt.getTime())
+      .slice(0, maxTrades);
+  }
+
+  /**
+   * Shares a user can still list: owned shares minus shares in active sell orders
+   */
+  static async getAvailableShares(userId: string, propertyId: string): Promise<number> {
+    const lots = await this.getLots(userId, propertyId);
+    const owned = lots.reduce((sum, lot) => sum + lot.sharesOwned, 0);
+
+    const orders = await this.getUserOrders(userId, propertyId);
+    const listed = orders
+      .filter(order => order.side === 'sell' && this.ACTIVE_STATUSES.includes(order.status))
+      .reduce((sum, order) => sum + this.remaining(order), 0);
+
+    return Math.max(0, owned - listed);
+  }
+
+  /**
+   * Place a user order, match it against the book and settle the user's side
+   */
+  static async placeOrder(userId: string, userName: string, input: PlaceOrderInput): Promise<PlaceOrderResult> {
+    if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+      throw new Error('Order quantity must be a positive whole number of shares');
+    }
+    if (input.type === 'limit' && !(input.limitPriceUsd && input.limitPriceUsd > 0)) {
+      throw new Error('Limit orders need a positive price');
+    }
+    if (await getRepositories().dispositions.get(input.propertyId)) {
+      throw new Error('This property has been sold and its shares no longer trade');
+    }
+
+    // Settle anything outstanding first so share balances are current
+    await this.settlePendingTrades(userId);
+
+    if (input.side === 'sell') {
+      const available = await this.getAvailableShares(userId, input.propertyId);
+      if (available < input.quantity) {
+        throw new Error(`Only ${available} shares available to sell`);
+      }
+    }
+
+    const limitPriceUsd = input.type === 'limit'
+      ? input.limitPriceUsd!
+      : await this.marketablePrice(input.propertyId, input.side, input.quantity, userId);
+
+    const orderId = getRepositories().market.newOrderId();
+    const order = this.newOrder(
+      { type: 'user', id: userId, name: userName },
+      input.propertyId,
+      input.side,
+      input.type,
+      input.quantity,
+      limitPriceUsd,
+      input.ethToUsdRate
+    );
+
+    // Hold the worst-case cost of a buy before it can match
+    if (input.side === 'buy') {
+      order.fundsHeldEth = (input.quantity * limitPriceUsd) / input.ethToUsdRate;
+      try {
+        await WalletLedgerService.recordEscrowHold(userId, order.fundsHeldEth, this.holdId(orderId));
+      } catch (error) {
+        if (error instanceof InsufficientFundsError) {
+          throw new Error(`Insufficient balance. Order needs ${order.fundsHeldEth.toFixed(4)} ETH`);
+        }
+        throw error;
+      }
+    }
+
+    const result = await this.executeOrder(orderId, order);
+    await this.settleOwnSide(userId, result);
+
+    console.log(`📈 ${input.side.toUpperCase()} ${input.type} order for ${input.quantity} shares @ $${limitPriceUsd.toFixed(2)}: ${result.trades.length} fill(s), ${result.order.status}`);
+    return result;
+  }
+
+  /**
+   * Cancel a user's active order and return any unspent held funds
+   */
+  static async cancelOrder(userId: string, orderId: string): Promise<void> {
+    const market = getRepositories().market;
+    const current = await market.getOrder(orderId);
+    if (!current) {
+      throw new Error('Order not found');
+    }
+    if (current.ownerType !== 'user' || current.ownerId !== userId) {
+      throw new Error('You can only cancel your own orders');
+    }
+
+    // The order may fill between the read and the cancel
+    if (!(await market.transitionOrder(orderId, this.ACTIVE_STATUSES, { status: 'cancelled' }))) {
+      const latest = await market.getOrder(orderId);
+      throw new Error(`Order is already ${latest?.status ?? current.status}`);
+    }
+
+    // Fills can't land once it is cancelled, so this read has the final spend
+    const order = await market.getOrder(orderId);
+    await this.refundUnspentFunds(order ?? { ...current, status: 'cancelled' });
+    console.log(`🚫 Cancelled order ${orderId}`);
+  }
+
+  /**
+   * Settle this user's side of trades that filled while they were away
+   */
+  static async settlePendingTrades(userId: string): Promise<number> {
+    const market = getRepositories().market;
+    const pendingTrades = await market.listPendingTrades(userId);
+
+    let settled = 0;
+    for (const trade of pendingTrades) {
+      try {
+        if (trade.buyerType === 'user' && trade.buyerId === userId && !trade.buyerSettled) {
+          await this.settleUserBuy(trade);
+          settled++;
+        }
+        if (trade.sellerType === 'user' && trade.sellerId === userId && !trade.sellerSettled) {
+          await this.settleUserSell(trade);
+          settled++;
+        }
+      } catch (error) {
+        console.error(`❌ Failed to settle trade ${trade.id}:`, error);
+      }
+    }
+
+    // Refund leftovers on buy orders that filled completely below their limit
+    const orders = await market.listOrdersByOwner(userId);
+    for (const order of orders.filter(order => order.status === 'filled')) {
+      await this.refundUnspentFunds(order);
+    }
+
+    if (settled > 0) {
+      console.log(`✅ Settled ${settled} pending secondary market trade side(s) for ${userId}`);
+    }
+    return settled;
+  }
+
+  /**
+   * Let mock investors place orders for a property (one market "tick")
+   */
+  static async simulateMockActivity(
+    propertyId: string,
+    propertyClass: 'A' | 'B' | 'C',
+    referencePriceUsd: number,
+    ethToUsdRate: number
+  ): Promise<MarketTrade[]> {
+    const holders = await MockInvestorService.getMockInvestors(propertyId);
+    const clock = getSimulationClock();
+    const intents = MockInvestorService.generateMarketOrders(
+      holders,
+      propertyClass,
+      referencePriceUsd,
+      () => clock.random()
+    );
+
+    const trades: MarketTrade[] = [];
+    for (const intent of intents) {
+      // New bidders get an id now and a mockInvestors record once they fill
+      const ownerId = intent.investorId || `mock_bidder_${getRepositories().market.newOrderId()}`;
+      const order = this.newOrder(
+        { type: 'mock_investor', id: ownerId, name: intent.username },
+        propertyId,
+        intent.side,
+        'limit',
+        intent.quantity,
+        intent.limitPrice,
+        ethToUsdRate
+      );
+
+      const result = await this.executeOrder(getRepositories().market.newOrderId(), order);
+      for (const trade of result.trades) {
+        await this.settleMockSides(trade, intent.investorType);
+      }
+      trades.push(...result.trades);
+    }
+
+    console.log(`🤖 Mock investors placed ${intents.length} order(s) on ${propertyId}, ${trades.length} trade(s)`);
+    return trades;
+  }
+
+  /**
+   * Write an order, match it against the book and record trades atomically
+   */
+  private static async executeOrder(orderId: string, order: MarketOrder): Promise<PlaceOrderResult> {
+    return getRepositories().market.executeOrder(orderId, order.propertyId, (resting) => {
+      const incoming: MarketOrder = { ...order, id: orderId };
+      const matches = this.matchOrder(incoming, resting);
+      const now = getSimulationClock().now();
+      const gameTime = getSimulationClock().gameNow();
+      const trades: Omit<MarketTrade, 'id'>[] = [];
+      const fills: MarketOrderExecution['fills'] = [];
+
+      for (const match of matches) {
+        const restingOrder = match.restingOrder;
+        const buyOrder = incoming.side === 'buy' ? incoming : restingOrder;
+        const sellOrder = incoming.side === 'sell' ? incoming : restingOrder;
+        const totalUsd = match.quantity * match.priceUsd;
+        const totalEth = totalUsd / buyOrder.ethToUsdRate;
+
+        trades.push({
+          propertyId: order.propertyId,
+          buyOrderId: buyOrder.id!,
+          sellOrderId: sellOrder.id!,
+          buyerType: buyOrder.ownerType,
+          buyerId: buyOrder.ownerId,
+          buyerName: buyOrder.ownerName,
+          sellerType: sellOrder.ownerType,
+          sellerId: sellOrder.ownerId,
+          sellerName: sellOrder.ownerName,
+          quantity: match.quantity,
+          priceUsd: match.priceUsd,
+          totalUsd,
+          totalEth,
+          buyerSettled: false,
+          sellerSettled: false,
+          pendingSettlementUserIds: [buyOrder, sellOrder]
+            .filter(side => side.ownerType === 'user')
+            .map(side => side.ownerId),
+          executedAt: now,
+          gameTime,
+        });
+
+        restingOrder.filledQuantity += match.quantity;
+        incoming.filledQuantity += match.quantity;
+        buyOrder.fundsSpentEth += totalEth;
+
+        fills.push({
+          orderId: restingOrder.id!,
+          changes: {
+            filledQuantity: restingOrder.filledQuantity,
+            fundsSpentEth: restingOrder.fundsSpentEth,
+            status: this.fillStatus(restingOrder),
+          },
+        });
+      }
+
+      incoming.status = this.fillStatus(incoming);
+      // Market orders never rest on the book
+      if (incoming.type === 'market' && this.ACTIVE_STATUSES.includes(incoming.status)) {
+        incoming.status = 'cancelled';
+      }
+
+      return { order: incoming, trades, fills };
+    });
+  }
+
+  /**
+   * Settle the placing user's side of each new trade and release leftover funds
+   */
+  private static async settleOwnSide(userId: string, result: PlaceOrderResult): Promise<void> {
+    for (const trade of result.trades) {
+      if (trade.buyerType === 'user' && trade.buyerId === userId) {
+        await this.settleUserBuy(trade);
+      } else {
+        await this.settleUserSell(trade);
+      }
+      await this.settleMockSides(trade);
+    }
+
+    if (!this.ACTIVE_STATUSES.includes(result.order.status)) {
+      await this.refundUnspentFunds(result.order);
+    }
+  }
+
+  /**
+   * Buyer side: pay the seller out of escrow and add a new investment lot
+   */
+  private static async settleUserBuy(trade: MarketTrade): Promise<void> {
+    // Pay first - the idempotency key makes a retry after a failure safe
+    await WalletLedgerService.recordEscrowRelease(
+      trade.buyerId,
+      trade.totalEth,
+      `${this.holdId(trade.buyOrderId)}_${trade.id}`,
+      this.transferGas(trade, 'buy')
+    );
+
+    const claimed = await this.claimSettlement(trade, 'buyer');
+    if (!claimed) return;
+
+    const property = await propertyService.getProperty(trade.propertyId);
+    if (!property) {
+      throw new Error(`Property ${trade.propertyId} not found`);
+    }
+    await PurchaseTransactionService.createInvestmentRecord(
+      trade.buyerId,
+      property as Property,
+      trade.quantity,
+      trade.totalEth,
+      trade.totalUsd
+    );
+  }
+
+  /**
+   * Network gas for one side's share transfer, priced at the trade's ETH rate
+   * and posted with that side's settlement
+   */
+  private static transferGas(trade: MarketTrade, side: 'buy' | 'sell'): PostEntryInput[] {
+    return FeeService.entries(
+      FeeService.quote('share_transfer', { ethPrice: trade.totalUsd / trade.totalEth }),
+      { reference: trade.propertyId, idempotencyKey: `fee_trade_${trade.id}_${side}` }
+    );
+  }
+
+  /**
+   * Seller side: credit proceeds and reduce lots first-in first-out
+   */
+  private static async settleUserSell(trade: MarketTrade): Promise<void> {
+    const lots = await this.getLots(trade.sellerId, trade.propertyId);
+    const clock = getSimulationClock();
+
+    // Credit first for the same reason as settleUserBuy
+    await WalletLedgerService.recordShareSale(
+      trade.sellerId,
+      trade.totalEth,
+      trade.propertyId,
+      `Sold ${trade.quantity} shares at $${trade.priceUsd.toFixed(2)}`,
+      `trade_${trade.id}_sell`,
+      { proceedsUsd: trade.totalUsd, costBasisUsd: this.costBasis(lots, trade.quantity) },
+      this.transferGas(trade, 'sell')
+    );
+
+    // Finished game months are paid on the share counts they were earned on
+    await RentalIncomeService.collectRent(trade.sellerId);
+
+    await getRepositories().market.settleSale(trade.id!, lots.map(lot => lot.id), (currentLots) => {
+      const changes: { id: string; changes: Partial<InvestmentRecord> }[] = [];
+      let toRemove = trade.quantity;
+
+      // Current lots, still oldest first
+      const ordered = lots
+        .map(lot => currentLots.find(current => current.id === lot.id))
+        .filter((lot): lot is InvestmentRecord => lot !== undefined)
+        .map(lot => this.toLot(lot));
+
+      for (const lot of ordered) {
+        if (toRemove <= 0) break;
+        if (lot.sharesOwned <= 0) continue;
+
+        const removed = Math.min(toRemove, lot.sharesOwned);
+        const remainingShares = lot.sharesOwned - removed;
+        const keepFraction = remainingShares / lot.sharesOwned;
+
+        // Bank this game month's rent on the old share count before it changes
+        const accrued = RentalIncomeService.accruedThisPeriod(lot);
+
+        changes.push({
+          id: lot.id,
+          changes: {
+            sharesOwned: remainingShares,
+            purchasePrice: lot.purchasePrice * keepFraction,
+            purchaseUsdValue: lot.purchaseUsdValue * keepFraction,
+            currentValue: lot.purchasePrice * keepFraction,
+            rentalAccruedCarry: accrued,
+            rentalIncomeStartDate: clock.now(),
+            lastUpdated: clock.now(),
+            ...(remainingShares === 0 ? { status: 'closed' as const } : {}),
+          },
+        });
+        toRemove -= removed;
+      }
+
+      if (toRemove > 0) {
+        console.warn(`⚠️ Trade ${trade.id} sold ${toRemove} more shares than ${trade.sellerId} held`);
+      }
+      return changes;
+    });
+  }
+
+  /**
+   * Mock investor sides of a trade settle straight away
+   */
+  private static async settleMockSides(
+    trade: MarketTrade,
+    investorType: 'conservative' | 'aggressive' | 'balanced' = 'balanced'
+  ): Promise<void> {
+    if (trade.buyerType === 'mock_investor') {
+      await this.settleMockSide(trade, 'buyer', investorType);
+    }
+    if (trade.sellerType === 'mock_investor') {
+      await this.settleMockSide(trade, 'seller', investorType);
+    }
+  }
+
+  /**
+   * Apply a fill to a mock investor's mockInvestors record
+   */
+  private static async settleMockSide(
+    trade: MarketTrade,
+    side: 'buyer' | 'seller',
+    investorType: 'conservative' | 'aggressive' | 'balanced'
+  ): Promise<void> {
+    const claimed = await this.claimSettlement(trade, side);
+    if (!claimed) return;
+
+    const pricePerShareEth = trade.totalEth / trade.quantity;
+    if (side === 'seller') {
+      await MockInvestorService.adjustHolding(trade.sellerId, -trade.quantity, pricePerShareEth);
+    } else if (trade.buyerId.startsWith('mock_bidder_')) {
+      await MockInvestorService.addMarketInvestor(trade.propertyId, trade.buyerName, investorType, trade.quantity, pricePerShareEth);
+    } else {
+      await MockInvestorService.adjustHolding(trade.buyerId, trade.quantity, pricePerShareEth);
+    }
+  }
+
+  /**
+   * Atomically mark one side of a trade settled; false if it already was
+   */
+  private static async claimSettlement(trade: MarketTrade, side: 'buyer' | 'seller'): Promise<boolean> {
+    return getRepositories().market.claimSettlement(trade.id!, side);
+  }
+
+  /**
+   * Return held funds a finished buy order did not spend
+   */
+  private static async refundUnspentFunds(order: MarketOrder): Promise<void> {
+    if (order.ownerType !== 'user' || order.side !== 'buy') return;
+
+    const unspent = order.fundsHeldEth - order.fundsSpentEth;
+    if (unspent <= 1e-9) return;
+
+    await WalletLedgerService.recordEscrowRefund(order.ownerId, unspent, this.holdId(order.id!));
+    await getRepositories().market.updateOrder(order.id!, { fundsSpentEth: order.fundsHeldEth });
+  }
+
+  /**
+   * Worst price needed to fill a market order from the current book
+   */
+  private static async marketablePrice(
+    propertyId: string,
+    side: OrderSide,
+    quantity: number,
+    userId: string
+  ): Promise<number> {
+    const probe = this.newOrder(
+      { type: 'user', id: userId, name: '' },
+      propertyId,
+      side,
+      'market',
+      quantity,
+      side === 'buy' ? Number.MAX_SAFE_INTEGER : 0,
+      1
+    );
+    const matches = this.matchOrder(probe, await this.getOpenOrders(propertyId));
+    if (matches.length === 0) {
+      throw new Error(`No ${side === 'buy' ? 'sellers' : 'buyers'} on the book for a market order`);
+    }
+    return matches[matches.length - 1].priceUsd;
+  }
+
+  private static newOrder(
+    owner: OrderOwner,
+    propertyId: string,
+    side: OrderSide,
+    type: OrderType,
+    quantity: number,
+    limitPriceUsd: number,
+    ethToUsdRate: number
+  ): MarketOrder {
+    const clock = getSimulationClock();
+    return {
+      propertyId,
+      side,
+      type,
+      ownerType: owner.type,
+      ownerId: owner.id,
+      ownerName: owner.name,
+      quantity,
+      filledQuantity: 0,
+      limitPriceUsd,
+      ethToUsdRate,
+      fundsHeldEth: 0,
+      fundsSpentEth: 0,
+      status: 'open',
+      createdAt: clock.now(),
+      gameTime: clock.gameNow(),
+    };
+  }
+
+  private static async getLots(userId: string, propertyId: string): Promise<InvestmentLot[]> {
+    const investments = await getRepositories().investments.listByUser(userId);
+    return investments
+      .filter(investment => investment.propertyId === propertyId)
+      .map(investment => this.toLot(investment))
+      // Shares securing an open mortgage can't be sold until it is repaid
+      .filter(lot => lot.sharesOwned > 0 && !lot.loanId)
+      .sort((a, b) => a.purchaseDate.getTime() - b.purchaseDate.getTime());
+  }
+
+  /**
+   * USD cost of the first `quantity` shares across lots, first-in first-out
+   */
+  private static costBasis(lots: InvestmentLot[], quantity: number): number {
+    let toRemove = quantity;
+    let basis = 0;
+    for (const lot of lots) {
+      if (toRemove <= 0) break;
+      const removed = Math.min(toRemove, lot.sharesOwned);
+      basis += lot.purchaseUsdValue * removed / lot.sharesOwned;
+      toRemove -= removed;
+    }
+    return basis;
+  }
+
+  private static remaining(order: MarketOrder): number {
+    return order.quantity - order.filledQuantity;
+  }
+
+  private static fillStatus(order: MarketOrder): OrderStatus {
+    if (order.filledQuantity >= order.quantity) return 'filled';
+    return order.filledQuantity > 0 ? 'partially_filled' : 'open';
+  }
+
+  private static holdId(orderId: string): string {
+    return `order_${orderId}`;
+  }
+
+  private static toLot(investment: InvestmentRecord): InvestmentLot {
+    return {
+      ...investment,
+      id: investment.id!,
+      sharesOwned: investment.sharesOwned || 0,
+      purchaseUsdValue: investment.purchaseUsdValue || 0,
+      propertyTotalPrice: investment.propertyTotalPrice || 0,
+      rentalYield: investment.rentalYield || 0,
+    };
+  }
+}
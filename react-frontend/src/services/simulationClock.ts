@@ -0,0 +1,332 @@
+/**
+ * Simulation Clock
+ *
+ * Single source of truth for time in the FracEstate simulation. Every service
+ * and hook that needs "now", converts real time into game time, or rolls a
+ * random number that affects the timeline should go through the active clock
+ * so that a session is consistent and can be replayed exactly from its seed.
+ *
+ * Two timelines are tracked:
+ * - Sim time: the wall-clock the app believes it is (replaces `new Date()`).
+ *   Stored timestamps such as `purchaseDate` live on this timeline.
+ * - Game time: sim time accelerated by `multiplier` (1 real hour = 2 game months).
+ */
+
+export const DEFAULT_TIME_MULTIPLIER = 1440; // 1 real hour = 60 game days = 2 game months
+
+export const GAME_DAY_MS = 1000 * 60 * 60 * 24;
+export const GAME_MONTH_MS = GAME_DAY_MS * 30.44;
+export const GAME_QUARTER_MS = GAME_MONTH_MS * 3;
+export const GAME_YEAR_MS = GAME_MONTH_MS * 12;
+
+export type SimulationClockMode = 'realtime' | 'frozen';
+
+export interface SimulationClockOptions {
+  multiplier?: number;
+  seed?: number;
+  mode?: SimulationClockMode;
+  startTime?: Date; // Sim time at construction, defaults to the real wall-clock
+}
+
+export interface SimulationClockSnapshot {
+  simTime: Date;
+  gameTime: Date;
+  multiplier: number;
+  seed: number;
+  mode: SimulationClockMode;
+  paused: boolean;
+}
+
+interface GameTimeSegment {
+  simMs: number;
+  gameMs: number;
+  multiplier: number;
+}
+
+type ClockListener = (snapshot: SimulationClockSnapshot) => void;
+
+export class SimulationClock {
+  private _multiplier: number;
+  private _seed: number;
+  private _mode: SimulationClockMode;
+  private _paused = false;
+  private rngState: number;
+
+  // Sim time is anchorSimMs + (wall-clock elapsed since anchorWallMs) while running
+  private anchorSimMs: number;
+  private anchorWallMs: number;
+
+  // Game time is pinned to sim time at construction and re-pinned whenever the
+  // multiplier changes, so each segment keeps the rate it was lived at
+  private gameSegments: GameTimeSegment[];
+
+  private listeners: Set<ClockListener> = new Set();
+
+  constructor(options: SimulationClockOptions = {}) {
+    this._multiplier = options.multiplier ?? DEFAULT_TIME_MULTIPLIER;
+    this._seed = options.seed ?? Date.now();
+    this._mode = options.mode ?? 'realtime';
+    this.rngState = this._seed >>> 0;
+
+    this.anchorWallMs = Date.now();
+    this.anchorSimMs = options.startTime ? options.startTime.getTime() : this.anchorWallMs;
+    this.gameSegments = [{ simMs: this.anchorSimMs, gameMs: this.anchorSimMs, multiplier: this._multiplier }];
+  }
+
+  get multiplier(): number {
+    return this._multiplier;
+  }
+
+  get seed(): number {
+    return this._seed;
+  }
+
+  get mode(): SimulationClockMode {
+    return this._mode;
+  }
+
+  get isPaused(): boolean {
+    return this._paused;
+  }
+
+  /**
+   * Whether sim time is currently advancing on its own
+   */
+  get isRunning(): boolean {
+    return this._mode === 'realtime' && !this._paused;
+  }
+
+  /**
+   * Current sim time - use this instead of `new Date()` in time-dependent code
+   */
+  now(): Date {
+    return new Date(this.nowMs());
+  }
+
+  nowMs(): number {
+    if (!this.isRunning) {
+      return this.anchorSimMs;
+    }
+    return this.anchorSimMs + (Date.now() - this.anchorWallMs);
+  }
+
+  /**
+   * Current game time on this clock's timeline
+   */
+  gameNow(): Date {
+    return this.toGameTime(this.now());
+  }
+
+  /**
+   * Map a sim-time timestamp onto the game timeline
+   */
+  toGameTime(simTime: Date): Date {
+    const simMs = simTime.getTime();
+    let segment = this.gameSegments[0];
+    for (const candidate of this.gameSegments) {
+      if (candidate.simMs <= simMs) segment = candidate;
+    }
+    return new Date(segment.gameMs + (simMs - segment.simMs) * segment.multiplier);
+  }
+
+  /**
+   * Convert a real/sim duration into a game duration
+   */
+  toGameMs(realMs: number): number {
+    return realMs * this._multiplier;
+  }
+
+  /**
+   * Convert a game duration into a real/sim duration
+   */
+  toRealMs(gameMs: number): number {
+    return gameMs / this._multiplier;
+  }
+
+  /**
+   * Project game time forward from a known (sim, game) pair to a later sim time
+   */
+  projectGameTime(simTime: Date, baseGameTime: Date, baseSimTime: Date): Date {
+    const simElapsedMs = simTime.getTime() - baseSimTime.getTime();
+    return new Date(baseGameTime.getTime() + this.toGameMs(simElapsedMs));
+  }
+
+  /**
+   * Game months elapsed between two sim-time timestamps (fractional)
+   */
+  gameMonthsBetween(from: Date, to: Date = this.now()): number {
+    return (this.toGameTime(to).getTime() - this.toGameTime(from).getTime()) / GAME_MONTH_MS;
+  }
+
+  /**
+   * Game months elapsed since a sim-time timestamp (fractional)
+   */
+  gameMonthsSince(from: Date): number {
+    return this.gameMonthsBetween(from, this.now());
+  }
+
+  /**
+   * Advance sim time by a real-time duration (works in every mode)
+   */
+  advance(realMs: number): void {
+    if (realMs < 0) {
+      throw new Error('SimulationClock cannot move backwards');
+    }
+    this.reanchor();
+    this.anchorSimMs += realMs;
+    this.notify();
+  }
+
+  /**
+   * Advance sim time by a game-time duration
+   */
+  advanceGameTime(gameMs: number): void {
+    this.advance(this.toRealMs(gameMs));
+  }
+
+  /**
+   * Fast-forward N game months, e.g. for demos and tests
+   */
+  fastForwardMonths(months: number): void {
+    console.log(`⏩ Fast-forwarding simulation clock by ${months} game month(s)`);
+    this.advanceGameTime(months * GAME_MONTH_MS);
+  }
+
+  pause(): void {
+    if (this._paused) return;
+    this.reanchor();
+    this._paused = true;
+    this.notify();
+  }
+
+  resume(): void {
+    if (!this._paused) return;
+    this.anchorWallMs = Date.now();
+    this._paused = false;
+    this.notify();
+  }
+
+  /**
+   * Stop sim time entirely - only `advance` moves it afterwards
+   */
+  freeze(): void {
+    this.reanchor();
+    this._mode = 'frozen';
+    this.notify();
+  }
+
+  /**
+   * Return to following the wall-clock from the current sim time
+   */
+  unfreeze(): void {
+    this.anchorWallMs = Date.now();
+    this._mode = 'realtime';
+    this.notify();
+  }
+
+  setMultiplier(multiplier: number): void {
+    if (multiplier <= 0) {
+      throw new Error('SimulationClock multiplier must be positive');
+    }
+    // Start a new segment at the current (sim, game) pair so game time neither jumps
+    // nor rescales what already happened
+    this.reanchor();
+    const gameMs = this.toGameTime(new Date(this.anchorSimMs)).getTime();
+    this.gameSegments = this.gameSegments.filter(s => s.simMs < this.anchorSimMs);
+    this.gameSegments.push({ simMs: this.anchorSimMs, gameMs, multiplier });
+    this._multiplier = multiplier;
+    this.notify();
+  }
+
+  /**
+   * Deterministic random number in [0, 1) derived from the seed (mulberry32)
+   */
+  random(): number {
+    this.rngState = (this.rngState + 0x6d2b79f5) >>> 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Restart the random sequence, optionally with a new seed
+   */
+  reseed(seed: number = this._seed): void {
+    this._seed = seed;
+    this.rngState = seed >>> 0;
+    this.notify();
+  }
+
+  snapshot(): SimulationClockSnapshot {
+    return {
+      simTime: this.now(),
+      gameTime: this.gameNow(),
+      multiplier: this._multiplier,
+      seed: this._seed,
+      mode: this._mode,
+      paused: this._paused,
+    };
+  }
+
+  subscribe(listener: ClockListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private reanchor(): void {
+    this.anchorSimMs = this.nowMs();
+    this.anchorWallMs = Date.now();
+  }
+
+  private notify(): void {
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+/**
+ * Build clock options from Vite env so QA can replay a run, e.g.
+ * VITE_SIM_SEED=42 VITE_SIM_MODE=frozen VITE_SIM_START=2025-01-01T00:00:00Z
+ */
+function optionsFromEnv(): SimulationClockOptions {
+  const env = import.meta.env;
+  const options: SimulationClockOptions = {};
+
+  if (env.VITE_SIM_SEED) options.seed = Number(env.VITE_SIM_SEED);
+  if (env.VITE_SIM_MULTIPLIER) options.multiplier = Number(env.VITE_SIM_MULTIPLIER);
+  if (env.VITE_SIM_MODE === 'frozen') options.mode = 'frozen';
+  if (env.VITE_SIM_START) options.startTime = new Date(env.VITE_SIM_START);
+
+  return options;
+}
+
+let activeClock = new SimulationClock(optionsFromEnv());
+
+/**
+ * The clock shared by all game-time services and hooks
+ */
+export function getSimulationClock(): SimulationClock {
+  return activeClock;
+}
+
+/**
+ * Inject a different clock (tests, demos, replays). Returns the previous one.
+ */
+export function setSimulationClock(clock: SimulationClock): SimulationClock {
+  const previous = activeClock;
+  activeClock = clock;
+  console.log(`🕐 Simulation clock replaced (seed ${clock.seed}, ${clock.mode}, x${clock.multiplier})`);
+  return previous;
+}
+
+// Export for browser console access
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).simulationClock = {
+    get: getSimulationClock,
+    set: setSimulationClock,
+    create: (options?: SimulationClockOptions) => new SimulationClock(options),
+  };
+}
@@ -0,0 +1,298 @@
+import { getRepositories } from '../repositories';
+import type { InvestmentRecord } from '../repositories/types';
+import { PortfolioAnalyticsService, type HoldingValuation } from './portfolioAnalyticsService';
+import { getSimulationClock } from './simulationClock';
+import type { LedgerEntry } from './walletLedgerService';
+
+/**
+ * Investor statements built from the investment lots, rental payment records
+ * and wallet ledger. Periods follow the game calendar. Cash lines come from
+ * the ledger, which is in ETH or USDC; ETH amounts are valued at the rate
+ * recorded with the entry where there is one and the caller's `ethPrice`
+ * otherwise.
+ */
+
+export type StatementPeriodType = 'month' | 'quarter' | 'year';
+
+export interface StatementPeriod {
+  type: StatementPeriodType;
+  label: string;
+  start: Date; // Game time, inclusive
+  end: Date; // Game time, exclusive
+}
+
+export type StatementLineCategory = 'purchase' | 'rent' | 'interest' | 'fee' | 'debt_service' | 'capital_call' | 'sale';
+
+export interface StatementLine {
+  gameTime: Date;
+  category: StatementLineCategory;
+  description: string;
+  propertyId?: string;
+  amountEth?: number;
+  amountUsd: number;
+}
+
+export interface AccountStatement {
+  userId: string;
+  period: StatementPeriod;
+  generatedAt: Date;
+  holdings: HoldingValuation[]; // At the period end, or now for the current period
+  lines: StatementLine[];
+  totals: {
+    openingValueUsd: number;
+    closingValueUsd: number;
+    purchasesUsd: number;
+    rentUsd: number;
+    interestUsd: number;
+    feesUsd: number;
+    debtServiceUsd: number; // Mortgage installments and payoffs
+    capitalCallsUsd: number; // Paid towards renovations
+    saleProceedsUsd: number;
+    appreciationUsd: number;
+  };
+}
+
+export interface RealizedGain {
+  gameTime: Date;
+  propertyId: string;
+  description: string;
+  proceedsUsd: number;
+  costBasisUsd: number | null; // Sales settled before cost basis was recorded have none
+  gainUsd: number | null;
+}
+
+export interface TaxSummary {
+  userId: string;
+  year: number;
+  period: StatementPeriod;
+  generatedAt: Date;
+  rentalIncome: {
+    totalUsd: number;
+    byProperty: { propertyId: string; propertyAddress: string; amountUsd: number }[];
+    unattributedUsd: number; // Rent collected in pooled payouts with no per-property record
+  };
+  interestIncomeUsd: number;
+  feesUsd: number;
+  realizedGains: RealizedGain[];
+  realizedGainUsd: number;
+  unrealizedGains: (HoldingValuation & { gainUsd: number })[];
+  unrealizedGainUsd: number;
+}
+
+const LEDGER_CATEGORIES: Partial<Record<LedgerEntry['type'], StatementLineCategory>> = {
+  rent: 'rent',
+  interest: 'interest',
+  fee: 'fee',
+  loan_payment: 'debt_service',
+  capital_call: 'capital_call',
+  share_sale: 'sale',
+};
+
+export class StatementService {
+  /**
+   * Game-calendar period containing `gameTime`
+   */
+  static periodContaining(type: StatementPeriodType, gameTime: Date): StatementPeriod {
+    const year = gameTime.getFullYear();
+    const month = gameTime.getMonth();
+
+    switch (type) {
+      case 'month':
+        return {
+          type,
+          label: gameTime.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+          start: new Date(year, month, 1),
+          end: new Date(year, month + 1, 1),
+        };
+      case 'quarter': {
+        const quarter = Math.floor(month / 3);
+        return {
+          type,
+          label: `Q${quarter + 1} ${year}`,
+          start: new Date(year, quarter * 3, 1),
+          end: new Date(year, quarter * 3 + 3, 1),
+        };
+      }
+      case 'year':
+        return { type, label: `${year}`, start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1) };
+    }
+  }
+
+  /**
+   * The current period and the ones before it, newest first
+   */
+  static listPeriods(type: StatementPeriodType, count: number = 12): StatementPeriod[] {
+    const periods = [this.periodContaining(type, getSimulationClock().gameNow())];
+    while (periods.length < count) {
+      const previous = periods[periods.length - 1];
+      periods.push(this.periodContaining(type, new Date(previous.start.getTime() - 1)));
+    }
+    return periods;
+  }
+
+  /**
+   * Holdings, cash activity and appreciation for one period
+   */
+  static async generateAccountStatement(userId: string, period: StatementPeriod, ethPrice: number): Promise<AccountStatement> {
+    const asOf = getSimulationClock().gameNow();
+    const closingTime = period.end < asOf ? period.end : asOf;
+    const repositories = getRepositories();
+
+    const [records, entries, opening, closing] = await Promise.all([
+      repositories.investments.listByUser(userId),
+      repositories.wallets.listLedgerEntries(userId),
+      PortfolioAnalyticsService.valueHoldings(userId, period.start),
+      PortfolioAnalyticsService.valueHoldings(userId, closingTime),
+    ]);
+
+    const lines = [
+      ...this.purchaseLines(records, period),
+      ...this.ledgerLines(entries, period, ethPrice),
+    ].sort((a, b) => a.gameTime.getTime() - b.gameTime.getTime());
+
+    const sum = (category: StatementLineCategory) =>
+      lines.filter(line => line.category === category).reduce((total, line) => total + line.amountUsd, 0);
+
+    // Lots bought in the period appreciate from their cost, older ones from their opening value
+    const openingValues = new Map(opening.map(holding => [holding.investmentId, holding.value]));
+    const appreciationUsd = closing.reduce(
+      (total, holding) => total + holding.value - (openingValues.get(holding.investmentId) ?? holding.invested),
+      0
+    );
+
+    return {
+      userId,
+      period,
+      generatedAt: asOf,
+      holdings: closing,
+      lines,
+      totals: {
+        openingValueUsd: opening.reduce((total, holding) => total + holding.value, 0),
+        closingValueUsd: closing.reduce((total, holding) => total + holding.value, 0),
+        purchasesUsd: sum('purchase'),
+        rentUsd: sum('rent'),
+        interestUsd: sum('interest'),
+        feesUsd: sum('fee'),
+        debtServiceUsd: sum('debt_service'),
+        capitalCallsUsd: sum('capital_call'),
+        saleProceedsUsd: sum('sale'),
+        appreciationUsd,
+      },
+    };
+  }
+
+  /**
+   * Rental income, interest, fees and realized/unrealized gains for a game year
+   */
+  static async generateTaxSummary(userId: string, year: number, ethPrice: number): Promise<TaxSummary> {
+    const asOf = getSimulationClock().gameNow();
+    const period = this.periodContaining('year', new Date(year, 0, 1));
+    const yearEnd = period.end < asOf ? period.end : asOf;
+    const repositories = getRepositories();
+
+    const [records, entries, payments, holdings] = await Promise.all([
+      repositories.investments.listByUser(userId),
+      repositories.wallets.listLedgerEntries(userId),
+      repositories.rentalPayments.listByUser(userId),
+      PortfolioAnalyticsService.valueHoldings(userId, yearEnd),
+    ]);
+
+    const lines = this.ledgerLines(entries, period, ethPrice);
+    const total = (category: StatementLineCategory) =>
+      lines.filter(line => line.category === category).reduce((sum, line) => sum + line.amountUsd, 0);
+
+    // Per-property rent comes from payment records; pooled collections only exist in the ledger
+    const byPropertyId = new Map<string, number>();
+    payments
+      .filter(payment => this.inPeriod(new Date(payment.gameDate), period))
+      .forEach(payment => byPropertyId.set(payment.propertyId, (byPropertyId.get(payment.propertyId) ?? 0) + payment.amount));
+    const byProperty = [...byPropertyId.entries()].map(([propertyId, amountUsd]) => ({
+      propertyId,
+      propertyAddress: records.find(record => record.propertyId === propertyId)?.propertyAddress ?? propertyId,
+      amountUsd,
+    }));
+    const attributedUsd = byProperty.reduce((sum, property) => sum + property.amountUsd, 0);
+    const ledgerRentUsd = total('rent');
+
+    const realizedGains = entries
+      .filter(entry => entry.type === 'share_sale' && this.inPeriod(new Date(entry.gameTime), period))
+      .map(entry => {
+        const proceedsUsd = this.metadataNumber(entry, 'proceedsUsd') ?? this.usdValue(entry, ethPrice);
+        const costBasisUsd = this.metadataNumber(entry, 'costBasisUsd');
+        return {
+          gameTime: new Date(entry.gameTime),
+          propertyId: entry.reference ?? '',
+          description: entry.description,
+          proceedsUsd,
+          costBasisUsd,
+          gainUsd: costBasisUsd === null ? null : proceedsUsd - costBasisUsd,
+        };
+      });
+
+    const unrealizedGains = holdings.map(holding => ({ ...holding, gainUsd: holding.value - holding.invested }));
+
+    return {
+      userId,
+      year,
+      period,
+      generatedAt: asOf,
+      rentalIncome: {
+        totalUsd: Math.max(ledgerRentUsd, attributedUsd),
+        byProperty,
+        unattributedUsd: Math.max(0, ledgerRentUsd - attributedUsd),
+      },
+      interestIncomeUsd: total('interest'),
+      feesUsd: total('fee'),
+      realizedGains,
+      realizedGainUsd: realizedGains.reduce((sum, gain) => sum + (gain.gainUsd ?? 0), 0),
+      unrealizedGains,
+      unrealizedGainUsd: unrealizedGains.reduce((sum, holding) => sum + holding.gainUsd, 0),
+    };
+  }
+
+  private static purchaseLines(records: InvestmentRecord[], period: StatementPeriod): StatementLine[] {
+    const clock = getSimulationClock();
+    return records
+      .map(record => ({ record, gameTime: clock.toGameTime(new Date(record.purchaseDate)) }))
+      .filter(({ record, gameTime }) => (record.purchaseUsdValue ?? 0) > 0 && this.inPeriod(gameTime, period))
+      .map(({ record, gameTime }) => ({
+        gameTime,
+        category: 'purchase' as const,
+        description: `${record.sharesOwned} shares of ${record.propertyAddress ?? record.propertyId}`,
+        propertyId: record.propertyId,
+        amountEth: record.purchasePrice,
+        amountUsd: record.purchaseUsdValue ?? 0,
+      }));
+  }
+
+  private static ledgerLines(entries: LedgerEntry[], period: StatementPeriod, ethPrice: number): StatementLine[] {
+    return entries.flatMap(entry => {
+      const category = LEDGER_CATEGORIES[entry.type];
+      const gameTime = new Date(entry.gameTime);
+      if (!category || !this.inPeriod(gameTime, period)) return [];
+
+      const recordedUsd = this.metadataNumber(entry, category === 'sale' ? 'proceedsUsd' : 'usdAmount');
+      return [{
+        gameTime,
+        category,
+        description: entry.description,
+        propertyId: category === 'sale' ? entry.reference : undefined,
+        amountEth: entry.asset === 'USDC' ? undefined : entry.amount,
+        amountUsd: recordedUsd ?? this.usdValue(entry, ethPrice),
+      }];
+    });
+  }
+
+  private static usdValue(entry: LedgerEntry, ethPrice: number): number {
+    return entry.asset === 'USDC' ? entry.amount : entry.amount * ethPrice;
+  }
+
+  private static metadataNumber(entry: LedgerEntry, key: string): number | null {
+    const value = entry.metadata?.[key];
+    return typeof value === 'number' ? value : null;
+  }
+
+  private static inPeriod(gameTime: Date, period: StatementPeriod): boolean {
+    return gameTime >= period.start && gameTime < period.end;
+  }
+}
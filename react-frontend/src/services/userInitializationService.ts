@@ -1,5 +1,4 @@
-import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../firebase/config';
+import { getRepositories } from '../repositories';
 import { userScopedPropertyService } from './userScopedFirebaseService';
 import { UserScopedPropertyPoolManager } from './userScopedPropertyPoolManager';
 
@@ -96,16 +95,14 @@ export class UserInitializationService {
    */
   async getUserGameState(userId: string): Promise<UserGameState | null> {
     try {
-      const userStateRef = doc(db, 'users', userId);
-      const docSnapshot = await getDoc(userStateRef);
+      const data = await getRepositories().userProfiles.get(userId);
       
-      if (docSnapshot.exists()) {
-        const data = docSnapshot.data();
+      if (data) {
         return {
           ...data,
-          gameStartTime: data.gameStartTime?.toDate() || new Date(),
-          createdAt: data.createdAt?.toDate() || new Date(),
-          lastActiveAt: data.lastActiveAt?.toDate() || new Date(),
+          gameStartTime: data.gameStartTime || new Date(),
+          createdAt: data.createdAt || new Date(),
+          lastActiveAt: data.lastActiveAt || new Date(),
         } as UserGameState;
       }
       
@@ -121,13 +118,12 @@ export class UserInitializationService {
    */
   async saveUserGameState(userId: string, gameState: UserGameState): Promise<void> {
     try {
-      const userStateRef = doc(db, 'users', userId);
-      await setDoc(userStateRef, {
+      await getRepositories().userProfiles.save(userId, {
         ...gameState,
-        gameStartTime: serverTimestamp(),
-        lastActiveAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
-      }, { merge: true });
+        gameStartTime: new Date(),
+        lastActiveAt: new Date(),
+        updatedAt: new Date()
+      });
     } catch (error) {
       console.error(`Error saving user game state for ${userId}:`, error);
       throw error;
@@ -139,10 +135,9 @@ export class UserInitializationService {
    */
   async updateUserActivity(userId: string): Promise<void> {
     try {
-      const userStateRef = doc(db, 'users', userId);
-      await setDoc(userStateRef, {
-        lastActiveAt: serverTimestamp()
-      }, { merge: true });
+      await getRepositories().userProfiles.save(userId, {
+        lastActiveAt: new Date()
+      });
     } catch (error) {
       console.error(`Error updating user activity for ${userId}:`, error);
     }
@@ -201,14 +196,13 @@ export class UserInitializationService {
       }
 
       // Reset user state
-      const userStateRef = doc(db, 'users', userId);
-      await setDoc(userStateRef, {
+      await getRepositories().userProfiles.save(userId, {
         isInitialized: false,
         propertiesInitialized: false,
         propertyCount: 0,
         poolManagerStarted: false,
-        resetAt: serverTimestamp()
-      }, { merge: true });
+        resetAt: new Date()
+      });
 
       console.log(`✅ User ${userId} reset complete`);
 
@@ -1,24 +1,4 @@
-import {
-  collection,
-  doc,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  getDocs,
-  getDoc,
-  query,
-  where,
-  orderBy,
-  limit,
-  onSnapshot,
-  Timestamp,
-  writeBatch,
-  serverTimestamp,
-  QueryConstraint,
-  DocumentSnapshot,
-  QuerySnapshot
-} from 'firebase/firestore';
-import { db } from '../firebase/config';
+import { getRepositories } from '../repositories';
 import { Property, PropertyFilters, PropertySortOptions, WatchlistItem, PropertyStatus } from '../types/property';
 
 // User-scoped collection paths
@@ -40,12 +20,7 @@ export class UserScopedPropertyService {
   // Create a new property for a specific user
   async createProperty(userId: string, property: Omit<Property, 'id'>): Promise<string> {
     try {
-      const userPropertiesRef = collection(db, getUserCollectionPath(userId, 'properties'));
-      const docRef = await addDoc(userPropertiesRef, {
-        ...property,
-        createdAt: serverTimestamp()
-      });
-      return docRef.id;
+      return await getRepositories().userProperties(userId).create(property);
     } catch (error) {
       console.error('Error creating property:', error);
       throw new Error('Failed to create property');
@@ -55,21 +30,7 @@ export class UserScopedPropertyService {
   // Create multiple properties for a user
   async createPropertiesBatch(userId: string, properties: Omit<Property, 'id'>[]): Promise<string[]> {
     try {
-      const batch = writeBatch(db);
-      const propertyIds: string[] = [];
-      const userPropertiesRef = collection(db, getUserCollectionPath(userId, 'properties'));
-
-      for (const property of properties) {
-        const docRef = doc(userPropertiesRef);
-        batch.set(docRef, {
-          ...property,
-          createdAt: serverTimestamp()
-        });
-        propertyIds.push(docRef.id);
-      }
-
-      await batch.commit();
-      return propertyIds;
+      return await getRepositories().userProperties(userId).createMany(properties);
     } catch (error) {
       console.error('Error creating properties batch:', error);
       throw new Error('Failed to create properties batch');
@@ -84,41 +45,12 @@ export class UserScopedPropertyService {
     limitCount?: number
   ): Promise<Property[]> {
     try {
-      const userPropertiesRef = collection(db, getUserCollectionPath(userId, 'properties'));
-      const constraints: QueryConstraint[] = [];
-
-      // Apply filters
-      if (filters) {
-        if (filters.status && filters.status.length > 0) {
-          constraints.push(where('status', 'in', filters.status));
-        }
-        if (filters.class && filters.class.length > 0) {
-          constraints.push(where('class', 'in', filters.class));
-        }
-        if (filters.region && filters.region.length > 0) {
-          constraints.push(where('region', 'in', filters.region));
-        }
-      }
-
-      // Apply sorting
-      if (sortOptions) {
-        constraints.push(orderBy(sortOptions.field, sortOptions.direction));
-      } else {
-        constraints.push(orderBy('createdAt', 'desc'));
-      }
-
-      // Apply limit
-      if (limitCount) {
-        constraints.push(limit(limitCount));
-      }
-
-      const q = query(userPropertiesRef, ...constraints);
-      const querySnapshot = await getDocs(q);
-
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as Property));
+      // Price range is not applied to user-scoped listings
+      return await getRepositories().userProperties(userId).list({
+        filters: filters ? { ...filters, priceRange: undefined } : undefined,
+        sort: sortOptions,
+        limit: limitCount
+      });
     } catch (error) {
       console.error('Error getting properties:', error);
       throw new Error('Failed to get properties');
@@ -128,15 +60,13 @@ export class UserScopedPropertyService {
   // Get properties count by status for a user
   async getPropertiesCountByStatus(userId: string): Promise<Record<PropertyStatus, number>> {
     try {
-      const userPropertiesRef = collection(db, getUserCollectionPath(userId, 'properties'));
-      const [available, endingSoon] = await Promise.all([
-        getDocs(query(userPropertiesRef, where('status', '==', 'available'))),
-        getDocs(query(userPropertiesRef, where('status', '==', 'ending_soon')))
-      ]);
+      const properties = await getRepositories().userProperties(userId).list();
 
       return {
-        available: available.size,
-        ending_soon: endingSoon.size
+        available: properties.filter(p => p.status === 'available').length,
+        ending_soon: properties.filter(p => p.status === 'ending_soon').length,
+        sold_out: properties.filter(p => p.status === 'sold_out').length,
+        disposed: properties.filter(p => p.status === 'disposed').length
       };
     } catch (error) {
       console.error('Error getting properties count:', error);
@@ -151,25 +81,8 @@ export class UserScopedPropertyService {
     filters?: PropertyFilters
   ): () => void {
     try {
-      const userPropertiesRef = collection(db, getUserCollectionPath(userId, 'properties'));
-      const constraints: QueryConstraint[] = [orderBy('createdAt', 'desc')];
-
-      // Apply filters
-      if (filters?.status && filters.status.length > 0) {
-        constraints.push(where('status', 'in', filters.status));
-      }
-
-      const q = query(userPropertiesRef, ...constraints);
-
-      return onSnapshot(q, (querySnapshot) => {
-        const properties = querySnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as Property));
-        callback(properties);
-      }, (error) => {
-        console.error('Error in property subscription:', error);
-      });
+      const statusFilter = filters?.status && filters.status.length > 0 ? { status: filters.status } : undefined;
+      return getRepositories().userProperties(userId).subscribe(callback, { filters: statusFilter });
     } catch (error) {
       console.error('Error setting up property subscription:', error);
       return () => {}; // Return no-op unsubscribe function
@@ -179,11 +92,7 @@ export class UserScopedPropertyService {
   // Update property status for a user
   async updatePropertyStatus(userId: string, propertyId: string, status: PropertyStatus): Promise<void> {
     try {
-      const propertyRef = doc(db, getUserCollectionPath(userId, 'properties'), propertyId);
-      await updateDoc(propertyRef, {
-        status,
-        statusUpdatedAt: serverTimestamp()
-      });
+      await getRepositories().userProperties(userId).update(propertyId, { status });
     } catch (error) {
       console.error('Error updating property status:', error);
       throw new Error('Failed to update property status');
@@ -196,17 +105,9 @@ export class UserScopedPropertyService {
     updates: { id: string; status: PropertyStatus }[]
   ): Promise<void> {
     try {
-      const batch = writeBatch(db);
-
-      updates.forEach(({ id, status }) => {
-        const propertyRef = doc(db, getUserCollectionPath(userId, 'properties'), id);
-        batch.update(propertyRef, {
-          status,
-          statusUpdatedAt: serverTimestamp()
-        });
-      });
-
-      await batch.commit();
+      await getRepositories().userProperties(userId).updateMany(
+        updates.map(({ id, status }) => ({ id, changes: { status } }))
+      );
     } catch (error) {
       console.error('Error updating property statuses:', error);
       throw new Error('Failed to update property statuses');
@@ -216,8 +117,7 @@ export class UserScopedPropertyService {
   // Delete a property for a user
   async deleteProperty(userId: string, propertyId: string): Promise<void> {
     try {
-      const propertyRef = doc(db, getUserCollectionPath(userId, 'properties'), propertyId);
-      await deleteDoc(propertyRef);
+      await getRepositories().userProperties(userId).delete(propertyId);
     } catch (error) {
       console.error('Error deleting property:', error);
       throw new Error('Failed to delete property');
@@ -227,22 +127,12 @@ export class UserScopedPropertyService {
   // Get expired properties for a user (simplified query to avoid Firebase internal errors)
   async getExpiredProperties(userId: string): Promise<Property[]> {
     try {
-      const userPropertiesRef = collection(db, getUserCollectionPath(userId, 'properties'));
       // Simplified query - get all active properties and filter client-side
-      const q = query(
-        userPropertiesRef,
-        where('status', 'in', ['available', 'ending_soon'])
-      );
-
-      const querySnapshot = await getDocs(q);
+      const properties = await this.getActiveProperties(userId);
       const now = new Date();
 
       // Filter client-side to avoid complex Firebase queries on new collections
-      return querySnapshot.docs
-        .map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as Property))
+      return properties
         .filter(property => {
           const selloutTime = property.selloutTime.toDate();
           return selloutTime <= now;
@@ -256,23 +146,14 @@ export class UserScopedPropertyService {
   // Get ending soon properties for a user (simplified query to avoid Firebase internal errors)
   async getEndingSoonProperties(userId: string, thresholdMinutes: number = 30): Promise<Property[]> {
     try {
-      const userPropertiesRef = collection(db, getUserCollectionPath(userId, 'properties'));
       // Simplified query - just get available properties and filter client-side
-      const q = query(
-        userPropertiesRef,
-        where('status', '==', 'available')
-      );
-
-      const querySnapshot = await getDocs(q);
+      const properties = await getRepositories().userProperties(userId).list();
       const now = new Date();
       const thresholdTime = new Date(now.getTime() + (thresholdMinutes * 60 * 1000));
 
       // Filter client-side to avoid complex Firebase queries on new collections
-      return querySnapshot.docs
-        .map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as Property))
+      return properties
+        .filter(property => property.status === 'available')
         .filter(property => {
           const selloutTime = property.selloutTime.toDate();
           return selloutTime <= thresholdTime && selloutTime > now;
@@ -286,17 +167,8 @@ export class UserScopedPropertyService {
   // Get active properties (available + ending soon) for a user
   async getActiveProperties(userId: string): Promise<Property[]> {
     try {
-      const userPropertiesRef = collection(db, getUserCollectionPath(userId, 'properties'));
-      const q = query(
-        userPropertiesRef,
-        where('status', 'in', ['available', 'ending_soon'])
-      );
-
-      const querySnapshot = await getDocs(q);
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as Property));
+      const properties = await getRepositories().userProperties(userId).list();
+      return properties.filter(p => p.status === 'available' || p.status === 'ending_soon');
     } catch (error) {
       console.error('Error getting active properties:', error);
       return [];
@@ -339,13 +211,7 @@ export class UserScopedWatchlistService {
   // Add property to user's watchlist
   async addToWatchlist(userId: string, propertyId: string): Promise<string> {
     try {
-      const userWatchlistRef = collection(db, getUserCollectionPath(userId, 'watchlist'));
-      const docRef = await addDoc(userWatchlistRef, {
-        userId,
-        propertyId,
-        addedDate: serverTimestamp()
-      });
-      return docRef.id;
+      return await getRepositories().watchlists.add(userId, propertyId);
     } catch (error) {
       console.error('Error adding to watchlist:', error);
       throw new Error('Failed to add to watchlist');
@@ -355,8 +221,7 @@ export class UserScopedWatchlistService {
   // Remove property from user's watchlist
   async removeFromWatchlist(userId: string, watchlistItemId: string): Promise<void> {
     try {
-      const watchlistItemRef = doc(db, getUserCollectionPath(userId, 'watchlist'), watchlistItemId);
-      await deleteDoc(watchlistItemRef);
+      await getRepositories().watchlists.remove(userId, watchlistItemId);
     } catch (error) {
       console.error('Error removing from watchlist:', error);
       throw new Error('Failed to remove from watchlist');
@@ -366,14 +231,7 @@ export class UserScopedWatchlistService {
   // Get user's watchlist
   async getWatchlist(userId: string): Promise<WatchlistItem[]> {
     try {
-      const userWatchlistRef = collection(db, getUserCollectionPath(userId, 'watchlist'));
-      const q = query(userWatchlistRef, orderBy('addedDate', 'desc'));
-      const querySnapshot = await getDocs(q);
-
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as WatchlistItem));
+      return await getRepositories().watchlists.list(userId);
     } catch (error) {
       console.error('Error getting watchlist:', error);
       throw new Error('Failed to get watchlist');
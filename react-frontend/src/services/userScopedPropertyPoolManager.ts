@@ -1,4 +1,6 @@
 import { userScopedPropertyService } from './userScopedFirebaseService';
+import { SavedSearchService } from './savedSearchService';
+import { PropertySearchIndex } from './propertySearchIndex';
 import { generateProperty, generatePropertyBatch, validateClassDistribution } from '../utils/propertyGenerator';
 import { Property, PropertyStatus } from '../types/property';
 import { Timestamp } from 'firebase/firestore';
@@ -178,6 +180,7 @@ export class UserScopedPropertyPoolManager {
       console.log(`🔄 Instantly replacing ${propertiesToReplace.length} properties for user ${this.userId}...`);
       
       const replacementPromises: Promise<any>[] = [];
+      const created: Property[] = [];
       
       // For each property to replace, delete the old one and create a new one
       for (const property of propertiesToReplace) {
@@ -190,11 +193,17 @@ export class UserScopedPropertyPoolManager {
         const newProperty = await generateProperty();
         console.log(`✨ Creating new property: ${newProperty.address} (Class ${newProperty.class}) for user ${this.userId}`);
         
-        replacementPromises.push(userScopedPropertyService.createProperty(this.userId, newProperty));
+        replacementPromises.push(
+          userScopedPropertyService.createProperty(this.userId, newProperty)
+            .then(id => created.push({ ...newProperty, id }))
+        );
       }
       
       await Promise.all(replacementPromises);
+      PropertySearchIndex.forPool(PropertySearchIndex.userPool(this.userId))
+        .remove(propertiesToReplace.map(property => property.id));
       console.log(`✅ Successfully replaced ${propertiesToReplace.length} properties instantly for user ${this.userId}`);
+      await this.announceNewProperties(created);
       
     } catch (error) {
       console.error(`Error during instant property replacement for user ${this.userId}:`, error);
@@ -259,6 +268,7 @@ export class UserScopedPropertyPoolManager {
       if (properties.length > 0) {
         const propertyIds = await userScopedPropertyService.createPropertiesBatch(this.userId, properties);
         console.log(`Successfully created ${propertyIds.length} properties for user ${this.userId}`);
+        await this.announceNewProperties(properties.map((property, index) => ({ ...property, id: propertyIds[index] })));
       }
     } catch (error) {
       console.error(`Failed to generate property batch for user ${this.userId}:`, error);
@@ -266,6 +276,19 @@ export class UserScopedPropertyPoolManager {
     }
   }
 
+  /**
+   * Index new properties for search, and tell this user about any that match
+   * their saved searches
+   */
+  private async announceNewProperties(properties: Property[]): Promise<void> {
+    PropertySearchIndex.forPool(PropertySearchIndex.userPool(this.userId)).upsertAll(properties);
+    try {
+      await SavedSearchService.notifyMatches(this.userId, properties);
+    } catch (error) {
+      console.error(`Failed to check saved searches for user ${this.userId}:`, error);
+    }
+  }
+
   /**
    * Validate and correct class distribution for this user
    */
@@ -1,24 +1,27 @@
-import {
-  collection,
-  doc,
-  setDoc,
-  getDoc,
-  updateDoc,
-  serverTimestamp,
-  Timestamp
-} from 'firebase/firestore';
-import { db } from '../firebase/config';
+import type { Timestamp } from 'firebase/firestore';
+import { getRepositories } from '../repositories';
+import { WalletLedgerService, type LedgerAsset, type LedgerEntry } from './walletLedgerService';
+import { CryptoPriceService } from './cryptoPriceService';
+import { FeeService } from './feeService';
 
 export interface UserWallet {
   userId: string;
   address: string;
   ethBalance: number;
+  usdcBalance?: number; // Stablecoin side of the wallet; absent on wallets that never held USDC
+  rentPayoutAsset?: LedgerAsset; // Currency rent is paid out in (ETH when absent)
   strikePrice: number; // ETH price when wallet was created
   initialUsdValue: number; // Original USD value ($20,000)
   createdAt: Timestamp;
   username: string;
   isActive: boolean;
   lastUpdated: Timestamp;
+  ledgerSequence?: number; // Number of ledger entries applied to ethBalance
+  ledgerMismatch?: boolean; // Set by reconciliation when ethBalance disagrees with the ledger
+  ledgerDifference?: number;
+  lastReconciledAt?: Date;
+  totalRentalReceived?: number; // USD paid by the earlier accrual collector, read when reconciling legacy rent
+  lastRentalPayment?: Date;
 }
 
 export class UserScopedWalletService {
@@ -31,26 +34,28 @@ export class UserScopedWalletService {
     walletData: Omit<UserWallet, 'userId' | 'createdAt' | 'lastUpdated'>
   ): Promise<void> {
     try {
-      const walletRef = doc(db, `users/${userId}/wallet`, 'simulation');
+      const wallets = getRepositories().wallets;
       
       // Check if wallet already exists
-      const existingWallet = await getDoc(walletRef);
+      const existingWallet = await wallets.get(userId);
       
-      if (existingWallet.exists()) {
+      // The balance is owned by the ledger, so it is never written directly here
+      const { ethBalance, ...walletMetadata } = walletData;
+      
+      if (existingWallet) {
         // Update existing wallet
-        await updateDoc(walletRef, {
-          ...walletData,
-          lastUpdated: serverTimestamp(),
-        });
+        await wallets.update(userId, walletMetadata);
+        await WalletLedgerService.recordAdjustment(userId, ethBalance, 'Wallet reconnected with new balance');
         console.log('✅ Updated user wallet in Firebase:', userId);
       } else {
         // Create new wallet
-        await setDoc(walletRef, {
-          ...walletData,
-          userId,
-          createdAt: serverTimestamp(),
-          lastUpdated: serverTimestamp(),
+        await wallets.create(userId, {
+          ...walletMetadata,
+          ethBalance: 0,
+          usdcBalance: 0,
+          ledgerSequence: 0,
         });
+        await WalletLedgerService.recordOpeningBalance(userId, ethBalance);
         console.log('✅ Created user wallet in Firebase:', userId);
       }
     } catch (error) {
@@ -64,21 +69,23 @@ export class UserScopedWalletService {
    */
   static async getUserWallet(userId: string): Promise<UserWallet | null> {
     try {
-      const walletRef = doc(db, `users/${userId}/wallet`, 'simulation');
-      const walletDoc = await getDoc(walletRef);
+      const data = await getRepositories().wallets.get(userId);
       
-      if (walletDoc.exists()) {
-        const data = walletDoc.data();
+      if (data) {
         return {
           userId,
           address: data.address,
           ethBalance: data.ethBalance,
+          usdcBalance: data.usdcBalance ?? 0,
+          rentPayoutAsset: data.rentPayoutAsset ?? 'ETH',
           strikePrice: data.strikePrice,
           initialUsdValue: data.initialUsdValue,
           createdAt: data.createdAt,
           username: data.username,
           isActive: data.isActive,
           lastUpdated: data.lastUpdated,
+          ledgerSequence: data.ledgerSequence,
+          ledgerMismatch: data.ledgerMismatch,
         } as UserWallet;
       }
       
@@ -90,16 +97,12 @@ export class UserScopedWalletService {
   }
 
   /**
-   * Update wallet balance (for purchases, etc.)
+   * Set wallet balance via a ledger adjustment entry.
+   * Prefer the typed WalletLedgerService helpers (purchase, rent, escrow, fee).
    */
-  static async updateBalance(userId: string, newBalance: number): Promise<void> {
+  static async updateBalance(userId: string, newBalance: number, description: string = 'Manual balance adjustment'): Promise<void> {
     try {
-      const walletRef = doc(db, `users/${userId}/wallet`, 'simulation');
-      
-      await updateDoc(walletRef, {
-        ethBalance: newBalance,
-        lastUpdated: serverTimestamp(),
-      });
+      await WalletLedgerService.recordAdjustment(userId, newBalance, description);
       
       console.log(`✅ Updated wallet balance: ${userId} → ${newBalance} ETH`);
     } catch (error) {
@@ -108,16 +111,52 @@ export class UserScopedWalletService {
     }
   }
 
+  /**
+   * Swap between the wallet's ETH and USDC at the current oracle price.
+   * Network gas comes out of `amount`, so a whole balance can be swapped.
+   */
+  static async swap(userId: string, from: LedgerAsset, amount: number): Promise<LedgerEntry> {
+    if (!(amount > 0)) {
+      throw new Error('Swap amount must be positive');
+    }
+
+    const prices = await CryptoPriceService.fetchCurrentPrices();
+    const fees = FeeService.quote('swap', { ethPrice: prices.ethToUsd });
+    const swapped = amount - FeeService.totalIn(fees, from);
+    if (swapped <= 0) {
+      throw new Error(`Swap amount does not cover the network fee of ~$${fees.totalUsd.toFixed(2)}`);
+    }
+
+    await FeeService.charge(userId, fees, { asset: from });
+    const received = from === 'ETH'
+      ? CryptoPriceService.convertEthToUsdc(swapped, prices)
+      : CryptoPriceService.convertUsdcToEth(swapped, prices);
+
+    const entry = await WalletLedgerService.recordSwap(userId, from, swapped, received, prices.ethToUsd);
+    console.log(`🔁 Swapped ${swapped} ${from} for ${received.toFixed(from === 'ETH' ? 2 : 6)} ${from === 'ETH' ? 'USDC' : 'ETH'} at $${prices.ethToUsd.toFixed(2)}/ETH`);
+    return entry;
+  }
+
+  /**
+   * Choose the currency rental income is paid out in
+   */
+  static async setRentPayoutAsset(userId: string, asset: LedgerAsset): Promise<void> {
+    try {
+      await getRepositories().wallets.update(userId, { rentPayoutAsset: asset });
+      console.log(`✅ Rent payouts for ${userId} now settle in ${asset}`);
+    } catch (error) {
+      console.error('❌ Failed to set rent payout currency:', error);
+      throw new Error('Failed to update payout currency');
+    }
+  }
+
   /**
    * Deactivate user's wallet (for logout)
    */
   static async deactivateWallet(userId: string): Promise<void> {
     try {
-      const walletRef = doc(db, `users/${userId}/wallet`, 'simulation');
-      
-      await updateDoc(walletRef, {
+      await getRepositories().wallets.update(userId, {
         isActive: false,
-        lastUpdated: serverTimestamp(),
       });
       
       console.log('✅ Deactivated user wallet:', userId);
@@ -132,10 +171,9 @@ export class UserScopedWalletService {
    */
   static async hasWallet(userId: string): Promise<boolean> {
     try {
-      const walletRef = doc(db, `users/${userId}/wallet`, 'simulation');
-      const walletDoc = await getDoc(walletRef);
+      const wallet = await getRepositories().wallets.get(userId);
       
-      return walletDoc.exists() && walletDoc.data()?.isActive === true;
+      return wallet?.isActive === true;
     } catch (error) {
       console.error('❌ Failed to check wallet existence:', error);
       return false;
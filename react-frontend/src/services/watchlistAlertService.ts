@@ -0,0 +1,204 @@
+// Watchlist Alert Service - notifies users when watched properties meet their alert rules
+// Rules are checked whenever a watched property or the watchlist changes, and
+// every minute for wallet balances. A rule fires when its condition starts to
+// hold and not again until it has stopped holding, so a property sitting
+// below a share threshold is reported once rather than on every update.
+
+import { getRepositories } from '../repositories';
+import { WATCHLIST_ALERT_CONFIG } from '../config/alertConfig';
+import { NotificationService, type NotificationContent } from './notificationService';
+import { PriceOracleService } from './priceOracleService';
+import type {
+  Property,
+  WatchlistAlertRule,
+  WatchlistAlerts,
+  WatchlistAlertState,
+  WatchlistItem
+} from '../types/property';
+
+type AlertStates = Partial<Record<WatchlistAlertRule, WatchlistAlertState>>;
+
+const formatUsd = (amount: number) => `$${amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+export class WatchlistAlertService {
+  private static monitors = new Map<string, () => void>();
+  private static evaluations = new Map<string, Promise<number>>();
+
+  static sharePriceUsd(property: Property): number {
+    return property.sharePrice || property.currentValue / 100;
+  }
+
+  static hasAlerts(alerts: WatchlistAlerts | undefined): boolean {
+    return !!alerts && (
+      !!alerts.endingSoon ||
+      alerts.sharesBelow !== undefined ||
+      alerts.yieldAbove !== undefined ||
+      !!alerts.withinBudget
+    );
+  }
+
+  /**
+   * Whether each rule switched on for an item holds for the property now.
+   * Rules that are off are left out.
+   */
+  static conditions(
+    alerts: WatchlistAlerts,
+    property: Property,
+    walletUsd: number | null
+  ): Partial<Record<WatchlistAlertRule, boolean>> {
+    const open = property.status === 'available' || property.status === 'ending_soon';
+    const conditions: Partial<Record<WatchlistAlertRule, boolean>> = {};
+
+    if (alerts.endingSoon) {
+      conditions.ending_soon = property.status === 'ending_soon';
+    }
+    if (alerts.sharesBelow !== undefined) {
+      conditions.shares_below = open && property.availableShares !== undefined && property.availableShares < alerts.sharesBelow;
+    }
+    if (alerts.yieldAbove !== undefined) {
+      conditions.yield_above = property.rentalYield > alerts.yieldAbove;
+    }
+    if (alerts.withinBudget) {
+      conditions.within_budget = open && walletUsd !== null && this.sharePriceUsd(property) <= walletUsd;
+    }
+    return conditions;
+  }
+
+  /**
+   * Replace an item's rules. Every rule is checked afresh on the next
+   * evaluation, so one that already holds fires straight away.
+   */
+  static async setAlerts(userId: string, item: WatchlistItem, alerts: WatchlistAlerts): Promise<void> {
+    const alertState: AlertStates = {};
+    Object.entries(item.alertState ?? {}).forEach(([rule, state]) => {
+      alertState[rule as WatchlistAlertRule] = { active: false, fired: state.fired };
+    });
+    await getRepositories().watchlists.update(userId, item.id, { alerts, alertState });
+  }
+
+  /**
+   * Check the user's watchlist against the properties and notify any rule
+   * that has started to hold. Checks for one user run one at a time.
+   * Returns the number of notifications sent.
+   */
+  static evaluate(userId: string, items: WatchlistItem[], properties: Property[]): Promise<number> {
+    const previous = this.evaluations.get(userId) ?? Promise.resolve(0);
+    const next = previous.catch(() => 0).then(() => this.runEvaluation(userId, items, properties));
+    this.evaluations.set(userId, next);
+    return next;
+  }
+
+  static startMonitoring(userId: string): void {
+    this.stopMonitoring(userId);
+
+    const repositories = getRepositories();
+    let items: WatchlistItem[] | null = null;
+    let properties: Property[] | null = null;
+
+    const check = () => {
+      if (!items || !properties) return;
+      this.evaluate(userId, items, properties).catch(error => {
+        console.error('Error checking watchlist alerts:', error);
+      });
+    };
+
+    const unsubscribeWatchlist = repositories.watchlists.subscribe(userId, latest => {
+      items = latest;
+      check();
+    });
+    const unsubscribeProperties = repositories.properties.subscribe(latest => {
+      properties = latest;
+      check();
+    });
+    const timer = setInterval(check, WATCHLIST_ALERT_CONFIG.checkIntervalMs);
+
+    this.monitors.set(userId, () => {
+      clearInterval(timer);
+      unsubscribeWatchlist();
+      unsubscribeProperties();
+    });
+    console.log('👀 Started watchlist alerts for user:', userId);
+  }
+
+  static stopMonitoring(userId: string): void {
+    const stop = this.monitors.get(userId);
+    if (stop) {
+      stop();
+      this.monitors.delete(userId);
+      this.evaluations.delete(userId);
+      console.log('🛑 Stopped watchlist alerts for user:', userId);
+    }
+  }
+
+  private static async runEvaluation(userId: string, items: WatchlistItem[], properties: Property[]): Promise<number> {
+    const alerted = items.filter(item => this.hasAlerts(item.alerts));
+    if (alerted.length === 0) return 0;
+
+    const propertiesById = new Map(properties.map(property => [property.id, property]));
+    const walletUsd = alerted.some(item => item.alerts!.withinBudget) ? await this.walletUsd(userId) : null;
+
+    let sent = 0;
+    for (const item of alerted) {
+      const property = propertiesById.get(item.propertyId);
+      if (!property) continue;
+
+      const alertState: AlertStates = { ...(item.alertState ?? {}) };
+      let changed = false;
+
+      for (const [rule, holds] of Object.entries(this.conditions(item.alerts!, property, walletUsd))) {
+        const alertRule = rule as WatchlistAlertRule;
+        const previous = alertState[alertRule] ?? { active: false, fired: 0 };
+        if (holds === previous.active) continue;
+
+        if (holds) {
+          // Keyed by how many times the rule has fired, so tabs racing on the same change notify once
+          const fired = previous.fired + 1;
+          if (await NotificationService.notify(userId, `watchlist_${item.id}_${alertRule}_${fired}`, this.content(alertRule, item.alerts!, property, walletUsd))) {
+            sent++;
+          }
+          alertState[alertRule] = { active: true, fired };
+        } else {
+          alertState[alertRule] = { active: false, fired: previous.fired };
+        }
+        changed = true;
+      }
+
+      if (changed) {
+        await getRepositories().watchlists.update(userId, item.id, { alertState });
+      }
+    }
+    return sent;
+  }
+
+  // Everything the wallet holds, in USD
+  private static async walletUsd(userId: string): Promise<number | null> {
+    const wallet = await getRepositories().wallets.get(userId);
+    if (!wallet) return null;
+    const ethPrice = await PriceOracleService.getEthUsd();
+    return wallet.ethBalance * ethPrice + (wallet.usdcBalance ?? 0);
+  }
+
+  private static content(
+    rule: WatchlistAlertRule,
+    alerts: WatchlistAlerts,
+    property: Property,
+    walletUsd: number | null
+  ): NotificationContent {
+    const messages: Record<WatchlistAlertRule, () => string> = {
+      ending_soon: () => `Funding is ending soon, with ${property.availableShares ?? 0} shares still available.`,
+      shares_below: () => `Only ${property.availableShares ?? 0} shares left, below your alert at ${alerts.sharesBelow}.`,
+      yield_above: () =>
+        `Rental yield is ${(property.rentalYield * 100).toFixed(2)}%, above your alert at ${((alerts.yieldAbove ?? 0) * 100).toFixed(2)}%.`,
+      within_budget: () =>
+        `A share costs ${formatUsd(this.sharePriceUsd(property))}, within your ${formatUsd(walletUsd ?? 0)} wallet balance.`,
+    };
+
+    return {
+      kind: 'watchlist_alert',
+      title: `${property.address}, ${property.city}`,
+      message: messages[rule](),
+      propertyId: property.id,
+      link: `/property/${property.id}`,
+    };
+  }
+}
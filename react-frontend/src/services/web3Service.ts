@@ -1,31 +1,7 @@
 import { ethers } from 'ethers';
-import type { ContractTransaction, TransactionReceipt } from 'ethers';
-
-// Enhanced ABI for the new RealEstate contract functionality
-const ENHANCED_REAL_ESTATE_ABI = [
-  // Read functions
-  "function getShareBalance(uint256 tokenId, address owner) view returns (uint256)",
-  "function getPropertyPrice(uint256 tokenId) view returns (uint256)",
-  "function getAvailableShares(uint256 tokenId) view returns (uint256)",
-  "function getTotalProperties() view returns (uint256)",
-  "function propertyExists(uint256 tokenId) view returns (bool)",
-  "function properties(uint256 tokenId) view returns (uint256 pricePerShare, uint256 totalShares, uint256 availableShares, string metadataURI, address originalMinter, bool isActive)",
-  "function uri(uint256 tokenId) view returns (string)",
-  "function balanceOf(address account, uint256 id) view returns (uint256)",
-  
-  // Write functions
-  "function mint(string tokenURI, uint256 pricePerShare) returns (uint256)",
-  "function purchaseShares(uint256 tokenId, uint256 amount) payable",
-  "function transferShares(uint256 tokenId, address to, uint256 amount)",
-  "function updatePropertyPrice(uint256 tokenId, uint256 newPrice)",
-  "function deactivateProperty(uint256 tokenId)",
-  
-  // Events
-  "event PropertyMinted(uint256 indexed tokenId, address indexed minter, uint256 pricePerShare, string uri)",
-  "event SharesPurchased(uint256 indexed tokenId, address indexed buyer, uint256 amount, uint256 totalCost)",
-  "event SharesTransferred(uint256 indexed tokenId, address indexed from, address indexed to, uint256 amount)",
-  "event PropertyPriceUpdated(uint256 indexed tokenId, uint256 newPrice)"
-];
+import type { ContractTransactionResponse, TransactionReceipt } from 'ethers';
+import { RealEstateAbi, type RealEstateContract } from '../contracts/generated';
+import { connectContract, type FunctionName } from '../contracts/typedContract';
 
 export interface PropertyData {
   tokenId: number;
@@ -60,7 +36,7 @@ export interface PurchaseResult {
 export class Web3Service {
   private static instance: Web3Service;
   private provider: ethers.BrowserProvider | null = null;
-  private contract: ethers.Contract | null = null;
+  private contract: RealEstateContract | null = null;
   private contractAddress: string | null = null;
 
   private constructor() {}
@@ -79,7 +55,7 @@ export class Web3Service {
       this.contractAddress = contractAddress;
       
       const signer = await provider.getSigner();
-      this.contract = new ethers.Contract(contractAddress, ENHANCED_REAL_ESTATE_ABI, signer);
+      this.contract = connectContract(contractAddress, RealEstateAbi, signer);
       
       console.log('🔗 Web3Service initialized with contract:', contractAddress);
     } catch (error) {
@@ -94,11 +70,11 @@ export class Web3Service {
   }
 
   // Estimate gas for a function call
-  private async estimateGas(method: string, ...args: any[]): Promise<bigint> {
+  private async estimateGas(method: FunctionName<typeof RealEstateAbi>, ...args: unknown[]): Promise<bigint> {
     if (!this.contract) throw new Error('Contract not initialized');
     
     try {
-      const gasEstimate = await this.contract[method].estimateGas(...args);
+      const gasEstimate = await this.contract.getFunction(method).estimateGas(...args);
       // Add 20% buffer for gas estimation
       return (gasEstimate * BigInt(120)) / BigInt(100);
     } catch (error) {
@@ -153,7 +129,7 @@ export class Web3Service {
       const gasLimit = await this.estimateGas('mint', tokenURI, pricePerShareWei);
       
       // Execute transaction
-      const tx: ContractTransaction = await this.contract.mint(tokenURI, pricePerShareWei, {
+      const tx: ContractTransactionResponse = await this.contract.mint(tokenURI, pricePerShareWei, {
         gasLimit
       });
 
@@ -197,7 +173,7 @@ export class Web3Service {
       const gasLimit = await this.estimateGas('purchaseShares', tokenId, shares);
       
       // Execute transaction
-      const tx: ContractTransaction = await this.contract.purchaseShares(tokenId, shares, {
+      const tx: ContractTransactionResponse = await this.contract.purchaseShares(tokenId, shares, {
         value: totalCost,
         gasLimit
       });
@@ -236,7 +212,7 @@ export class Web3Service {
       const gasLimit = await this.estimateGas('transferShares', tokenId, toAddress, shares);
       
       // Execute transaction
-      const tx: ContractTransaction = await this.contract.transferShares(tokenId, toAddress, shares, {
+      const tx: ContractTransactionResponse = await this.contract.transferShares(tokenId, toAddress, shares, {
         gasLimit
       });
 
@@ -336,7 +312,7 @@ export class Web3Service {
 
     try {
       // Look for PropertyMinted event
-      const iface = new ethers.Interface(ENHANCED_REAL_ESTATE_ABI);
+      const iface = this.contract.interface;
       
       for (const log of receipt.logs) {
         try {
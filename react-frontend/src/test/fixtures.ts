@@ -0,0 +1,32 @@
+import { Timestamp } from 'firebase/firestore';
+import { getRepositories } from '../repositories';
+import type { Property } from '../types/property';
+
+// A class B listing in the shared pool, for tests that need a property
+export const propertyFixture = (changes: Partial<Omit<Property, 'id'>> = {}): Omit<Property, 'id'> => ({
+  class: 'B',
+  address: '12 Elm Street',
+  city: 'Columbus',
+  state: 'OH',
+  region: 'Midwest',
+  price: 250000,
+  sqft: 1400,
+  bedrooms: 3,
+  bathrooms: 2,
+  yearBuilt: 1998,
+  rentalYield: 0.08,
+  currentValue: 250000,
+  imageUrl: '/property-images/class-b/midwest/1.jpg',
+  createdAt: Timestamp.now(),
+  selloutTime: Timestamp.now(),
+  status: 'available',
+  mockInvestors: [],
+  ...changes,
+});
+
+// Stores the fixture in the current repositories
+export async function createProperty(changes: Partial<Omit<Property, 'id'>> = {}): Promise<Property> {
+  const property = propertyFixture(changes);
+  const id = await getRepositories().properties.create(property);
+  return { ...property, id };
+}
@@ -2,7 +2,11 @@ import { Timestamp } from 'firebase/firestore';
 
 export type PropertyClass = 'A' | 'B' | 'C';
 
-export type PropertyStatus = 'available' | 'ending_soon';
+export type PropertyStatus =
+  | 'available'
+  | 'ending_soon'
+  | 'sold_out' // Every share has been bought
+  | 'disposed'; // Sold at the end of the hold and proceeds distributed
 
 export type PropertyRegion = 'Midwest' | 'Southwest' | 'Southeast' | 'Northwest' | 'Anywhere';
 
@@ -15,6 +19,24 @@ export interface MockInvestor {
   investmentDate: Date;
 }
 
+// Manager appointed by shareholder vote, replacing the class's default fee from a game month on
+export interface PropertyManager {
+  name: string;
+  managementRate: number; // Of collected rent
+  fromMonth: number; // Game month number
+}
+
+// Completed renovation; its rent and wear take effect from a game month on
+export interface PropertyImprovement {
+  projectId: string;
+  label: string;
+  fromMonth: number; // Game month number
+  valueAddedUsd: number;
+  rentalYieldBefore: number;
+  rentalYield: number;
+  renewsBuilding: boolean; // The building wears as new from `fromMonth`
+}
+
 export interface Property {
   id: string;
   class: PropertyClass;
@@ -40,6 +62,16 @@ export interface Property {
   totalShares?: number;
   availableShares?: number;
   sharePrice?: number;
+  tokenId?: number; // RealEstate ERC1155 token, once the property is minted on-chain
+  soldAt?: Timestamp; // Sim time the last share was bought
+  sharesSold?: number; // Initial offering shares taken by the user and mock investors
+  lastInvestmentDate?: Timestamp;
+  contractTime?: Timestamp | null; // When the background timeline sells the property; null until scheduled
+  timelineInitialized?: boolean;
+  timelineSetAt?: Timestamp;
+  manager?: PropertyManager;
+  improvements?: PropertyImprovement[]; // Oldest first
+  reserveDrawnUsd?: number; // Paid out of the capital reserve for renovations so far
 }
 
 export interface PropertyFilters {
@@ -48,8 +80,10 @@ export interface PropertyFilters {
     min: number;
     max: number;
   };
+  classPriceRanges?: Partial<Record<PropertyClass, { min: number; max: number }>>; // Per class, in the search's price mode
   region?: PropertyRegion[];
   status?: PropertyStatus[];
+  state?: string; // Two-letter code
   rentalYieldRange?: {
     min: number;
     max: number;
@@ -61,11 +95,40 @@ export interface PropertySortOptions {
   direction: 'asc' | 'desc';
 }
 
+export type PropertyPriceMode = 'total' | 'shares';
+
+// Everything that shapes the property list, as encoded in its URL and kept in saved searches
+export interface PropertySearchCriteria {
+  term: string; // Matched against address and city
+  filters: PropertyFilters;
+  priceMode: PropertyPriceMode; // Whether price ranges are for the whole property or for `shares` shares
+  shares: number;
+  sort: PropertySortOptions;
+}
+
+export type WatchlistAlertRule = 'ending_soon' | 'shares_below' | 'yield_above' | 'within_budget';
+
+// Conditions to be notified about on a watched property; absent rules are off
+export interface WatchlistAlerts {
+  endingSoon?: boolean; // The property moves to ending_soon
+  sharesBelow?: number; // Available shares drop below this many
+  yieldAbove?: number; // Gross rental yield above this, as a decimal
+  withinBudget?: boolean; // One share costs no more than the wallet holds
+}
+
+// Whether a rule's condition held when last checked, and how often it has fired
+export interface WatchlistAlertState {
+  active: boolean;
+  fired: number;
+}
+
 export interface WatchlistItem {
   id: string;
   userId: string; // For future authentication integration
   propertyId: string;
   addedDate: Timestamp;
+  alerts?: WatchlistAlerts;
+  alertState?: Partial<Record<WatchlistAlertRule, WatchlistAlertState>>;
 }
 
 // Property class configuration
@@ -1,4 +1,10 @@
 import { ethers } from 'ethers';
+import type {
+  EscrowContract,
+  EscrowWithStableAndYieldCrossChainContract,
+  MockUSDCContract,
+  RealEstateContract
+} from '../contracts/generated';
 
 export interface WalletState {
   isConnected: boolean;
@@ -36,8 +42,6 @@ export interface PropertyDetails {
     nftID: bigint;
     purchasePrice: bigint;
     escrowAmount: bigint;
-    inspectionPeriod: bigint;
-    financingPeriod: bigint;
   };
   currentPhase: {
     id: number;
@@ -49,10 +53,10 @@ export interface PropertyDetails {
 }
 
 export interface ContractInstances {
-  realEstate: ethers.Contract | null;
-  escrow: ethers.Contract | null;
-  mockUSDC: ethers.Contract | null;
-  crossChainEscrow: ethers.Contract | null;
+  realEstate: RealEstateContract | null;
+  escrow: EscrowContract | null;
+  mockUSDC: MockUSDCContract | null;
+  crossChainEscrow: EscrowWithStableAndYieldCrossChainContract | null;
 }
 
 declare global {
@@ -0,0 +1,192 @@
+/**
+ * Property list search: matching and sorting against search criteria, and
+ * encoding criteria in URL query parameters so a filtered view can be
+ * bookmarked, shared and saved
+ */
+import type {
+  Property,
+  PropertyClass,
+  PropertySearchCriteria,
+  PropertySortOptions
+} from '../types/property';
+import { PropertySearchIndex } from '../services/propertySearchIndex';
+
+export const PROPERTY_CLASSES: PropertyClass[] = ['A', 'B', 'C'];
+
+export const DEFAULT_PROPERTY_SORT: PropertySortOptions = { field: 'createdAt', direction: 'desc' };
+
+export const SORT_OPTIONS: { sort: PropertySortOptions; label: string }[] = [
+  { sort: DEFAULT_PROPERTY_SORT, label: 'Newest first' },
+  { sort: { field: 'timeRemaining', direction: 'asc' }, label: 'Ending soonest' },
+  { sort: { field: 'price', direction: 'asc' }, label: 'Price: low to high' },
+  { sort: { field: 'price', direction: 'desc' }, label: 'Price: high to low' },
+  { sort: { field: 'rentalYield', direction: 'desc' }, label: 'Highest yield' },
+  { sort: { field: 'sqft', direction: 'desc' }, label: 'Largest' },
+];
+
+export const sortKey = (sort: PropertySortOptions) => `${sort.field}-${sort.direction}`;
+
+export const DEFAULT_SEARCH_CRITERIA: PropertySearchCriteria = {
+  term: '',
+  filters: {},
+  priceMode: 'total',
+  shares: 1,
+  sort: DEFAULT_PROPERTY_SORT,
+};
+
+type TimestampLike = { toMillis?: () => number } | undefined;
+
+const millisOf = (value: TimestampLike) => (value?.toMillis ? value.toMillis() : 0);
+
+/**
+ * The price a property's ranges are compared against: the whole property, or
+ * the criteria's number of its 100 shares
+ */
+export function comparisonPrice(property: Pick<Property, 'price'>, criteria: Pick<PropertySearchCriteria, 'priceMode' | 'shares'>): number {
+  const price = property.price || 0;
+  return criteria.priceMode === 'shares' ? (price / 100) * criteria.shares : price;
+}
+
+export function matchesSearch(property: Property, criteria: PropertySearchCriteria): boolean {
+  const { filters } = criteria;
+
+  if (filters.class && !filters.class.includes(property.class)) return false;
+  if (filters.state && property.state !== filters.state) return false;
+  if (filters.region && filters.region.length > 0 && !filters.region.includes(property.region)) return false;
+  if (filters.status && filters.status.length > 0 && !filters.status.includes(property.status)) return false;
+
+  const price = comparisonPrice(property, criteria);
+  const range = filters.classPriceRanges?.[property.class] ?? filters.priceRange;
+  if (range && (price < range.min || price > range.max)) return false;
+
+  if (filters.rentalYieldRange) {
+    const { min, max } = filters.rentalYieldRange;
+    if (property.rentalYield < min || property.rentalYield > max) return false;
+  }
+
+  // Same typo tolerant matching as the list's search index
+  return PropertySearchIndex.matchesText(property, criteria.term);
+}
+
+export function sortProperties<T extends Property>(properties: T[], sort: PropertySortOptions): T[] {
+  const valueOf = (property: T): number => {
+    switch (sort.field) {
+      case 'price': return property.price || 0;
+      case 'rentalYield': return property.rentalYield || 0;
+      case 'timeRemaining': return millisOf(property.selloutTime);
+      case 'sqft': return property.sqft || 0;
+      case 'createdAt': return millisOf(property.createdAt);
+    }
+  };
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...properties].sort((a, b) => (valueOf(a) - valueOf(b)) * direction);
+}
+
+// Ranges are written as min-max, e.g. priceA=250000-900000
+const formatRange = (range: { min: number; max: number }) => `${Math.round(range.min)}-${Math.round(range.max)}`;
+
+// Yields stay decimals, e.g. yield=0.08-0.1
+const formatYieldRange = (range: { min: number; max: number }) => `${range.min}-${range.max}`;
+
+function parseRange(value: string | null): { min: number; max: number } | null {
+  const match = value?.match(/^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const min = Number(match[1]);
+  const max = Number(match[2]);
+  return min <= max ? { min, max } : null;
+}
+
+/**
+ * Query parameters for the criteria; anything left at its default is omitted
+ */
+export function encodeSearchParams(criteria: PropertySearchCriteria): URLSearchParams {
+  const params = new URLSearchParams();
+  const { filters } = criteria;
+
+  // Untrimmed, so the search box can be typed into word by word
+  if (criteria.term) params.set('q', criteria.term);
+  if (filters.class && filters.class.length < PROPERTY_CLASSES.length) {
+    params.set('class', filters.class.join(','));
+  }
+  if (filters.state) params.set('state', filters.state);
+  if (criteria.priceMode === 'shares') {
+    params.set('mode', 'shares');
+    params.set('shares', String(criteria.shares));
+  }
+  PROPERTY_CLASSES.forEach(propertyClass => {
+    const range = filters.classPriceRanges?.[propertyClass];
+    if (range) params.set(`price${propertyClass}`, formatRange(range));
+  });
+  if (filters.rentalYieldRange) params.set('yield', formatYieldRange(filters.rentalYieldRange));
+  if (sortKey(criteria.sort) !== sortKey(DEFAULT_PROPERTY_SORT)) {
+    params.set('sort', sortKey(criteria.sort));
+  }
+
+  return params;
+}
+
+/**
+ * Criteria from query parameters; unknown or malformed values fall back to
+ * the defaults
+ */
+export function decodeSearchParams(params: URLSearchParams): PropertySearchCriteria {
+  const filters: PropertySearchCriteria['filters'] = {};
+
+  const classParam = params.get('class');
+  if (classParam !== null) {
+    filters.class = PROPERTY_CLASSES.filter(propertyClass => classParam.split(',').includes(propertyClass));
+  }
+
+  const state = params.get('state');
+  if (state && /^[A-Z]{2}$/.test(state)) filters.state = state;
+
+  PROPERTY_CLASSES.forEach(propertyClass => {
+    const range = parseRange(params.get(`price${propertyClass}`));
+    if (range) {
+      filters.classPriceRanges = { ...filters.classPriceRanges, [propertyClass]: range };
+    }
+  });
+
+  const yieldRange = parseRange(params.get('yield'));
+  if (yieldRange && yieldRange.max <= 1) filters.rentalYieldRange = yieldRange;
+
+  const priceMode = params.get('mode') === 'shares' ? 'shares' : 'total';
+  const shares = Math.max(1, Math.min(100, parseInt(params.get('shares') ?? '', 10) || 1));
+
+  const sort = SORT_OPTIONS.find(option => sortKey(option.sort) === params.get('sort'))?.sort ?? DEFAULT_PROPERTY_SORT;
+
+  return {
+    term: params.get('q') ?? '',
+    filters,
+    priceMode,
+    shares: priceMode === 'shares' ? shares : 1,
+    sort,
+  };
+}
+
+/**
+ * A short summary of the criteria, for lists of saved searches
+ */
+export function describeSearch(criteria: PropertySearchCriteria): string {
+  const { filters } = criteria;
+  const parts: string[] = [];
+
+  if (criteria.term.trim()) parts.push(`"${criteria.term.trim()}"`);
+  if (filters.class && filters.class.length < PROPERTY_CLASSES.length) {
+    parts.push(filters.class.length > 0 ? `Class ${filters.class.join('/')}` : 'No classes');
+  }
+  if (filters.state) parts.push(filters.state);
+  if (filters.classPriceRanges && Object.keys(filters.classPriceRanges).length > 0) {
+    parts.push(criteria.priceMode === 'shares' ? `price for ${criteria.shares} share${criteria.shares !== 1 ? 's' : ''}` : 'price range');
+  }
+  if (filters.rentalYieldRange) {
+    const { min, max } = filters.rentalYieldRange;
+    parts.push(max >= 1 ? `yield ${Math.round(min * 100)}%+` : `yield ${Math.round(min * 100)}–${Math.round(max * 100)}%`);
+  }
+  const sortOption = SORT_OPTIONS.find(option => sortKey(option.sort) === sortKey(criteria.sort));
+  if (sortOption && sortKey(sortOption.sort) !== sortKey(DEFAULT_PROPERTY_SORT)) {
+    parts.push(sortOption.label.toLowerCase());
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : 'All properties';
+}
@@ -1,11 +1,23 @@
 /**
  * Utility functions for rental income calculations
  */
+import type { PropertyClass, PropertyImprovement, PropertyManager } from '../types/property';
+import { PropertyOperationsService } from '../services/propertyOperationsService';
+import { getSimulationClock } from '../services/simulationClock';
 
 export interface RentalIncomeCalculation {
   annualIncome: number;
   monthlyIncome: number;
   monthlyIncomePerShare: number;
+  // After expected vacancy and operating costs; equal to the gross figures without operating details
+  netAnnualIncome: number;
+  netMonthlyIncome: number;
+  netMonthlyIncomePerShare: number;
+}
+
+export interface OperatingDetails {
+  class: PropertyClass;
+  yearBuilt?: number;
 }
 
 /**
@@ -13,12 +25,14 @@ export interface RentalIncomeCalculation {
  * @param propertyValue - Current value of the property
  * @param rentalYield - Annual rental yield as decimal (e.g., 0.08 for 8%)
  * @param numberOfShares - Number of shares (default: 100 for full property)
+ * @param operating - Class and age, to project income net of vacancy and operating costs
  * @returns Rental income calculations
  */
 export function calculateRentalIncome(
   propertyValue: number,
   rentalYield: number,
-  numberOfShares: number = 100
+  numberOfShares: number = 100,
+  operating?: OperatingDetails
 ): RentalIncomeCalculation {
   // Calculate base annual rental income
   const baseAnnualIncome = propertyValue * rentalYield;
@@ -38,10 +52,17 @@ export function calculateRentalIncome(
   // Calculate monthly rental income for specified number of shares
   const monthlyIncomeForShares = monthlyIncomePerShare * numberOfShares;
 
+  const netRatio = operating
+    ? Math.max(0, PropertyOperationsService.expectedNetRatio({ ...operating, rentalYield }))
+    : 1;
+
   return {
     annualIncome,
     monthlyIncome,
-    monthlyIncomePerShare: monthlyIncomeForShares
+    monthlyIncomePerShare: monthlyIncomeForShares,
+    netAnnualIncome: annualIncome * netRatio,
+    netMonthlyIncome: monthlyIncome * netRatio,
+    netMonthlyIncomePerShare: monthlyIncomeForShares * netRatio
   };
 }
 
@@ -75,4 +96,95 @@ export function getRentalIncomeDisplay(
   } else {
     return `${formatRentalIncome(calculation.monthlyIncome)}/mo total`;
   }
-}
\ No newline at end of file
+}
+
+export interface RentalEntitlement {
+  propertyTotalPrice: number;
+  rentalYield: number;
+  sharesOwned: number;
+  purchaseDate: Date | string;
+  rentalIncomeStartDate?: Date | string; // Reset whenever the share count changes
+  rentalAccruedCarry?: number; // USD accrued in the game month of the last share count change, before it
+  // Needed to pay net operating income; lots without a property id accrue gross rent
+  propertyId?: string;
+  propertyClass?: string;
+  propertyYearBuilt?: number;
+  propertyManager?: PropertyManager;
+  propertyImprovements?: PropertyImprovement[];
+}
+
+/**
+ * Monthly rent (USD) owed to a holder of `sharesOwned` out of 100 shares
+ * @param propertyTotalPrice - Full USD property value
+ * @param rentalYield - Annual rental yield as decimal
+ * @param sharesOwned - Shares held
+ * @returns Monthly rent for those shares
+ */
+export function calculateMonthlyRentalForShares(
+  propertyTotalPrice: number,
+  rentalYield: number,
+  sharesOwned: number
+): number {
+  const annualPropertyRental = propertyTotalPrice * rentalYield;
+  return ((annualPropertyRental * sharesOwned) / 100) / 12;
+}
+
+/**
+ * Date from which the current share count earns rent
+ * @param entitlement - Investment lot
+ * @returns Accrual start date
+ */
+export function getRentalAccrualStart(entitlement: RentalEntitlement): Date {
+  return new Date(entitlement.rentalIncomeStartDate ?? entitlement.purchaseDate);
+}
+
+/**
+ * Net operating income (USD) of `sharesOwned` out of 100 shares over game
+ * months from a game time, after vacancy and operating costs
+ * @param entitlement - Investment lot with its property id
+ * @param fromGameTime - Game time accrual starts
+ * @param gameMonths - Game months to accrue (fractional)
+ * @returns The lot's share of net operating income
+ */
+export function calculateNetRentalForShares(
+  entitlement: RentalEntitlement & { propertyId: string },
+  fromGameTime: Date,
+  gameMonths: number
+): number {
+  const property = {
+    id: entitlement.propertyId,
+    class: (entitlement.propertyClass ?? 'B') as PropertyClass,
+    yearBuilt: entitlement.propertyYearBuilt,
+    value: entitlement.propertyTotalPrice,
+    rentalYield: entitlement.rentalYield,
+    manager: entitlement.propertyManager,
+    improvements: entitlement.propertyImprovements,
+  };
+  return (PropertyOperationsService.netOperatingIncome(property, fromGameTime, gameMonths) * entitlement.sharesOwned) / 100;
+}
+
+/**
+ * Total rent (USD) accrued by an investment lot, honouring share count changes
+ * @param entitlement - Investment lot
+ * @param gameMonthsSinceStart - Game months since the accrual start date
+ * @returns Carried rent plus net operating income accrued on the current share count
+ */
+export function calculateAccruedRental(
+  entitlement: RentalEntitlement,
+  gameMonthsSinceStart: number
+): number {
+  const carry = entitlement.rentalAccruedCarry || 0;
+  if (gameMonthsSinceStart <= 0) return carry;
+
+  if (entitlement.propertyId) {
+    const accrualStart = getSimulationClock().toGameTime(getRentalAccrualStart(entitlement));
+    return carry + calculateNetRentalForShares({ ...entitlement, propertyId: entitlement.propertyId }, accrualStart, gameMonthsSinceStart);
+  }
+
+  const monthly = calculateMonthlyRentalForShares(
+    entitlement.propertyTotalPrice,
+    entitlement.rentalYield,
+    entitlement.sharesOwned
+  );
+  return carry + monthly * gameMonthsSinceStart;
+}
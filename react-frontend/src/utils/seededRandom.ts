@@ -0,0 +1,31 @@
+/**
+ * Stateless seeded draws keyed by (seed, index), for processes that must
+ * give the same value for the same step no matter when or how often it is
+ * computed (price paths, gas markets, property indices).
+ */
+
+// mulberry32 over the seed mixed with the index
+export function seededUniform(seed: number, index: number): number {
+  let t = (seed ^ Math.imul(index, 0x9e3779b1)) >>> 0;
+  t = (t + 0x6d2b79f5) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Standard normal via Box-Muller over two uniform draws
+export function seededGaussian(seed: number, index: number): number {
+  const u1 = Math.max(seededUniform(seed, index * 2), Number.EPSILON);
+  const u2 = seededUniform(seed, index * 2 + 1);
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// FNV-1a, for deriving a stream seed from an id
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
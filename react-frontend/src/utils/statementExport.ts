@@ -0,0 +1,250 @@
+/**
+ * PDF and CSV renderings of investor statements for download
+ */
+import { jsPDF } from 'jspdf';
+import { saveAs } from 'file-saver';
+import type { AccountStatement, StatementLine, TaxSummary } from '../services/statementService';
+
+type Currency = 'USD' | 'ETH';
+
+// Money columns hold raw amounts; the currency is applied when rendering
+interface Column {
+  label: string;
+  currency?: Currency;
+}
+
+type Cell = string | number | null;
+type Row = Cell[];
+
+interface Section {
+  title: string;
+  header: Column[];
+  rows: Row[];
+}
+
+const LINE_LABELS: Record<StatementLine['category'], string> = {
+  purchase: 'Purchase',
+  rent: 'Rent received',
+  interest: 'Escrow interest',
+  fee: 'Fee',
+  debt_service: 'Mortgage payment',
+  capital_call: 'Capital call',
+  sale: 'Share sale',
+};
+
+const text = (label: string): Column => ({ label });
+const money = (label: string, currency: Currency = 'USD'): Column => ({ label, currency });
+
+const usd = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+const gameDate = (date: Date) => date.toLocaleDateString('en-US');
+
+function formatCell(cell: Cell, column: Column): string {
+  if (cell === null) return '';
+  if (typeof cell === 'number' && column.currency === 'USD') return usd(cell);
+  if (typeof cell === 'number' && column.currency === 'ETH') return `${cell.toFixed(4)} ETH`;
+  return String(cell);
+}
+
+// Cents for USD and wei-level noise trimmed for ETH, without any formatting
+function rawAmount(cell: number, currency: Currency): number {
+  return Number(cell.toFixed(currency === 'USD' ? 2 : 8));
+}
+
+function statementSections(statement: AccountStatement): Section[] {
+  const { totals } = statement;
+  return [
+    {
+      title: 'Summary',
+      header: [text('Item'), money('Amount')],
+      rows: [
+        ['Opening holdings value', totals.openingValueUsd],
+        ['Purchases', totals.purchasesUsd],
+        ['Rent received', totals.rentUsd],
+        ['Appreciation', totals.appreciationUsd],
+        ['Escrow interest', totals.interestUsd],
+        ['Fees', totals.feesUsd],
+        ['Mortgage payments', totals.debtServiceUsd],
+        ['Capital calls', totals.capitalCallsUsd],
+        ['Share sale proceeds', totals.saleProceedsUsd],
+        ['Closing holdings value', totals.closingValueUsd],
+      ],
+    },
+    {
+      title: 'Holdings',
+      header: [text('Property'), text('Shares'), text('Purchased'), money('Cost basis'), money('Value')],
+      rows: statement.holdings.map(holding => [
+        holding.propertyAddress,
+        holding.sharesOwned,
+        gameDate(holding.purchaseGameTime),
+        holding.invested,
+        holding.value,
+      ]),
+    },
+    {
+      title: 'Activity',
+      header: [text('Date'), text('Type'), text('Description'), money('Amount', 'ETH'), money('Value')],
+      rows: statement.lines.map(line => [
+        gameDate(line.gameTime),
+        LINE_LABELS[line.category],
+        line.description,
+        line.amountEth ?? null,
+        line.amountUsd,
+      ]),
+    },
+  ];
+}
+
+function taxSections(summary: TaxSummary): Section[] {
+  return [
+    {
+      title: 'Income',
+      header: [text('Item'), money('Amount')],
+      rows: [
+        ['Rental income', summary.rentalIncome.totalUsd],
+        ['Escrow interest', summary.interestIncomeUsd],
+        ['Fees paid', summary.feesUsd],
+        ['Realized gains', summary.realizedGainUsd],
+        ['Unrealized gains (year end)', summary.unrealizedGainUsd],
+      ],
+    },
+    {
+      title: 'Rental Income by Property',
+      header: [text('Property'), money('Amount')],
+      rows: [
+        ...summary.rentalIncome.byProperty.map(property => [property.propertyAddress, property.amountUsd]),
+        ...(summary.rentalIncome.unattributedUsd > 0
+          ? [['Pooled collections', summary.rentalIncome.unattributedUsd]]
+          : []),
+      ],
+    },
+    {
+      title: 'Realized Gains',
+      header: [text('Date'), text('Sale'), money('Proceeds'), money('Cost basis'), money('Gain')],
+      rows: summary.realizedGains.map(gain => [
+        gameDate(gain.gameTime),
+        gain.description,
+        gain.proceedsUsd,
+        gain.costBasisUsd ?? 'Not recorded',
+        gain.gainUsd,
+      ]),
+    },
+    {
+      title: 'Unrealized Gains',
+      header: [text('Property'), text('Shares'), money('Cost basis'), money('Value'), money('Gain')],
+      rows: summary.unrealizedGains.map(holding => [
+        holding.propertyAddress,
+        holding.sharesOwned,
+        holding.invested,
+        holding.value,
+        holding.gainUsd,
+      ]),
+    },
+  ];
+}
+
+/**
+ * Amounts are written as plain numbers so spreadsheets can sum them, each
+ * followed by a column naming its currency
+ */
+function toCsv(title: string, sections: Section[]): string {
+  const escape = (cell: string | number) => {
+    const text = String(cell);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [escape(title), ''];
+  sections.forEach(section => {
+    const header = section.header.flatMap(column => column.currency ? [column.label, `${column.label} currency`] : [column.label]);
+    lines.push(escape(section.title), header.map(escape).join(','));
+    section.rows.forEach(row => {
+      const cells = section.header.flatMap((column, index) => {
+        const cell = row[index] ?? '';
+        if (!column.currency) return [cell];
+        return typeof cell === 'number' ? [rawAmount(cell, column.currency), column.currency] : [cell, ''];
+      });
+      lines.push(cells.map(escape).join(','));
+    });
+    lines.push('');
+  });
+  return lines.join('\n');
+}
+
+function toPdf(title: string, subtitle: string, sections: Section[]): jsPDF {
+  const pdf = new jsPDF({ unit: 'pt', format: 'letter' });
+  const margin = 40;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const lineHeight = 14;
+  const wrappedLineHeight = 11; // Between the lines of a cell that wraps
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  pdf.setFont('helvetica', 'bold').setFontSize(16).text(title, margin, y);
+  y += 20;
+  pdf.setFont('helvetica', 'normal').setFontSize(10).text(subtitle, margin, y);
+  y += 24;
+
+  sections.forEach(section => {
+    ensureSpace(lineHeight * 3);
+    pdf.setFont('helvetica', 'bold').setFontSize(12).text(section.title, margin, y);
+    y += lineHeight + 2;
+
+    // First column takes the remaining width; the others share it evenly
+    const columnWidth = (pageWidth - margin * 2) / (section.header.length + 1);
+    const columnX = section.header.map((_, index) => margin + (index === 0 ? 0 : columnWidth * (index + 1)));
+    // Long cells wrap within their column and the row grows to fit them
+    const writeRow = (cells: string[], bold: boolean) => {
+      pdf.setFont('helvetica', bold ? 'bold' : 'normal').setFontSize(9);
+      const wrapped = cells.map((cell, index) => {
+        const width = index === 0 ? columnWidth * 2 - 6 : columnWidth - 6;
+        return pdf.splitTextToSize(cell, width) as string[];
+      });
+      const rowHeight = lineHeight + (Math.max(1, ...wrapped.map(lines => lines.length)) - 1) * wrappedLineHeight;
+      ensureSpace(rowHeight);
+      wrapped.forEach((lines, index) => {
+        lines.forEach((line, lineIndex) => pdf.text(line, columnX[index], y + lineIndex * wrappedLineHeight));
+      });
+      y += rowHeight;
+    };
+
+    writeRow(section.header.map(column => column.currency ? `${column.label} (${column.currency})` : column.label), true);
+    if (section.rows.length === 0) {
+      writeRow(['None'], false);
+    }
+    section.rows.forEach(row => writeRow(row.map((cell, index) => formatCell(cell, section.header[index])), false));
+    y += lineHeight;
+  });
+
+  return pdf;
+}
+
+function fileName(prefix: string, label: string, extension: string): string {
+  return `${prefix}-${label.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.${extension}`;
+}
+
+export function downloadStatementCsv(statement: AccountStatement): void {
+  const csv = toCsv(`Account statement - ${statement.period.label}`, statementSections(statement));
+  saveAs(new Blob([csv], { type: 'text/csv;charset=utf-8' }), fileName('statement', statement.period.label, 'csv'));
+}
+
+export function downloadStatementPdf(statement: AccountStatement): void {
+  const subtitle = `${gameDate(statement.period.start)} - ${gameDate(new Date(statement.period.end.getTime() - 1))} (game time)`;
+  toPdf(`Account Statement: ${statement.period.label}`, subtitle, statementSections(statement))
+    .save(fileName('statement', statement.period.label, 'pdf'));
+}
+
+export function downloadTaxSummaryCsv(summary: TaxSummary): void {
+  const csv = toCsv(`Tax summary - ${summary.year}`, taxSections(summary));
+  saveAs(new Blob([csv], { type: 'text/csv;charset=utf-8' }), fileName('tax-summary', `${summary.year}`, 'csv'));
+}
+
+export function downloadTaxSummaryPdf(summary: TaxSummary): void {
+  const subtitle = `Game year ${summary.year}. For simulation purposes only; not tax advice.`;
+  toPdf(`Tax Summary: ${summary.year}`, subtitle, taxSections(summary))
+    .save(fileName('tax-summary', `${summary.year}`, 'pdf'));
+}
@@ -1 +1,23 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Simulation clock overrides (see services/simulationClock.ts)
+  readonly VITE_SIM_SEED?: string;
+  readonly VITE_SIM_MULTIPLIER?: string;
+  readonly VITE_SIM_MODE?: 'realtime' | 'frozen';
+  readonly VITE_SIM_START?: string;
+  // Persistence backend (see repositories/index.ts)
+  readonly VITE_PERSISTENCE?: 'firestore' | 'memory';
+  // Escrow backend (see services/onChainEscrowService.ts)
+  readonly VITE_ESCROW_MODE?: 'simulated' | 'onchain';
+  // Local node for on-chain escrow and the event indexer (see services/localChain.ts)
+  readonly VITE_CHAIN_RPC_URL?: string;
+  // Contract event indexer (see services/contractEventIndexer.ts)
+  readonly VITE_CHAIN_INDEXER?: string;
+  readonly VITE_INDEXER_START_BLOCK?: string;
+  // Price oracle (see config/priceOracleConfig.ts)
+  readonly VITE_PRICE_ORACLE?: 'coingecko' | 'chainlink' | 'replay' | 'random-walk';
+  readonly VITE_CHAINLINK_RPC_URL?: string;
+  readonly VITE_CHAINLINK_ETH_USD_FEED?: string;
+  readonly VITE_PRICE_REPLAY_URL?: string;
+}
@@ -1,5 +1,6 @@
 // deploy-crosschain.js - Deployment script for cross-chain real estate escrow system
 const hre = require("hardhat");
+const { recordDeployment } = require("./deployment-manifest");
 
 // LayerZero endpoint addresses (mainnet)
 const LAYERZERO_ENDPOINTS = {
@@ -103,6 +104,16 @@ async function main() {
   console.log("RealEstate NFT:", realEstate.address);
   console.log("Cross-Chain Escrow:", escrow.address);
   console.log("Polygon Bridge:", polygonBridge.address);
+
+  recordDeployment(
+    await deployer.provider.getNetwork(),
+    {
+      KYCOracle: kycOracle.address,
+      RealEstate: realEstate.address,
+      PolygonUSDCBridge: polygonBridge.address
+    },
+    { [escrow.address]: "EscrowWithStableAndYieldCrossChain" }
+  );
   
   console.log("\n=== PROPERTY CONFIGURATION ===");
   console.log("Property NFT ID:", propertyConfig.nftID);
@@ -0,0 +1,57 @@
+// scripts/deploy-escrow-bridge.js - Prepares a local node for the frontend's on-chain escrow mode
+//
+// Deploys the MockPropertyDeed (ERC-721) that Escrow.sol transfers on finalization and records it in
+// the chain's deployment manifest. The browser deploys one Escrow contract per purchase from the
+// bytecode in the generated bindings (npm run bindings).
+//
+// Usage: npx hardhat run scripts/deploy-escrow-bridge.js --network localhost
+const { ethers, network } = require('hardhat');
+const { recordDeployment } = require('./deployment-manifest');
+
+async function main() {
+    const [deployer] = await ethers.getSigners();
+    const chainNetwork = await deployer.provider.getNetwork();
+    const { chainId } = chainNetwork;
+    console.log('\n🚀 Preparing on-chain escrow bridge');
+    console.log('🔑 Deploying with account:', deployer.address);
+    console.log('🌐 Network:', network.name, `(chainId ${chainId})`);
+
+    try {
+        console.log('\n📋 Deploying MockPropertyDeed...');
+        const MockPropertyDeed = await ethers.getContractFactory('MockPropertyDeed');
+        const deed = await MockPropertyDeed.deploy();
+        await deed.deployed();
+        console.log('✅ MockPropertyDeed deployed to:', deed.address);
+
+        recordDeployment(chainNetwork, { MockPropertyDeed: deed.address });
+
+        console.log('\n🔧 Enable on-chain escrow in react-frontend/.env:');
+        console.log('   VITE_ESCROW_MODE=onchain');
+
+        console.log('\n✅ Escrow bridge ready!');
+
+        return {
+            deedAddress: deed.address,
+            chainId,
+            deployer: deployer.address
+        };
+
+    } catch (error) {
+        console.error('\n❌ Escrow bridge deployment failed:', error);
+        throw error;
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then((result) => {
+            console.log('📊 Summary:', result);
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('\n💥 Deployment script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = main;
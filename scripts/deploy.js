@@ -1,5 +1,6 @@
 // scripts/deploy.js - Enhanced deployment script for RealEstate fractional ownership
 const { ethers } = require('hardhat');
+const { recordDeployment } = require('./deployment-manifest');
 
 async function main() {
     const [deployer] = await ethers.getSigners();
@@ -79,15 +80,8 @@ async function main() {
         console.log(`Deployer: ${deployer.address}`);
         console.log(`Total Properties: ${await realEstate.getTotalProperties()}`);
         
-        console.log('\n🔧 Update your frontend configuration:');
-        console.log('=====================================');
-        console.log(`1. Update CONTRACT_ADDRESSES in abis.ts:`);
-        console.log(`   ${await deployer.provider.getNetwork().then(n => n.chainId)}: {`);
-        console.log(`     RealEstate: "${contractAddress}",`);
-        console.log(`     ...`);
-        console.log(`   }`);
-        console.log(`\n2. Initialize Web3Service with:`);
-        console.log(`   await web3Service.initialize(provider, "${contractAddress}");`);
+        // The frontend picks the new address up from the manifest on its next build/reload
+        recordDeployment(await deployer.provider.getNetwork(), { RealEstate: contractAddress });
 
         console.log('\n✅ Deployment completed successfully!');
         
@@ -0,0 +1,37 @@
+// scripts/deployment-manifest.js - Records deployed addresses for the frontend
+//
+// Each chain gets react-frontend/src/contracts/deployments/<chainId>.json, which the frontend bundles
+// and looks up by the connected chainId (see react-frontend/src/contracts/deployments.ts). Entries are
+// merged into any existing manifest, so deploying one contract keeps the addresses of the others.
+const fs = require('fs');
+const path = require('path');
+
+const DEPLOYMENTS_DIR = path.join(__dirname, '..', 'react-frontend', 'src', 'contracts', 'deployments');
+
+/**
+ * @param {{ chainId: number|bigint, name: string }} network - provider.getNetwork() result
+ * @param {Record<string, string>} contracts - contract name => deployed address
+ * @param {Record<string, string>} [escrows] - escrow address => contract name
+ */
+function recordDeployment(network, contracts, escrows = {}) {
+    const chainId = Number(network.chainId);
+    const manifestPath = path.join(DEPLOYMENTS_DIR, `${chainId}.json`);
+    const existing = fs.existsSync(manifestPath)
+        ? JSON.parse(fs.readFileSync(manifestPath, 'utf8'))
+        : { contracts: {}, escrows: {} };
+
+    const manifest = {
+        chainId,
+        network: network.name,
+        contracts: { ...existing.contracts, ...contracts },
+        escrows: { ...existing.escrows, ...escrows },
+        updatedAt: new Date().toISOString()
+    };
+
+    fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+    console.log('\n📄 Recorded deployment in:', path.relative(process.cwd(), manifestPath));
+    return manifest;
+}
+
+module.exports = { recordDeployment };
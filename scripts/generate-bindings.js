@@ -0,0 +1,83 @@
+// scripts/generate-bindings.js - Generates typed frontend contract bindings from the Hardhat artifacts
+//
+// For every contract the frontend talks to, reads artifacts/contracts/<Name>.sol/<Name>.json and writes
+// react-frontend/src/contracts/generated/<Name>.ts with the ABI as a `const` literal, so
+// contracts/typedContract.ts can derive argument and return types for each function. Contracts the
+// browser deploys itself also get their creation bytecode.
+//
+// Usage: npm run bindings   (compiles first; or `node scripts/generate-bindings.js` after `npx hardhat compile`)
+const fs = require('fs');
+const path = require('path');
+
+const ARTIFACTS_DIR = path.join(__dirname, '..', 'artifacts', 'contracts');
+const OUTPUT_DIR = path.join(__dirname, '..', 'react-frontend', 'src', 'contracts', 'generated');
+
+// Contracts exposed to the frontend; `bytecode` marks the ones it deploys from the browser
+const BINDINGS = [
+    { name: 'RealEstate' },
+    { name: 'Escrow', bytecode: true },
+    { name: 'EscrowWithStableAndYield' },
+    { name: 'EscrowWithStableAndYieldCrossChain' },
+    { name: 'MockUSDC' },
+    { name: 'MockAUSDC' },
+    { name: 'KYCOracle' },
+    { name: 'MockPropertyDeed' }
+];
+
+function readArtifact(name) {
+    const artifactPath = path.join(ARTIFACTS_DIR, `${name}.sol`, `${name}.json`);
+    if (!fs.existsSync(artifactPath)) {
+        throw new Error(`Missing artifact for ${name} at ${path.relative(process.cwd(), artifactPath)} - run \`npx hardhat compile\` first`);
+    }
+    return JSON.parse(fs.readFileSync(artifactPath, 'utf8'));
+}
+
+function renderBinding(binding, artifact) {
+    const lines = [
+        `// Generated by scripts/generate-bindings.js from ${artifact.sourceName}. Do not edit by hand;`,
+        '// run `npm run bindings` in the repository root after changing the contract.',
+        "import type { TypedContract } from '../typedContract';",
+        '',
+        `export const ${binding.name}Abi = ${JSON.stringify(artifact.abi, null, 2)} as const;`,
+        '',
+        `export type ${binding.name}Contract = TypedContract<typeof ${binding.name}Abi>;`,
+        ''
+    ];
+    if (binding.bytecode) {
+        lines.push(`export const ${binding.name}Bytecode = '${artifact.bytecode}';`, '');
+    }
+    return lines.join('\n');
+}
+
+function renderIndex() {
+    const lines = ['// Generated by scripts/generate-bindings.js. Do not edit by hand.'];
+    BINDINGS.forEach(binding => lines.push(`export * from './${binding.name}';`));
+    return lines.join('\n') + '\n';
+}
+
+function main() {
+    console.log('\n🧬 Generating frontend contract bindings');
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+    for (const binding of BINDINGS) {
+        const artifact = readArtifact(binding.name);
+        const outputPath = path.join(OUTPUT_DIR, `${binding.name}.ts`);
+        fs.writeFileSync(outputPath, renderBinding(binding, artifact));
+        const functionCount = artifact.abi.filter(entry => entry.type === 'function').length;
+        console.log(`   ✅ ${binding.name} (${functionCount} functions${binding.bytecode ? ', bytecode' : ''})`);
+    }
+
+    fs.writeFileSync(path.join(OUTPUT_DIR, 'index.ts'), renderIndex());
+    console.log('\n📄 Wrote bindings to:', path.relative(process.cwd(), OUTPUT_DIR));
+}
+
+if (require.main === module) {
+    try {
+        main();
+    } catch (error) {
+        console.error('\n💥 Binding generation failed:', error.message);
+        process.exit(1);
+    }
+}
+
+module.exports = main;